@@ -254,8 +254,10 @@ describe('Frontend-Backend Communication Integration', () => {
       }
 
       mockAgent.com.atproto.repo.createRecord.mockResolvedValue({
-        uri: 'at://did:example:alice/app.warlog.journal/test123',
-        cid: 'bafkreitestcid123',
+        data: {
+          uri: 'at://did:example:alice/app.warlog.journal/test123',
+          cid: 'bafkreitestcid123',
+        },
       })
 
       const wrapper = createQueryWrapper(queryClient)
@@ -484,8 +486,10 @@ describe('Frontend-Backend Communication Integration', () => {
       // Mock the first update to succeed
       mockAgent.com.atproto.repo.putRecord
         .mockResolvedValueOnce({
-          uri: testEntry.uri,
-          cid: 'new-cid-123',
+          data: {
+            uri: testEntry.uri,
+            cid: 'new-cid-123',
+          },
         })
         // Mock the second update to fail with conflict
         .mockRejectedValueOnce({
@@ -545,8 +549,10 @@ describe('Frontend-Backend Communication Integration', () => {
       })
 
       mockAgent.com.atproto.repo.createRecord.mockResolvedValue({
-        uri: 'at://did:example:alice/app.warlog.journal/new123',
-        cid: 'bafkreinew123',
+        data: {
+          uri: 'at://did:example:alice/app.warlog.journal/new123',
+          cid: 'bafkreinew123',
+        },
       })
 
       const wrapper = createQueryWrapper(queryClient)
@@ -752,19 +758,21 @@ describe('Frontend-Backend Communication Integration', () => {
       
       // Mock the dependent data fetching
       mockAgent.com.atproto.repo.getRecord.mockResolvedValue({
-        uri: journalEntryUri,
-        cid: 'bafkreidependent123',
-        value: {
-          $type: 'app.warlog.journal',
-          text: 'Entry for dependency testing',
-          entryType: 'real_time',
-          privacyLevel: 'public',
-          evidenceUris: [
-            'at://did:example:evidence/doc1',
-            'at://did:example:evidence/doc2',
-          ],
-          sourceIds: ['source-1', 'source-2'],
-          createdAt: new Date().toISOString(),
+        data: {
+          uri: journalEntryUri,
+          cid: 'bafkreidependent123',
+          value: {
+            $type: 'app.warlog.journal',
+            text: 'Entry for dependency testing',
+            entryType: 'real_time',
+            privacyLevel: 'public',
+            evidenceUris: [
+              'at://did:example:evidence/doc1',
+              'at://did:example:evidence/doc2',
+            ],
+            sourceIds: ['source-1', 'source-2'],
+            createdAt: new Date().toISOString(),
+          },
         },
       })
 
@@ -773,8 +781,8 @@ describe('Frontend-Backend Communication Integration', () => {
         const entryQuery = useJournalEntry(journalEntryUri)
         
         // Dependent queries that only run when main entry is loaded
-        const evidenceQueries = (entryQuery.data?.evidenceUris || []).map(uri =>
-          useJournalEntry(uri, !!entryQuery.data)
+        const evidenceQueries = (entryQuery.data?.evidenceAttachments || []).map(evidence =>
+          useJournalEntry(evidence.uri, !!entryQuery.data)
         )
         
         return {
@@ -789,7 +797,8 @@ describe('Frontend-Backend Communication Integration', () => {
       })
 
       expect(result.current.entry.data).toBeDefined()
-      expect(result.current.entry.data?.evidenceUris).toHaveLength(2)
+      // Older records listed evidence as bare URIs
+      expect(result.current.entry.data?.evidenceAttachments).toHaveLength(2)
       
       // Verify dependent queries were triggered
       expect(mockAgent.com.atproto.repo.getRecord).toHaveBeenCalledWith(
@@ -811,15 +820,19 @@ describe('Frontend-Backend Communication Integration', () => {
       // Mock some queries to succeed and others to fail
       mockAgent.com.atproto.repo.getRecord
         .mockResolvedValueOnce({
-          uri: entryUris[0],
-          cid: 'bafkreiparallel1',
-          value: createMockJournalEntry({ text: 'Parallel entry 1' }),
+          data: {
+            uri: entryUris[0],
+            cid: 'bafkreiparallel1',
+            value: createMockJournalEntry({ text: 'Parallel entry 1' }),
+          },
         })
         .mockRejectedValueOnce(new Error('Entry not found'))
         .mockResolvedValueOnce({
-          uri: entryUris[2],
-          cid: 'bafkreiparallel3',
-          value: createMockJournalEntry({ text: 'Parallel entry 3' }),
+          data: {
+            uri: entryUris[2],
+            cid: 'bafkreiparallel3',
+            value: createMockJournalEntry({ text: 'Parallel entry 3' }),
+          },
         })
 
       const wrapper = createQueryWrapper(queryClient)
@@ -933,27 +946,31 @@ describe('Frontend-Backend Communication Integration', () => {
         text: 'Type safety test entry',
         entryType: 'real_time',
         isPrivate: true,
-        evidenceUris: ['at://did:example:evidence/doc1'],
+        evidenceAttachments: [
+          {uri: 'at://did:example:evidence/doc1', type: 'document', filename: 'doc1'},
+        ],
         tags: ['type-safety', 'test'],
       })
 
       mockAgent.com.atproto.repo.getRecord.mockResolvedValue({
-        uri: typedEntry.uri,
-        cid: typedEntry.cid,
-        value: {
-          $type: 'app.warlog.journal',
-          text: typedEntry.text,
-          entryType: typedEntry.entryType,
-          privacyLevel: typedEntry.isPrivate ? 'private' : 'public',
-          classification: 'sensitive',
-          content: {
+        data: {
+          uri: typedEntry.uri,
+          cid: typedEntry.cid,
+          value: {
+            $type: 'app.warlog.journal',
             text: typedEntry.text,
-            isEncrypted: true,
-            encryptionLevel: 'standard',
+            entryType: typedEntry.entryType,
+            privacyLevel: typedEntry.isPrivate ? 'private' : 'public',
+            classification: 'sensitive',
+            content: {
+              text: typedEntry.text,
+              isEncrypted: true,
+              encryptionLevel: 'standard',
+            },
+            evidenceAttachments: typedEntry.evidenceAttachments,
+            tags: typedEntry.tags,
+            createdAt: typedEntry.createdAt,
           },
-          evidenceUris: typedEntry.evidenceUris,
-          tags: typedEntry.tags,
-          createdAt: typedEntry.createdAt,
         },
       })
 
@@ -971,7 +988,7 @@ describe('Frontend-Backend Communication Integration', () => {
       expect(retrievedEntry.text).toBe(typedEntry.text)
       expect(retrievedEntry.entryType).toBe(typedEntry.entryType)
       expect(retrievedEntry.isPrivate).toBe(true)
-      expect(retrievedEntry.evidenceUris).toEqual(typedEntry.evidenceUris)
+      expect(retrievedEntry.evidenceAttachments).toEqual(typedEntry.evidenceAttachments)
       expect(retrievedEntry.tags).toEqual(typedEntry.tags)
       expect(retrievedEntry.createdAt).toBe(typedEntry.createdAt)
       
@@ -0,0 +1,126 @@
+import {
+  buildJournalCaseTimeline,
+  createJournalCase,
+  getJournalCaseEntryUris,
+  type JournalCase,
+  normalizeJournalCase,
+  toggleJournalCaseEntry,
+  toggleJournalCaseEvidence,
+} from '../../src/lib/journal-cases'
+
+function journalCase(overrides: Partial<JournalCase> = {}): JournalCase {
+  return {...createJournalCase('Landlord dispute'), ...overrides}
+}
+
+const attachment = {
+  uri: 'https://example.com/photo.jpg',
+  type: 'image' as const,
+  filename: 'photo.jpg',
+  capturedAt: '2024-03-01T09:00:00.000Z',
+}
+
+const entries = [
+  {
+    uri: 'entry1',
+    createdAt: '2024-03-05T12:00:00.000Z',
+    incidentTimestamp: '2024-03-01T10:00:00.000Z',
+    evidenceAttachments: [attachment],
+  },
+  {uri: 'entry2', createdAt: '2024-02-01T12:00:00.000Z'},
+]
+
+describe('normalizeJournalCase', () => {
+  it('fills in missing fields', () => {
+    expect(normalizeJournalCase({title: 'Old case'})).toEqual(
+      createJournalCase('Old case'),
+    )
+  })
+
+  it('replaces a status it does not know', () => {
+    expect(
+      normalizeJournalCase({
+        title: 'Case',
+        status: 'archived' as JournalCase['status'],
+      }).status,
+    ).toBe('open')
+  })
+})
+
+describe('toggleJournalCaseEntry', () => {
+  it('adds and removes an entry', () => {
+    const added = toggleJournalCaseEntry(journalCase(), 'entry1')
+    expect(added.entries).toEqual(['entry1'])
+    expect(toggleJournalCaseEntry(added, 'entry1').entries).toEqual([])
+  })
+})
+
+describe('toggleJournalCaseEvidence', () => {
+  it('tells attachments apart by the entry they belong to', () => {
+    const evidence = {entry: 'entry1', uri: attachment.uri}
+    const added = toggleJournalCaseEvidence(
+      toggleJournalCaseEvidence(journalCase(), evidence),
+      {entry: 'entry2', uri: attachment.uri},
+    )
+    expect(added.evidence).toHaveLength(2)
+    expect(toggleJournalCaseEvidence(added, evidence).evidence).toEqual([
+      {entry: 'entry2', uri: attachment.uri},
+    ])
+  })
+})
+
+describe('getJournalCaseEntryUris', () => {
+  it('includes the entries evidence was attached to', () => {
+    expect([
+      ...getJournalCaseEntryUris(
+        journalCase({
+          entries: ['entry2'],
+          evidence: [{entry: 'entry1', uri: attachment.uri}],
+        }),
+      ),
+    ]).toEqual(['entry2', 'entry1'])
+  })
+})
+
+describe('buildJournalCaseTimeline', () => {
+  it('orders key dates, entries and evidence by when they happened', () => {
+    const timeline = buildJournalCaseTimeline(
+      journalCase({
+        keyDates: [{date: '2024-03-01', label: 'Complaint filed'}],
+        entries: ['entry1', 'entry2'],
+        evidence: [{entry: 'entry1', uri: attachment.uri}],
+      }),
+      entries,
+    )
+    expect(timeline.map(item => item.type)).toEqual([
+      'entry',
+      'key_date',
+      'evidence',
+      'entry',
+    ])
+    expect(timeline[0].date).toBe('2024-02-01T12:00:00.000Z')
+    expect(timeline[3].date).toBe('2024-03-01T10:00:00.000Z')
+  })
+
+  it('puts key dates first when they fall at the same time', () => {
+    const timeline = buildJournalCaseTimeline(
+      journalCase({
+        keyDates: [{date: '2024-02-01T12:00:00.000Z', label: 'Hearing'}],
+        entries: ['entry2'],
+      }),
+      entries,
+    )
+    expect(timeline.map(item => item.type)).toEqual(['key_date', 'entry'])
+  })
+
+  it('leaves out entries and evidence that are gone', () => {
+    expect(
+      buildJournalCaseTimeline(
+        journalCase({
+          entries: ['deleted'],
+          evidence: [{entry: 'entry1', uri: 'https://example.com/removed.jpg'}],
+        }),
+        entries,
+      ),
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,155 @@
+import {randomBytes} from '@noble/ciphers/webcrypto'
+
+import {
+  computeKeyId,
+  deriveJournalKey,
+  openBytes,
+  openPayload,
+  sealBytes,
+  sealPayload,
+} from '../../src/lib/journal-encryption/crypto'
+import {
+  decodeRecoveryPhrase,
+  encodeRecoveryPhrase,
+} from '../../src/lib/journal-encryption/recovery'
+import {
+  createJournalKey,
+  forgetJournalKeys,
+  JournalKeyUnavailableError,
+  openJournalRecord,
+  requiresEncryption,
+  sealJournalRecord,
+} from '../../src/lib/journal-encryption'
+
+const did = 'did:example:alice'
+
+describe('sealPayload / openPayload', () => {
+  it('round-trips structured data', () => {
+    const key = randomBytes(32)
+    const data = {text: 'hello', symptoms: [{category: 'other', severity: 3}]}
+    const sealed = sealPayload(key, data)
+    expect(sealed.keyId).toEqual(computeKeyId(key))
+    expect(sealed.ciphertext).not.toContain('hello')
+    expect(openPayload(key, sealed)).toEqual(data)
+  })
+
+  it('rejects the wrong key', () => {
+    const sealed = sealPayload(randomBytes(32), {text: 'hello'})
+    expect(() => openPayload(randomBytes(32), sealed)).toThrow()
+  })
+
+  it('rejects tampered ciphertext', () => {
+    const key = randomBytes(32)
+    const sealed = sealPayload(key, {text: 'hello'})
+    const tampered = {
+      ...sealed,
+      ciphertext: 'A' + sealed.ciphertext.slice(1),
+    }
+    expect(() => openPayload(key, tampered)).toThrow()
+  })
+
+  it('derives the same key from the same passphrase and salt', async () => {
+    const params = {salt: 'c2FsdHNhbHRzYWx0c2FsdA==', iterations: 1000}
+    const a = await deriveJournalKey('passphrase', params)
+    const b = await deriveJournalKey('passphrase', params)
+    const c = await deriveJournalKey('other', params)
+    expect(computeKeyId(a)).toEqual(computeKeyId(b))
+    expect(computeKeyId(a)).not.toEqual(computeKeyId(c))
+  })
+})
+
+describe('sealBytes / openBytes', () => {
+  it('round-trips file contents', () => {
+    const key = randomBytes(32)
+    const bytes = randomBytes(100)
+    const sealed = sealBytes(key, bytes)
+    expect(sealed.length).toBeGreaterThan(bytes.length)
+    expect(openBytes(key, sealed)).toEqual(bytes)
+  })
+
+  it('rejects the wrong key and tampered bytes', () => {
+    const key = randomBytes(32)
+    const sealed = sealBytes(key, randomBytes(100))
+    expect(() => openBytes(randomBytes(32), sealed)).toThrow()
+    sealed[sealed.length - 1] ^= 1
+    expect(() => openBytes(key, sealed)).toThrow()
+  })
+})
+
+describe('recovery phrase', () => {
+  it('round-trips a key', () => {
+    const key = randomBytes(32)
+    const phrase = encodeRecoveryPhrase(key)
+    expect(phrase).toMatch(/^([0-9A-Z]{4}-)+[0-9A-Z]{4}$/)
+    expect(decodeRecoveryPhrase(phrase)).toEqual(key)
+  })
+
+  it('tolerates case, whitespace and ambiguous characters', () => {
+    const key = randomBytes(32)
+    const phrase = encodeRecoveryPhrase(key)
+    const sloppy = phrase.toLowerCase().replace(/-/g, ' ').replace(/1/g, 'l')
+    expect(decodeRecoveryPhrase(sloppy)).toEqual(key)
+  })
+
+  it('catches typos with the checksum', () => {
+    const phrase = encodeRecoveryPhrase(randomBytes(32))
+    const typo = (phrase[0] === 'A' ? 'B' : 'A') + phrase.slice(1)
+    expect(() => decodeRecoveryPhrase(typo)).toThrow()
+  })
+})
+
+describe('journal records', () => {
+  afterEach(async () => {
+    await forgetJournalKeys(did)
+  })
+
+  it('only encrypts private and contacts entries', () => {
+    expect(requiresEncryption({isPrivate: true})).toBe(true)
+    expect(requiresEncryption({visibility: 'contacts'})).toBe(true)
+    expect(requiresEncryption({privacyLevel: 'private'})).toBe(true)
+    expect(requiresEncryption({isPrivate: false, visibility: 'public'})).toBe(
+      false,
+    )
+  })
+
+  it('seals sensitive fields and opens them again', async () => {
+    await createJournalKey(did, 'correct horse')
+    const record = {
+      text: 'something happened',
+      symptoms: [{category: 'other', severity: 5}],
+      location: {latitude: 1, longitude: 2},
+      tags: ['a'],
+      isPrivate: true,
+    }
+    const sealed: any = await sealJournalRecord(did, record)
+    expect(sealed.text).toEqual('')
+    expect(sealed.symptoms).toBeUndefined()
+    expect(sealed.location).toBeUndefined()
+    expect(sealed.tags).toEqual(['a'])
+
+    const opened = await openJournalRecord(did, sealed)
+    expect(opened).toEqual({...record, isEncrypted: true})
+  })
+
+  it('leaves public entries in plaintext', async () => {
+    const record = {text: 'public', isPrivate: false}
+    expect(await sealJournalRecord(did, record)).toEqual(record)
+  })
+
+  it('refuses to seal without a key', async () => {
+    await expect(
+      sealJournalRecord(did, {text: 'secret', isPrivate: true}),
+    ).rejects.toBeInstanceOf(JournalKeyUnavailableError)
+  })
+
+  it('marks records it cannot open as locked', async () => {
+    await createJournalKey(did, 'correct horse')
+    const sealed = await sealJournalRecord(did, {text: 'x', isPrivate: true})
+    await forgetJournalKeys(did)
+    const opened = await openJournalRecord(did, sealed)
+    expect(opened.isLocked).toBe(true)
+    await expect(sealJournalRecord(did, opened)).rejects.toBeInstanceOf(
+      JournalKeyUnavailableError,
+    )
+  })
+})
@@ -0,0 +1,111 @@
+import {type BlobRef} from '@atproto/api'
+
+import {
+  getEvidenceBlobUrl,
+  getEvidenceThumbnailUrl,
+  getEvidenceType,
+  JournalEvidenceValidationError,
+  parseExifDate,
+  validateEvidenceFile,
+} from '../../src/lib/journal-evidence'
+
+const MB = 1024 * 1024
+
+describe('getEvidenceType', () => {
+  it('maps supported mime types to evidence types', () => {
+    expect(getEvidenceType('image/jpeg')).toBe('image')
+    expect(getEvidenceType('video/quicktime')).toBe('video')
+    expect(getEvidenceType('audio/mpeg')).toBe('audio')
+    expect(getEvidenceType('application/pdf')).toBe('document')
+  })
+
+  it('ignores case and parameters', () => {
+    expect(getEvidenceType('Audio/WebM; codecs=opus')).toBe('audio')
+  })
+
+  it('returns undefined for unsupported types', () => {
+    expect(getEvidenceType('application/zip')).toBeUndefined()
+    expect(getEvidenceType('')).toBeUndefined()
+  })
+})
+
+describe('validateEvidenceFile', () => {
+  it('accepts files within the limit for their type', () => {
+    expect(
+      validateEvidenceFile({
+        filename: 'clip.mp4',
+        mimeType: 'video/mp4',
+        size: 40 * MB,
+      }),
+    ).toBe('video')
+  })
+
+  it('rejects unsupported types', () => {
+    expect(() =>
+      validateEvidenceFile({
+        filename: 'archive.zip',
+        mimeType: 'application/zip',
+        size: 1,
+      }),
+    ).toThrow(JournalEvidenceValidationError)
+  })
+
+  it('rejects files over the limit for their type', () => {
+    expect(() =>
+      validateEvidenceFile({
+        filename: 'photo.jpg',
+        mimeType: 'image/jpeg',
+        size: 11 * MB,
+      }),
+    ).toThrow(/too large/)
+  })
+})
+
+describe('parseExifDate', () => {
+  it('reads EXIF dates as device time', () => {
+    expect(parseExifDate('2024:03:05 14:30:00')).toBe(
+      new Date(2024, 2, 5, 14, 30, 0).toISOString(),
+    )
+  })
+
+  it('ignores missing or malformed dates', () => {
+    expect(parseExifDate(undefined)).toBeUndefined()
+    expect(parseExifDate('2024-03-05T14:30:00Z')).toBeUndefined()
+  })
+})
+
+describe('getEvidenceThumbnailUrl', () => {
+  const cid = 'bafkreiea6ypzmgcfes5fjw3wp3kjjbzzeqyk2jv7ltzo62ezaxzuaazf24'
+  const uri = getEvidenceBlobUrl('https://pds.example.com', 'did:plc:me', 'x')
+
+  it('points at the thumbnail blob on the same PDS', () => {
+    // multiformats is mocked in tests, so this stands in for a decoded CID
+    const thumbnail = {
+      ref: {toString: () => cid},
+      mimeType: 'image/jpeg',
+      size: 100,
+    } as unknown as BlobRef
+    const url = new URL(getEvidenceThumbnailUrl({uri, thumbnail})!)
+    expect(url.origin).toBe('https://pds.example.com')
+    expect(url.pathname).toBe('/xrpc/com.atproto.sync.getBlob')
+    expect(url.searchParams.get('did')).toBe('did:plc:me')
+    expect(url.searchParams.get('cid')).toBe(cid)
+  })
+
+  it('reads refs that have been through JSON', () => {
+    const thumbnail = JSON.parse(
+      JSON.stringify({
+        $type: 'blob',
+        ref: {$link: cid},
+        mimeType: 'image/jpeg',
+        size: 100,
+      }),
+    )
+    const url = new URL(getEvidenceThumbnailUrl({uri, thumbnail})!)
+    expect(url.searchParams.get('cid')).toBe(cid)
+  })
+
+  it('returns undefined without a thumbnail', () => {
+    expect(getEvidenceThumbnailUrl({uri})).toBeUndefined()
+  })
+})
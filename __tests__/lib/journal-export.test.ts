@@ -0,0 +1,334 @@
+import {
+  buildJournalAccessLogCSV,
+  buildJournalExportCSV,
+  buildJournalExportJSON,
+  buildJournalReportHTML,
+  escapeCSVField,
+  filterJournalExportEntries,
+  type JournalExportEntry,
+  type JournalExportRevision,
+  type JournalReportStrings,
+  toJournalExportEntry,
+  toJournalExportRevision,
+} from '../../src/lib/journal-export'
+
+function entry(
+  overrides: Partial<JournalExportEntry> = {},
+): JournalExportEntry {
+  return {
+    uri: 'at://did:example:alice/app.warlog.journal/1',
+    createdAt: '2024-03-01T12:00:00.000Z',
+    entryType: 'real_time',
+    privacyLevel: 'public',
+    text: 'something happened',
+    symptoms: [],
+    tags: [],
+    sourceIds: [],
+    evidence: [],
+    isLocked: false,
+    ...overrides,
+  }
+}
+
+const strings: JournalReportStrings = {
+  title: 'Journal report',
+  generated: 'Generated',
+  entries: 'Entries',
+  recorded: 'Recorded',
+  backdated: 'Backdated entry.',
+  location: 'Location',
+  symptoms: 'Symptoms',
+  tags: 'Tags',
+  evidence: 'Evidence',
+  locked: 'Locked',
+  earlierVersions: 'Earlier versions',
+  replaced: 'Replaced',
+  case: 'Case',
+}
+
+function revision(
+  overrides: Partial<JournalExportRevision> = {},
+): JournalExportRevision {
+  const {uri: _uri, ...rest} = entry({text: 'first draft'})
+  return {
+    ...rest,
+    cid: 'cid1',
+    revisedAt: '2024-03-02T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('toJournalExportEntry', () => {
+  it('maps legacy privacy fields to a privacy level', () => {
+    expect(toJournalExportEntry({uri: 'a', isPrivate: true}).privacyLevel).toBe(
+      'private',
+    )
+    expect(
+      toJournalExportEntry({uri: 'a', visibility: 'community'}).privacyLevel,
+    ).toBe('badge_community')
+    expect(toJournalExportEntry({uri: 'a'}).privacyLevel).toBe('public')
+  })
+
+  it('collects evidence from URIs and attachments', () => {
+    const result = toJournalExportEntry({
+      uri: 'a',
+      evidenceUris: ['x'],
+      evidenceAttachments: [{uri: 'y'}],
+    })
+    expect(result.evidence).toEqual(['x', 'y'])
+  })
+})
+
+describe('toJournalExportRevision', () => {
+  it('keeps the CID and replacement time instead of the URI', () => {
+    const exported = toJournalExportRevision(
+      {
+        uri: 'at://did:example:alice/app.warlog.journal/1',
+        cid: 'cid1',
+        createdAt: '2024-03-01T00:00:00.000Z',
+        text: 'first draft',
+      },
+      '2024-03-02T00:00:00.000Z',
+    )
+    expect(exported).toMatchObject({
+      cid: 'cid1',
+      revisedAt: '2024-03-02T00:00:00.000Z',
+      text: 'first draft',
+    })
+    expect('uri' in exported).toBe(false)
+  })
+})
+
+describe('escapeCSVField', () => {
+  it('quotes commas, quotes and newlines', () => {
+    expect(escapeCSVField('plain')).toBe('plain')
+    expect(escapeCSVField('a,b')).toBe('"a,b"')
+    expect(escapeCSVField('say "hi"')).toBe('"say ""hi"""')
+    expect(escapeCSVField('line\nbreak')).toBe('"line\nbreak"')
+  })
+
+  it('neutralises spreadsheet formulas but not numbers', () => {
+    expect(escapeCSVField('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"')
+    expect(escapeCSVField('@SUM(A1)')).toBe("'@SUM(A1)")
+    expect(escapeCSVField('-33.86')).toBe('-33.86')
+  })
+})
+
+describe('buildJournalExportCSV', () => {
+  it('writes a header and one row per entry, oldest first', () => {
+    const csv = buildJournalExportCSV(
+      [
+        entry({uri: 'b', createdAt: '2024-03-02T00:00:00.000Z'}),
+        entry({uri: 'a', createdAt: '2024-03-01T00:00:00.000Z'}),
+      ],
+      {includeEvidence: true},
+    )
+    const lines = csv.trim().split('\r\n')
+    expect(lines[0].startsWith('uri,createdAt')).toBe(true)
+    expect(lines[1].startsWith('a,')).toBe(true)
+    expect(lines[2].startsWith('b,')).toBe(true)
+  })
+
+  it('leaves out evidence unless asked', () => {
+    const csv = buildJournalExportCSV([entry({evidence: ['blob:1']})], {
+      includeEvidence: false,
+    })
+    expect(csv).not.toContain('blob:1')
+  })
+
+  it('writes earlier versions just before the entry', () => {
+    const csv = buildJournalExportCSV(
+      [entry({revisions: [revision({evidence: ['blob:old']})]})],
+      {includeEvidence: false},
+    )
+    const lines = csv.trim().split('\r\n')
+    expect(lines[0].endsWith(',locked,revisedAt')).toBe(true)
+    expect(lines[1]).toContain('first draft')
+    expect(lines[1].endsWith(',false,2024-03-02T00:00:00.000Z')).toBe(true)
+    expect(lines[2]).toContain('something happened')
+    expect(lines[2].endsWith(',false,')).toBe(true)
+    expect(csv).not.toContain('blob:old')
+  })
+})
+
+describe('buildJournalAccessLogCSV', () => {
+  it('writes one row per view, oldest first', () => {
+    const view = (id: string, accessedAt: string) => ({
+      id,
+      entryUri: 'at://did:example:alice/app.warlog.journal/1',
+      viewerDid: `did:example:${id}`,
+      accessedAt,
+      accessPath: 'feed' as const,
+    })
+    const csv = buildJournalAccessLogCSV([
+      {...view('bob', '2024-03-02T00:00:00.000Z'), viewerHandle: 'bob.test'},
+      view('carol', '2024-03-01T00:00:00.000Z'),
+    ])
+    expect(csv.trim().split('\r\n')).toEqual([
+      'accessedAt,viewerDid,viewerHandle,accessPath,entryUri',
+      '2024-03-01T00:00:00.000Z,did:example:carol,,feed,at://did:example:alice/app.warlog.journal/1',
+      '2024-03-02T00:00:00.000Z,did:example:bob,bob.test,feed,at://did:example:alice/app.warlog.journal/1',
+    ])
+  })
+})
+
+describe('buildJournalExportJSON', () => {
+  it('wraps entries with export metadata', () => {
+    const json = JSON.parse(
+      buildJournalExportJSON([entry({evidence: ['blob:1']})], {
+        includeEvidence: false,
+        exportedAt: '2024-04-01T00:00:00.000Z',
+      }),
+    )
+    expect(json).toMatchObject({
+      version: 1,
+      exportedAt: '2024-04-01T00:00:00.000Z',
+      entryCount: 1,
+    })
+    expect(json.entries[0].evidence).toEqual([])
+  })
+
+  it('leaves evidence out of earlier versions too', () => {
+    const json = JSON.parse(
+      buildJournalExportJSON(
+        [entry({revisions: [revision({evidence: ['blob:old']})]})],
+        {includeEvidence: false},
+      ),
+    )
+    expect(json.entries[0].revisions[0]).toMatchObject({
+      cid: 'cid1',
+      text: 'first draft',
+      evidence: [],
+    })
+  })
+})
+
+describe('buildJournalReportHTML', () => {
+  it('escapes entry text', () => {
+    const html = buildJournalReportHTML(
+      [entry({text: '<script>alert(1)</script>'})],
+      strings,
+      {includeEvidence: false},
+    )
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&lt;script&gt;')
+  })
+
+  it('orders backdated entries by when the incident happened', () => {
+    const html = buildJournalReportHTML(
+      [
+        entry({text: 'written first', createdAt: '2024-03-01T00:00:00.000Z'}),
+        entry({
+          text: 'happened first',
+          entryType: 'backdated',
+          createdAt: '2024-03-05T00:00:00.000Z',
+          incidentTimestamp: '2024-02-01T00:00:00.000Z',
+        }),
+      ],
+      strings,
+      {includeEvidence: false},
+    )
+    expect(html.indexOf('happened first')).toBeLessThan(
+      html.indexOf('written first'),
+    )
+    expect(html).toContain('Backdated entry.')
+  })
+
+  it('does not print the text of locked entries', () => {
+    const html = buildJournalReportHTML(
+      [entry({text: 'ciphertext', isLocked: true})],
+      strings,
+      {includeEvidence: false},
+    )
+    expect(html).toContain('Locked')
+    expect(html).not.toContain('ciphertext')
+  })
+
+  it('prints earlier versions after the entry', () => {
+    const html = buildJournalReportHTML(
+      [entry({revisions: [revision({text: '<b>first</b> draft'})]})],
+      strings,
+      {includeEvidence: false},
+    )
+    expect(html).toContain('Earlier versions')
+    expect(html).toContain('&lt;b&gt;first&lt;/b&gt; draft')
+    expect(html.indexOf('something happened')).toBeLessThan(
+      html.indexOf('Earlier versions'),
+    )
+  })
+
+  it('names the case the report is scoped to', () => {
+    const html = buildJournalReportHTML([entry()], strings, {
+      includeEvidence: false,
+      journalCase: {
+        title: 'Landlord <dispute>',
+        summary: 'Repairs refused',
+        status: 'open',
+        keyDates: [],
+        sources: [],
+      },
+    })
+    expect(html).toContain('Case: Landlord &lt;dispute&gt;')
+    expect(html).toContain('Repairs refused')
+  })
+})
+
+describe('filterJournalExportEntries', () => {
+  const entries = [
+    entry({uri: 'private', privacyLevel: 'private', tags: ['work']}),
+    entry({
+      uri: 'old',
+      createdAt: '2023-01-01T00:00:00.000Z',
+      symptoms: [{category: 'acoustic', severity: 8}],
+    }),
+    entry({uri: 'mild', symptoms: [{category: 'acoustic', severity: 2}]}),
+  ]
+  const uris = (result: JournalExportEntry[]) => result.map(e => e.uri)
+
+  it('drops private entries unless included', () => {
+    expect(
+      uris(filterJournalExportEntries(entries, {includePrivate: false})),
+    ).toEqual(['old', 'mild'])
+  })
+
+  it('applies the date range and feed filters', () => {
+    expect(
+      uris(
+        filterJournalExportEntries(entries, {
+          includePrivate: true,
+          dateRange: {
+            start: '2024-01-01T00:00:00.000Z',
+            end: '2024-12-31T00:00:00.000Z',
+          },
+        }),
+      ),
+    ).toEqual(['private', 'mild'])
+    expect(
+      uris(
+        filterJournalExportEntries(entries, {
+          includePrivate: true,
+          filters: {minSeverity: 5},
+        }),
+      ),
+    ).toEqual(['old'])
+    expect(
+      uris(
+        filterJournalExportEntries(entries, {
+          includePrivate: true,
+          filters: {tags: ['work']},
+        }),
+      ),
+    ).toEqual(['private'])
+  })
+
+  it('keeps only the entries in a case', () => {
+    expect(
+      uris(
+        filterJournalExportEntries(entries, {
+          includePrivate: false,
+          entryUris: new Set(['private', 'mild']),
+        }),
+      ),
+    ).toEqual(['mild'])
+  })
+})
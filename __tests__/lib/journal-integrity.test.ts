@@ -0,0 +1,152 @@
+import {
+  amendJournalIntegrity,
+  buildJournalManifest,
+  canonicalJSON,
+  createJournalIntegrity,
+  hashJournalRecord,
+  signJournalManifest,
+  verifyJournalChain,
+  verifyJournalManifest,
+  verifyJournalRecord,
+} from '../../src/lib/journal-integrity'
+
+const did = 'did:example:alice'
+
+function chain(texts: string[]) {
+  const records: Array<Record<string, any> & {uri: string}> = []
+  let head = null
+  for (const [i, text] of texts.entries()) {
+    const record = {text, createdAt: `2024-03-0${i + 1}T00:00:00.000Z`}
+    const integrity = createJournalIntegrity(record, head)
+    head = {seq: integrity.seq, chainHash: integrity.chainHash}
+    records.push({
+      ...record,
+      integrity,
+      uri: `at://${did}/app.warlog.journal/${i}`,
+    })
+  }
+  return records
+}
+
+describe('canonicalJSON', () => {
+  it('ignores key order and undefined values', () => {
+    expect(canonicalJSON({b: 1, a: {d: [1, 2], c: undefined}})).toBe(
+      canonicalJSON({a: {d: [1, 2]}, b: 1}),
+    )
+  })
+})
+
+describe('verifyJournalRecord', () => {
+  it('reports an untouched record as intact', () => {
+    const [record] = chain(['hello'])
+    const {uri: _uri, ...value} = record
+    expect(verifyJournalRecord(value)).toMatchObject({
+      status: 'intact',
+      chainHashValid: true,
+    })
+  })
+
+  it('detects changes made outside the app', () => {
+    const [record] = chain(['hello'])
+    const {uri: _uri, ...value} = record
+    expect(verifyJournalRecord({...value, text: 'goodbye'}).status).toBe(
+      'modified',
+    )
+    expect(
+      verifyJournalRecord({...value, createdAt: '2020-01-01T00:00:00.000Z'})
+        .status,
+    ).toBe('modified')
+  })
+
+  it('accepts recorded edits as amended', () => {
+    const [record] = chain(['hello'])
+    const {uri: _uri, integrity, ...value} = record
+    const edited = {...value, text: 'hello again'}
+    const amended = {
+      ...edited,
+      integrity: amendJournalIntegrity(edited, integrity),
+    }
+    expect(verifyJournalRecord(amended).status).toBe('amended')
+    expect(amended.integrity.contentHash).toBe(integrity.contentHash)
+  })
+
+  it('detects a tampered integrity block', () => {
+    const [record] = chain(['hello'])
+    const {uri: _uri, ...value} = record
+    const tampered = {
+      ...value,
+      integrity: {...value.integrity, seq: 5},
+    }
+    expect(verifyJournalRecord(tampered).chainHashValid).toBe(false)
+  })
+
+  it('does not hash the integrity block itself', () => {
+    const record = {text: 'hello'}
+    expect(hashJournalRecord({...record, integrity: {} as any})).toBe(
+      hashJournalRecord(record),
+    )
+  })
+})
+
+describe('verifyJournalChain', () => {
+  it('accepts an unbroken chain', () => {
+    const {head, breaks} = verifyJournalChain(chain(['a', 'b', 'c']))
+    expect(breaks).toEqual([])
+    expect(head?.seq).toBe(2)
+  })
+
+  it('detects a deleted entry', () => {
+    const [first, , third] = chain(['a', 'b', 'c'])
+    expect(verifyJournalChain([first, third]).breaks).toEqual([
+      {uri: third.uri, seq: 2, reason: 'missing_predecessor'},
+    ])
+  })
+
+  it('accepts entries removed by data retention', () => {
+    const [first, second, third] = chain(['a', 'b', 'c'])
+    expect(
+      verifyJournalChain([first, third], [second.integrity.chainHash]).breaks,
+    ).toEqual([])
+  })
+
+  it('detects a fork', () => {
+    const records = chain(['a', 'b'])
+    const head = {
+      seq: records[0].integrity.seq,
+      chainHash: records[0].integrity.chainHash,
+    }
+    const fork = {
+      text: 'c',
+      uri: 'at://fork',
+      integrity: createJournalIntegrity({text: 'c'}, head),
+    }
+    expect(verifyJournalChain([...records, fork]).breaks).toEqual([
+      expect.objectContaining({reason: 'fork'}),
+    ])
+  })
+})
+
+describe('signed manifest', () => {
+  const privateKey = new Uint8Array(32).fill(7)
+
+  it('verifies a signed manifest', () => {
+    const signed = signJournalManifest(
+      buildJournalManifest(did, chain(['a', 'b'])),
+      privateKey,
+    )
+    expect(signed.manifest.entries).toHaveLength(2)
+    expect(verifyJournalManifest(signed)).toBe(true)
+  })
+
+  it('rejects an edited manifest', () => {
+    const signed = signJournalManifest(
+      buildJournalManifest(did, chain(['a', 'b'])),
+      privateKey,
+    )
+    const edited = {
+      ...signed,
+      manifest: {...signed.manifest, entries: signed.manifest.entries.slice(1)},
+    }
+    expect(verifyJournalManifest(edited)).toBe(false)
+  })
+})
@@ -0,0 +1,87 @@
+import {
+  coarsenLocation,
+  getAllowedLocationPrecision,
+  getLocationPrecision,
+} from '../../src/lib/journal-location'
+
+const exact = {
+  latitude: 37.774929,
+  longitude: -122.419416,
+  accuracy: 8,
+  address: '1 Market St, San Francisco, CA',
+  city: 'San Francisco',
+  state: 'CA',
+  country: 'United States',
+}
+
+describe('coarsenLocation', () => {
+  it('keeps exact locations as they are', () => {
+    expect(coarsenLocation(exact, 'exact')).toEqual({
+      ...exact,
+      precision: 'exact',
+      isApproximate: false,
+    })
+  })
+
+  it('snaps to the centre of a grid cell and drops the address', () => {
+    const location = coarsenLocation(exact, 'neighbourhood')
+    expect(location.latitude).toBe(37.775)
+    expect(location.longitude).toBe(-122.415)
+    expect(location.address).toBeUndefined()
+    expect(location.city).toBe('San Francisco')
+    expect(location.isApproximate).toBe(true)
+    expect(location.precision).toBe('neighbourhood')
+    expect(location.accuracy).toBeGreaterThan(500)
+  })
+
+  it('drops the city at region precision', () => {
+    const location = coarsenLocation(exact, 'region')
+    expect(location.latitude).toBe(37.5)
+    expect(location.longitude).toBe(-122.5)
+    expect(location.city).toBeUndefined()
+    expect(location.state).toBe('CA')
+  })
+
+  it('never makes a location more precise than it was stored', () => {
+    const city = coarsenLocation(exact, 'city')
+    expect(coarsenLocation(city, 'exact')).toEqual(city)
+    expect(coarsenLocation(city, 'neighbourhood')).toEqual(city)
+  })
+
+  it('treats legacy approximate locations as coarsened', () => {
+    expect(getLocationPrecision({isApproximate: true})).toBe('neighbourhood')
+    expect(getLocationPrecision({})).toBe('exact')
+    expect(
+      coarsenLocation({...exact, isApproximate: true}, 'exact').address,
+    ).toBeUndefined()
+  })
+})
+
+describe('getAllowedLocationPrecision', () => {
+  it('limits public entries to city level unless allowed', () => {
+    expect(
+      getAllowedLocationPrecision('exact', {
+        isPublic: true,
+        allowPublicLocation: false,
+      }),
+    ).toBe('city')
+    expect(
+      getAllowedLocationPrecision('region', {
+        isPublic: true,
+        allowPublicLocation: false,
+      }),
+    ).toBe('region')
+    expect(
+      getAllowedLocationPrecision('exact', {
+        isPublic: true,
+        allowPublicLocation: true,
+      }),
+    ).toBe('exact')
+    expect(
+      getAllowedLocationPrecision('exact', {
+        isPublic: false,
+        allowPublicLocation: false,
+      }),
+    ).toBe('exact')
+  })
+})
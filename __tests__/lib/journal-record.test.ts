@@ -0,0 +1,129 @@
+import {
+  applyJournalRecordUpdate,
+  buildJournalRecord,
+  JOURNAL_RECORD_VERSION,
+  migrateJournalRecord,
+  validateJournalRecord,
+} from '../../src/lib/journal-record'
+
+const v1 = {
+  $type: 'app.warlog.journal',
+  text: 'something happened',
+  entryType: 'real_time',
+  createdAt: '2024-03-01T12:00:00.000Z',
+  isPrivate: false,
+  visibility: 'community',
+  evidenceUris: ['at://did:example:alice/blob/photo.jpg', 'file:///note.pdf'],
+} as const
+
+describe('migrateJournalRecord', () => {
+  it('upgrades unversioned records to the current version', () => {
+    const migrated = migrateJournalRecord(v1)
+    expect(migrated.version).toBe(JOURNAL_RECORD_VERSION)
+    expect(migrated.privacyLevel).toBe('badge_community')
+    expect(migrated.isPrivate).toBe(false)
+    expect(migrated.visibility).toBeUndefined()
+  })
+
+  it('turns bare evidence URIs into attachments', () => {
+    const migrated = migrateJournalRecord(v1)
+    expect(migrated.evidenceUris).toBeUndefined()
+    expect(migrated.evidenceAttachments).toEqual([
+      {
+        uri: 'at://did:example:alice/blob/photo.jpg',
+        type: 'image',
+        filename: 'photo.jpg',
+      },
+      {uri: 'file:///note.pdf', type: 'document', filename: 'note.pdf'},
+    ])
+  })
+
+  it('parses locations stored as JSON strings', () => {
+    const migrated = migrateJournalRecord({
+      ...v1,
+      location: {data: JSON.stringify({latitude: 1, longitude: 2})},
+    })
+    expect(migrated.location).toEqual({latitude: 1, longitude: 2})
+  })
+
+  it('leaves current records untouched', () => {
+    const record = buildJournalRecord(v1)
+    expect(migrateJournalRecord(record)).toBe(record)
+  })
+})
+
+describe('validateJournalRecord', () => {
+  it('accepts migrated records and keeps unknown fields', () => {
+    const result = validateJournalRecord(
+      migrateJournalRecord({...v1, mood: 'calm'}),
+    )
+    expect(result.success).toBe(true)
+    expect(result.success && (result.value as any).mood).toBe('calm')
+  })
+
+  it('reports the path of the first invalid field', () => {
+    const result = validateJournalRecord({
+      ...migrateJournalRecord(v1),
+      symptoms: [{category: 'other', severity: 'high'}],
+    })
+    expect(result.success).toBe(false)
+    expect(!result.success && result.error.path).toBe('symptoms/0/severity')
+  })
+
+  it('rejects records that were never migrated', () => {
+    expect(validateJournalRecord(v1).success).toBe(false)
+    expect(validateJournalRecord(null).success).toBe(false)
+  })
+})
+
+describe('buildJournalRecord', () => {
+  it('drops fields that are not part of the schema', () => {
+    const record = buildJournalRecord({
+      ...v1,
+      uri: 'at://did:example:alice/app.warlog.journal/1',
+      cid: 'bafy',
+      isLocked: false,
+      author: {did: 'did:example:alice'},
+    })
+    expect(record).not.toHaveProperty('uri')
+    expect(record).not.toHaveProperty('author')
+    expect(record).not.toHaveProperty('isLocked')
+    expect(record.$type).toBe('app.warlog.journal')
+    expect(validateJournalRecord(record).success).toBe(true)
+  })
+
+  it('keeps trigger warnings and checks their shape', () => {
+    const record = buildJournalRecord({...v1, triggerWarnings: ['violence']})
+    expect(record.triggerWarnings).toEqual(['violence'])
+    const result = validateJournalRecord({...record, triggerWarnings: [1]})
+    expect(!result.success && result.error.path).toBe('triggerWarnings')
+  })
+
+  it('keeps isPrivate in step with the privacy level', () => {
+    expect(buildJournalRecord({...v1, privacyLevel: 'private'}).isPrivate).toBe(
+      true,
+    )
+    expect(buildJournalRecord({...v1, isPrivate: true}).privacyLevel).toBe(
+      'badge_community',
+    )
+  })
+})
+
+describe('applyJournalRecordUpdate', () => {
+  const record = buildJournalRecord({...v1, visibility: 'contacts'})
+
+  it('lets an isPrivate-only edit decide the privacy level', () => {
+    const updated = applyJournalRecordUpdate(record, {isPrivate: true})
+    expect(updated.privacyLevel).toBe('private')
+    expect(updated.isPrivate).toBe(true)
+    expect(
+      applyJournalRecordUpdate(record, {isPrivate: false}).privacyLevel,
+    ).toBe('public')
+  })
+
+  it('keeps the existing privacy level when the edit does not change it', () => {
+    const updated = applyJournalRecordUpdate(record, {text: 'edited'})
+    expect(updated.text).toBe('edited')
+    expect(updated.privacyLevel).toBe('contacts')
+  })
+})
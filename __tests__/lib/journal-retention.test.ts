@@ -0,0 +1,47 @@
+import {
+  isRetentionExempt,
+  planJournalRetention,
+} from '../../src/lib/journal-retention'
+
+const now = new Date('2024-06-30T00:00:00.000Z')
+
+function entry(uri: string, createdAt: string, overrides = {}) {
+  return {uri, createdAt, ...overrides}
+}
+
+describe('planJournalRetention', () => {
+  const recent = entry('a', '2024-06-15T00:00:00.000Z')
+  const old = entry('b', '2024-03-01T00:00:00.000Z')
+  const pinned = entry('c', '2024-02-01T00:00:00.000Z', {pinned: true})
+  const onHold = entry('d', '2023-01-01T00:00:00.000Z', {legalHold: true})
+
+  it('expires entries written before the cutoff', () => {
+    const plan = planJournalRetention([recent, old], 30, now)
+    expect(plan.cutoff.toISOString()).toBe('2024-05-31T00:00:00.000Z')
+    expect(plan.expired).toEqual([old])
+    expect(plan.exempt).toEqual([])
+  })
+
+  it('keeps pinned entries and entries on legal hold', () => {
+    const plan = planJournalRetention([recent, old, pinned, onHold], 30, now)
+    expect(plan.expired).toEqual([old])
+    expect(plan.exempt).toEqual([pinned, onHold])
+  })
+
+  it('only counts exempt entries that would otherwise expire', () => {
+    const plan = planJournalRetention(
+      [entry('e', '2024-06-29T00:00:00.000Z', {pinned: true})],
+      30,
+      now,
+    )
+    expect(plan.exempt).toEqual([])
+  })
+})
+
+describe('isRetentionExempt', () => {
+  it('exempts pinned and held entries only', () => {
+    expect(isRetentionExempt(entry('a', '', {pinned: true}))).toBe(true)
+    expect(isRetentionExempt(entry('a', '', {legalHold: true}))).toBe(true)
+    expect(isRetentionExempt(entry('a', '', {pinned: false}))).toBe(false)
+  })
+})
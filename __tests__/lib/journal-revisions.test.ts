@@ -0,0 +1,136 @@
+import {
+  createJournalKey,
+  forgetJournalKeys,
+  openJournalRecord,
+} from '../../src/lib/journal-encryption'
+import {
+  buildJournalRevision,
+  diffJournalText,
+  getChangedJournalFields,
+  getRevisionSavedAt,
+  sealJournalRevision,
+} from '../../src/lib/journal-revisions'
+
+describe('diffJournalText', () => {
+  it('marks words that were added and removed', () => {
+    expect(
+      diffJournalText('he followed me home', 'he followed me to work'),
+    ).toEqual([
+      {type: 'equal', text: 'he followed me '},
+      {type: 'removed', text: 'home'},
+      {type: 'added', text: 'to work'},
+    ])
+  })
+
+  it('keeps unchanged words between edits', () => {
+    expect(diffJournalText('a b c d', 'a x c y')).toEqual([
+      {type: 'equal', text: 'a '},
+      {type: 'removed', text: 'b'},
+      {type: 'added', text: 'x'},
+      {type: 'equal', text: ' c '},
+      {type: 'removed', text: 'd'},
+      {type: 'added', text: 'y'},
+    ])
+  })
+
+  it('gives back either side when its parts are joined', () => {
+    const before = 'The car was parked\noutside  again.'
+    const after = 'A grey car was parked outside again, twice.'
+    const parts = diffJournalText(before, after)
+    const join = (type: 'added' | 'removed') =>
+      parts
+        .filter(part => part.type !== type)
+        .map(part => part.text)
+        .join('')
+    expect(join('added')).toBe(before)
+    expect(join('removed')).toBe(after)
+  })
+
+  it('returns nothing but equal text when nothing changed', () => {
+    expect(diffJournalText('same text', 'same text')).toEqual([
+      {type: 'equal', text: 'same text'},
+    ])
+    expect(diffJournalText('', '')).toEqual([])
+  })
+})
+
+describe('getChangedJournalFields', () => {
+  it('reports fields other than the text that changed', () => {
+    expect(
+      getChangedJournalFields(
+        {text: 'a', tags: ['one'], location: {latitude: 1, longitude: 2}},
+        {
+          text: 'b',
+          tags: ['one', 'two'],
+          location: {longitude: 2, latitude: 1},
+        },
+      ),
+    ).toEqual(['tags'])
+  })
+
+  it('treats a missing list as empty', () => {
+    expect(
+      getChangedJournalFields({symptoms: []}, {symptoms: undefined}),
+    ).toEqual([])
+  })
+})
+
+describe('buildJournalRevision', () => {
+  it('keeps the replaced version as it was stored', () => {
+    const value = {text: 'before', createdAt: '2024-03-01T00:00:00.000Z'}
+    expect(
+      buildJournalRevision(
+        {
+          uri: 'at://did:example:alice/app.warlog.journal/1',
+          cid: 'cid1',
+          value,
+        },
+        '2024-03-02T00:00:00.000Z',
+      ),
+    ).toEqual({
+      $type: 'app.warlog.journalRevision',
+      entry: 'at://did:example:alice/app.warlog.journal/1',
+      cid: 'cid1',
+      record: value,
+      createdAt: '2024-03-02T00:00:00.000Z',
+    })
+  })
+})
+
+describe('sealJournalRevision', () => {
+  const did = 'did:example:alice'
+  const revision = buildJournalRevision(
+    {
+      uri: `at://${did}/app.warlog.journal/1`,
+      cid: 'cid1',
+      value: {text: 'before', privacyLevel: 'public', createdAt: 'a'},
+    },
+    'b',
+  )
+
+  afterEach(() => {
+    forgetJournalKeys(did)
+  })
+
+  it('seals a version kept in the clear but keeps its privacy level', async () => {
+    await createJournalKey(did, 'correct horse')
+    const sealed = await sealJournalRevision(did, revision)
+    expect(sealed).toMatchObject({
+      entry: revision.entry,
+      cid: 'cid1',
+      record: {text: '', privacyLevel: 'public', createdAt: 'a'},
+    })
+    expect(await openJournalRecord(did, sealed.record)).toMatchObject({
+      text: 'before',
+      privacyLevel: 'public',
+    })
+    expect(await sealJournalRevision(did, sealed)).toBe(sealed)
+  })
+})
+
+describe('getRevisionSavedAt', () => {
+  it('uses the time of the last edit, or of creation', () => {
+    expect(getRevisionSavedAt({createdAt: 'a'})).toBe('a')
+    expect(getRevisionSavedAt({createdAt: 'a', updatedAt: 'b'})).toBe('b')
+  })
+})
@@ -0,0 +1,106 @@
+import {
+  buildSharePacketContent,
+  getSharePacketExpiry,
+  isSharePacketActive,
+  JournalSharePacketPasscodeError,
+  openSharePacket,
+  sealSharePacket,
+  withSharePacketKey,
+} from '../../src/lib/journal-share'
+
+const author = {did: 'did:example:alice', handle: 'alice.test'}
+const createdAt = '2024-03-01T00:00:00.000Z'
+const iterations = 1000
+
+const content = buildSharePacketContent(
+  [
+    {uri: 'b', text: 'later', createdAt: '2024-02-10T00:00:00.000Z'},
+    {
+      uri: 'a',
+      text: 'earlier',
+      createdAt: '2024-02-12T00:00:00.000Z',
+      incidentTimestamp: '2024-02-01T00:00:00.000Z',
+    },
+    {uri: 'c', text: '', createdAt: '2024-02-05T00:00:00.000Z', isLocked: true},
+  ],
+  author,
+  createdAt,
+)
+
+describe('buildSharePacketContent', () => {
+  it('leaves out locked entries and orders by incident time', () => {
+    expect(content.entries.map(entry => entry.uri)).toEqual(['a', 'b'])
+    expect(content.author).toEqual(author)
+    expect(content.createdAt).toBe(createdAt)
+  })
+})
+
+describe('sealSharePacket / openSharePacket', () => {
+  it('round-trips with the link key alone', async () => {
+    const {linkKey, payload} = await sealSharePacket(content)
+    expect(linkKey).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(
+      await openSharePacket({hasPasscode: false, payload}, linkKey),
+    ).toEqual(content)
+  })
+
+  it('requires the passcode when one is set', async () => {
+    const sealed = await sealSharePacket(content, {
+      passcode: 'correct horse',
+      iterations,
+    })
+    const packet = {
+      hasPasscode: true,
+      iterations: sealed.iterations,
+      payload: sealed.payload,
+    }
+    expect(sealed.iterations).toBe(iterations)
+    await expect(
+      openSharePacket(packet, sealed.linkKey),
+    ).rejects.toBeInstanceOf(JournalSharePacketPasscodeError)
+    await expect(
+      openSharePacket(packet, sealed.linkKey, 'wrong horse'),
+    ).rejects.toBeInstanceOf(JournalSharePacketPasscodeError)
+    expect(
+      await openSharePacket(packet, sealed.linkKey, 'correct horse'),
+    ).toEqual(content)
+  })
+
+  it('rejects the wrong link key', async () => {
+    const {payload} = await sealSharePacket(content)
+    const {linkKey} = await sealSharePacket(content)
+    await expect(
+      openSharePacket({hasPasscode: false, payload}, linkKey),
+    ).rejects.toThrow()
+  })
+})
+
+describe('isSharePacketActive', () => {
+  const now = new Date('2024-03-02T00:00:00.000Z')
+
+  it('is active until it expires or is revoked', () => {
+    const expiresAt = getSharePacketExpiry(1, new Date(createdAt))
+    expect(expiresAt).toBe('2024-03-02T00:00:00.000Z')
+    expect(
+      isSharePacketActive({expiresAt: '2024-03-08T00:00:00.000Z'}, now),
+    ).toBe(true)
+    expect(isSharePacketActive({expiresAt}, now)).toBe(false)
+    expect(
+      isSharePacketActive(
+        {expiresAt: '2024-03-08T00:00:00.000Z', revokedAt: createdAt},
+        now,
+      ),
+    ).toBe(false)
+  })
+})
+
+describe('withSharePacketKey', () => {
+  it('puts the key in the fragment', () => {
+    expect(withSharePacketKey('https://go.bsky.app/abc', 'k3y')).toBe(
+      'https://go.bsky.app/abc#k3y',
+    )
+    expect(withSharePacketKey('https://go.bsky.app/abc#old', 'k3y')).toBe(
+      'https://go.bsky.app/abc#k3y',
+    )
+  })
+})
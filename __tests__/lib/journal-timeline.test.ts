@@ -0,0 +1,121 @@
+import {
+  buildJournalCalendarMonth,
+  filterTimelineEntries,
+  getHeatmapLevel,
+  getIncidentDate,
+  getReportingDelay,
+  groupJournalTimeline,
+  type JournalTimelineSubject,
+} from '../../src/lib/journal-timeline'
+
+// Local times, so grouping by day doesn't depend on the test machine's zone
+function at(year: number, month: number, day: number, hour = 12) {
+  return new Date(year, month, day, hour).toISOString()
+}
+
+function entry(
+  uri: string,
+  overrides: Partial<JournalTimelineSubject> = {},
+): JournalTimelineSubject {
+  return {
+    uri,
+    createdAt: at(2024, 2, 10),
+    entryType: 'real_time',
+    privacyLevel: 'private',
+    ...overrides,
+  }
+}
+
+const realTime = entry('a', {
+  tags: ['night'],
+  symptoms: [{category: 'sleep_disruption', severity: 6}],
+})
+const backdated = entry('b', {
+  entryType: 'backdated',
+  createdAt: at(2024, 2, 12),
+  incidentTimestamp: at(2024, 2, 3),
+  symptoms: [{category: 'physical_pain', severity: 3}],
+})
+const lastMonth = entry('c', {createdAt: at(2024, 1, 28), tags: ['night']})
+
+describe('incident time', () => {
+  it('places backdated entries at their incident', () => {
+    expect(getIncidentDate(backdated).getDate()).toBe(3)
+    expect(getIncidentDate(realTime).getDate()).toBe(10)
+  })
+
+  it('measures the reporting delay of backdated entries only', () => {
+    expect(getReportingDelay(backdated)).toBe(9 * 24 * 60 * 60 * 1000)
+    expect(getReportingDelay(realTime)).toBe(0)
+  })
+})
+
+describe('filterTimelineEntries', () => {
+  const entries = [realTime, backdated, lastMonth]
+
+  it('filters by tag and symptom category', () => {
+    expect(filterTimelineEntries(entries, {tags: ['night']})).toEqual([
+      realTime,
+      lastMonth,
+    ])
+    expect(
+      filterTimelineEntries(entries, {symptomCategories: ['physical_pain']}),
+    ).toEqual([backdated])
+  })
+
+  it('keeps everything without filters', () => {
+    expect(filterTimelineEntries(entries, {})).toEqual(entries)
+  })
+})
+
+describe('buildJournalCalendarMonth', () => {
+  it('lays the month out in full weeks', () => {
+    // March 2024 starts on a Friday and has 31 days
+    const {weeks, maxCount} = buildJournalCalendarMonth(
+      [realTime, backdated, entry('d', {createdAt: at(2024, 2, 10, 20)})],
+      2024,
+      2,
+    )
+    expect(weeks).toHaveLength(6)
+    expect(weeks.every(week => week.length === 7)).toBe(true)
+    expect(weeks[0].slice(0, 5)).toEqual([null, null, null, null, null])
+    expect(weeks[0][5]?.key).toBe('2024-03-01')
+    expect(maxCount).toBe(2)
+
+    const days = weeks.flat()
+    expect(days.find(d => d?.key === '2024-03-10')?.entries).toHaveLength(2)
+    expect(days.find(d => d?.key === '2024-03-03')?.entries).toEqual([
+      backdated,
+    ])
+  })
+
+  it('leaves out entries from other months', () => {
+    const {maxCount} = buildJournalCalendarMonth([lastMonth], 2024, 2)
+    expect(maxCount).toBe(0)
+  })
+})
+
+describe('getHeatmapLevel', () => {
+  it('scales counts against the busiest day', () => {
+    expect(getHeatmapLevel(0, 8)).toBe(0)
+    expect(getHeatmapLevel(1, 8)).toBe(1)
+    expect(getHeatmapLevel(4, 8)).toBe(2)
+    expect(getHeatmapLevel(8, 8)).toBe(4)
+  })
+})
+
+describe('groupJournalTimeline', () => {
+  const entries = [lastMonth, backdated, realTime]
+
+  it('groups by incident time, newest first', () => {
+    const days = groupJournalTimeline(entries, 'day')
+    expect(days.map(bucket => bucket.entries[0].uri)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('merges buckets when zoomed out', () => {
+    const months = groupJournalTimeline(entries, 'month')
+    expect(months).toHaveLength(2)
+    expect(months[0].entries.map(e => e.uri)).toEqual(['a', 'b'])
+    expect(groupJournalTimeline(entries, 'year')).toHaveLength(1)
+  })
+})
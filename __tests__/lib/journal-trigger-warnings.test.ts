@@ -0,0 +1,59 @@
+import {
+  getTriggerWarningDecision,
+  isStandardTriggerWarning,
+} from '../../src/lib/journal-trigger-warnings'
+
+describe('getTriggerWarningDecision', () => {
+  it('shows entries without warnings', () => {
+    expect(getTriggerWarningDecision(undefined, {})).toEqual({
+      visibility: 'show',
+      warnings: [],
+    })
+    expect(getTriggerWarningDecision([], {violence: 'hide'})).toEqual({
+      visibility: 'show',
+      warnings: [],
+    })
+  })
+
+  it('warns by default, including for warnings from other apps', () => {
+    expect(getTriggerWarningDecision(['violence', 'spiders'], {})).toEqual({
+      visibility: 'warn',
+      warnings: ['violence', 'spiders'],
+    })
+  })
+
+  it('lets the strictest preference win', () => {
+    const preferences = {
+      violence: 'show',
+      medical: 'warn',
+      suicide: 'hide',
+    } as const
+    expect(
+      getTriggerWarningDecision(['violence', 'medical'], preferences),
+    ).toEqual({visibility: 'warn', warnings: ['medical']})
+    expect(
+      getTriggerWarningDecision(
+        ['medical', 'suicide', 'violence'],
+        preferences,
+      ),
+    ).toEqual({visibility: 'hide', warnings: ['suicide']})
+    expect(getTriggerWarningDecision(['violence'], preferences)).toEqual({
+      visibility: 'show',
+      warnings: [],
+    })
+  })
+
+  it('ignores repeated warnings', () => {
+    expect(getTriggerWarningDecision(['abuse', 'abuse'], {})).toEqual({
+      visibility: 'warn',
+      warnings: ['abuse'],
+    })
+  })
+})
+
+describe('isStandardTriggerWarning', () => {
+  it('only accepts warnings the composer offers', () => {
+    expect(isStandardTriggerWarning('self_harm')).toBe(true)
+    expect(isStandardTriggerWarning('spiders')).toBe(false)
+  })
+})
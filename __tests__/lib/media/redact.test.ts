@@ -0,0 +1,67 @@
+import {
+  getRedactionBlurRadius,
+  getRedactionRect,
+  getRedactionRegion,
+} from '../../../src/lib/media/redact'
+
+const preview = {width: 200, height: 100}
+
+describe('getRedactionRegion', () => {
+  it('normalizes the dragged area to the preview size', () => {
+    expect(
+      getRedactionRegion('box', {x: 20, y: 10}, {x: 120, y: 60}, preview),
+    ).toEqual({style: 'box', x: 0.1, y: 0.1, width: 0.5, height: 0.5})
+  })
+
+  it('accepts drags in any direction', () => {
+    expect(
+      getRedactionRegion('blur', {x: 120, y: 60}, {x: 20, y: 10}, preview),
+    ).toEqual({style: 'blur', x: 0.1, y: 0.1, width: 0.5, height: 0.5})
+  })
+
+  it('clamps drags that leave the preview', () => {
+    expect(
+      getRedactionRegion('box', {x: -50, y: 50}, {x: 400, y: 500}, preview),
+    ).toEqual({style: 'box', x: 0, y: 0.5, width: 1, height: 0.5})
+  })
+
+  it('ignores taps', () => {
+    expect(
+      getRedactionRegion('box', {x: 20, y: 10}, {x: 21, y: 40}, preview),
+    ).toBeUndefined()
+    const empty = {width: 0, height: 0}
+    expect(
+      getRedactionRegion('box', {x: 0, y: 0}, {x: 10, y: 10}, empty),
+    ).toBeUndefined()
+  })
+})
+
+describe('getRedactionRect', () => {
+  it('scales the region to the image size', () => {
+    expect(
+      getRedactionRect(
+        {style: 'box', x: 0.1, y: 0.1, width: 0.5, height: 0.5},
+        {width: 2000, height: 1000},
+      ),
+    ).toEqual({x: 200, y: 100, width: 1000, height: 500})
+  })
+
+  it('rounds outwards without leaving the image', () => {
+    expect(
+      getRedactionRect(
+        {style: 'box', x: 0.333, y: 0.5, width: 0.667, height: 0.5},
+        {width: 100, height: 33},
+      ),
+    ).toEqual({x: 33, y: 16, width: 67, height: 17})
+  })
+})
+
+describe('getRedactionBlurRadius', () => {
+  it('scales with the smaller side of the region', () => {
+    expect(getRedactionBlurRadius({width: 400, height: 100})).toBe(25)
+  })
+
+  it('never drops below a minimum', () => {
+    expect(getRedactionBlurRadius({width: 10, height: 10})).toBe(8)
+  })
+})
@@ -0,0 +1,155 @@
+import {
+  type CitationItem,
+  formatBibliography,
+  formatCitation,
+  parseAuthorName,
+} from '../../src/lib/source-citations'
+
+const article: CitationItem = {
+  source: {
+    id: 'article',
+    name: 'Auditory effects of directed energy',
+    url: 'https://journal.example.org/articles/123',
+    createdAt: '2024-05-02T10:00:00.000Z',
+    authors: ['Jane Q. Smith', 'Doe, John', 'Lee-Park, Min-ji'],
+    publisher: 'Journal of Examples',
+    publishedAt: '2023-03-15T00:00:00.000Z',
+    doi: '10.1234/example.123',
+  },
+  citation: {quotedText: 'Symptoms were consistent', pageNumber: 12},
+}
+
+const page: CitationItem = {
+  source: {
+    id: 'page',
+    name: 'Records request guide',
+    url: 'https://www.example.gov/foia',
+    createdAt: '2024-05-02T10:00:00.000Z',
+    authors: ['Reuters'],
+    snapshot: {capturedAt: '2024-06-09T08:00:00.000Z'},
+  },
+}
+
+describe('parseAuthorName', () => {
+  it('splits names either way round and keeps single words whole', () => {
+    expect(parseAuthorName('Jane Q. Smith')).toEqual({
+      family: 'Smith',
+      given: 'Jane Q.',
+    })
+    expect(parseAuthorName('Doe,  John')).toEqual({
+      family: 'Doe',
+      given: 'John',
+    })
+    expect(parseAuthorName('Reuters')).toEqual({literal: 'Reuters'})
+  })
+})
+
+describe('formatCitation', () => {
+  it('formats BibTeX with escaping and the citation details', () => {
+    const bibtex = formatCitation(
+      {
+        ...article,
+        source: {...article.source, name: 'Costs & effects: 50% of cases'},
+      },
+      'bibtex',
+    )
+    expect(bibtex).toBe(
+      [
+        '@article{smith2023costs,',
+        '  title = {{Costs \\& effects: 50\\% of cases}},',
+        '  author = {Smith, Jane Q. and Doe, John and Lee-Park, Min-ji},',
+        '  journal = {Journal of Examples},',
+        '  year = {2023},',
+        '  month = {3},',
+        '  doi = {10.1234/example.123},',
+        '  url = {https://journal.example.org/articles/123},',
+        '  urldate = {2024-05-02},',
+        '  pages = {12},',
+        "  note = {Quoted: ``Symptoms were consistent''}",
+        '}',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('formats CSL-JSON', () => {
+    const [item] = JSON.parse(formatCitation(page, 'csl-json'))
+    expect(item).toEqual({
+      id: 'page',
+      type: 'webpage',
+      title: 'Records request guide',
+      author: [{literal: 'Reuters'}],
+      accessed: {'date-parts': [[2024, 6, 9]]},
+      URL: 'https://www.example.gov/foia',
+    })
+  })
+
+  it('formats RIS', () => {
+    expect(formatCitation(article, 'ris').split('\r\n')).toEqual([
+      'TY  - JOUR',
+      'TI  - Auditory effects of directed energy',
+      'AU  - Smith, Jane Q.',
+      'AU  - Doe, John',
+      'AU  - Lee-Park, Min-ji',
+      'T2  - Journal of Examples',
+      'PY  - 2023',
+      'DA  - 2023/03/15/',
+      'DO  - 10.1234/example.123',
+      'UR  - https://journal.example.org/articles/123',
+      'Y2  - 2024/05/02/',
+      'SP  - 12',
+      'N1  - Quoted: “Symptoms were consistent”',
+      'ER  - ',
+      '',
+    ])
+  })
+
+  it('formats APA with the DOI and the quoted passage', () => {
+    expect(formatCitation(article, 'apa')).toBe(
+      'Smith, J. Q., Doe, J., & Lee-Park, M.-J. (2023, March 15). ' +
+        'Auditory effects of directed energy. Journal of Examples. ' +
+        'https://doi.org/10.1234/example.123\n' +
+        '    “Symptoms were consistent” (p. 12)\n',
+    )
+    expect(formatCitation(page, 'apa')).toBe(
+      'Reuters. (n.d.). Records request guide. https://www.example.gov/foia\n',
+    )
+  })
+
+  it('formats MLA', () => {
+    expect(formatCitation(article, 'mla')).toBe(
+      'Smith, Jane Q., et al. “Auditory effects of directed energy.” ' +
+        'Journal of Examples, 15 Mar. 2023, doi.org/10.1234/example.123.\n' +
+        '    “Symptoms were consistent” (12)\n',
+    )
+    expect(formatCitation(page, 'mla')).toBe(
+      'Reuters. “Records request guide.” www.example.gov/foia. ' +
+        'Accessed 9 June 2024.\n',
+    )
+  })
+})
+
+describe('formatBibliography', () => {
+  it('sorts APA and MLA references and keeps the given order otherwise', () => {
+    const apa = formatBibliography([page, article], 'apa').split('\n\n')
+    expect(apa[0].startsWith('Reuters.')).toBe(true)
+    expect(apa[1].startsWith('Smith,')).toBe(true)
+
+    const csl = JSON.parse(formatBibliography([page, article], 'csl-json'))
+    expect(csl.map((item: {id: string}) => item.id)).toEqual([
+      'page',
+      'article',
+    ])
+  })
+
+  it('cites a source once and keeps BibTeX keys unique', () => {
+    const other = {
+      source: {...article.source, id: 'other', doi: undefined},
+    }
+    const bibtex = formatBibliography([article, article, other], 'bibtex')
+    expect(bibtex.match(/^@\w+\{[^,]+/gm)).toEqual([
+      '@article{smith2023auditory',
+      '@online{smith2023auditorya',
+    ])
+  })
+})
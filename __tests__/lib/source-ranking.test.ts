@@ -0,0 +1,136 @@
+import {
+  getSourceRankHistory,
+  getVoteWeight,
+  rankSource,
+  scoreSourceVotes,
+  type SourceVote,
+} from '../../src/lib/source-ranking'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const START = Date.parse('2024-01-01T00:00:00.000Z')
+
+function votes(
+  up: number,
+  down: number,
+  overrides: Partial<SourceVote> = {},
+): SourceVote[] {
+  return [
+    ...Array.from({length: up}, () => 'up' as const),
+    ...Array.from({length: down}, () => 'down' as const),
+  ].map((vote, i) => ({
+    vote,
+    createdAt: new Date(START + i * 60_000).toISOString(),
+    ...overrides,
+  }))
+}
+
+const source = {
+  url: 'https://blog.example.com/post',
+  createdAt: '2023-12-31T00:00:00.000Z',
+}
+
+describe('scoreSourceVotes', () => {
+  it('widens the interval when there are few votes', () => {
+    const few = scoreSourceVotes(votes(3, 0))
+    const many = scoreSourceVotes(votes(30, 0))
+    expect(few.lowerBound.toFixed(2)).toBe('0.44')
+    expect(many.lowerBound.toFixed(2)).toBe('0.89')
+    expect(many.upperBound).toBe(1)
+  })
+
+  it('handles no votes', () => {
+    expect(scoreSourceVotes([])).toEqual({
+      up: 0,
+      down: 0,
+      total: 0,
+      lowerBound: 0,
+      upperBound: 1,
+    })
+  })
+})
+
+describe('getVoteWeight', () => {
+  it('weights votes by the voter badge verification level', () => {
+    const vote: SourceVote = {vote: 'up', createdAt: '2024-01-01T00:00:00Z'}
+    expect(getVoteWeight(vote, START)).toBe(1)
+    expect(getVoteWeight({...vote, voterVerificationLevel: 3}, START)).toBe(3)
+  })
+
+  it('halves the weight of a vote every half-life', () => {
+    const vote: SourceVote = {vote: 'up', createdAt: '2024-01-01T00:00:00Z'}
+    expect(getVoteWeight(vote, START + 180 * DAY_MS)).toBe(0.5)
+    expect(getVoteWeight(vote, START + 360 * DAY_MS)).toBe(0.25)
+  })
+})
+
+describe('rankSource', () => {
+  it('keeps the initial rank until there are enough votes', () => {
+    expect(rankSource(source, votes(2, 0)).rank).toBe('new')
+    expect(rankSource({url: 'https://www.npr.org/story'}, votes(0, 2))).toEqual(
+      {
+        rank: 'slightly_vetted',
+        reason: {
+          type: 'initial',
+          trustedDomain: true,
+          score: scoreSourceVotes(votes(0, 2)),
+        },
+      },
+    )
+  })
+
+  it('promotes sources as agreeing votes come in', () => {
+    expect(rankSource(source, votes(3, 0)).rank).toBe('new')
+    expect(rankSource(source, votes(5, 0)).rank).toBe('slightly_vetted')
+    expect(rankSource(source, votes(8, 0)).rank).toBe('vetted')
+    expect(rankSource(source, votes(24, 0)).rank).toBe('vetted')
+    expect(rankSource(source, votes(30, 0)).rank).toBe('trusted')
+  })
+
+  it('marks split votes as debated and one-sided downvotes as debunked', () => {
+    expect(rankSource(source, votes(6, 4)).rank).toBe('debated')
+    expect(rankSource(source, votes(0, 3)).rank).toBe('debated')
+    expect(rankSource(source, votes(0, 12)).rank).toBe('debunked')
+  })
+
+  it('counts verified badge holders for more', () => {
+    expect(rankSource(source, votes(3, 0)).rank).toBe('new')
+    expect(
+      rankSource(source, votes(3, 0, {voterVerificationLevel: 3})).rank,
+    ).toBe('vetted')
+  })
+
+  it('lets newer votes outweigh stale ones', () => {
+    const stale = votes(0, 12)
+    const recent = votes(12, 0).map(vote => ({
+      ...vote,
+      createdAt: new Date(
+        Date.parse(vote.createdAt) + 720 * DAY_MS,
+      ).toISOString(),
+    }))
+    expect(rankSource(source, stale).rank).toBe('debunked')
+    expect(rankSource(source, [...stale, ...recent]).rank).toBe('vetted')
+  })
+})
+
+describe('getSourceRankHistory', () => {
+  it('records each change and the vote that caused it', () => {
+    const history = getSourceRankHistory(source, votes(8, 0))
+    expect(history.map(change => change.rank)).toEqual([
+      'new',
+      'slightly_vetted',
+      'vetted',
+    ])
+    expect(history[0].changedAt).toBe(source.createdAt)
+    expect(history[0].vote).toBeUndefined()
+    expect(history[1].previousRank).toBe('new')
+    expect(history[1].changedAt).toBe(votes(4, 0)[3].createdAt)
+    expect(history[2].vote).toEqual(votes(8, 0)[7])
+  })
+
+  it('replays votes in the order they were cast', () => {
+    const cast = votes(5, 0)
+    expect(getSourceRankHistory(source, [...cast].reverse())).toEqual(
+      getSourceRankHistory(source, cast),
+    )
+  })
+})
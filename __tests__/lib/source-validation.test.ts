@@ -0,0 +1,164 @@
+import {
+  canonicalizeUrl,
+  getCanonicalSourceKey,
+  normalizeDoi,
+  resolveSourceUrl,
+} from '../../src/lib/source-validation'
+
+describe('canonicalizeUrl', () => {
+  it('removes tracking parameters and sorts the rest', () => {
+    expect(
+      canonicalizeUrl(
+        'https://Example.com/story/?utm_source=tw&b=2&fbclid=abc&a=1&UTM_Medium=x#comments',
+      ),
+    ).toBe('https://example.com/story?a=1&b=2')
+  })
+
+  it('adds a scheme when missing', () => {
+    expect(canonicalizeUrl('example.com/report')).toBe(
+      'https://example.com/report',
+    )
+  })
+
+  it('unwraps AMP pages', () => {
+    expect(
+      canonicalizeUrl(
+        'https://www.google.com/amp/s/www.example.com/news/story/amp',
+      ),
+    ).toBe('https://www.example.com/news/story')
+    expect(
+      canonicalizeUrl(
+        'https://www-example-com.cdn.ampproject.org/c/s/www.example.com/amp/news/story',
+      ),
+    ).toBe('https://www.example.com/news/story')
+    expect(
+      canonicalizeUrl('https://example.com/world/story?outputType=amp'),
+    ).toBe('https://example.com/world/story')
+  })
+
+  it('returns invalid input unchanged', () => {
+    expect(canonicalizeUrl('not a url')).toBe('not a url')
+  })
+})
+
+describe('normalizeDoi', () => {
+  it('accepts the common ways of writing a DOI', () => {
+    expect(normalizeDoi('10.1234/ABC.42')).toBe('10.1234/abc.42')
+    expect(normalizeDoi('doi: 10.1234/abc.42')).toBe('10.1234/abc.42')
+    expect(normalizeDoi('https://dx.doi.org/10.1234/abc.42')).toBe(
+      '10.1234/abc.42',
+    )
+    expect(normalizeDoi('https://example.com/10.1234')).toBeUndefined()
+  })
+})
+
+describe('getCanonicalSourceKey', () => {
+  it('gives the same key to variants of a URL', () => {
+    const key = getCanonicalSourceKey({url: 'https://example.com/story'})
+    expect(key).toBe('url:example.com/story')
+    for (const url of [
+      'http://www.example.com/story/',
+      'https://m.example.com/story?utm_campaign=share',
+      'https://amp.example.com/story/amp',
+      'https://www.google.com/amp/s/example.com/story',
+    ]) {
+      expect(getCanonicalSourceKey({url})).toBe(key)
+    }
+    expect(getCanonicalSourceKey({url: 'https://example.com/other'})).not.toBe(
+      key,
+    )
+  })
+
+  it('does not strip a subdomain that is the whole domain', () => {
+    expect(getCanonicalSourceKey({url: 'https://m.co/page'})).toBe(
+      'url:m.co/page',
+    )
+  })
+
+  it('prefers a DOI over the URL', () => {
+    const key = 'doi:10.1016/j.test.2021.01.001'
+    expect(
+      getCanonicalSourceKey({
+        url: 'https://publisher.example/article/123',
+        doi: '10.1016/J.TEST.2021.01.001',
+      }),
+    ).toBe(key)
+    expect(
+      getCanonicalSourceKey({
+        url: 'https://doi.org/10.1016/j.test.2021.01.001',
+      }),
+    ).toBe(key)
+    expect(
+      getCanonicalSourceKey({
+        url: 'https://journals.example.org/doi/full/10.1016/j.test.2021.01.001?role=tab',
+      }),
+    ).toBe(key)
+  })
+
+  it('maps arXiv links and DOIs to the arXiv ID', () => {
+    const key = 'arxiv:2101.00001'
+    for (const source of [
+      {url: 'https://arxiv.org/abs/2101.00001'},
+      {url: 'https://arxiv.org/pdf/2101.00001v2.pdf'},
+      {url: 'https://export.arxiv.org/abs/2101.00001v1'},
+      {doi: '10.48550/arXiv.2101.00001'},
+    ]) {
+      expect(getCanonicalSourceKey(source)).toBe(key)
+    }
+    expect(
+      getCanonicalSourceKey({url: 'https://arxiv.org/abs/hep-th/9901001v3'}),
+    ).toBe('arxiv:hep-th/9901001')
+  })
+
+  it('maps PubMed and PubMed Central links to their IDs', () => {
+    expect(
+      getCanonicalSourceKey({url: 'https://pubmed.ncbi.nlm.nih.gov/31452104/'}),
+    ).toBe('pmid:31452104')
+    expect(
+      getCanonicalSourceKey({
+        url: 'https://www.ncbi.nlm.nih.gov/pubmed/31452104',
+      }),
+    ).toBe('pmid:31452104')
+    expect(
+      getCanonicalSourceKey({
+        url: 'https://www.ncbi.nlm.nih.gov/pmc/articles/PMC6710352/',
+      }),
+    ).toBe('pmcid:PMC6710352')
+    expect(
+      getCanonicalSourceKey({
+        url: 'https://pmc.ncbi.nlm.nih.gov/articles/pmc6710352',
+      }),
+    ).toBe('pmcid:PMC6710352')
+  })
+
+  it('returns nothing without a usable URL or DOI', () => {
+    expect(getCanonicalSourceKey({})).toBeUndefined()
+    expect(
+      getCanonicalSourceKey({url: 'not a url', doi: 'nope'}),
+    ).toBeUndefined()
+  })
+})
+
+describe('resolveSourceUrl', () => {
+  it('uses where the link redirected to', () => {
+    expect(
+      resolveSourceUrl('https://t.co/abc', {
+        url: 'https://news.example.com/story?utm_source=twitter',
+      }),
+    ).toBe('https://news.example.com/story')
+  })
+
+  it('uses the canonical URL only on the same site', () => {
+    expect(
+      resolveSourceUrl('https://m.example.com/story?id=4', {
+        url: 'https://m.example.com/story?id=4',
+        canonicalUrl: 'https://www.example.com/2024/story',
+      }),
+    ).toBe('https://www.example.com/2024/story')
+    expect(
+      resolveSourceUrl('https://blog.example/post', {
+        canonicalUrl: 'https://elsewhere.example/',
+      }),
+    ).toBe('https://blog.example/post')
+  })
+})
@@ -0,0 +1,83 @@
+import {findPIISpans, redactPIISpans} from '../../../src/lib/strings/pii'
+
+function kinds(text: string, names?: string[]) {
+  return findPIISpans(text, {names}).map(span => [span.kind, span.text])
+}
+
+describe('findPIISpans', () => {
+  it('finds email addresses', () => {
+    expect(kinds('write to jane.doe+notes@example.co.uk today')).toEqual([
+      ['email', 'jane.doe+notes@example.co.uk'],
+    ])
+  })
+
+  it('does not flag handles', () => {
+    expect(kinds('ask @alice.bsky.social about it')).toEqual([])
+  })
+
+  it('finds phone numbers', () => {
+    expect(kinds('call (555) 123-4567 or +44 20 7946 0958')).toEqual([
+      ['phone', '(555) 123-4567'],
+      ['phone', '+44 20 7946 0958'],
+    ])
+  })
+
+  it('does not flag short numbers or dates', () => {
+    expect(kinds('it lasted 45 minutes on 2024-03-05 14:30')).toEqual([])
+    expect(kinds('case 123-456')).toEqual([])
+  })
+
+  it('finds street addresses', () => {
+    expect(kinds('they parked outside 221B Baker Street, Apt 4 again')).toEqual(
+      [['address', '221B Baker Street, Apt 4']],
+    )
+    expect(kinds('12 N Elm Ave.')).toEqual([['address', '12 N Elm Ave.']])
+  })
+
+  it('does not flag everyday phrases as addresses', () => {
+    expect(kinds('I walked 5 blocks down the road')).toEqual([])
+  })
+
+  it('finds full names from the list, ignoring case and spacing', () => {
+    expect(
+      kinds('I told jane  doe and Cher about it', ['Jane Doe', 'Cher']),
+    ).toEqual([['name', 'jane  doe']])
+  })
+
+  it('only matches whole names', () => {
+    expect(kinds('Janet Doerr', ['Jane Doe'])).toEqual([])
+  })
+
+  it('returns spans in order without overlaps', () => {
+    const spans = findPIISpans('Jane Doe, jane@example.com', {
+      names: ['Jane Doe'],
+    })
+    expect(spans).toEqual([
+      {kind: 'name', start: 0, end: 8, text: 'Jane Doe'},
+      {kind: 'email', start: 10, end: 26, text: 'jane@example.com'},
+    ])
+  })
+})
+
+describe('redactPIISpans', () => {
+  const text = 'Jane Doe lives at 10 Downing Street, call 020 7946 0958'
+  const spans = findPIISpans(text, {names: ['Jane Doe']})
+
+  it('replaces every span with a placeholder', () => {
+    expect(redactPIISpans(text, spans)).toBe(
+      '[name] lives at [address], call [phone]',
+    )
+  })
+
+  it('only replaces the spans given', () => {
+    expect(redactPIISpans(text, [spans[2]])).toBe(
+      'Jane Doe lives at 10 Downing Street, call [phone]',
+    )
+  })
+
+  it('skips spans that no longer match the text', () => {
+    expect(redactPIISpans('something else entirely', spans)).toBe(
+      'something else entirely',
+    )
+  })
+})
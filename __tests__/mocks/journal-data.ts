@@ -7,6 +7,8 @@ import {type Source} from '../../src/components/SourcePicker'
  */
 
 export const createMockJournalEntry = (overrides?: Partial<JournalEntry>): JournalEntry => ({
+  $type: 'app.warlog.journal',
+  version: 2,
   uri: 'at://did:example:alice/app.warlog.journal/test123',
   cid: 'bafkreicidcfexample123',
   text: 'Test journal entry documenting an incident with detailed observations',
@@ -34,6 +36,7 @@ export const createMockJournalEntry = (overrides?: Partial<JournalEntry>): Journ
   tags: ['incident', 'surveillance', 'directed_energy'],
   sourceIds: ['source-1', 'source-2'],
   isPrivate: false,
+  privacyLevel: overrides?.isPrivate ? 'private' : 'public',
   author: {
     did: 'did:example:alice',
     handle: 'alice.test',
@@ -64,12 +67,15 @@ export const createMockPrivateEntry = (overrides?: Partial<JournalEntry>): Journ
   })
 
 export const createMockMinimalEntry = (overrides?: Partial<JournalEntry>): JournalEntry => ({
+  $type: 'app.warlog.journal',
+  version: 2,
   uri: 'at://did:example:alice/app.warlog.journal/minimal123',
   cid: 'bafkreiminimalcidexample',
   text: 'Minimal entry with required fields only',
   entryType: 'real_time',
   createdAt: '2024-01-15T10:30:00Z',
   isPrivate: false,
+  privacyLevel: overrides?.isPrivate ? 'private' : 'public',
   author: {
     did: 'did:example:alice',
     handle: 'alice.test',
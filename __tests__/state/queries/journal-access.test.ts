@@ -0,0 +1,142 @@
+import {describe, expect, it} from '@jest/globals'
+
+import {
+  type JournalAccessGrant,
+  type JournalEntryView,
+} from '../../../src/state/queries/journal/types'
+import {
+  canCommentOnJournalEntry,
+  canShareJournalEntry,
+  canViewJournalEntry,
+  findActiveAccessGrant,
+  isAccessGrantActive,
+  shouldLogJournalAccess,
+} from '../../../src/state/queries/journal/utils'
+
+const ENTRY_URI = 'at://did:example:alice/app.warlog.journal/1'
+
+function entry(overrides: Partial<JournalEntryView> = {}): JournalEntryView {
+  return {
+    uri: ENTRY_URI,
+    cid: 'bafy',
+    text: 'something happened',
+    entryType: 'real_time',
+    privacyLevel: 'badge_community',
+    createdAt: '2024-03-01T12:00:00.000Z',
+    author: {did: 'did:example:alice', handle: 'alice.test'},
+    ...overrides,
+  } as JournalEntryView
+}
+
+function grant(
+  overrides: Partial<JournalAccessGrant> = {},
+): JournalAccessGrant {
+  return {
+    id: '3kabc',
+    entryUri: ENTRY_URI,
+    granteeDid: 'did:example:bob',
+    readOnly: true,
+    grantedAt: '2024-03-01T12:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('journal access grants', () => {
+  it('treats revoked and expired grants as inactive', () => {
+    const now = new Date('2024-03-10T00:00:00.000Z')
+    expect(isAccessGrantActive(grant(), now)).toBe(true)
+    expect(
+      isAccessGrantActive(grant({expiresAt: '2024-03-20T00:00:00.000Z'}), now),
+    ).toBe(true)
+    expect(
+      isAccessGrantActive(grant({expiresAt: '2024-03-05T00:00:00.000Z'}), now),
+    ).toBe(false)
+    expect(
+      isAccessGrantActive(grant({revokedAt: '2024-03-02T00:00:00.000Z'}), now),
+    ).toBe(false)
+  })
+
+  it('lets a grantee view an entry hidden from them', () => {
+    const viewer = {did: 'did:example:bob', grants: [grant()]}
+    expect(canViewJournalEntry(entry(), viewer)).toBe(true)
+    expect(canViewJournalEntry(entry(), {did: 'did:example:bob'})).toBe(false)
+  })
+
+  it('ignores grants on encrypted entries', () => {
+    const viewer = {did: 'did:example:bob', grants: [grant()]}
+    for (const privacyLevel of ['private', 'contacts'] as const) {
+      expect(canViewJournalEntry(entry({privacyLevel}), viewer)).toBe(false)
+      expect(
+        findActiveAccessGrant(entry({privacyLevel}), viewer),
+      ).toBeUndefined()
+    }
+  })
+
+  it('ignores grants for other viewers or entries', () => {
+    expect(
+      canViewJournalEntry(entry(), {
+        did: 'did:example:carol',
+        grants: [grant()],
+      }),
+    ).toBe(false)
+    expect(
+      findActiveAccessGrant(entry({uri: `${ENTRY_URI}2`}), {
+        did: 'did:example:bob',
+        grants: [grant()],
+      }),
+    ).toBeUndefined()
+  })
+
+  it('stops access once a grant is revoked', () => {
+    const viewer = {
+      did: 'did:example:bob',
+      grants: [grant({revokedAt: new Date().toISOString()})],
+    }
+    expect(canViewJournalEntry(entry(), viewer)).toBe(false)
+  })
+
+  it('only allows comments on grants that are not read-only', () => {
+    expect(
+      canCommentOnJournalEntry(entry(), {
+        did: 'did:example:bob',
+        grants: [grant()],
+      }),
+    ).toBe(false)
+    expect(
+      canCommentOnJournalEntry(entry(), {
+        did: 'did:example:bob',
+        grants: [grant({readOnly: false})],
+      }),
+    ).toBe(true)
+  })
+
+  it('never lets a grantee reshare', () => {
+    expect(
+      canShareJournalEntry(entry(), {
+        did: 'did:example:bob',
+        grants: [grant({readOnly: false})],
+      }),
+    ).toBe(false)
+  })
+})
+
+describe('canCommentOnJournalEntry', () => {
+  it('refuses comments on encrypted entries, even from followers', () => {
+    const viewer = {did: 'did:example:bob', isFollowing: true}
+    expect(
+      canCommentOnJournalEntry(entry({privacyLevel: 'contacts'}), viewer),
+    ).toBe(false)
+    expect(
+      canCommentOnJournalEntry(entry({privacyLevel: 'public'}), viewer),
+    ).toBe(true)
+  })
+})
+
+describe('shouldLogJournalAccess', () => {
+  it('logs views by anyone but the author when the entry requires it', () => {
+    const logged = {...entry(), accessLogRequired: true}
+    expect(shouldLogJournalAccess(logged, 'did:example:bob')).toBe(true)
+    expect(shouldLogJournalAccess(logged, 'did:example:alice')).toBe(false)
+    expect(shouldLogJournalAccess(entry(), 'did:example:bob')).toBe(false)
+  })
+})
@@ -0,0 +1,60 @@
+import {describe, expect, it} from '@jest/globals'
+
+import {type JournalComment} from '../../../src/state/queries/journal/types'
+import {buildJournalCommentThreads} from '../../../src/state/queries/journal/utils'
+
+function comment(
+  id: string,
+  createdAt: string,
+  overrides: Partial<JournalComment> = {},
+): JournalComment {
+  return {
+    id,
+    uri: `at://did:example:bob/app.warlog.journalComment/${id}`,
+    cid: 'bafy',
+    entryId: '1',
+    author: {did: 'did:example:bob', handle: 'bob.test'},
+    text: `comment ${id}`,
+    createdAt,
+    isSupport: false,
+    isModerator: false,
+    likeCount: 0,
+    replyCount: 0,
+    isDeleted: false,
+    isHidden: false,
+    reportCount: 0,
+    ...overrides,
+  }
+}
+
+describe('buildJournalCommentThreads', () => {
+  it('nests replies under their parent, oldest first', () => {
+    const threads = buildJournalCommentThreads([
+      comment('c', '2024-03-01T12:03:00.000Z', {parentCommentId: 'a'}),
+      comment('b', '2024-03-01T12:02:00.000Z'),
+      comment('a', '2024-03-01T12:01:00.000Z'),
+      comment('d', '2024-03-01T12:04:00.000Z', {parentCommentId: 'c'}),
+    ])
+    expect(threads.map(t => t.comment.id)).toEqual(['a', 'b'])
+    expect(threads[0].replies.map(t => t.comment.id)).toEqual(['c'])
+    expect(threads[0].replies[0].replies.map(t => t.comment.id)).toEqual(['d'])
+  })
+
+  it('shows replies to missing comments at the top level', () => {
+    const threads = buildJournalCommentThreads([
+      comment('a', '2024-03-01T12:01:00.000Z', {parentCommentId: 'gone'}),
+    ])
+    expect(threads.map(t => t.comment.id)).toEqual(['a'])
+  })
+
+  it('drops hidden comments and deleted comments without replies', () => {
+    const threads = buildJournalCommentThreads([
+      comment('a', '2024-03-01T12:01:00.000Z', {isDeleted: true}),
+      comment('b', '2024-03-01T12:02:00.000Z', {parentCommentId: 'a'}),
+      comment('c', '2024-03-01T12:03:00.000Z', {isDeleted: true}),
+      comment('d', '2024-03-01T12:04:00.000Z', {isHidden: true}),
+    ])
+    expect(threads.map(t => t.comment.id)).toEqual(['a'])
+    expect(threads[0].replies.map(t => t.comment.id)).toEqual(['b'])
+  })
+})
@@ -0,0 +1,67 @@
+import {afterEach, describe, expect, it, jest} from '@jest/globals'
+
+import {
+  createJournalKey,
+  forgetJournalKeys,
+  openJournalRecord,
+  sealJournalRecord,
+} from '../../../src/lib/journal-encryption'
+import {
+  createJournalIntegrity,
+  verifyJournalRecord,
+} from '../../../src/lib/journal-integrity'
+import {reencryptJournalRecord} from '../../../src/state/queries/journal-encryption'
+
+jest.mock('../../../src/state/session', () => ({
+  useAgent: jest.fn(),
+  useSession: jest.fn(),
+}))
+
+const did = 'did:example:alice'
+
+const mockAgent = {
+  com: {
+    atproto: {
+      repo: {
+        putRecord: jest.fn<any>(),
+      },
+    },
+  },
+}
+const repo = mockAgent.com.atproto.repo
+
+describe('reencryptJournalRecord', () => {
+  afterEach(() => {
+    forgetJournalKeys(did)
+  })
+
+  it('keeps a rotated entry verifiable as amended', async () => {
+    const previous = await createJournalKey(did, 'correct horse')
+    const sealed = await sealJournalRecord(did, {
+      text: 'ringing after the visit',
+      privacyLevel: 'private',
+      createdAt: '2024-05-01T10:00:00.000Z',
+    })
+    const record = {...sealed, integrity: createJournalIntegrity(sealed, null)}
+    expect(verifyJournalRecord(record).status).toBe('intact')
+
+    const next = await createJournalKey(did, 'battery staple')
+    repo.putRecord.mockResolvedValue({
+      data: {uri: `at://${did}/app.warlog.journal/a`, cid: 'new'},
+    })
+    await reencryptJournalRecord(mockAgent as any, did, {
+      uri: `at://${did}/app.warlog.journal/a`,
+      cid: 'old',
+      value: record,
+    })
+
+    const {record: written, swapRecord} = repo.putRecord.mock.calls[0][0] as any
+    expect(swapRecord).toBe('old')
+    expect(written.encrypted.keyId).toBe(next.keyId)
+    expect(written.encrypted.keyId).not.toBe(previous.keyId)
+    expect(verifyJournalRecord(written).status).toBe('amended')
+    expect((await openJournalRecord(did, written)).text).toBe(
+      'ringing after the visit',
+    )
+  })
+})
@@ -0,0 +1,82 @@
+import {describe, expect, it} from '@jest/globals'
+
+import {type JournalNotification} from '../../../src/state/queries/journal/types'
+import {
+  getJournalNotificationRoute,
+  interleaveJournalNotifications,
+} from '../../../src/state/queries/journal/utils'
+
+const ENTRY_URI = 'at://did:example:alice/app.warlog.journal/1'
+
+function notification(type: JournalNotification['type']): JournalNotification {
+  return {
+    id: '1',
+    type,
+    entryId: '1',
+    entry: {uri: ENTRY_URI} as JournalNotification['entry'],
+    actor: {did: 'did:example:bob', handle: 'bob.test'},
+    createdAt: '2024-03-01T12:00:00.000Z',
+    isRead: false,
+  }
+}
+
+describe('getJournalNotificationRoute', () => {
+  it('opens the access screen for access requests', () => {
+    expect(
+      getJournalNotificationRoute(notification('privacy_access_request')),
+    ).toEqual({screen: 'JournalEntryAccess', params: {uri: ENTRY_URI}})
+  })
+
+  it('opens the entry for everything else', () => {
+    expect(getJournalNotificationRoute(notification('comment'))).toEqual({
+      screen: 'JournalEntryDetail',
+      params: {uri: ENTRY_URI, via: 'notification'},
+    })
+  })
+})
+
+describe('interleaveJournalNotifications', () => {
+  type Item = {key: string; at: string}
+  const item = (key: string, minute: number): Item => ({
+    key,
+    at: `2024-03-01T12:${String(minute).padStart(2, '0')}:00.000Z`,
+  })
+  const getTimestamp = (i: Item) => i.at
+
+  it('merges by time without reordering the feed', () => {
+    const feed = [item('a', 50), item('b', 40), item('c', 30)]
+    const journal = [item('j2', 35), item('j1', 55)]
+    expect(
+      interleaveJournalNotifications(feed, journal, {
+        getTimestamp,
+        hasMore: false,
+      }).map(i => i.key),
+    ).toEqual(['j1', 'a', 'b', 'j2', 'c'])
+  })
+
+  it('holds back older journal notifications until the feed catches up', () => {
+    const feed = [item('a', 50), item('b', 40)]
+    const journal = [item('j1', 45), item('j2', 10)]
+    expect(
+      interleaveJournalNotifications(feed, journal, {
+        getTimestamp,
+        hasMore: true,
+      }).map(i => i.key),
+    ).toEqual(['a', 'j1', 'b'])
+    expect(
+      interleaveJournalNotifications(feed, journal, {
+        getTimestamp,
+        hasMore: false,
+      }).map(i => i.key),
+    ).toEqual(['a', 'j1', 'b', 'j2'])
+  })
+
+  it('shows all journal notifications when the feed is empty', () => {
+    expect(
+      interleaveJournalNotifications([], [item('j1', 10)], {
+        getTimestamp,
+        hasMore: true,
+      }).map(i => i.key),
+    ).toEqual(['j1'])
+  })
+})
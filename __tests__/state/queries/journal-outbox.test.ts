@@ -0,0 +1,393 @@
+import {beforeEach, describe, expect, it, jest} from '@jest/globals'
+
+import {
+  createJournalKey,
+  forgetJournalKeys,
+  openJournalRecord,
+  sealJournalRecord,
+} from '../../../src/lib/journal-encryption'
+import {
+  getJournalOutbox,
+  openJournalDraft,
+  queueJournalWrite,
+  replayJournalOutbox,
+  retryJournalWrite,
+  sealJournalDraft,
+} from '../../../src/state/queries/journal-outbox'
+import {account} from '../../../src/storage'
+
+jest.mock('../../../src/state/session', () => ({
+  useAgent: jest.fn(),
+  useSession: jest.fn(),
+}))
+
+const did = 'did:example:alice'
+
+const mockAgent = {
+  com: {
+    atproto: {
+      repo: {
+        createRecord: jest.fn<any>(),
+        putRecord: jest.fn<any>(),
+        deleteRecord: jest.fn<any>(),
+        listRecords: jest.fn<any>(),
+        getRecord: jest.fn<any>(),
+        applyWrites: jest.fn<any>(),
+      },
+      sync: {
+        getLatestCommit: jest.fn<any>(),
+      },
+    },
+  },
+}
+const repo = mockAgent.com.atproto.repo
+
+function written(rkey = 'a') {
+  return {data: {uri: `at://${did}/app.warlog.journal/${rkey}`, cid: 'cid'}}
+}
+
+function replay() {
+  return replayJournalOutbox(mockAgent as any, did)
+}
+
+describe('journal outbox', () => {
+  beforeEach(() => {
+    account.remove([did, 'journalOutbox'])
+    account.remove([did, 'journalChainHead'])
+    forgetJournalKeys(did)
+    jest.clearAllMocks()
+    repo.createRecord.mockResolvedValue(written())
+    repo.putRecord.mockResolvedValue(written())
+    repo.deleteRecord.mockResolvedValue({})
+    repo.listRecords.mockResolvedValue({data: {records: []}})
+    repo.getRecord.mockImplementation(async ({rkey}: any) => ({
+      data: {
+        uri: `at://${did}/app.warlog.journal/${rkey}`,
+        cid: 'current',
+        value: {text: 'theirs', updatedAt: '2024-01-01T00:00:00.000Z'},
+      },
+    }))
+    repo.applyWrites.mockResolvedValue({data: {results: [{cid: 'new'}]}})
+    mockAgent.com.atproto.sync.getLatestCommit.mockResolvedValue({
+      data: {cid: 'commit', rev: 'rev'},
+    })
+  })
+
+  it('folds an edit into a queued create', () => {
+    queueJournalWrite(did, {action: 'create', rkey: 'a', record: {text: '1'}})
+    queueJournalWrite(did, {action: 'update', rkey: 'a', record: {text: '2'}})
+
+    const outbox = getJournalOutbox(did)
+    expect(outbox).toHaveLength(1)
+    expect(outbox[0]).toMatchObject({action: 'create', record: {text: '2'}})
+  })
+
+  it('drops a queued create that is then deleted', () => {
+    queueJournalWrite(did, {action: 'create', rkey: 'a', record: {text: '1'}})
+    queueJournalWrite(did, {action: 'delete', rkey: 'a'})
+
+    expect(getJournalOutbox(did)).toHaveLength(0)
+  })
+
+  it('keeps the original swapRecord when edits are merged', () => {
+    queueJournalWrite(did, {
+      action: 'update',
+      rkey: 'a',
+      record: {text: '1'},
+      swapRecord: 'cid1',
+    })
+    queueJournalWrite(did, {
+      action: 'update',
+      rkey: 'a',
+      record: {text: '2'},
+      swapRecord: 'cid2',
+    })
+
+    expect(getJournalOutbox(did)).toEqual([
+      expect.objectContaining({record: {text: '2'}, swapRecord: 'cid1'}),
+    ])
+  })
+
+  it('replays writes in order', async () => {
+    const calls: string[] = []
+    repo.createRecord.mockImplementation(async ({rkey}: any) => {
+      calls.push(`create ${rkey}`)
+      return written(rkey)
+    })
+    repo.applyWrites.mockImplementation(async ({writes}: any) => {
+      calls.push(`delete ${writes[0].rkey}`)
+      return {data: {results: []}}
+    })
+    queueJournalWrite(did, {action: 'create', rkey: 'a', record: {}})
+    queueJournalWrite(did, {action: 'delete', rkey: 'b'})
+    queueJournalWrite(did, {action: 'create', rkey: 'c', record: {}})
+
+    const result = await replay()
+
+    expect(calls).toEqual(['create a', 'delete b', 'create c'])
+    expect(result).toEqual({sent: 3, conflicts: 0, remaining: 0})
+  })
+
+  it('stops at a network error and keeps the rest queued', async () => {
+    repo.createRecord.mockRejectedValueOnce(new Error('Network request failed'))
+    queueJournalWrite(did, {action: 'create', rkey: 'a', record: {}})
+    queueJournalWrite(did, {action: 'create', rkey: 'b', record: {}})
+
+    const result = await replay()
+
+    expect(repo.createRecord).toHaveBeenCalledTimes(1)
+    expect(result).toEqual({sent: 0, conflicts: 0, remaining: 2})
+    expect(getJournalOutbox(did)[0]).toMatchObject({attempts: 1})
+  })
+
+  it('holds later writes to an entry behind a conflict', async () => {
+    queueJournalWrite(did, {
+      action: 'update',
+      rkey: 'a',
+      record: {text: 'mine'},
+      swapRecord: 'old',
+    })
+    await replay()
+
+    queueJournalWrite(did, {action: 'delete', rkey: 'a'})
+    queueJournalWrite(did, {action: 'create', rkey: 'b', record: {}})
+    const result = await replay()
+
+    expect(repo.applyWrites).not.toHaveBeenCalled()
+    expect(repo.createRecord).toHaveBeenCalledTimes(1)
+    expect(result).toEqual({sent: 1, conflicts: 1, remaining: 2})
+  })
+
+  it('overwrites on retry after a conflict', async () => {
+    queueJournalWrite(did, {
+      action: 'update',
+      rkey: 'a',
+      record: {text: 'mine', updatedAt: '2024-02-01T00:00:00.000Z'},
+      swapRecord: 'old',
+    })
+    const first = await replay()
+    expect(first.conflicts).toBe(1)
+    expect(repo.applyWrites).not.toHaveBeenCalled()
+
+    retryJournalWrite(did, getJournalOutbox(did)[0].id)
+    const result = await replay()
+
+    // the edit and the revision of what it replaced go in one commit
+    expect(repo.applyWrites).toHaveBeenCalledTimes(1)
+    expect(repo.applyWrites).toHaveBeenCalledWith(
+      expect.objectContaining({
+        swapCommit: 'commit',
+        writes: [
+          expect.objectContaining({
+            $type: 'com.atproto.repo.applyWrites#update',
+            collection: 'app.warlog.journal',
+            rkey: 'a',
+            value: expect.objectContaining({text: 'mine'}),
+          }),
+          expect.objectContaining({
+            $type: 'com.atproto.repo.applyWrites#create',
+            collection: 'app.warlog.journalRevision',
+            value: expect.objectContaining({
+              entry: `at://${did}/app.warlog.journal/a`,
+              cid: 'current',
+              record: {text: 'theirs', updatedAt: '2024-01-01T00:00:00.000Z'},
+            }),
+          }),
+        ],
+      }),
+    )
+    expect(result.remaining).toBe(0)
+  })
+
+  it('deletes an entry together with its revisions', async () => {
+    const revisionOf = (rkey: string) => ({
+      $type: 'app.warlog.journalRevision',
+      entry: `at://${did}/app.warlog.journal/${rkey}`,
+      cid: 'old',
+      record: {text: 'before'},
+      createdAt: '2024-01-01T00:00:00.000Z',
+    })
+    repo.listRecords.mockImplementation(async ({collection}: any) => ({
+      data: {
+        records:
+          collection === 'app.warlog.journalRevision'
+            ? [
+                {
+                  uri: `at://${did}/app.warlog.journalRevision/r1`,
+                  cid: 'r1',
+                  value: revisionOf('a'),
+                },
+                {
+                  uri: `at://${did}/app.warlog.journalRevision/r2`,
+                  cid: 'r2',
+                  value: revisionOf('b'),
+                },
+              ]
+            : [],
+      },
+    }))
+    queueJournalWrite(did, {action: 'delete', rkey: 'a'})
+
+    await replay()
+
+    expect(repo.applyWrites).toHaveBeenCalledTimes(1)
+    expect(repo.applyWrites.mock.calls[0][0]).toMatchObject({
+      writes: [
+        {collection: 'app.warlog.journal', rkey: 'a'},
+        {collection: 'app.warlog.journalRevision', rkey: 'r1'},
+      ],
+    })
+    expect((repo.applyWrites.mock.calls[0][0] as any).writes).toHaveLength(2)
+  })
+
+  it('seals the history of an entry that is made private', async () => {
+    await createJournalKey(did, 'correct horse')
+    repo.listRecords.mockImplementation(async ({collection}: any) => ({
+      data: {
+        records:
+          collection === 'app.warlog.journalRevision'
+            ? [
+                {
+                  uri: `at://${did}/app.warlog.journalRevision/r1`,
+                  cid: 'r1',
+                  value: {
+                    $type: 'app.warlog.journalRevision',
+                    entry: `at://${did}/app.warlog.journal/a`,
+                    cid: 'older',
+                    record: {text: 'first', privacyLevel: 'public'},
+                    createdAt: '2023-12-01T00:00:00.000Z',
+                  },
+                },
+              ]
+            : [],
+      },
+    }))
+    queueJournalWrite(did, {
+      action: 'update',
+      rkey: 'a',
+      record: await sealJournalRecord(did, {
+        text: 'mine',
+        privacyLevel: 'private',
+        updatedAt: '2024-02-01T00:00:00.000Z',
+      }),
+      swapRecord: 'current',
+    })
+
+    await replay()
+
+    const {writes} = repo.applyWrites.mock.calls[0][0] as any
+    expect(writes).toHaveLength(3)
+    const [, created, updated] = writes
+    expect(created).toMatchObject({
+      $type: 'com.atproto.repo.applyWrites#create',
+      value: {record: {text: '', encrypted: expect.any(Object)}},
+    })
+    expect(updated).toMatchObject({
+      $type: 'com.atproto.repo.applyWrites#update',
+      collection: 'app.warlog.journalRevision',
+      rkey: 'r1',
+      value: {record: {text: '', privacyLevel: 'public'}},
+    })
+    expect((await openJournalRecord(did, created.value.record)).text).toBe(
+      'theirs',
+    )
+    expect((await openJournalRecord(did, updated.value.record)).text).toBe(
+      'first',
+    )
+  })
+
+  it('never sends a private edit in plaintext', async () => {
+    await createJournalKey(did, 'correct horse')
+    repo.getRecord.mockResolvedValue({
+      data: {
+        uri: `at://${did}/app.warlog.journal/a`,
+        cid: 'current',
+        value: {text: '', encrypted: {}},
+      },
+    })
+    queueJournalWrite(did, {
+      action: 'update',
+      rkey: 'a',
+      record: await sealJournalRecord(did, {
+        entryType: 'real_time',
+        text: 'mine',
+        symptoms: [{category: 'other', severity: 5}],
+        location: {latitude: 1, longitude: 2},
+        privacyLevel: 'private',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      }),
+      swapRecord: 'current',
+    })
+    // the outbox is kept on the device, so it only ever holds the sealed record
+    expect(JSON.stringify(getJournalOutbox(did))).not.toContain('mine')
+
+    await replay()
+
+    const [{value}] = (repo.applyWrites.mock.calls[0][0] as any).writes
+    expect(value).toMatchObject({
+      entryType: 'real_time',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      text: '',
+      encrypted: expect.objectContaining({alg: 'xchacha20-poly1305'}),
+    })
+    expect(value.symptoms).toBeUndefined()
+    expect(value.location).toBeUndefined()
+    expect((await openJournalRecord(did, value)).text).toBe('mine')
+  })
+
+  it('chains created entries in the order they are sent', async () => {
+    queueJournalWrite(did, {action: 'create', rkey: 'a', record: {text: '1'}})
+    queueJournalWrite(did, {action: 'create', rkey: 'b', record: {text: '2'}})
+
+    await replay()
+
+    const [first, second] = repo.createRecord.mock.calls.map(
+      ([{record}]: any) => record.integrity,
+    )
+    expect(first).toMatchObject({seq: 0, prev: null})
+    expect(second).toMatchObject({seq: 1, prev: first.chainHash})
+  })
+})
+
+describe('journal drafts', () => {
+  const draft = {
+    id: 'new',
+    text: 'ringing again',
+    entryType: 'real_time' as const,
+    tags: ['sleep'],
+    isPrivate: true,
+    lastSaved: '2024-01-01T00:00:00.000Z',
+  }
+
+  beforeEach(async () => {
+    await forgetJournalKeys(did)
+  })
+
+  it('seals private drafts and opens them again', async () => {
+    await createJournalKey(did, 'correct horse')
+
+    const stored = await sealJournalDraft(did, draft)
+
+    expect(JSON.stringify(stored)).not.toContain('ringing')
+    expect(JSON.stringify(stored)).not.toContain('sleep')
+    expect(await openJournalDraft(did, stored)).toEqual(draft)
+  })
+
+  it('stores drafts that are not private as they are', async () => {
+    const stored = await sealJournalDraft(did, {...draft, isPrivate: false})
+
+    expect(stored).toEqual({...draft, isPrivate: false})
+  })
+
+  it('refuses to seal a private draft while the journal is locked', async () => {
+    await expect(sealJournalDraft(did, draft)).rejects.toThrow()
+  })
+
+  it('leaves out a draft that this device cannot open', async () => {
+    await createJournalKey(did, 'correct horse')
+    const stored = await sealJournalDraft(did, draft)
+    await forgetJournalKeys(did)
+
+    expect(await openJournalDraft(did, stored)).toBeUndefined()
+  })
+})
@@ -0,0 +1,138 @@
+import {describe, expect, it} from '@jest/globals'
+
+import {
+  type JournalWitnessAttestation,
+  type JournalWitnessReview,
+} from '../../../src/state/queries/journal/types'
+import {resolveJournalWitnesses} from '../../../src/state/queries/journal/utils'
+
+const entry = {
+  uri: 'at://did:example:alice/app.warlog.journal/1',
+  cid: 'bafy-v2',
+  author: {did: 'did:example:alice'},
+}
+
+function attestation(
+  id: string,
+  overrides: Partial<JournalWitnessAttestation> = {},
+): JournalWitnessAttestation {
+  return {
+    uri: `at://did:example:${id}/app.warlog.journalWitness/1`,
+    cid: `cid-${id}`,
+    author: {did: `did:example:${id}`, handle: `${id}.test`},
+    subject: {uri: entry.uri, cid: entry.cid},
+    statement: `${id} saw it`,
+    createdAt: '2024-03-01T12:00:00.000Z',
+    ...overrides,
+  }
+}
+
+function review(
+  witness: JournalWitnessAttestation,
+  status: JournalWitnessReview['status'],
+  overrides: Partial<JournalWitnessReview> = {},
+): JournalWitnessReview {
+  return {
+    uri: `at://did:example:alice/app.warlog.journalWitnessReview/${witness.cid}`,
+    subject: {uri: witness.uri, cid: witness.cid},
+    entry: entry.uri,
+    status,
+    createdAt: '2024-03-02T12:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('resolveJournalWitnesses', () => {
+  const bob = attestation('bob')
+  const carol = attestation('carol')
+  const dan = attestation('dan')
+  const reviews = [review(bob, 'accepted'), review(carol, 'hidden')]
+
+  it('shows the author every attestation with its status', () => {
+    const witnesses = resolveJournalWitnesses(
+      entry,
+      [bob, carol, dan],
+      reviews,
+      'did:example:alice',
+    )
+    expect(witnesses.map(w => [w.author.handle, w.status])).toEqual([
+      ['bob.test', 'accepted'],
+      ['carol.test', 'hidden'],
+      ['dan.test', 'pending'],
+    ])
+  })
+
+  it('shows others the accepted attestations and their own', () => {
+    const witnesses = resolveJournalWitnesses(
+      entry,
+      [bob, carol, dan],
+      reviews,
+      'did:example:carol',
+    )
+    expect(witnesses.map(w => w.author.handle)).toEqual([
+      'bob.test',
+      'carol.test',
+    ])
+  })
+
+  it('marks attestations of an earlier version as outdated', () => {
+    const witnesses = resolveJournalWitnesses(
+      entry,
+      [
+        attestation('bob', {
+          subject: {uri: entry.uri, cid: 'bafy-v1'},
+          createdAt: '2024-02-01T00:00:00.000Z',
+        }),
+        dan,
+      ],
+      [],
+      'did:example:alice',
+    )
+    expect(witnesses.map(w => [w.author.handle, w.isOutdated])).toEqual([
+      ['dan.test', false],
+      ['bob.test', true],
+    ])
+  })
+
+  it('only counts a review for the version it was made on', () => {
+    const edited = {...bob, cid: 'cid-bob-edited'}
+    const [witness] = resolveJournalWitnesses(
+      entry,
+      [edited],
+      reviews,
+      'did:example:alice',
+    )
+    expect(witness.status).toBe('pending')
+    expect(witness.reviewUri).toBeUndefined()
+  })
+
+  it('uses the latest review of an attestation', () => {
+    const [witness] = resolveJournalWitnesses(
+      entry,
+      [bob],
+      [
+        review(bob, 'hidden', {
+          uri: 'at://did:example:alice/app.warlog.journalWitnessReview/2',
+          createdAt: '2024-03-05T00:00:00.000Z',
+        }),
+        review(bob, 'accepted'),
+      ],
+      'did:example:alice',
+    )
+    expect(witness.status).toBe('hidden')
+  })
+
+  it('ignores attestations by the author or of other entries', () => {
+    expect(
+      resolveJournalWitnesses(
+        entry,
+        [
+          attestation('alice'),
+          attestation('bob', {subject: {uri: 'other', cid: entry.cid}}),
+        ],
+        [],
+        'did:example:alice',
+      ),
+    ).toEqual([])
+  })
+})
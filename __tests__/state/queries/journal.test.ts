@@ -199,9 +199,11 @@ describe('Journal Query Hooks', () => {
 
     beforeEach(() => {
       mockAgent.com.atproto.repo.getRecord.mockResolvedValue({
-        uri: mockEntry.uri,
-        cid: mockEntry.cid,
-        value: mockEntry,
+        data: {
+          uri: mockEntry.uri,
+          cid: mockEntry.cid,
+          value: mockEntry,
+        },
       })
     })
 
@@ -313,8 +315,10 @@ describe('Journal Query Hooks', () => {
 
     beforeEach(() => {
       mockAgent.com.atproto.repo.createRecord.mockResolvedValue({
-        uri: 'at://did:example:alice/app.warlog.journal/new123',
-        cid: 'bafkreinewentry123',
+        data: {
+          uri: 'at://did:example:alice/app.warlog.journal/new123',
+          cid: 'bafkreinewentry123',
+        },
       })
     })
 
@@ -333,7 +337,9 @@ describe('Journal Query Hooks', () => {
         collection: 'app.warlog.journal',
         record: expect.objectContaining({
           $type: 'app.warlog.journal',
+          version: 2,
           ...newEntryData,
+          privacyLevel: 'public',
           createdAt: expect.any(String),
         }),
       })
@@ -417,14 +423,18 @@ describe('Journal Query Hooks', () => {
 
     beforeEach(() => {
       mockAgent.com.atproto.repo.getRecord.mockResolvedValue({
-        uri: existingEntry.uri,
-        cid: existingEntry.cid,
-        value: existingEntry,
+        data: {
+          uri: existingEntry.uri,
+          cid: existingEntry.cid,
+          value: existingEntry,
+        },
       })
 
       mockAgent.com.atproto.repo.putRecord.mockResolvedValue({
-        uri: existingEntry.uri,
-        cid: 'bafkreiupdatedentry123',
+        data: {
+          uri: existingEntry.uri,
+          cid: 'bafkreiupdatedentry123',
+        },
       })
     })
 
@@ -443,9 +453,10 @@ describe('Journal Query Hooks', () => {
         collection: 'app.warlog.journal',
         rkey: expect.any(String),
         record: expect.objectContaining({
-          ...existingEntry,
-          text: updateData.text,
+          entryType: existingEntry.entryType,
+          createdAt: existingEntry.createdAt,
           isPrivate: updateData.isPrivate,
+          privacyLevel: 'private',
         }),
       })
     })
@@ -62,6 +62,8 @@ module.exports = function (_config) {
             'Used for profile pictures, posts, and other kinds of content.',
           NSMicrophoneUsageDescription:
             'Used for posts and other kinds of content.',
+          NSLocationWhenInUseUsageDescription:
+            'Used to add where something happened to your journal entries.',
           NSPhotoLibraryAddUsageDescription:
             'Used to save images to your library.',
           NSPhotoLibraryUsageDescription:
@@ -12,6 +12,7 @@ export interface Link {
 
 export enum LinkType {
   StarterPack = 1,
+  JournalSharePacket = 2,
 }
 
 export type LinkEntry = Selectable<Link>
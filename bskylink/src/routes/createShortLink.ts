@@ -43,6 +43,18 @@ export default function (ctx: AppContext, app: Express) {
         const id = await ensureLink(ctx, LinkType.StarterPack, parts)
         return res.json({url: getUrl(ctx, req, id)})
       }
+      if (parts.length === 3 && parts[0] === 'packet') {
+        // link pattern: /packet/{did}/{id}
+        if (!parts[1].startsWith('did:')) {
+          return res.status(400).json({
+            error: 'InvalidPath',
+            message:
+              '"path" parameter for share packet must contain the actor\'s DID',
+          })
+        }
+        const id = await ensureLink(ctx, LinkType.JournalSharePacket, parts)
+        return res.json({url: getUrl(ctx, req, id)})
+      }
       return res.status(400).json({
         error: 'InvalidPath',
         message: '"path" parameter does not have a known format',
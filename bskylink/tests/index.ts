@@ -39,6 +39,27 @@ describe('link service', async () => {
     assert.match(url.pathname, /^\/[a-z0-9]+$/i)
   })
 
+  it('creates a share packet link', async () => {
+    const link = await getLink('/packet/did:example:alice/3kabc')
+    const [status, location] = await getRedirect(link)
+    assert.strictEqual(status, 301)
+    assert.strictEqual(
+      new URL(location).pathname,
+      '/packet/did:example:alice/3kabc',
+    )
+  })
+
+  it('rejects share packet links without a DID', async () => {
+    const res = await fetch(new URL('/link', baseUrl), {
+      method: 'post',
+      headers: {'content-type': 'application/json'},
+      body: JSON.stringify({path: '/packet/alice.test/3kabc'}),
+    })
+    assert.strictEqual(res.status, 400)
+    const json = await res.json()
+    assert.strictEqual(json.error, 'InvalidPath')
+  })
+
   it('normalizes input paths and provides same link each time.', async () => {
     const link1 = await getLink('/start/did%3Aexample%3Abob/yyy')
     const link2 = await getLink('/start/did:example:bob/yyy/')
@@ -0,0 +1,73 @@
+import cluster, {Worker} from 'node:cluster'
+
+import {envInt} from '@atproto/common'
+
+import {
+  AppviewSourceStore,
+  checkerLogger,
+  type Config,
+  envToCfg,
+  httpLogger,
+  readEnv,
+  SourceChecker,
+  SourceMetaService,
+} from './index.js'
+
+// runs in a single process, so workers don't check every source several times
+function startChecker(cfg: Config) {
+  if (!cfg.checker) return
+  const controller = new AbortController()
+  const checker = new SourceChecker(
+    new AppviewSourceStore(cfg.checker),
+    cfg.fetch,
+    cfg.checker,
+  )
+  checker.start(controller.signal)
+  checkerLogger.info('source checker is running')
+  process.on('SIGTERM', () => controller.abort())
+}
+
+async function main() {
+  const env = readEnv()
+  const cfg = envToCfg(env)
+  const service = await SourceMetaService.create(cfg)
+  await service.start()
+  httpLogger.info('source metadata service is running')
+  process.on('SIGTERM', async () => {
+    httpLogger.info('source metadata service is stopping')
+    await service.destroy()
+    httpLogger.info('source metadata service is stopped')
+    if (cluster.isWorker) process.exit(0)
+  })
+  if (!cluster.isWorker) startChecker(cfg)
+}
+
+const workerCount = envInt('SOURCEMETA_CLUSTER_WORKER_COUNT')
+
+if (workerCount) {
+  if (cluster.isPrimary) {
+    httpLogger.info(`primary ${process.pid} is running`)
+    startChecker(envToCfg(readEnv()))
+    const workers = new Set<Worker>()
+    for (let i = 0; i < workerCount; ++i) {
+      workers.add(cluster.fork())
+    }
+    let teardown = false
+    cluster.on('exit', worker => {
+      workers.delete(worker)
+      if (!teardown) {
+        workers.add(cluster.fork()) // restart on crash
+      }
+    })
+    process.on('SIGTERM', () => {
+      teardown = true
+      httpLogger.info('disconnecting workers')
+      workers.forEach(w => w.kill('SIGTERM'))
+    })
+  } else {
+    httpLogger.info(`worker ${process.pid} is running`)
+    main()
+  }
+} else {
+  main() // non-clustering
+}
@@ -0,0 +1,129 @@
+import {setTimeout as sleep} from 'node:timers/promises'
+
+import {type CheckerConfig, type FetchConfig} from './config.js'
+import {checkerLogger} from './logger.js'
+import {checkSource, type SourceHealth, type Snapshot} from './snapshot.js'
+
+export type StoredSource = {
+  id: string
+  url?: string
+  snapshot?: Snapshot
+}
+
+export interface SourceStore {
+  list(cursor?: string): Promise<{sources: StoredSource[]; cursor?: string}>
+  // a snapshot is only passed for sources that didn't have one yet
+  saveHealth(
+    sourceId: string,
+    health: SourceHealth,
+    snapshot?: Snapshot,
+  ): Promise<void>
+}
+
+/**
+ * Reads sources from the appview and hands results back to it, as that is
+ * where sources are stored
+ */
+export class AppviewSourceStore implements SourceStore {
+  constructor(private cfg: CheckerConfig) {}
+
+  async list(cursor?: string) {
+    const url = new URL('/xrpc/app.bsky.sources.list', this.cfg.appviewUrl)
+    url.searchParams.set('limit', '100')
+    if (cursor) url.searchParams.set('cursor', cursor)
+    const res = await fetch(url, {headers: this.headers()})
+    if (!res.ok) {
+      throw new Error(`app.bsky.sources.list responded with ${res.status}`)
+    }
+    return (await res.json()) as {sources: StoredSource[]; cursor?: string}
+  }
+
+  async saveHealth(
+    sourceId: string,
+    health: SourceHealth,
+    snapshot?: Snapshot,
+  ) {
+    const res = await fetch(
+      new URL('/xrpc/app.bsky.sources.putHealth', this.cfg.appviewUrl),
+      {
+        method: 'POST',
+        headers: {...this.headers(), 'content-type': 'application/json'},
+        body: JSON.stringify({sourceId, health, snapshot}),
+      },
+    )
+    if (!res.ok) {
+      throw new Error(`app.bsky.sources.putHealth responded with ${res.status}`)
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return this.cfg.appviewToken
+      ? {authorization: `Bearer ${this.cfg.appviewToken}`}
+      : {}
+  }
+}
+
+/**
+ * Goes through every source now and then to find the ones whose page is
+ * gone, leads somewhere else or no longer says what it did when cited.
+ */
+export class SourceChecker {
+  constructor(
+    private store: SourceStore,
+    private fetchCfg: FetchConfig,
+    private cfg: CheckerConfig,
+  ) {}
+
+  async run(signal?: AbortSignal): Promise<{checked: number; flagged: number}> {
+    let checked = 0
+    let flagged = 0
+    let cursor: string | undefined
+    do {
+      const page = await this.store.list(cursor)
+      for (const source of page.sources) {
+        if (signal?.aborted) break
+        if (!source.url) continue
+        try {
+          const {health, snapshot} = await checkSource(
+            {url: source.url, snapshot: source.snapshot},
+            this.fetchCfg,
+          )
+          await this.store.saveHealth(source.id, health, snapshot)
+          checked++
+          if (health.status !== 'ok') {
+            flagged++
+            checkerLogger.info(
+              {sourceId: source.id, url: source.url, status: health.status},
+              'source flagged',
+            )
+          }
+        } catch (err) {
+          checkerLogger.warn(
+            {err, sourceId: source.id},
+            'could not check source',
+          )
+        }
+        // go easy on the sites being checked
+        await sleep(this.cfg.delayMs, undefined, {signal}).catch(() => {})
+      }
+      cursor = page.cursor
+    } while (cursor && !signal?.aborted)
+    return {checked, flagged}
+  }
+
+  /**
+   * Checks all sources straight away and then once per interval, until the
+   * signal is aborted
+   */
+  async start(signal: AbortSignal) {
+    while (!signal.aborted) {
+      try {
+        const result = await this.run(signal)
+        checkerLogger.info(result, 'checked sources')
+      } catch (err) {
+        checkerLogger.error({err}, 'source check failed')
+      }
+      await sleep(this.cfg.intervalMs, undefined, {signal}).catch(() => {})
+    }
+  }
+}
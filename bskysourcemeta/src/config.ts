@@ -0,0 +1,94 @@
+import {DAY, envBool, envInt, envStr, SECOND} from '@atproto/common'
+
+export type Config = {
+  service: ServiceConfig
+  fetch: FetchConfig
+  // the periodic link check only runs when an appview is configured
+  checker?: CheckerConfig
+}
+
+export type ServiceConfig = {
+  port: number
+  version?: string
+  originVerify?: string
+}
+
+export type FetchConfig = {
+  timeoutMs: number
+  maxBytes: number
+  maxRedirects: number
+  userAgent: string
+  // only for local development and tests, never enable in production
+  allowPrivateHosts: boolean
+}
+
+export type CheckerConfig = {
+  appviewUrl: string
+  appviewToken?: string
+  intervalMs: number
+  // pause between sources
+  delayMs: number
+}
+
+export type Environment = {
+  port?: number
+  version?: string
+  originVerify?: string
+  fetchTimeoutMs?: number
+  fetchMaxBytes?: number
+  fetchMaxRedirects?: number
+  fetchUserAgent?: string
+  fetchAllowPrivateHosts?: boolean
+  checkerAppviewUrl?: string
+  checkerAppviewToken?: string
+  checkerIntervalMs?: number
+  checkerDelayMs?: number
+}
+
+export const readEnv = (): Environment => {
+  return {
+    port: envInt('SOURCEMETA_PORT'),
+    version: envStr('SOURCEMETA_VERSION'),
+    originVerify: envStr('SOURCEMETA_ORIGIN_VERIFY'),
+    fetchTimeoutMs: envInt('SOURCEMETA_FETCH_TIMEOUT_MS'),
+    fetchMaxBytes: envInt('SOURCEMETA_FETCH_MAX_BYTES'),
+    fetchMaxRedirects: envInt('SOURCEMETA_FETCH_MAX_REDIRECTS'),
+    fetchUserAgent: envStr('SOURCEMETA_FETCH_USER_AGENT'),
+    fetchAllowPrivateHosts: envBool('SOURCEMETA_FETCH_ALLOW_PRIVATE_HOSTS'),
+    checkerAppviewUrl: envStr('SOURCEMETA_CHECKER_APPVIEW_URL'),
+    checkerAppviewToken: envStr('SOURCEMETA_CHECKER_APPVIEW_TOKEN'),
+    checkerIntervalMs: envInt('SOURCEMETA_CHECKER_INTERVAL_MS'),
+    checkerDelayMs: envInt('SOURCEMETA_CHECKER_DELAY_MS'),
+  }
+}
+
+export const envToCfg = (env: Environment): Config => {
+  const serviceCfg: ServiceConfig = {
+    // not 3000, which the local PDS already uses in development
+    port: env.port ?? 2586,
+    version: env.version,
+    originVerify: env.originVerify,
+  }
+  const fetchCfg: FetchConfig = {
+    timeoutMs: env.fetchTimeoutMs ?? 10000,
+    maxBytes: env.fetchMaxBytes ?? 10 * 1024 * 1024,
+    maxRedirects: env.fetchMaxRedirects ?? 5,
+    userAgent:
+      env.fetchUserAgent ??
+      'Mozilla/5.0 (compatible; NPWA-SourceBot/1.0; +https://bsky.app)',
+    allowPrivateHosts: env.fetchAllowPrivateHosts ?? false,
+  }
+  const checkerCfg: CheckerConfig | undefined = env.checkerAppviewUrl
+    ? {
+        appviewUrl: env.checkerAppviewUrl,
+        appviewToken: env.checkerAppviewToken,
+        intervalMs: env.checkerIntervalMs ?? DAY,
+        delayMs: env.checkerDelayMs ?? SECOND,
+      }
+    : undefined
+  return {
+    service: serviceCfg,
+    fetch: fetchCfg,
+    checker: checkerCfg,
+  }
+}
@@ -0,0 +1,21 @@
+import {Config} from './config.js'
+
+export type AppContextOptions = {
+  cfg: Config
+}
+
+export class AppContext {
+  cfg: Config
+  abortController = new AbortController()
+
+  constructor(private opts: AppContextOptions) {
+    this.cfg = this.opts.cfg
+  }
+
+  static async fromConfig(cfg: Config, overrides?: Partial<AppContextOptions>) {
+    return new AppContext({
+      cfg,
+      ...overrides,
+    })
+  }
+}
@@ -0,0 +1,13 @@
+const DOI_RE = /\b(10\.\d{4,9}\/[^\s"'<>]+)/i
+
+/**
+ * Finds a DOI in a URL, a `doi:` identifier or free text, without any
+ * resolver prefix.
+ */
+export function findDoi(text: string | undefined): string | undefined {
+  if (!text) return
+  const match = DOI_RE.exec(text.replace(/%2F/gi, '/'))
+  if (!match) return
+  // trailing punctuation belongs to the sentence around the DOI
+  return match[1].replace(/[.,;:)\]}]+$/, '')
+}
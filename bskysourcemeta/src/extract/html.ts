@@ -0,0 +1,302 @@
+import {findDoi} from './doi.js'
+import {type SourceMetadata} from './types.js'
+import {
+  cleanText,
+  decodeEntities,
+  normalizeDate,
+  resolveUrl,
+  uniqueAuthors,
+} from './util.js'
+
+export type HtmlDocument = {
+  title?: string
+  // keyed by name, property or itemprop, lowercased
+  metas: Map<string, string[]>
+  links: {rel: string[]; href: string}[]
+  jsonLd: unknown[]
+}
+
+// elements whose content is raw text rather than markup
+const RAW_TEXT_END: Record<string, RegExp> = {
+  script: /<\/script\s*>/gi,
+  style: /<\/style\s*>/gi,
+  title: /<\/title\s*>/gi,
+  textarea: /<\/textarea\s*>/gi,
+}
+
+/**
+ * Collects the parts of a page that carry metadata. This is a forgiving scan
+ * rather than a full parser, and runs in linear time so a hostile page can't
+ * stall the service.
+ */
+export function scanHtml(html: string): HtmlDocument {
+  const doc: HtmlDocument = {metas: new Map(), links: [], jsonLd: []}
+  let i = 0
+  while (i < html.length) {
+    const lt = html.indexOf('<', i)
+    if (lt === -1) break
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4)
+      if (end === -1) break
+      i = end + 3
+      continue
+    }
+    const tag = readTag(html, lt)
+    if (!tag) {
+      i = lt + 1
+      continue
+    }
+    i = tag.end
+
+    const endRe = RAW_TEXT_END[tag.name]
+    let text = ''
+    if (endRe) {
+      endRe.lastIndex = i
+      const end = endRe.exec(html)
+      text = html.slice(i, end ? end.index : html.length)
+      i = end ? endRe.lastIndex : html.length
+    }
+
+    if (tag.name === 'meta') {
+      const key = (tag.attrs.property ?? tag.attrs.name ?? tag.attrs.itemprop)
+        ?.trim()
+        .toLowerCase()
+      const content = cleanText(tag.attrs.content)
+      if (key && content) {
+        doc.metas.set(key, [...(doc.metas.get(key) ?? []), content])
+      }
+    } else if (tag.name === 'link' && tag.attrs.href) {
+      doc.links.push({
+        rel: (tag.attrs.rel ?? '').toLowerCase().split(/\s+/),
+        href: tag.attrs.href,
+      })
+    } else if (tag.name === 'title' && doc.title === undefined) {
+      doc.title = cleanText(decodeEntities(text))
+    } else if (
+      tag.name === 'script' &&
+      tag.attrs.type?.split(';')[0].trim().toLowerCase() ===
+        'application/ld+json'
+    ) {
+      try {
+        doc.jsonLd.push(JSON.parse(text))
+      } catch {
+        // plenty of sites ship broken JSON-LD
+      }
+    }
+  }
+  return doc
+}
+
+function readTag(
+  html: string,
+  start: number,
+): {name: string; attrs: Record<string, string>; end: number} | undefined {
+  const nameRe = /[a-zA-Z][\w:-]*/y
+  nameRe.lastIndex = start + 1
+  const nameMatch = nameRe.exec(html)
+  if (!nameMatch) return
+  const name = nameMatch[0].toLowerCase()
+  const attrs: Record<string, string> = {}
+  let i = nameRe.lastIndex
+  while (i < html.length) {
+    const char = html[i]
+    if (char === '>') {
+      return {name, attrs, end: i + 1}
+    }
+    if (char === '/' || /\s/.test(char)) {
+      i++
+      continue
+    }
+    let j = i
+    while (j < html.length && !/[\s/>=]/.test(html[j])) j++
+    const attrName = html.slice(i, j).toLowerCase()
+    i = j
+    while (i < html.length && /\s/.test(html[i])) i++
+    if (html[i] !== '=') {
+      attrs[attrName] ??= ''
+      continue
+    }
+    i++
+    while (i < html.length && /\s/.test(html[i])) i++
+    let value: string
+    const quote = html[i]
+    if (quote === '"' || quote === "'") {
+      const close = html.indexOf(quote, i + 1)
+      if (close === -1) break
+      value = html.slice(i + 1, close)
+      i = close + 1
+    } else {
+      j = i
+      while (j < html.length && !/[\s>]/.test(html[j])) j++
+      value = html.slice(i, j)
+      i = j
+    }
+    attrs[attrName] ??= decodeEntities(value)
+  }
+  return {name, attrs, end: html.length}
+}
+
+type JsonLdFields = {
+  title?: string
+  description?: string
+  image?: string
+  authors: string[]
+  publisher?: string
+  publishedAt?: string
+  doi?: string
+}
+
+const PRIMARY_TYPE_RE =
+  /Article|BlogPosting|Report|Book|Chapter|Thesis|Dataset|Legislation|Periodical|CreativeWork|MediaObject|VideoObject/
+
+function readJsonLd(items: unknown[]): JsonLdFields {
+  const nodes: Record<string, unknown>[] = []
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect)
+    } else if (value && typeof value === 'object') {
+      const node = value as Record<string, unknown>
+      nodes.push(node)
+      if (node['@graph']) collect(node['@graph'])
+    }
+  }
+  items.forEach(collect)
+
+  const types = (node: Record<string, unknown>) =>
+    ([] as unknown[]).concat(node['@type'] ?? []).map(String)
+  const node =
+    nodes.find(n => types(n).some(type => PRIMARY_TYPE_RE.test(type))) ??
+    nodes.find(n => types(n).some(type => type.endsWith('WebPage'))) ??
+    nodes.find(n => n.headline)
+  if (!node) return {authors: []}
+
+  return {
+    title: text(node.headline) ?? text(node.name),
+    description: text(node.description),
+    image: list(node.image)
+      .map(image => text(image) ?? text(field(image, 'url')))
+      .find(Boolean),
+    authors: uniqueAuthors(
+      [...list(node.author), ...list(node.creator)].map(personName),
+    ),
+    publisher: personName(list(node.publisher)[0]),
+    publishedAt: normalizeDate(
+      text(node.datePublished) ?? text(node.dateCreated),
+    ),
+    doi: [
+      ...list(node.identifier).map(id => text(id) ?? text(field(id, 'value'))),
+      ...list(node.sameAs).map(text),
+      text(node.url),
+      text(node['@id']),
+    ]
+      .map(findDoi)
+      .find(Boolean),
+  }
+}
+
+function list(value: unknown): unknown[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function field(value: unknown, key: string): unknown {
+  return value && typeof value === 'object'
+    ? (value as Record<string, unknown>)[key]
+    : undefined
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string'
+    ? cleanText(decodeEntities(value))
+    : undefined
+}
+
+function personName(value: unknown): string | undefined {
+  if (typeof value === 'string') return text(value)
+  const given = text(field(value, 'givenName'))
+  const family = text(field(value, 'familyName'))
+  return (
+    text(field(value, 'name')) ??
+    (given || family ? [given, family].filter(Boolean).join(' ') : undefined)
+  )
+}
+
+export function parseHtml(html: string, url: string): SourceMetadata {
+  const doc = scanHtml(html)
+  const jsonLd = readJsonLd(doc.jsonLd)
+  const first = (...keys: string[]) =>
+    keys.map(key => doc.metas.get(key)?.[0]).find(Boolean)
+  const all = (...keys: string[]) =>
+    keys.map(key => doc.metas.get(key) ?? []).find(values => values.length)
+
+  const linkHref = (rel: string) =>
+    doc.links.find(link => link.rel.includes(rel))?.href
+
+  // scholarly tags first, since they are written for citing
+  return {
+    url,
+    canonicalUrl: resolveUrl(linkHref('canonical') ?? first('og:url'), url),
+    title:
+      first('citation_title', 'dc.title', 'dcterms.title') ??
+      jsonLd.title ??
+      first('og:title', 'twitter:title') ??
+      doc.title,
+    description:
+      first('og:description', 'description', 'twitter:description') ??
+      jsonLd.description ??
+      first('dc.description', 'dcterms.abstract', 'citation_abstract'),
+    siteName: first('og:site_name', 'application-name'),
+    image: resolveUrl(
+      first(
+        'og:image',
+        'og:image:url',
+        'og:image:secure_url',
+        'twitter:image',
+        'twitter:image:src',
+      ) ?? jsonLd.image,
+      url,
+    ),
+    favicon: resolveUrl(linkHref('icon') ?? linkHref('apple-touch-icon'), url),
+    authors: uniqueAuthors(
+      all('citation_author', 'dc.creator', 'dcterms.creator') ??
+        (jsonLd.authors.length ? jsonLd.authors : undefined) ??
+        all('article:author', 'author') ??
+        [],
+    ),
+    publisher:
+      first(
+        'citation_publisher',
+        'dc.publisher',
+        'dcterms.publisher',
+        'citation_technical_report_institution',
+      ) ??
+      jsonLd.publisher ??
+      first(
+        'citation_journal_title',
+        'citation_conference_title',
+        'og:site_name',
+      ),
+    publishedAt: [
+      first('citation_publication_date'),
+      first('citation_date'),
+      first('citation_online_date'),
+      jsonLd.publishedAt,
+      first('article:published_time'),
+      first('dc.date.issued', 'dcterms.issued'),
+      first('dc.date', 'dcterms.date'),
+      first('date', 'pubdate'),
+    ]
+      .map(normalizeDate)
+      .find(Boolean),
+    doi: [
+      first('citation_doi', 'prism.doi', 'bepress_citation_doi'),
+      ...(all('dc.identifier', 'dcterms.identifier') ?? []),
+      jsonLd.doi,
+      linkHref('canonical'),
+      first('og:url'),
+      url,
+    ]
+      .map(findDoi)
+      .find(Boolean),
+  }
+}
@@ -0,0 +1,69 @@
+import {parseHtml} from './html.js'
+import {parsePdf} from './pdf.js'
+import {extractHtmlText} from './text.js'
+import {type SourceMetadata} from './types.js'
+
+export * from './doi.js'
+export * from './html.js'
+export * from './pdf.js'
+export * from './text.js'
+export * from './types.js'
+
+export type ExtractInput = {
+  url: string
+  contentType?: string
+  charset?: string
+  body: Buffer
+}
+
+export type SourceFormat = 'html' | 'pdf'
+
+const HTML_TYPES = new Set(['text/html', 'application/xhtml+xml'])
+
+/**
+ * Servers often send PDFs as `application/octet-stream`, so the content is
+ * sniffed when the declared type doesn't settle it.
+ */
+export function detectFormat(input: ExtractInput): SourceFormat | undefined {
+  if (input.contentType === 'application/pdf') return 'pdf'
+  if (input.contentType && HTML_TYPES.has(input.contentType)) return 'html'
+  const head = input.body.subarray(0, 1024).toString('latin1')
+  if (head.startsWith('%PDF-')) return 'pdf'
+  if (/<(!doctype html|html|head)[\s>]/i.test(head)) return 'html'
+}
+
+export function extractMetadata(
+  input: ExtractInput,
+  format: SourceFormat,
+): SourceMetadata {
+  if (format === 'pdf') {
+    return parsePdf(input.body, input.url)
+  }
+  return parseHtml(decodeText(input.body, input.charset), input.url)
+}
+
+/**
+ * Only pages have their text extracted; PDFs are compared by their bytes.
+ */
+export function extractText(
+  input: ExtractInput,
+  format: SourceFormat,
+): string | undefined {
+  if (format === 'pdf') return
+  return extractHtmlText(decodeText(input.body, input.charset))
+}
+
+function decodeText(body: Buffer, charset: string | undefined): string {
+  const declared =
+    charset ??
+    body
+      .subarray(0, 2048)
+      .toString('latin1')
+      .match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1]
+  try {
+    return new TextDecoder(declared ?? 'utf-8').decode(body)
+  } catch {
+    // unknown label
+    return new TextDecoder('utf-8').decode(body)
+  }
+}
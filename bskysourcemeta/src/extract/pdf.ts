@@ -0,0 +1,329 @@
+import zlib from 'node:zlib'
+
+import {findDoi} from './doi.js'
+import {type SourceMetadata} from './types.js'
+import {
+  cleanText,
+  decodeEntities,
+  normalizeDate,
+  uniqueAuthors,
+} from './util.js'
+
+// inflating object streams is bounded so a small file can't expand without end
+const MAX_INFLATED_BYTES = 5 * 1024 * 1024
+
+/**
+ * Reads the document information dictionary and the XMP packet of a PDF.
+ * Page content isn't read, so scanned or untagged documents may come back
+ * with little more than a title.
+ */
+export function parsePdf(body: Buffer, url: string): SourceMetadata {
+  // latin1 maps every byte to one character, so offsets line up with `body`
+  const raw = body.toString('latin1')
+  const info = readInfo(raw, body)
+  const xmp = readXmp(raw, body)
+
+  const title = xmp.title ?? info.Title
+  return {
+    url,
+    title: title && isUsefulTitle(title) ? title : undefined,
+    description: xmp.description ?? info.Subject,
+    authors: uniqueAuthors(
+      xmp.authors.length ? xmp.authors : (info.Author?.split(';') ?? []),
+    ),
+    publisher: xmp.publisher ?? xmp.publicationName,
+    publishedAt: xmp.publishedAt ?? parsePdfDate(info.CreationDate),
+    doi: [
+      xmp.doi,
+      info.doi,
+      info.DOI,
+      info['WPS-ARTICLEDOI'],
+      // Elsevier and others put a citation with the DOI in the subject
+      info.Subject,
+      url,
+    ]
+      .map(findDoi)
+      .find(Boolean),
+  }
+}
+
+function isUsefulTitle(title: string) {
+  return !/^(untitled|microsoft (word|powerpoint) - )|\.(docx?|pptx?|pdf|tex|dvi)$/i.test(
+    title,
+  )
+}
+
+function readInfo(raw: string, body: Buffer): Record<string, string> {
+  // the last reference wins, as incremental updates are appended
+  const refs = [...raw.matchAll(/\/Info\s+(\d+)\s+(\d+)\s+R/g)]
+  const ref = refs[refs.length - 1]
+  if (!ref) return {}
+  const objectNumber = Number(ref[1])
+
+  const objectRe = new RegExp(
+    `(?:^|\\D)${ref[1]}\\s+${ref[2]}\\s+obj\\s*<<`,
+    'g',
+  )
+  const objects = [...raw.matchAll(objectRe)]
+  const object = objects[objects.length - 1]
+  if (object) {
+    const start = object.index! + object[0].length - 2
+    return readStrings(readDictionary(raw, start))
+  }
+  const compressed = findCompressedObject(raw, body, objectNumber)
+  return compressed ? readStrings(compressed) : {}
+}
+
+/**
+ * Since PDF 1.5 objects may be packed into compressed object streams, which
+ * is where most LaTeX output keeps its document information.
+ */
+function findCompressedObject(
+  raw: string,
+  body: Buffer,
+  objectNumber: number,
+): string | undefined {
+  const streamRe = /\d+\s+\d+\s+obj\s*<</g
+  for (const match of raw.matchAll(streamRe)) {
+    const dictStart = match.index! + match[0].length - 2
+    const dict = readDictionary(raw, dictStart)
+    if (!/\/Type\s*\/ObjStm\b/.test(dict) || !/\/FlateDecode\b/.test(dict)) {
+      continue
+    }
+    const first = Number(dict.match(/\/First\s+(\d+)/)?.[1])
+    const streamStart = raw
+      .slice(dictStart + dict.length, dictStart + dict.length + 32)
+      .match(/^\s*stream\r?\n/)
+    if (!first || !streamStart) continue
+    const dataStart = dictStart + dict.length + streamStart[0].length
+    // the length may be an indirect reference, in which case look for the end
+    const length = dict.match(/\/Length\s+(\d+)(\s+\d+\s+R)?/)
+    const dataEnd =
+      length && !length[2]
+        ? dataStart + Number(length[1])
+        : raw.indexOf('endstream', dataStart)
+    if (dataEnd === -1) continue
+
+    let content: string
+    try {
+      content = zlib
+        .inflateSync(body.subarray(dataStart, dataEnd), {
+          finishFlush: zlib.constants.Z_SYNC_FLUSH,
+          maxOutputLength: MAX_INFLATED_BYTES,
+        })
+        .toString('latin1')
+    } catch {
+      continue
+    }
+
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number)
+    for (let i = 0; i < header.length; i += 2) {
+      if (header[i] !== objectNumber) continue
+      const start = first + header[i + 1]
+      const end = i + 3 < header.length ? first + header[i + 3] : content.length
+      return content.slice(start, end)
+    }
+  }
+}
+
+/**
+ * Returns the dictionary starting at `start`, including its delimiters.
+ */
+function readDictionary(raw: string, start: number): string {
+  let depth = 0
+  let i = start
+  while (i < raw.length) {
+    if (raw.startsWith('<<', i)) {
+      depth++
+      i += 2
+    } else if (raw.startsWith('>>', i)) {
+      depth--
+      i += 2
+      if (depth === 0) break
+    } else if (raw[i] === '(') {
+      i = readLiteral(raw, i).end
+    } else if (raw[i] === '<') {
+      const end = raw.indexOf('>', i)
+      i = end === -1 ? raw.length : end + 1
+    } else {
+      i++
+    }
+  }
+  return raw.slice(start, i)
+}
+
+/**
+ * Collects the string values of a dictionary, which is all the document
+ * information dictionary holds that we want.
+ */
+function readStrings(dict: string): Record<string, string> {
+  const values: Record<string, string> = {}
+  const keyRe = /\/([^\s/<>()[\]{}%]+)\s*(?=[(<])/g
+  let match
+  while ((match = keyRe.exec(dict))) {
+    const start = keyRe.lastIndex
+    let bytes: string
+    if (dict[start] === '(') {
+      const literal = readLiteral(dict, start)
+      bytes = literal.value
+      keyRe.lastIndex = literal.end
+    } else if (dict[start + 1] !== '<') {
+      const end = dict.indexOf('>', start)
+      if (end === -1) break
+      bytes = hexToBytes(dict.slice(start + 1, end))
+      keyRe.lastIndex = end + 1
+    } else {
+      continue
+    }
+    const value = cleanText(decodePdfString(bytes))
+    if (value && !(match[1] in values)) {
+      values[match[1]] = value
+    }
+  }
+  return values
+}
+
+function readLiteral(raw: string, start: number): {value: string; end: number} {
+  let depth = 0
+  let value = ''
+  let i = start
+  while (i < raw.length) {
+    const char = raw[i]
+    if (char === '\\') {
+      const next = raw[i + 1]
+      const octal = raw.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)
+      if (octal) {
+        value += String.fromCharCode(parseInt(octal[0], 8) & 0xff)
+        i += 1 + octal[0].length
+        continue
+      }
+      const escapes: Record<string, string> = {
+        n: '\n',
+        r: '\r',
+        t: '\t',
+        b: '\b',
+        f: '\f',
+      }
+      if (next === '\r' || next === '\n') {
+        // a backslash at the end of a line continues the string
+        i += raw.startsWith('\r\n', i + 1) ? 3 : 2
+        continue
+      }
+      value += escapes[next] ?? next ?? ''
+      i += 2
+      continue
+    }
+    if (char === '(') {
+      depth++
+      if (depth > 1) value += char
+    } else if (char === ')') {
+      depth--
+      if (depth === 0) return {value, end: i + 1}
+      value += char
+    } else {
+      value += char
+    }
+    i++
+  }
+  return {value, end: raw.length}
+}
+
+function hexToBytes(hex: string): string {
+  const digits = hex.replace(/[^0-9a-f]/gi, '')
+  const padded = digits.length % 2 ? `${digits}0` : digits
+  return Buffer.from(padded, 'hex').toString('latin1')
+}
+
+function decodePdfString(bytes: string): string {
+  if (bytes.startsWith('\xfe\xff')) {
+    let value = ''
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      value += String.fromCharCode(
+        (bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1),
+      )
+    }
+    return value
+  }
+  if (bytes.startsWith('\xef\xbb\xbf')) {
+    return Buffer.from(bytes.slice(3), 'latin1').toString('utf8')
+  }
+  // PDFDocEncoding, which matches latin1 for everything but a few symbols
+  return bytes
+}
+
+/**
+ * Parses dates like `D:20210614093000+02'00'`.
+ */
+export function parsePdfDate(value: string | undefined): string | undefined {
+  const match = value?.match(
+    /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/,
+  )
+  if (!match) return
+  const [, year, month, day, hour, minute = '00', second = '00', zone] = match
+  if (!hour) return normalizeDate([year, month, day].filter(Boolean).join('-'))
+  const offset =
+    !zone || zone === 'Z'
+      ? 'Z'
+      : `${zone.slice(0, 3)}:${zone.replace(/'/g, '').slice(3, 5)}`
+  return normalizeDate(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`,
+  )
+}
+
+type XmpFields = {
+  title?: string
+  description?: string
+  authors: string[]
+  publisher?: string
+  publicationName?: string
+  publishedAt?: string
+  doi?: string
+}
+
+function readXmp(raw: string, body: Buffer): XmpFields {
+  const start = raw.lastIndexOf('<x:xmpmeta')
+  const end = raw.indexOf('</x:xmpmeta>', start)
+  if (start === -1 || end === -1) return {authors: []}
+  // XMP is always UTF-8
+  const xmp = body.subarray(start, end).toString('utf8')
+
+  const values = (property: string): string[] => {
+    const element = xmp.match(
+      new RegExp(`<${property}(?:\\s[^>]*)?>([\\s\\S]*?)</${property}>`),
+    )
+    if (element) {
+      const items = [
+        ...element[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g),
+      ].map(item => item[1])
+      return (items.length ? items : [element[1]])
+        .map(item => cleanText(decodeEntities(item)))
+        .filter((item): item is string => !!item)
+    }
+    const attribute = xmp.match(new RegExp(`\\s${property}="([^"]*)"`))
+    const value = cleanText(decodeEntities(attribute?.[1] ?? ''))
+    return value ? [value] : []
+  }
+
+  return {
+    title: values('dc:title')[0],
+    description: values('dc:description')[0],
+    authors: values('dc:creator'),
+    publisher: values('dc:publisher')[0],
+    publicationName: values('prism:publicationName')[0],
+    publishedAt: [
+      values('prism:coverDate')[0],
+      values('prism:publicationDate')[0],
+      values('xmp:CreateDate')[0],
+    ]
+      .map(normalizeDate)
+      .find(Boolean),
+    doi: [
+      values('prism:doi')[0],
+      values('pdfx:doi')[0],
+      ...values('dc:identifier'),
+      values('prism:url')[0],
+    ]
+      .map(findDoi)
+      .find(Boolean),
+  }
+}
@@ -0,0 +1,123 @@
+import {decodeEntities} from './util.js'
+
+// longer pages are cut off, which still leaves plenty to compare
+export const MAX_TEXT_LENGTH = 200_000
+
+// elements whose content isn't part of what the page says
+const SKIPPED_ELEMENTS = new Set([
+  'head',
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'object',
+  'select',
+  'button',
+  'nav',
+  'aside',
+  'footer',
+])
+
+const BLOCK_ELEMENTS = new Set([
+  'address',
+  'article',
+  'blockquote',
+  'br',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'td',
+  'th',
+  'tr',
+  'ul',
+])
+
+/**
+ * The readable text of a page, one block per line, without navigation and
+ * other furniture. Like `scanHtml` this runs in linear time.
+ */
+export function extractHtmlText(html: string): string | undefined {
+  const chunks: string[] = []
+  // elements found to have no end tag, so their content is kept after all
+  const unclosed = new Set<string>()
+  const tagRe = /<(\/?)([a-zA-Z][\w:-]*)[^>]*>/y
+  let textStart = 0
+  let i = 0
+  const pushText = (end: number) => {
+    chunks.push(html.slice(textStart, end).replace(/\s+/g, ' '))
+  }
+  while (i < html.length) {
+    const lt = html.indexOf('<', i)
+    if (lt === -1) break
+    if (html.startsWith('<!--', lt)) {
+      pushText(lt)
+      const end = html.indexOf('-->', lt + 4)
+      i = textStart = end === -1 ? html.length : end + 3
+      continue
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      // doctype, CDATA or processing instruction
+      pushText(lt)
+      const end = html.indexOf('>', lt + 2)
+      i = textStart = end === -1 ? html.length : end + 1
+      continue
+    }
+    tagRe.lastIndex = lt
+    const tag = tagRe.exec(html)
+    if (!tag) {
+      if (/^\/?[a-zA-Z]/.test(html.slice(lt + 1, lt + 3))) {
+        // a tag that never closes, so there is no `>` left in the page
+        pushText(lt)
+        textStart = html.length
+        break
+      }
+      i = lt + 1
+      continue
+    }
+    pushText(lt)
+    i = textStart = tagRe.lastIndex
+
+    const name = tag[2].toLowerCase()
+    if (!tag[1] && SKIPPED_ELEMENTS.has(name) && !unclosed.has(name)) {
+      const endRe = new RegExp(`</${name}\\s*>`, 'gi')
+      endRe.lastIndex = i
+      if (endRe.exec(html)) {
+        i = textStart = endRe.lastIndex
+      } else {
+        unclosed.add(name)
+      }
+    }
+    if (BLOCK_ELEMENTS.has(name) || SKIPPED_ELEMENTS.has(name)) {
+      chunks.push('\n')
+    }
+  }
+  pushText(html.length)
+
+  const text = decodeEntities(chunks.join(''))
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_TEXT_LENGTH)
+  return text || undefined
+}
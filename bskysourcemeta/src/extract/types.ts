@@ -0,0 +1,21 @@
+export type SourceMetadata = {
+  url: string
+  /**
+   * The URL the page declares for itself, which drops tracking parameters and
+   * mobile or AMP variants.
+   */
+  canonicalUrl?: string
+  title?: string
+  description?: string
+  siteName?: string
+  image?: string
+  favicon?: string
+  authors: string[]
+  publisher?: string
+  /**
+   * An ISO date. May be just a year (`2021`) or year and month (`2021-06`)
+   * when that is all the source gives.
+   */
+  publishedAt?: string
+  doi?: string
+}
@@ -0,0 +1,99 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  hellip: '…',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi,
+    (entity, code: string) => {
+      if (code[0] === '#') {
+        const point =
+          code[1] === 'x' || code[1] === 'X'
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10)
+        return point > 0 && point <= 0x10ffff
+          ? String.fromCodePoint(point)
+          : entity
+      }
+      return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+    },
+  )
+}
+
+export function cleanText(text: string | undefined): string | undefined {
+  if (!text) return
+  const cleaned = text.replace(/\s+/g, ' ').trim()
+  return cleaned || undefined
+}
+
+/**
+ * Dates come in every shape. Bare years and year-months (common in
+ * `citation_*` tags) are kept at the precision given, so a citation never
+ * claims a day nobody published.
+ */
+export function normalizeDate(value: string | undefined): string | undefined {
+  const trimmed = value?.trim()
+  if (!trimmed) return
+  const partial = trimmed.match(
+    /^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?$/,
+  )
+  if (partial) {
+    const [, year, month, day] = partial
+    if (month && (+month < 1 || +month > 12)) return
+    if (day && (+day < 1 || +day > 31)) return
+    return [year, month?.padStart(2, '0'), day?.padStart(2, '0')]
+      .filter(Boolean)
+      .join('-')
+  }
+  const time = Date.parse(trimmed)
+  if (Number.isNaN(time)) return
+  return new Date(time).toISOString()
+}
+
+export function uniqueAuthors(names: (string | undefined)[]): string[] {
+  const seen = new Set<string>()
+  const authors: string[] = []
+  for (const name of names) {
+    const cleaned = cleanText(name)
+    // article:author is often a profile URL rather than a name
+    if (!cleaned || /^https?:\/\//i.test(cleaned)) continue
+    const key = cleaned.toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    authors.push(cleaned)
+  }
+  return authors
+}
+
+export function resolveUrl(
+  value: string | undefined,
+  base: string,
+): string | undefined {
+  const cleaned = cleanText(value)
+  if (!cleaned) return
+  try {
+    const url = new URL(cleaned, base)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return
+    return url.toString()
+  } catch {
+    return
+  }
+}
@@ -0,0 +1,239 @@
+import dns from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import net from 'node:net'
+import {pipeline, type Readable} from 'node:stream'
+import zlib from 'node:zlib'
+
+import {type FetchConfig} from './config.js'
+
+export type FetchErrorCode =
+  | 'InvalidUrl'
+  | 'ForbiddenHost'
+  | 'FetchFailed'
+  | 'TooLarge'
+  | 'UnsupportedContent'
+
+export class FetchError extends Error {
+  constructor(
+    public code: FetchErrorCode,
+    message: string,
+    // the status the page responded with, if it responded
+    public status?: number,
+  ) {
+    super(message)
+  }
+}
+
+export type FetchedResource = {
+  // after redirects
+  url: string
+  contentType?: string
+  charset?: string
+  body: Buffer
+}
+
+// loopback, private, link-local, shared, reserved and multicast ranges
+const forbiddenAddresses = new net.BlockList()
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  forbiddenAddresses.addSubnet(address, prefix, 'ipv4')
+}
+for (const [address, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // IPv4-mapped and NAT64 addresses can reach anything IPv4 can
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  forbiddenAddresses.addSubnet(address, prefix, 'ipv6')
+}
+
+export function isForbiddenAddress(address: string): boolean {
+  const family = net.isIP(address)
+  if (family === 0) return true
+  return forbiddenAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Checks addresses as the connection is made rather than before, so a
+ * hostname can't resolve to a public address for the check and a private one
+ * for the request.
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, {...options, all: true}, (err, addresses) => {
+    if (err) return callback(err, '')
+    if (addresses.some(entry => isForbiddenAddress(entry.address))) {
+      return callback(
+        new FetchError('ForbiddenHost', `${hostname} is not a public host`),
+        '',
+      )
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+function parseUrl(input: string | URL, cfg: FetchConfig): URL {
+  let url: URL
+  try {
+    url = new URL(input)
+  } catch {
+    throw new FetchError('InvalidUrl', 'Not a valid URL')
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FetchError('InvalidUrl', 'Only http and https URLs are supported')
+  }
+  if (url.username || url.password) {
+    throw new FetchError(
+      'InvalidUrl',
+      'URLs with credentials are not supported',
+    )
+  }
+  // literal addresses never go through the lookup
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (!cfg.allowPrivateHosts && net.isIP(host) && isForbiddenAddress(host)) {
+    throw new FetchError('ForbiddenHost', `${host} is not a public host`)
+  }
+  return url
+}
+
+function request(
+  url: URL,
+  cfg: FetchConfig,
+  signal: AbortSignal,
+): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const req = (url.protocol === 'https:' ? https : http).get(
+      url,
+      {
+        headers: {
+          'user-agent': cfg.userAgent,
+          accept:
+            'text/html,application/xhtml+xml,application/pdf;q=0.9,*/*;q=0.8',
+          'accept-encoding': 'gzip, deflate, br',
+        },
+        lookup: cfg.allowPrivateHosts ? undefined : safeLookup,
+        // a pooled socket would skip the lookup, and with it the check
+        agent: false,
+        signal,
+      },
+      resolve,
+    )
+    req.on('error', reject)
+  })
+}
+
+function decode(res: http.IncomingMessage): Readable {
+  const done = () => {}
+  switch (res.headers['content-encoding']?.trim().toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return pipeline(res, zlib.createGunzip(), done)
+    case 'deflate':
+      return pipeline(res, zlib.createInflate(), done)
+    case 'br':
+      return pipeline(res, zlib.createBrotliDecompress(), done)
+    default:
+      return res
+  }
+}
+
+async function readBody(
+  res: http.IncomingMessage,
+  maxBytes: number,
+): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of decode(res)) {
+    size += chunk.length
+    if (size > maxBytes) {
+      res.destroy()
+      throw new FetchError('TooLarge', 'The document is too large')
+    }
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Fetches a page on behalf of the app, following redirects by hand so that
+ * every hop gets the same checks as the first URL.
+ */
+export async function fetchResource(
+  input: string,
+  cfg: FetchConfig,
+): Promise<FetchedResource> {
+  const signal = AbortSignal.timeout(cfg.timeoutMs)
+  let url = parseUrl(input, cfg)
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const res = await request(url, cfg, signal)
+      const status = res.statusCode ?? 0
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.resume()
+        if (redirects >= cfg.maxRedirects) {
+          throw new FetchError('FetchFailed', 'Too many redirects')
+        }
+        url = parseUrl(new URL(res.headers.location, url), cfg)
+        continue
+      }
+      if (status < 200 || status >= 300) {
+        res.resume()
+        throw new FetchError(
+          'FetchFailed',
+          `The page responded with ${status}`,
+          status,
+        )
+      }
+
+      const [mimeType, ...params] = (res.headers['content-type'] ?? '').split(
+        ';',
+      )
+      const contentType = mimeType.trim().toLowerCase() || undefined
+      if (contentType && /^(image|audio|video|font)\//.test(contentType)) {
+        res.destroy()
+        throw new FetchError(
+          'UnsupportedContent',
+          `Can't read details from ${contentType}`,
+        )
+      }
+      const charset = params
+        .map(param => param.trim().match(/^charset="?([^";]+)"?$/i)?.[1])
+        .find(Boolean)
+      return {
+        url: url.toString(),
+        contentType,
+        charset,
+        body: await readBody(res, cfg.maxBytes),
+      }
+    }
+  } catch (err) {
+    if (err instanceof FetchError) throw err
+    if (signal.aborted) {
+      throw new FetchError('FetchFailed', 'The page took too long to respond')
+    }
+    throw new FetchError(
+      'FetchFailed',
+      err instanceof Error ? err.message : 'Could not fetch the page',
+    )
+  }
+}
@@ -0,0 +1,5 @@
+import {subsystemLogger} from '@atproto/common'
+
+export const httpLogger = subsystemLogger('bskysourcemeta')
+export const fetchLogger = subsystemLogger('bskysourcemeta:fetch')
+export const checkerLogger = subsystemLogger('bskysourcemeta:checker')
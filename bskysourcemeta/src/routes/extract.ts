@@ -0,0 +1,45 @@
+import {Express} from 'express'
+
+import {AppContext} from '../context.js'
+import {detectFormat, extractMetadata, findDoi} from '../extract/index.js'
+import {FetchError, fetchResource} from '../fetch.js'
+import {fetchLogger} from '../logger.js'
+import {FETCH_ERROR_STATUS, handler, originVerifyMiddleware} from './util.js'
+
+export default function (ctx: AppContext, app: Express) {
+  return app.get(
+    '/v1/extract',
+    originVerifyMiddleware(ctx),
+    handler(async (req, res) => {
+      const {url} = req.query
+      if (typeof url !== 'string' || !url) {
+        return res.status(400).json({
+          error: 'InvalidUrl',
+          message: '"url" parameter is missing or not a string',
+        })
+      }
+      try {
+        const resource = await fetchResource(url, ctx.cfg.fetch)
+        const format = detectFormat(resource)
+        if (!format) {
+          throw new FetchError(
+            'UnsupportedContent',
+            'Only web pages and PDFs are supported',
+          )
+        }
+        const metadata = extractMetadata(resource, format)
+        // a doi.org link redirects to the publisher, whose page may not repeat it
+        metadata.doi ??= findDoi(url)
+        res.setHeader('cache-control', 'public, max-age=3600')
+        return res.json(metadata)
+      } catch (err) {
+        if (!(err instanceof FetchError)) throw err
+        fetchLogger.info({url, code: err.code}, 'could not extract source')
+        return res.status(FETCH_ERROR_STATUS[err.code]).json({
+          error: err.code,
+          message: err.message,
+        })
+      }
+    }),
+  )
+}
@@ -0,0 +1,15 @@
+import {Express} from 'express'
+
+import {AppContext} from '../context.js'
+import {default as extract} from './extract.js'
+import {default as health} from './health.js'
+import {default as snapshot} from './snapshot.js'
+
+export * from './util.js'
+
+export default function (ctx: AppContext, app: Express) {
+  app = health(ctx, app) // GET /_health
+  app = extract(ctx, app) // GET /v1/extract?url=
+  app = snapshot(ctx, app) // GET /v1/snapshot?url=
+  return app
+}
@@ -0,0 +1,36 @@
+import {Express} from 'express'
+
+import {AppContext} from '../context.js'
+import {FetchError} from '../fetch.js'
+import {fetchLogger} from '../logger.js'
+import {takeSnapshot} from '../snapshot.js'
+import {FETCH_ERROR_STATUS, handler, originVerifyMiddleware} from './util.js'
+
+export default function (ctx: AppContext, app: Express) {
+  return app.get(
+    '/v1/snapshot',
+    originVerifyMiddleware(ctx),
+    handler(async (req, res) => {
+      const {url} = req.query
+      if (typeof url !== 'string' || !url) {
+        return res.status(400).json({
+          error: 'InvalidUrl',
+          message: '"url" parameter is missing or not a string',
+        })
+      }
+      try {
+        const snapshot = await takeSnapshot(url, ctx.cfg.fetch)
+        // a snapshot records the page as it is now
+        res.setHeader('cache-control', 'no-store')
+        return res.json(snapshot)
+      } catch (err) {
+        if (!(err instanceof FetchError)) throw err
+        fetchLogger.info({url, code: err.code}, 'could not snapshot source')
+        return res.status(FETCH_ERROR_STATUS[err.code]).json({
+          error: err.code,
+          message: err.message,
+        })
+      }
+    }),
+  )
+}
@@ -0,0 +1,197 @@
+import crypto from 'node:crypto'
+
+import {type FetchConfig} from './config.js'
+import {detectFormat, extractText} from './extract/index.js'
+import {FetchError, fetchResource} from './fetch.js'
+
+/**
+ * What a source looked like when it was cited. The text is kept so the
+ * archived copy can be read after the page is gone, and its simhash so a
+ * later copy can be compared without keeping both texts around.
+ */
+export type Snapshot = {
+  url: string
+  // after redirects
+  finalUrl: string
+  capturedAt: string
+  contentType?: string
+  // sha256 of the response body
+  contentHash: string
+  // sha256 and 64 bit simhash of the extracted text, both hex
+  textHash?: string
+  simhash?: string
+  text?: string
+}
+
+export type SourceHealthStatus =
+  | 'ok'
+  // the text differs by more than small edits
+  | 'changed'
+  // the URL now leads to a different page
+  | 'moved'
+  // 404 or 410
+  | 'missing'
+  // any other failure, which may well be temporary
+  | 'unreachable'
+
+export type SourceHealth = {
+  status: SourceHealthStatus
+  checkedAt: string
+  httpStatus?: number
+  finalUrl?: string
+  // share of simhash bits that still match, from 0 to 1
+  similarity?: number
+  message?: string
+}
+
+/**
+ * Texts whose simhashes match on fewer bits than this count as changed.
+ * Fixing typos or updating a byline flips a few bits, a rewritten or replaced
+ * article flips many more.
+ */
+export const CHANGED_BELOW_SIMILARITY = 0.9
+
+// words per shingle
+const SHINGLE_SIZE = 3
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+export function simhash(text: string): string {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+  const weights = new Array<number>(64).fill(0)
+  const shingles = Math.max(1, words.length - SHINGLE_SIZE + 1)
+  for (let i = 0; i < shingles; i++) {
+    const digest = crypto
+      .createHash('md5')
+      .update(words.slice(i, i + SHINGLE_SIZE).join(' '))
+      .digest()
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (digest[bit >> 3] >> (bit & 7)) & 1 ? 1 : -1
+    }
+  }
+  const bytes = Buffer.alloc(8)
+  weights.forEach((weight, bit) => {
+    if (weight > 0) bytes[bit >> 3] |= 1 << (bit & 7)
+  })
+  return bytes.toString('hex')
+}
+
+export function simhashSimilarity(a: string, b: string): number {
+  const x = Buffer.from(a, 'hex')
+  const y = Buffer.from(b, 'hex')
+  let differing = 0
+  for (let i = 0; i < 8; i++) {
+    let byte = (x[i] ?? 0) ^ (y[i] ?? 0)
+    while (byte) {
+      differing += byte & 1
+      byte >>= 1
+    }
+  }
+  return 1 - differing / 64
+}
+
+export async function takeSnapshot(
+  url: string,
+  cfg: FetchConfig,
+): Promise<Snapshot> {
+  const resource = await fetchResource(url, cfg)
+  const format = detectFormat(resource)
+  if (!format) {
+    throw new FetchError(
+      'UnsupportedContent',
+      'Only web pages and PDFs are supported',
+    )
+  }
+  const text = extractText(resource, format)
+  return {
+    url,
+    finalUrl: resource.url,
+    capturedAt: new Date().toISOString(),
+    contentType: resource.contentType,
+    contentHash: sha256(resource.body),
+    textHash: text ? sha256(text) : undefined,
+    simhash: text ? simhash(text) : undefined,
+    text,
+  }
+}
+
+// host without www. and path without trailing slash, as sites move between
+// http and https or add a www. without the page changing
+function pageOf(url: string): string {
+  try {
+    const {hostname, pathname} = new URL(url)
+    return `${hostname.replace(/^www\./, '')}${pathname.replace(/\/+$/, '')}`
+  } catch {
+    return url
+  }
+}
+
+/**
+ * How a fresh snapshot compares with the one taken when the source was cited
+ */
+export function compareSnapshots(
+  cited: Snapshot,
+  current: Snapshot,
+): SourceHealth {
+  const health: SourceHealth = {
+    status: 'ok',
+    checkedAt: current.capturedAt,
+    finalUrl: current.finalUrl,
+  }
+  if (cited.simhash && current.simhash) {
+    health.similarity = simhashSimilarity(cited.simhash, current.simhash)
+  }
+
+  if (pageOf(cited.finalUrl) !== pageOf(current.finalUrl)) {
+    health.status = 'moved'
+  } else if (cited.textHash && current.textHash) {
+    if (
+      cited.textHash !== current.textHash &&
+      (health.similarity ?? 0) < CHANGED_BELOW_SIMILARITY
+    ) {
+      health.status = 'changed'
+    }
+  } else if (cited.contentHash !== current.contentHash) {
+    // without text, as for PDFs, any change to the file counts
+    health.status = 'changed'
+  }
+  return health
+}
+
+/**
+ * Fetches a source again and compares it with the snapshot taken when it
+ * was cited, or takes that snapshot if there isn't one yet.
+ */
+export async function checkSource(
+  source: {url: string; snapshot?: Snapshot},
+  cfg: FetchConfig,
+): Promise<{health: SourceHealth; snapshot?: Snapshot}> {
+  let current: Snapshot
+  try {
+    current = await takeSnapshot(source.snapshot?.url ?? source.url, cfg)
+  } catch (err) {
+    if (!(err instanceof FetchError)) throw err
+    return {
+      health: {
+        status:
+          err.status === 404 || err.status === 410 ? 'missing' : 'unreachable',
+        checkedAt: new Date().toISOString(),
+        httpStatus: err.status,
+        message: err.message,
+      },
+    }
+  }
+  if (!source.snapshot) {
+    return {
+      health: {
+        status: 'ok',
+        checkedAt: current.capturedAt,
+        finalUrl: current.finalUrl,
+      },
+      snapshot: current,
+    }
+  }
+  return {health: compareSnapshots(source.snapshot, current)}
+}
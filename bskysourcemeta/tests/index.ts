@@ -0,0 +1,461 @@
+import assert from 'node:assert'
+import http from 'node:http'
+import {AddressInfo} from 'node:net'
+import {after, before, describe, it} from 'node:test'
+import zlib from 'node:zlib'
+
+import {
+  compareSnapshots,
+  envToCfg,
+  extractHtmlText,
+  parsePdf,
+  readEnv,
+  type SourceHealth,
+  SourceChecker,
+  type Snapshot,
+  SourceMetaService,
+  type StoredSource,
+} from '../src/index.js'
+
+const ARTICLE_HTML = `<!doctype html>
+<html lang="en">
+<head>
+  <title>Fallback &amp; ignored</title>
+  <meta name="citation_title" content="Effects of Pulsed Microwaves on Cognition">
+  <meta name="citation_author" content="Roe, Jane">
+  <meta name="citation_author" content="Doe, John">
+  <meta name="citation_publication_date" content="2021/6/14">
+  <meta name="citation_journal_title" content="Journal of Test Studies">
+  <meta name="citation_publisher" content="Test Press">
+  <meta name="citation_doi" content="doi:10.1234/jts.2021.42">
+  <meta property="og:image" content="/figure.png">
+  <link rel="shortcut icon" href="/favicon.ico">
+</head>
+<body><p>See also doi:10.9999/unrelated.</p></body>
+</html>`
+
+const NEWS_HTML = `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <!-- <meta property="og:title" content="Commented out"> -->
+  <meta property="og:title" content="Officials confirm &quot;anomalous&quot; incidents">
+  <meta property="og:site_name" content="Example News">
+  <meta property="og:description" content="Several staff reported symptoms.">
+  <meta property="og:url" content="https://news.example.com/2023/anomalous-incidents">
+  <link rel="amphtml" href="/news/amp">
+  <link rel="canonical" href="/2023/anomalous-incidents?ref=home">
+  <script type="application/ld+json">
+    {
+      "@context": "https://schema.org",
+      "@graph": [
+        {"@type": "Organization", "name": "Example News Group"},
+        {
+          "@type": "NewsArticle",
+          "headline": "Officials confirm anomalous incidents",
+          "author": [
+            {"@type": "Person", "name": "Alex Reporter"},
+            {"@type": "Person", "givenName": "Sam", "familyName": "Writer"}
+          ],
+          "publisher": {"@type": "Organization", "name": "Example News Group"},
+          "datePublished": "2023-02-01T10:00:00-05:00"
+        }
+      ]
+    }
+  </script>
+</head>
+<body></body>
+</html>`
+
+const STORY = `The committee heard from six former staff members who described
+sudden headaches, pressure in the ears and a loud directional sound that
+started in their apartments late at night. Two of them said the symptoms
+stopped when they left the building and returned when they came back. The
+report notes that the agency did not interview the building managers, did not
+record the times of the incidents and closed the inquiry after four months
+without explaining how it reached its conclusion. Members asked for the
+underlying records to be released and for the staff to be given access to
+the medical assessments that were carried out on their behalf.`
+
+function storyHtml(story: string) {
+  return `<!doctype html>
+<html>
+<head><title>Inquiry</title><style>p { color: red }</style></head>
+<body>
+  <nav><a href="/">Home</a> <a href="/world">World</a></nav>
+  <article>
+    <h1>Committee hears from former staff</h1>
+    <p>${story}</p>
+    <script>window.ads = '<p>not text</p>'</script>
+  </article>
+  <footer>&copy; Example News</footer>
+</body>
+</html>`
+}
+
+describe('source metadata service', async () => {
+  let sourceMetaService: SourceMetaService
+  let baseUrl: string
+  let site: http.Server
+  let siteUrl: string
+  let story = STORY
+  let movingTo = '/story'
+
+  before(async () => {
+    site = http.createServer((req, res) => {
+      switch (req.url) {
+        case '/story':
+          res.setHeader('content-type', 'text/html')
+          return res.end(storyHtml(story))
+        case '/moving':
+          res.writeHead(301, {location: movingTo})
+          return res.end()
+        case '/article':
+          res.setHeader('content-type', 'text/html; charset=utf-8')
+          return res.end(ARTICLE_HTML)
+        case '/news':
+          res.setHeader('content-type', 'text/html')
+          res.setHeader('content-encoding', 'gzip')
+          return res.end(zlib.gzipSync(NEWS_HTML))
+        case '/doi/10.5555/news.1':
+          res.writeHead(302, {location: '/news'})
+          return res.end()
+        case '/escape':
+          res.writeHead(302, {location: 'file:///etc/passwd'})
+          return res.end()
+        case '/report':
+          // no useful content type, so the service has to sniff it
+          res.setHeader('content-type', 'application/octet-stream')
+          return res.end(infoPdf())
+        case '/image.png':
+          res.setHeader('content-type', 'image/png')
+          return res.end(Buffer.alloc(16))
+        default:
+          res.statusCode = 404
+          return res.end('not found')
+      }
+    })
+    site.listen(0)
+    await new Promise(resolve => site.once('listening', resolve))
+    siteUrl = `http://localhost:${(site.address() as AddressInfo).port}`
+
+    const env = readEnv()
+    const cfg = envToCfg({
+      ...env,
+      port: 0,
+      // the test pages are served from localhost
+      fetchAllowPrivateHosts: true,
+    })
+    sourceMetaService = await SourceMetaService.create(cfg)
+    await sourceMetaService.start()
+    const {port} = sourceMetaService.server?.address() as AddressInfo
+    baseUrl = `http://localhost:${port}`
+  })
+
+  after(async () => {
+    await sourceMetaService?.destroy()
+    site?.close()
+  })
+
+  it('reads scholarly citation tags', async () => {
+    const [status, json] = await extract(`${siteUrl}/article`)
+    assert.strictEqual(status, 200)
+    assert.strictEqual(json.title, 'Effects of Pulsed Microwaves on Cognition')
+    assert.deepStrictEqual(json.authors, ['Roe, Jane', 'Doe, John'])
+    assert.strictEqual(json.publisher, 'Test Press')
+    assert.strictEqual(json.publishedAt, '2021-06-14')
+    assert.strictEqual(json.doi, '10.1234/jts.2021.42')
+    assert.strictEqual(json.image, `${siteUrl}/figure.png`)
+    assert.strictEqual(json.favicon, `${siteUrl}/favicon.ico`)
+  })
+
+  it('reads OpenGraph and JSON-LD from compressed pages', async () => {
+    const [status, json] = await extract(`${siteUrl}/news`)
+    assert.strictEqual(status, 200)
+    assert.strictEqual(json.title, 'Officials confirm anomalous incidents')
+    assert.strictEqual(json.description, 'Several staff reported symptoms.')
+    assert.strictEqual(json.siteName, 'Example News')
+    assert.deepStrictEqual(json.authors, ['Alex Reporter', 'Sam Writer'])
+    assert.strictEqual(json.publisher, 'Example News Group')
+    assert.strictEqual(json.publishedAt, '2023-02-01T15:00:00.000Z')
+    assert.strictEqual(json.doi, undefined)
+  })
+
+  it('follows redirects and keeps a DOI from the requested URL', async () => {
+    const [status, json] = await extract(`${siteUrl}/doi/10.5555/news.1`)
+    assert.strictEqual(status, 200)
+    assert.strictEqual(json.url, `${siteUrl}/news`)
+    assert.strictEqual(
+      json.canonicalUrl,
+      `${siteUrl}/2023/anomalous-incidents?ref=home`,
+    )
+    assert.strictEqual(json.doi, '10.5555/news.1')
+  })
+
+  it('sniffs PDFs served without a content type', async () => {
+    const [status, json] = await extract(`${siteUrl}/report`)
+    assert.strictEqual(status, 200)
+    assert.strictEqual(json.title, 'Annual Report – 2021')
+  })
+
+  it('rejects content it cannot read', async () => {
+    const [status, json] = await extract(`${siteUrl}/image.png`)
+    assert.strictEqual(status, 415)
+    assert.strictEqual(json.error, 'UnsupportedContent')
+  })
+
+  it('rejects redirects to other protocols', async () => {
+    const [status, json] = await extract(`${siteUrl}/escape`)
+    assert.strictEqual(status, 400)
+    assert.strictEqual(json.error, 'InvalidUrl')
+  })
+
+  it('reports pages that fail to load', async () => {
+    const [status, json] = await extract(`${siteUrl}/missing`)
+    assert.strictEqual(status, 502)
+    assert.strictEqual(json.error, 'FetchFailed')
+  })
+
+  it('requires a url', async () => {
+    const res = await fetch(new URL('/v1/extract', baseUrl))
+    assert.strictEqual(res.status, 400)
+    const json = await res.json()
+    assert.strictEqual(json.error, 'InvalidUrl')
+  })
+
+  it('refuses private hosts unless configured to allow them', async () => {
+    const service = await SourceMetaService.create(
+      envToCfg({...readEnv(), port: 0, fetchAllowPrivateHosts: false}),
+    )
+    await service.start()
+    try {
+      const {port} = service.server?.address() as AddressInfo
+      for (const url of [
+        `${siteUrl}/article`,
+        siteUrl.replace('localhost', '127.0.0.1'),
+        'http://[::1]/',
+        'http://169.254.169.254/latest/meta-data/',
+      ]) {
+        const res = await fetch(
+          `http://localhost:${port}/v1/extract?url=${encodeURIComponent(url)}`,
+        )
+        assert.strictEqual(res.status, 400, url)
+        const json = await res.json()
+        assert.strictEqual(json.error, 'ForbiddenHost', url)
+      }
+    } finally {
+      await service.destroy()
+    }
+  })
+
+  it('snapshots the text of a page', async () => {
+    const res = await fetch(
+      new URL(
+        `/v1/snapshot?url=${encodeURIComponent(`${siteUrl}/story`)}`,
+        baseUrl,
+      ),
+    )
+    assert.strictEqual(res.status, 200)
+    assert.strictEqual(res.headers.get('cache-control'), 'no-store')
+    const snapshot = await res.json()
+    assert.strictEqual(snapshot.finalUrl, `${siteUrl}/story`)
+    assert.match(snapshot.contentHash, /^[0-9a-f]{64}$/)
+    assert.match(snapshot.textHash, /^[0-9a-f]{64}$/)
+    assert.match(snapshot.simhash, /^[0-9a-f]{16}$/)
+    assert.strictEqual(
+      snapshot.text,
+      `Committee hears from former staff\n${STORY.replace(/\s+/g, ' ')}`,
+    )
+  })
+
+  it('flags sources that went missing, moved or changed', async () => {
+    const fetchCfg = envToCfg({
+      ...readEnv(),
+      fetchAllowPrivateHosts: true,
+    }).fetch
+    const checker = (store: MemoryStore) =>
+      new SourceChecker(store, fetchCfg, {
+        appviewUrl: 'http://appview.invalid',
+        intervalMs: 0,
+        delayMs: 0,
+      })
+
+    // cited before anything changed
+    const first = new MemoryStore([
+      {id: 'story', url: `${siteUrl}/story`},
+      {id: 'edited', url: `${siteUrl}/story`},
+      {id: 'moving', url: `${siteUrl}/moving`},
+      {id: 'gone', url: `${siteUrl}/missing`},
+    ])
+    assert.deepStrictEqual(await checker(first).run(), {checked: 4, flagged: 1})
+    const snapshots = first.snapshots
+    assert.strictEqual(snapshots.get('moving')?.finalUrl, `${siteUrl}/story`)
+    assert.strictEqual(first.health.get('gone')?.status, 'missing')
+    assert.strictEqual(first.health.get('gone')?.httpStatus, 404)
+    assert.strictEqual(snapshots.has('gone'), false)
+
+    story = STORY.replace('six former', 'seven former')
+    movingTo = '/news'
+    const withTypo = new MemoryStore(
+      ['edited', 'moving'].map(id => ({
+        id,
+        url: snapshots.get(id)!.url,
+        snapshot: snapshots.get(id),
+      })),
+    )
+    assert.deepStrictEqual(await checker(withTypo).run(), {
+      checked: 2,
+      flagged: 1,
+    })
+    const edited = withTypo.health.get('edited')!
+    assert.strictEqual(edited.status, 'ok')
+    assert.ok(edited.similarity! < 1 && edited.similarity! >= 0.9)
+    assert.strictEqual(withTypo.health.get('moving')?.status, 'moved')
+    // the snapshot from when the source was cited is kept
+    assert.strictEqual(withTypo.snapshots.size, 0)
+
+    story = 'This article has been removed at the request of the agency.'
+    const rewritten = new MemoryStore([
+      {id: 'story', url: `${siteUrl}/story`, snapshot: snapshots.get('story')},
+    ])
+    await checker(rewritten).run()
+    assert.strictEqual(rewritten.health.get('story')?.status, 'changed')
+    story = STORY
+  })
+
+  async function extract(url: string): Promise<[number, any]> {
+    const res = await fetch(
+      new URL(`/v1/extract?url=${encodeURIComponent(url)}`, baseUrl),
+    )
+    return [res.status, await res.json()]
+  }
+})
+
+class MemoryStore {
+  health = new Map<string, SourceHealth>()
+  snapshots = new Map<string, Snapshot>()
+
+  constructor(private sources: StoredSource[]) {}
+
+  async list() {
+    return {sources: this.sources}
+  }
+
+  async saveHealth(
+    sourceId: string,
+    health: SourceHealth,
+    snapshot?: Snapshot,
+  ) {
+    this.health.set(sourceId, health)
+    if (snapshot) this.snapshots.set(sourceId, snapshot)
+  }
+}
+
+describe('snapshots', () => {
+  const cited: Snapshot = {
+    url: 'https://example.com/report.pdf',
+    finalUrl: 'https://example.com/report.pdf',
+    capturedAt: '2024-01-01T00:00:00.000Z',
+    contentType: 'application/pdf',
+    contentHash: 'a'.repeat(64),
+  }
+
+  it('compares files without text by their bytes', () => {
+    const later = {...cited, capturedAt: '2024-06-01T00:00:00.000Z'}
+    assert.strictEqual(compareSnapshots(cited, later).status, 'ok')
+    assert.strictEqual(
+      compareSnapshots(cited, {...later, contentHash: 'b'.repeat(64)}).status,
+      'changed',
+    )
+  })
+
+  it('does not count a move to https or www. as moved', () => {
+    const later = {...cited, finalUrl: 'https://www.example.com/report.pdf/'}
+    assert.strictEqual(compareSnapshots(cited, later).status, 'ok')
+  })
+
+  it('reads text in linear time from broken markup', () => {
+    assert.strictEqual(
+      extractHtmlText('<p>One &amp; two<script>never closed <p>three'),
+      'One & two\nnever closed\nthree',
+    )
+    assert.strictEqual(extractHtmlText('<p>a < b</p><div'), 'a < b')
+    const start = Date.now()
+    extractHtmlText('<nav><p>x'.repeat(50_000) + '<a'.repeat(50_000))
+    assert.ok(Date.now() - start < 2000)
+  })
+})
+
+describe('pdf metadata', () => {
+  it('reads the document information dictionary', () => {
+    const metadata = parsePdf(infoPdf(), 'https://example.com/report.pdf')
+    assert.strictEqual(metadata.title, 'Annual Report – 2021')
+    assert.deepStrictEqual(metadata.authors, ['Jane Roe', 'John Doe'])
+    assert.strictEqual(metadata.publishedAt, '2021-06-14T07:30:00.000Z')
+    // found in the subject line
+    assert.strictEqual(metadata.doi, '10.1016/j.test.2021.01.001')
+  })
+
+  it('reads document information from a compressed object stream', () => {
+    const info =
+      '<< /Title (Compressed \\(but readable\\)) /Author (A. Author) >>'
+    const header = '5 0'
+    const data = zlib.deflateSync(`${header} ${info}`)
+    const metadata = parsePdf(
+      pdf(
+        `4 0 obj\n<< /Type /ObjStm /N 1 /First ${header.length + 1} /Filter /FlateDecode /Length ${data.length} >>\nstream\n`,
+        data,
+        '\nendstream\nendobj\n',
+        '6 0 obj\n<< /Type /XRef /Info 5 0 R /Root 1 0 R >>\nendobj\n',
+      ),
+      'https://example.com/paper.pdf',
+    )
+    assert.strictEqual(metadata.title, 'Compressed (but readable)')
+    assert.deepStrictEqual(metadata.authors, ['A. Author'])
+  })
+
+  it('prefers XMP metadata', () => {
+    const xmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" prism:doi="10.5555/report.2021" prism:coverDate="2021-09">
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">Surveillance &amp; Privacy</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>Ana Lyst</rdf:li><rdf:li>Rey Searcher</rdf:li></rdf:Seq></dc:creator>
+      <dc:publisher><rdf:Bag><rdf:li>Civil Liberties Institute</rdf:li></rdf:Bag></dc:publisher>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>`
+    const metadata = parsePdf(
+      pdf(
+        '2 0 obj\n<< /Title (Microsoft Word - draft3.docx) /Author (Someone Else) >>\nendobj\n',
+        `3 0 obj\n<< /Type /Metadata /Subtype /XML >>\nstream\n${xmp}\nendstream\nendobj\n`,
+        'trailer\n<< /Root 1 0 R /Info 2 0 R >>\n',
+      ),
+      'https://example.com/report.pdf',
+    )
+    assert.strictEqual(metadata.title, 'Surveillance & Privacy')
+    assert.deepStrictEqual(metadata.authors, ['Ana Lyst', 'Rey Searcher'])
+    assert.strictEqual(metadata.publisher, 'Civil Liberties Institute')
+    assert.strictEqual(metadata.publishedAt, '2021-09')
+    assert.strictEqual(metadata.doi, '10.5555/report.2021')
+  })
+})
+
+function pdf(...parts: (string | Buffer)[]): Buffer {
+  return Buffer.concat(
+    ['%PDF-1.7\n', ...parts, '%%EOF\n'].map(part =>
+      typeof part === 'string' ? Buffer.from(part, 'latin1') : part,
+    ),
+  )
+}
+
+function infoPdf(): Buffer {
+  // UTF-16BE with a byte order mark, as most producers write non-ASCII titles
+  const title = Buffer.from('Annual Report – 2021', 'utf16le').swap16()
+  return pdf(
+    '1 0 obj\n<< /Type /Catalog >>\nendobj\n',
+    `2 0 obj\n<< /Title <FEFF${title.toString('hex')}> /Author (Jane Roe; John Doe)` +
+      ` /Subject (Journal 12 \\(2021\\) 1-9. doi:10.1016/j.test.2021.01.001)` +
+      ` /CreationDate (D:20210614093000+02'00') >>\nendobj\n`,
+    'trailer\n<< /Root 1 0 R /Info 2 0 R >>\n',
+  )
+}
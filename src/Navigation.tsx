@@ -108,6 +108,16 @@ import {JournalComposer} from '#/screens/Journal/Composer'
 import {JournalManager} from '#/screens/Journal/Manager'
 import {JournalEntryDetail} from '#/screens/Journal/EntryDetail'
 import {JournalAnalytics} from '#/screens/Journal/Analytics'
+import {JournalEncryptionScreen} from '#/screens/Journal/Encryption'
+import {JournalTimelineScreen} from '#/screens/Journal/Timeline'
+import {JournalRetentionScreen} from '#/screens/Journal/Retention'
+import {JournalSharePacketScreen} from '#/screens/Journal/SharePacket'
+import {JournalSharePacketsScreen} from '#/screens/Journal/SharePackets'
+import {JournalTriggerWarningsScreen} from '#/screens/Journal/TriggerWarnings'
+import {JournalCasesScreen} from '#/screens/Journal/Cases'
+import {JournalCaseScreen} from '#/screens/Journal/Case'
+import {JournalEntryAccessScreen} from '#/screens/Journal/EntryAccess'
+import {JournalAccessLogScreen} from '#/screens/Journal/AccessLog'
 import {SourcesList} from '#/screens/Sources/List'
 import {SourceDetail} from '#/screens/Sources/Detail'
 import {type Theme, useTheme} from '#/alf'
@@ -588,6 +598,11 @@ function commonScreens(Stack: typeof Flat, unreadCountLabel?: string) {
           requireAuth: true,
         }}
       />
+      <Stack.Screen
+        name="JournalSharePacket"
+        getComponent={() => JournalSharePacketScreen}
+        options={{title: title(msg`Shared Journal Entries`)}}
+      />
     </>
   )
 }
@@ -732,7 +747,17 @@ function JournalTabNavigator() {
       />
       <JournalTab.Screen
         name="JournalEntryDetail"
-        component={({route}) => <JournalEntryDetail entryUri={route.params.uri} />}
+        getComponent={() => JournalEntryDetail}
+        options={{requireAuth: true}}
+      />
+      <JournalTab.Screen
+        name="JournalEntryAccess"
+        getComponent={() => JournalEntryAccessScreen}
+        options={{requireAuth: true}}
+      />
+      <JournalTab.Screen
+        name="JournalAccessLog"
+        getComponent={() => JournalAccessLogScreen}
         options={{requireAuth: true}}
       />
       <JournalTab.Screen
@@ -740,6 +765,41 @@ function JournalTabNavigator() {
         getComponent={() => JournalAnalytics}
         options={{requireAuth: true}}
       />
+      <JournalTab.Screen
+        name="JournalEncryption"
+        getComponent={() => JournalEncryptionScreen}
+        options={{requireAuth: true}}
+      />
+      <JournalTab.Screen
+        name="JournalTimeline"
+        getComponent={() => JournalTimelineScreen}
+        options={{requireAuth: true}}
+      />
+      <JournalTab.Screen
+        name="JournalRetention"
+        getComponent={() => JournalRetentionScreen}
+        options={{requireAuth: true}}
+      />
+      <JournalTab.Screen
+        name="JournalSharePackets"
+        getComponent={() => JournalSharePacketsScreen}
+        options={{requireAuth: true}}
+      />
+      <JournalTab.Screen
+        name="JournalTriggerWarnings"
+        getComponent={() => JournalTriggerWarningsScreen}
+        options={{requireAuth: true}}
+      />
+      <JournalTab.Screen
+        name="JournalCases"
+        getComponent={() => JournalCasesScreen}
+        options={{requireAuth: true}}
+      />
+      <JournalTab.Screen
+        name="JournalCase"
+        getComponent={() => JournalCaseScreen}
+        options={{requireAuth: true}}
+      />
       {commonScreens(JournalTab as unknown as typeof Flat)}
     </JournalTab.Navigator>
   )
@@ -817,14 +877,59 @@ const FlatNavigator = () => {
       />
       <Flat.Screen
         name="JournalEntryDetail"
-        component={({route}) => <JournalEntryDetail entryUri={route.params.uri} />}
+        getComponent={() => JournalEntryDetail}
         options={{title: title(msg`Journal Entry`), requireAuth: true}}
       />
+      <Flat.Screen
+        name="JournalEntryAccess"
+        getComponent={() => JournalEntryAccessScreen}
+        options={{title: title(msg`Who Has Access`), requireAuth: true}}
+      />
+      <Flat.Screen
+        name="JournalAccessLog"
+        getComponent={() => JournalAccessLogScreen}
+        options={{title: title(msg`Access Log`), requireAuth: true}}
+      />
       <Flat.Screen
         name="JournalAnalytics"
         getComponent={() => JournalAnalytics}
         options={{title: title(msg`Journal Analytics`), requireAuth: true}}
       />
+      <Flat.Screen
+        name="JournalEncryption"
+        getComponent={() => JournalEncryptionScreen}
+        options={{title: title(msg`Journal Encryption`), requireAuth: true}}
+      />
+      <Flat.Screen
+        name="JournalTimeline"
+        getComponent={() => JournalTimelineScreen}
+        options={{title: title(msg`Incident Timeline`), requireAuth: true}}
+      />
+      <Flat.Screen
+        name="JournalRetention"
+        getComponent={() => JournalRetentionScreen}
+        options={{title: title(msg`Data Retention`), requireAuth: true}}
+      />
+      <Flat.Screen
+        name="JournalSharePackets"
+        getComponent={() => JournalSharePacketsScreen}
+        options={{title: title(msg`Share Packets`), requireAuth: true}}
+      />
+      <Flat.Screen
+        name="JournalTriggerWarnings"
+        getComponent={() => JournalTriggerWarningsScreen}
+        options={{title: title(msg`Content Warnings`), requireAuth: true}}
+      />
+      <Flat.Screen
+        name="JournalCases"
+        getComponent={() => JournalCasesScreen}
+        options={{title: title(msg`Cases`), requireAuth: true}}
+      />
+      <Flat.Screen
+        name="JournalCase"
+        getComponent={() => JournalCaseScreen}
+        options={{title: title(msg`Case`), requireAuth: true}}
+      />
       <Flat.Screen
         name="Start"
         getComponent={() => HomeScreen}
@@ -895,9 +1000,36 @@ const LINKING = {
       if (name === 'JournalEntryDetail') {
         return buildStateObject('JournalTab', 'JournalEntryDetail', params)
       }
+      if (name === 'JournalEntryAccess') {
+        return buildStateObject('JournalTab', 'JournalEntryAccess', params)
+      }
+      if (name === 'JournalAccessLog') {
+        return buildStateObject('JournalTab', 'JournalAccessLog', params)
+      }
       if (name === 'JournalAnalytics') {
         return buildStateObject('JournalTab', 'JournalAnalytics', params)
       }
+      if (name === 'JournalEncryption') {
+        return buildStateObject('JournalTab', 'JournalEncryption', params)
+      }
+      if (name === 'JournalTimeline') {
+        return buildStateObject('JournalTab', 'JournalTimeline', params)
+      }
+      if (name === 'JournalRetention') {
+        return buildStateObject('JournalTab', 'JournalRetention', params)
+      }
+      if (name === 'JournalSharePackets') {
+        return buildStateObject('JournalTab', 'JournalSharePackets', params)
+      }
+      if (name === 'JournalTriggerWarnings') {
+        return buildStateObject('JournalTab', 'JournalTriggerWarnings', params)
+      }
+      if (name === 'JournalCases') {
+        return buildStateObject('JournalTab', 'JournalCases', params)
+      }
+      if (name === 'JournalCase') {
+        return buildStateObject('JournalTab', 'JournalCase', params)
+      }
       // if the path is something else, like a post, profile, or even settings, we need to initialize the home tab as pre-existing state otherwise the back button will not work
       return buildStateObject('HomeTab', name, params, [
         {
@@ -1053,7 +1185,7 @@ function handleLink(url: string) {
       resetToTab('SearchTab')
     } else if (name === 'Notifications') {
       resetToTab('NotificationsTab')
-    } else if (name === 'JournalList' || name === 'JournalComposer' || name === 'JournalEntryDetail' || name === 'JournalAnalytics') {
+    } else if (name === 'JournalList' || name === 'JournalComposer' || name === 'JournalEntryDetail' || name === 'JournalEntryAccess' || name === 'JournalAnalytics' || name === 'JournalEncryption' || name === 'JournalTimeline' || name === 'JournalRetention' || name === 'JournalAccessLog' || name === 'JournalSharePackets' || name === 'JournalTriggerWarnings' || name === 'JournalCases' || name === 'JournalCase') {
       resetToTab('JournalTab')
       if (name !== 'JournalList') {
         // @ts-ignore matchPath doesnt give us type-checked output -prf
@@ -0,0 +1,132 @@
+import {useCallback, useEffect, useRef, useState} from 'react'
+import {PixelRatio, StyleSheet, View} from 'react-native'
+import {captureRef} from 'react-native-view-shot'
+import {getInfoAsync} from 'expo-file-system'
+import {Image} from 'expo-image'
+
+import {getImageDim} from '#/lib/media/manip'
+import {type PickerImage} from '#/lib/media/picker.shared'
+import {
+  getRedactionBlurRadius,
+  getRedactionRect,
+  type RedactionRegion,
+} from '#/lib/media/redact'
+import {type ImageMeta} from '#/state/gallery'
+
+export interface RedactionRendererProps {
+  image: ImageMeta
+  regions: RedactionRegion[]
+  onRendered: (redacted: PickerImage) => void
+  onError: (e: unknown) => void
+}
+
+/**
+ * Bakes redactions into a copy of the image. There's no canvas on native, so
+ * the image and its redactions are laid out offscreen at full resolution and
+ * captured with view-shot.
+ */
+export function RedactionRenderer({
+  image,
+  regions,
+  onRendered,
+  onError,
+}: RedactionRendererProps) {
+  const ref = useRef<View>(null)
+  const [loadedCount, setLoadedCount] = useState(0)
+  const hasCaptured = useRef(false)
+
+  // laid out in points, so it's captured at the image's size in pixels
+  const scale = PixelRatio.get()
+  const size = {width: image.width / scale, height: image.height / scale}
+  const imageCount = 1 + regions.filter(r => r.style === 'blur').length
+
+  const onLoad = useCallback(() => setLoadedCount(count => count + 1), [])
+
+  useEffect(() => {
+    if (loadedCount < imageCount || hasCaptured.current) return
+    hasCaptured.current = true
+    capture()
+
+    async function capture() {
+      try {
+        const uri = await captureRef(ref, {
+          format: 'jpg',
+          quality: 0.9,
+          result: 'tmpfile',
+        })
+        const fileInfo = await getInfoAsync(uri)
+        if (!fileInfo.exists) {
+          throw new Error('Failed to render the redacted image.')
+        }
+        const {width, height} = await getImageDim(uri)
+        onRendered({
+          path: uri,
+          mime: 'image/jpeg',
+          size: fileInfo.size,
+          width,
+          height,
+        })
+      } catch (e) {
+        onError(e)
+      }
+    }
+  }, [loadedCount, imageCount, onRendered, onError])
+
+  return (
+    <View
+      pointerEvents="none"
+      style={[styles.offscreen, {top: -size.height - 100}]}>
+      <View ref={ref} collapsable={false} style={size}>
+        <Image
+          source={{uri: image.path}}
+          style={StyleSheet.absoluteFill}
+          contentFit="fill"
+          onLoad={onLoad}
+          onError={() => onError(new Error('Failed to load the image.'))}
+          accessibilityIgnoresInvertColors
+        />
+        {regions.map((region, index) => {
+          const {x, y, width, height} = getRedactionRect(region, image)
+          const rect = {
+            left: x / scale,
+            top: y / scale,
+            width: width / scale,
+            height: height / scale,
+          }
+          return region.style === 'box' ? (
+            <View key={index} style={[styles.region, styles.box, rect]} />
+          ) : (
+            <View key={index} style={[styles.region, rect]}>
+              <Image
+                source={{uri: image.path}}
+                style={[
+                  styles.region,
+                  {left: -rect.left, top: -rect.top},
+                  size,
+                ]}
+                contentFit="fill"
+                blurRadius={getRedactionBlurRadius(rect)}
+                onLoad={onLoad}
+                accessibilityIgnoresInvertColors
+              />
+            </View>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  offscreen: {
+    position: 'absolute',
+    left: 0,
+  },
+  region: {
+    position: 'absolute',
+    overflow: 'hidden',
+  },
+  box: {
+    backgroundColor: 'black',
+  },
+})
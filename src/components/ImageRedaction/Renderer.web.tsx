@@ -0,0 +1,130 @@
+import {useEffect, useRef} from 'react'
+
+import {type PickerImage} from '#/lib/media/picker.shared'
+import {
+  getRedactionBlurRadius,
+  getRedactionRect,
+  type RedactionRegion,
+} from '#/lib/media/redact'
+import {getDataUriSize} from '#/lib/media/util'
+import {type ImageMeta} from '#/state/gallery'
+
+export interface RedactionRendererProps {
+  image: ImageMeta
+  regions: RedactionRegion[]
+  onRendered: (redacted: PickerImage) => void
+  onError: (e: unknown) => void
+}
+
+/**
+ * Bakes redactions into a copy of the image by drawing it to a canvas
+ */
+export function RedactionRenderer({
+  image,
+  regions,
+  onRendered,
+  onError,
+}: RedactionRendererProps) {
+  const hasRendered = useRef(false)
+
+  useEffect(() => {
+    if (hasRendered.current) return
+    hasRendered.current = true
+    renderRedactions(image, regions).then(onRendered, onError)
+  }, [image, regions, onRendered, onError])
+
+  return null
+}
+
+async function renderRedactions(
+  image: ImageMeta,
+  regions: RedactionRegion[],
+): Promise<PickerImage> {
+  const img = await loadImage(image.path)
+  const size = {width: img.naturalWidth, height: img.naturalHeight}
+
+  const canvas = document.createElement('canvas')
+  canvas.width = size.width
+  canvas.height = size.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Failed to create canvas context')
+  }
+  ctx.drawImage(img, 0, 0)
+
+  for (const region of regions) {
+    const rect = getRedactionRect(region, size)
+    if (region.style === 'box') {
+      ctx.fillStyle = 'black'
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height)
+    } else {
+      pixelate(ctx, img, rect)
+    }
+  }
+
+  const dataUri = canvas.toDataURL('image/jpeg', 0.9)
+  return {
+    path: dataUri,
+    mime: 'image/jpeg',
+    size: getDataUriSize(dataUri),
+    ...size,
+  }
+}
+
+/**
+ * Shrinks the region to a few blocks and scales it back up without
+ * smoothing. Unlike a canvas blur filter, the detail is actually gone and
+ * can't be sharpened back out.
+ */
+function pixelate(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  rect: {x: number; y: number; width: number; height: number},
+) {
+  const blockSize = getRedactionBlurRadius(rect)
+  const width = Math.max(1, Math.round(rect.width / blockSize))
+  const height = Math.max(1, Math.round(rect.height / blockSize))
+
+  const small = document.createElement('canvas')
+  small.width = width
+  small.height = height
+  const smallCtx = small.getContext('2d')
+  if (!smallCtx) {
+    throw new Error('Failed to create canvas context')
+  }
+  smallCtx.drawImage(
+    img,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height,
+    0,
+    0,
+    width,
+    height,
+  )
+
+  ctx.imageSmoothingEnabled = false
+  ctx.drawImage(
+    small,
+    0,
+    0,
+    width,
+    height,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height,
+  )
+  ctx.imageSmoothingEnabled = true
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error('Failed to load the image.'))
+    img.src = src
+  })
+}
@@ -0,0 +1,348 @@
+import {useCallback, useMemo, useRef, useState} from 'react'
+import {
+  ActivityIndicator,
+  type LayoutChangeEvent,
+  Modal,
+  StyleSheet,
+  View,
+} from 'react-native'
+import {
+  Gesture,
+  GestureDetector,
+  GestureHandlerRootView,
+} from 'react-native-gesture-handler'
+import {Image} from 'expo-image'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {type PickerImage} from '#/lib/media/picker.shared'
+import {
+  getRedactionBlurRadius,
+  getRedactionRect,
+  getRedactionRegion,
+  type Point,
+  type RedactionRegion,
+  type RedactionStyle,
+} from '#/lib/media/redact'
+import {type Dimensions} from '#/lib/media/types'
+import {cleanError} from '#/lib/strings/errors'
+import {logger} from '#/logger'
+import {type ImageMeta} from '#/state/gallery'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {ArrowRotateCounterClockwise_Stroke2_Corner0_Rounded as Undo} from '#/components/icons/ArrowRotateCounterClockwise'
+import {Trash_Stroke2_Corner0_Rounded as Trash} from '#/components/icons/Trash'
+import {Text} from '#/components/Typography'
+import {RedactionRenderer} from './Renderer'
+
+/**
+ * Lets the user cover parts of an image with opaque boxes or blur before it
+ * leaves the device. The covered areas are baked into a new JPEG, so the
+ * original pixels are never uploaded.
+ *
+ * `onDone` gets the redacted copy, or undefined if nothing was covered.
+ */
+export function ImageRedactionEditor({
+  image,
+  onCancel,
+  onDone,
+}: {
+  image?: ImageMeta
+  onCancel: () => void
+  onDone: (redacted: PickerImage | undefined) => void
+}) {
+  return (
+    <Modal
+      visible={!!image}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}>
+      {image && (
+        <ImageRedactionEditorInner
+          key={image.path}
+          image={image}
+          onCancel={onCancel}
+          onDone={onDone}
+        />
+      )}
+    </Modal>
+  )
+}
+
+function ImageRedactionEditorInner({
+  image,
+  onCancel,
+  onDone,
+}: {
+  image: ImageMeta
+  onCancel: () => void
+  onDone: (redacted: PickerImage | undefined) => void
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+
+  const [style, setStyle] = useState<RedactionStyle>('box')
+  const [regions, setRegions] = useState<RedactionRegion[]>([])
+  const [draft, setDraft] = useState<{start: Point; end: Point}>()
+  const dragStart = useRef<Point>()
+  const [container, setContainer] = useState<Dimensions>()
+  const [isRendering, setIsRendering] = useState(false)
+
+  const preview = useMemo(() => {
+    if (!container) return undefined
+    const scale = Math.min(
+      container.width / image.width,
+      container.height / image.height,
+    )
+    return {width: image.width * scale, height: image.height * scale}
+  }, [container, image.width, image.height])
+
+  const onLayout = useCallback((evt: LayoutChangeEvent) => {
+    const {width, height} = evt.nativeEvent.layout
+    setContainer({width, height})
+  }, [])
+
+  const drawGesture = useMemo(
+    () =>
+      Gesture.Pan()
+        .minDistance(0)
+        .enabled(!isRendering)
+        .onBegin(e => {
+          const point = {x: e.x, y: e.y}
+          dragStart.current = point
+          setDraft({start: point, end: point})
+        })
+        .onUpdate(e => {
+          if (!dragStart.current) return
+          setDraft({start: dragStart.current, end: {x: e.x, y: e.y}})
+        })
+        .onEnd(e => {
+          if (!preview || !dragStart.current) return
+          const region = getRedactionRegion(
+            style,
+            dragStart.current,
+            {x: e.x, y: e.y},
+            preview,
+          )
+          if (region) setRegions(current => [...current, region])
+        })
+        .onFinalize(() => {
+          dragStart.current = undefined
+          setDraft(undefined)
+        })
+        .runOnJS(true),
+    [isRendering, preview, style],
+  )
+
+  const draftRegion =
+    draft && preview
+      ? getRedactionRegion(style, draft.start, draft.end, preview)
+      : undefined
+
+  const onPressDone = useCallback(() => {
+    if (regions.length === 0) {
+      onDone(undefined)
+    } else {
+      setIsRendering(true)
+    }
+  }, [regions.length, onDone])
+
+  const onRendered = useCallback(
+    (redacted: PickerImage) => {
+      setIsRendering(false)
+      onDone(redacted)
+    },
+    [onDone],
+  )
+
+  const onRenderError = useCallback((e: unknown) => {
+    logger.error('Failed to render redacted image', {message: String(e)})
+    Toast.show(cleanError(e), 'xmark')
+    setIsRendering(false)
+  }, [])
+
+  return (
+    <GestureHandlerRootView style={[a.flex_1, t.atoms.bg]}>
+      <View
+        style={[
+          a.flex_row,
+          a.align_center,
+          a.justify_between,
+          a.gap_md,
+          a.p_lg,
+          a.border_b,
+          t.atoms.border_contrast_low,
+        ]}>
+        <Button
+          variant="ghost"
+          color="secondary"
+          size="small"
+          onPress={onCancel}
+          disabled={isRendering}
+          label={_(msg`Cancel redaction`)}>
+          <ButtonText>
+            <Trans>Cancel</Trans>
+          </ButtonText>
+        </Button>
+        <Text style={[a.text_lg, a.font_bold]}>
+          <Trans>Redact image</Trans>
+        </Text>
+        <Button
+          variant="solid"
+          color="primary"
+          size="small"
+          onPress={onPressDone}
+          disabled={isRendering}
+          label={_(msg`Save redactions`)}>
+          <ButtonText>
+            <Trans>Done</Trans>
+          </ButtonText>
+          {isRendering && <ActivityIndicator color={t.palette.white} />}
+        </Button>
+      </View>
+
+      <View style={[a.flex_1, a.m_lg]} onLayout={onLayout}>
+        {preview && (
+          <View style={[a.flex_1, a.align_center, a.justify_center]}>
+            <GestureDetector gesture={drawGesture}>
+              <View style={[preview, a.overflow_hidden]}>
+                <Image
+                  source={{uri: image.path}}
+                  style={StyleSheet.absoluteFill}
+                  contentFit="fill"
+                  accessibilityLabel={_(msg`Image being redacted`)}
+                  accessibilityHint={_(
+                    msg`Drag across the image to cover part of it`,
+                  )}
+                  accessibilityIgnoresInvertColors
+                />
+                {regions.map((region, index) => (
+                  <RegionPreview
+                    key={index}
+                    region={region}
+                    image={image}
+                    preview={preview}
+                  />
+                ))}
+                {draftRegion && (
+                  <View
+                    pointerEvents="none"
+                    style={[
+                      styles.draft,
+                      {borderColor: t.palette.primary_500},
+                      toPreviewRect(draftRegion, preview),
+                    ]}
+                  />
+                )}
+              </View>
+            </GestureDetector>
+          </View>
+        )}
+      </View>
+
+      <View style={[a.gap_md, a.p_lg, a.border_t, t.atoms.border_contrast_low]}>
+        <Text style={[a.text_sm, a.text_center, t.atoms.text_contrast_medium]}>
+          {style === 'box' ? (
+            <Trans>Drag to cover anything you don't want to share.</Trans>
+          ) : (
+            <Trans>Drag to blur anything you don't want to share.</Trans>
+          )}
+        </Text>
+        <View style={[a.flex_row, a.justify_center, a.gap_sm]}>
+          <Button
+            variant={style === 'box' ? 'solid' : 'outline'}
+            color="secondary"
+            size="small"
+            onPress={() => setStyle('box')}
+            label={_(msg`Cover with boxes`)}>
+            <ButtonText>
+              <Trans>Box</Trans>
+            </ButtonText>
+          </Button>
+          <Button
+            variant={style === 'blur' ? 'solid' : 'outline'}
+            color="secondary"
+            size="small"
+            onPress={() => setStyle('blur')}
+            label={_(msg`Cover with blur`)}>
+            <ButtonText>
+              <Trans>Blur</Trans>
+            </ButtonText>
+          </Button>
+          <Button
+            variant="ghost"
+            color="secondary"
+            size="small"
+            shape="round"
+            onPress={() => setRegions(current => current.slice(0, -1))}
+            disabled={regions.length === 0 || isRendering}
+            label={_(msg`Undo last redaction`)}>
+            <ButtonIcon icon={Undo} />
+          </Button>
+          <Button
+            variant="ghost"
+            color="secondary"
+            size="small"
+            shape="round"
+            onPress={() => setRegions([])}
+            disabled={regions.length === 0 || isRendering}
+            label={_(msg`Clear all redactions`)}>
+            <ButtonIcon icon={Trash} />
+          </Button>
+        </View>
+      </View>
+
+      {isRendering && (
+        <RedactionRenderer
+          image={image}
+          regions={regions}
+          onRendered={onRendered}
+          onError={onRenderError}
+        />
+      )}
+    </GestureHandlerRootView>
+  )
+}
+
+function RegionPreview({
+  region,
+  image,
+  preview,
+}: {
+  region: RedactionRegion
+  image: ImageMeta
+  preview: Dimensions
+}) {
+  const rect = toPreviewRect(region, preview)
+
+  if (region.style === 'box') {
+    return <View pointerEvents="none" style={[styles.box, rect]} />
+  }
+  return (
+    <View pointerEvents="none" style={[a.overflow_hidden, rect]}>
+      <Image
+        source={{uri: image.path}}
+        style={[a.absolute, {left: -rect.left, top: -rect.top}, preview]}
+        contentFit="fill"
+        blurRadius={getRedactionBlurRadius(rect)}
+        accessibilityIgnoresInvertColors
+      />
+    </View>
+  )
+}
+
+function toPreviewRect(region: RedactionRegion, preview: Dimensions) {
+  const {x, y, width, height} = getRedactionRect(region, preview)
+  return {position: 'absolute' as const, left: x, top: y, width, height}
+}
+
+const styles = StyleSheet.create({
+  box: {
+    backgroundColor: 'black',
+  },
+  draft: {
+    borderWidth: 2,
+    borderStyle: 'dashed',
+  },
+})
@@ -0,0 +1,391 @@
+import {useCallback, useState} from 'react'
+import {ActivityIndicator, Alert, TextInput, View} from 'react-native'
+import {ComAtprotoModerationDefs} from '@atproto/api'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {cleanError} from '#/lib/strings/errors'
+import {
+  type JournalCommentSubject,
+  MAX_JOURNAL_COMMENT_LENGTH,
+  useCreateJournalComment,
+  useDeleteJournalComment,
+  useJournalComments,
+  useReportJournalComment,
+  useToggleJournalSupport,
+} from '#/state/queries/journal/comments'
+import {type JournalComment} from '#/state/queries/journal/types'
+import {
+  canCommentOnJournalEntry,
+  type JournalCommentThread,
+} from '#/state/queries/journal/utils'
+import {useSession} from '#/state/session'
+import {TimeElapsed} from '#/view/com/util/TimeElapsed'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {
+  Heart2_Filled_Stroke2_Corner0_Rounded as HeartFilled,
+  Heart2_Stroke2_Corner0_Rounded as Heart,
+} from '#/components/icons/Heart2'
+import {Text} from '#/components/Typography'
+
+// Replies deeper than this are shown at the same indent
+const MAX_INDENT_DEPTH = 4
+
+/**
+ * Support reactions and threaded comments for a journal entry
+ */
+export function JournalComments({entry}: {entry: JournalCommentSubject}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const {currentAccount} = useSession()
+  const canComment =
+    entry.viewer?.canComment ??
+    canCommentOnJournalEntry(entry, {did: currentAccount?.did})
+
+  const {data, isLoading, error} = useJournalComments(entry)
+  const createComment = useCreateJournalComment()
+  const toggleSupport = useToggleJournalSupport()
+
+  const [text, setText] = useState('')
+  const [replyTo, setReplyTo] = useState<JournalComment | null>(null)
+  const [isSupport, setIsSupport] = useState(false)
+
+  const onPost = useCallback(() => {
+    createComment.mutate(
+      {
+        entry,
+        text,
+        parent: replyTo ?? undefined,
+        isSupport,
+      },
+      {
+        onSuccess: () => {
+          setText('')
+          setReplyTo(null)
+          setIsSupport(false)
+        },
+        onError: e => Toast.show(cleanError(e), 'xmark'),
+      },
+    )
+  }, [createComment, entry, text, replyTo, isSupport])
+
+  const onToggleSupport = useCallback(() => {
+    toggleSupport.mutate(
+      {entry, supportUri: data?.viewerSupportUri},
+      {onError: e => Toast.show(cleanError(e), 'xmark')},
+    )
+  }, [toggleSupport, entry, data?.viewerSupportUri])
+
+  if (!canComment && !data?.commentCount) {
+    return (
+      <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+        <Trans>Comments are turned off for this entry.</Trans>
+      </Text>
+    )
+  }
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={t.palette.primary_500} />
+  }
+
+  if (error || !data) {
+    return (
+      <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+        {error ? cleanError(error) : _(msg`Could not load comments.`)}
+      </Text>
+    )
+  }
+
+  const hasSupported = !!data.viewerSupportUri
+  const isOwnEntry = entry.author.did === currentAccount?.did
+
+  return (
+    <View style={[a.gap_md]}>
+      <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+        {!isOwnEntry && canComment && (
+          <Button
+            variant={hasSupported ? 'solid' : 'outline'}
+            color="primary"
+            size="small"
+            onPress={onToggleSupport}
+            disabled={toggleSupport.isPending}
+            label={
+              hasSupported ? _(msg`Remove support`) : _(msg`Show support`)
+            }>
+            <ButtonIcon icon={hasSupported ? HeartFilled : Heart} />
+            <ButtonText>
+              {hasSupported ? <Trans>Supported</Trans> : <Trans>Support</Trans>}
+            </ButtonText>
+          </Button>
+        )}
+        <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+          {_(
+            plural(data.supportReactionCount, {
+              one: '# person sent support',
+              other: '# people sent support',
+            }),
+          )}
+        </Text>
+      </View>
+
+      {data.threads.length === 0 ? (
+        <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+          <Trans>No comments yet.</Trans>
+        </Text>
+      ) : (
+        <View style={[a.gap_sm]}>
+          {data.threads.map(thread => (
+            <CommentThread
+              key={thread.comment.id}
+              thread={thread}
+              entryUri={entry.uri}
+              depth={0}
+              onReply={canComment ? setReplyTo : undefined}
+            />
+          ))}
+        </View>
+      )}
+
+      {canComment && (
+        <View style={[a.gap_sm]}>
+          {replyTo && (
+            <View style={[a.flex_row, a.align_center, a.justify_between]}>
+              <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+                <Trans>Replying to {getAuthorName(replyTo)}</Trans>
+              </Text>
+              <Button
+                variant="ghost"
+                color="secondary"
+                size="tiny"
+                onPress={() => setReplyTo(null)}
+                label={_(msg`Cancel reply`)}>
+                <ButtonText>
+                  <Trans>Cancel</Trans>
+                </ButtonText>
+              </Button>
+            </View>
+          )}
+          <TextInput
+            value={text}
+            onChangeText={setText}
+            placeholder={
+              replyTo ? _(msg`Write a reply...`) : _(msg`Write a comment...`)
+            }
+            placeholderTextColor={t.palette.contrast_400}
+            maxLength={MAX_JOURNAL_COMMENT_LENGTH}
+            multiline
+            style={[
+              a.p_sm,
+              a.rounded_sm,
+              a.border,
+              a.text_md,
+              {
+                minHeight: 64,
+                color: t.palette.contrast_800,
+                borderColor: t.palette.contrast_200,
+              },
+            ]}
+            accessibilityLabel={_(msg`Comment text`)}
+            accessibilityHint=""
+          />
+          <View style={[a.flex_row, a.flex_wrap, a.gap_sm]}>
+            <Button
+              variant={isSupport ? 'solid' : 'outline'}
+              color="secondary"
+              size="small"
+              onPress={() => setIsSupport(!isSupport)}
+              label={_(msg`Mark as a support message`)}>
+              <ButtonText>
+                <Trans>Support message</Trans>
+              </ButtonText>
+            </Button>
+            <View style={[a.flex_1]} />
+            <Button
+              variant="solid"
+              color="primary"
+              size="small"
+              onPress={onPost}
+              disabled={!text.trim() || createComment.isPending}
+              label={_(msg`Post comment`)}>
+              <ButtonText>
+                <Trans>Post</Trans>
+              </ButtonText>
+            </Button>
+          </View>
+        </View>
+      )}
+    </View>
+  )
+}
+
+function CommentThread({
+  thread,
+  entryUri,
+  depth,
+  onReply,
+}: {
+  thread: JournalCommentThread
+  entryUri: string
+  depth: number
+  onReply?: (comment: JournalComment) => void
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const {currentAccount} = useSession()
+  const deleteComment = useDeleteJournalComment()
+  const reportComment = useReportJournalComment()
+  const {comment, replies} = thread
+
+  const isOwn = comment.author.did === currentAccount?.did
+  const canDelete = comment.viewer?.canDelete ?? isOwn
+  const canReport = comment.viewer?.canReport ?? !isOwn
+
+  const onDelete = useCallback(() => {
+    Alert.alert(
+      _(msg`Delete Comment`),
+      _(msg`This comment will be removed for everyone.`),
+      [
+        {text: _(msg`Cancel`), style: 'cancel'},
+        {
+          text: _(msg`Delete`),
+          style: 'destructive',
+          onPress: () =>
+            deleteComment.mutate(
+              {entryUri, comment},
+              {onError: e => Toast.show(cleanError(e), 'xmark')},
+            ),
+        },
+      ],
+    )
+  }, [deleteComment, entryUri, comment, _])
+
+  const onReport = useCallback(() => {
+    const report = (reasonType: string) =>
+      reportComment.mutate(
+        {comment, reasonType},
+        {
+          onSuccess: () => Toast.show(_(msg`Thank you. Your report was sent.`)),
+          onError: e => Toast.show(cleanError(e), 'xmark'),
+        },
+      )
+    Alert.alert(_(msg`Report Comment`), _(msg`Why should this be reviewed?`), [
+      {
+        text: _(msg`Harassment or abuse`),
+        onPress: () => report(ComAtprotoModerationDefs.REASONRUDE),
+      },
+      {
+        text: _(msg`Spam`),
+        onPress: () => report(ComAtprotoModerationDefs.REASONSPAM),
+      },
+      {
+        text: _(msg`Something else`),
+        onPress: () => report(ComAtprotoModerationDefs.REASONOTHER),
+      },
+      {text: _(msg`Cancel`), style: 'cancel'},
+    ])
+  }, [reportComment, comment, _])
+
+  return (
+    <View
+      style={[
+        depth > 0 && depth <= MAX_INDENT_DEPTH && a.pl_md,
+        depth > 0 && a.border_l,
+        {borderColor: t.palette.contrast_100},
+      ]}>
+      <View style={[a.py_xs, a.gap_2xs]}>
+        <View style={[a.flex_row, a.align_center, a.flex_wrap, a.gap_xs]}>
+          <Text style={[a.text_sm, a.font_bold]}>
+            {comment.isDeleted ? _(msg`Deleted`) : getAuthorName(comment)}
+          </Text>
+          {comment.isModerator && !comment.isDeleted && (
+            <Tag label={_(msg`Moderator`)} />
+          )}
+          {comment.isSupport && !comment.isDeleted && (
+            <Tag label={_(msg`Support`)} />
+          )}
+          <TimeElapsed timestamp={comment.createdAt}>
+            {({timeElapsed}) => (
+              <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+                {timeElapsed}
+              </Text>
+            )}
+          </TimeElapsed>
+        </View>
+        <Text
+          style={[
+            a.text_sm,
+            comment.isDeleted && [a.italic, t.atoms.text_contrast_medium],
+          ]}>
+          {comment.isDeleted ? _(msg`This comment was deleted.`) : comment.text}
+        </Text>
+        {!comment.isDeleted && (
+          <View style={[a.flex_row, a.gap_xs]}>
+            {onReply && comment.viewer?.canReply !== false && (
+              <Button
+                variant="ghost"
+                color="secondary"
+                size="tiny"
+                onPress={() => onReply(comment)}
+                label={_(msg`Reply`)}>
+                <ButtonText>
+                  <Trans>Reply</Trans>
+                </ButtonText>
+              </Button>
+            )}
+            {canDelete && (
+              <Button
+                variant="ghost"
+                color="secondary"
+                size="tiny"
+                onPress={onDelete}
+                disabled={deleteComment.isPending}
+                label={_(msg`Delete comment`)}>
+                <ButtonText>
+                  <Trans>Delete</Trans>
+                </ButtonText>
+              </Button>
+            )}
+            {canReport && (
+              <Button
+                variant="ghost"
+                color="secondary"
+                size="tiny"
+                onPress={onReport}
+                disabled={reportComment.isPending}
+                label={_(msg`Report comment`)}>
+                <ButtonText>
+                  <Trans>Report</Trans>
+                </ButtonText>
+              </Button>
+            )}
+          </View>
+        )}
+      </View>
+      {replies.map(reply => (
+        <CommentThread
+          key={reply.comment.id}
+          thread={reply}
+          entryUri={entryUri}
+          depth={depth + 1}
+          onReply={onReply}
+        />
+      ))}
+    </View>
+  )
+}
+
+function Tag({label}: {label: string}) {
+  const t = useTheme()
+  return (
+    <View
+      style={[a.px_xs, a.rounded_xs, {backgroundColor: t.palette.primary_50}]}>
+      <Text style={[a.text_xs, {color: t.palette.primary_700}]}>{label}</Text>
+    </View>
+  )
+}
+
+function getAuthorName(comment: JournalComment) {
+  return comment.author.displayName || `@${comment.author.handle}`
+}
@@ -2,6 +2,7 @@ import {View, Text, TouchableOpacity} from 'react-native'
 import {atoms as a, useTheme} from '#/alf'
 import {type Source} from '#/components/SourcePicker'
 import {SourceDisplay, InlineCitations} from '#/components/SourceDisplay'
+import {JournalTriggerWarningHider} from '#/components/moderation/JournalTriggerWarningHider'
 
 interface JournalEntryData {
   uri: string
@@ -21,6 +22,7 @@ interface JournalEntryData {
   }>
   isPrivate: boolean
   sourceIds?: string[]
+  triggerWarnings?: string[]
 }
 
 interface JournalEntryProps {
@@ -118,72 +120,74 @@ export function JournalEntry({
         </View>
       )}
 
-      {/* Location */}
-      {entry.location && (
-        <View style={[a.mb_sm]}>
-          <Text style={[a.text_xs, {color: t.atoms.text_contrast_medium.color}]}>
-            📍 {entry.location.address || `${entry.location.latitude.toFixed(4)}, ${entry.location.longitude.toFixed(4)}`}
-          </Text>
-        </View>
-      )}
-
-      {/* Main Text with Inline Citations */}
-      <View style={[a.mb_sm]}>
-        {sources.length > 0 ? (
-          <InlineCitations
-            text={entry.text}
-            sources={sources}
-            onCitationPress={(sourceIndex) => {
-              const source = sources[sourceIndex - 1]
-              if (source && onSourcePress) {
-                onSourcePress(source)
-              }
-            }}
-          />
-        ) : (
-          <Text style={[a.text_md, {color: t.atoms.text.color}]} numberOfLines={showFullText ? undefined : 4}>
-            {entry.text}
-          </Text>
+      <JournalTriggerWarningHider warnings={entry.triggerWarnings}>
+        {/* Location */}
+        {entry.location && (
+          <View style={[a.mb_sm]}>
+            <Text style={[a.text_xs, {color: t.atoms.text_contrast_medium.color}]}>
+              📍 {entry.location.address || `${entry.location.latitude.toFixed(4)}, ${entry.location.longitude.toFixed(4)}`}
+            </Text>
+          </View>
         )}
-      </View>
 
-      {/* Symptoms */}
-      {entry.symptoms && entry.symptoms.length > 0 && (
+        {/* Main Text with Inline Citations */}
         <View style={[a.mb_sm]}>
-          <Text style={[a.text_sm, a.font_bold, a.mb_xs, {color: t.atoms.text.color}]}>
-            Symptoms ({entry.symptoms.length})
-          </Text>
-          <View style={[a.flex_row, a.flex_wrap, a.gap_xs]}>
-            {entry.symptoms.slice(0, 3).map((symptom, index) => (
-              <View
-                key={index}
-                style={[
-                  a.px_sm,
-                  a.py_xs,
-                  a.rounded_sm,
-                  {backgroundColor: '#fef3c7'},
-                ]}>
-                <Text style={[a.text_xs, {color: '#92400e'}]}>
-                  {symptom.category} ({symptom.severity}/10)
-                </Text>
-              </View>
-            ))}
-            {entry.symptoms.length > 3 && (
-              <View
-                style={[
-                  a.px_sm,
-                  a.py_xs,
-                  a.rounded_sm,
-                  {backgroundColor: '#e5e7eb'},
-                ]}>
-                <Text style={[a.text_xs, {color: '#6b7280'}]}>
-                  +{entry.symptoms.length - 3} more
-                </Text>
-              </View>
-            )}
-          </View>
+          {sources.length > 0 ? (
+            <InlineCitations
+              text={entry.text}
+              sources={sources}
+              onCitationPress={(sourceIndex) => {
+                const source = sources[sourceIndex - 1]
+                if (source && onSourcePress) {
+                  onSourcePress(source)
+                }
+              }}
+            />
+          ) : (
+            <Text style={[a.text_md, {color: t.atoms.text.color}]} numberOfLines={showFullText ? undefined : 4}>
+              {entry.text}
+            </Text>
+          )}
         </View>
-      )}
+
+        {/* Symptoms */}
+        {entry.symptoms && entry.symptoms.length > 0 && (
+          <View style={[a.mb_sm]}>
+            <Text style={[a.text_sm, a.font_bold, a.mb_xs, {color: t.atoms.text.color}]}>
+              Symptoms ({entry.symptoms.length})
+            </Text>
+            <View style={[a.flex_row, a.flex_wrap, a.gap_xs]}>
+              {entry.symptoms.slice(0, 3).map((symptom, index) => (
+                <View
+                  key={index}
+                  style={[
+                    a.px_sm,
+                    a.py_xs,
+                    a.rounded_sm,
+                    {backgroundColor: '#fef3c7'},
+                  ]}>
+                  <Text style={[a.text_xs, {color: '#92400e'}]}>
+                    {symptom.category} ({symptom.severity}/10)
+                  </Text>
+                </View>
+              ))}
+              {entry.symptoms.length > 3 && (
+                <View
+                  style={[
+                    a.px_sm,
+                    a.py_xs,
+                    a.rounded_sm,
+                    {backgroundColor: '#e5e7eb'},
+                  ]}>
+                  <Text style={[a.text_xs, {color: '#6b7280'}]}>
+                    +{entry.symptoms.length - 3} more
+                  </Text>
+                </View>
+              )}
+            </View>
+          </View>
+        )}
+      </JournalTriggerWarningHider>
 
       {/* Sources */}
       {sources.length > 0 && (
@@ -0,0 +1,320 @@
+import {useCallback, useEffect, useState} from 'react'
+import {ActivityIndicator, StyleSheet, View} from 'react-native'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {JournalKeyUnavailableError} from '#/lib/journal-encryption'
+import {
+  getEvidenceType,
+  type JournalEvidenceFile,
+  MAX_EVIDENCE_ATTACHMENTS,
+} from '#/lib/journal-evidence'
+import {releaseEvidenceFile} from '#/lib/journal-evidence/file'
+import {
+  canPickEvidenceFiles,
+  captureEvidence,
+  pickEvidenceFiles,
+  pickEvidenceMedia,
+} from '#/lib/journal-evidence/picker'
+import {type JournalEvidenceAttachment} from '#/lib/journal-record'
+import {getImageDim} from '#/lib/media/manip'
+import {type PickerImage} from '#/lib/media/picker.shared'
+import {cleanError} from '#/lib/strings/errors'
+import {logger} from '#/logger'
+import {type ImageMeta} from '#/state/gallery'
+import {useUploadJournalEvidence} from '#/state/queries/journal-evidence'
+import {useSession} from '#/state/session'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {Camera_Stroke2_Corner0_Rounded as Camera} from '#/components/icons/Camera'
+import {Image_Stroke2_Corner0_Rounded as ImageIcon} from '#/components/icons/Image'
+import {Lock_Stroke2_Corner0_Rounded as Lock} from '#/components/icons/Lock'
+import {PageText_Stroke2_Corner0_Rounded as Document} from '#/components/icons/PageText'
+import {TimesLarge_Stroke2_Corner0_Rounded as Times} from '#/components/icons/Times'
+import {ImageRedactionEditor} from '#/components/ImageRedaction'
+import {JournalEvidenceThumbnail} from '#/components/JournalEvidenceViewer'
+import {Text} from '#/components/Typography'
+
+/**
+ * Attaches photos, video, audio and documents to a journal entry. Files are
+ * uploaded as soon as they're picked, so `evidence` only ever holds
+ * attachments that are already on the PDS. Photos go through the redaction
+ * editor first.
+ */
+export function JournalEvidencePicker({
+  evidence,
+  onChange,
+  isPrivate,
+}: {
+  evidence: JournalEvidenceAttachment[]
+  onChange: (evidence: JournalEvidenceAttachment[]) => void
+  isPrivate: boolean
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const {currentAccount} = useSession()
+  const uploadMutation = useUploadJournalEvidence()
+
+  const [encrypt, setEncrypt] = useState(isPrivate)
+  const [pending, setPending] = useState<JournalEvidenceFile[]>([])
+  const [redacting, setRedacting] = useState<{
+    file: JournalEvidenceFile
+    image: ImageMeta
+    resolve: (file: JournalEvidenceFile | undefined) => void
+  }>()
+
+  // follow the entry's privacy until the user picks for themselves
+  useEffect(() => {
+    setEncrypt(isPrivate)
+  }, [isPrivate])
+
+  const remaining = MAX_EVIDENCE_ATTACHMENTS - evidence.length - pending.length
+
+  const upload = useCallback(
+    async (files: JournalEvidenceFile[]) => {
+      if (files.length > remaining) {
+        Toast.show(
+          _(
+            msg`You can attach up to ${MAX_EVIDENCE_ATTACHMENTS} files to an entry.`,
+          ),
+          'xmark',
+        )
+      }
+      const accepted = files.slice(0, Math.max(remaining, 0))
+      setPending(current => [...current, ...accepted])
+
+      let uploaded = evidence
+      for (const file of accepted) {
+        try {
+          const attachment = await uploadMutation.mutateAsync({file, encrypt})
+          uploaded = [...uploaded, attachment]
+          onChange(uploaded)
+        } catch (e) {
+          Toast.show(
+            e instanceof JournalKeyUnavailableError
+              ? _(msg`Unlock your journal key to attach encrypted evidence.`)
+              : cleanError(e),
+            'xmark',
+          )
+        } finally {
+          setPending(current => current.filter(f => f !== file))
+          releaseEvidenceFile(file.uri).catch(() => {})
+        }
+      }
+    },
+    [remaining, evidence, encrypt, uploadMutation, onChange, _],
+  )
+
+  /**
+   * Opens the redaction editor for a photo
+   *
+   * @returns the file to upload, or undefined if the user dropped it
+   */
+  const redact = useCallback(async (file: JournalEvidenceFile) => {
+    const {width, height} = await getImageDim(file.uri)
+    return new Promise<JournalEvidenceFile | undefined>(resolve => {
+      setRedacting({
+        file,
+        image: {path: file.uri, width, height, mime: file.mimeType},
+        resolve,
+      })
+    })
+  }, [])
+
+  const onRedactDone = useCallback(
+    (redacted: PickerImage | undefined) => {
+      if (!redacting) return
+      const {file, resolve} = redacting
+      setRedacting(undefined)
+      if (!redacted) {
+        resolve(file)
+        return
+      }
+      releaseEvidenceFile(file.uri).catch(() => {})
+      resolve({
+        ...file,
+        uri: redacted.path,
+        mimeType: redacted.mime,
+        filename: file.filename.replace(/\.[^.]*$/, '') + '.jpg',
+        size: redacted.size,
+      })
+    },
+    [redacting],
+  )
+
+  const onRedactCancel = useCallback(() => {
+    if (!redacting) return
+    const {file, resolve} = redacting
+    setRedacting(undefined)
+    releaseEvidenceFile(file.uri).catch(() => {})
+    resolve(undefined)
+  }, [redacting])
+
+  const pick = useCallback(
+    async (picker: () => Promise<JournalEvidenceFile[]>) => {
+      try {
+        const files: JournalEvidenceFile[] = []
+        for (const file of await picker()) {
+          if (getEvidenceType(file.mimeType) === 'image') {
+            const redacted = await redact(file)
+            if (redacted) files.push(redacted)
+          } else {
+            files.push(file)
+          }
+        }
+        await upload(files)
+      } catch (e) {
+        logger.error('Failed to pick journal evidence', {message: String(e)})
+        Toast.show(cleanError(e), 'xmark')
+      }
+    },
+    [redact, upload],
+  )
+
+  const handleRemove = useCallback(
+    (index: number) => {
+      onChange(evidence.filter((_item, i) => i !== index))
+    },
+    [evidence, onChange],
+  )
+
+  return (
+    <View style={[a.gap_md]}>
+      <View style={[a.flex_row, a.flex_wrap, a.gap_sm]}>
+        <Button
+          variant="outline"
+          color="primary"
+          size="small"
+          onPress={() => pick(pickEvidenceMedia)}
+          disabled={remaining <= 0}
+          label={_(msg`Attach photos or videos`)}>
+          <ButtonIcon icon={ImageIcon} />
+          <ButtonText>
+            <Trans>Photo/video</Trans>
+          </ButtonText>
+        </Button>
+        <Button
+          variant="outline"
+          color="primary"
+          size="small"
+          onPress={() => pick(captureEvidence)}
+          disabled={remaining <= 0}
+          label={_(msg`Capture evidence with the camera`)}>
+          <ButtonIcon icon={Camera} />
+          <ButtonText>
+            <Trans>Camera</Trans>
+          </ButtonText>
+        </Button>
+        {canPickEvidenceFiles && (
+          <Button
+            variant="outline"
+            color="primary"
+            size="small"
+            onPress={() => pick(pickEvidenceFiles)}
+            disabled={remaining <= 0}
+            label={_(msg`Attach audio or documents`)}>
+            <ButtonIcon icon={Document} />
+            <ButtonText>
+              <Trans>Audio/document</Trans>
+            </ButtonText>
+          </Button>
+        )}
+      </View>
+
+      <Button
+        variant={encrypt ? 'solid' : 'outline'}
+        color="secondary"
+        size="small"
+        onPress={() => setEncrypt(!encrypt)}
+        disabled={pending.length > 0}
+        label={
+          encrypt
+            ? _(msg`Stop encrypting new attachments`)
+            : _(msg`Encrypt new attachments`)
+        }
+        style={a.self_start}>
+        <ButtonIcon icon={Lock} />
+        <ButtonText>
+          {encrypt ? (
+            <Trans>Encrypting attachments</Trans>
+          ) : (
+            <Trans>Encrypt attachments</Trans>
+          )}
+        </ButtonText>
+      </Button>
+      {!encrypt && (
+        <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+          <Trans>
+            Location and device details are removed from photos that aren't
+            encrypted.
+          </Trans>
+        </Text>
+      )}
+
+      {evidence.map((item, index) => (
+        <View key={item.uri} style={styles.row}>
+          {currentAccount && (
+            <JournalEvidenceThumbnail
+              authorDid={currentAccount.did}
+              evidence={item}
+            />
+          )}
+          <View style={a.flex_1}>
+            <Text style={[a.text_sm, a.font_bold]} numberOfLines={1}>
+              {item.filename}
+            </Text>
+            <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+              {item.size !== undefined
+                ? `${item.type.toUpperCase()} • ${(item.size / 1024).toFixed(1)}KB`
+                : item.type.toUpperCase()}
+            </Text>
+          </View>
+          <Button
+            variant="ghost"
+            color="secondary"
+            size="small"
+            shape="round"
+            onPress={() => handleRemove(index)}
+            label={_(msg`Remove ${item.filename}`)}>
+            <ButtonIcon icon={Times} />
+          </Button>
+        </View>
+      ))}
+
+      {pending.map(file => (
+        <View key={file.uri} style={styles.row}>
+          <ActivityIndicator color={t.palette.primary_500} />
+          <Text
+            style={[a.flex_1, a.text_sm, t.atoms.text_contrast_medium]}
+            numberOfLines={1}>
+            <Trans>Uploading {file.filename}…</Trans>
+          </Text>
+        </View>
+      ))}
+
+      <ImageRedactionEditor
+        image={redacting?.image}
+        onCancel={onRedactCancel}
+        onDone={onRedactDone}
+      />
+
+      <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+        {_(
+          msg`${plural(evidence.length, {
+            one: '# file',
+            other: '# files',
+          })} attached, up to ${MAX_EVIDENCE_ATTACHMENTS}`,
+        )}
+      </Text>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+})
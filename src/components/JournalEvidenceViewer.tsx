@@ -0,0 +1,322 @@
+import {useCallback} from 'react'
+import {
+  ActivityIndicator,
+  Linking,
+  Modal,
+  Platform,
+  StyleSheet,
+  View,
+} from 'react-native'
+import {Image} from 'expo-image'
+import * as Sharing from 'expo-sharing'
+import {useVideoPlayer, VideoView} from 'expo-video'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {
+  type JournalEvidenceAttachment,
+  type JournalEvidenceType,
+} from '#/lib/journal-record'
+import {cleanError} from '#/lib/strings/errors'
+import {
+  type JournalEvidenceUriState,
+  useJournalEvidenceUri,
+} from '#/state/queries/journal-evidence'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {Image_Stroke2_Corner0_Rounded as ImageIcon} from '#/components/icons/Image'
+import {Lock_Stroke2_Corner0_Rounded as Lock} from '#/components/icons/Lock'
+import {MusicNote_Stroke2_Corner0_Rounded as MusicNote} from '#/components/icons/MusicNote'
+import {PageText_Stroke2_Corner0_Rounded as Document} from '#/components/icons/PageText'
+import {VideoClip_Stroke2_Corner0_Rounded as VideoClip} from '#/components/icons/VideoClip'
+import {Text} from '#/components/Typography'
+
+const TYPE_ICONS: Record<JournalEvidenceType, typeof ImageIcon> = {
+  image: ImageIcon,
+  video: VideoClip,
+  audio: MusicNote,
+  document: Document,
+}
+
+/**
+ * A square preview of an evidence item: its thumbnail if it has one,
+ * otherwise an icon for its type
+ */
+export function JournalEvidenceThumbnail({
+  authorDid,
+  evidence,
+  size = 40,
+}: {
+  authorDid: string
+  evidence: JournalEvidenceAttachment
+  size?: number
+}) {
+  const t = useTheme()
+  const Icon = TYPE_ICONS[evidence.type] ?? Document
+
+  return (
+    <View
+      style={[
+        styles.thumbnail,
+        {width: size, height: size, backgroundColor: t.palette.contrast_100},
+      ]}>
+      {evidence.thumbnail ? (
+        <ThumbnailImage authorDid={authorDid} evidence={evidence} />
+      ) : (
+        <Icon size="sm" fill={t.palette.primary_600} />
+      )}
+      {evidence.encryptionKeyId && (
+        <View
+          style={[styles.lockBadge, {backgroundColor: t.palette.contrast_800}]}>
+          <Lock size="xs" fill={t.palette.white} />
+        </View>
+      )}
+    </View>
+  )
+}
+
+function ThumbnailImage({
+  authorDid,
+  evidence,
+}: {
+  authorDid: string
+  evidence: JournalEvidenceAttachment
+}) {
+  const t = useTheme()
+  const state = useJournalEvidenceUri(authorDid, evidence, 'thumbnail')
+
+  if (state.status !== 'ready') {
+    const Icon = TYPE_ICONS[evidence.type] ?? Document
+    return <Icon size="sm" fill={t.palette.contrast_500} />
+  }
+  return (
+    <Image
+      source={{uri: state.uri}}
+      style={StyleSheet.absoluteFill}
+      contentFit="cover"
+      accessibilityIgnoresInvertColors
+    />
+  )
+}
+
+/**
+ * Full-screen viewer for one evidence item. Images are shown, video and
+ * audio are played, and documents are handed to the system to open.
+ */
+export function JournalEvidenceViewer({
+  authorDid,
+  evidence,
+  visible,
+  onClose,
+}: {
+  authorDid: string
+  evidence?: JournalEvidenceAttachment
+  visible: boolean
+  onClose: () => void
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+
+  return (
+    <Modal
+      visible={visible && !!evidence}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View style={[a.flex_1, t.atoms.bg]}>
+        <View
+          style={[
+            a.flex_row,
+            a.align_center,
+            a.gap_md,
+            a.p_lg,
+            a.border_b,
+            t.atoms.border_contrast_low,
+          ]}>
+          <View style={a.flex_1}>
+            <Text style={[a.text_lg, a.font_bold]} numberOfLines={1}>
+              {evidence?.filename}
+            </Text>
+            {evidence?.capturedAt && (
+              <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+                <Trans>
+                  Captured {new Date(evidence.capturedAt).toLocaleString()}
+                </Trans>
+              </Text>
+            )}
+          </View>
+          <Button
+            variant="ghost"
+            color="primary"
+            size="small"
+            onPress={onClose}
+            label={_(msg`Close evidence viewer`)}>
+            <ButtonText>
+              <Trans>Done</Trans>
+            </ButtonText>
+          </Button>
+        </View>
+
+        {evidence && (
+          <EvidenceContent authorDid={authorDid} evidence={evidence} />
+        )}
+
+        {evidence?.description && (
+          <View style={[a.p_lg, a.border_t, t.atoms.border_contrast_low]}>
+            <Text style={[a.text_md]}>{evidence.description}</Text>
+          </View>
+        )}
+      </View>
+    </Modal>
+  )
+}
+
+function EvidenceContent({
+  authorDid,
+  evidence,
+}: {
+  authorDid: string
+  evidence: JournalEvidenceAttachment
+}) {
+  const state = useJournalEvidenceUri(authorDid, evidence)
+
+  if (state.status !== 'ready') {
+    return <EvidenceStatus state={state} />
+  }
+  switch (evidence.type) {
+    case 'image':
+      return (
+        <Image
+          source={{uri: state.uri}}
+          style={a.flex_1}
+          contentFit="contain"
+          accessibilityLabel={evidence.description || evidence.filename}
+          accessibilityHint=""
+          accessibilityIgnoresInvertColors
+        />
+      )
+    case 'video':
+    case 'audio':
+      return <MediaPlayer uri={state.uri} type={evidence.type} />
+    default:
+      return <DocumentOpener uri={state.uri} evidence={evidence} />
+  }
+}
+
+function EvidenceStatus({state}: {state: JournalEvidenceUriState}) {
+  const t = useTheme()
+
+  return (
+    <View style={[a.flex_1, a.align_center, a.justify_center, a.p_xl]}>
+      {state.status === 'loading' ? (
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      ) : (
+        <Text style={[a.text_md, a.text_center, t.atoms.text_contrast_medium]}>
+          {state.status === 'locked' ? (
+            <Trans>
+              This evidence is encrypted. Unlock your journal key to view it.
+            </Trans>
+          ) : (
+            <Trans>This evidence could not be loaded.</Trans>
+          )}
+        </Text>
+      )}
+    </View>
+  )
+}
+
+function MediaPlayer({uri, type}: {uri: string; type: 'video' | 'audio'}) {
+  const t = useTheme()
+  const player = useVideoPlayer(uri)
+
+  return (
+    <View style={[a.flex_1, a.justify_center]}>
+      {type === 'audio' && (
+        <View style={[a.align_center, a.pb_lg]}>
+          <MusicNote size="2xl" fill={t.palette.contrast_500} />
+        </View>
+      )}
+      <VideoView
+        player={player}
+        style={type === 'video' ? a.flex_1 : styles.audioControls}
+        contentFit="contain"
+        nativeControls
+      />
+    </View>
+  )
+}
+
+function DocumentOpener({
+  uri,
+  evidence,
+}: {
+  uri: string
+  evidence: JournalEvidenceAttachment
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+
+  const handleOpen = useCallback(async () => {
+    try {
+      if (Platform.OS === 'web') {
+        window.open(uri, '_blank', 'noopener')
+      } else if (/^https?:/.test(uri)) {
+        await Linking.openURL(uri)
+      } else {
+        await Sharing.shareAsync(uri, {
+          mimeType: evidence.mimeType,
+          dialogTitle: evidence.filename,
+        })
+      }
+    } catch (e) {
+      Toast.show(cleanError(e), 'xmark')
+    }
+  }, [uri, evidence])
+
+  return (
+    <View
+      style={[a.flex_1, a.align_center, a.justify_center, a.gap_md, a.p_xl]}>
+      <Document size="2xl" fill={t.palette.contrast_500} />
+      <Text style={[a.text_md, a.font_bold, a.text_center]}>
+        {evidence.filename}
+      </Text>
+      {evidence.size !== undefined && (
+        <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+          {(evidence.size / 1024).toFixed(1)} KB
+        </Text>
+      )}
+      <Button
+        variant="solid"
+        color="primary"
+        size="large"
+        onPress={handleOpen}
+        label={_(msg`Open ${evidence.filename}`)}>
+        <ButtonIcon icon={Document} />
+        <ButtonText>
+          <Trans>Open document</Trans>
+        </ButtonText>
+      </Button>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  thumbnail: {
+    borderRadius: 8,
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  lockBadge: {
+    position: 'absolute',
+    right: 2,
+    bottom: 2,
+    borderRadius: 8,
+    padding: 2,
+  },
+  audioControls: {
+    height: 64,
+    marginHorizontal: 16,
+  },
+})
@@ -0,0 +1,188 @@
+import {useState} from 'react'
+import {ActivityIndicator, View} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {cleanError} from '#/lib/strings/errors'
+import {
+  type JournalEntryVerification,
+  useJournalEntryVerification,
+} from '#/state/queries/journal-integrity'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {CircleCheck_Stroke2_Corner0_Rounded as CircleCheck} from '#/components/icons/CircleCheck'
+import {CircleInfo_Stroke2_Corner0_Rounded as CircleInfo} from '#/components/icons/CircleInfo'
+import {CircleX_Stroke2_Corner0_Rounded as CircleX} from '#/components/icons/CircleX'
+import {ShieldCheck_Stroke2_Corner0_Rounded as ShieldCheck} from '#/components/icons/Shield'
+import {Text} from '#/components/Typography'
+
+type Tone = 'positive' | 'warning' | 'negative'
+
+/**
+ * Re-hashes a journal entry and its evidence files and compares them with
+ * the hashes recorded when the entry was written
+ */
+export function JournalIntegrityCheck({entryUri}: {entryUri: string}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const [requested, setRequested] = useState(false)
+  const {data, error, isFetching, refetch} = useJournalEntryVerification(
+    entryUri,
+    {enabled: requested},
+  )
+
+  return (
+    <View style={[a.gap_sm]}>
+      <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+        <Trans>
+          Each entry is hashed when it's written and linked to your previous
+          entry, so later changes can be detected.
+        </Trans>
+      </Text>
+
+      {isFetching ? (
+        <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+          <ActivityIndicator size="small" color={t.palette.primary_500} />
+          <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+            <Trans>Verifying...</Trans>
+          </Text>
+        </View>
+      ) : error ? (
+        <Result tone="negative" text={cleanError(error)} />
+      ) : data ? (
+        <VerificationResult verification={data} />
+      ) : null}
+
+      {!isFetching && (
+        <Button
+          variant="outline"
+          color="primary"
+          size="small"
+          onPress={() => (requested ? refetch() : setRequested(true))}
+          label={_(msg`Verify entry integrity`)}>
+          <ButtonIcon icon={ShieldCheck} />
+          <ButtonText>
+            {data ? <Trans>Verify again</Trans> : <Trans>Verify</Trans>}
+          </ButtonText>
+        </Button>
+      )}
+    </View>
+  )
+}
+
+function VerificationResult({
+  verification,
+}: {
+  verification: JournalEntryVerification
+}) {
+  const {_} = useLingui()
+  const {status, chainHashValid, chainBreak, integrity, evidence} = verification
+
+  if (status === 'unrecorded') {
+    return (
+      <Result
+        tone="warning"
+        text={_(
+          msg`This entry was written before integrity tracking, so it can't be verified.`,
+        )}
+      />
+    )
+  }
+
+  return (
+    <View style={[a.gap_xs]}>
+      {status === 'intact' && (
+        <Result
+          tone="positive"
+          text={_(msg`Unchanged since it was written.`)}
+        />
+      )}
+      {status === 'amended' && (
+        <Result
+          tone="warning"
+          text={_(
+            msg`Edited on ${new Date(
+              integrity!.amendedAt!,
+            ).toLocaleString()}. The edit was recorded.`,
+          )}
+        />
+      )}
+      {status === 'modified' && (
+        <Result
+          tone="negative"
+          text={_(msg`This entry no longer matches its recorded hash.`)}
+        />
+      )}
+      {!chainHashValid ? (
+        <Result
+          tone="negative"
+          text={_(msg`The entry's integrity record has been altered.`)}
+        />
+      ) : chainBreak === 'missing_predecessor' ? (
+        <Result
+          tone="negative"
+          text={_(
+            msg`The entry written before this one is missing from your journal.`,
+          )}
+        />
+      ) : chainBreak === 'fork' ? (
+        <Result
+          tone="warning"
+          text={_(
+            msg`Another entry claims the same place in your journal. This can happen if two devices wrote at the same time while offline.`,
+          )}
+        />
+      ) : (
+        <Result
+          tone="positive"
+          text={_(msg`Entry #${integrity!.seq + 1} in an unbroken chain.`)}
+        />
+      )}
+      {evidence.map(item => (
+        <Result
+          key={item.uri}
+          tone={
+            item.status === 'match'
+              ? 'positive'
+              : item.status === 'mismatch'
+                ? 'negative'
+                : 'warning'
+          }
+          text={
+            item.status === 'match'
+              ? _(msg`Evidence file matches: ${getFilename(item.uri)}`)
+              : item.status === 'mismatch'
+                ? _(msg`Evidence file has changed: ${getFilename(item.uri)}`)
+                : _(msg`Evidence file unavailable: ${getFilename(item.uri)}`)
+          }
+        />
+      ))}
+    </View>
+  )
+}
+
+function Result({tone, text}: {tone: Tone; text: string}) {
+  const t = useTheme()
+  const color =
+    tone === 'positive'
+      ? t.palette.positive_600
+      : tone === 'negative'
+        ? t.palette.negative_600
+        : t.palette.contrast_600
+  const Icon =
+    tone === 'positive'
+      ? CircleCheck
+      : tone === 'negative'
+        ? CircleX
+        : CircleInfo
+  return (
+    <View style={[a.flex_row, a.align_start, a.gap_sm]}>
+      <Icon size="sm" fill={color} />
+      <Text style={[a.flex_1, a.text_sm, {color}]}>{text}</Text>
+    </View>
+  )
+}
+
+function getFilename(uri: string) {
+  return decodeURIComponent(uri.split('/').pop() || uri)
+}
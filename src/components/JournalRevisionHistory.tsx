@@ -0,0 +1,195 @@
+import {useMemo, useState} from 'react'
+import {ActivityIndicator, View} from 'react-native'
+import {type MessageDescriptor} from '@lingui/core'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {
+  diffJournalText,
+  getChangedJournalFields,
+  getRevisionSavedAt,
+  type JournalRevisionField,
+} from '#/lib/journal-revisions'
+import {type JournalRecordView} from '#/state/queries/journal-repository'
+import {useJournalRevisionsQuery} from '#/state/queries/journal-revisions'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonText} from '#/components/Button'
+import {Text} from '#/components/Typography'
+
+const FIELD_LABELS: Record<JournalRevisionField, MessageDescriptor> = {
+  entryType: msg`entry type`,
+  incidentTimestamp: msg`incident time`,
+  location: msg`location`,
+  symptoms: msg`symptoms`,
+  tags: msg`tags`,
+  triggerWarnings: msg`content warnings`,
+  sourceIds: msg`sources`,
+  evidenceAttachments: msg`evidence`,
+  privacyLevel: msg`visibility`,
+}
+
+/**
+ * Lists the edits made to an entry, newest first. Each edit can be expanded
+ * to show what it changed compared with the version before it.
+ */
+export function JournalRevisionHistory({entry}: {entry: JournalRecordView}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const {data: revisions, isLoading} = useJournalRevisionsQuery(entry.uri)
+
+  // every version, oldest first, ending with the current one
+  const versions = useMemo(
+    () => [...(revisions ?? []).map(revision => revision.version), entry],
+    [revisions, entry],
+  )
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={t.palette.primary_500} />
+  }
+  if (versions.length < 2) return null
+
+  const edits = versions.slice(1).map((version, i) => ({
+    before: versions[i],
+    after: version,
+    number: i + 1,
+  }))
+
+  return (
+    <View style={[a.gap_sm]}>
+      <Text style={[a.text_sm, a.font_bold, t.atoms.text_contrast_high]}>
+        {_(
+          msg`Edited ${plural(edits.length, {one: '# time', other: '# times'})}`,
+        )}
+      </Text>
+      {edits.reverse().map(edit => (
+        <RevisionDiff
+          key={edit.after.cid}
+          number={edit.number}
+          before={edit.before}
+          after={edit.after}
+        />
+      ))}
+    </View>
+  )
+}
+
+function RevisionDiff({
+  number,
+  before,
+  after,
+}: {
+  number: number
+  before: JournalRecordView
+  after: JournalRecordView
+}) {
+  const {_, i18n} = useLingui()
+  const t = useTheme()
+  const [expanded, setExpanded] = useState(false)
+  const isLocked = before.isLocked || after.isLocked
+  const savedAt = i18n.date(new Date(getRevisionSavedAt(after)), {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+
+  return (
+    <View
+      style={[
+        a.p_sm,
+        a.rounded_sm,
+        a.border,
+        a.gap_xs,
+        t.atoms.border_contrast_low,
+      ]}>
+      <View style={[a.flex_row, a.align_center, a.justify_between, a.gap_sm]}>
+        <Text style={[a.flex_1, a.text_sm, t.atoms.text_contrast_medium]}>
+          <Trans>
+            Edit {number} · {savedAt}
+          </Trans>
+        </Text>
+        {!isLocked && (
+          <Button
+            variant="ghost"
+            color="primary"
+            size="tiny"
+            onPress={() => setExpanded(!expanded)}
+            label={
+              expanded
+                ? _(msg`Hide changes`)
+                : _(msg`Show what this edit changed`)
+            }>
+            <ButtonText>
+              {expanded ? <Trans>Hide</Trans> : <Trans>Show changes</Trans>}
+            </ButtonText>
+          </Button>
+        )}
+      </View>
+      {isLocked ? (
+        <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+          <Trans>Unlock your journal key to see what this edit changed.</Trans>
+        </Text>
+      ) : (
+        expanded && <RevisionChanges before={before} after={after} />
+      )}
+    </View>
+  )
+}
+
+function RevisionChanges({
+  before,
+  after,
+}: {
+  before: JournalRecordView
+  after: JournalRecordView
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const parts = useMemo(
+    () => diffJournalText(before.text ?? '', after.text ?? ''),
+    [before.text, after.text],
+  )
+  const fields = useMemo(
+    () => getChangedJournalFields(before, after),
+    [before, after],
+  )
+  const textChanged = parts.some(part => part.type !== 'equal')
+
+  return (
+    <View style={[a.gap_xs]}>
+      {textChanged ? (
+        <Text style={[a.text_sm, a.leading_snug]}>
+          {parts.map((part, i) =>
+            part.type === 'equal' ? (
+              part.text
+            ) : (
+              <Text
+                key={i}
+                style={[
+                  a.text_sm,
+                  part.type === 'added'
+                    ? {backgroundColor: t.palette.positive_100}
+                    : {
+                        backgroundColor: t.palette.negative_100,
+                        textDecorationLine: 'line-through',
+                      },
+                ]}>
+                {part.text}
+              </Text>
+            ),
+          )}
+        </Text>
+      ) : (
+        <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+          <Trans>The text wasn't changed.</Trans>
+        </Text>
+      )}
+      {fields.length > 0 && (
+        <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+          <Trans>
+            Also changed:{' '}
+            {fields.map(field => _(FIELD_LABELS[field])).join(', ')}
+          </Trans>
+        </Text>
+      )}
+    </View>
+  )
+}
@@ -0,0 +1,172 @@
+import {useState} from 'react'
+import {ActivityIndicator, View} from 'react-native'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {cleanError} from '#/lib/strings/errors'
+import {
+  discardJournalWrite,
+  retryJournalWrite,
+  useJournalOutbox,
+  useJournalSyncStatus,
+  useReplayJournalOutbox,
+} from '#/state/queries/journal-outbox'
+import {useSession} from '#/state/session'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {ArrowRotateCounterClockwise_Stroke2_Corner0_Rounded as Retry} from '#/components/icons/ArrowRotateCounterClockwise'
+import {Clock_Stroke2_Corner0_Rounded as Clock} from '#/components/icons/Clock'
+import {Warning_Stroke2_Corner0_Rounded as Warning} from '#/components/icons/Warning'
+import {Text} from '#/components/Typography'
+
+/**
+ * Shows journal writes that are waiting in the offline outbox, and lets the
+ * user sync them now or resolve ones the server rejected. Renders nothing
+ * when everything is in sync.
+ */
+export function JournalSyncStatus() {
+  const {_} = useLingui()
+  const t = useTheme()
+  const {currentAccount} = useSession()
+  const status = useJournalSyncStatus()
+  const outbox = useJournalOutbox()
+  const {mutate: replay} = useReplayJournalOutbox()
+  const [showConflicts, setShowConflicts] = useState(false)
+
+  if (!status.pendingChanges && !status.conflicts && status.isOnline) {
+    return null
+  }
+
+  const did = currentAccount?.did ?? ''
+  const conflicts = outbox.filter(op => op.conflict)
+
+  return (
+    <View
+      style={[
+        a.px_lg,
+        a.py_sm,
+        a.gap_sm,
+        a.border_b,
+        t.atoms.border_contrast_low,
+        t.atoms.bg_contrast_25,
+      ]}>
+      {(!status.isOnline || status.isSyncing || status.pendingChanges > 0) && (
+        <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+          {status.isSyncing ? (
+            <ActivityIndicator size="small" color={t.palette.primary_500} />
+          ) : (
+            <Clock size="sm" fill={t.palette.contrast_600} />
+          )}
+          <Text style={[a.flex_1, a.text_sm, t.atoms.text_contrast_medium]}>
+            {!status.isOnline
+              ? _(
+                  msg`Offline. ${plural(status.pendingChanges, {
+                    one: '# change',
+                    other: '# changes',
+                  })} saved on this device.`,
+                )
+              : status.isSyncing
+                ? _(msg`Syncing journal...`)
+                : _(
+                    msg`${plural(status.pendingChanges, {
+                      one: '# change',
+                      other: '# changes',
+                    })} waiting to sync`,
+                  )}
+          </Text>
+          {status.isOnline && !status.isSyncing && (
+            <Button
+              variant="ghost"
+              color="primary"
+              size="tiny"
+              onPress={() => replay()}
+              label={_(msg`Sync now`)}>
+              <ButtonText>
+                <Trans>Sync now</Trans>
+              </ButtonText>
+            </Button>
+          )}
+        </View>
+      )}
+
+      {conflicts.length > 0 && (
+        <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+          <Warning size="sm" fill={t.palette.negative_500} />
+          <Text style={[a.flex_1, a.text_sm, {color: t.palette.negative_600}]}>
+            {_(
+              msg`${plural(conflicts.length, {
+                one: '# change',
+                other: '# changes',
+              })} could not be synced`,
+            )}
+          </Text>
+          <Button
+            variant="ghost"
+            color="secondary"
+            size="tiny"
+            onPress={() => setShowConflicts(v => !v)}
+            label={showConflicts ? _(msg`Hide`) : _(msg`Review`)}>
+            <ButtonText>
+              {showConflicts ? <Trans>Hide</Trans> : <Trans>Review</Trans>}
+            </ButtonText>
+          </Button>
+        </View>
+      )}
+
+      {showConflicts &&
+        conflicts.map(op => (
+          <View
+            key={op.id}
+            style={[
+              a.p_sm,
+              a.gap_xs,
+              a.rounded_sm,
+              a.border,
+              t.atoms.border_contrast_low,
+              t.atoms.bg,
+            ]}>
+            <Text style={[a.text_sm, a.font_bold]}>
+              {op.action === 'create'
+                ? _(msg`New entry`)
+                : op.action === 'update'
+                  ? _(msg`Edit to an entry`)
+                  : _(msg`Deleted entry`)}
+              {' · '}
+              {new Date(op.queuedAt).toLocaleString()}
+            </Text>
+            {op.error && (
+              <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+                {cleanError(op.error)}
+              </Text>
+            )}
+            <View style={[a.flex_row, a.justify_end, a.gap_sm]}>
+              <Button
+                variant="ghost"
+                color="negative"
+                size="tiny"
+                onPress={() => discardJournalWrite(did, op.id)}
+                label={_(msg`Discard change`)}>
+                <ButtonText>
+                  <Trans>Discard</Trans>
+                </ButtonText>
+              </Button>
+              <Button
+                variant="outline"
+                color="primary"
+                size="tiny"
+                onPress={() => {
+                  retryJournalWrite(did, op.id)
+                  replay()
+                }}
+                label={_(msg`Retry change`)}>
+                <ButtonIcon icon={Retry} />
+                <ButtonText>
+                  <Trans>Retry</Trans>
+                </ButtonText>
+              </Button>
+            </View>
+          </View>
+        ))}
+    </View>
+  )
+}
@@ -0,0 +1,313 @@
+import {useCallback, useState} from 'react'
+import {ActivityIndicator, Alert, TextInput, View} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {sanitizeDisplayName} from '#/lib/strings/display-names'
+import {cleanError} from '#/lib/strings/errors'
+import {sanitizeHandle} from '#/lib/strings/handles'
+import {
+  type JournalWitnessStatus,
+  type JournalWitnessView,
+} from '#/state/queries/journal/types'
+import {
+  type JournalWitnessSubject,
+  MAX_JOURNAL_WITNESS_STATEMENT_LENGTH,
+  useCreateJournalWitness,
+  useDeleteJournalWitness,
+  useJournalWitnesses,
+  useReviewJournalWitness,
+} from '#/state/queries/journal/witnesses'
+import {useSession} from '#/state/session'
+import {TimeElapsed} from '#/view/com/util/TimeElapsed'
+import * as Toast from '#/view/com/util/Toast'
+import {UserAvatar} from '#/view/com/util/UserAvatar'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonText} from '#/components/Button'
+import {Text} from '#/components/Typography'
+
+/**
+ * Attestations from people who saw what an entry describes. Other viewers
+ * can add their own, and the author can accept or hide them.
+ */
+export function JournalWitnesses({entry}: {entry: JournalWitnessSubject}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const {currentAccount} = useSession()
+  const {data: witnesses, isLoading, error} = useJournalWitnesses(entry)
+  const createWitness = useCreateJournalWitness()
+  const [statement, setStatement] = useState('')
+
+  const isAuthor = entry.author.did === currentAccount?.did
+  // a witness can confirm again once the entry has been edited
+  const hasConfirmedThisVersion = !!witnesses?.some(
+    witness =>
+      witness.author.did === currentAccount?.did && !witness.isOutdated,
+  )
+
+  const onConfirm = useCallback(() => {
+    createWitness.mutate(
+      {entry, statement},
+      {
+        onSuccess: () => {
+          setStatement('')
+          Toast.show(_(msg`Thank you for confirming this entry`))
+        },
+        onError: e => Toast.show(cleanError(e), 'xmark'),
+      },
+    )
+  }, [createWitness, entry, statement, _])
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={t.palette.primary_500} />
+  }
+
+  if (error || !witnesses) {
+    return (
+      <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+        {error ? cleanError(error) : _(msg`Could not load witnesses.`)}
+      </Text>
+    )
+  }
+
+  return (
+    <View style={[a.gap_md]}>
+      {witnesses.length === 0 ? (
+        <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+          {isAuthor ? (
+            <Trans>
+              No one has confirmed this entry yet. People who can see it can add
+              a statement if they witnessed what happened.
+            </Trans>
+          ) : (
+            <Trans>No one has confirmed this entry yet.</Trans>
+          )}
+        </Text>
+      ) : (
+        <View style={[a.gap_sm]}>
+          {witnesses.map(witness => (
+            <Attestation
+              key={witness.uri}
+              entry={entry}
+              witness={witness}
+              isAuthor={isAuthor}
+            />
+          ))}
+        </View>
+      )}
+
+      {!isAuthor && !hasConfirmedThisVersion && (
+        <View style={[a.gap_sm]}>
+          <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+            <Trans>
+              Were you there? Confirm what you saw. Your statement is tied to
+              this version of the entry, and the author chooses whether to show
+              it.
+            </Trans>
+          </Text>
+          <TextInput
+            value={statement}
+            onChangeText={setStatement}
+            placeholder={_(msg`What did you witness?`)}
+            placeholderTextColor={t.palette.contrast_400}
+            maxLength={MAX_JOURNAL_WITNESS_STATEMENT_LENGTH}
+            multiline
+            style={[
+              a.p_sm,
+              a.rounded_sm,
+              a.border,
+              a.text_md,
+              {
+                minHeight: 64,
+                color: t.palette.contrast_800,
+                borderColor: t.palette.contrast_200,
+              },
+            ]}
+            accessibilityLabel={_(msg`Witness statement`)}
+            accessibilityHint=""
+          />
+          <View style={[a.flex_row, a.justify_end]}>
+            <Button
+              variant="solid"
+              color="primary"
+              size="small"
+              onPress={onConfirm}
+              disabled={!statement.trim() || createWitness.isPending}
+              label={_(msg`Confirm as a witness`)}>
+              <ButtonText>
+                <Trans>I witnessed this</Trans>
+              </ButtonText>
+            </Button>
+          </View>
+        </View>
+      )}
+    </View>
+  )
+}
+
+function Attestation({
+  entry,
+  witness,
+  isAuthor,
+}: {
+  entry: JournalWitnessSubject
+  witness: JournalWitnessView
+  isAuthor: boolean
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const {currentAccount} = useSession()
+  const reviewWitness = useReviewJournalWitness()
+  const deleteWitness = useDeleteJournalWitness()
+  const isOwn = witness.author.did === currentAccount?.did
+
+  const onReview = useCallback(
+    (status: JournalWitnessStatus) => {
+      reviewWitness.mutate(
+        {entry, witness, status},
+        {onError: e => Toast.show(cleanError(e), 'xmark')},
+      )
+    },
+    [reviewWitness, entry, witness],
+  )
+
+  const onWithdraw = useCallback(() => {
+    Alert.alert(
+      _(msg`Withdraw Statement`),
+      _(msg`Your statement will be removed from this entry.`),
+      [
+        {text: _(msg`Cancel`), style: 'cancel'},
+        {
+          text: _(msg`Withdraw`),
+          style: 'destructive',
+          onPress: () =>
+            deleteWitness.mutate(
+              {entryUri: entry.uri, witness},
+              {onError: e => Toast.show(cleanError(e), 'xmark')},
+            ),
+        },
+      ],
+    )
+  }, [deleteWitness, entry.uri, witness, _])
+
+  return (
+    <View
+      style={[
+        a.p_sm,
+        a.rounded_sm,
+        a.border,
+        a.gap_xs,
+        t.atoms.border_contrast_low,
+        (witness.isOutdated || witness.status === 'hidden') && {opacity: 0.6},
+      ]}>
+      <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+        <UserAvatar type="user" size={32} avatar={witness.author.avatar} />
+        <View style={[a.flex_1]}>
+          <Text style={[a.text_sm, a.font_bold]} numberOfLines={1}>
+            {sanitizeDisplayName(
+              witness.author.displayName ||
+                sanitizeHandle(witness.author.handle),
+            )}
+          </Text>
+          <Text
+            style={[a.text_xs, t.atoms.text_contrast_medium]}
+            numberOfLines={1}>
+            {sanitizeHandle(witness.author.handle, '@')}
+          </Text>
+        </View>
+        <TimeElapsed timestamp={witness.createdAt}>
+          {({timeElapsed}) => (
+            <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+              {timeElapsed}
+            </Text>
+          )}
+        </TimeElapsed>
+      </View>
+      <Text
+        style={[
+          a.text_sm,
+          witness.isOutdated && {textDecorationLine: 'line-through'},
+        ]}>
+        {witness.statement}
+      </Text>
+      {witness.isOutdated && (
+        <Text style={[a.text_xs, {color: t.palette.negative_500}]}>
+          <Trans>
+            No longer valid: the entry was edited after this was written.
+          </Trans>
+        </Text>
+      )}
+      {(isAuthor || isOwn) && witness.status !== 'accepted' && (
+        <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+          {witness.status === 'hidden' ? (
+            <Trans>Hidden by the author</Trans>
+          ) : (
+            <Trans>Waiting for the author to accept</Trans>
+          )}
+        </Text>
+      )}
+      <View style={[a.flex_row, a.gap_xs]}>
+        {isAuthor &&
+          (witness.status === 'pending' ? (
+            <>
+              <Button
+                variant="ghost"
+                color="primary"
+                size="tiny"
+                onPress={() => onReview('accepted')}
+                disabled={reviewWitness.isPending}
+                label={_(msg`Accept statement`)}>
+                <ButtonText>
+                  <Trans>Accept</Trans>
+                </ButtonText>
+              </Button>
+              <Button
+                variant="ghost"
+                color="secondary"
+                size="tiny"
+                onPress={() => onReview('hidden')}
+                disabled={reviewWitness.isPending}
+                label={_(msg`Hide statement`)}>
+                <ButtonText>
+                  <Trans>Hide</Trans>
+                </ButtonText>
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="ghost"
+              color="secondary"
+              size="tiny"
+              onPress={() => onReview('pending')}
+              disabled={reviewWitness.isPending}
+              label={
+                witness.status === 'hidden'
+                  ? _(msg`Unhide statement`)
+                  : _(msg`Stop showing statement`)
+              }>
+              <ButtonText>
+                {witness.status === 'hidden' ? (
+                  <Trans>Unhide</Trans>
+                ) : (
+                  <Trans>Undo accept</Trans>
+                )}
+              </ButtonText>
+            </Button>
+          ))}
+        {isOwn && (
+          <Button
+            variant="ghost"
+            color="secondary"
+            size="tiny"
+            onPress={onWithdraw}
+            disabled={deleteWitness.isPending}
+            label={_(msg`Withdraw statement`)}>
+            <ButtonText>
+              <Trans>Withdraw</Trans>
+            </ButtonText>
+          </Button>
+        )}
+      </View>
+    </View>
+  )
+}
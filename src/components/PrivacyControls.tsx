@@ -8,11 +8,33 @@ import {Button, ButtonText} from '#/components/Button'
 import {Text} from '#/components/Typography'
 import {Lock_Stroke2_Corner0_Rounded as Lock} from '#/components/icons/Lock'
 import {Globe_Stroke2_Corner0_Rounded as Globe} from '#/components/icons/Globe'
-import {Group3_Stroke2_Corner0_Rounded as PersonGroup} from '#/components/icons/Group'
 import {Shield_Stroke2_Corner0_Rounded as Shield} from '#/components/icons/Shield'
 import {useDialog, Dialog} from '#/components/Dialog'
+import {type JournalPrivacyLevel} from '#/state/queries/journal/types'
 
-export type VisibilityLevel = 'private' | 'contacts' | 'community' | 'public'
+export type VisibilityLevel = 'private' | 'community' | 'public'
+
+/**
+ * Maps a stored privacy level onto the options this control offers.
+ * Contacts-only entries are sealed with the author's own key, so nobody else
+ * can read them and they're shown as private.
+ */
+export function getVisibilityLevel(privacyLevel: JournalPrivacyLevel): VisibilityLevel {
+  switch (privacyLevel) {
+    case 'contacts':
+      return 'private'
+    case 'badge_community':
+      return 'community'
+    case 'anonymous':
+      return 'public'
+    default:
+      return privacyLevel
+  }
+}
+
+export function getPrivacyLevel(visibility: VisibilityLevel): JournalPrivacyLevel {
+  return visibility === 'community' ? 'badge_community' : visibility
+}
 
 interface VisibilityOption {
   value: VisibilityLevel
@@ -52,13 +74,6 @@ export function PrivacyControls({
       color: t.palette.contrast_600,
       recommended: true,
     },
-    {
-      value: 'contacts',
-      label: _(msg`Contacts Only`),
-      description: _(msg`Only people you follow can see this entry. Good for trusted connections.`),
-      icon: <PersonGroup size="sm" fill={t.palette.primary_600} />,
-      color: t.palette.primary_600,
-    },
     {
       value: 'community',
       label: _(msg`Badge Community`),
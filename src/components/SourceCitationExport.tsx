@@ -0,0 +1,145 @@
+import {useCallback, useMemo, useState} from 'react'
+import {View} from 'react-native'
+import * as Clipboard from 'expo-clipboard'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {shareJournalExport} from '#/lib/journal-export/share'
+import {
+  CITATION_FORMATS,
+  type CitationFormat,
+  type CitationItem,
+  formatBibliography,
+} from '#/lib/source-citations'
+import {cleanError} from '#/lib/strings/errors'
+import {logger} from '#/logger'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import {Text} from '#/components/Typography'
+
+interface SourceCitationExportDialogProps {
+  control: Dialog.DialogControlProps
+  items: CitationItem[]
+}
+
+/**
+ * Shows sources as a bibliography in a choice of formats, to copy or save
+ * as a file that reference managers can import.
+ */
+export function SourceCitationExportDialog({
+  control,
+  items,
+}: SourceCitationExportDialogProps) {
+  return (
+    <Dialog.Outer control={control}>
+      <Dialog.Handle />
+      <SourceCitationExportInner items={items} />
+    </Dialog.Outer>
+  )
+}
+
+function SourceCitationExportInner({items}: {items: CitationItem[]}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const [format, setFormat] = useState<CitationFormat>('apa')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const content = useMemo(
+    () => formatBibliography(items, format),
+    [items, format],
+  )
+
+  const onCopy = useCallback(async () => {
+    await Clipboard.setStringAsync(content)
+    Toast.show(_(msg`Copied to clipboard`), 'clipboard-check')
+  }, [content, _])
+
+  const onSave = useCallback(async () => {
+    const {extension} = CITATION_FORMATS[format]
+    const date = new Date().toISOString().slice(0, 10)
+    setIsSaving(true)
+    try {
+      await shareJournalExport({
+        filename: `citations-${date}.${extension}`,
+        format: extension,
+        content,
+      })
+    } catch (e) {
+      logger.error('Failed to save citations', {message: cleanError(e)})
+      Toast.show(cleanError(e), 'xmark')
+    } finally {
+      setIsSaving(false)
+    }
+  }, [format, content])
+
+  return (
+    <Dialog.ScrollableInner
+      label={_(msg`Export citations`)}
+      style={[a.w_full, {maxWidth: 600}]}>
+      <View style={[a.gap_md]}>
+        <View>
+          <Text style={[a.text_xl, a.font_bold]}>
+            <Trans>Export citations</Trans>
+          </Text>
+          <Text style={[a.text_sm, a.mt_xs, {color: t.palette.contrast_600}]}>
+            {_(
+              msg`${plural(items.length, {one: '# source', other: '# sources'})}. Quoted passages and page numbers are included, your notes are not.`,
+            )}
+          </Text>
+        </View>
+
+        <View style={[a.flex_row, a.flex_wrap, a.gap_sm]}>
+          {(Object.keys(CITATION_FORMATS) as CitationFormat[]).map(key => (
+            <Button
+              key={key}
+              variant={format === key ? 'solid' : 'outline'}
+              color="primary"
+              size="small"
+              onPress={() => setFormat(key)}
+              label={_(msg`Format as ${CITATION_FORMATS[key].label}`)}>
+              <ButtonText>{CITATION_FORMATS[key].label}</ButtonText>
+            </Button>
+          ))}
+        </View>
+
+        <Text
+          selectable
+          style={[
+            a.text_sm,
+            a.p_md,
+            a.rounded_sm,
+            {backgroundColor: t.palette.contrast_50},
+          ]}>
+          {content}
+        </Text>
+
+        <View style={[a.flex_row, a.gap_sm]}>
+          <Button
+            variant="solid"
+            color="primary"
+            size="small"
+            onPress={onCopy}
+            label={_(msg`Copy citations`)}>
+            <ButtonText>
+              <Trans>Copy</Trans>
+            </ButtonText>
+          </Button>
+          <Button
+            variant="outline"
+            color="primary"
+            size="small"
+            disabled={isSaving}
+            onPress={onSave}
+            label={_(msg`Save citations as a file`)}>
+            <ButtonText>
+              <Trans>Save file</Trans>
+            </ButtonText>
+          </Button>
+        </View>
+      </View>
+      <Dialog.Close />
+    </Dialog.ScrollableInner>
+  )
+}
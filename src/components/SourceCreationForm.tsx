@@ -1,13 +1,28 @@
-import React, {useState, useCallback} from 'react'
+import React, {useState, useCallback, useRef} from 'react'
 import {View, TextInput, Alert, StyleSheet} from 'react-native'
 import {msg, Trans} from '@lingui/macro'
 import {useLingui} from '@lingui/react'
+import {useNavigation, type NavigationProp} from '@react-navigation/native'
 
 import {atoms as a, useTheme} from '#/alf'
+import * as Admonition from '#/components/Admonition'
 import {Button, ButtonText, ButtonIcon} from '#/components/Button'
 import * as Dialog from '#/components/Dialog'
 import {Text} from '#/components/Typography'
-import {useSourcesAPI, type CreateSourceParams} from '#/lib/api/sources'
+import {
+  useSourcesAPI,
+  type CreateSourceParams,
+  type Source,
+} from '#/lib/api/sources'
+import {type AllNavigatorParams} from '#/lib/routes/types'
+import {
+  canonicalizeUrl,
+  captureSourceSnapshot,
+  getCanonicalSourceKey,
+  resolveSourceUrl,
+  type SourceSnapshot,
+  validateSource,
+} from '#/lib/source-validation'
 import {cleanError} from '#/lib/strings/errors'
 import {logger} from '#/logger'
 import {PageText_Stroke2_Corner0_Rounded as Document} from '#/components/icons/PageText'
@@ -23,6 +38,21 @@ interface FormData {
   name: string
   url: string
   badgeType: string
+  // semicolon separated, since names are often written "Last, First"
+  authors: string
+  publisher: string
+  publishedAt: string
+  doi: string
+}
+
+const EMPTY_FORM: FormData = {
+  name: '',
+  url: '',
+  badgeType: '',
+  authors: '',
+  publisher: '',
+  publishedAt: '',
+  doi: '',
 }
 
 export function SourceCreationForm({
@@ -47,14 +77,22 @@ function SourceCreationFormInner({
   const {_} = useLingui()
   const t = useTheme()
   const sourcesAPI = useSourcesAPI()
+  const navigation = useNavigation<NavigationProp<AllNavigatorParams>>()
 
-  const [formData, setFormData] = useState<FormData>({
-    name: '',
-    url: '',
-    badgeType: '',
-  })
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [inputType, setInputType] = useState<'url' | 'document'>('url')
+  const [isLookingUp, setIsLookingUp] = useState(false)
+  const [lookupWarning, setLookupWarning] = useState<string | undefined>()
+  const lookedUpUrl = useRef('')
+  // where the looked up URL redirected to, minus tracking parameters
+  const resolvedUrl = useRef('')
+  const [duplicate, setDuplicate] = useState<Source | undefined>()
+  // started with the lookup, so it's usually ready by the time of submitting
+  const pendingSnapshot = useRef<{
+    url: string
+    snapshot: Promise<SourceSnapshot | undefined>
+  }>()
 
   const badgeTypes = [
     {value: '', label: _(msg`None`)},
@@ -72,6 +110,107 @@ function SourceCreationFormInner({
     [],
   )
 
+  const checkForDuplicate = useCallback(
+    async (canonicalKey: string | undefined) => {
+      if (!canonicalKey) {
+        setDuplicate(undefined)
+        return undefined
+      }
+      try {
+        const existing = await sourcesAPI.findDuplicate(canonicalKey)
+        setDuplicate(existing)
+        return existing
+      } catch (error) {
+        // don't stop people adding sources because the check failed
+        logger.warn('Failed to check for duplicate sources', {
+          message: cleanError(error),
+        })
+        return undefined
+      }
+    },
+    [sourcesAPI],
+  )
+
+  const captureSnapshot = useCallback((url: string) => {
+    if (pendingSnapshot.current?.url !== url) {
+      pendingSnapshot.current = {
+        url,
+        snapshot: captureSourceSnapshot(url).catch(error => {
+          // the link check takes one later if the page can't be reached now
+          logger.warn('Failed to capture source snapshot', {
+            message: cleanError(error),
+          })
+          if (pendingSnapshot.current?.url === url) {
+            pendingSnapshot.current = undefined
+          }
+          return undefined
+        }),
+      }
+    }
+    return pendingSnapshot.current.snapshot
+  }, [])
+
+  const openDuplicate = useCallback(
+    (source: Source) => {
+      control.close(() => {
+        navigation.navigate('SourceDetail', {id: source.id})
+      })
+    },
+    [control, navigation],
+  )
+
+  const handleLookup = useCallback(async () => {
+    const url = formData.url.trim()
+    if (!url || url === lookedUpUrl.current) return
+    lookedUpUrl.current = url
+    resolvedUrl.current = ''
+    setIsLookingUp(true)
+    setLookupWarning(undefined)
+    setDuplicate(undefined)
+
+    const result = await validateSource(url)
+    setIsLookingUp(false)
+    // the URL was changed while we were looking it up
+    if (lookedUpUrl.current !== url) return
+
+    const metadata = result.metadata
+    if (!metadata) {
+      // let the user try again
+      lookedUpUrl.current = ''
+    }
+    if (!result.isValid) {
+      setLookupWarning(_(msg`Enter a full URL starting with http:// or https://`))
+      return
+    }
+    captureSnapshot(url)
+    if (!metadata) {
+      setLookupWarning(
+        _(msg`Couldn't look up details for this page. You can fill them in yourself.`),
+      )
+      checkForDuplicate(
+        getCanonicalSourceKey({url: canonicalizeUrl(url), doi: formData.doi}),
+      )
+      return
+    }
+
+    // only fill in what hasn't been typed already
+    setFormData(prev => ({
+      ...prev,
+      name: prev.name || metadata.title || '',
+      authors: prev.authors || metadata.authors?.join('; ') || '',
+      publisher: prev.publisher || metadata.publisher || '',
+      publishedAt: prev.publishedAt || metadata.publishedAt?.slice(0, 10) || '',
+      doi: prev.doi || metadata.doi || '',
+    }))
+    resolvedUrl.current = resolveSourceUrl(url, metadata)
+    checkForDuplicate(
+      getCanonicalSourceKey({
+        url: resolvedUrl.current,
+        doi: formData.doi || metadata.doi,
+      }),
+    )
+  }, [formData.url, formData.doi, checkForDuplicate, captureSnapshot, _])
+
   const handleSubmit = useCallback(async () => {
     if (!formData.name.trim()) {
       Alert.alert(_(msg`Error`), _(msg`Please enter a source name`))
@@ -83,12 +222,55 @@ function SourceCreationFormInner({
       return
     }
 
+    const publishedAt = formData.publishedAt.trim()
+    if (publishedAt && !/^\d{4}(-\d{2}(-\d{2})?)?$/.test(publishedAt)) {
+      Alert.alert(
+        _(msg`Error`),
+        _(msg`Enter the publication date as YYYY, YYYY-MM or YYYY-MM-DD`),
+      )
+      return
+    }
+
     setIsSubmitting(true)
     try {
+      const typedUrl = formData.url.trim()
+      const url =
+        inputType === 'url'
+          ? (lookedUpUrl.current === typedUrl && resolvedUrl.current) ||
+            canonicalizeUrl(typedUrl)
+          : undefined
+      const doi = formData.doi.trim()
+      const canonicalKey = getCanonicalSourceKey({url, doi})
+
+      const existing = await checkForDuplicate(canonicalKey)
+      if (existing) {
+        Alert.alert(
+          _(msg`Source Already Exists`),
+          _(msg`"${existing.name}" is already a source. Open it instead of adding it again.`),
+          [
+            {text: _(msg`Cancel`), style: 'cancel'},
+            {text: _(msg`View Source`), onPress: () => openDuplicate(existing)},
+          ],
+        )
+        return
+      }
+
+      const authors = formData.authors
+        .split(';')
+        .map(author => author.trim())
+        .filter(Boolean)
       const params: CreateSourceParams = {
         name: formData.name.trim(),
-        url: inputType === 'url' ? formData.url.trim() : undefined,
+        url,
         badgeType: formData.badgeType || undefined,
+        authors: authors.length ? authors : undefined,
+        publisher: formData.publisher.trim() || undefined,
+        publishedAt: publishedAt || undefined,
+        doi:
+          doi.replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '') ||
+          undefined,
+        canonicalKey,
+        snapshot: url ? await captureSnapshot(typedUrl) : undefined,
       }
 
       // For document upload, we'll add documentId when Step 12 is implemented
@@ -99,7 +281,12 @@ function SourceCreationFormInner({
       await sourcesAPI.create(params)
 
       // Reset form
-      setFormData({name: '', url: '', badgeType: ''})
+      setFormData(EMPTY_FORM)
+      lookedUpUrl.current = ''
+      resolvedUrl.current = ''
+      pendingSnapshot.current = undefined
+      setLookupWarning(undefined)
+      setDuplicate(undefined)
       
       // Close dialog and notify parent
       control.close(() => {
@@ -113,7 +300,17 @@ function SourceCreationFormInner({
     } finally {
       setIsSubmitting(false)
     }
-  }, [formData, inputType, sourcesAPI, control, onSourceCreated, _])
+  }, [
+    formData,
+    inputType,
+    sourcesAPI,
+    checkForDuplicate,
+    captureSnapshot,
+    openDuplicate,
+    control,
+    onSourceCreated,
+    _,
+  ])
 
   const handleCancel = useCallback(() => {
     control.close()
@@ -156,6 +353,26 @@ function SourceCreationFormInner({
       </Dialog.Header>
 
       <View style={[a.flex_1, a.gap_lg, a.pt_lg]}>
+        {duplicate && (
+          <Admonition.Outer type="warning">
+            <Admonition.Row>
+              <Admonition.Icon />
+              <Admonition.Text>
+                <Trans>
+                  This source already exists as "{duplicate.name}".
+                </Trans>
+              </Admonition.Text>
+              <Admonition.Button
+                label={_(msg`View the existing source`)}
+                onPress={() => openDuplicate(duplicate)}>
+                <ButtonText>
+                  <Trans>View source</Trans>
+                </ButtonText>
+              </Admonition.Button>
+            </Admonition.Row>
+          </Admonition.Outer>
+        )}
+
         {/* Input Type Selection */}
         <View style={styles.section}>
           <Text style={[a.text_md, a.font_bold, a.mb_sm, {color: t.palette.contrast_800}]}>
@@ -235,6 +452,7 @@ function SourceCreationFormInner({
               ]}
               value={formData.url}
               onChangeText={updateFormData('url')}
+              onBlur={handleLookup}
               placeholder={_(msg`https://example.com/document.pdf`)}
               placeholderTextColor={t.palette.contrast_400}
               keyboardType="url"
@@ -243,6 +461,29 @@ function SourceCreationFormInner({
               accessibilityLabel={_(msg`Source URL`)}
               accessibilityHint={_(msg`Enter the URL for this source`)}
             />
+            <View style={[a.flex_row, a.align_center, a.gap_sm, a.mt_sm]}>
+              <Button
+                variant="outline"
+                color="secondary"
+                size="small"
+                onPress={handleLookup}
+                disabled={!formData.url.trim() || isLookingUp}
+                label={_(msg`Look up details for this URL`)}>
+                <ButtonText>
+                  <Trans>Look up details</Trans>
+                </ButtonText>
+              </Button>
+              {isLookingUp && (
+                <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+                  <Trans>Looking up details...</Trans>
+                </Text>
+              )}
+            </View>
+            {lookupWarning && !isLookingUp && (
+              <Text style={[a.text_sm, a.mt_xs, {color: t.palette.negative_500}]}>
+                {lookupWarning}
+              </Text>
+            )}
           </View>
         )}
 
@@ -271,6 +512,104 @@ function SourceCreationFormInner({
           </View>
         )}
 
+        {/* Citation Details */}
+        <View style={styles.section}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm, {color: t.palette.contrast_800}]}>
+            <Trans>Citation Details</Trans>
+          </Text>
+          <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+            <Trans>Optional: These are filled in from the page when possible. Check them before creating the source.</Trans>
+          </Text>
+          <View style={a.mt_sm}>
+            <Text style={[a.text_sm, a.mb_xs, {color: t.palette.contrast_700}]}>
+              <Trans>Authors</Trans>
+            </Text>
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  backgroundColor: t.palette.contrast_50,
+                  borderColor: t.palette.contrast_300,
+                  color: t.palette.contrast_800,
+                },
+              ]}
+              value={formData.authors}
+              onChangeText={updateFormData('authors')}
+              placeholder={_(msg`Jane Roe; John Doe`)}
+              placeholderTextColor={t.palette.contrast_400}
+              accessibilityLabel={_(msg`Authors`)}
+              accessibilityHint={_(msg`Separate authors with semicolons`)}
+            />
+          </View>
+          <View style={a.mt_sm}>
+            <Text style={[a.text_sm, a.mb_xs, {color: t.palette.contrast_700}]}>
+              <Trans>Publisher</Trans>
+            </Text>
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  backgroundColor: t.palette.contrast_50,
+                  borderColor: t.palette.contrast_300,
+                  color: t.palette.contrast_800,
+                },
+              ]}
+              value={formData.publisher}
+              onChangeText={updateFormData('publisher')}
+              placeholder={_(msg`Publisher or journal`)}
+              placeholderTextColor={t.palette.contrast_400}
+              accessibilityLabel={_(msg`Publisher`)}
+              accessibilityHint={_(msg`Who published this source`)}
+            />
+          </View>
+          <View style={a.mt_sm}>
+            <Text style={[a.text_sm, a.mb_xs, {color: t.palette.contrast_700}]}>
+              <Trans>Publication Date</Trans>
+            </Text>
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  backgroundColor: t.palette.contrast_50,
+                  borderColor: t.palette.contrast_300,
+                  color: t.palette.contrast_800,
+                },
+              ]}
+              value={formData.publishedAt}
+              onChangeText={updateFormData('publishedAt')}
+              placeholder={_(msg`YYYY-MM-DD`)}
+              placeholderTextColor={t.palette.contrast_400}
+              autoCapitalize="none"
+              autoCorrect={false}
+              accessibilityLabel={_(msg`Publication date`)}
+              accessibilityHint={_(msg`The date as YYYY, YYYY-MM or YYYY-MM-DD`)}
+            />
+          </View>
+          <View style={a.mt_sm}>
+            <Text style={[a.text_sm, a.mb_xs, {color: t.palette.contrast_700}]}>
+              <Trans>DOI</Trans>
+            </Text>
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  backgroundColor: t.palette.contrast_50,
+                  borderColor: t.palette.contrast_300,
+                  color: t.palette.contrast_800,
+                },
+              ]}
+              value={formData.doi}
+              onChangeText={updateFormData('doi')}
+              placeholder={_(msg`10.1000/xyz123`)}
+              placeholderTextColor={t.palette.contrast_400}
+              autoCapitalize="none"
+              autoCorrect={false}
+              accessibilityLabel={_(msg`DOI`)}
+              accessibilityHint={_(msg`The digital object identifier, if the source has one`)}
+            />
+          </View>
+        </View>
+
         {/* Badge Type Selection */}
         <View style={styles.section}>
           <Text style={[a.text_md, a.font_bold, a.mb_sm, {color: t.palette.contrast_800}]}>
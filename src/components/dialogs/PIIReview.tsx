@@ -0,0 +1,162 @@
+import {useCallback} from 'react'
+import {View} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {type PIIKind, type PIISpan} from '#/lib/strings/pii'
+import {atoms as a, useBreakpoints, useTheme, web} from '#/alf'
+import {Button, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import {Text} from '#/components/Typography'
+
+/**
+ * A flagged span, and which of the texts being published it's in
+ */
+export interface PIIReviewItem {
+  textId: string
+  span: PIISpan
+}
+
+/**
+ * Lists personal information found in text that's about to be published.
+ * Each item can be redacted with one tap, or the user can publish as is.
+ */
+export function PIIReviewDialog({
+  control,
+  items,
+  onRedact,
+  onContinue,
+}: {
+  control: Dialog.DialogControlProps
+  items: PIIReviewItem[]
+  onRedact: (items: PIIReviewItem[]) => void
+  onContinue: () => void
+}) {
+  return (
+    <Dialog.Outer control={control} webOptions={{alignCenter: true}}>
+      <Dialog.Handle />
+      <PIIReviewInner
+        items={items}
+        onRedact={onRedact}
+        onContinue={onContinue}
+      />
+    </Dialog.Outer>
+  )
+}
+
+function PIIReviewInner({
+  items,
+  onRedact,
+  onContinue,
+}: {
+  items: PIIReviewItem[]
+  onRedact: (items: PIIReviewItem[]) => void
+  onContinue: () => void
+}) {
+  const control = Dialog.useDialogContext()
+  const {_} = useLingui()
+  const t = useTheme()
+  const {gtMobile} = useBreakpoints()
+
+  const kindLabels: Record<PIIKind, string> = {
+    email: _(msg`Email address`),
+    phone: _(msg`Phone number`),
+    address: _(msg`Street address`),
+    name: _(msg`Name`),
+  }
+
+  const onPressContinue = useCallback(() => {
+    control.close(onContinue)
+  }, [control, onContinue])
+
+  return (
+    <Dialog.ScrollableInner
+      style={web({maxWidth: 450})}
+      label={_(msg`Review personal information`)}>
+      <View style={[a.gap_xl]}>
+        <View style={[a.gap_sm]}>
+          <Text style={[a.font_heavy, a.text_2xl]}>
+            <Trans>Review personal information</Trans>
+          </Text>
+          <Text style={[t.atoms.text_contrast_high, a.text_md, a.leading_snug]}>
+            {items.length > 0 ? (
+              <Trans>
+                This will be visible to anyone. The details below could be used
+                to identify you or people you know.
+              </Trans>
+            ) : (
+              <Trans>Nothing left to review.</Trans>
+            )}
+          </Text>
+        </View>
+
+        {items.length > 0 && (
+          <View style={[a.gap_sm]}>
+            {items.map(item => (
+              <View
+                key={`${item.textId}:${item.span.start}`}
+                style={[
+                  a.flex_row,
+                  a.align_center,
+                  a.gap_md,
+                  a.p_md,
+                  a.rounded_sm,
+                  t.atoms.bg_contrast_25,
+                ]}>
+                <View style={[a.flex_1]}>
+                  <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+                    {kindLabels[item.span.kind]}
+                  </Text>
+                  <Text style={[a.text_md, a.font_bold]} numberOfLines={1}>
+                    {item.span.text}
+                  </Text>
+                </View>
+                <Button
+                  label={_(msg`Redact ${item.span.text}`)}
+                  onPress={() => onRedact([item])}
+                  size="small"
+                  variant="solid"
+                  color="secondary">
+                  <ButtonText>
+                    <Trans>Redact</Trans>
+                  </ButtonText>
+                </Button>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View
+          style={[a.gap_sm, gtMobile && [a.flex_row_reverse, a.justify_start]]}>
+          {items.length > 1 && (
+            <Button
+              label={_(msg`Redact all`)}
+              onPress={() => onRedact(items)}
+              size="large"
+              variant="solid"
+              color="primary">
+              <ButtonText>
+                <Trans>Redact all</Trans>
+              </ButtonText>
+            </Button>
+          )}
+          <Button
+            label={items.length > 0 ? _(msg`Publish anyway`) : _(msg`Publish`)}
+            onPress={onPressContinue}
+            size="large"
+            variant={items.length > 0 ? 'ghost' : 'solid'}
+            color={items.length > 0 ? 'secondary' : 'primary'}>
+            <ButtonText>
+              {items.length > 0 ? (
+                <Trans>Publish anyway</Trans>
+              ) : (
+                <Trans>Publish</Trans>
+              )}
+            </ButtonText>
+          </Button>
+        </View>
+      </View>
+      <Dialog.Close />
+    </Dialog.ScrollableInner>
+  )
+}
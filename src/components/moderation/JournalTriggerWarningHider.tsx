@@ -0,0 +1,132 @@
+import React from 'react'
+import {type StyleProp, View, type ViewStyle} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {useTriggerWarningLabel} from '#/lib/journal-trigger-warnings/labels'
+import {useJournalTriggerWarningDecision} from '#/state/queries/journal-trigger-warnings'
+import {atoms as a, useBreakpoints, useTheme, web} from '#/alf'
+import {Button} from '#/components/Button'
+import {Warning_Stroke2_Corner0_Rounded as Warning} from '#/components/icons/Warning'
+import {Text} from '#/components/Typography'
+
+/**
+ * Puts journal content with trigger warnings behind an interstitial, going
+ * by the user's preferences. Content the user hides is still put behind one
+ * here, since lists leave it out and it's only reached on purpose.
+ */
+export function JournalTriggerWarningHider({
+  testID,
+  warnings,
+  style,
+  childContainerStyle,
+  children,
+}: React.PropsWithChildren<{
+  testID?: string
+  warnings: string[] | undefined
+  style?: StyleProp<ViewStyle>
+  childContainerStyle?: StyleProp<ViewStyle>
+}>) {
+  const decision = useJournalTriggerWarningDecision(warnings)
+  if (decision.visibility === 'show') {
+    return (
+      <View testID={testID} style={style}>
+        {children}
+      </View>
+    )
+  }
+  return (
+    <JournalTriggerWarningHiderActive
+      testID={testID}
+      warnings={decision.warnings}
+      style={style}
+      childContainerStyle={childContainerStyle}>
+      {children}
+    </JournalTriggerWarningHiderActive>
+  )
+}
+
+function JournalTriggerWarningHiderActive({
+  testID,
+  warnings,
+  style,
+  childContainerStyle,
+  children,
+}: React.PropsWithChildren<{
+  testID?: string
+  warnings: string[]
+  style?: StyleProp<ViewStyle>
+  childContainerStyle?: StyleProp<ViewStyle>
+}>) {
+  const t = useTheme()
+  const {_} = useLingui()
+  const {gtMobile} = useBreakpoints()
+  const [override, setOverride] = React.useState(false)
+  const getLabel = useTriggerWarningLabel()
+  const warningNames = warnings.map(getLabel).join(', ')
+
+  return (
+    <View testID={testID} style={[a.overflow_hidden, style]}>
+      <Button
+        onPress={e => {
+          e.preventDefault()
+          e.stopPropagation()
+          setOverride(v => !v)
+        }}
+        label={_(msg`Content warning: ${warningNames}`)}
+        accessibilityHint={
+          override ? _(msg`Hides the content`) : _(msg`Shows the content`)
+        }>
+        {state => (
+          <View
+            style={[
+              a.flex_row,
+              a.w_full,
+              a.justify_start,
+              a.align_center,
+              a.py_md,
+              a.px_lg,
+              a.gap_xs,
+              a.rounded_sm,
+              t.atoms.bg_contrast_25,
+              gtMobile && [a.gap_sm, a.py_lg, a.mt_xs, a.px_xl],
+              (state.hovered || state.pressed) && t.atoms.bg_contrast_50,
+            ]}>
+            <Warning
+              size="md"
+              fill={t.atoms.text_contrast_medium.color}
+              style={{marginLeft: -2}}
+            />
+            <Text
+              style={[
+                a.flex_1,
+                a.text_left,
+                a.font_bold,
+                a.leading_snug,
+                t.atoms.text_contrast_medium,
+                web({
+                  marginBottom: 1,
+                }),
+              ]}
+              numberOfLines={2}>
+              {warningNames}
+            </Text>
+            <Text
+              style={[
+                a.font_bold,
+                a.leading_snug,
+                t.atoms.text_contrast_high,
+                web({
+                  marginBottom: 1,
+                }),
+              ]}>
+              {override ? <Trans>Hide</Trans> : <Trans>Show</Trans>}
+            </Text>
+          </View>
+        )}
+      </Button>
+
+      {override && <View style={childContainerStyle}>{children}</View>}
+    </View>
+  )
+}
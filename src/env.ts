@@ -10,6 +10,11 @@ export const JOURNAL_API_CONFIG = {
   // Primary service endpoint
   PDS_ENDPOINT: process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000',
   APPVIEW_ENDPOINT: process.env.EXPO_PUBLIC_APP_VIEW_URL || 'http://localhost:3001',
+  // Index of which records link to which, used to find records about an
+  // entry that live in other people's repos
+  BACKLINKS_ENDPOINT:
+    process.env.EXPO_PUBLIC_JOURNAL_BACKLINKS_URL ||
+    'https://constellation.microcosm.blue',
   
   // Journal XRPC endpoints (xyz.tisocial.journal namespace)
   JOURNAL_ENDPOINTS: {
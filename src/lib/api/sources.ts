@@ -1,9 +1,46 @@
-import {useState, useCallback} from 'react'
+import {useCallback} from 'react'
+
+import {type SourceRank, type SourceVote} from '#/lib/source-ranking'
+import {
+  getCanonicalSourceKey,
+  type SourceSnapshot,
+} from '#/lib/source-validation'
+import {logger} from '#/logger'
 import {useAgent} from '#/state/session'
-import {AppBskySourcesList} from '@atproto/api'
 
-export interface Source extends AppBskySourcesList.Source {
+type Agent = ReturnType<typeof useAgent>
+
+export interface Source {
+  id: string
+  name: string
+  url?: string
+  documentId?: string
+  badgeType?: string
+  rank: SourceRank
+  upvotes: number
+  downvotes: number
+  createdAt: string
   userVote?: 'up' | 'down' | null
+  authors?: string[]
+  publisher?: string
+  publishedAt?: string
+  doi?: string
+  // see getCanonicalSourceKey
+  canonicalKey?: string
+  snapshot?: SourceSnapshot
+  // set by the periodic link check
+  health?: SourceHealth
+}
+
+export interface SourceHealth {
+  // missing is a 404 or 410, unreachable any other failure
+  status: 'ok' | 'changed' | 'moved' | 'missing' | 'unreachable'
+  checkedAt: string
+  httpStatus?: number
+  finalUrl?: string
+  // how much of the text still matches the snapshot, from 0 to 1
+  similarity?: number
+  message?: string
 }
 
 export interface SourceComment {
@@ -37,6 +74,14 @@ export interface CreateSourceParams {
   url?: string
   documentId?: string
   badgeType?: string
+  // citation details, usually prefilled from the source metadata service
+  authors?: string[]
+  publisher?: string
+  publishedAt?: string
+  doi?: string
+  // identifies the source across different links to it
+  canonicalKey?: string
+  snapshot?: SourceSnapshot
 }
 
 export interface VoteParams {
@@ -54,114 +99,109 @@ export interface CommentParams {
   content: string
 }
 
-// Sources API implementation using AT Protocol
+/**
+ * Calls one of the `app.bsky.sources.*` methods. They're served by the
+ * appview but aren't in the lexicons @atproto/api ships with, so there's no
+ * generated client for them. The request still goes through the agent, which
+ * authenticates it and proxies it to the appview.
+ */
+async function callSources<T>(
+  agent: Agent,
+  method: string,
+  {
+    params,
+    input,
+  }: {
+    params?: Record<string, string | number | undefined>
+    input?: Record<string, unknown>
+  } = {},
+): Promise<T> {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(params ?? {})) {
+    if (value !== undefined) query.set(key, String(value))
+  }
+  const res = await agent.fetchHandler(
+    `/xrpc/app.bsky.sources.${method}?${query.toString()}`,
+    input
+      ? {
+          method: 'POST',
+          headers: {'content-type': 'application/json'},
+          body: JSON.stringify(input),
+        }
+      : {method: 'GET'},
+  )
+  if (!res.ok) {
+    throw new Error(`app.bsky.sources.${method} responded with ${res.status}`)
+  }
+  return res.json()
+}
 
 export function useSourcesAPI() {
   const agent = useAgent()
 
   const list = useCallback(async (params: SourcesListParams): Promise<SourcesListResponse> => {
     try {
-      // Comprehensive debugging to understand the agent structure
-      console.log('=== SOURCES API DEBUG START ===')
-      console.log('Agent type:', typeof agent)
-      console.log('Agent constructor name:', agent?.constructor?.name)
-      console.log('Agent service URL:', agent?.session?.did || agent?.serviceUrl || 'unknown')
-      
-      // Check agent.api structure (deprecated path)
-      console.log('Agent.api exists:', !!agent.api)
-      if (agent.api) {
-        console.log('Agent.api.app exists:', !!agent.api.app)
-        if (agent.api.app) {
-          console.log('Agent.api.app.bsky exists:', !!agent.api.app.bsky)
-          if (agent.api.app.bsky) {
-            console.log('Available agent.api.app.bsky namespaces:', Object.keys(agent.api.app.bsky))
-            console.log('agent.api.app.bsky.sources exists:', !!agent.api.app.bsky.sources)
-          }
-        }
-      }
-      
-      // Check agent.app structure (new path)
-      console.log('Agent.app exists:', !!agent.app)
-      if (agent.app) {
-        console.log('Agent.app.bsky exists:', !!agent.app.bsky)
-        if (agent.app.bsky) {
-          console.log('Available agent.app.bsky namespaces:', Object.keys(agent.app.bsky))
-          console.log('agent.app.bsky.sources exists:', !!agent.app.bsky.sources)
-          
-          // If sources exists, log its methods
-          if (agent.app.bsky.sources) {
-            console.log('agent.app.bsky.sources methods:', Object.keys(agent.app.bsky.sources))
-          }
-        }
-      }
-      
-      // Try both API paths to see which one works
-      let sourcesAPI = null
-      if (agent.app?.bsky?.sources) {
-        console.log('Using agent.app.bsky.sources')
-        sourcesAPI = agent.app.bsky.sources
-      } else if (agent.api?.app?.bsky?.sources) {
-        console.log('Using agent.api.app.bsky.sources')
-        sourcesAPI = agent.api.app.bsky.sources
-      } else {
-        console.error('Sources API namespace not found in either location')
-        console.log('=== SOURCES API DEBUG END ===')
-        throw new Error('Sources API not available - namespace not found')
-      }
-
-      console.log('Calling sources.list with params:', params)
-      const response = await sourcesAPI.list({
-        limit: params.limit,
-        cursor: params.cursor,
-        badgeType: params.badgeType,
-        rank: params.rank,
-        search: params.search,
+      return await callSources<SourcesListResponse>(agent, 'list', {
+        params: {
+          limit: params.limit,
+          cursor: params.cursor,
+          badgeType: params.badgeType,
+          rank: params.rank,
+          search: params.search,
+        },
       })
-
-      console.log('Sources API response received:', response)
-      console.log('Response data:', response.data)
-      console.log('Sources count:', response.data?.sources?.length || 0)
-      console.log('=== SOURCES API DEBUG END ===')
-
-      return {
-        sources: response.data.sources,
-        cursor: response.data.cursor,
-      }
     } catch (error) {
-      console.error('Sources API list error:', error)
-      console.log('Error details:', error)
-      console.log('=== SOURCES API DEBUG END ===')
+      logger.error('Sources API list error', {message: String(error)})
       throw new Error('Failed to fetch sources')
     }
   }, [agent])
 
   const create = useCallback(async (params: CreateSourceParams): Promise<Source> => {
     try {
-      const response = await agent.app.bsky.sources.create({
-        name: params.name,
-        url: params.url,
-        documentId: params.documentId,
-        badgeType: params.badgeType,
+      const {source} = await callSources<{source: Source}>(agent, 'create', {
+        input: {
+          name: params.name,
+          url: params.url,
+          documentId: params.documentId,
+          badgeType: params.badgeType,
+          authors: params.authors,
+          publisher: params.publisher,
+          publishedAt: params.publishedAt,
+          doi: params.doi,
+          canonicalKey: params.canonicalKey,
+          snapshot: params.snapshot,
+        },
       })
-      
-      return response.data.source
+      return source
     } catch (error) {
       console.error('Sources API create error:', error)
       throw new Error('Failed to create source')
     }
   }, [agent])
 
+  const findDuplicate = useCallback(async (canonicalKey: string): Promise<Source | undefined> => {
+    try {
+      const {sources} = await callSources<SourcesListResponse>(agent, 'list', {
+        params: {canonicalKey, limit: 10},
+      })
+
+      // sources created before keys were stored only have a URL and DOI
+      return sources.find(
+        source =>
+          (source.canonicalKey ?? getCanonicalSourceKey(source)) === canonicalKey,
+      )
+    } catch (error) {
+      logger.error('Sources API findDuplicate error', {message: String(error)})
+      throw new Error('Failed to check for existing sources')
+    }
+  }, [agent])
+
   const vote = useCallback(async (params: VoteParams): Promise<VoteResponse> => {
     try {
-      const response = await agent.app.bsky.sources.vote({
-        sourceId: params.sourceId,
-        vote: params.vote,
+      const {source} = await callSources<{source: Source}>(agent, 'vote', {
+        input: {sourceId: params.sourceId, vote: params.vote},
       })
-      
-      return {
-        source: response.data.source,
-        userVote: params.vote,
-      }
+      return {source, userVote: params.vote}
     } catch (error) {
       console.error('Sources API vote error:', error)
       throw new Error('Failed to vote on source')
@@ -170,24 +210,36 @@ export function useSourcesAPI() {
 
   const getById = useCallback(async (sourceId: string): Promise<Source> => {
     try {
-      const response = await agent.app.bsky.sources.get({
-        sourceId: sourceId,
+      const {source} = await callSources<{source: Source}>(agent, 'get', {
+        params: {sourceId},
       })
-      
-      return response.data.source
+      return source
     } catch (error) {
       console.error('Sources API getById error:', error)
       throw new Error('Failed to fetch source')
     }
   }, [agent])
 
-  const getComments = useCallback(async (sourceId: string): Promise<SourceComment[]> => {
+  const getVotes = useCallback(async (sourceId: string): Promise<SourceVote[]> => {
     try {
-      const response = await agent.app.bsky.sources.getComments({
-        sourceId: sourceId,
+      const {votes} = await callSources<{votes: SourceVote[]}>(agent, 'getVotes', {
+        params: {sourceId},
       })
-      
-      return response.data.comments
+      return votes
+    } catch (error) {
+      logger.error('Sources API getVotes error', {message: String(error)})
+      throw new Error('Failed to fetch votes')
+    }
+  }, [agent])
+
+  const getComments = useCallback(async (sourceId: string): Promise<SourceComment[]> => {
+    try {
+      const {comments} = await callSources<{comments: SourceComment[]}>(
+        agent,
+        'getComments',
+        {params: {sourceId}},
+      )
+      return comments
     } catch (error) {
       console.error('Sources API getComments error:', error)
       throw new Error('Failed to fetch comments')
@@ -196,12 +248,12 @@ export function useSourcesAPI() {
 
   const addComment = useCallback(async (params: CommentParams): Promise<SourceComment> => {
     try {
-      const response = await agent.app.bsky.sources.addComment({
-        sourceId: params.sourceId,
-        content: params.content,
-      })
-      
-      return response.data.comment
+      const {comment} = await callSources<{comment: SourceComment}>(
+        agent,
+        'addComment',
+        {input: {sourceId: params.sourceId, content: params.content}},
+      )
+      return comment
     } catch (error) {
       console.error('Sources API addComment error:', error)
       throw new Error('Failed to add comment')
@@ -211,9 +263,11 @@ export function useSourcesAPI() {
   return {
     list,
     create,
+    findDuplicate,
     vote,
     getById,
+    getVotes,
     getComments,
     addComment,
   }
-}
\ No newline at end of file
+}
@@ -112,6 +112,16 @@ export function LINK_META_PROXY(serviceUrl: string) {
   return STAGING_LINK_META_PROXY
 }
 
+// Use local source metadata service (bskysourcemeta) in development
+export const SOURCE_META_PROXY =
+  Platform.OS === 'android'
+    ? 'http://10.0.2.2:2586/v1/extract?url='
+    : 'http://localhost:2586/v1/extract?url='
+export const SOURCE_SNAPSHOT_PROXY =
+  Platform.OS === 'android'
+    ? 'http://10.0.2.2:2586/v1/snapshot?url='
+    : 'http://localhost:2586/v1/snapshot?url='
+
 // Use local status page for development
 export const STATUS_PAGE_URL = Platform.OS === 'android' ? 'http://10.0.2.2:2584/status' : 'http://localhost:2584/status'
 
@@ -0,0 +1,32 @@
+import {useCallback, useMemo} from 'react'
+
+import {findPIISpans, type PIISpan} from '#/lib/strings/pii'
+import {useProfileQuery} from '#/state/queries/profile'
+import {useProfileFollowsQuery} from '#/state/queries/profile-follows'
+import {useSession} from '#/state/session'
+
+/**
+ * Finds personal information in text that's about to be published. Besides
+ * emails, phone numbers and street addresses, it looks for the user's own
+ * name and the names of the people they follow, which stand in for a contact
+ * list.
+ */
+export function usePIIScanner(): (text: string) => PIISpan[] {
+  const {currentAccount} = useSession()
+  const {data: profile} = useProfileQuery({did: currentAccount?.did})
+  const {data: follows} = useProfileFollowsQuery(currentAccount?.did, {
+    limit: 100,
+  })
+
+  const names = useMemo(() => {
+    const all = [
+      profile?.displayName,
+      ...(follows?.pages.flatMap(page =>
+        page.follows.map(follow => follow.displayName),
+      ) ?? []),
+    ]
+    return all.filter((name): name is string => !!name)
+  }, [profile?.displayName, follows])
+
+  return useCallback((text: string) => findPIISpans(text, {names}), [names])
+}
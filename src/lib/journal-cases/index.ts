@@ -0,0 +1,216 @@
+import {type EncryptedJournalPayload} from '#/lib/journal-encryption'
+import {type JournalEvidenceAttachment} from '#/lib/journal-record'
+import {type JournalSource} from '#/state/queries/journal/types'
+
+export const JOURNAL_CASE_COLLECTION = 'app.warlog.journalCase'
+
+export const JOURNAL_CASE_STATUSES = [
+  'open',
+  'on_hold',
+  'resolved',
+  'closed',
+] as const
+
+export type JournalCaseStatus = (typeof JOURNAL_CASE_STATUSES)[number]
+
+/**
+ * A date that matters to the case but isn't an entry, such as a hearing or
+ * a filing deadline
+ */
+export interface JournalCaseKeyDate {
+  date: string
+  label: string
+}
+
+/**
+ * An evidence attachment, picked out of the entry it was attached to
+ */
+export interface JournalCaseEvidence {
+  entry: string
+  uri: string
+}
+
+/**
+ * A citation of a source. The source's name and URL are copied in so the
+ * case still reads correctly if the source changes or goes away.
+ */
+export type JournalCaseSource = JournalSource & {name: string; url?: string}
+
+/**
+ * What a case holds. All of it is sealed with the journal key, since a case
+ * describes the situation its entries are about.
+ */
+export interface JournalCase {
+  title: string
+  summary: string
+  status: JournalCaseStatus
+  keyDates: JournalCaseKeyDate[]
+  entries: string[]
+  evidence: JournalCaseEvidence[]
+  sources: JournalCaseSource[]
+}
+
+/**
+ * An `app.warlog.journalCase` record as it's stored
+ */
+export interface JournalCaseRecord {
+  $type: typeof JOURNAL_CASE_COLLECTION
+  createdAt: string
+  updatedAt?: string
+  encrypted: EncryptedJournalPayload
+}
+
+/**
+ * A case that has been opened. Cases sealed with a key this device doesn't
+ * have are `isLocked` and come back empty.
+ */
+export type JournalCaseView = JournalCase & {
+  uri: string
+  cid: string
+  createdAt: string
+  updatedAt?: string
+  isLocked?: boolean
+}
+
+/**
+ * The fields of an entry the case timeline looks at
+ */
+export interface JournalCaseTimelineSubject {
+  uri: string
+  createdAt: string
+  incidentTimestamp?: string
+  evidenceAttachments?: JournalEvidenceAttachment[]
+}
+
+export type JournalCaseTimelineItem<T extends JournalCaseTimelineSubject> =
+  | {type: 'key_date'; date: string; keyDate: JournalCaseKeyDate}
+  | {type: 'entry'; date: string; entry: T}
+  | {
+      type: 'evidence'
+      date: string
+      entry: T
+      attachment: JournalEvidenceAttachment
+    }
+
+// When several items fall at the same moment, key dates read best first and
+// evidence straight after the entry it was attached to
+const TIMELINE_ORDER: Record<
+  JournalCaseTimelineItem<JournalCaseTimelineSubject>['type'],
+  number
+> = {
+  key_date: 0,
+  entry: 1,
+  evidence: 2,
+}
+
+export function createJournalCase(title: string): JournalCase {
+  return {
+    title,
+    summary: '',
+    status: 'open',
+    keyDates: [],
+    entries: [],
+    evidence: [],
+    sources: [],
+  }
+}
+
+/**
+ * Fills in anything missing from a case opened from a record, so older
+ * cases and cases written by other clients can be read the same way
+ */
+export function normalizeJournalCase(data: Partial<JournalCase>): JournalCase {
+  return {
+    ...createJournalCase(data.title ?? ''),
+    ...data,
+    status: JOURNAL_CASE_STATUSES.includes(data.status as JournalCaseStatus)
+      ? (data.status as JournalCaseStatus)
+      : 'open',
+  }
+}
+
+/**
+ * Every entry a case covers: those added to it, and those its evidence was
+ * attached to
+ */
+export function getJournalCaseEntryUris(
+  journalCase: Pick<JournalCase, 'entries' | 'evidence'>,
+): Set<string> {
+  return new Set([
+    ...journalCase.entries,
+    ...journalCase.evidence.map(evidence => evidence.entry),
+  ])
+}
+
+export function toggleJournalCaseEntry<T extends JournalCase>(
+  journalCase: T,
+  uri: string,
+): T {
+  return {
+    ...journalCase,
+    entries: journalCase.entries.includes(uri)
+      ? journalCase.entries.filter(entry => entry !== uri)
+      : [...journalCase.entries, uri],
+  }
+}
+
+export function toggleJournalCaseEvidence<T extends JournalCase>(
+  journalCase: T,
+  evidence: JournalCaseEvidence,
+): T {
+  const isSame = (item: JournalCaseEvidence) =>
+    item.entry === evidence.entry && item.uri === evidence.uri
+  return {
+    ...journalCase,
+    evidence: journalCase.evidence.some(isSame)
+      ? journalCase.evidence.filter(item => !isSame(item))
+      : [...journalCase.evidence, evidence],
+  }
+}
+
+/**
+ * Lays the case out as one timeline, oldest first: its key dates, its
+ * entries at the time of the incident, and its evidence at the time it was
+ * captured. Entries and evidence that are no longer in the journal are
+ * left out.
+ */
+export function buildJournalCaseTimeline<T extends JournalCaseTimelineSubject>(
+  journalCase: JournalCase,
+  entries: T[],
+): JournalCaseTimelineItem<T>[] {
+  const byUri = new Map(entries.map(entry => [entry.uri, entry]))
+  const items: JournalCaseTimelineItem<T>[] = journalCase.keyDates.map(
+    keyDate => ({type: 'key_date', date: keyDate.date, keyDate}),
+  )
+
+  for (const uri of journalCase.entries) {
+    const entry = byUri.get(uri)
+    if (entry) {
+      items.push({type: 'entry', date: getEntryDate(entry), entry})
+    }
+  }
+  for (const evidence of journalCase.evidence) {
+    const entry = byUri.get(evidence.entry)
+    const attachment = entry?.evidenceAttachments?.find(
+      item => item.uri === evidence.uri,
+    )
+    if (entry && attachment) {
+      items.push({
+        type: 'evidence',
+        date: attachment.capturedAt ?? getEntryDate(entry),
+        entry,
+        attachment,
+      })
+    }
+  }
+
+  return items.sort(
+    (a, b) =>
+      new Date(a.date).getTime() - new Date(b.date).getTime() ||
+      TIMELINE_ORDER[a.type] - TIMELINE_ORDER[b.type],
+  )
+}
+
+function getEntryDate(entry: JournalCaseTimelineSubject) {
+  return entry.incidentTimestamp ?? entry.createdAt
+}
@@ -0,0 +1,23 @@
+import {useCallback} from 'react'
+import {msg} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {type JournalCaseStatus} from '#/lib/journal-cases'
+
+const JOURNAL_CASE_STATUS_LABELS = {
+  open: msg`Open`,
+  on_hold: msg`On hold`,
+  resolved: msg`Resolved`,
+  closed: msg`Closed`,
+} satisfies Record<JournalCaseStatus, unknown>
+
+/**
+ * @returns a function giving the display name of a case status
+ */
+export function useJournalCaseStatusLabel() {
+  const {_} = useLingui()
+  return useCallback(
+    (status: JournalCaseStatus) => _(JOURNAL_CASE_STATUS_LABELS[status]),
+    [_],
+  )
+}
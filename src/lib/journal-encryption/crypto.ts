@@ -0,0 +1,132 @@
+import {xchacha20poly1305} from '@noble/ciphers/chacha'
+import {randomBytes} from '@noble/ciphers/webcrypto'
+import {pbkdf2Async} from '@noble/hashes/pbkdf2'
+import {sha256} from '@noble/hashes/sha256'
+import {bytesToHex, utf8ToBytes} from '@noble/hashes/utils'
+import {fromByteArray, toByteArray} from 'base64-js'
+
+export const JOURNAL_CIPHER_ALG = 'xchacha20-poly1305'
+export const JOURNAL_KDF = 'pbkdf2-sha256'
+export const JOURNAL_KDF_ITERATIONS = 210_000
+export const JOURNAL_KEY_LENGTH = 32
+const NONCE_LENGTH = 24
+const SALT_LENGTH = 16
+
+/**
+ * Public parameters needed to re-derive a journal key from the passphrase.
+ * These are safe to store in the user's repo; the derived key never is.
+ */
+export interface JournalKeyParams {
+  keyId: string
+  alg: typeof JOURNAL_CIPHER_ALG
+  kdf: typeof JOURNAL_KDF
+  salt: string
+  iterations: number
+  createdAt: string
+  retiredAt?: string
+}
+
+/**
+ * Sealed form of the sensitive fields of a journal record
+ */
+export interface EncryptedJournalPayload {
+  alg: typeof JOURNAL_CIPHER_ALG
+  keyId: string
+  nonce: string
+  ciphertext: string
+}
+
+export function generateKeyParams(): Omit<JournalKeyParams, 'keyId'> {
+  return {
+    alg: JOURNAL_CIPHER_ALG,
+    kdf: JOURNAL_KDF,
+    salt: fromByteArray(randomBytes(SALT_LENGTH)),
+    iterations: JOURNAL_KDF_ITERATIONS,
+    createdAt: new Date().toISOString(),
+  }
+}
+
+export async function deriveJournalKey(
+  passphrase: string,
+  params: Pick<JournalKeyParams, 'salt' | 'iterations'>,
+): Promise<Uint8Array> {
+  return pbkdf2Async(
+    sha256,
+    passphrase.normalize('NFKC'),
+    toByteArray(params.salt),
+    {
+      c: params.iterations,
+      dkLen: JOURNAL_KEY_LENGTH,
+    },
+  )
+}
+
+/**
+ * Short, non-reversible identifier for a key. Lets us tell which key sealed
+ * a record, and whether a passphrase produced the expected key.
+ */
+export function computeKeyId(key: Uint8Array): string {
+  return bytesToHex(sha256(key)).slice(0, 16)
+}
+
+export function sealPayload(
+  key: Uint8Array,
+  data: unknown,
+): EncryptedJournalPayload {
+  const nonce = randomBytes(NONCE_LENGTH)
+  const ciphertext = xchacha20poly1305(key, nonce).encrypt(
+    utf8ToBytes(JSON.stringify(data)),
+  )
+  return {
+    alg: JOURNAL_CIPHER_ALG,
+    keyId: computeKeyId(key),
+    nonce: fromByteArray(nonce),
+    ciphertext: fromByteArray(ciphertext),
+  }
+}
+
+/**
+ * Throws if the key is wrong or the ciphertext has been tampered with
+ */
+export function openPayload<T = unknown>(
+  key: Uint8Array,
+  payload: EncryptedJournalPayload,
+): T {
+  if (payload.alg !== JOURNAL_CIPHER_ALG) {
+    throw new Error(`Unsupported journal cipher: ${payload.alg}`)
+  }
+  const plaintext = xchacha20poly1305(key, toByteArray(payload.nonce)).decrypt(
+    toByteArray(payload.ciphertext),
+  )
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T
+}
+
+/**
+ * Encrypts a file's bytes. The nonce is prepended to the ciphertext so the
+ * result can be stored as a single blob.
+ */
+export function sealBytes(key: Uint8Array, bytes: Uint8Array): Uint8Array {
+  const nonce = randomBytes(NONCE_LENGTH)
+  const ciphertext = xchacha20poly1305(key, nonce).encrypt(bytes)
+  const sealed = new Uint8Array(NONCE_LENGTH + ciphertext.length)
+  sealed.set(nonce)
+  sealed.set(ciphertext, NONCE_LENGTH)
+  return sealed
+}
+
+/**
+ * Throws if the key is wrong or the bytes have been tampered with
+ */
+export function openBytes(key: Uint8Array, sealed: Uint8Array): Uint8Array {
+  return xchacha20poly1305(key, sealed.subarray(0, NONCE_LENGTH)).decrypt(
+    sealed.subarray(NONCE_LENGTH),
+  )
+}
+
+export function encodeKey(key: Uint8Array): string {
+  return fromByteArray(key)
+}
+
+export function decodeKey(encoded: string): Uint8Array {
+  return toByteArray(encoded)
+}
@@ -0,0 +1,322 @@
+import {logger} from '#/logger'
+import {
+  computeKeyId,
+  decodeKey,
+  deriveJournalKey,
+  encodeKey,
+  type EncryptedJournalPayload,
+  generateKeyParams,
+  type JournalKeyParams,
+  openBytes,
+  openPayload,
+  sealBytes,
+  sealPayload,
+} from './crypto'
+import {clearKeyring, loadKeyring, saveKeyring} from './keystore'
+import {decodeRecoveryPhrase, encodeRecoveryPhrase} from './recovery'
+
+export type {EncryptedJournalPayload, JournalKeyParams} from './crypto'
+
+/**
+ * Fields of an `app.warlog.journal` record that are sealed before the record
+ * leaves the device. Everything else (timestamps, entry type, tags, privacy)
+ * stays in plaintext so the PDS can still index and order entries.
+ */
+export const ENCRYPTED_JOURNAL_FIELDS = [
+  'text',
+  'symptoms',
+  'location',
+] as const
+
+// Contacts-only entries are sealed with the author's own key as well. Keys
+// are never shared, so contacts couldn't read them: the level is no longer
+// offered, and existing contacts-only entries are treated as private.
+const ENCRYPTED_PRIVACY_LEVELS = ['private', 'contacts']
+
+/**
+ * Client-side view flags added by `openJournalRecord`. Never written back.
+ */
+type OpenedFlags = {isEncrypted?: boolean; isLocked?: boolean}
+
+type JournalRecordLike = Record<string, any> & {
+  encrypted?: EncryptedJournalPayload
+  isPrivate?: boolean
+  visibility?: string
+  privacyLevel?: string
+}
+
+export class JournalKeyUnavailableError extends Error {
+  constructor() {
+    super('Your journal is locked on this device. Unlock it to continue.')
+    this.name = 'JournalKeyUnavailableError'
+  }
+}
+
+export function requiresEncryption(record: JournalRecordLike): boolean {
+  if (record.isPrivate) return true
+  if (
+    record.visibility &&
+    ENCRYPTED_PRIVACY_LEVELS.includes(record.visibility)
+  ) {
+    return true
+  }
+  if (
+    record.privacyLevel &&
+    ENCRYPTED_PRIVACY_LEVELS.includes(record.privacyLevel)
+  ) {
+    return true
+  }
+  return false
+}
+
+async function getActiveKey(
+  did: string,
+): Promise<{keyId: string; key: Uint8Array} | undefined> {
+  const keyring = await loadKeyring(did)
+  const keyId = keyring.activeKeyId
+  if (!keyId || !keyring.keys[keyId]) return undefined
+  return {keyId, key: decodeKey(keyring.keys[keyId])}
+}
+
+export async function hasActiveKey(did: string): Promise<boolean> {
+  return !!(await getActiveKey(did))
+}
+
+export async function getUnlockedKeyIds(did: string): Promise<string[]> {
+  const keyring = await loadKeyring(did)
+  return Object.keys(keyring.keys)
+}
+
+/**
+ * Encrypts the sensitive fields of a journal record if its privacy level
+ * calls for it. Public records are returned untouched. Contacts-only records
+ * are sealed with the author's key like private ones, so contacts see them
+ * locked.
+ *
+ * @throws JournalKeyUnavailableError if the record must be encrypted but no
+ * key has been unlocked on this device
+ */
+export async function sealJournalRecord<T extends JournalRecordLike>(
+  did: string,
+  record: T & OpenedFlags,
+): Promise<T> {
+  const {isEncrypted: _isEncrypted, isLocked, ...rest} = record
+  if (isLocked) {
+    // we never had the plaintext, so writing this back would wipe the entry
+    throw new JournalKeyUnavailableError()
+  }
+  if (rest.encrypted || !requiresEncryption(rest)) {
+    return rest as T
+  }
+
+  const active = await getActiveKey(did)
+  if (!active) {
+    throw new JournalKeyUnavailableError()
+  }
+
+  const sensitive: Record<string, unknown> = {}
+  const sealed: Record<string, unknown> = {...rest}
+  for (const field of ENCRYPTED_JOURNAL_FIELDS) {
+    if (rest[field] !== undefined) {
+      sensitive[field] = rest[field]
+    }
+    delete sealed[field]
+  }
+
+  return {
+    ...sealed,
+    // kept so that older clients which assume `text` is a string still render
+    text: '',
+    encrypted: sealPayload(active.key, sensitive),
+  } as unknown as T
+}
+
+/**
+ * Decrypts a journal record that was sealed by `sealJournalRecord`. Records
+ * that can't be opened on this device are returned with `isLocked: true` and
+ * no plaintext, rather than throwing, so lists can still render them.
+ */
+export async function openJournalRecord<T extends JournalRecordLike>(
+  did: string,
+  record: T,
+): Promise<T & OpenedFlags> {
+  const {encrypted, ...rest} = record
+  if (!encrypted) return record
+
+  const keyring = await loadKeyring(did)
+  const encodedKey = keyring.keys[encrypted.keyId]
+  if (!encodedKey) {
+    return {...record, isEncrypted: true, isLocked: true}
+  }
+
+  try {
+    const sensitive = openPayload<Record<string, unknown>>(
+      decodeKey(encodedKey),
+      encrypted,
+    )
+    return {...rest, ...sensitive, isEncrypted: true} as T & OpenedFlags
+  } catch (e) {
+    logger.error('Failed to decrypt journal record', {
+      message: String(e),
+      keyId: encrypted.keyId,
+    })
+    return {...record, isEncrypted: true, isLocked: true}
+  }
+}
+
+/**
+ * Encrypts arbitrary data with the active key, for things kept on the
+ * device rather than in a record
+ *
+ * @throws JournalKeyUnavailableError if no key has been unlocked
+ */
+export async function sealJournalData(
+  did: string,
+  data: unknown,
+): Promise<EncryptedJournalPayload> {
+  const active = await getActiveKey(did)
+  if (!active) {
+    throw new JournalKeyUnavailableError()
+  }
+  return sealPayload(active.key, data)
+}
+
+/**
+ * @throws JournalKeyUnavailableError if the key that sealed `payload` isn't
+ * on this device
+ */
+export async function openJournalData<T>(
+  did: string,
+  payload: EncryptedJournalPayload,
+): Promise<T> {
+  const keyring = await loadKeyring(did)
+  const encodedKey = keyring.keys[payload.keyId]
+  if (!encodedKey) {
+    throw new JournalKeyUnavailableError()
+  }
+  return openPayload<T>(decodeKey(encodedKey), payload)
+}
+
+/**
+ * Encrypts file contents with the active key, such as evidence uploaded
+ * alongside a private entry
+ *
+ * @throws JournalKeyUnavailableError if no key has been unlocked
+ */
+export async function sealJournalBytes(
+  did: string,
+  bytes: Uint8Array,
+): Promise<{keyId: string; sealed: Uint8Array}> {
+  const active = await getActiveKey(did)
+  if (!active) {
+    throw new JournalKeyUnavailableError()
+  }
+  return {keyId: active.keyId, sealed: sealBytes(active.key, bytes)}
+}
+
+/**
+ * @throws JournalKeyUnavailableError if the key `keyId` isn't on this device
+ */
+export async function openJournalBytes(
+  did: string,
+  keyId: string,
+  sealed: Uint8Array,
+): Promise<Uint8Array> {
+  const keyring = await loadKeyring(did)
+  const encodedKey = keyring.keys[keyId]
+  if (!encodedKey) {
+    throw new JournalKeyUnavailableError()
+  }
+  return openBytes(decodeKey(encodedKey), sealed)
+}
+
+/**
+ * Derives a brand new key from `passphrase` and makes it the active key on
+ * this device. Existing keys stay in the keyring for reading older entries.
+ *
+ * @returns the public parameters to persist alongside the user's settings
+ */
+export async function createJournalKey(
+  did: string,
+  passphrase: string,
+): Promise<JournalKeyParams> {
+  const base = generateKeyParams()
+  const key = await deriveJournalKey(passphrase, base)
+  const keyId = computeKeyId(key)
+  const keyring = await loadKeyring(did)
+  await saveKeyring(did, {
+    activeKeyId: keyId,
+    keys: {...keyring.keys, [keyId]: encodeKey(key)},
+  })
+  return {...base, keyId}
+}
+
+/**
+ * Re-derives every known key from `passphrase` and stores the ones that
+ * match. Used when setting up a new device or after a web session ends.
+ *
+ * @returns the key IDs that were unlocked; empty if the passphrase is wrong
+ */
+export async function unlockJournalKeys(
+  did: string,
+  passphrase: string,
+  params: JournalKeyParams[],
+  activeKeyId?: string,
+): Promise<string[]> {
+  const keyring = await loadKeyring(did)
+  const keys = {...keyring.keys}
+  const unlocked: string[] = []
+  for (const p of params) {
+    const key = await deriveJournalKey(passphrase, p)
+    if (computeKeyId(key) === p.keyId) {
+      keys[p.keyId] = encodeKey(key)
+      unlocked.push(p.keyId)
+    }
+  }
+  if (unlocked.length) {
+    await saveKeyring(did, {
+      activeKeyId:
+        activeKeyId && keys[activeKeyId] ? activeKeyId : keyring.activeKeyId,
+      keys,
+    })
+  }
+  return unlocked
+}
+
+/**
+ * Restores a key from a recovery phrase exported with
+ * `exportRecoveryPhrase`. The key must be one the user has registered.
+ */
+export async function restoreJournalKey(
+  did: string,
+  phrase: string,
+  params: JournalKeyParams[],
+  activeKeyId?: string,
+): Promise<string> {
+  const key = decodeRecoveryPhrase(phrase)
+  const keyId = computeKeyId(key)
+  if (!params.some(p => p.keyId === keyId)) {
+    throw new Error('This recovery phrase does not belong to your journal')
+  }
+  const keyring = await loadKeyring(did)
+  await saveKeyring(did, {
+    activeKeyId:
+      keyId === activeKeyId || !keyring.activeKeyId
+        ? keyId
+        : keyring.activeKeyId,
+    keys: {...keyring.keys, [keyId]: encodeKey(key)},
+  })
+  return keyId
+}
+
+export async function exportRecoveryPhrase(did: string): Promise<string> {
+  const active = await getActiveKey(did)
+  if (!active) {
+    throw new JournalKeyUnavailableError()
+  }
+  return encodeRecoveryPhrase(active.key)
+}
+
+export async function forgetJournalKeys(did: string) {
+  await clearKeyring(did)
+}
@@ -0,0 +1,45 @@
+import * as SecureStore from 'expo-secure-store'
+
+import {logger} from '#/logger'
+
+/**
+ * Raw journal keys held on this device, keyed by key ID. Retired keys are
+ * kept so that entries sealed before a rotation can still be opened.
+ */
+export interface JournalKeyring {
+  activeKeyId?: string
+  keys: Record<string, string>
+}
+
+const cache = new Map<string, JournalKeyring>()
+
+function storageKey(did: string) {
+  // SecureStore keys may only contain alphanumerics, `.`, `-` and `_`
+  return `journal-keyring.${did.replace(/[^A-Za-z0-9._-]/g, '_')}`
+}
+
+export async function loadKeyring(did: string): Promise<JournalKeyring> {
+  const cached = cache.get(did)
+  if (cached) return cached
+  try {
+    const raw = await SecureStore.getItemAsync(storageKey(did))
+    const keyring: JournalKeyring = raw ? JSON.parse(raw) : {keys: {}}
+    cache.set(did, keyring)
+    return keyring
+  } catch (e) {
+    logger.error('Failed to load journal keyring', {message: String(e)})
+    return {keys: {}}
+  }
+}
+
+export async function saveKeyring(did: string, keyring: JournalKeyring) {
+  await SecureStore.setItemAsync(storageKey(did), JSON.stringify(keyring), {
+    keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+  })
+  cache.set(did, keyring)
+}
+
+export async function clearKeyring(did: string) {
+  await SecureStore.deleteItemAsync(storageKey(did))
+  cache.delete(did)
+}
@@ -0,0 +1,26 @@
+/**
+ * Raw journal keys held on this device, keyed by key ID. Retired keys are
+ * kept so that entries sealed before a rotation can still be opened.
+ */
+export interface JournalKeyring {
+  activeKeyId?: string
+  keys: Record<string, string>
+}
+
+// Browsers have no equivalent of the iOS keychain / Android keystore, and
+// anything in localStorage is readable by any script on the origin. Keys are
+// therefore only held in memory on web: the user unlocks with their
+// passphrase once per session.
+const memory = new Map<string, JournalKeyring>()
+
+export async function loadKeyring(did: string): Promise<JournalKeyring> {
+  return memory.get(did) ?? {keys: {}}
+}
+
+export async function saveKeyring(did: string, keyring: JournalKeyring) {
+  memory.set(did, keyring)
+}
+
+export async function clearKeyring(did: string) {
+  memory.delete(did)
+}
@@ -0,0 +1,86 @@
+import {sha256} from '@noble/hashes/sha256'
+
+import {JOURNAL_KEY_LENGTH} from './crypto'
+
+// Crockford base32: no I, L, O or U, so the phrase survives being read aloud
+// or copied by hand
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+const CHECKSUM_LENGTH = 3
+const GROUP_SIZE = 4
+// Only the bits not yet written out are needed, so the buffer is kept short
+const BUFFER_SIZE = 2 ** 16
+
+/**
+ * Encodes a raw journal key as a human-transcribable recovery phrase, e.g.
+ * `7K3Q-W2ZD-...`. A short checksum is appended so that typos are caught on
+ * restore rather than silently producing the wrong key.
+ */
+export function encodeRecoveryPhrase(key: Uint8Array): string {
+  if (key.length !== JOURNAL_KEY_LENGTH) {
+    throw new Error('Invalid journal key length')
+  }
+  const bytes = new Uint8Array(key.length + CHECKSUM_LENGTH)
+  bytes.set(key)
+  bytes.set(sha256(key).slice(0, CHECKSUM_LENGTH), key.length)
+
+  let bits = 0
+  let value = 0
+  let out = ''
+  for (const byte of bytes) {
+    value = (value * 2 ** 8 + byte) % BUFFER_SIZE
+    bits += 8
+    while (bits >= 5) {
+      out += ALPHABET[Math.floor(value / 2 ** (bits - 5)) % 32]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    out += ALPHABET[(value * 2 ** (5 - bits)) % 32]
+  }
+
+  const groups: string[] = []
+  for (let i = 0; i < out.length; i += GROUP_SIZE) {
+    groups.push(out.slice(i, i + GROUP_SIZE))
+  }
+  return groups.join('-')
+}
+
+/**
+ * Inverse of `encodeRecoveryPhrase`. Throws if the phrase is malformed or the
+ * checksum doesn't match.
+ */
+export function decodeRecoveryPhrase(phrase: string): Uint8Array {
+  const normalized = phrase
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/[IL]/g, '1')
+    .replace(/O/g, '0')
+
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+  for (const char of normalized) {
+    const index = ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Recovery phrase contains invalid characters')
+    }
+    value = (value * 2 ** 5 + index) % BUFFER_SIZE
+    bits += 5
+    if (bits >= 8) {
+      bytes.push(Math.floor(value / 2 ** (bits - 8)) % 2 ** 8)
+      bits -= 8
+    }
+  }
+
+  if (bytes.length !== JOURNAL_KEY_LENGTH + CHECKSUM_LENGTH) {
+    throw new Error('Recovery phrase has the wrong length')
+  }
+  const key = Uint8Array.from(bytes.slice(0, JOURNAL_KEY_LENGTH))
+  const checksum = sha256(key).slice(0, CHECKSUM_LENGTH)
+  for (let i = 0; i < CHECKSUM_LENGTH; i++) {
+    if (checksum[i] !== bytes[JOURNAL_KEY_LENGTH + i]) {
+      throw new Error('Recovery phrase checksum does not match')
+    }
+  }
+  return key
+}
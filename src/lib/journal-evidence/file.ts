@@ -0,0 +1,93 @@
+import uuid from 'react-native-uuid'
+import {
+  cacheDirectory,
+  deleteAsync,
+  downloadAsync,
+  EncodingType,
+  readAsStringAsync,
+  writeAsStringAsync,
+} from 'expo-file-system'
+import {ImageManipulator, SaveFormat} from 'expo-image-manipulator'
+import {createVideoPlayer} from 'expo-video'
+import {fromByteArray, toByteArray} from 'base64-js'
+
+import {type JournalEvidenceType} from '#/lib/journal-record'
+import {THUMBNAIL_WIDTH} from './index'
+
+/**
+ * Reads an evidence file, downloading it first if it isn't on the device
+ */
+export async function readEvidenceBytes(uri: string): Promise<Uint8Array> {
+  if (!/^https?:/.test(uri)) {
+    return readBytes(uri)
+  }
+  const path = `${cacheDirectory ?? ''}/${uuid.v4()}`
+  try {
+    await downloadAsync(uri, path)
+    return await readBytes(path)
+  } finally {
+    deleteAsync(path, {idempotent: true}).catch(() => {})
+  }
+}
+
+/**
+ * Writes bytes to a temporary file. Release it with `releaseEvidenceFile`.
+ */
+export async function writeEvidenceFile(
+  bytes: Uint8Array,
+  _mimeType: string,
+): Promise<string> {
+  const path = `${cacheDirectory ?? ''}/${uuid.v4()}`
+  await writeAsStringAsync(path, fromByteArray(bytes), {
+    encoding: EncodingType.Base64,
+  })
+  return path
+}
+
+export async function releaseEvidenceFile(uri: string) {
+  await deleteAsync(uri, {idempotent: true})
+}
+
+/**
+ * What `uploadBlob` needs for a file. Native uploads straight from the file.
+ */
+export async function toUploadableEvidence(uri: string): Promise<string> {
+  return uri
+}
+
+/**
+ * Renders a small JPEG preview of an image, or of a video's first frame
+ *
+ * @returns the preview's file URI, or undefined for other kinds of evidence
+ */
+export async function createEvidenceThumbnail(
+  uri: string,
+  type: JournalEvidenceType,
+): Promise<string | undefined> {
+  if (type === 'image') {
+    return await renderThumbnail(ImageManipulator.manipulate(uri))
+  }
+  if (type === 'video') {
+    const player = createVideoPlayer(uri)
+    try {
+      const [frame] = await player.generateThumbnailsAsync([0])
+      return await renderThumbnail(ImageManipulator.manipulate(frame))
+    } finally {
+      player.release()
+    }
+  }
+  return undefined
+}
+
+async function renderThumbnail(
+  context: ReturnType<typeof ImageManipulator.manipulate>,
+) {
+  const image = await context.resize({width: THUMBNAIL_WIDTH}).renderAsync()
+  const {uri} = await image.saveAsync({format: SaveFormat.JPEG, compress: 0.7})
+  return uri
+}
+
+async function readBytes(uri: string) {
+  const encoded = await readAsStringAsync(uri, {encoding: EncodingType.Base64})
+  return toByteArray(encoded)
+}
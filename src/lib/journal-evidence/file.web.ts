@@ -0,0 +1,82 @@
+import {type JournalEvidenceType} from '#/lib/journal-record'
+import {THUMBNAIL_WIDTH} from './index'
+
+/**
+ * Reads an evidence file. Works for blob:, data: and same-origin or
+ * CORS-enabled http URLs.
+ */
+export async function readEvidenceBytes(uri: string): Promise<Uint8Array> {
+  const response = await fetch(uri)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch evidence file: ${response.status}`)
+  }
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+/**
+ * Wraps bytes in an object URL. Release it with `releaseEvidenceFile`.
+ */
+export async function writeEvidenceFile(
+  bytes: Uint8Array,
+  mimeType: string,
+): Promise<string> {
+  return URL.createObjectURL(new Blob([bytes], {type: mimeType}))
+}
+
+export async function releaseEvidenceFile(uri: string) {
+  if (uri.startsWith('blob:')) URL.revokeObjectURL(uri)
+}
+
+/**
+ * What `uploadBlob` needs for a file. Object URLs have to be read into a
+ * Blob first.
+ */
+export async function toUploadableEvidence(uri: string): Promise<Blob> {
+  const response = await fetch(uri)
+  return response.blob()
+}
+
+/**
+ * Renders a small JPEG preview of an image, or of a video's first frame
+ *
+ * @returns the preview as a data URI, or undefined for other kinds of
+ * evidence
+ */
+export async function createEvidenceThumbnail(
+  uri: string,
+  type: JournalEvidenceType,
+): Promise<string | undefined> {
+  if (type === 'image') {
+    const image = new Image()
+    image.src = uri
+    await image.decode()
+    return drawThumbnail(image, image.naturalWidth, image.naturalHeight)
+  }
+  if (type === 'video') {
+    const video = document.createElement('video')
+    video.muted = true
+    video.preload = 'auto'
+    video.src = uri
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve()
+      video.onerror = () => reject(new Error('Failed to load video'))
+    })
+    return drawThumbnail(video, video.videoWidth, video.videoHeight)
+  }
+  return undefined
+}
+
+function drawThumbnail(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+): string {
+  const scale = Math.min(1, THUMBNAIL_WIDTH / width)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(width * scale)
+  canvas.height = Math.round(height * scale)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas is not available')
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL('image/jpeg', 0.7)
+}
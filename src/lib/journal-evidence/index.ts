@@ -0,0 +1,170 @@
+import {
+  type JournalEvidenceAttachment,
+  type JournalEvidenceType,
+} from '#/lib/journal-record'
+
+export const MAX_EVIDENCE_ATTACHMENTS = 10
+
+const MB = 1024 * 1024
+
+/**
+ * What can be attached as evidence, and how big it can be. Sizes stay under
+ * the PDS blob limit once encryption overhead is added.
+ */
+export const JOURNAL_EVIDENCE_LIMITS: Record<
+  JournalEvidenceType,
+  {maxSize: number; mimeTypes: string[]}
+> = {
+  image: {
+    maxSize: 10 * MB,
+    mimeTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+      'image/heic',
+      'image/heif',
+      'image/gif',
+    ],
+  },
+  video: {
+    maxSize: 50 * MB,
+    mimeTypes: ['video/mp4', 'video/quicktime', 'video/webm', 'video/mpeg'],
+  },
+  audio: {
+    maxSize: 25 * MB,
+    mimeTypes: [
+      'audio/mpeg',
+      'audio/mp4',
+      'audio/x-m4a',
+      'audio/aac',
+      'audio/wav',
+      'audio/x-wav',
+      'audio/webm',
+      'audio/ogg',
+    ],
+  },
+  document: {
+    maxSize: 10 * MB,
+    mimeTypes: [
+      'application/pdf',
+      'text/plain',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ],
+  },
+}
+
+export const THUMBNAIL_WIDTH = 320
+
+/**
+ * A file picked or captured on the device, before it's uploaded
+ */
+export interface JournalEvidenceFile {
+  uri: string
+  mimeType: string
+  filename: string
+  size: number
+  capturedAt?: string
+}
+
+export class JournalEvidenceValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JournalEvidenceValidationError'
+  }
+}
+
+export class JournalEvidencePermissionError extends Error {
+  constructor() {
+    super('Camera access is needed to capture evidence')
+    this.name = 'JournalEvidencePermissionError'
+  }
+}
+
+export function getEvidenceType(
+  mimeType: string,
+): JournalEvidenceType | undefined {
+  const normalized = mimeType.toLowerCase().split(';')[0].trim()
+  for (const [type, {mimeTypes}] of Object.entries(JOURNAL_EVIDENCE_LIMITS)) {
+    if (mimeTypes.includes(normalized)) return type as JournalEvidenceType
+  }
+  return undefined
+}
+
+/**
+ * @returns the kind of evidence the file is
+ * @throws JournalEvidenceValidationError if the file type isn't supported or
+ * the file is too big
+ */
+export function validateEvidenceFile(
+  file: Pick<JournalEvidenceFile, 'mimeType' | 'size' | 'filename'>,
+): JournalEvidenceType {
+  const type = getEvidenceType(file.mimeType)
+  if (!type) {
+    throw new JournalEvidenceValidationError(
+      `${file.filename} can't be attached: ${file.mimeType || 'unknown'} files aren't supported`,
+    )
+  }
+  const {maxSize} = JOURNAL_EVIDENCE_LIMITS[type]
+  if (file.size > maxSize) {
+    throw new JournalEvidenceValidationError(
+      `${file.filename} is too large. The limit for this kind of file is ${maxSize / MB} MB.`,
+    )
+  }
+  return type
+}
+
+export function hasEvidenceThumbnail(type: JournalEvidenceType): boolean {
+  return type === 'image' || type === 'video'
+}
+
+/**
+ * URL of an uploaded blob on the author's PDS
+ */
+export function getEvidenceBlobUrl(
+  serviceUrl: string,
+  did: string,
+  cid: string,
+): string {
+  const url = new URL('/xrpc/com.atproto.sync.getBlob', serviceUrl)
+  url.searchParams.set('did', did)
+  url.searchParams.set('cid', cid)
+  return url.toString()
+}
+
+/**
+ * Reads EXIF's `YYYY:MM:DD HH:MM:SS` date format, which has no time zone and
+ * so is taken as device time
+ */
+export function parseExifDate(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/)
+  if (!match) return undefined
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number)
+  const date = new Date(year, month - 1, day, hour, minute, second)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * The `accept` list for a file input, covering every supported type
+ */
+export function getEvidenceAcceptList(types: JournalEvidenceType[]): string {
+  return types
+    .flatMap(type => JOURNAL_EVIDENCE_LIMITS[type].mimeTypes)
+    .join(',')
+}
+
+/**
+ * URL of an evidence item's thumbnail, on the same PDS as the file itself
+ */
+export function getEvidenceThumbnailUrl(
+  evidence: Pick<JournalEvidenceAttachment, 'uri' | 'thumbnail'>,
+): string | undefined {
+  if (!evidence.thumbnail || !/^https?:/.test(evidence.uri)) return undefined
+  const url = new URL(evidence.uri)
+  // Records read back as JSON, such as drafts, hold the ref in its IPLD form
+  // rather than as a CID
+  const ref = evidence.thumbnail.ref as unknown as {$link?: string}
+  url.searchParams.set('cid', ref.$link ?? String(evidence.thumbnail.ref))
+  return url.toString()
+}
@@ -0,0 +1,70 @@
+import {
+  type ImagePickerAsset,
+  launchCameraAsync,
+  launchImageLibraryAsync,
+  requestCameraPermissionsAsync,
+} from 'expo-image-picker'
+
+import {
+  type JournalEvidenceFile,
+  JournalEvidencePermissionError,
+  MAX_EVIDENCE_ATTACHMENTS,
+  parseExifDate,
+} from './index'
+
+/**
+ * Whether audio and documents can be picked. Only photos and videos can be
+ * picked on native for now.
+ */
+export const canPickEvidenceFiles = false
+
+export async function pickEvidenceMedia(): Promise<JournalEvidenceFile[]> {
+  const response = await launchImageLibraryAsync({
+    mediaTypes: ['images', 'videos'],
+    allowsMultipleSelection: true,
+    selectionLimit: MAX_EVIDENCE_ATTACHMENTS,
+    quality: 1,
+    // only read for the capture time
+    exif: true,
+    legacy: true,
+  })
+  return (response.assets ?? []).map(asset => toEvidenceFile(asset))
+}
+
+/**
+ * @throws JournalEvidencePermissionError if camera access was refused
+ */
+export async function captureEvidence(): Promise<JournalEvidenceFile[]> {
+  const {granted} = await requestCameraPermissionsAsync()
+  if (!granted) {
+    throw new JournalEvidencePermissionError()
+  }
+  const response = await launchCameraAsync({
+    mediaTypes: ['images', 'videos'],
+    quality: 1,
+    exif: false,
+  })
+  return (response.assets ?? []).map(asset =>
+    toEvidenceFile(asset, new Date().toISOString()),
+  )
+}
+
+export async function pickEvidenceFiles(): Promise<JournalEvidenceFile[]> {
+  return []
+}
+
+function toEvidenceFile(
+  asset: ImagePickerAsset,
+  capturedAt?: string,
+): JournalEvidenceFile {
+  const isVideo = asset.type === 'video'
+  return {
+    uri: asset.uri,
+    mimeType: asset.mimeType ?? (isVideo ? 'video/mp4' : 'image/jpeg'),
+    filename: asset.fileName ?? asset.uri.split('/').pop() ?? '',
+    size: asset.fileSize ?? 0,
+    capturedAt:
+      capturedAt ??
+      parseExifDate(asset.exif?.DateTimeOriginal ?? asset.exif?.DateTime),
+  }
+}
@@ -0,0 +1,45 @@
+import {getEvidenceAcceptList, type JournalEvidenceFile} from './index'
+
+export const canPickEvidenceFiles = true
+
+export function pickEvidenceMedia(): Promise<JournalEvidenceFile[]> {
+  return pickFiles(getEvidenceAcceptList(['image', 'video']))
+}
+
+export async function captureEvidence(): Promise<JournalEvidenceFile[]> {
+  return pickFiles(getEvidenceAcceptList(['image', 'video']), 'environment')
+}
+
+export function pickEvidenceFiles(): Promise<JournalEvidenceFile[]> {
+  return pickFiles(getEvidenceAcceptList(['audio', 'document']))
+}
+
+/**
+ * Opens the browser's file picker. Picked files are wrapped in object URLs,
+ * which the caller releases once they're uploaded.
+ */
+function pickFiles(
+  accept: string,
+  capture?: 'environment',
+): Promise<JournalEvidenceFile[]> {
+  return new Promise(resolve => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.multiple = !capture
+    input.accept = accept
+    if (capture) input.setAttribute('capture', capture)
+    input.onchange = () => {
+      resolve(
+        Array.from(input.files ?? []).map(file => ({
+          uri: URL.createObjectURL(file),
+          mimeType: file.type,
+          filename: file.name,
+          size: file.size,
+          capturedAt: new Date(file.lastModified).toISOString(),
+        })),
+      )
+    }
+    input.oncancel = () => resolve([])
+    input.click()
+  })
+}
@@ -0,0 +1,453 @@
+import {utf8ToBytes} from '@noble/hashes/utils'
+
+import {type JournalCase} from '#/lib/journal-cases'
+import {
+  canonicalJSON,
+  hashBytes,
+  type JournalIntegrity,
+} from '#/lib/journal-integrity'
+import {getRecordPrivacyLevel} from '#/lib/journal-record'
+import {
+  type JournalAccessEvent,
+  type JournalFeedFilters,
+  type JournalPrivacyLevel,
+} from '#/state/queries/journal/types'
+import {
+  type JournalFilterSubject,
+  matchesJournalFeedFilters,
+} from '#/state/queries/journal/utils'
+
+export type JournalExportFormat = 'json' | 'csv' | 'pdf'
+
+/**
+ * A journal entry flattened into the shape every export format is built
+ * from. Built from an opened record, so encrypted entries are in plaintext
+ * unless `isLocked` is set.
+ */
+export interface JournalExportEntry {
+  uri: string
+  createdAt: string
+  incidentTimestamp?: string
+  entryType: 'real_time' | 'backdated'
+  privacyLevel: JournalPrivacyLevel
+  text: string
+  location?: {
+    latitude: number
+    longitude: number
+    address?: string
+    accuracy?: number
+  }
+  symptoms: Array<{category: string; severity: number; notes?: string}>
+  tags: string[]
+  sourceIds: string[]
+  evidence: string[]
+  isLocked: boolean
+  integrity?: JournalIntegrity
+  // versions of the entry that edits replaced, oldest first
+  revisions?: JournalExportRevision[]
+}
+
+/**
+ * An earlier version of an entry. `cid` is the CID it had while it was
+ * current and `revisedAt` is when an edit replaced it.
+ */
+export type JournalExportRevision = Omit<
+  JournalExportEntry,
+  'uri' | 'revisions'
+> & {
+  cid: string
+  revisedAt: string
+}
+
+export interface JournalExportOptions {
+  includeEvidence: boolean
+  exportedAt?: string
+  exportedBy?: string
+  // the case the export was scoped to, if any
+  journalCase?: Pick<
+    JournalCase,
+    'title' | 'summary' | 'status' | 'keyDates' | 'sources'
+  >
+}
+
+const EXPORT_VERSION = 1
+
+/**
+ * Normalises a journal record, as returned by `openJournalRecord`, into an
+ * export entry. Older records kept evidence as bare URIs.
+ */
+export function toJournalExportEntry(
+  record: {uri: string} & Record<string, any>,
+): JournalExportEntry {
+  const evidence: string[] = [
+    ...(record.evidenceUris ?? []),
+    ...(record.evidenceAttachments ?? []).map((e: any) => e.uri ?? e.cid),
+  ].filter(Boolean)
+
+  return {
+    uri: record.uri,
+    createdAt: record.createdAt,
+    incidentTimestamp: record.incidentTimestamp,
+    entryType: record.entryType === 'backdated' ? 'backdated' : 'real_time',
+    privacyLevel: getRecordPrivacyLevel(record),
+    text: record.text ?? '',
+    location: record.location,
+    symptoms: record.symptoms ?? [],
+    tags: record.tags ?? [],
+    sourceIds: record.sourceIds ?? [],
+    evidence,
+    isLocked: !!record.isLocked,
+    integrity: record.integrity,
+  }
+}
+
+export function toJournalExportRevision(
+  record: {uri: string; cid: string} & Record<string, any>,
+  revisedAt: string,
+): JournalExportRevision {
+  const {uri: _uri, ...entry} = toJournalExportEntry(record)
+  return {...entry, cid: record.cid, revisedAt}
+}
+
+export function toJournalFilterSubject(
+  entry: JournalExportEntry,
+): JournalFilterSubject {
+  return {
+    createdAt: entry.createdAt,
+    privacyLevel: entry.privacyLevel,
+    tags: entry.tags,
+    evidenceCount: entry.evidence.length,
+    sourceCount: entry.sourceIds.length,
+    // locked entries have no symptoms or location to filter on
+    symptoms: entry.isLocked ? undefined : entry.symptoms,
+    location: entry.isLocked ? undefined : entry.location,
+  }
+}
+
+/**
+ * @param entryUris when set, only these entries are kept, e.g. the entries
+ * of the case the export is scoped to
+ */
+export function filterJournalExportEntries(
+  entries: JournalExportEntry[],
+  {
+    includePrivate,
+    dateRange,
+    filters,
+    entryUris,
+  }: {
+    includePrivate: boolean
+    dateRange?: {start: string; end: string}
+    filters?: JournalFeedFilters
+    entryUris?: Set<string>
+  },
+): JournalExportEntry[] {
+  return entries.filter(entry => {
+    if (entryUris && !entryUris.has(entry.uri)) return false
+    if (!includePrivate && entry.privacyLevel === 'private') return false
+    const subject = toJournalFilterSubject(entry)
+    if (dateRange && !matchesJournalFeedFilters(subject, {dateRange})) {
+      return false
+    }
+    return matchesJournalFeedFilters(subject, filters)
+  })
+}
+
+/**
+ * The time an entry is about: when the incident happened for backdated
+ * entries, otherwise when it was written
+ */
+function getEventTime(entry: JournalExportEntry) {
+  return entry.incidentTimestamp || entry.createdAt
+}
+
+export function sortChronologically(
+  entries: JournalExportEntry[],
+): JournalExportEntry[] {
+  return [...entries].sort(
+    (a, b) =>
+      new Date(getEventTime(a)).getTime() - new Date(getEventTime(b)).getTime(),
+  )
+}
+
+function withoutEvidence<T extends Omit<JournalExportEntry, 'uri'>>(
+  entry: T,
+  include: boolean,
+): T {
+  if (include) return entry
+  return {
+    ...entry,
+    evidence: [],
+    integrity: entry.integrity && {...entry.integrity, evidence: undefined},
+    revisions: entry.revisions?.map(revision =>
+      withoutEvidence(revision, include),
+    ),
+  }
+}
+
+export function buildJournalExportJSON(
+  entries: JournalExportEntry[],
+  {includeEvidence, exportedAt, exportedBy, journalCase}: JournalExportOptions,
+): string {
+  const exported = sortChronologically(entries).map(entry =>
+    withoutEvidence(entry, includeEvidence),
+  )
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      exportedAt: exportedAt ?? new Date().toISOString(),
+      exportedBy,
+      case: journalCase,
+      entryCount: entries.length,
+      // SHA-256 of the canonical JSON of `entries`
+      checksum: hashBytes(utf8ToBytes(canonicalJSON(exported))),
+      entries: exported,
+    },
+    null,
+    2,
+  )
+}
+
+const CSV_COLUMNS = [
+  'uri',
+  'createdAt',
+  'incidentTimestamp',
+  'entryType',
+  'privacyLevel',
+  'text',
+  'latitude',
+  'longitude',
+  'address',
+  'symptoms',
+  'tags',
+  'sources',
+  'evidence',
+  'locked',
+  'revisedAt',
+] as const
+
+/**
+ * Quotes a CSV field per RFC 4180. Fields that a spreadsheet would treat as a
+ * formula are prefixed with a quote mark so opening the export can't run
+ * anything. Plain numbers such as negative coordinates are left alone.
+ */
+export function escapeCSVField(value: string): string {
+  let field = value
+  if (/^[=+\-@\t\r]/.test(field) && !/^[-+]?\d+(\.\d+)?$/.test(field)) {
+    field = `'${field}`
+  }
+  if (/[",\r\n]/.test(field)) {
+    return `"${field.replace(/"/g, '""')}"`
+  }
+  return field
+}
+
+/**
+ * One row per entry, oldest first. An edited entry's earlier versions come
+ * just before it, with `revisedAt` set to when each was replaced.
+ */
+export function buildJournalExportCSV(
+  entries: JournalExportEntry[],
+  {includeEvidence}: JournalExportOptions,
+): string {
+  const versions = sortChronologically(entries).flatMap(entry => [
+    ...(entry.revisions ?? []).map(revision => ({...revision, uri: entry.uri})),
+    entry,
+  ])
+  const rows = versions.map(entry => {
+    const values: Record<(typeof CSV_COLUMNS)[number], string> = {
+      uri: entry.uri,
+      createdAt: entry.createdAt,
+      incidentTimestamp: entry.incidentTimestamp ?? '',
+      entryType: entry.entryType,
+      privacyLevel: entry.privacyLevel,
+      text: entry.text,
+      latitude: entry.location ? String(entry.location.latitude) : '',
+      longitude: entry.location ? String(entry.location.longitude) : '',
+      address: entry.location?.address ?? '',
+      symptoms: entry.symptoms
+        .map(symptom => `${symptom.category}:${symptom.severity}`)
+        .join('; '),
+      tags: entry.tags.join('; '),
+      sources: entry.sourceIds.join('; '),
+      evidence: includeEvidence ? entry.evidence.join('; ') : '',
+      locked: entry.isLocked ? 'true' : 'false',
+      revisedAt: 'revisedAt' in entry ? entry.revisedAt : '',
+    }
+    return CSV_COLUMNS.map(column => escapeCSVField(values[column])).join(',')
+  })
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+const ACCESS_LOG_CSV_COLUMNS = [
+  'accessedAt',
+  'viewerDid',
+  'viewerHandle',
+  'accessPath',
+  'entryUri',
+] as const
+
+/**
+ * One row per view of an entry, oldest first
+ */
+export function buildJournalAccessLogCSV(events: JournalAccessEvent[]): string {
+  const rows = [...events]
+    .sort(
+      (a, b) =>
+        new Date(a.accessedAt).getTime() - new Date(b.accessedAt).getTime(),
+    )
+    .map(event =>
+      ACCESS_LOG_CSV_COLUMNS.map(column =>
+        escapeCSVField(event[column] ?? ''),
+      ).join(','),
+    )
+  return [ACCESS_LOG_CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+export function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export interface JournalReportStrings {
+  title: string
+  generated: string
+  entries: string
+  recorded: string
+  backdated: string
+  location: string
+  symptoms: string
+  tags: string
+  evidence: string
+  locked: string
+  // precedes the title of the case the report is scoped to
+  case: string
+  // heads the earlier versions of an edited entry
+  earlierVersions: string
+  // precedes the time an earlier version was replaced
+  replaced: string
+}
+
+const REPORT_CSS = `
+body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111; margin: 32px; }
+h1 { font-size: 22px; margin: 0 0 4px; }
+.meta { color: #555; font-size: 12px; margin-bottom: 24px; }
+.case { font-size: 13px; margin-bottom: 24px; }
+.entry { border-top: 1px solid #ccc; padding: 12px 0; page-break-inside: avoid; }
+.time { font-weight: bold; font-size: 14px; }
+.note { color: #8a4b00; font-size: 12px; }
+.text { white-space: pre-wrap; margin: 8px 0; font-size: 13px; }
+.field { font-size: 12px; color: #333; margin: 2px 0; }
+.locked { color: #8a0000; font-style: italic; font-size: 12px; }
+.revisions { border-left: 3px solid #ddd; padding-left: 12px; margin-top: 8px; color: #555; }
+@media print { body { margin: 0; } }
+`
+
+/**
+ * Builds a printable, chronological report of the entries. Strings are
+ * passed in already translated so this stays independent of lingui.
+ */
+export function buildJournalReportHTML(
+  entries: JournalExportEntry[],
+  strings: JournalReportStrings,
+  {includeEvidence, exportedAt, journalCase}: JournalExportOptions,
+): string {
+  const formatDate = (iso: string) => new Date(iso).toLocaleString()
+  const field = (label: string, value: string) =>
+    `<div class="field"><strong>${escapeHTML(label)}:</strong> ${escapeHTML(
+      value,
+    )}</div>`
+
+  const body = sortChronologically(entries)
+    .map(entry => {
+      const parts = [
+        `<div class="time">${escapeHTML(
+          formatDate(getEventTime(entry)),
+        )}</div>`,
+      ]
+      if (entry.entryType === 'backdated' && entry.incidentTimestamp) {
+        parts.push(
+          `<div class="note">${escapeHTML(strings.backdated)} ${escapeHTML(
+            strings.recorded,
+          )} ${escapeHTML(formatDate(entry.createdAt))}</div>`,
+        )
+      }
+      if (entry.isLocked) {
+        parts.push(`<div class="locked">${escapeHTML(strings.locked)}</div>`)
+      } else {
+        parts.push(`<div class="text">${escapeHTML(entry.text)}</div>`)
+        if (entry.location) {
+          parts.push(
+            field(
+              strings.location,
+              entry.location.address ||
+                `${entry.location.latitude.toFixed(4)}, ${entry.location.longitude.toFixed(4)}`,
+            ),
+          )
+        }
+        if (entry.symptoms.length) {
+          parts.push(
+            field(
+              strings.symptoms,
+              entry.symptoms
+                .map(symptom => `${symptom.category} (${symptom.severity}/10)`)
+                .join(', '),
+            ),
+          )
+        }
+      }
+      if (entry.tags.length) {
+        parts.push(field(strings.tags, entry.tags.join(', ')))
+      }
+      if (includeEvidence && entry.evidence.length) {
+        parts.push(field(strings.evidence, entry.evidence.join(', ')))
+      }
+      if (entry.revisions?.length) {
+        const revisions = entry.revisions.map(
+          revision =>
+            `<div class="note">${escapeHTML(strings.replaced)} ${escapeHTML(
+              formatDate(revision.revisedAt),
+            )}</div>${
+              revision.isLocked
+                ? `<div class="locked">${escapeHTML(strings.locked)}</div>`
+                : `<div class="text">${escapeHTML(revision.text)}</div>`
+            }`,
+        )
+        parts.push(
+          `<div class="revisions">${field(
+            strings.earlierVersions,
+            String(entry.revisions.length),
+          )}${revisions.join('')}</div>`,
+        )
+      }
+      return `<div class="entry">${parts.join('')}</div>`
+    })
+    .join('\n')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(strings.title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>${escapeHTML(strings.title)}</h1>
+<div class="meta">${escapeHTML(strings.generated)} ${escapeHTML(
+    formatDate(exportedAt ?? new Date().toISOString()),
+  )} · ${escapeHTML(strings.entries)}: ${entries.length}</div>
+${
+  journalCase
+    ? `<div class="case"><strong>${escapeHTML(strings.case)}: ${escapeHTML(
+        journalCase.title,
+      )}</strong><div class="text">${escapeHTML(journalCase.summary)}</div></div>`
+    : ''
+}
+${body}
+</body>
+</html>`
+}
@@ -0,0 +1,55 @@
+import {
+  cacheDirectory,
+  deleteAsync,
+  EncodingType,
+  moveAsync,
+  writeAsStringAsync,
+} from 'expo-file-system'
+import {printToFileAsync} from 'expo-print'
+import * as Sharing from 'expo-sharing'
+
+export const MIME_TYPES = {
+  json: 'application/json',
+  csv: 'text/csv',
+  pdf: 'application/pdf',
+  // citations
+  bib: 'application/x-bibtex',
+  ris: 'application/x-research-info-systems',
+  txt: 'text/plain',
+} as const
+
+/**
+ * Writes the export to a temporary file and opens the share sheet for it,
+ * so the user can save it or send it on. PDFs are rendered from HTML.
+ */
+export async function shareJournalExport({
+  filename,
+  format,
+  content,
+}: {
+  filename: string
+  format: keyof typeof MIME_TYPES
+  content: string
+}) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device')
+  }
+
+  // cacheDirectory will never be null on native
+  const path = `${cacheDirectory ?? ''}/${filename}`
+  if (format === 'pdf') {
+    const {uri} = await printToFileAsync({html: content})
+    await moveAsync({from: uri, to: path})
+  } else {
+    await writeAsStringAsync(path, content, {encoding: EncodingType.UTF8})
+  }
+
+  try {
+    await Sharing.shareAsync(path, {
+      mimeType: MIME_TYPES[format],
+      dialogTitle: filename,
+    })
+  } finally {
+    deleteAsync(path, {idempotent: true}).catch(() => {})
+  }
+}
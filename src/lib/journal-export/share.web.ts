@@ -0,0 +1,57 @@
+export const MIME_TYPES = {
+  json: 'application/json',
+  csv: 'text/csv',
+  pdf: 'application/pdf',
+  // citations
+  bib: 'application/x-bibtex',
+  ris: 'application/x-research-info-systems',
+  txt: 'text/plain',
+} as const
+
+/**
+ * Downloads the export. For PDFs the report is opened in a hidden frame and
+ * handed to the browser's print dialog, where it can be saved as a PDF.
+ */
+export async function shareJournalExport({
+  filename,
+  format,
+  content,
+}: {
+  filename: string
+  format: keyof typeof MIME_TYPES
+  content: string
+}) {
+  if (format === 'pdf') {
+    const iframe = document.createElement('iframe')
+    iframe.style.position = 'fixed'
+    iframe.style.width = '0'
+    iframe.style.height = '0'
+    iframe.style.border = '0'
+    document.body.appendChild(iframe)
+    const frameWindow = iframe.contentWindow
+    if (!frameWindow) {
+      iframe.remove()
+      throw new Error('Unable to open the print dialog')
+    }
+    frameWindow.document.open()
+    frameWindow.document.write(content)
+    frameWindow.document.close()
+    frameWindow.focus()
+    frameWindow.print()
+    // print() blocks until the dialog is closed in most browsers
+    setTimeout(() => iframe.remove(), 1000)
+    return
+  }
+
+  const blob = new Blob([content], {
+    type: `${MIME_TYPES[format]};charset=utf-8`,
+  })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
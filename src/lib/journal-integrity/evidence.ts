@@ -0,0 +1,32 @@
+import uuid from 'react-native-uuid'
+import {
+  cacheDirectory,
+  deleteAsync,
+  downloadAsync,
+  EncodingType,
+  readAsStringAsync,
+} from 'expo-file-system'
+import {toByteArray} from 'base64-js'
+
+import {hashBytes} from './index'
+
+/**
+ * Hashes an evidence file, downloading it first if it isn't on the device
+ */
+export async function hashEvidenceFile(uri: string): Promise<string> {
+  if (!/^https?:/.test(uri)) {
+    return hashBytes(await readBytes(uri))
+  }
+  const path = `${cacheDirectory ?? ''}/${uuid.v4()}`
+  try {
+    await downloadAsync(uri, path)
+    return hashBytes(await readBytes(path))
+  } finally {
+    deleteAsync(path, {idempotent: true}).catch(() => {})
+  }
+}
+
+async function readBytes(uri: string) {
+  const encoded = await readAsStringAsync(uri, {encoding: EncodingType.Base64})
+  return toByteArray(encoded)
+}
@@ -0,0 +1,13 @@
+import {hashBytes} from './index'
+
+/**
+ * Hashes an evidence file. Works for blob:, data: and same-origin or
+ * CORS-enabled http URLs.
+ */
+export async function hashEvidenceFile(uri: string): Promise<string> {
+  const response = await fetch(uri)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch evidence file: ${response.status}`)
+  }
+  return hashBytes(new Uint8Array(await response.arrayBuffer()))
+}
@@ -0,0 +1,285 @@
+import {ed25519} from '@noble/curves/ed25519'
+import {sha256} from '@noble/hashes/sha256'
+import {bytesToHex, hexToBytes, utf8ToBytes} from '@noble/hashes/utils'
+
+export const JOURNAL_INTEGRITY_VERSION = 1
+
+/**
+ * Tamper-evidence block stored on every journal record. `contentHash` is the
+ * SHA-256 of the record as it was first written; `chainHash` links it to the
+ * author's previous entry, so entries can't be removed, reordered or
+ * backdated without breaking the chain.
+ */
+export interface JournalIntegrity {
+  version: typeof JOURNAL_INTEGRITY_VERSION
+  seq: number
+  prev: string | null
+  contentHash: string
+  chainHash: string
+  // SHA-256 of each evidence file, keyed by its URI
+  evidence?: Record<string, string>
+  // set when the entry is edited: the hash of the edited record
+  amendedHash?: string
+  amendedAt?: string
+}
+
+export interface JournalChainHead {
+  seq: number
+  chainHash: string
+}
+
+/**
+ * - `intact`: the record matches the hash it was created with
+ * - `amended`: the record was edited through the app, and matches the hash
+ *   recorded with the edit
+ * - `modified`: the record matches neither, so it was changed some other way
+ * - `unrecorded`: the record predates integrity tracking
+ */
+export type JournalIntegrityStatus =
+  | 'intact'
+  | 'amended'
+  | 'modified'
+  | 'unrecorded'
+
+export type JournalRecordLike = Record<string, any> & {
+  integrity?: JournalIntegrity
+}
+
+/**
+ * Serialises a value as JSON with object keys sorted and undefined values
+ * dropped, so the same record always hashes the same way regardless of the
+ * order its fields were written in.
+ */
+export function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value
+      .map(item => (item === undefined ? 'null' : canonicalJSON(item)))
+      .join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as any)[key] !== undefined)
+      .sort()
+      .map(
+        key => `${JSON.stringify(key)}:${canonicalJSON((value as any)[key])}`,
+      )
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export function hashBytes(bytes: Uint8Array): string {
+  return bytesToHex(sha256(bytes))
+}
+
+/**
+ * Hashes a journal record as stored in the repo, excluding its integrity
+ * block. Encrypted records are hashed in their sealed form, so verifying one
+ * doesn't need the key and the hash reveals nothing about the plaintext.
+ */
+export function hashJournalRecord(record: JournalRecordLike): string {
+  const {integrity: _integrity, ...rest} = record
+  return hashBytes(utf8ToBytes(canonicalJSON(rest)))
+}
+
+export function computeChainHash(
+  prev: string | null,
+  seq: number,
+  contentHash: string,
+): string {
+  return hashBytes(utf8ToBytes(`${prev ?? ''}:${seq}:${contentHash}`))
+}
+
+/**
+ * Builds the integrity block for a new entry, linking it after `head`
+ */
+export function createJournalIntegrity(
+  record: JournalRecordLike,
+  head: JournalChainHead | null,
+  evidence?: Record<string, string>,
+): JournalIntegrity {
+  const seq = head ? head.seq + 1 : 0
+  const prev = head?.chainHash ?? null
+  const contentHash = hashJournalRecord(record)
+  return {
+    version: JOURNAL_INTEGRITY_VERSION,
+    seq,
+    prev,
+    contentHash,
+    chainHash: computeChainHash(prev, seq, contentHash),
+    evidence: evidence && Object.keys(evidence).length ? evidence : undefined,
+  }
+}
+
+/**
+ * Records an edit. The entry keeps its place in the chain and its original
+ * hash; the edit is hashed separately so it's disclosed rather than hidden.
+ */
+export function amendJournalIntegrity(
+  record: JournalRecordLike,
+  integrity: JournalIntegrity,
+  evidence?: Record<string, string>,
+): JournalIntegrity {
+  const merged = {...integrity.evidence, ...evidence}
+  return {
+    ...integrity,
+    evidence: Object.keys(merged).length ? merged : undefined,
+    amendedHash: hashJournalRecord(record),
+    amendedAt: new Date().toISOString(),
+  }
+}
+
+export interface JournalRecordVerification {
+  status: JournalIntegrityStatus
+  // false if the integrity block itself has been altered
+  chainHashValid: boolean
+  integrity?: JournalIntegrity
+}
+
+export function verifyJournalRecord(
+  record: JournalRecordLike,
+): JournalRecordVerification {
+  const integrity = record.integrity
+  if (!integrity) {
+    return {status: 'unrecorded', chainHashValid: false}
+  }
+  const hash = hashJournalRecord(record)
+  const chainHashValid =
+    computeChainHash(integrity.prev, integrity.seq, integrity.contentHash) ===
+    integrity.chainHash
+  let status: JournalIntegrityStatus = 'modified'
+  if (hash === integrity.contentHash && !integrity.amendedHash) {
+    status = 'intact'
+  } else if (integrity.amendedHash && hash === integrity.amendedHash) {
+    status = 'amended'
+  }
+  return {status, chainHashValid, integrity}
+}
+
+export interface JournalChainBreak {
+  uri: string
+  seq: number
+  reason: 'missing_predecessor' | 'fork' | 'invalid_hash'
+}
+
+/**
+ * Checks that the author's entries form a single unbroken chain. Entries
+ * without an integrity block are ignored.
+ *
+ * @param purged chain hashes of entries removed by data retention, which
+ * still count as predecessors
+ */
+export function verifyJournalChain(
+  records: Array<{uri: string; integrity?: JournalIntegrity}>,
+  purged: string[] = [],
+): {head: JournalChainHead | null; breaks: JournalChainBreak[]} {
+  const chained = records
+    .filter(r => r.integrity)
+    .sort((a, b) => a.integrity!.seq - b.integrity!.seq)
+  const byChainHash = new Set([
+    ...chained.map(r => r.integrity!.chainHash),
+    ...purged,
+  ])
+  const seenPrev = new Set<string>()
+  const breaks: JournalChainBreak[] = []
+
+  for (const {uri, integrity} of chained) {
+    const {seq, prev, contentHash, chainHash} = integrity!
+    if (computeChainHash(prev, seq, contentHash) !== chainHash) {
+      breaks.push({uri, seq, reason: 'invalid_hash'})
+    } else if (prev !== null && !byChainHash.has(prev)) {
+      breaks.push({uri, seq, reason: 'missing_predecessor'})
+    } else if (seenPrev.has(prev ?? '')) {
+      breaks.push({uri, seq, reason: 'fork'})
+    }
+    seenPrev.add(prev ?? '')
+  }
+
+  const last = chained[chained.length - 1]?.integrity
+  return {
+    head: last ? {seq: last.seq, chainHash: last.chainHash} : null,
+    breaks,
+  }
+}
+
+export interface JournalManifest {
+  version: typeof JOURNAL_INTEGRITY_VERSION
+  did: string
+  generatedAt: string
+  head: JournalChainHead | null
+  entries: Array<
+    Pick<
+      JournalIntegrity,
+      | 'seq'
+      | 'prev'
+      | 'contentHash'
+      | 'chainHash'
+      | 'evidence'
+      | 'amendedHash'
+      | 'amendedAt'
+    > & {uri: string; createdAt?: string}
+  >
+}
+
+export interface SignedJournalManifest {
+  manifest: JournalManifest
+  alg: 'ed25519'
+  publicKey: string
+  signature: string
+}
+
+export function buildJournalManifest(
+  did: string,
+  records: Array<JournalRecordLike & {uri: string}>,
+): JournalManifest {
+  const {head} = verifyJournalChain(records)
+  return {
+    version: JOURNAL_INTEGRITY_VERSION,
+    did,
+    generatedAt: new Date().toISOString(),
+    head,
+    entries: records
+      .filter(r => r.integrity)
+      .sort((a, b) => a.integrity!.seq - b.integrity!.seq)
+      .map(({uri, createdAt, integrity}) => ({
+        uri,
+        createdAt,
+        seq: integrity!.seq,
+        prev: integrity!.prev,
+        contentHash: integrity!.contentHash,
+        chainHash: integrity!.chainHash,
+        evidence: integrity!.evidence,
+        amendedHash: integrity!.amendedHash,
+        amendedAt: integrity!.amendedAt,
+      })),
+  }
+}
+
+export function signJournalManifest(
+  manifest: JournalManifest,
+  privateKey: Uint8Array,
+): SignedJournalManifest {
+  const message = utf8ToBytes(canonicalJSON(manifest))
+  return {
+    manifest,
+    alg: 'ed25519',
+    publicKey: bytesToHex(ed25519.getPublicKey(privateKey)),
+    signature: bytesToHex(ed25519.sign(message, privateKey)),
+  }
+}
+
+/**
+ * Checks a manifest's signature. This only proves the manifest was signed by
+ * `publicKey`; check that key against the ones the account has published.
+ */
+export function verifyJournalManifest(signed: SignedJournalManifest): boolean {
+  try {
+    return ed25519.verify(
+      hexToBytes(signed.signature),
+      utf8ToBytes(canonicalJSON(signed.manifest)),
+      hexToBytes(signed.publicKey),
+    )
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,32 @@
+import * as SecureStore from 'expo-secure-store'
+import {randomBytes} from '@noble/ciphers/webcrypto'
+import {bytesToHex, hexToBytes} from '@noble/hashes/utils'
+
+const cache = new Map<string, Uint8Array>()
+
+function storageKey(did: string) {
+  // SecureStore keys may only contain alphanumerics, `.`, `-` and `_`
+  return `journal-signing-key.${did.replace(/[^A-Za-z0-9._-]/g, '_')}`
+}
+
+/**
+ * Returns this device's manifest signing key for the account, creating it on
+ * first use. The key never leaves the device; its public half is published
+ * in the account's settings so manifests can be checked against it.
+ */
+export async function getSigningKey(did: string): Promise<Uint8Array> {
+  const cached = cache.get(did)
+  if (cached) return cached
+  const stored = await SecureStore.getItemAsync(storageKey(did))
+  if (stored) {
+    const key = hexToBytes(stored)
+    cache.set(did, key)
+    return key
+  }
+  const key = randomBytes(32)
+  await SecureStore.setItemAsync(storageKey(did), bytesToHex(key), {
+    keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+  })
+  cache.set(did, key)
+  return key
+}
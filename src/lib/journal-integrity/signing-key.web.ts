@@ -0,0 +1,14 @@
+import {randomBytes} from '@noble/ciphers/webcrypto'
+
+// As with journal keys, nothing secret is persisted in the browser. Each
+// session gets its own signing key, and publishes it like any other device.
+const memory = new Map<string, Uint8Array>()
+
+export async function getSigningKey(did: string): Promise<Uint8Array> {
+  let key = memory.get(did)
+  if (!key) {
+    key = randomBytes(32)
+    memory.set(did, key)
+  }
+  return key
+}
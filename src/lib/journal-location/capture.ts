@@ -0,0 +1,51 @@
+import * as Location from 'expo-location'
+
+import {logger} from '#/logger'
+import {type JournalLocation} from '#/state/queries/journal/types'
+
+export class JournalLocationPermissionError extends Error {
+  constructor() {
+    super('Location permission was not granted')
+    this.name = 'JournalLocationPermissionError'
+  }
+}
+
+/**
+ * Reads the device's current position and looks up the place it's in. The
+ * result is exact, so coarsen it before it's stored anywhere.
+ */
+export async function getCurrentJournalLocation(): Promise<JournalLocation> {
+  const {granted} = await Location.requestForegroundPermissionsAsync()
+  if (!granted) {
+    throw new JournalLocationPermissionError()
+  }
+
+  const {coords} = await Location.getCurrentPositionAsync({
+    accuracy: Location.Accuracy.Balanced,
+  })
+  const location: JournalLocation = {
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    accuracy: coords.accuracy ?? undefined,
+  }
+
+  try {
+    const [place] = await Location.reverseGeocodeAsync(coords)
+    if (place) {
+      location.address =
+        place.formattedAddress ??
+        ([place.streetNumber, place.street].filter(Boolean).join(' ') ||
+          undefined)
+      location.city = place.city ?? place.subregion ?? undefined
+      location.state = place.region ?? undefined
+      location.country = place.country ?? undefined
+    }
+  } catch (e) {
+    // not available everywhere, e.g. on web, and coordinates are enough
+    logger.debug('Failed to reverse geocode journal location', {
+      message: String(e),
+    })
+  }
+
+  return location
+}
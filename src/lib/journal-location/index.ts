@@ -0,0 +1,99 @@
+import {
+  type JournalLocation,
+  type JournalLocationPrecision,
+} from '#/state/queries/journal/types'
+
+/**
+ * Precisions from finest to coarsest
+ */
+export const JOURNAL_LOCATION_PRECISIONS: JournalLocationPrecision[] = [
+  'exact',
+  'neighbourhood',
+  'city',
+  'region',
+]
+
+// Size of the grid each precision snaps to, in degrees. One degree of
+// latitude is roughly 111km.
+const GRID_SIZE: Record<Exclude<JournalLocationPrecision, 'exact'>, number> = {
+  neighbourhood: 0.01,
+  city: 0.1,
+  region: 1,
+}
+
+const METRES_PER_DEGREE = 111_000
+
+/**
+ * The precision a stored location was saved at. Locations saved before
+ * precision was recorded are treated as exact unless flagged approximate.
+ */
+export function getLocationPrecision(
+  location: Pick<JournalLocation, 'precision' | 'isApproximate'>,
+): JournalLocationPrecision {
+  return (
+    location.precision ?? (location.isApproximate ? 'neighbourhood' : 'exact')
+  )
+}
+
+export function coarserPrecision(
+  a: JournalLocationPrecision,
+  b: JournalLocationPrecision,
+): JournalLocationPrecision {
+  return JOURNAL_LOCATION_PRECISIONS.indexOf(a) >
+    JOURNAL_LOCATION_PRECISIONS.indexOf(b)
+    ? a
+    : b
+}
+
+/**
+ * The finest precision an entry may store. Unless the user allows it, entries
+ * other people can see are never stored more precisely than city level.
+ */
+export function getAllowedLocationPrecision(
+  requested: JournalLocationPrecision,
+  {
+    isPublic,
+    allowPublicLocation,
+  }: {isPublic: boolean; allowPublicLocation: boolean},
+): JournalLocationPrecision {
+  if (isPublic && !allowPublicLocation) {
+    return coarserPrecision(requested, 'city')
+  }
+  return requested
+}
+
+function snap(value: number, size: number) {
+  // use the centre of the cell, so the stored point isn't biased to a corner
+  const snapped = Math.floor(value / size) * size + size / 2
+  return Number(snapped.toFixed(4))
+}
+
+/**
+ * Reduces a location to the given precision by snapping it to a grid and
+ * dropping the address details finer than it. A location is never made more
+ * precise than it already is.
+ */
+export function coarsenLocation(
+  location: JournalLocation,
+  precision: JournalLocationPrecision,
+): JournalLocation {
+  const target = coarserPrecision(precision, getLocationPrecision(location))
+  if (target === 'exact') {
+    return {...location, precision: 'exact', isApproximate: false}
+  }
+
+  const size = GRID_SIZE[target]
+  return {
+    latitude: snap(location.latitude, size),
+    longitude: snap(location.longitude, size),
+    accuracy: Math.max(
+      location.accuracy ?? 0,
+      Math.round((size * METRES_PER_DEGREE) / 2),
+    ),
+    city: target === 'region' ? undefined : location.city,
+    state: location.state,
+    country: location.country,
+    isApproximate: true,
+    precision: target,
+  }
+}
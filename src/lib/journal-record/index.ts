@@ -0,0 +1,423 @@
+import {type BlobRef} from '@atproto/api'
+
+import {type EncryptedJournalPayload} from '#/lib/journal-encryption'
+import {type JournalIntegrity} from '#/lib/journal-integrity'
+import {
+  type JournalEntryType,
+  type JournalLocation,
+  type JournalPrivacyLevel,
+} from '#/state/queries/journal/types'
+
+export const JOURNAL_COLLECTION = 'app.warlog.journal'
+
+/**
+ * Version written on every new record. Bump it and add a step to
+ * `MIGRATIONS` whenever the shape of a stored record changes.
+ */
+export const JOURNAL_RECORD_VERSION = 2
+
+const PRIVACY_LEVELS: JournalPrivacyLevel[] = [
+  'private',
+  'contacts',
+  'badge_community',
+  'public',
+  'anonymous',
+]
+
+const ENTRY_TYPES: JournalEntryType[] = ['real_time', 'backdated']
+
+const EVIDENCE_TYPES = ['image', 'document', 'audio', 'video'] as const
+
+export type JournalEvidenceType = (typeof EVIDENCE_TYPES)[number]
+
+export interface JournalEvidenceAttachment {
+  /** Where the file can be fetched. For uploaded evidence, the blob's URL. */
+  uri: string
+  type: JournalEvidenceType
+  filename: string
+  size?: number
+  mimeType?: string
+  capturedAt?: string
+  description?: string
+  /**
+   * The uploaded file. Keeping the reference in the record stops the PDS
+   * from garbage-collecting the blob.
+   */
+  blob?: BlobRef
+  thumbnail?: BlobRef
+  /** Set when `blob` and `thumbnail` are encrypted, to the key that sealed them */
+  encryptionKeyId?: string
+}
+
+export interface JournalRecordSymptom {
+  category: string
+  severity: number
+  notes?: string
+}
+
+/**
+ * An `app.warlog.journal` record as it's stored in the user's repo. Private
+ * and contacts-only records are stored sealed, in which case `text` is empty
+ * and `symptoms` and `location` live in `encrypted`.
+ */
+export interface JournalRecord {
+  $type: typeof JOURNAL_COLLECTION
+  version: number
+  text: string
+  entryType: JournalEntryType
+  createdAt: string
+  updatedAt?: string
+  incidentTimestamp?: string
+  location?: JournalLocation
+  symptoms?: JournalRecordSymptom[]
+  tags?: string[]
+  /** Content warnings readers see before the entry, kept unencrypted */
+  triggerWarnings?: string[]
+  sourceIds?: string[]
+  evidenceAttachments?: JournalEvidenceAttachment[]
+  privacyLevel: JournalPrivacyLevel
+  /**
+   * Mirrors `privacyLevel === 'private'` for clients that predate privacy
+   * levels. Prefer `privacyLevel`.
+   */
+  isPrivate: boolean
+  allowComments?: boolean
+  /** Pinned and legal-hold entries are never removed by data retention */
+  pinned?: boolean
+  legalHold?: boolean
+  /**
+   * Views by anyone other than the author are recorded where the author can
+   * see them. Set on entries with protected health information.
+   */
+  accessLogRequired?: boolean
+  encrypted?: EncryptedJournalPayload
+  integrity?: JournalIntegrity
+}
+
+/**
+ * Anything that can be turned into a record: a record of any version, an
+ * opened entry, or the fields the composer collects
+ */
+export type JournalRecordInput = Partial<JournalRecord> & Record<string, any>
+
+// Fields copied onto a record by `buildJournalRecord`. Anything else on the
+// input (URIs, authors, view flags) never reaches the repo.
+const RECORD_FIELDS = [
+  'text',
+  'entryType',
+  'createdAt',
+  'updatedAt',
+  'incidentTimestamp',
+  'location',
+  'symptoms',
+  'tags',
+  'triggerWarnings',
+  'sourceIds',
+  'evidenceAttachments',
+  'allowComments',
+  'pinned',
+  'legalHold',
+  'accessLogRequired',
+  'encrypted',
+  'integrity',
+] as const
+
+export class JournalRecordValidationError extends Error {
+  constructor(
+    public path: string,
+    message: string,
+  ) {
+    super(`Invalid journal record: ${path} ${message}`)
+    this.name = 'JournalRecordValidationError'
+  }
+}
+
+export type JournalRecordValidationResult =
+  | {success: true; value: JournalRecord}
+  | {success: false; error: JournalRecordValidationError}
+
+/**
+ * Reads the privacy level of a stored journal record. Older records used
+ * `isPrivate` or `visibility` rather than a privacy level.
+ */
+export function getRecordPrivacyLevel(
+  record: Record<string, any>,
+): JournalPrivacyLevel {
+  if (record.privacyLevel) return record.privacyLevel
+  switch (record.visibility) {
+    case 'private':
+    case 'contacts':
+    case 'public':
+      return record.visibility
+    case 'community':
+      return 'badge_community'
+  }
+  return record.isPrivate ? 'private' : 'public'
+}
+
+function getEvidenceType(uri: string): JournalEvidenceType {
+  const ext = uri.split('?')[0].split('.').pop()?.toLowerCase()
+  switch (ext) {
+    case 'jpg':
+    case 'jpeg':
+    case 'png':
+    case 'gif':
+    case 'heic':
+    case 'webp':
+      return 'image'
+    case 'mp4':
+    case 'mov':
+    case 'webm':
+      return 'video'
+    case 'mp3':
+    case 'm4a':
+    case 'wav':
+    case 'aac':
+      return 'audio'
+    default:
+      return 'document'
+  }
+}
+
+// Some v1 records kept the location as a JSON string under `data`
+function parseLegacyLocation(location: any): JournalLocation | undefined {
+  if (typeof location?.data !== 'string') return location
+  try {
+    return JSON.parse(location.data)
+  } catch {
+    return undefined
+  }
+}
+
+type MigrationStep = (record: Record<string, any>) => Record<string, any>
+
+/**
+ * Steps keyed by the version they upgrade from. Records written before
+ * versioning have no `version` and are treated as version 1.
+ */
+const MIGRATIONS: Record<number, MigrationStep> = {
+  // v1 kept privacy in `isPrivate` or `visibility`, and evidence as bare URIs
+  1: ({visibility, evidenceUris, ...record}) => {
+    const privacyLevel = getRecordPrivacyLevel({...record, visibility})
+    const evidence: JournalEvidenceAttachment[] = [
+      ...(record.evidenceAttachments ?? []),
+      ...((evidenceUris as string[] | undefined) ?? []).map(uri => ({
+        uri,
+        type: getEvidenceType(uri),
+        filename: uri.split('/').pop() || uri,
+      })),
+    ]
+    return {
+      ...record,
+      version: 2,
+      privacyLevel,
+      isPrivate: privacyLevel === 'private',
+      location: parseLegacyLocation(record.location),
+      evidenceAttachments: evidence.length ? evidence : undefined,
+    }
+  },
+}
+
+/**
+ * Upgrades a stored record to `JOURNAL_RECORD_VERSION`. Records from a newer
+ * client are returned unchanged and left for validation to judge.
+ */
+export function migrateJournalRecord(
+  record: Record<string, any>,
+): Record<string, any> {
+  let migrated = record
+  let version = typeof record.version === 'number' ? record.version : 1
+  while (version < JOURNAL_RECORD_VERSION) {
+    const step = MIGRATIONS[version]
+    if (!step) {
+      throw new JournalRecordValidationError(
+        'version',
+        `${version} has no migration`,
+      )
+    }
+    migrated = step(migrated)
+    version = migrated.version
+  }
+  return migrated
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string'
+}
+
+function isDateString(value: unknown): value is string {
+  return isString(value) && !isNaN(Date.parse(value))
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString)
+}
+
+function checkJournalRecord(value: Record<string, any>) {
+  const fail = (path: string, message: string) => {
+    throw new JournalRecordValidationError(path, message)
+  }
+
+  if (value.$type !== undefined && value.$type !== JOURNAL_COLLECTION) {
+    fail('$type', `must be ${JOURNAL_COLLECTION}`)
+  }
+  if (typeof value.version !== 'number') fail('version', 'must be a number')
+  if (!isString(value.text)) fail('text', 'must be a string')
+  if (!ENTRY_TYPES.includes(value.entryType)) {
+    fail('entryType', `must be one of ${ENTRY_TYPES.join(', ')}`)
+  }
+  if (!isDateString(value.createdAt)) {
+    fail('createdAt', 'must be a datetime')
+  }
+  for (const field of ['updatedAt', 'incidentTimestamp']) {
+    if (value[field] !== undefined && !isDateString(value[field])) {
+      fail(field, 'must be a datetime')
+    }
+  }
+  if (!PRIVACY_LEVELS.includes(value.privacyLevel)) {
+    fail('privacyLevel', `must be one of ${PRIVACY_LEVELS.join(', ')}`)
+  }
+  if (typeof value.isPrivate !== 'boolean') {
+    fail('isPrivate', 'must be a boolean')
+  }
+  if (value.location !== undefined) {
+    const {latitude, longitude} = value.location ?? {}
+    if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+      fail('location', 'must have a numeric latitude and longitude')
+    }
+  }
+  if (value.symptoms !== undefined) {
+    if (!Array.isArray(value.symptoms)) fail('symptoms', 'must be an array')
+    value.symptoms.forEach((symptom: any, i: number) => {
+      if (!isString(symptom?.category)) {
+        fail(`symptoms/${i}/category`, 'must be a string')
+      }
+      if (typeof symptom.severity !== 'number') {
+        fail(`symptoms/${i}/severity`, 'must be a number')
+      }
+    })
+  }
+  for (const field of ['tags', 'triggerWarnings', 'sourceIds']) {
+    if (value[field] !== undefined && !isStringArray(value[field])) {
+      fail(field, 'must be an array of strings')
+    }
+  }
+  if (value.evidenceAttachments !== undefined) {
+    if (!Array.isArray(value.evidenceAttachments)) {
+      fail('evidenceAttachments', 'must be an array')
+    }
+    value.evidenceAttachments.forEach((evidence: any, i: number) => {
+      if (!isString(evidence?.uri)) {
+        fail(`evidenceAttachments/${i}/uri`, 'must be a string')
+      }
+      if (!EVIDENCE_TYPES.includes(evidence.type)) {
+        fail(
+          `evidenceAttachments/${i}/type`,
+          `must be one of ${EVIDENCE_TYPES.join(', ')}`,
+        )
+      }
+      for (const field of ['mimeType', 'encryptionKeyId']) {
+        if (evidence[field] !== undefined && !isString(evidence[field])) {
+          fail(`evidenceAttachments/${i}/${field}`, 'must be a string')
+        }
+      }
+      if (
+        evidence.capturedAt !== undefined &&
+        !isDateString(evidence.capturedAt)
+      ) {
+        fail(`evidenceAttachments/${i}/capturedAt`, 'must be a datetime')
+      }
+      for (const field of ['blob', 'thumbnail']) {
+        if (
+          evidence[field] !== undefined &&
+          typeof evidence[field] !== 'object'
+        ) {
+          fail(`evidenceAttachments/${i}/${field}`, 'must be a blob')
+        }
+      }
+    })
+  }
+  for (const field of [
+    'allowComments',
+    'pinned',
+    'legalHold',
+    'accessLogRequired',
+  ]) {
+    if (value[field] !== undefined && typeof value[field] !== 'boolean') {
+      fail(field, 'must be a boolean')
+    }
+  }
+  if (value.encrypted !== undefined) {
+    const {keyId, ciphertext} = value.encrypted ?? {}
+    if (!isString(keyId) || !isString(ciphertext)) {
+      fail('encrypted', 'must have a keyId and ciphertext')
+    }
+  }
+}
+
+/**
+ * Checks a migrated record against the `app.warlog.journal` schema. Like
+ * lexicon validation, unknown fields are allowed and left in place.
+ */
+export function validateJournalRecord(
+  value: unknown,
+): JournalRecordValidationResult {
+  if (!value || typeof value !== 'object') {
+    return {
+      success: false,
+      error: new JournalRecordValidationError('$', 'must be an object'),
+    }
+  }
+  try {
+    checkJournalRecord(value as Record<string, any>)
+  } catch (e) {
+    if (e instanceof JournalRecordValidationError) {
+      return {success: false, error: e}
+    }
+    throw e
+  }
+  return {success: true, value: value as JournalRecord}
+}
+
+/**
+ * Builds the record to write from `input`, dropping anything that isn't part
+ * of the schema and keeping `isPrivate` in step with `privacyLevel`.
+ */
+export function buildJournalRecord(input: JournalRecordInput): JournalRecord {
+  const migrated = migrateJournalRecord(input)
+  const privacyLevel = getRecordPrivacyLevel(migrated)
+  const record: Record<string, unknown> = {
+    $type: JOURNAL_COLLECTION,
+    version: JOURNAL_RECORD_VERSION,
+  }
+  for (const field of RECORD_FIELDS) {
+    if (migrated[field] !== undefined) {
+      record[field] = migrated[field]
+    }
+  }
+  record.privacyLevel = privacyLevel
+  record.isPrivate = privacyLevel === 'private'
+  return record as unknown as JournalRecord
+}
+
+/**
+ * Applies an edit to a record. Edits from older callers may only say
+ * `isPrivate`, which then decides the privacy level.
+ */
+export function applyJournalRecordUpdate(
+  record: JournalRecordInput,
+  changes: JournalRecordInput,
+): JournalRecord {
+  const privacyLevel =
+    changes.privacyLevel ??
+    (changes.isPrivate !== undefined
+      ? changes.isPrivate
+        ? 'private'
+        : 'public'
+      : getRecordPrivacyLevel(migrateJournalRecord(record)))
+  return buildJournalRecord({
+    ...migrateJournalRecord(record),
+    ...changes,
+    privacyLevel,
+  })
+}
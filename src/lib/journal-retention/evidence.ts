@@ -0,0 +1,10 @@
+import {deleteAsync} from 'expo-file-system'
+
+/**
+ * Deletes an evidence file kept on the device. Blobs uploaded to the PDS
+ * aren't touched: the PDS removes them once no record refers to them.
+ */
+export async function deleteEvidenceFile(uri: string) {
+  if (/^(https?|at):/.test(uri)) return
+  await deleteAsync(uri, {idempotent: true})
+}
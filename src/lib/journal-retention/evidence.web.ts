@@ -0,0 +1,5 @@
+/**
+ * Evidence on web is either uploaded to the PDS, which removes blobs once no
+ * record refers to them, or an object URL that goes away with the page
+ */
+export async function deleteEvidenceFile(_uri: string) {}
@@ -0,0 +1,52 @@
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * What happens to entries once they are past the retention period
+ */
+export type JournalRetentionAction = 'delete' | 'archive'
+
+/**
+ * The fields retention looks at
+ */
+export interface JournalRetentionSubject {
+  uri: string
+  createdAt: string
+  pinned?: boolean
+  legalHold?: boolean
+}
+
+export interface JournalRetentionPlan<T> {
+  cutoff: Date
+  /** Entries that will be deleted or archived */
+  expired: T[]
+  /** Entries past the cutoff that are kept because they're pinned or on hold */
+  exempt: T[]
+}
+
+export function isRetentionExempt(entry: JournalRetentionSubject): boolean {
+  return !!entry.pinned || !!entry.legalHold
+}
+
+/**
+ * Works out which entries are past the retention period. Age is measured
+ * from when the entry was written, since that's how long the data has been
+ * kept, not from the incident.
+ */
+export function planJournalRetention<T extends JournalRetentionSubject>(
+  entries: T[],
+  retentionDays: number,
+  now: Date = new Date(),
+): JournalRetentionPlan<T> {
+  const cutoff = new Date(now.getTime() - retentionDays * DAY)
+  const expired: T[] = []
+  const exempt: T[] = []
+  for (const entry of entries) {
+    if (new Date(entry.createdAt) >= cutoff) continue
+    if (isRetentionExempt(entry)) {
+      exempt.push(entry)
+    } else {
+      expired.push(entry)
+    }
+  }
+  return {cutoff, expired, exempt}
+}
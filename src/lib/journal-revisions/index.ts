@@ -0,0 +1,221 @@
+import {sealJournalRecord} from '#/lib/journal-encryption'
+import {canonicalJSON} from '#/lib/journal-integrity'
+
+export const JOURNAL_REVISION_COLLECTION = 'app.warlog.journalRevision'
+
+/**
+ * An `app.warlog.journalRevision` record: a version of an entry that an edit
+ * replaced. The version is kept exactly as it was stored, so sealed versions
+ * stay sealed and their integrity blocks can still be checked.
+ */
+export interface JournalRevisionRecord {
+  $type: typeof JOURNAL_REVISION_COLLECTION
+  // URI of the entry this is a version of
+  entry: string
+  // CID the version had while it was current
+  cid: string
+  record: Record<string, any>
+  // when the version was replaced
+  createdAt: string
+}
+
+// Fields besides the text that the diff viewer reports as changed
+const COMPARED_FIELDS = [
+  'entryType',
+  'incidentTimestamp',
+  'location',
+  'symptoms',
+  'tags',
+  'triggerWarnings',
+  'sourceIds',
+  'evidenceAttachments',
+  'privacyLevel',
+] as const
+
+export type JournalRevisionField = (typeof COMPARED_FIELDS)[number]
+
+export interface JournalTextDiffPart {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+// Above this many word pairs the diff gives up on finding common words and
+// shows the whole text as replaced, to keep long entries responsive
+const MAX_DIFF_CELLS = 4_000_000
+
+export function isJournalRevisionRecord(
+  value: unknown,
+): value is JournalRevisionRecord {
+  const record = value as Partial<JournalRevisionRecord> | null
+  return (
+    typeof record === 'object' &&
+    record !== null &&
+    record.$type === JOURNAL_REVISION_COLLECTION &&
+    typeof record.entry === 'string' &&
+    typeof record.cid === 'string' &&
+    typeof record.record === 'object' &&
+    record.record !== null &&
+    typeof record.createdAt === 'string'
+  )
+}
+
+export function buildJournalRevision(
+  replaced: {uri: string; cid: string; value: Record<string, any>},
+  revisedAt = new Date().toISOString(),
+): JournalRevisionRecord {
+  return {
+    $type: JOURNAL_REVISION_COLLECTION,
+    entry: replaced.uri,
+    cid: replaced.cid,
+    record: replaced.value,
+    createdAt: revisedAt,
+  }
+}
+
+/**
+ * Seals a version that was stored in the clear, for when its entry is made
+ * private or contacts-only. The version keeps its own privacy level so the
+ * history still shows when that changed, though its integrity block no
+ * longer matches what's stored.
+ *
+ * @throws JournalKeyUnavailableError if this device has no active key
+ */
+export async function sealJournalRevision(
+  did: string,
+  revision: JournalRevisionRecord,
+): Promise<JournalRevisionRecord> {
+  if (revision.record.encrypted) return revision
+  const {privacyLevel} = revision.record
+  // sealed as though private, then the version's own level is put back
+  const {privacyLevel: _level, ...sealed} = await sealJournalRecord(did, {
+    ...revision.record,
+    privacyLevel: 'private',
+  })
+  return {
+    ...revision,
+    record: privacyLevel === undefined ? sealed : {...sealed, privacyLevel},
+  }
+}
+
+/**
+ * When a version was saved: the time of the edit that produced it, or of
+ * the entry's creation for the original
+ */
+export function getRevisionSavedAt(record: {
+  createdAt: string
+  updatedAt?: string
+}): string {
+  return record.updatedAt ?? record.createdAt
+}
+
+/**
+ * Word-level diff of two versions of an entry's text. Whitespace is kept with
+ * the words, so joining the parts of either side gives back that side.
+ */
+export function diffJournalText(
+  before: string,
+  after: string,
+): JournalTextDiffPart[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+  let end = 0
+  while (
+    end < a.length - start &&
+    end < b.length - start &&
+    a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++
+  }
+
+  const parts: JournalTextDiffPart[] = []
+  push(parts, 'equal', a.slice(0, start).join(''))
+  for (const part of diffTokens(
+    a.slice(start, a.length - end),
+    b.slice(start, b.length - end),
+  )) {
+    push(parts, part.type, part.text)
+  }
+  push(parts, 'equal', a.slice(a.length - end).join(''))
+  return parts
+}
+
+/**
+ * @returns the fields other than the text that differ between two versions
+ */
+export function getChangedJournalFields(
+  before: Record<string, any>,
+  after: Record<string, any>,
+): JournalRevisionField[] {
+  return COMPARED_FIELDS.filter(
+    field =>
+      canonicalJSON(normalize(before[field])) !==
+      canonicalJSON(normalize(after[field])),
+  )
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean)
+}
+
+// Longest common subsequence over the tokens that differ
+function diffTokens(a: string[], b: string[]): JournalTextDiffPart[] {
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      {type: 'removed', text: a.join('')},
+      {type: 'added', text: b.join('')},
+    ]
+  }
+  const lengths = Array.from({length: a.length + 1}, () =>
+    new Array<number>(b.length + 1).fill(0),
+  )
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const parts: JournalTextDiffPart[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({type: 'equal', text: a[i]})
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      parts.push({type: 'removed', text: a[i++]})
+    } else {
+      parts.push({type: 'added', text: b[j++]})
+    }
+  }
+  for (; i < a.length; i++) parts.push({type: 'removed', text: a[i]})
+  for (; j < b.length; j++) parts.push({type: 'added', text: b[j]})
+  return parts
+}
+
+function push(
+  parts: JournalTextDiffPart[],
+  type: JournalTextDiffPart['type'],
+  text: string,
+) {
+  if (!text) return
+  const last = parts[parts.length - 1]
+  if (last?.type === type) {
+    last.text += text
+  } else {
+    parts.push({type, text})
+  }
+}
+
+// Missing and empty lists mean the same thing on a record
+function normalize(value: unknown) {
+  return Array.isArray(value) && value.length === 0 ? undefined : value
+}
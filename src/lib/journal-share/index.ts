@@ -0,0 +1,188 @@
+import {randomBytes} from '@noble/ciphers/webcrypto'
+import {fromByteArray, toByteArray} from 'base64-js'
+
+import {
+  computeKeyId,
+  deriveJournalKey,
+  type EncryptedJournalPayload,
+  JOURNAL_KDF_ITERATIONS,
+  JOURNAL_KEY_LENGTH,
+  openPayload,
+  sealPayload,
+} from '#/lib/journal-encryption/crypto'
+import {
+  type JournalExportEntry,
+  toJournalExportEntry,
+} from '#/lib/journal-export'
+
+export const SHARE_PACKET_EXPIRY_DAYS = [1, 7, 30] as const
+export const MAX_SHARE_PACKET_ENTRIES = 50
+export const MIN_SHARE_PACKET_PASSCODE_LENGTH = 6
+
+const SHARE_PACKET_VERSION = 1
+
+/**
+ * What the recipient of a share packet sees. It's sealed on the author's
+ * device, so the server only ever holds ciphertext.
+ */
+export interface JournalSharePacketContent {
+  version: typeof SHARE_PACKET_VERSION
+  createdAt: string
+  author: {did: string; handle: string; displayName?: string}
+  entries: JournalExportEntry[]
+}
+
+/**
+ * A share packet as it's stored in the author's repo. `payload` can only be
+ * opened with the key in the packet's link, and the passcode if it has one.
+ */
+export interface SealedJournalSharePacket {
+  id: string
+  createdAt: string
+  expiresAt: string
+  revokedAt?: string
+  entryCount: number
+  hasPasscode: boolean
+  // PBKDF2 rounds used to mix the passcode into the link key
+  iterations?: number
+  payload: EncryptedJournalPayload
+}
+
+/**
+ * What the author sees of their own packets. Revoking a packet drops its
+ * payload, so revoked packets only have this left.
+ */
+export type JournalSharePacketSummary = Omit<
+  SealedJournalSharePacket,
+  'payload'
+>
+
+export class JournalSharePacketPasscodeError extends Error {
+  constructor() {
+    super('That passcode is incorrect.')
+    this.name = 'JournalSharePacketPasscodeError'
+  }
+}
+
+/**
+ * Snapshots entries for a share packet. Entries this device can't open are
+ * left out, and entries are ordered oldest first, like an export.
+ */
+export function buildSharePacketContent(
+  records: Array<{uri: string; isLocked?: boolean} & Record<string, any>>,
+  author: JournalSharePacketContent['author'],
+  createdAt = new Date().toISOString(),
+): JournalSharePacketContent {
+  const entries = records
+    .filter(record => !record.isLocked)
+    .map(toJournalExportEntry)
+    .sort(
+      (a, b) =>
+        new Date(a.incidentTimestamp ?? a.createdAt).getTime() -
+        new Date(b.incidentTimestamp ?? b.createdAt).getTime(),
+    )
+  return {version: SHARE_PACKET_VERSION, createdAt, author, entries}
+}
+
+/**
+ * Seals a packet's content under a fresh random key. The key goes in the
+ * fragment of the packet's link, which browsers never send to a server. With
+ * a passcode, the key is stretched with it, so the link alone isn't enough.
+ *
+ * @returns the sealed payload, and the key to put in the link
+ */
+export async function sealSharePacket(
+  content: JournalSharePacketContent,
+  {
+    passcode,
+    iterations = JOURNAL_KDF_ITERATIONS,
+  }: {passcode?: string; iterations?: number} = {},
+): Promise<{
+  linkKey: string
+  payload: EncryptedJournalPayload
+  iterations?: number
+}> {
+  const linkKey = randomBytes(JOURNAL_KEY_LENGTH)
+  if (!passcode) {
+    return {
+      linkKey: encodeLinkKey(linkKey),
+      payload: sealPayload(linkKey, content),
+    }
+  }
+  const key = await derivePacketKey(linkKey, passcode, iterations)
+  return {
+    linkKey: encodeLinkKey(linkKey),
+    payload: sealPayload(key, content),
+    iterations,
+  }
+}
+
+/**
+ * @throws JournalSharePacketPasscodeError if the packet has a passcode and
+ * `passcode` is missing or wrong
+ * @throws if the link key is wrong or the payload has been tampered with
+ */
+export async function openSharePacket(
+  packet: Pick<
+    SealedJournalSharePacket,
+    'hasPasscode' | 'iterations' | 'payload'
+  >,
+  linkKey: string,
+  passcode?: string,
+): Promise<JournalSharePacketContent> {
+  let key = decodeLinkKey(linkKey)
+  if (packet.hasPasscode) {
+    if (!passcode) throw new JournalSharePacketPasscodeError()
+    key = await derivePacketKey(
+      key,
+      passcode,
+      packet.iterations ?? JOURNAL_KDF_ITERATIONS,
+    )
+    if (computeKeyId(key) !== packet.payload.keyId) {
+      throw new JournalSharePacketPasscodeError()
+    }
+  }
+  return openPayload<JournalSharePacketContent>(key, packet.payload)
+}
+
+export function isSharePacketActive(
+  packet: Pick<SealedJournalSharePacket, 'expiresAt' | 'revokedAt'>,
+  now = new Date(),
+): boolean {
+  return !packet.revokedAt && new Date(packet.expiresAt) > now
+}
+
+export function getSharePacketExpiry(days: number, from = new Date()): string {
+  return new Date(from.getTime() + days * 24 * 60 * 60 * 1000).toISOString()
+}
+
+/**
+ * Adds the key to a packet's link. It's kept in the fragment so it never
+ * reaches the link shortener or the appview.
+ */
+export function withSharePacketKey(url: string, linkKey: string): string {
+  return `${url.split('#')[0]}#${linkKey}`
+}
+
+// The passcode is the secret and the link key the salt. The link key is
+// secret too, so the server can't guess passcodes against the payload.
+function derivePacketKey(
+  linkKey: Uint8Array,
+  passcode: string,
+  iterations: number,
+): Promise<Uint8Array> {
+  return deriveJournalKey(passcode, {salt: fromByteArray(linkKey), iterations})
+}
+
+// base64url, since `+`, `/` and `=` get mangled when links are shared
+function encodeLinkKey(key: Uint8Array): string {
+  return fromByteArray(key)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+function decodeLinkKey(encoded: string): Uint8Array {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/')
+  return toByteArray(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+}
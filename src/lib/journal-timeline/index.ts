@@ -0,0 +1,191 @@
+import {
+  type JournalPrivacyLevel,
+  type SymptomCategory,
+} from '#/state/queries/journal/types'
+import {matchesJournalFeedFilters} from '#/state/queries/journal/utils'
+
+/**
+ * The fields the calendar and timeline look at. Locked entries have no
+ * symptoms, so they only match filters on tags.
+ */
+export interface JournalTimelineSubject {
+  uri: string
+  createdAt: string
+  incidentTimestamp?: string
+  entryType: 'real_time' | 'backdated'
+  privacyLevel: JournalPrivacyLevel
+  tags?: string[]
+  symptoms?: Array<{category: string; severity: number}>
+}
+
+export interface JournalTimelineFilters {
+  symptomCategories?: SymptomCategory[]
+  tags?: string[]
+}
+
+export type JournalTimelineZoom = 'day' | 'week' | 'month' | 'year'
+
+export interface JournalCalendarDay<T> {
+  /** Local date as `YYYY-MM-DD` */
+  key: string
+  date: Date
+  entries: T[]
+}
+
+export interface JournalCalendarMonth<T> {
+  /** Seven days per week starting on Sunday, `null` outside the month */
+  weeks: Array<Array<JournalCalendarDay<T> | null>>
+  maxCount: number
+}
+
+export interface JournalTimelineBucket<T> {
+  key: string
+  start: Date
+  entries: T[]
+}
+
+const HEATMAP_LEVELS = 4
+
+/**
+ * When the incident happened. Real-time entries are written as it happens,
+ * so their creation time is the incident time.
+ */
+export function getIncidentDate(entry: JournalTimelineSubject): Date {
+  return new Date(entry.incidentTimestamp ?? entry.createdAt)
+}
+
+/**
+ * How long after the incident a backdated entry was written, in
+ * milliseconds. Returns 0 for real-time entries.
+ */
+export function getReportingDelay(entry: JournalTimelineSubject): number {
+  if (entry.entryType !== 'backdated' || !entry.incidentTimestamp) return 0
+  const delay =
+    new Date(entry.createdAt).getTime() -
+    new Date(entry.incidentTimestamp).getTime()
+  return Math.max(0, delay)
+}
+
+export function getLocalDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function filterTimelineEntries<T extends JournalTimelineSubject>(
+  entries: T[],
+  filters: JournalTimelineFilters,
+): T[] {
+  return entries.filter(entry =>
+    matchesJournalFeedFilters(
+      {
+        createdAt: entry.createdAt,
+        privacyLevel: entry.privacyLevel,
+        tags: entry.tags ?? [],
+        evidenceCount: 0,
+        sourceCount: 0,
+        symptoms: entry.symptoms ?? [],
+      },
+      filters,
+    ),
+  )
+}
+
+/**
+ * Sorts entries by incident time, newest first
+ */
+export function sortByIncidentDate<T extends JournalTimelineSubject>(
+  entries: T[],
+): T[] {
+  return [...entries].sort(
+    (a, b) => getIncidentDate(b).getTime() - getIncidentDate(a).getTime(),
+  )
+}
+
+/**
+ * Lays out one month as calendar weeks, placing each entry on the local day
+ * of its incident
+ *
+ * @param month zero-based, as with `Date#getMonth`
+ */
+export function buildJournalCalendarMonth<T extends JournalTimelineSubject>(
+  entries: T[],
+  year: number,
+  month: number,
+): JournalCalendarMonth<T> {
+  const byDay = new Map<string, T[]>()
+  for (const entry of entries) {
+    const date = getIncidentDate(entry)
+    if (date.getFullYear() !== year || date.getMonth() !== month) continue
+    const key = getLocalDateKey(date)
+    byDay.set(key, [...(byDay.get(key) ?? []), entry])
+  }
+
+  const daysInMonth = new Date(year, month + 1, 0).getDate()
+  const cells: Array<JournalCalendarDay<T> | null> = Array(
+    new Date(year, month, 1).getDay(),
+  ).fill(null)
+  let maxCount = 0
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = new Date(year, month, day)
+    const key = getLocalDateKey(date)
+    const dayEntries = byDay.get(key) ?? []
+    maxCount = Math.max(maxCount, dayEntries.length)
+    cells.push({key, date, entries: dayEntries})
+  }
+  while (cells.length % 7) cells.push(null)
+
+  const weeks = []
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7))
+  }
+  return {weeks, maxCount}
+}
+
+/**
+ * Heatmap shade for a day, from 0 (no entries) to 4 (the busiest day)
+ */
+export function getHeatmapLevel(count: number, maxCount: number): number {
+  if (count <= 0 || maxCount <= 0) return 0
+  return Math.max(1, Math.ceil((count / maxCount) * HEATMAP_LEVELS))
+}
+
+function getBucketStart(date: Date, zoom: JournalTimelineZoom): Date {
+  switch (zoom) {
+    case 'day':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+    case 'week':
+      return new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate() - date.getDay(),
+      )
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth(), 1)
+    case 'year':
+      return new Date(date.getFullYear(), 0, 1)
+  }
+}
+
+/**
+ * Groups entries into day, week, month or year buckets by incident time.
+ * Buckets and the entries within them are newest first, and empty buckets
+ * are left out.
+ */
+export function groupJournalTimeline<T extends JournalTimelineSubject>(
+  entries: T[],
+  zoom: JournalTimelineZoom,
+): JournalTimelineBucket<T>[] {
+  const buckets = new Map<string, JournalTimelineBucket<T>>()
+  for (const entry of sortByIncidentDate(entries)) {
+    const start = getBucketStart(getIncidentDate(entry), zoom)
+    const key = `${zoom}:${getLocalDateKey(start)}`
+    const bucket = buckets.get(key)
+    if (bucket) {
+      bucket.entries.push(entry)
+    } else {
+      buckets.set(key, {key, start, entries: [entry]})
+    }
+  }
+  return Array.from(buckets.values())
+}
@@ -0,0 +1,67 @@
+/**
+ * The warnings the composer offers. Records may carry others written by
+ * other clients, which are shown as written and treated as `warn`.
+ */
+export const JOURNAL_TRIGGER_WARNINGS = [
+  'violence',
+  'sexual_violence',
+  'abuse',
+  'self_harm',
+  'suicide',
+  'death',
+  'blood_injury',
+  'medical',
+  'substance_use',
+  'stalking',
+] as const
+
+export type JournalTriggerWarning = (typeof JOURNAL_TRIGGER_WARNINGS)[number]
+
+export type TriggerWarningVisibility = 'show' | 'warn' | 'hide'
+
+export type TriggerWarningPreferences = Partial<
+  Record<string, TriggerWarningVisibility>
+>
+
+export const DEFAULT_TRIGGER_WARNING_VISIBILITY: TriggerWarningVisibility =
+  'warn'
+
+const VISIBILITY_ORDER: TriggerWarningVisibility[] = ['show', 'warn', 'hide']
+
+export function isStandardTriggerWarning(
+  warning: string,
+): warning is JournalTriggerWarning {
+  return (JOURNAL_TRIGGER_WARNINGS as readonly string[]).includes(warning)
+}
+
+export function getTriggerWarningVisibility(
+  warning: string,
+  preferences: TriggerWarningPreferences,
+): TriggerWarningVisibility {
+  return preferences[warning] ?? DEFAULT_TRIGGER_WARNING_VISIBILITY
+}
+
+/**
+ * Decides how to show an entry with `warnings`. The strictest preference
+ * among them wins, so one hidden warning hides the entry.
+ *
+ * @returns the visibility, and the warnings that caused it
+ */
+export function getTriggerWarningDecision(
+  warnings: string[] | undefined,
+  preferences: TriggerWarningPreferences,
+): {visibility: TriggerWarningVisibility; warnings: string[]} {
+  let visibility: TriggerWarningVisibility = 'show'
+  let causes: string[] = []
+  for (const warning of new Set(warnings ?? [])) {
+    const current = getTriggerWarningVisibility(warning, preferences)
+    const order = VISIBILITY_ORDER.indexOf(current)
+    if (order > VISIBILITY_ORDER.indexOf(visibility)) {
+      visibility = current
+      causes = [warning]
+    } else if (current === visibility && current !== 'show') {
+      causes.push(warning)
+    }
+  }
+  return {visibility, warnings: causes}
+}
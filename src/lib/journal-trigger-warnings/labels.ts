@@ -0,0 +1,36 @@
+import {useCallback} from 'react'
+import {msg} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {
+  isStandardTriggerWarning,
+  type JournalTriggerWarning,
+} from '#/lib/journal-trigger-warnings'
+
+const TRIGGER_WARNING_LABELS = {
+  violence: msg`Violence`,
+  sexual_violence: msg`Sexual violence`,
+  abuse: msg`Abuse`,
+  self_harm: msg`Self-harm`,
+  suicide: msg`Suicide`,
+  death: msg`Death or grief`,
+  blood_injury: msg`Blood or injury`,
+  medical: msg`Medical procedures`,
+  substance_use: msg`Substance use`,
+  stalking: msg`Stalking or harassment`,
+} satisfies Record<JournalTriggerWarning, unknown>
+
+/**
+ * @returns a function giving the display name of a warning. Warnings that
+ * aren't in the standard list are shown as written.
+ */
+export function useTriggerWarningLabel() {
+  const {_} = useLingui()
+  return useCallback(
+    (warning: string) =>
+      isStandardTriggerWarning(warning)
+        ? _(TRIGGER_WARNING_LABELS[warning])
+        : warning,
+    [_],
+  )
+}
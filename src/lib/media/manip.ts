@@ -149,6 +149,33 @@ export function getImageDim(path: string): Promise<Dimensions> {
   })
 }
 
+/**
+ * Re-encodes an image as a JPEG, which drops its EXIF and other metadata:
+ * GPS position, capture time, and the make and serial of the device
+ */
+export async function stripImageMetadata(
+  path: string,
+  quality = 0.9,
+): Promise<PickerImage> {
+  const res = await manipulateAsync(path, [], {
+    format: SaveFormat.JPEG,
+    compress: quality,
+  })
+  const fileInfo = await getInfoAsync(res.uri)
+  if (!fileInfo.exists) {
+    throw new Error(
+      'The image manipulation library failed to create a new image.',
+    )
+  }
+  return {
+    path: normalizePath(res.uri),
+    mime: 'image/jpeg',
+    size: fileInfo.size,
+    width: res.width,
+    height: res.height,
+  }
+}
+
 // internal methods
 // =
 
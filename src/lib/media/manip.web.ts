@@ -60,6 +60,30 @@ export async function getImageDim(path: string): Promise<Dimensions> {
   return {width: img.width, height: img.height}
 }
 
+/**
+ * Re-encodes an image as a JPEG, which drops its EXIF and other metadata:
+ * GPS position, capture time, and the make and serial of the device
+ */
+export async function stripImageMetadata(
+  path: string,
+  quality = 0.9,
+): Promise<PickerImage> {
+  const {width, height} = await getImageDim(path)
+  const dataUri = await createResizedImage(path, {
+    width,
+    height,
+    quality,
+    mode: 'stretch',
+  })
+  return {
+    path: dataUri,
+    mime: 'image/jpeg',
+    size: getDataUriSize(dataUri),
+    width,
+    height,
+  }
+}
+
 // internal methods
 // =
 
@@ -0,0 +1,79 @@
+import {type Dimensions} from './types'
+
+export type RedactionStyle = 'box' | 'blur'
+
+/**
+ * An area of an image to cover. Coordinates are fractions of the image's
+ * width and height, so regions drawn on a scaled-down preview apply to the
+ * full-size image unchanged.
+ */
+export interface RedactionRegion {
+  style: RedactionStyle
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+// Regions smaller than this, as a fraction of the preview, are taps rather
+// than drags and are ignored
+const MIN_REGION_SIZE = 0.01
+
+/**
+ * The region between two corners dragged out on a preview of `size`. Corners
+ * outside the preview are clamped to its edges.
+ *
+ * @returns undefined if the region is too small to be intentional
+ */
+export function getRedactionRegion(
+  style: RedactionStyle,
+  start: Point,
+  end: Point,
+  size: Dimensions,
+): RedactionRegion | undefined {
+  if (!size.width || !size.height) return undefined
+  const x1 = clamp(Math.min(start.x, end.x) / size.width)
+  const x2 = clamp(Math.max(start.x, end.x) / size.width)
+  const y1 = clamp(Math.min(start.y, end.y) / size.height)
+  const y2 = clamp(Math.max(start.y, end.y) / size.height)
+  if (x2 - x1 < MIN_REGION_SIZE || y2 - y1 < MIN_REGION_SIZE) return undefined
+  return {style, x: x1, y: y1, width: x2 - x1, height: y2 - y1}
+}
+
+/**
+ * The region in pixels on an image of `size`, rounded outwards so partial
+ * pixels at the edges are covered too
+ */
+export function getRedactionRect(
+  region: RedactionRegion,
+  size: Dimensions,
+): {x: number; y: number; width: number; height: number} {
+  const x = Math.floor(region.x * size.width)
+  const y = Math.floor(region.y * size.height)
+  const right = Math.min(
+    size.width,
+    Math.ceil((region.x + region.width) * size.width),
+  )
+  const bottom = Math.min(
+    size.height,
+    Math.ceil((region.y + region.height) * size.height),
+  )
+  return {x, y, width: right - x, height: bottom - y}
+}
+
+/**
+ * How far to blur a region so what's under it can't be read back. Scales with
+ * the region, since a fixed radius barely touches large text.
+ */
+export function getRedactionBlurRadius(rect: Dimensions): number {
+  return Math.max(8, Math.round(Math.min(rect.width, rect.height) / 4))
+}
+
+function clamp(value: number) {
+  return Math.min(1, Math.max(0, value))
+}
@@ -56,3 +56,11 @@ export function makeStarterPackLink(
     return `https://bsky.app/start/${starterPackOrName.creator.handle}/${uriRkey}`
   }
 }
+
+/**
+ * Always uses the DID, since the link service only shortens links that can't
+ * be redirected by a change of handle
+ */
+export function makeJournalSharePacketLink(did: string, id: string) {
+  return `https://bsky.app/packet/${did}/${id}`
+}
@@ -1,6 +1,7 @@
 import {type NavigationState, type PartialState} from '@react-navigation/native'
 import {type NativeStackNavigationProp} from '@react-navigation/native-stack'
 
+import {type JournalAccessPath} from '#/state/queries/journal/types'
 import {type VideoFeedSourceContext} from '#/screens/VideoFeed/types'
 
 export type {NativeStackScreenProps} from '@react-navigation/native-stack'
@@ -79,6 +80,7 @@ export type CommonNavigatorParams = {
   StarterPackShort: {code: string}
   StarterPackWizard: undefined
   StarterPackEdit: {rkey?: string}
+  JournalSharePacket: {did: string; id: string}
   Sources: undefined
   SourceDetail: {id: string}
   VideoFeed: VideoFeedSourceContext
@@ -116,8 +118,17 @@ export type MessagesTabNavigatorParams = CommonNavigatorParams & {
 export type JournalTabNavigatorParams = CommonNavigatorParams & {
   JournalList: undefined
   JournalComposer: undefined
-  JournalEntryDetail: {uri: string}
+  JournalEntryDetail: {uri: string; via?: JournalAccessPath}
+  JournalEntryAccess: {uri: string}
+  JournalAccessLog: {uri: string}
   JournalAnalytics: undefined
+  JournalEncryption: undefined
+  JournalTimeline: undefined
+  JournalRetention: undefined
+  JournalSharePackets: undefined
+  JournalTriggerWarnings: undefined
+  JournalCases: undefined
+  JournalCase: {uri: string}
 }
 
 export type FlatNavigatorParams = CommonNavigatorParams & {
@@ -127,8 +138,17 @@ export type FlatNavigatorParams = CommonNavigatorParams & {
   Notifications: undefined
   JournalList: undefined
   JournalComposer: undefined
-  JournalEntryDetail: {uri: string}
+  JournalEntryDetail: {uri: string; via?: JournalAccessPath}
+  JournalEntryAccess: {uri: string}
+  JournalAccessLog: {uri: string}
   JournalAnalytics: undefined
+  JournalEncryption: undefined
+  JournalTimeline: undefined
+  JournalRetention: undefined
+  JournalSharePackets: undefined
+  JournalTriggerWarnings: undefined
+  JournalCases: undefined
+  JournalCase: {uri: string}
   Sources: undefined
   SourceDetail: {id: string}
   Messages: {pushToConversation?: string; animation?: 'push' | 'pop'}
@@ -146,8 +166,17 @@ export type AllNavigatorParams = CommonNavigatorParams & {
   JournalTab: undefined
   JournalList: undefined
   JournalComposer: undefined
-  JournalEntryDetail: {uri: string}
+  JournalEntryDetail: {uri: string; via?: JournalAccessPath}
+  JournalEntryAccess: {uri: string}
+  JournalAccessLog: {uri: string}
   JournalAnalytics: undefined
+  JournalEncryption: undefined
+  JournalTimeline: undefined
+  JournalRetention: undefined
+  JournalSharePackets: undefined
+  JournalTriggerWarnings: undefined
+  JournalCases: undefined
+  JournalCase: {uri: string}
   Sources: undefined
   SourceDetail: {id: string}
   MessagesTab: undefined
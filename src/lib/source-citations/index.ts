@@ -0,0 +1,458 @@
+import {type Source} from '#/lib/api/sources'
+import {type JournalSource} from '#/state/queries/journal/types'
+
+export type CitationFormat = 'bibtex' | 'csl-json' | 'ris' | 'apa' | 'mla'
+
+export const CITATION_FORMATS: Record<
+  CitationFormat,
+  {label: string; extension: 'bib' | 'json' | 'ris' | 'txt'}
+> = {
+  bibtex: {label: 'BibTeX', extension: 'bib'},
+  'csl-json': {label: 'CSL-JSON', extension: 'json'},
+  ris: {label: 'RIS', extension: 'ris'},
+  apa: {label: 'APA', extension: 'txt'},
+  mla: {label: 'MLA', extension: 'txt'},
+}
+
+/**
+ * The parts of a source a citation is built from, so this works for sources
+ * from the API as well as the ones bundled with a journal case.
+ */
+export interface CitableSource {
+  id: string
+  name: string
+  url?: string
+  createdAt: string
+  authors?: string[]
+  publisher?: string
+  publishedAt?: string
+  doi?: string
+  snapshot?: {capturedAt: string}
+}
+
+/**
+ * A source as cited somewhere, such as from a journal entry. A citation's
+ * notes are the author's own and are never exported.
+ */
+export interface CitationItem {
+  source: CitableSource
+  citation?: Pick<JournalSource, 'quotedText' | 'pageNumber'>
+}
+
+/**
+ * Picks the citation details out of a source from the API
+ */
+export function toCitableSource(source: Source): CitableSource {
+  return {
+    id: source.id,
+    name: source.name,
+    url: source.url,
+    createdAt: source.createdAt,
+    authors: source.authors,
+    publisher: source.publisher,
+    publishedAt: source.publishedAt,
+    doi: source.doi,
+    snapshot: source.snapshot && {capturedAt: source.snapshot.capturedAt},
+  }
+}
+
+type Name = {family: string; given?: string} | {literal: string}
+
+/**
+ * Splits "Last, First" and "First Last". A single word is kept whole, since
+ * it's more often an organisation than a surname.
+ */
+export function parseAuthorName(author: string): Name {
+  const name = author.replace(/\s+/g, ' ').trim()
+  const comma = name.indexOf(',')
+  if (comma !== -1) {
+    const family = name.slice(0, comma).trim()
+    const given = name.slice(comma + 1).trim()
+    return given ? {family, given} : {literal: family}
+  }
+  const space = name.lastIndexOf(' ')
+  if (space === -1) return {literal: name}
+  return {family: name.slice(space + 1), given: name.slice(0, space)}
+}
+
+type DateParts = [number] | [number, number] | [number, number, number]
+
+function parseDate(value: string | undefined): DateParts | undefined {
+  const match = value?.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?/)
+  if (!match) return
+  return [match[1], match[2], match[3]]
+    .filter((part): part is string => !!part)
+    .map(Number) as DateParts
+}
+
+// the date the source was looked at, which is when it was archived or added
+function accessedDate(source: CitableSource): DateParts | undefined {
+  return parseDate(source.snapshot?.capturedAt ?? source.createdAt)
+}
+
+function sourceUrl(source: CitableSource): string | undefined {
+  return source.doi ? `https://doi.org/${source.doi}` : source.url
+}
+
+function authorNames(source: CitableSource): Name[] {
+  return (source.authors ?? []).filter(Boolean).map(parseAuthorName)
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, '0')
+}
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+]
+
+// MLA abbreviates months longer than four letters
+const MLA_MONTHS = [
+  'Jan.',
+  'Feb.',
+  'Mar.',
+  'Apr.',
+  'May',
+  'June',
+  'July',
+  'Aug.',
+  'Sept.',
+  'Oct.',
+  'Nov.',
+  'Dec.',
+]
+
+const BIBTEX_SPECIAL = /[\\{}&%$#_~^]/g
+const BIBTEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+}
+
+function escapeBibtex(value: string) {
+  return value.replace(
+    BIBTEX_SPECIAL,
+    char => BIBTEX_ESCAPES[char] ?? `\\${char}`,
+  )
+}
+
+function bibtexName(name: Name) {
+  // braces keep organisations from being read as a surname and initials
+  return 'literal' in name
+    ? `{${escapeBibtex(name.literal)}}`
+    : escapeBibtex(name.given ? `${name.family}, ${name.given}` : name.family)
+}
+
+/**
+ * Keys look like `smith2024title`, with a letter added when two sources in
+ * the same bibliography would otherwise share one.
+ */
+function bibtexKey(source: CitableSource, used: Set<string>) {
+  const [name] = authorNames(source)
+  const word = (value: string | undefined) =>
+    (value ?? '')
+      .normalize('NFKD')
+      .toLowerCase()
+      .replace(/[^a-z0-9 ]/g, '')
+      .split(' ')
+      .find(Boolean) ?? ''
+  const base =
+    [
+      word(name && ('literal' in name ? name.literal : name.family)),
+      parseDate(source.publishedAt)?.[0] ?? '',
+      word(source.name),
+    ].join('') || 'source'
+  let key = base
+  for (let i = 0; used.has(key); i++) {
+    key = i < 26 ? `${base}${String.fromCharCode(97 + i)}` : `${base}${i}`
+  }
+  used.add(key)
+  return key
+}
+
+function toBibtex({source, citation}: CitationItem, used: Set<string>) {
+  const published = parseDate(source.publishedAt)
+  const accessed = accessedDate(source)
+  const authors = authorNames(source)
+  const fields: Array<[string, string | number | undefined]> = [
+    // the extra braces keep the title's capitalisation
+    ['title', `{${escapeBibtex(source.name)}}`],
+    [
+      'author',
+      authors.length ? authors.map(bibtexName).join(' and ') : undefined,
+    ],
+    [
+      source.doi ? 'journal' : 'organization',
+      source.publisher && escapeBibtex(source.publisher),
+    ],
+    ['year', published?.[0]],
+    ['month', published?.[1]],
+    ['doi', source.doi && escapeBibtex(source.doi)],
+    // URLs are verbatim in biblatex
+    ['url', source.url],
+    [
+      'urldate',
+      source.url && accessed ? accessed.map(pad).join('-') : undefined,
+    ],
+    ['pages', citation?.pageNumber],
+    [
+      'note',
+      citation?.quotedText &&
+        `Quoted: \`\`${escapeBibtex(citation.quotedText)}''`,
+    ],
+  ]
+  const body = fields
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([field, value]) => `  ${field} = {${value}}`)
+    .join(',\n')
+  const type = source.doi ? 'article' : 'online'
+  return `@${type}{${bibtexKey(source, used)},\n${body}\n}`
+}
+
+export interface CslItem {
+  id: string
+  type: 'article-journal' | 'webpage' | 'document'
+  title: string
+  author?: Name[]
+  'container-title'?: string
+  issued?: {'date-parts': [DateParts]}
+  accessed?: {'date-parts': [DateParts]}
+  URL?: string
+  DOI?: string
+  page?: string
+  note?: string
+}
+
+function toCsl({source, citation}: CitationItem): CslItem {
+  const authors = authorNames(source)
+  const issued = parseDate(source.publishedAt)
+  const accessed = accessedDate(source)
+  return {
+    id: source.id,
+    type: source.doi ? 'article-journal' : source.url ? 'webpage' : 'document',
+    title: source.name,
+    author: authors.length ? authors : undefined,
+    'container-title': source.publisher,
+    issued: issued && {'date-parts': [issued]},
+    accessed: source.url && accessed ? {'date-parts': [accessed]} : undefined,
+    URL: source.url,
+    DOI: source.doi,
+    page: citation?.pageNumber?.toString(),
+    note: citation?.quotedText && `Quoted: “${citation.quotedText}”`,
+  }
+}
+
+function toRis({source, citation}: CitationItem) {
+  const published = parseDate(source.publishedAt)
+  const accessed = accessedDate(source)
+  // RIS dates are YYYY/MM/DD/ with empty parts left blank
+  const risDate = (parts: DateParts) =>
+    [0, 1, 2].map(i => (parts[i] ? pad(parts[i]!) : '')).join('/') + '/'
+  const lines: Array<[string, string | number | undefined]> = [
+    ['TY', source.doi ? 'JOUR' : source.url ? 'ELEC' : 'GEN'],
+    ['TI', source.name],
+    ...authorNames(source).map((name): [string, string] => [
+      'AU',
+      'literal' in name
+        ? name.literal
+        : name.given
+          ? `${name.family}, ${name.given}`
+          : name.family,
+    ]),
+    ['T2', source.publisher],
+    ['PY', published?.[0]],
+    ['DA', published && risDate(published)],
+    ['DO', source.doi],
+    ['UR', source.url],
+    ['Y2', source.url && accessed ? risDate(accessed) : undefined],
+    ['SP', citation?.pageNumber],
+    ['N1', citation?.quotedText && `Quoted: “${citation.quotedText}”`],
+  ]
+  return [
+    ...lines
+      .filter(([, value]) => value !== undefined && value !== '')
+      // values can't span lines
+      .map(([tag, value]) => `${tag}  - ${String(value).replace(/\s+/g, ' ')}`),
+    'ER  - ',
+  ].join('\r\n')
+}
+
+function apaName(name: Name) {
+  if ('literal' in name) return name.literal
+  if (!name.given) return name.family
+  const initials = name.given
+    .split(' ')
+    .map(part =>
+      part
+        .split('-')
+        .map(piece => `${piece[0].toUpperCase()}.`)
+        .join('-'),
+    )
+    .join(' ')
+  return `${name.family}, ${initials}`
+}
+
+function apaAuthors(names: Name[]) {
+  const formatted = names.map(apaName)
+  // up to 20 authors are listed, after that the first 19, … and the last
+  if (formatted.length > 20) {
+    return `${formatted.slice(0, 19).join(', ')}, . . . ${formatted[formatted.length - 1]}`
+  }
+  if (formatted.length <= 1) return formatted[0] ?? ''
+  return `${formatted.slice(0, -1).join(', ')}, & ${formatted[formatted.length - 1]}`
+}
+
+function withPeriod(value: string) {
+  return /[.?!]$/.test(value) ? value : `${value}.`
+}
+
+function toApa({source}: CitationItem) {
+  const published = parseDate(source.publishedAt)
+  const date = published
+    ? [
+        published[0],
+        published[1] &&
+          [MONTHS[published[1] - 1], published[2]].filter(Boolean).join(' '),
+      ]
+        .filter(Boolean)
+        .join(', ')
+    : 'n.d.'
+  const authors = apaAuthors(authorNames(source))
+  const title = withPeriod(source.name)
+  // without authors the title takes their place
+  const parts = authors
+    ? [withPeriod(authors), `(${date}).`, title]
+    : [title, `(${date}).`]
+  if (source.publisher && source.publisher !== authors) {
+    parts.push(withPeriod(source.publisher))
+  }
+  const url = sourceUrl(source)
+  if (url) parts.push(url)
+  return parts.join(' ')
+}
+
+function mlaAuthors(names: Name[]) {
+  const full = (name: Name) =>
+    'literal' in name
+      ? name.literal
+      : [name.given, name.family].filter(Boolean).join(' ')
+  const [first, second] = names
+  if (!first) return ''
+  const lead =
+    'literal' in first
+      ? first.literal
+      : [first.family, first.given].filter(Boolean).join(', ')
+  if (names.length === 1) return lead
+  if (names.length === 2) return `${lead}, and ${full(second)}`
+  return `${lead}, et al`
+}
+
+function mlaDate(parts: DateParts) {
+  const [year, month, day] = parts
+  return [day, month && MLA_MONTHS[month - 1], year].filter(Boolean).join(' ')
+}
+
+function toMla({source}: CitationItem) {
+  const authors = mlaAuthors(authorNames(source))
+  const published = parseDate(source.publishedAt)
+  const accessed = accessedDate(source)
+  const container = [
+    source.publisher,
+    published && mlaDate(published),
+    // MLA leaves the scheme off URLs
+    sourceUrl(source)?.replace(/^https?:\/\//, ''),
+  ].filter(Boolean)
+  const parts = [
+    authors && withPeriod(authors),
+    `“${withPeriod(source.name)}”`,
+    container.length ? withPeriod(container.join(', ')) : undefined,
+    // the access date is only needed when there's no publication date
+    !published && source.url && accessed
+      ? `Accessed ${mlaDate(accessed)}.`
+      : undefined,
+  ]
+  return parts.filter(Boolean).join(' ')
+}
+
+/**
+ * The quoted passage under an APA or MLA reference, with the page it's on.
+ */
+function quoteLine({citation}: CitationItem, format: 'apa' | 'mla') {
+  if (!citation?.quotedText) return
+  const page = citation.pageNumber
+  const locator =
+    page === undefined ? '' : format === 'apa' ? ` (p. ${page})` : ` (${page})`
+  return `    “${citation.quotedText.trim()}”${locator}`
+}
+
+/**
+ * Formats one source. BibTeX keys are only unique within a bibliography, so
+ * use {@link formatBibliography} for several.
+ */
+export function formatCitation(
+  item: CitationItem,
+  format: CitationFormat,
+): string {
+  return formatBibliography([item], format)
+}
+
+/**
+ * Formats sources as a bibliography. APA and MLA references are sorted
+ * alphabetically as both styles require; the other formats keep the order
+ * given. The same source is only cited once.
+ */
+export function formatBibliography(
+  items: CitationItem[],
+  format: CitationFormat,
+): string {
+  const seen = new Set<string>()
+  const unique = items.filter(item => {
+    if (seen.has(item.source.id)) return false
+    seen.add(item.source.id)
+    return true
+  })
+
+  switch (format) {
+    case 'bibtex': {
+      const used = new Set<string>()
+      return unique.map(item => toBibtex(item, used)).join('\n\n') + '\n'
+    }
+    case 'csl-json':
+      return JSON.stringify(unique.map(toCsl), null, 2)
+    case 'ris':
+      return unique.map(toRis).join('\r\n\r\n') + '\r\n'
+    case 'apa':
+    case 'mla': {
+      const toReference = format === 'apa' ? toApa : toMla
+      return (
+        unique
+          .map(item => ({
+            reference: toReference(item),
+            quote: quoteLine(item, format),
+          }))
+          .sort((a, b) =>
+            a.reference.localeCompare(b.reference, 'en', {
+              sensitivity: 'base',
+            }),
+          )
+          .map(({reference, quote}) =>
+            quote ? `${reference}\n${quote}` : reference,
+          )
+          .join('\n\n') + '\n'
+      )
+    }
+  }
+}
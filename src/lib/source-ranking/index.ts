@@ -0,0 +1,220 @@
+import {suggestInitialRank} from '#/lib/source-validation'
+
+export type SourceRank =
+  | 'new'
+  | 'debated'
+  | 'debunked'
+  | 'slightly_vetted'
+  | 'vetted'
+  | 'trusted'
+
+export interface SourceVote {
+  vote: 'up' | 'down'
+  createdAt: string
+  // the highest verification level among the voter's victim badges, if any
+  voterVerificationLevel?: 0 | 1 | 2 | 3
+}
+
+/**
+ * How much a vote counts for, by the voter's badge verification level.
+ * Verified badge holders have shown they've been through what the sources
+ * are about, so their judgement counts for more, but never so much that a
+ * few of them can outvote everyone else.
+ */
+export const VOTE_WEIGHTS = [1, 1.5, 2, 3] as const
+
+/**
+ * A vote loses half its weight for every half-life that passes before the
+ * most recent vote. Decay is measured from the latest vote rather than from
+ * today, so a rank only changes when someone votes and can always be worked
+ * out again from the votes alone.
+ */
+export const VOTE_HALF_LIFE_DAYS = 180
+
+// z for a 95% confidence interval
+const Z = 1.96
+
+// below this much weighted voting a source keeps its initial rank
+export const MIN_WEIGHTED_VOTES = 3
+
+// weighted votes a source needs before it can be trusted
+export const TRUSTED_MIN_WEIGHTED_VOTES = 25
+
+/**
+ * Rank thresholds on the confidence interval of the share of upvotes. A rank
+ * is only given when the interval clears it, so a handful of votes can't
+ * carry a source as far as many votes agreeing.
+ */
+export const RANK_THRESHOLDS = {
+  // lower bounds
+  trusted: 0.8,
+  vetted: 0.65,
+  slightly_vetted: 0.5,
+  // upper bound
+  debunked: 0.25,
+  // when none of the above are reached, the share of upvotes below which the
+  // votes count as disagreement rather than too early to tell
+  debated: 0.75,
+} as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface SourceScore {
+  // weighted and decayed vote totals
+  up: number
+  down: number
+  total: number
+  // 95% Wilson score interval for the share of upvotes
+  lowerBound: number
+  upperBound: number
+}
+
+export type SourceRankReason =
+  // too few votes, or too few agreeing, so the rank comes from the domain
+  | {type: 'initial'; trustedDomain: boolean; score?: SourceScore}
+  | {type: 'score'; score: SourceScore}
+
+export interface SourceRanking {
+  rank: SourceRank
+  reason: SourceRankReason
+}
+
+export interface SourceRankChange extends SourceRanking {
+  previousRank?: SourceRank
+  changedAt: string
+  // the vote that caused the change, absent for the initial rank
+  vote?: SourceVote
+}
+
+export function getVoteWeight(vote: SourceVote, asOf: number): number {
+  const level = vote.voterVerificationLevel ?? 0
+  // whole days, so votes cast the same day as the latest count in full
+  const ageDays = Math.floor(
+    Math.max(0, asOf - Date.parse(vote.createdAt)) / DAY_MS,
+  )
+  return VOTE_WEIGHTS[level] * 0.5 ** (ageDays / VOTE_HALF_LIFE_DAYS)
+}
+
+/**
+ * Weighted vote totals and the Wilson score interval of the upvote share.
+ * The interval is used rather than the plain share since it accounts for how
+ * many votes there are: 3 of 3 upvotes gives 0.44–1, 30 of 30 gives 0.89–1.
+ */
+export function scoreSourceVotes(votes: SourceVote[]): SourceScore {
+  const asOf = Math.max(...votes.map(vote => Date.parse(vote.createdAt)))
+  let up = 0
+  let down = 0
+  for (const vote of votes) {
+    const weight = getVoteWeight(vote, asOf)
+    if (vote.vote === 'up') {
+      up += weight
+    } else {
+      down += weight
+    }
+  }
+  const total = up + down
+  if (total === 0) {
+    return {up, down, total, lowerBound: 0, upperBound: 1}
+  }
+
+  const p = up / total
+  const z2 = Z * Z
+  const center = p + z2 / (2 * total)
+  const margin = Z * Math.sqrt((p * (1 - p) + z2 / (4 * total)) / total)
+  const denominator = 1 + z2 / total
+  return {
+    up,
+    down,
+    total,
+    lowerBound: Math.max(0, (center - margin) / denominator),
+    upperBound: Math.min(1, (center + margin) / denominator),
+  }
+}
+
+/**
+ * Ranks a source from its votes.
+ *
+ * - With less than {@link MIN_WEIGHTED_VOTES} of weighted votes the source
+ *   keeps its initial rank: `slightly_vetted` for trusted domains, `new`
+ *   otherwise.
+ * - `debunked` when even the upper bound of the upvote share is at most
+ *   {@link RANK_THRESHOLDS}.debunked.
+ * - `trusted`, `vetted` and `slightly_vetted` when the lower bound reaches
+ *   their threshold, and for `trusted` there are at least
+ *   {@link TRUSTED_MIN_WEIGHTED_VOTES} of weighted votes.
+ * - `debated` when none of those are reached and less than
+ *   {@link RANK_THRESHOLDS}.debated of the weighted votes are upvotes.
+ * - The initial rank otherwise, as the votes agree but there are too few to
+ *   rank on.
+ */
+export function rankSource(
+  source: {url?: string},
+  votes: SourceVote[],
+): SourceRanking {
+  const score = scoreSourceVotes(votes)
+  const initial = (): SourceRanking => {
+    const rank = source.url ? suggestInitialRank(source.url) : 'new'
+    return {
+      rank,
+      reason: {
+        type: 'initial',
+        trustedDomain: rank !== 'new',
+        score: score.total > 0 ? score : undefined,
+      },
+    }
+  }
+  if (score.total < MIN_WEIGHTED_VOTES) {
+    return initial()
+  }
+
+  let rank: SourceRank
+  if (score.upperBound <= RANK_THRESHOLDS.debunked) {
+    rank = 'debunked'
+  } else if (
+    score.lowerBound >= RANK_THRESHOLDS.trusted &&
+    score.total >= TRUSTED_MIN_WEIGHTED_VOTES
+  ) {
+    rank = 'trusted'
+  } else if (score.lowerBound >= RANK_THRESHOLDS.vetted) {
+    rank = 'vetted'
+  } else if (score.lowerBound >= RANK_THRESHOLDS.slightly_vetted) {
+    rank = 'slightly_vetted'
+  } else if (score.up / score.total < RANK_THRESHOLDS.debated) {
+    rank = 'debated'
+  } else {
+    // mostly upvoted, but not by enough people yet
+    return initial()
+  }
+  return {rank, reason: {type: 'score', score}}
+}
+
+/**
+ * Replays the votes in the order they were cast and records every time the
+ * rank changed, starting with the rank the source was created with. Newest
+ * changes come last. Each step rescores every earlier vote, which is fine for
+ * the hundreds of votes a source gets.
+ */
+export function getSourceRankHistory(
+  source: {url?: string; createdAt: string},
+  votes: SourceVote[],
+): SourceRankChange[] {
+  const ordered = [...votes].sort(
+    (a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt),
+  )
+  const history: SourceRankChange[] = [
+    {...rankSource(source, []), changedAt: source.createdAt},
+  ]
+  for (let i = 0; i < ordered.length; i++) {
+    const previousRank = history[history.length - 1].rank
+    const ranking = rankSource(source, ordered.slice(0, i + 1))
+    if (ranking.rank !== previousRank) {
+      history.push({
+        ...ranking,
+        previousRank,
+        changedAt: ordered[i].createdAt,
+        vote: ordered[i],
+      })
+    }
+  }
+  return history
+}
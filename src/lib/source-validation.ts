@@ -2,12 +2,39 @@
  * Source validation utilities for URL validation and metadata extraction
  */
 
+import {SOURCE_META_PROXY, SOURCE_SNAPSHOT_PROXY} from '#/lib/constants'
+
 export interface SourceMetadata {
+  /** Where the URL ended up after redirects */
+  url?: string
+  /** The URL the page declares for itself */
+  canonicalUrl?: string
   title?: string
   description?: string
   favicon?: string
   image?: string
   siteName?: string
+  authors?: string[]
+  publisher?: string
+  /** ISO date, possibly just a year or year and month */
+  publishedAt?: string
+  doi?: string
+}
+
+/**
+ * A source's page as it was when it was cited, kept so that later changes
+ * can be spotted and the text can still be read if the page goes away
+ */
+export interface SourceSnapshot {
+  url: string
+  finalUrl: string
+  capturedAt: string
+  contentType?: string
+  contentHash: string
+  textHash?: string
+  simhash?: string
+  // not kept for PDFs, which are only compared by their hash
+  text?: string
 }
 
 export interface ValidationResult {
@@ -67,87 +94,57 @@ export async function validateSource(url: string): Promise<ValidationResult> {
 }
 
 /**
- * Extracts metadata from a URL
- * In a real implementation, this would use a service like Open Graph or similar
+ * Extracts metadata from a URL through the source metadata service
+ * (bskysourcemeta), which fetches the page server-side so it works on web
+ * and doesn't reveal the user's IP to the site
  */
 async function extractMetadata(url: string): Promise<SourceMetadata> {
   try {
-    // For now, we'll use a simple fetch to get basic info
-    // In production, you'd want to use a proper metadata extraction service
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'User-Agent': 'NPWA-SourceBot/1.0',
-      },
-    })
+    const response = await fetch(
+      `${SOURCE_META_PROXY}${encodeURIComponent(url)}`,
+    )
+    const body = await response.json()
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-    }
-
-    const html = await response.text()
-    
-    // Extract basic metadata using simple regex (in production, use a proper HTML parser)
-    const metadata: SourceMetadata = {}
-
-    // Extract title
-    const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i)
-    if (titleMatch) {
-      metadata.title = titleMatch[1].trim()
-    }
-
-    // Extract Open Graph title
-    const ogTitleMatch = html.match(/<meta[^>]*property=['"](og:title)['"][^>]*content=['"]([^'"]+)['"]/i)
-    if (ogTitleMatch) {
-      metadata.title = ogTitleMatch[2].trim()
-    }
-
-    // Extract description
-    const descMatch = html.match(/<meta[^>]*name=['"](description)['"][^>]*content=['"]([^'"]+)['"]/i)
-    if (descMatch) {
-      metadata.description = descMatch[2].trim()
-    }
-
-    // Extract Open Graph description
-    const ogDescMatch = html.match(/<meta[^>]*property=['"](og:description)['"][^>]*content=['"]([^'"]+)['"]/i)
-    if (ogDescMatch) {
-      metadata.description = ogDescMatch[2].trim()
-    }
-
-    // Extract site name
-    const siteNameMatch = html.match(/<meta[^>]*property=['"](og:site_name)['"][^>]*content=['"]([^'"]+)['"]/i)
-    if (siteNameMatch) {
-      metadata.siteName = siteNameMatch[2].trim()
-    }
-
-    // Extract favicon
-    const faviconMatch = html.match(/<link[^>]*rel=['"](icon|shortcut icon)['"][^>]*href=['"]([^'"]+)['"]/i)
-    if (faviconMatch) {
-      const faviconUrl = faviconMatch[2]
-      // Convert relative URLs to absolute
-      if (faviconUrl.startsWith('/')) {
-        const urlObj = new URL(url)
-        metadata.favicon = `${urlObj.protocol}//${urlObj.host}${faviconUrl}`
-      } else if (!faviconUrl.startsWith('http')) {
-        const urlObj = new URL(url)
-        metadata.favicon = `${urlObj.protocol}//${urlObj.host}/${faviconUrl}`
-      } else {
-        metadata.favicon = faviconUrl
-      }
+      throw new Error(body.message || `HTTP ${response.status}`)
     }
 
-    // Extract Open Graph image
-    const ogImageMatch = html.match(/<meta[^>]*property=['"](og:image)['"][^>]*content=['"]([^'"]+)['"]/i)
-    if (ogImageMatch) {
-      metadata.image = ogImageMatch[2]
+    return {
+      url: body.url,
+      canonicalUrl: body.canonicalUrl,
+      title: body.title,
+      description: body.description,
+      favicon: body.favicon,
+      image: body.image,
+      siteName: body.siteName,
+      authors: body.authors,
+      publisher: body.publisher,
+      publishedAt: body.publishedAt,
+      doi: body.doi,
     }
-
-    return metadata
   } catch (error) {
     throw new Error(`Failed to extract metadata: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 }
 
+/**
+ * Captures a snapshot of a source's page through the source metadata service
+ */
+export async function captureSourceSnapshot(
+  url: string,
+): Promise<SourceSnapshot> {
+  const response = await fetch(
+    `${SOURCE_SNAPSHOT_PROXY}${encodeURIComponent(url)}`,
+  )
+  const body = await response.json()
+
+  if (!response.ok) {
+    throw new Error(body.message || `HTTP ${response.status}`)
+  }
+
+  return body
+}
+
 /**
  * Normalizes a URL by adding protocol if missing and removing trailing slashes
  */
@@ -165,6 +162,200 @@ export function normalizeUrl(url: string): string {
   return normalized
 }
 
+// query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'gbraid',
+  'wbraid',
+  'msclkid',
+  'yclid',
+  'twclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  '_hsenc',
+  '_hsmi',
+  'ref_src',
+  'ref_url',
+  'cmpid',
+  'ocid',
+  'smid',
+  'amp',
+])
+const TRACKING_PARAM_PREFIXES = ['utm_', 'pk_', 'hsa_']
+
+// host prefixes that serve the same page as the bare domain
+const ALTERNATE_HOST_RE = /^(www\d?|m|mobile|amp)\.(?=.+\..+)/
+
+/**
+ * Reduces a URL to the form that should be stored for a source: tracking
+ * parameters, fragments and AMP wrappers are removed and the query is sorted,
+ * so that links shared from different places end up the same. Returns the
+ * input unchanged if it isn't a valid URL.
+ */
+export function canonicalizeUrl(url: string): string {
+  let urlObj: URL
+  try {
+    urlObj = new URL(normalizeUrl(url))
+  } catch {
+    return url
+  }
+
+  // Google's AMP viewer and the AMP cache wrap the publisher's URL
+  const ampHost = urlObj.hostname.toLowerCase()
+  const wrapped =
+    /^(www\.)?google\.[a-z.]+$/.test(ampHost) ||
+    ampHost.endsWith('.cdn.ampproject.org')
+      ? urlObj.pathname.match(
+          /^\/(?:amp|[cvi])\/(s\/)?([^/]+\.[^/]+(?:\/.*)?)$/,
+        )
+      : null
+  if (wrapped) {
+    try {
+      urlObj = new URL(
+        `${wrapped[1] ? 'https' : 'http'}://${wrapped[2]}${urlObj.search}`,
+      )
+    } catch {
+      return url
+    }
+  }
+
+  urlObj.hash = ''
+  urlObj.username = ''
+  urlObj.password = ''
+  urlObj.pathname = urlObj.pathname
+    .replace(/^\/amp(?=\/.)/, '')
+    .replace(/\/amp\/?$/, '')
+    .replace(/\.amp(\.html?)$/, '$1')
+
+  const params = [...urlObj.searchParams].filter(([key, value]) => {
+    const lower = key.toLowerCase()
+    if (lower === 'outputtype') return value.toLowerCase() !== 'amp'
+    return (
+      !TRACKING_PARAMS.has(lower) &&
+      !TRACKING_PARAM_PREFIXES.some(prefix => lower.startsWith(prefix))
+    )
+  })
+  params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  urlObj.search = new URLSearchParams(params).toString()
+
+  // not every URL implementation lowercases the host
+  urlObj.hostname = urlObj.hostname.toLowerCase()
+  return urlObj.toString().replace(/\/(?=$|\?)/, '')
+}
+
+function siteOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(ALTERNATE_HOST_RE, '')
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Picks the URL to store for a source once its page has been looked up:
+ * where redirects ended up, or the page's own canonical URL if it is on the
+ * same site. Canonical URLs pointing elsewhere are ignored, as some sites set
+ * them carelessly.
+ */
+export function resolveSourceUrl(
+  url: string,
+  metadata?: Pick<SourceMetadata, 'url' | 'canonicalUrl'>,
+): string {
+  const finalUrl = metadata?.url || url
+  const canonicalUrl = metadata?.canonicalUrl
+  const site = siteOf(finalUrl)
+  if (canonicalUrl && site && siteOf(canonicalUrl) === site) {
+    return canonicalizeUrl(canonicalUrl)
+  }
+  return canonicalizeUrl(finalUrl)
+}
+
+/**
+ * Normalizes a DOI given bare, with a `doi:` prefix or as a resolver link
+ */
+export function normalizeDoi(doi: string): string | undefined {
+  const match = doi
+    .trim()
+    .replace(/^(https?:\/\/)?(dx\.)?doi\.org\//i, '')
+    .replace(/^doi:\s*/i, '')
+    .match(/^10\.\d{4,9}\/\S+$/)
+  if (!match) return
+  try {
+    return decodeURIComponent(match[0]).toLowerCase()
+  } catch {
+    return match[0].toLowerCase()
+  }
+}
+
+const ARXIV_ID_RE = /^(\d{4}\.\d{4,5}|[a-z-]+(?:\.[a-z]{2})?\/\d{7})(v\d+)?$/i
+
+function arxivKey(id: string): string | undefined {
+  const match = id.match(ARXIV_ID_RE)
+  return match ? `arxiv:${match[1].toLowerCase()}` : undefined
+}
+
+/**
+ * Returns the key that identifies a source regardless of which link was used
+ * to add it. DOIs, arXiv IDs and PubMed IDs are preferred over URLs, as the
+ * same paper is reachable from its publisher, a preprint server or an index.
+ * URLs are compared without scheme, `www.`/`m.` prefixes or tracking
+ * parameters.
+ */
+export function getCanonicalSourceKey({
+  url,
+  doi,
+}: {
+  url?: string
+  doi?: string
+}): string | undefined {
+  let urlObj: URL | undefined
+  if (url) {
+    try {
+      urlObj = new URL(canonicalizeUrl(url))
+    } catch {
+      // fall back to the DOI alone
+    }
+  }
+  const host = urlObj?.hostname.replace(ALTERNATE_HOST_RE, '')
+  const path = urlObj?.pathname ?? ''
+
+  const normalizedDoi =
+    (doi && normalizeDoi(doi)) ||
+    (host === 'doi.org' || host === 'dx.doi.org'
+      ? normalizeDoi(path.slice(1))
+      : undefined) ||
+    // publisher sites commonly use /doi/10.xxxx/..., /doi/abs/10.xxxx/...
+    normalizeDoi(
+      path.match(/\/doi\/(?:[a-z]+\/)?(10\.\d{4,9}\/.+)$/)?.[1] ?? '',
+    )
+  if (normalizedDoi) {
+    const arxivDoi = normalizedDoi.match(/^10\.48550\/arxiv\.(.+)$/)
+    return (arxivDoi && arxivKey(arxivDoi[1])) || `doi:${normalizedDoi}`
+  }
+  if (!urlObj || !host) return
+
+  if (host === 'arxiv.org' || host === 'export.arxiv.org') {
+    const id = path.match(/^\/(?:abs|pdf)\/(.+?)(?:\.pdf)?$/)?.[1]
+    const key = id && arxivKey(id)
+    if (key) return key
+  }
+  if (host === 'pubmed.ncbi.nlm.nih.gov' || host === 'ncbi.nlm.nih.gov') {
+    const pmid = path.match(/^(?:\/pubmed)?\/(\d+)$/)?.[1]
+    if (pmid) return `pmid:${pmid}`
+  }
+  if (host === 'pmc.ncbi.nlm.nih.gov' || host === 'ncbi.nlm.nih.gov') {
+    const pmcid = path.match(/^(?:\/pmc)?\/articles\/(pmc\d+)$/i)?.[1]
+    if (pmcid) return `pmcid:${pmcid.toUpperCase()}`
+  }
+
+  return `url:${host}${urlObj.port ? `:${urlObj.port}` : ''}${urlObj.pathname}${urlObj.search}`
+}
+
 /**
  * Extracts domain from URL for display purposes
  */
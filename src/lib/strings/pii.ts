@@ -0,0 +1,170 @@
+export type PIIKind = 'email' | 'phone' | 'address' | 'name'
+
+/**
+ * A stretch of text that could identify the author. `start` and `end` are
+ * UTF-16 offsets, like `String.prototype.slice`.
+ */
+export interface PIISpan {
+  kind: PIIKind
+  start: number
+  end: number
+  text: string
+}
+
+const EMAIL_REGEX = /[\w.%+-]+@[a-z\d-]+(?:\.[a-z\d-]+)*\.[a-z]{2,}/gi
+
+// Loose on purpose: anything with enough digits and the usual separators.
+// The digit count is checked separately.
+const PHONE_REGEX = /\+?\(?\d[\d ().-]{7,}\d/g
+const PHONE_MIN_DIGITS = 10
+const PHONE_MAX_DIGITS = 15
+
+const STREET_SUFFIXES = [
+  'Street',
+  'St',
+  'Avenue',
+  'Ave',
+  'Road',
+  'Rd',
+  'Boulevard',
+  'Blvd',
+  'Lane',
+  'Ln',
+  'Drive',
+  'Dr',
+  'Court',
+  'Ct',
+  'Place',
+  'Pl',
+  'Terrace',
+  'Way',
+  'Circle',
+  'Cir',
+  'Parkway',
+  'Pkwy',
+  'Highway',
+  'Hwy',
+  'Close',
+  'Crescent',
+]
+
+// A house number, one to four capitalized words and a street type, with an
+// optional unit, e.g. "221B Baker Street" or "12 N Elm Ave, Apt 4"
+const ADDRESS_REGEX = new RegExp(
+  `\\b\\d{1,6}[A-Z]?\\s+(?:[A-Z][\\w'-]*\\.?\\s+){1,4}(?:${STREET_SUFFIXES.join(
+    '|',
+  )})\\b\\.?(?:,?\\s+(?:Apt|Apartment|Unit|Suite|Ste|#)\\.?\\s*\\w+)?`,
+  'g',
+)
+
+const REDACTION_PLACEHOLDERS: Record<PIIKind, string> = {
+  email: '[email]',
+  phone: '[phone]',
+  address: '[address]',
+  name: '[name]',
+}
+
+/**
+ * Finds email addresses, phone numbers, street addresses and any of `names`
+ * in `text`. Detection errs towards flagging, since every span is shown to
+ * the user to confirm before anything is redacted.
+ *
+ * @param names full names to look for, such as the author's own name and the
+ * names of people they know. Single words are ignored, they match too much.
+ */
+export function findPIISpans(
+  text: string,
+  {names = []}: {names?: string[]} = {},
+): PIISpan[] {
+  const spans: PIISpan[] = []
+
+  for (const match of text.matchAll(EMAIL_REGEX)) {
+    spans.push(toSpan('email', match))
+  }
+
+  for (const match of text.matchAll(PHONE_REGEX)) {
+    const before = text[match.index! - 1]
+    if (before && /[\w+]/.test(before)) continue
+    // dates and times, e.g. 2024-03-05 14:30
+    if (/^\d{4}-\d{2}-\d{2}/.test(match[0])) continue
+    const digits = match[0].replace(/\D/g, '').length
+    if (digits < PHONE_MIN_DIGITS || digits > PHONE_MAX_DIGITS) continue
+    spans.push(toSpan('phone', match))
+  }
+
+  for (const match of text.matchAll(ADDRESS_REGEX)) {
+    spans.push(toSpan('address', match))
+  }
+
+  const namesRegex = getNamesRegex(names)
+  if (namesRegex) {
+    for (const match of text.matchAll(namesRegex)) {
+      const end = match.index! + match[0].length
+      if (isWordChar(text[match.index! - 1]) || isWordChar(text[end])) continue
+      spans.push(toSpan('name', match))
+    }
+  }
+
+  return removeOverlaps(spans)
+}
+
+/**
+ * Replaces each span with a placeholder for its kind, e.g. `[email]`
+ */
+export function redactPIISpans(text: string, spans: PIISpan[]): string {
+  let redacted = text
+  for (const span of [...spans].sort((a, b) => b.start - a.start)) {
+    if (redacted.slice(span.start, span.end) !== span.text) continue
+    redacted =
+      redacted.slice(0, span.start) +
+      REDACTION_PLACEHOLDERS[span.kind] +
+      redacted.slice(span.end)
+  }
+  return redacted
+}
+
+function toSpan(kind: PIIKind, match: RegExpMatchArray): PIISpan {
+  const start = match.index!
+  return {kind, start, end: start + match[0].length, text: match[0]}
+}
+
+function getNamesRegex(names: string[]): RegExp | undefined {
+  const fullNames = Array.from(
+    new Set(
+      names
+        .map(name => name.trim().replace(/\s+/g, ' '))
+        .filter(name => name.includes(' ')),
+    ),
+  )
+  if (!fullNames.length) return undefined
+  // longest first, so "Mary Ann Smith" wins over "Mary Ann"
+  const pattern = fullNames
+    .sort((a, b) => b.length - a.length)
+    .map(name =>
+      name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+'),
+    )
+    .join('|')
+  return new RegExp(pattern, 'gi')
+}
+
+// Covers letters in any script, which `\w` doesn't
+function isWordChar(char: string | undefined): boolean {
+  if (!char) return false
+  return /\d/.test(char) || char.toLowerCase() !== char.toUpperCase()
+}
+
+/**
+ * Keeps the earliest, then longest, of any spans that overlap
+ */
+function removeOverlaps(spans: PIISpan[]): PIISpan[] {
+  const sorted = [...spans].sort(
+    (a, b) => a.start - b.start || b.end - b.start - (a.end - a.start),
+  )
+  const result: PIISpan[] = []
+  for (const span of sorted) {
+    const last = result[result.length - 1]
+    if (last && span.start < last.end) continue
+    result.push(span)
+  }
+  return result
+}
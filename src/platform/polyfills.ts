@@ -1,5 +1,7 @@
 import 'react-native-url-polyfill/auto'
 import 'fast-text-encoding'
+// crypto.getRandomValues, used by journal encryption
+import 'react-native-get-random-values'
 export {}
 
 /**
@@ -84,6 +84,17 @@ export const router = new Router<AllNavigatableRoutes>({
   // Journal
   JournalList: '/journal',
   JournalComposer: '/journal/new',
+  JournalEncryption: '/journal/encryption',
+  JournalTimeline: '/journal/timeline',
+  JournalRetention: '/journal/retention',
+  JournalEntryDetail: '/journal/entry',
+  JournalEntryAccess: '/journal/entry/access',
+  JournalAccessLog: '/journal/entry/access-log',
+  JournalSharePackets: '/journal/share',
+  JournalTriggerWarnings: '/journal/trigger-warnings',
+  JournalCases: '/journal/cases',
+  JournalCase: '/journal/case',
+  JournalSharePacket: '/packet/:did/:id',
   // Sources
   Sources: '/sources',
   SourceDetail: '/sources/:id',
@@ -0,0 +1,217 @@
+import {useCallback} from 'react'
+import {ActivityIndicator, ScrollView, StyleSheet, View} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {
+  type JournalTabNavigatorParams,
+  type NativeStackScreenProps,
+} from '#/lib/routes/types'
+import {cleanError} from '#/lib/strings/errors'
+import {useJournalEntry} from '#/state/queries/journal'
+import {
+  useExportJournalAccessLog,
+  useJournalAccessLog,
+} from '#/state/queries/journal/access-log'
+import {
+  type JournalAccessEvent,
+  type JournalAccessPath,
+} from '#/state/queries/journal/types'
+import {useProfileQuery} from '#/state/queries/profile'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {Download_Stroke2_Corner0_Rounded as Download} from '#/components/icons/Download'
+import {Text} from '#/components/Typography'
+
+type Props = NativeStackScreenProps<
+  JournalTabNavigatorParams,
+  'JournalAccessLog'
+>
+
+/**
+ * Lists the views of one of the user's entries by the people it's been
+ * granted to, and exports the list as CSV
+ */
+export function JournalAccessLogScreen({route}: Props) {
+  const {uri: entryUri} = route.params
+  const {_} = useLingui()
+  const t = useTheme()
+
+  const {data: entry} = useJournalEntry(entryUri)
+  const {data: events, isLoading, error} = useJournalAccessLog(entryUri)
+  const exportMutation = useExportJournalAccessLog()
+
+  const handleExport = useCallback(() => {
+    if (!events) return
+    exportMutation.mutate(
+      {entryUri, events},
+      {
+        onSuccess: () => Toast.show(_(msg`Access log exported`)),
+        onError: e => Toast.show(cleanError(e), 'xmark'),
+      },
+    )
+  }, [events, exportMutation, entryUri, _])
+
+  if (isLoading) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      </View>
+    )
+  }
+
+  if (error || !events) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <Text
+          style={[a.text_md, a.text_center, {color: t.palette.contrast_600}]}>
+          {error ? cleanError(error) : _(msg`Could not load access log.`)}
+        </Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={[styles.container, {backgroundColor: t.palette.contrast_25}]}>
+      <View style={[styles.header, {backgroundColor: t.palette.white}]}>
+        <Text style={[a.text_xl, a.font_bold]}>
+          <Trans>Access Log</Trans>
+        </Text>
+        <Text style={[a.text_sm, a.mt_xs, {color: t.palette.contrast_600}]}>
+          <Trans>
+            Every time someone you've given access to this entry views it, it's
+            recorded here. Views are saved in the viewer's own repo, so they
+            aren't private.
+          </Trans>
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}>
+        {entry && !entry.accessLogRequired && (
+          <View
+            style={[styles.section, {backgroundColor: t.palette.primary_50}]}>
+            <Text style={[a.text_sm, {color: t.palette.contrast_800}]}>
+              <Trans>
+                Views of this entry aren't being logged. Turn on "Log views" on
+                the entry to start recording them.
+              </Trans>
+            </Text>
+          </View>
+        )}
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <View style={[styles.row, a.mb_sm]}>
+            <Text style={[a.flex_1, a.text_md, a.font_bold]}>
+              <Trans>Views</Trans>
+            </Text>
+            <Button
+              variant="outline"
+              color="primary"
+              size="small"
+              onPress={handleExport}
+              disabled={events.length === 0 || exportMutation.isPending}
+              label={_(msg`Export access log as CSV`)}>
+              <ButtonIcon icon={Download} />
+              <ButtonText>
+                <Trans>Export CSV</Trans>
+              </ButtonText>
+            </Button>
+          </View>
+          {events.length === 0 ? (
+            <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+              <Trans>Nobody else has viewed this entry.</Trans>
+            </Text>
+          ) : (
+            events.map(event => <AccessEventRow key={event.id} event={event} />)
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  )
+}
+
+function AccessEventRow({event}: {event: JournalAccessEvent}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const {data: profile} = useProfileQuery({did: event.viewerDid})
+
+  const accessPathLabels: Record<JournalAccessPath, string> = {
+    direct: _(msg`Direct link`),
+    feed: _(msg`Feed`),
+    notification: _(msg`Notification`),
+    share_link: _(msg`Shared link`),
+  }
+  const handle = profile?.handle ?? event.viewerHandle
+
+  return (
+    <View style={styles.row}>
+      <View style={a.flex_1}>
+        <Text style={[a.text_md, a.font_bold]} numberOfLines={1}>
+          {profile?.displayName || (handle ? `@${handle}` : event.viewerDid)}
+        </Text>
+        <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+          {[
+            new Date(event.accessedAt).toLocaleString(),
+            accessPathLabels[event.accessPath] ?? event.accessPath,
+          ].join(' · ')}
+        </Text>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  header: {
+    paddingTop: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+})
@@ -6,38 +6,22 @@ import {
   Alert,
 } from 'react-native'
 import {useSafeAreaInsets} from 'react-native-safe-area-context'
-import {msg, Trans} from '@lingui/macro'
+import {msg, plural, Trans} from '@lingui/macro'
 import {useLingui} from '@lingui/react'
-import {useQuery} from '@tanstack/react-query'
 
-import {useAgent, useSession} from '#/state/session'
+import {useJournalEntries} from '#/state/queries/journal'
+import {useJournalCasesQuery} from '#/state/queries/journal-cases'
+import {useJournalExport} from '#/state/queries/journal-export'
+import {useExportJournalManifest} from '#/state/queries/journal-integrity'
+import {formatJournalLocation} from '#/state/queries/journal/utils'
+import {coarsenLocation} from '#/lib/journal-location'
+import * as Toast from '#/view/com/util/Toast'
 import {atoms as a, useTheme} from '#/alf'
 import {Button, ButtonText, ButtonIcon} from '#/components/Button'
 import {Text} from '#/components/Typography'
 import {Download_Stroke2_Corner0_Rounded as Download} from '#/components/icons/Download'
-import {logger} from '#/logger'
 import {cleanError} from '#/lib/strings/errors'
 
-// Types for analytics data
-interface JournalEntry {
-  uri: string
-  text: string
-  entryType: 'real_time' | 'backdated'
-  incidentTimestamp?: string
-  location?: {
-    latitude: number
-    longitude: number
-    address?: string
-  }
-  symptoms?: Array<{
-    category: string
-    severity: number
-  }>
-  tags?: string[]
-  isPrivate: boolean
-  createdAt: string
-}
-
 interface SymptomStats {
   category: string
   count: number
@@ -46,10 +30,8 @@ interface SymptomStats {
 }
 
 interface LocationCluster {
-  latitude: number
-  longitude: number
+  label: string
   count: number
-  address?: string
 }
 
 interface TimelineData {
@@ -74,45 +56,50 @@ interface Props {
   onExport?: () => void
 }
 
+type TimeRange = 'week' | 'month' | 'quarter' | 'year'
+
+function getCutoffDate(timeRange: TimeRange) {
+  const now = new Date()
+  const cutoffDate = new Date()
+  switch (timeRange) {
+    case 'week':
+      cutoffDate.setDate(now.getDate() - 7)
+      break
+    case 'month':
+      cutoffDate.setMonth(now.getMonth() - 1)
+      break
+    case 'quarter':
+      cutoffDate.setMonth(now.getMonth() - 3)
+      break
+    case 'year':
+      cutoffDate.setFullYear(now.getFullYear() - 1)
+      break
+  }
+  return cutoffDate
+}
+
 export function JournalAnalytics({onExport}: Props) {
   const {_} = useLingui()
   const t = useTheme()
-  const agent = useAgent()
-  const {currentAccount} = useSession()
   const _insets = useSafeAreaInsets()
+  const {mutate: exportJournal, isPending: isExporting} = useJournalExport()
+  const {mutate: exportManifest, isPending: isExportingManifest} = useExportJournalManifest()
+  const {data: cases = []} = useJournalCasesQuery()
   
-  const [timeRange, setTimeRange] = useState<'week' | 'month' | 'quarter' | 'year'>('month')
+  const [timeRange, setTimeRange] = useState<TimeRange>('month')
   const [_selectedCategory, _setSelectedCategory] = useState<string | null>(null)
+  const [showExportOptions, setShowExportOptions] = useState(false)
+  const [exportFormat, setExportFormat] = useState<'json' | 'csv' | 'pdf'>('pdf')
+  const [includePrivate, setIncludePrivate] = useState(true)
+  const [includeEvidence, setIncludeEvidence] = useState(true)
+  const [exportCaseUri, setExportCaseUri] = useState<string>()
 
   // Fetch journal entries for analytics
   const {
     data: entries = [],
     isLoading,
     error,
-  } = useQuery({
-    queryKey: ['journal-entries-analytics', currentAccount?.did, timeRange],
-    queryFn: async () => {
-      if (!currentAccount) return []
-      
-      try {
-        const response = await agent.com.atproto.repo.listRecords({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
-          limit: 1000, // Get more entries for analytics
-        })
-
-        return response.data.records.map((record: any) => ({
-          uri: record.uri,
-          ...record.value,
-        })) as JournalEntry[]
-      } catch (err) {
-        logger.error('Failed to fetch journal entries for analytics', {message: String(err)})
-        throw err
-      }
-    },
-    enabled: !!currentAccount,
-    staleTime: 5 * 60 * 1000, // 5 minutes
-  })
+  } = useJournalEntries()
 
   // Calculate analytics data from entries
   const analyticsData: AnalyticsData = useMemo(() => {
@@ -131,22 +118,7 @@ export function JournalAnalytics({onExport}: Props) {
     }
 
     // Filter entries by time range
-    const now = new Date()
-    const cutoffDate = new Date()
-    switch (timeRange) {
-      case 'week':
-        cutoffDate.setDate(now.getDate() - 7)
-        break
-      case 'month':
-        cutoffDate.setMonth(now.getMonth() - 1)
-        break
-      case 'quarter':
-        cutoffDate.setMonth(now.getMonth() - 3)
-        break
-      case 'year':
-        cutoffDate.setFullYear(now.getFullYear() - 1)
-        break
-    }
+    const cutoffDate = getCutoffDate(timeRange)
 
     const filteredEntries = entries.filter(entry => 
       new Date(entry.createdAt) >= cutoffDate
@@ -156,7 +128,7 @@ export function JournalAnalytics({onExport}: Props) {
     const totalEntries = filteredEntries.length
     const realTimeEntries = filteredEntries.filter(e => e.entryType === 'real_time').length
     const backdatedEntries = filteredEntries.filter(e => e.entryType === 'backdated').length
-    const privateEntries = filteredEntries.filter(e => e.isPrivate).length
+    const privateEntries = filteredEntries.filter(e => e.privacyLevel === 'private').length
 
     // Symptom statistics
     const symptomMap = new Map<string, {severities: number[], count: number}>()
@@ -176,16 +148,15 @@ export function JournalAnalytics({onExport}: Props) {
       trend: 'stable' as const, // TODO: Calculate actual trend
     })).sort((a, b) => b.count - a.count)
 
-    // Location clustering (simplified)
+    // Location clustering, at neighbourhood level at most
     const locationMap = new Map<string, LocationCluster>()
     filteredEntries.forEach(entry => {
       if (entry.location) {
-        const key = `${entry.location.latitude.toFixed(3)},${entry.location.longitude.toFixed(3)}`
+        const location = coarsenLocation(entry.location, 'neighbourhood')
+        const key = `${location.latitude},${location.longitude}`
         const existing = locationMap.get(key) || {
-          latitude: entry.location.latitude,
-          longitude: entry.location.longitude,
+          label: formatJournalLocation(location, 'private'),
           count: 0,
-          address: entry.location.address,
         }
         existing.count++
         locationMap.set(key, existing)
@@ -245,23 +216,76 @@ export function JournalAnalytics({onExport}: Props) {
     }
   }, [entries, timeRange])
 
-  const handleExport = useCallback(() => {
+  const runExport = useCallback(() => {
+    exportJournal(
+      {
+        format: exportFormat,
+        includePrivate,
+        includeEvidence,
+        // a case is exported whole, whatever the time range
+        dateRange: exportCaseUri ? undefined : {
+          start: getCutoffDate(timeRange).toISOString(),
+          end: new Date().toISOString(),
+        },
+        caseUri: exportCaseUri,
+      },
+      {
+        onSuccess: ({exported, locked}) => {
+          setShowExportOptions(false)
+          const exportedMessage = _(msg`Exported ${plural(exported, {one: '# entry', other: '# entries'})}`)
+          if (locked > 0) {
+            Toast.show(
+              `${exportedMessage}. ${_(msg`${plural(locked, {one: '# encrypted entry', other: '# encrypted entries'})} could not be unlocked on this device.`)}`,
+              'info',
+            )
+          } else {
+            Toast.show(exportedMessage)
+          }
+          onExport?.()
+        },
+        onError: err => {
+          Toast.show(cleanError(err), 'xmark')
+        },
+      },
+    )
+  }, [exportJournal, exportFormat, includePrivate, includeEvidence, exportCaseUri, timeRange, onExport, _])
+
+  const confirmExport = useCallback(() => {
+    if (!includePrivate) {
+      runExport()
+      return
+    }
     Alert.alert(
-      _(msg`Export Analytics`),
-      _(msg`This feature will export your journal analytics data in a secure, encrypted format. Would you like to proceed?`),
+      _(msg`Export private entries?`),
+      _(msg`Private entries will be decrypted and saved in the export without encryption. Keep the file somewhere safe.`),
       [
         {text: _(msg`Cancel`), style: 'cancel'},
-        {
-          text: _(msg`Export`),
-          onPress: () => {
-            // TODO: Implement actual export functionality
-            logger.info('Journal analytics export requested')
-            onExport?.()
-          },
-        },
+        {text: _(msg`Export`), onPress: runExport},
       ]
     )
-  }, [_, onExport])
+  }, [includePrivate, runExport, _])
+
+  const handleExportManifest = useCallback(() => {
+    exportManifest(undefined, {
+      onSuccess: ({entries, breaks}) => {
+        if (breaks > 0) {
+          Toast.show(
+            _(msg`Manifest exported. ${plural(breaks, {one: '# break', other: '# breaks'})} found in your journal's hash chain.`),
+            'exclamation-circle',
+          )
+        } else {
+          Toast.show(_(msg`Signed manifest of ${plural(entries, {one: '# entry', other: '# entries'})} exported`))
+        }
+      },
+      onError: err => {
+        Toast.show(cleanError(err), 'xmark')
+      },
+    })
+  }, [exportManifest, _])
+
+  const handleExport = useCallback(() => {
+    setShowExportOptions(v => !v)
+  }, [])
 
   const renderTimeRangeSelector = useCallback(() => (
     <View style={styles.timeRangeContainer}>
@@ -285,6 +309,110 @@ export function JournalAnalytics({onExport}: Props) {
     </View>
   ), [timeRange, _])
 
+  const renderExportOptions = useCallback(() => (
+    <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+      <Text style={[a.text_lg, a.font_bold, a.mb_sm]}>
+        <Trans>Export Journal</Trans>
+      </Text>
+      <Text style={[a.text_sm, a.mb_md, {color: t.palette.contrast_600}]}>
+        {exportCaseUri ? (
+          <Trans>Exports every entry in the selected case.</Trans>
+        ) : (
+          <Trans>Exports every entry in the selected time range.</Trans>
+        )}
+      </Text>
+      {cases.some(journalCase => !journalCase.isLocked) && (
+        <View style={styles.caseOptions}>
+          <Button
+            variant={!exportCaseUri ? 'solid' : 'outline'}
+            color="secondary"
+            size="small"
+            onPress={() => setExportCaseUri(undefined)}
+            label={_(msg`Export the whole journal`)}>
+            <ButtonText>
+              <Trans>Whole journal</Trans>
+            </ButtonText>
+          </Button>
+          {cases.filter(journalCase => !journalCase.isLocked).map(journalCase => (
+            <Button
+              key={journalCase.uri}
+              variant={exportCaseUri === journalCase.uri ? 'solid' : 'outline'}
+              color="secondary"
+              size="small"
+              onPress={() => setExportCaseUri(journalCase.uri)}
+              label={_(msg`Export the case ${journalCase.title}`)}>
+              <ButtonText>{journalCase.title}</ButtonText>
+            </Button>
+          ))}
+        </View>
+      )}
+      <View style={styles.timeRangeContainer}>
+        {(['pdf', 'csv', 'json'] as const).map(format => (
+          <Button
+            key={format}
+            variant={exportFormat === format ? 'solid' : 'outline'}
+            color="primary"
+            size="small"
+            onPress={() => setExportFormat(format)}
+            label={format === 'pdf' ? _(msg`Printable report`) : format.toUpperCase()}
+            style={styles.timeRangeButton}>
+            <ButtonText>
+              {format === 'pdf' ? <Trans>Report</Trans> : format.toUpperCase()}
+            </ButtonText>
+          </Button>
+        ))}
+      </View>
+      <View style={[a.flex_row, a.gap_sm, a.mb_md]}>
+        <Button
+          variant={includePrivate ? 'solid' : 'outline'}
+          color="secondary"
+          size="small"
+          onPress={() => setIncludePrivate(v => !v)}
+          label={_(msg`Include private entries`)}>
+          <ButtonText>
+            <Trans>Private entries</Trans>
+          </ButtonText>
+        </Button>
+        <Button
+          variant={includeEvidence ? 'solid' : 'outline'}
+          color="secondary"
+          size="small"
+          onPress={() => setIncludeEvidence(v => !v)}
+          label={_(msg`Include evidence`)}>
+          <ButtonText>
+            <Trans>Evidence</Trans>
+          </ButtonText>
+        </Button>
+      </View>
+      <Button
+        variant="solid"
+        color="primary"
+        size="large"
+        disabled={isExporting}
+        onPress={confirmExport}
+        label={_(msg`Export journal`)}>
+        <ButtonIcon icon={Download} />
+        <ButtonText>
+          {isExporting ? <Trans>Exporting...</Trans> : <Trans>Export</Trans>}
+        </ButtonText>
+      </Button>
+      <Text style={[a.text_sm, a.mt_lg, a.mb_sm, {color: t.palette.contrast_600}]}>
+        <Trans>A signed manifest lists the hash of every entry and evidence file, so others can check your journal hasn't been altered.</Trans>
+      </Text>
+      <Button
+        variant="outline"
+        color="primary"
+        size="large"
+        disabled={isExportingManifest}
+        onPress={handleExportManifest}
+        label={_(msg`Export signed manifest`)}>
+        <ButtonText>
+          {isExportingManifest ? <Trans>Exporting...</Trans> : <Trans>Export signed manifest</Trans>}
+        </ButtonText>
+      </Button>
+    </View>
+  ), [exportFormat, includePrivate, includeEvidence, exportCaseUri, cases, isExporting, isExportingManifest, confirmExport, handleExportManifest, t, _])
+
   const renderOverviewStats = useCallback(() => (
     <View style={[styles.section, {backgroundColor: t.palette.white}]}>
       <Text style={[a.text_lg, a.font_bold, a.mb_md]}>
@@ -387,7 +515,7 @@ export function JournalAnalytics({onExport}: Props) {
               </View>
               <View style={styles.locationDetails}>
                 <Text style={[a.text_md, a.font_bold]} numberOfLines={1}>
-                  {location.address || `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`}
+                  {location.label}
                 </Text>
                 <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
                   {location.count} incidents
@@ -491,6 +619,9 @@ export function JournalAnalytics({onExport}: Props) {
         {/* Time Range Selector */}
         {renderTimeRangeSelector()}
 
+        {/* Export Options */}
+        {showExportOptions && renderExportOptions()}
+
         {/* Overview Stats */}
         {renderOverviewStats()}
 
@@ -551,6 +682,12 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
+  caseOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
   timeRangeContainer: {
     flexDirection: 'row',
     gap: 8,
@@ -0,0 +1,762 @@
+import {useCallback, useMemo, useState} from 'react'
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native'
+import {TID} from '@atproto/common-web'
+import {type MessageDescriptor} from '@lingui/core'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+import {useNavigation} from '@react-navigation/native'
+
+import {
+  buildJournalCaseTimeline,
+  JOURNAL_CASE_STATUSES,
+  type JournalCaseSource,
+  type JournalCaseView,
+  toggleJournalCaseEntry,
+  toggleJournalCaseEvidence,
+} from '#/lib/journal-cases'
+import {useJournalCaseStatusLabel} from '#/lib/journal-cases/labels'
+import {
+  type JournalTabNavigatorParams,
+  type NativeStackScreenProps,
+  type NavigationProp,
+} from '#/lib/routes/types'
+import {cleanError} from '#/lib/strings/errors'
+import {type JournalEntry, useJournalEntries} from '#/state/queries/journal'
+import {
+  useDeleteJournalCaseMutation,
+  useJournalCaseQuery,
+  useUpdateJournalCaseMutation,
+} from '#/state/queries/journal-cases'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonText} from '#/components/Button'
+import {DateField, utils as dateUtils} from '#/components/forms/DateField'
+import {Check_Stroke2_Corner0_Rounded as Check} from '#/components/icons/Check'
+import {SourcePicker} from '#/components/SourcePicker'
+import {Text} from '#/components/Typography'
+
+const SOURCE_RELEVANCE_LABELS: Record<
+  JournalCaseSource['relevance'],
+  MessageDescriptor
+> = {
+  high: msg`High`,
+  medium: msg`Medium`,
+  low: msg`Low`,
+}
+
+type Props = NativeStackScreenProps<JournalTabNavigatorParams, 'JournalCase'>
+
+export function JournalCaseScreen({route}: Props) {
+  const {uri: caseUri} = route.params
+  const t = useTheme()
+  const {data: journalCase, isLoading} = useJournalCaseQuery(caseUri)
+  const {data: entries, isLoading: isLoadingEntries} = useJournalEntries()
+
+  if (isLoading || isLoadingEntries) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      </View>
+    )
+  }
+
+  if (!journalCase || journalCase.isLocked) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <Text
+          style={[a.text_md, a.text_center, {color: t.palette.contrast_600}]}>
+          {journalCase ? (
+            <Trans>
+              This case is encrypted. Unlock your journal to open it.
+            </Trans>
+          ) : (
+            <Trans>This case could not be found.</Trans>
+          )}
+        </Text>
+      </View>
+    )
+  }
+
+  // remount after each save, so the form starts from the saved case
+  return (
+    <CaseEditor
+      key={journalCase.cid}
+      journalCase={journalCase}
+      entries={entries ?? []}
+    />
+  )
+}
+
+function CaseEditor({
+  journalCase,
+  entries,
+}: {
+  journalCase: JournalCaseView
+  entries: JournalEntry[]
+}) {
+  const {_, i18n} = useLingui()
+  const t = useTheme()
+  const navigation = useNavigation<NavigationProp>()
+  const statusLabel = useJournalCaseStatusLabel()
+  const updateCase = useUpdateJournalCaseMutation()
+  const deleteCase = useDeleteJournalCaseMutation()
+
+  const [draft, setDraft] = useState(journalCase)
+  const [hasChanges, setHasChanges] = useState(false)
+  const [keyDate, setKeyDate] = useState(() =>
+    dateUtils.toSimpleDateString(new Date()),
+  )
+  const [keyDateLabel, setKeyDateLabel] = useState('')
+
+  const change = useCallback(
+    (update: (current: JournalCaseView) => JournalCaseView) => {
+      setDraft(update)
+      setHasChanges(true)
+    },
+    [],
+  )
+
+  const timeline = useMemo(
+    () => buildJournalCaseTimeline(draft, entries),
+    [draft, entries],
+  )
+
+  const formatKeyDate = useCallback(
+    (date: string) =>
+      // key dates are calendar days, so don't shift them into local time
+      i18n.date(new Date(date), {dateStyle: 'medium', timeZone: 'UTC'}),
+    [i18n],
+  )
+
+  const handleAddKeyDate = useCallback(() => {
+    if (!keyDateLabel.trim()) return
+    change(current => ({
+      ...current,
+      keyDates: [
+        ...current.keyDates,
+        {date: keyDate, label: keyDateLabel.trim()},
+      ],
+    }))
+    setKeyDateLabel('')
+  }, [keyDate, keyDateLabel, change])
+
+  const handleSave = useCallback(() => {
+    if (!draft.title.trim()) {
+      Toast.show(_(msg`Give the case a title`), 'xmark')
+      return
+    }
+    updateCase.mutate(
+      {journalCase: {...draft, title: draft.title.trim()}},
+      {
+        onSuccess: () => Toast.show(_(msg`Case saved`)),
+        onError: e => Toast.show(cleanError(e), 'xmark'),
+      },
+    )
+  }, [draft, updateCase, _])
+
+  const handleDelete = useCallback(() => {
+    Alert.alert(
+      _(msg`Delete Case`),
+      _(
+        msg`The case will be deleted. Its entries, evidence and sources will stay in your journal.`,
+      ),
+      [
+        {text: _(msg`Cancel`), style: 'cancel'},
+        {
+          text: _(msg`Delete`),
+          style: 'destructive',
+          onPress: () =>
+            deleteCase.mutate(
+              {uri: journalCase.uri},
+              {
+                onSuccess: () => {
+                  Toast.show(_(msg`Case deleted`))
+                  navigation.goBack()
+                },
+                onError: e => Toast.show(cleanError(e), 'xmark'),
+              },
+            ),
+        },
+      ],
+    )
+  }, [journalCase.uri, deleteCase, navigation, _])
+
+  return (
+    <View style={[styles.container, {backgroundColor: t.palette.contrast_25}]}>
+      <View style={[styles.header, {backgroundColor: t.palette.white}]}>
+        <Text style={[a.text_xl, a.font_bold]} numberOfLines={2}>
+          {draft.title || _(msg`Untitled case`)}
+        </Text>
+        <Text style={[a.text_sm, a.mt_xs, {color: t.palette.contrast_600}]}>
+          {statusLabel(draft.status)}
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}>
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+            <Trans>Details</Trans>
+          </Text>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                color: t.palette.contrast_800,
+                borderColor: t.palette.contrast_200,
+              },
+            ]}
+            value={draft.title}
+            onChangeText={title => change(current => ({...current, title}))}
+            placeholder={_(msg`Case title`)}
+            placeholderTextColor={t.palette.contrast_400}
+            accessibilityLabel={_(msg`Case title`)}
+            accessibilityHint=""
+          />
+          <TextInput
+            style={[
+              styles.input,
+              styles.summary,
+              a.mt_sm,
+              {
+                color: t.palette.contrast_800,
+                borderColor: t.palette.contrast_200,
+              },
+            ]}
+            value={draft.summary}
+            onChangeText={summary => change(current => ({...current, summary}))}
+            placeholder={_(msg`What is this case about?`)}
+            placeholderTextColor={t.palette.contrast_400}
+            multiline
+            textAlignVertical="top"
+            accessibilityLabel={_(msg`Case summary`)}
+            accessibilityHint=""
+          />
+          <Text style={[a.text_sm, a.mt_md, a.mb_sm]}>
+            <Trans>Status</Trans>
+          </Text>
+          <View style={styles.options}>
+            {JOURNAL_CASE_STATUSES.map(status => {
+              const isActive = status === draft.status
+              return (
+                <Pressable
+                  key={status}
+                  onPress={() => change(current => ({...current, status}))}
+                  accessibilityRole="button"
+                  accessibilityState={{selected: isActive}}
+                  accessibilityLabel={statusLabel(status)}
+                  accessibilityHint=""
+                  style={[
+                    styles.option,
+                    {
+                      backgroundColor: isActive
+                        ? t.palette.primary_500
+                        : t.palette.contrast_50,
+                    },
+                  ]}>
+                  <Text
+                    style={[
+                      a.text_sm,
+                      {
+                        color: isActive
+                          ? t.palette.white
+                          : t.palette.contrast_700,
+                      },
+                    ]}>
+                    {statusLabel(status)}
+                  </Text>
+                </Pressable>
+              )
+            })}
+          </View>
+        </View>
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+            <Trans>Timeline</Trans>
+          </Text>
+          {timeline.length === 0 ? (
+            <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+              <Trans>
+                Add key dates, entries or evidence to build the case timeline.
+              </Trans>
+            </Text>
+          ) : (
+            timeline.map(item => {
+              if (item.type === 'key_date') {
+                return (
+                  <View
+                    key={`key_date:${item.keyDate.date}:${item.keyDate.label}`}
+                    style={[
+                      styles.timelineRow,
+                      {borderTopColor: t.palette.contrast_100},
+                    ]}>
+                    <Text style={[a.text_xs, {color: t.palette.primary_500}]}>
+                      {_(msg`Key date · ${formatKeyDate(item.date)}`)}
+                    </Text>
+                    <Text style={[a.text_sm, a.font_bold]}>
+                      {item.keyDate.label}
+                    </Text>
+                  </View>
+                )
+              }
+              const date = i18n.date(new Date(item.date), {
+                dateStyle: 'medium',
+                timeStyle: 'short',
+              })
+              return (
+                <Pressable
+                  key={`${item.type}:${item.entry.uri}:${
+                    item.type === 'evidence' ? item.attachment.uri : ''
+                  }`}
+                  onPress={() =>
+                    navigation.navigate('JournalEntryDetail', {
+                      uri: item.entry.uri,
+                    })
+                  }
+                  accessibilityRole="button"
+                  accessibilityLabel={_(msg`Open entry`)}
+                  accessibilityHint=""
+                  style={[
+                    styles.timelineRow,
+                    {borderTopColor: t.palette.contrast_100},
+                  ]}>
+                  <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                    {item.type === 'evidence'
+                      ? _(msg`Evidence · ${date}`)
+                      : _(msg`Entry · ${date}`)}
+                  </Text>
+                  <Text numberOfLines={2} style={[a.text_sm]}>
+                    {item.type === 'evidence'
+                      ? item.attachment.description || item.attachment.filename
+                      : item.entry.isLocked
+                        ? _(msg`Encrypted entry`)
+                        : item.entry.text}
+                  </Text>
+                </Pressable>
+              )
+            })
+          )}
+        </View>
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+            <Trans>Key Dates</Trans>
+          </Text>
+          {draft.keyDates.map((item, index) => (
+            <View
+              key={`${item.date}:${item.label}:${index}`}
+              style={[styles.row, {borderTopColor: t.palette.contrast_100}]}>
+              <View style={a.flex_1}>
+                <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                  {formatKeyDate(item.date)}
+                </Text>
+                <Text style={[a.text_sm]}>{item.label}</Text>
+              </View>
+              <Button
+                variant="ghost"
+                color="negative"
+                size="small"
+                onPress={() =>
+                  change(current => ({
+                    ...current,
+                    keyDates: current.keyDates.filter((_d, i) => i !== index),
+                  }))
+                }
+                label={_(msg`Remove key date`)}>
+                <ButtonText>
+                  <Trans>Remove</Trans>
+                </ButtonText>
+              </Button>
+            </View>
+          ))}
+          <View style={[a.gap_sm, a.mt_sm]}>
+            <DateField
+              value={keyDate}
+              onChangeDate={setKeyDate}
+              label={_(msg`Date`)}
+              accessibilityHint={_(msg`Choose the date to add`)}
+            />
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  color: t.palette.contrast_800,
+                  borderColor: t.palette.contrast_200,
+                },
+              ]}
+              value={keyDateLabel}
+              onChangeText={setKeyDateLabel}
+              placeholder={_(msg`What happens on this date, e.g. Hearing`)}
+              placeholderTextColor={t.palette.contrast_400}
+              accessibilityLabel={_(msg`Key date label`)}
+              accessibilityHint=""
+            />
+            <Button
+              variant="outline"
+              color="primary"
+              size="small"
+              onPress={handleAddKeyDate}
+              disabled={!keyDateLabel.trim()}
+              label={_(msg`Add key date`)}>
+              <ButtonText>
+                <Trans>Add key date</Trans>
+              </ButtonText>
+            </Button>
+          </View>
+        </View>
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+            <Trans>Entries and Evidence</Trans>
+          </Text>
+          {entries.length === 0 ? (
+            <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+              <Trans>You haven't written any entries yet.</Trans>
+            </Text>
+          ) : (
+            entries.map(entry => (
+              <View key={entry.uri}>
+                <CheckboxRow
+                  isChecked={draft.entries.includes(entry.uri)}
+                  disabled={entry.isLocked}
+                  onPress={() =>
+                    change(current =>
+                      toggleJournalCaseEntry(current, entry.uri),
+                    )
+                  }
+                  label={entry.isLocked ? _(msg`Encrypted entry`) : entry.text}
+                  detail={i18n.date(
+                    new Date(entry.incidentTimestamp ?? entry.createdAt),
+                    {dateStyle: 'medium', timeStyle: 'short'},
+                  )}
+                />
+                {entry.evidenceAttachments?.map(attachment => (
+                  <CheckboxRow
+                    key={attachment.uri}
+                    isNested
+                    isChecked={draft.evidence.some(
+                      item =>
+                        item.entry === entry.uri && item.uri === attachment.uri,
+                    )}
+                    onPress={() =>
+                      change(current =>
+                        toggleJournalCaseEvidence(current, {
+                          entry: entry.uri,
+                          uri: attachment.uri,
+                        }),
+                      )
+                    }
+                    label={attachment.description || attachment.filename}
+                    detail={_(msg`Evidence`)}
+                  />
+                ))}
+              </View>
+            ))
+          )}
+        </View>
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+            <Trans>Sources</Trans>
+          </Text>
+          {draft.sources.map(source => (
+            <View
+              key={source.id}
+              style={[
+                styles.row,
+                a.flex_wrap,
+                {borderTopColor: t.palette.contrast_100},
+              ]}>
+              <View style={a.flex_1}>
+                <Text style={[a.text_sm, a.font_bold]}>{source.name}</Text>
+                {source.url && (
+                  <Text
+                    numberOfLines={1}
+                    style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                    {source.url}
+                  </Text>
+                )}
+              </View>
+              <View style={styles.options}>
+                {(
+                  Object.keys(
+                    SOURCE_RELEVANCE_LABELS,
+                  ) as JournalCaseSource['relevance'][]
+                ).map(relevance => {
+                  const isActive = relevance === source.relevance
+                  return (
+                    <Pressable
+                      key={relevance}
+                      onPress={() =>
+                        change(current => ({
+                          ...current,
+                          sources: current.sources.map(item =>
+                            item.id === source.id ? {...item, relevance} : item,
+                          ),
+                        }))
+                      }
+                      accessibilityRole="button"
+                      accessibilityState={{selected: isActive}}
+                      accessibilityLabel={_(
+                        msg`Relevance: ${_(SOURCE_RELEVANCE_LABELS[relevance])}`,
+                      )}
+                      accessibilityHint=""
+                      style={[
+                        styles.option,
+                        {
+                          backgroundColor: isActive
+                            ? t.palette.primary_500
+                            : t.palette.contrast_50,
+                        },
+                      ]}>
+                      <Text
+                        style={[
+                          a.text_xs,
+                          {
+                            color: isActive
+                              ? t.palette.white
+                              : t.palette.contrast_700,
+                          },
+                        ]}>
+                        {_(SOURCE_RELEVANCE_LABELS[relevance])}
+                      </Text>
+                    </Pressable>
+                  )
+                })}
+              </View>
+              <Button
+                variant="ghost"
+                color="negative"
+                size="small"
+                onPress={() =>
+                  change(current => ({
+                    ...current,
+                    sources: current.sources.filter(
+                      item => item.id !== source.id,
+                    ),
+                  }))
+                }
+                label={_(msg`Remove source`)}>
+                <ButtonText>
+                  <Trans>Remove</Trans>
+                </ButtonText>
+              </Button>
+            </View>
+          ))}
+          {/* the case lists its own sources, so the picker is only used to
+              pick new ones */}
+          <SourcePicker
+            selectedSources={[]}
+            onSourcesChange={picked =>
+              change(current => ({
+                ...current,
+                sources: [
+                  ...current.sources,
+                  ...picked
+                    .filter(
+                      source =>
+                        !current.sources.some(
+                          item => item.sourceId === source.id,
+                        ),
+                    )
+                    .map(source => ({
+                      id: TID.nextStr(),
+                      sourceId: source.id,
+                      relevance: 'medium' as const,
+                      name: source.name,
+                      url: source.url,
+                    })),
+                ],
+              }))
+            }
+            onInsertCitation={() => {}}
+          />
+        </View>
+
+        <View style={[a.gap_sm]}>
+          <Button
+            variant="solid"
+            color="primary"
+            size="large"
+            onPress={handleSave}
+            disabled={!hasChanges || updateCase.isPending}
+            label={_(msg`Save case`)}>
+            <ButtonText>
+              <Trans>Save case</Trans>
+            </ButtonText>
+            {updateCase.isPending && (
+              <ActivityIndicator color={t.palette.white} />
+            )}
+          </Button>
+          <Button
+            variant="outline"
+            color="negative"
+            size="large"
+            onPress={handleDelete}
+            disabled={deleteCase.isPending}
+            label={_(msg`Delete case`)}>
+            <ButtonText>
+              <Trans>Delete case</Trans>
+            </ButtonText>
+          </Button>
+        </View>
+      </ScrollView>
+    </View>
+  )
+}
+
+function CheckboxRow({
+  isChecked,
+  isNested,
+  disabled,
+  onPress,
+  label,
+  detail,
+}: {
+  isChecked: boolean
+  isNested?: boolean
+  disabled?: boolean
+  onPress: () => void
+  label: string
+  detail: string
+}) {
+  const t = useTheme()
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityRole="checkbox"
+      accessibilityState={{checked: isChecked, disabled}}
+      accessibilityLabel={label}
+      accessibilityHint=""
+      style={[
+        styles.row,
+        {borderTopColor: t.palette.contrast_100},
+        isNested && styles.nested,
+        disabled && styles.disabled,
+      ]}>
+      <View
+        style={[
+          styles.checkbox,
+          {
+            borderColor: isChecked
+              ? t.palette.primary_500
+              : t.palette.contrast_300,
+            backgroundColor: isChecked ? t.palette.primary_500 : 'transparent',
+          },
+        ]}>
+        {isChecked && <Check size="xs" fill={t.palette.white} />}
+      </View>
+      <View style={a.flex_1}>
+        <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+          {detail}
+        </Text>
+        <Text numberOfLines={2} style={[a.text_sm]}>
+          {label}
+        </Text>
+      </View>
+    </Pressable>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  header: {
+    paddingTop: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  summary: {
+    minHeight: 96,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  timelineRow: {
+    gap: 2,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  nested: {
+    paddingLeft: 32,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+})
@@ -0,0 +1,253 @@
+import {useCallback, useState} from 'react'
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+import {useNavigation} from '@react-navigation/native'
+
+import {useJournalCaseStatusLabel} from '#/lib/journal-cases/labels'
+import {JournalKeyUnavailableError} from '#/lib/journal-encryption'
+import {type NavigationProp} from '#/lib/routes/types'
+import {cleanError} from '#/lib/strings/errors'
+import {
+  useCreateJournalCaseMutation,
+  useJournalCasesQuery,
+} from '#/state/queries/journal-cases'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonText} from '#/components/Button'
+import {Text} from '#/components/Typography'
+
+export function JournalCasesScreen() {
+  const {_, i18n} = useLingui()
+  const t = useTheme()
+  const navigation = useNavigation<NavigationProp>()
+  const statusLabel = useJournalCaseStatusLabel()
+
+  const {data: cases, isLoading} = useJournalCasesQuery()
+  const createCase = useCreateJournalCaseMutation()
+  const [title, setTitle] = useState('')
+
+  const handleCreate = useCallback(() => {
+    if (!title.trim()) return
+    createCase.mutate(
+      {title: title.trim()},
+      {
+        onSuccess: journalCase => {
+          setTitle('')
+          navigation.navigate('JournalCase', {uri: journalCase.uri})
+        },
+        onError: e => {
+          if (e instanceof JournalKeyUnavailableError) {
+            Alert.alert(
+              _(msg`Journal Locked`),
+              _(
+                msg`Cases are encrypted on this device. Set up or unlock journal encryption to create one.`,
+              ),
+              [
+                {text: _(msg`Cancel`), style: 'cancel'},
+                {
+                  text: _(msg`Open Encryption Settings`),
+                  onPress: () => navigation.navigate('JournalEncryption'),
+                },
+              ],
+            )
+            return
+          }
+          Toast.show(cleanError(e), 'xmark')
+        },
+      },
+    )
+  }, [title, createCase, navigation, _])
+
+  if (isLoading) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      </View>
+    )
+  }
+
+  return (
+    <View style={[styles.container, {backgroundColor: t.palette.contrast_25}]}>
+      <View style={[styles.header, {backgroundColor: t.palette.white}]}>
+        <Text style={[a.text_xl, a.font_bold]}>
+          <Trans>Cases</Trans>
+        </Text>
+        <Text style={[a.text_sm, a.mt_xs, {color: t.palette.contrast_600}]}>
+          <Trans>
+            Group the entries, evidence and sources about one situation, such as
+            a complaint or a court case, and follow it on one timeline.
+          </Trans>
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}>
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+            <Trans>New Case</Trans>
+          </Text>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                color: t.palette.contrast_800,
+                borderColor: t.palette.contrast_200,
+              },
+            ]}
+            value={title}
+            onChangeText={setTitle}
+            placeholder={_(msg`Case title`)}
+            placeholderTextColor={t.palette.contrast_400}
+            accessibilityLabel={_(msg`Case title`)}
+            accessibilityHint=""
+            onSubmitEditing={handleCreate}
+          />
+          <Button
+            variant="solid"
+            color="primary"
+            size="large"
+            onPress={handleCreate}
+            disabled={!title.trim() || createCase.isPending}
+            label={_(msg`Create case`)}
+            style={a.mt_md}>
+            <ButtonText>
+              <Trans>Create case</Trans>
+            </ButtonText>
+            {createCase.isPending && (
+              <ActivityIndicator color={t.palette.white} />
+            )}
+          </Button>
+        </View>
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+            <Trans>Your Cases</Trans>
+          </Text>
+          {!cases || cases.length === 0 ? (
+            <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+              <Trans>You haven't started any cases yet.</Trans>
+            </Text>
+          ) : (
+            cases.map(journalCase => (
+              <Pressable
+                key={journalCase.uri}
+                onPress={() =>
+                  navigation.navigate('JournalCase', {uri: journalCase.uri})
+                }
+                disabled={journalCase.isLocked}
+                accessibilityRole="button"
+                accessibilityLabel={
+                  journalCase.isLocked
+                    ? _(msg`Encrypted case`)
+                    : journalCase.title
+                }
+                accessibilityHint={_(msg`Opens the case`)}
+                style={[
+                  styles.caseRow,
+                  {borderTopColor: t.palette.contrast_100},
+                  journalCase.isLocked && styles.disabled,
+                ]}>
+                {journalCase.isLocked ? (
+                  <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+                    <Trans>
+                      Encrypted case. Unlock your journal to open it.
+                    </Trans>
+                  </Text>
+                ) : (
+                  <>
+                    <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+                      <Text
+                        numberOfLines={1}
+                        style={[a.flex_1, a.text_md, a.font_bold]}>
+                        {journalCase.title}
+                      </Text>
+                      <Text style={[a.text_xs, {color: t.palette.primary_500}]}>
+                        {statusLabel(journalCase.status)}
+                      </Text>
+                    </View>
+                    <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                      {_(
+                        msg`${plural(journalCase.entries.length, {one: '# entry', other: '# entries'})} · ${plural(journalCase.evidence.length, {one: '# evidence item', other: '# evidence items'})} · ${plural(journalCase.sources.length, {one: '# source', other: '# sources'})}`,
+                      )}
+                    </Text>
+                    <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                      {_(
+                        msg`Updated ${i18n.date(new Date(journalCase.updatedAt ?? journalCase.createdAt), {dateStyle: 'medium'})}`,
+                      )}
+                    </Text>
+                  </>
+                )}
+              </Pressable>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  header: {
+    paddingTop: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  caseRow: {
+    gap: 4,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+})
@@ -1,5 +1,6 @@
-import React, {useState, useCallback, useRef} from 'react'
+import React, {useState, useCallback, useEffect, useMemo, useRef} from 'react'
 import {
+  ActivityIndicator,
   View,
   ScrollView,
   TextInput,
@@ -9,13 +10,13 @@ import {
   KeyboardAvoidingView,
 } from 'react-native'
 import {useSafeAreaInsets} from 'react-native-safe-area-context'
+import {type MessageDescriptor} from '@lingui/core'
 import {msg, Trans} from '@lingui/macro'
 import {useLingui} from '@lingui/react'
-// Note: Location functionality requires expo-location package
-// import * as Location from 'expo-location'
 import {useMutation, useQueryClient} from '@tanstack/react-query'
+import {useNavigation} from '@react-navigation/native'
 
-import {useAgent, useSession} from '#/state/session'
+import {useSession} from '#/state/session'
 import {atoms as a, useTheme} from '#/alf'
 import {Button, ButtonText} from '#/components/Button'
 import {Text} from '#/components/Typography'
@@ -23,8 +24,41 @@ import * as Toast from '#/view/com/util/Toast'
 import {cleanError} from '#/lib/strings/errors'
 import {logger} from '#/logger'
 import {isIOS} from '#/platform/detection'
+import {JournalKeyUnavailableError} from '#/lib/journal-encryption'
+import {type NavigationProp} from '#/lib/routes/types'
+import {
+  coarsenLocation,
+  getAllowedLocationPrecision,
+  getLocationPrecision,
+  JOURNAL_LOCATION_PRECISIONS,
+} from '#/lib/journal-location'
+import {
+  getCurrentJournalLocation,
+  JournalLocationPermissionError,
+} from '#/lib/journal-location/capture'
+import {buildJournalRecord, type JournalEvidenceAttachment} from '#/lib/journal-record'
+import {isStandardTriggerWarning, JOURNAL_TRIGGER_WARNINGS} from '#/lib/journal-trigger-warnings'
+import {useTriggerWarningLabel} from '#/lib/journal-trigger-warnings/labels'
+import {useJournalRecordCrypto} from '#/state/queries/journal-encryption'
+import {journalKeys} from '#/state/queries/journal-keys'
+import {useJournalPrivacySettings} from '#/state/queries/journal/privacy'
+import {
+  type JournalLocation,
+  type JournalLocationPrecision,
+} from '#/state/queries/journal/types'
+import {formatJournalLocation} from '#/state/queries/journal/utils'
+import {
+  NEW_JOURNAL_DRAFT_ID,
+  useJournalDraft,
+  useJournalWrite,
+} from '#/state/queries/journal-outbox'
 import {SourcePicker, type Source as SourceType} from '#/components/SourcePicker'
 import {PrivacyControls, type VisibilityLevel} from '#/components/PrivacyControls'
+import {JournalEvidencePicker} from '#/components/JournalEvidencePicker'
+import {useDialogControl} from '#/components/Dialog'
+import {PIIReviewDialog, type PIIReviewItem} from '#/components/dialogs/PIIReview'
+import {usePIIScanner} from '#/lib/hooks/usePIIScanner'
+import {redactPIISpans} from '#/lib/strings/pii'
 
 // Types for journal entry
 interface Symptom {
@@ -46,79 +80,168 @@ interface JournalEntry {
   text: string
   entryType: 'real_time' | 'backdated'
   incidentTimestamp?: string
-  location?: {
-    latitude: number
-    longitude: number
-    accuracy?: number
-    address?: string
-  }
+  location?: JournalLocation
   symptoms?: Symptom[]
-  evidenceUris?: string[]
   sourceIds?: string[]
+  evidenceAttachments?: JournalEvidenceAttachment[]
   tags?: string[]
+  triggerWarnings?: string[]
   isPrivate: boolean
   createdAt: string
+  updatedAt?: string
 }
 
 interface Props {
   onSuccess?: () => void
   onCancel?: () => void
-  initialEntry?: Partial<JournalEntry>
+  initialEntry?: Partial<JournalEntry> & {uri?: string; cid?: string}
 }
 
-export function JournalComposer({onSuccess, onCancel, initialEntry}: Props) {
+// How long typing has to pause before the draft is written to storage
+const DRAFT_SAVE_DELAY = 1e3
+
+const LOCATION_PRECISION_LABELS: Record<JournalLocationPrecision, MessageDescriptor> = {
+  exact: msg`Exact`,
+  neighbourhood: msg`Neighbourhood`,
+  city: msg`City`,
+  region: msg`Region`,
+}
+
+// Private drafts have to be opened before the form can be filled in with them
+export function JournalComposer(props: Props) {
+  const t = useTheme()
+  const {isRestoring, ...draftState} = useJournalDraft(
+    props.initialEntry?.uri || NEW_JOURNAL_DRAFT_ID,
+  )
+
+  if (isRestoring) {
+    return (
+      <View style={[styles.container, a.align_center, a.justify_center]}>
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      </View>
+    )
+  }
+  return <JournalComposerForm {...props} {...draftState} />
+}
+
+function JournalComposerForm({
+  onSuccess,
+  onCancel,
+  initialEntry,
+  draft,
+  saveDraft,
+  clearDraft,
+}: Props & Omit<ReturnType<typeof useJournalDraft>, 'isRestoring'>) {
   const {_} = useLingui()
   const t = useTheme()
-  const agent = useAgent()
   const {currentAccount} = useSession()
   const queryClient = useQueryClient()
+  const navigation = useNavigation<NavigationProp>()
+  const {seal} = useJournalRecordCrypto()
+  const writeJournal = useJournalWrite()
   const insets = useSafeAreaInsets()
+  const getTriggerWarningLabel = useTriggerWarningLabel()
+  // An autosaved draft wins over the entry being edited, since it's newer
+  const [initialValues] = useState(() =>
+    draft ? {...initialEntry, ...draft} : initialEntry,
+  )
   
   // Form state - initialize with initialEntry if provided
-  const [text, setText] = useState(initialEntry?.text || '')
-  const [entryType, setEntryType] = useState<'real_time' | 'backdated'>(initialEntry?.entryType || 'real_time')
+  const [text, setText] = useState(initialValues?.text || '')
+  const [entryType, setEntryType] = useState<'real_time' | 'backdated'>(initialValues?.entryType || 'real_time')
   const [incidentTimestamp, setIncidentTimestamp] = useState<Date | null>(
-    initialEntry?.incidentTimestamp ? new Date(initialEntry.incidentTimestamp) : null
+    initialValues?.incidentTimestamp ? new Date(initialValues.incidentTimestamp) : null
+  )
+  // The location as read from the device, which may be exact. It's kept in
+  // memory only; what's saved, even to drafts, is `location` below.
+  const [capturedLocation, setCapturedLocation] = useState<JournalLocation | null>(initialValues?.location || null)
+  const [locationPrecision, setLocationPrecision] = useState<JournalLocationPrecision>(
+    initialValues?.location ? getLocationPrecision(initialValues.location) : 'neighbourhood'
   )
-  const [location, setLocation] = useState<JournalEntry['location'] | null>(initialEntry?.location || null)
-  const [isPrivate, setIsPrivate] = useState(initialEntry?.isPrivate || false)
-  const [symptoms, setSymptoms] = useState<Symptom[]>(initialEntry?.symptoms || [])
-  const [tags, setTags] = useState<string[]>(initialEntry?.tags || [])
+  const [isPrivate, setIsPrivate] = useState(initialValues?.isPrivate || false)
+  const {data: privacySettings} = useJournalPrivacySettings()
+  const allowedPrecision = getAllowedLocationPrecision(locationPrecision, {
+    isPublic: !isPrivate,
+    allowPublicLocation: privacySettings?.allowPublicLocation ?? false,
+  })
+  const location = useMemo(
+    () => capturedLocation ? coarsenLocation(capturedLocation, allowedPrecision) : null,
+    [capturedLocation, allowedPrecision]
+  )
+  const [symptoms, setSymptoms] = useState<Symptom[]>((initialValues?.symptoms as Symptom[]) || [])
+  const [tags, setTags] = useState<string[]>(initialValues?.tags || [])
+  const [triggerWarnings, setTriggerWarnings] = useState<string[]>(initialValues?.triggerWarnings || [])
   const [sources, setSources] = useState<SourceType[]>([])
+  const [evidence, setEvidence] = useState<JournalEvidenceAttachment[]>(initialValues?.evidenceAttachments || [])
   
   // UI state
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [locationPermissionGranted, setLocationPermissionGranted] = useState(false)
+  const [isLocating, setIsLocating] = useState(false)
+
+  // Anything that isn't private can be read by others, so personal
+  // information in the text is flagged before saving
+  const scanForPII = usePIIScanner()
+  const piiReviewControl = useDialogControl()
+  const hasReviewedPII = useRef(false)
+  const piiItems = useMemo(
+    () => isPrivate ? [] : scanForPII(text).map(span => ({textId: 'text', span})),
+    [isPrivate, text, scanForPII]
+  )
   
   const textInputRef = useRef<TextInput>(null)
 
-  // Location handling - placeholder implementation
-  const requestLocationPermission = useCallback(async () => {
+  const hasRestoredDraft = useRef(!!draft)
+  useEffect(() => {
+    if (hasRestoredDraft.current) {
+      Toast.show(_(msg`Restored your unsaved draft`))
+    }
+  }, [_])
+
+  // Autosave so nothing is lost if the app closes or the save fails. Private
+  // drafts are sealed before they're stored.
+  const hasChanged = useRef(false)
+  useEffect(() => {
+    if (!hasChanged.current) {
+      // skip the initial render, there's nothing new to save yet
+      hasChanged.current = true
+      return
+    }
+    if (isSubmitting) return
+    const timeout = setTimeout(() => {
+      if (!text.trim() && symptoms.length === 0 && tags.length === 0 && evidence.length === 0) {
+        clearDraft()
+        return
+      }
+      saveDraft({
+        uri: initialEntry?.uri,
+        text,
+        entryType,
+        incidentTimestamp: incidentTimestamp?.toISOString(),
+        location: location || undefined,
+        symptoms,
+        tags,
+        triggerWarnings,
+        sourceIds: sources.map(source => source.id),
+        evidenceAttachments: evidence,
+        isPrivate,
+      })
+    }, DRAFT_SAVE_DELAY)
+    return () => clearTimeout(timeout)
+  }, [text, entryType, incidentTimestamp, location, symptoms, tags, triggerWarnings, sources, evidence, isPrivate, isSubmitting, initialEntry?.uri, saveDraft, clearDraft])
+
+  const captureLocation = useCallback(async () => {
+    setIsLocating(true)
     try {
-      // TODO: Implement proper location functionality with expo-location
-      // For now, use a placeholder implementation
-      Alert.alert(
-        _(msg`Location Feature`),
-        _(msg`Location functionality requires expo-location package to be installed. This will be implemented in a future version.`),
-        [
-          {
-            text: _(msg`Add Mock Location`),
-            onPress: () => {
-              setLocation({
-                latitude: 37.7749,
-                longitude: -122.4194,
-                accuracy: 10,
-                address: 'Sample Location, San Francisco, CA',
-              })
-              setLocationPermissionGranted(true)
-            },
-          },
-          {text: _(msg`Cancel`), style: 'cancel'},
-        ]
-      )
+      setCapturedLocation(await getCurrentJournalLocation())
     } catch (error) {
+      if (error instanceof JournalLocationPermissionError) {
+        Toast.show(_(msg`Allow location access in your device settings to add a location`), 'xmark')
+        return
+      }
       logger.error('Failed to get location', {message: String(error)})
       Toast.show(_(msg`Failed to get location`), 'xmark')
+    } finally {
+      setIsLocating(false)
     }
   }, [_])
 
@@ -136,6 +259,13 @@ export function JournalComposer({onSuccess, onCancel, initialEntry}: Props) {
     setSymptoms(prev => prev.filter((_, i) => i !== index))
   }, [])
 
+  const toggleTriggerWarning = useCallback((warning: string) => {
+    setTriggerWarnings(prev => prev.includes(warning)
+      ? prev.filter(w => w !== warning)
+      : [...prev, warning]
+    )
+  }, [])
+
   // Update symptom
   const updateSymptom = useCallback((index: number, updates: Partial<Symptom>) => {
     setSymptoms(prev => prev.map((symptom, i) => 
@@ -148,41 +278,49 @@ export function JournalComposer({onSuccess, onCancel, initialEntry}: Props) {
     mutationFn: async (entry: JournalEntry) => {
       if (!currentAccount) throw new Error('Not authenticated')
       
-      const record = {
-        $type: 'app.warlog.journal',
-        ...entry,
-      }
+      // Private entries are encrypted before they leave the device
+      const record = await seal(buildJournalRecord(entry))
 
-      // Update existing entry or create new one
+      // Update existing entry or create new one. Either is queued in the
+      // outbox if we're offline.
       if (initialEntry?.uri) {
-        // Update existing entry
-        const response = await agent.com.atproto.repo.putRecord({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
+        return writeJournal({
+          action: 'update',
           rkey: initialEntry.uri.split('/').pop() || '',
           record,
+          swapRecord: initialEntry.cid,
         })
-        return response
       } else {
-        // Create new entry
-        const response = await agent.com.atproto.repo.createRecord({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
-          record,
-        })
-        return response
+        return writeJournal({action: 'create', record})
       }
     },
-    onSuccess: () => {
-      const message = initialEntry?.uri 
-        ? _(msg`Journal entry updated successfully`)
-        : _(msg`Journal entry saved successfully`)
+    onSuccess: ({queued}) => {
+      clearDraft()
+      const message = queued
+        ? _(msg`You're offline. Your entry is saved on this device and will sync when you reconnect.`)
+        : initialEntry?.uri
+          ? _(msg`Journal entry updated successfully`)
+          : _(msg`Journal entry saved successfully`)
       Toast.show(message)
-      queryClient.invalidateQueries({queryKey: ['journal-entries']})
-      queryClient.invalidateQueries({queryKey: ['journal-entry', initialEntry?.uri]})
+      queryClient.invalidateQueries({queryKey: journalKeys.entries()})
       onSuccess?.()
     },
     onError: (error) => {
+      setIsSubmitting(false)
+      if (error instanceof JournalKeyUnavailableError) {
+        Alert.alert(
+          _(msg`Journal Locked`),
+          _(msg`Private entries are encrypted on this device. Set up or unlock journal encryption to save this entry.`),
+          [
+            {text: _(msg`Cancel`), style: 'cancel'},
+            {
+              text: _(msg`Open Encryption Settings`),
+              onPress: () => navigation.navigate('JournalEncryption'),
+            },
+          ]
+        )
+        return
+      }
       logger.error('Failed to save journal entry', {message: String(error)})
       const message = initialEntry?.uri
         ? _(msg`Failed to update journal entry: ${cleanError(error)}`)
@@ -202,6 +340,12 @@ export function JournalComposer({onSuccess, onCancel, initialEntry}: Props) {
       return
     }
 
+    if (piiItems.length > 0 && !hasReviewedPII.current) {
+      piiReviewControl.open()
+      return
+    }
+
+    const now = new Date().toISOString()
     const entry: JournalEntry = {
       text: text.trim(),
       entryType,
@@ -209,14 +353,28 @@ export function JournalComposer({onSuccess, onCancel, initialEntry}: Props) {
       location: location || undefined,
       symptoms: symptoms.length > 0 ? symptoms : undefined,
       sourceIds: sources.length > 0 ? sources.map(source => source.id) : undefined,
+      evidenceAttachments: evidence.length > 0 ? evidence : undefined,
       tags: tags.length > 0 ? tags : undefined,
+      triggerWarnings: triggerWarnings.length > 0 ? triggerWarnings : undefined,
       isPrivate,
-      createdAt: new Date().toISOString(),
+      // an edit keeps the entry's original time; the version it replaces is
+      // kept as a revision
+      createdAt: initialEntry?.createdAt ?? now,
+      updatedAt: initialEntry?.uri ? now : undefined,
     }
 
     setIsSubmitting(true)
     submitMutation.mutate(entry)
-  }, [text, entryType, incidentTimestamp, location, symptoms, sources, tags, isPrivate, currentAccount, submitMutation, _])
+  }, [text, entryType, incidentTimestamp, location, symptoms, sources, evidence, tags, triggerWarnings, isPrivate, initialEntry?.createdAt, initialEntry?.uri, currentAccount, submitMutation, piiItems, piiReviewControl, _])
+
+  const onRedactPII = useCallback((items: PIIReviewItem[]) => {
+    setText(current => redactPIISpans(current, items.map(item => item.span)))
+  }, [])
+
+  const onContinueAfterPIIReview = useCallback(() => {
+    hasReviewedPII.current = true
+    handleSubmit()
+  }, [handleSubmit])
 
   return (
     <KeyboardAvoidingView
@@ -317,23 +475,29 @@ export function JournalComposer({onSuccess, onCancel, initialEntry}: Props) {
             <Button
               variant="outline"
               size="small"
-              onPress={requestLocationPermission}
-              disabled={!!location}
+              onPress={captureLocation}
+              disabled={!!location || isLocating}
               label={_(msg`Get Current Location`)}>
               <ButtonText>
-                {location ? <Trans>Location Added</Trans> : <Trans>Add Location</Trans>}
+                {location ? (
+                  <Trans>Location Added</Trans>
+                ) : isLocating ? (
+                  <Trans>Locating...</Trans>
+                ) : (
+                  <Trans>Add Location</Trans>
+                )}
               </ButtonText>
             </Button>
           </View>
           {location && (
             <View style={styles.locationInfo}>
               <Text style={[a.text_xs, {color: t.palette.contrast_600}]}>
-                {location.address || `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`}
+                {formatJournalLocation(location, 'private')}
               </Text>
               <Button
                 variant="ghost"
                 size="small"
-                onPress={() => setLocation(null)}
+                onPress={() => setCapturedLocation(null)}
                 label={_(msg`Remove location`)}>
                 <ButtonText style={{color: t.palette.negative_500}}>
                   <Trans>Remove</Trans>
@@ -341,6 +505,33 @@ export function JournalComposer({onSuccess, onCancel, initialEntry}: Props) {
               </Button>
             </View>
           )}
+          <Text style={[a.text_xs, a.pb_xs, {color: t.palette.contrast_600}]}>
+            <Trans>Precision</Trans>
+          </Text>
+          <View style={styles.buttonRow}>
+            {JOURNAL_LOCATION_PRECISIONS.map(precision => (
+              <Button
+                key={precision}
+                variant={allowedPrecision === precision ? 'solid' : 'outline'}
+                color="primary"
+                size="small"
+                onPress={() => setLocationPrecision(precision)}
+                // a location that was saved coarsely can't be made precise again
+                disabled={
+                  !!capturedLocation &&
+                  JOURNAL_LOCATION_PRECISIONS.indexOf(precision) <
+                    JOURNAL_LOCATION_PRECISIONS.indexOf(getLocationPrecision(capturedLocation))
+                }
+                label={_(LOCATION_PRECISION_LABELS[precision])}>
+                <ButtonText>{_(LOCATION_PRECISION_LABELS[precision])}</ButtonText>
+              </Button>
+            ))}
+          </View>
+          {allowedPrecision !== locationPrecision && (
+            <Text style={[a.text_xs, a.pt_xs, {color: t.palette.contrast_600}]}>
+              <Trans>Locations on public entries are saved at city level or coarser. You can change this in your privacy settings.</Trans>
+            </Text>
+          )}
         </View>
 
         {/* Symptoms */}
@@ -392,6 +583,45 @@ export function JournalComposer({onSuccess, onCancel, initialEntry}: Props) {
           />
         </View>
 
+        {/* Evidence */}
+        <View style={styles.section}>
+          <Text style={[a.text_sm, a.font_bold, a.pb_sm]}>
+            <Trans>Evidence</Trans>
+          </Text>
+          <JournalEvidencePicker
+            evidence={evidence}
+            onChange={setEvidence}
+            isPrivate={isPrivate}
+          />
+        </View>
+
+        {/* Content Warnings */}
+        <View style={styles.section}>
+          <Text style={[a.text_sm, a.font_bold, a.pb_xs]}>
+            <Trans>Content Warnings</Trans>
+          </Text>
+          <Text style={[a.text_xs, a.pb_sm, {color: t.palette.contrast_600}]}>
+            <Trans>Readers see these before the entry and can choose to skip it.</Trans>
+          </Text>
+          <View style={styles.buttonRow}>
+            {/* warnings from other apps are kept, so they can be removed too */}
+            {[
+              ...JOURNAL_TRIGGER_WARNINGS,
+              ...triggerWarnings.filter(warning => !isStandardTriggerWarning(warning)),
+            ].map(warning => (
+              <Button
+                key={warning}
+                variant={triggerWarnings.includes(warning) ? 'solid' : 'outline'}
+                color="primary"
+                size="small"
+                onPress={() => toggleTriggerWarning(warning)}
+                label={getTriggerWarningLabel(warning)}>
+                <ButtonText>{getTriggerWarningLabel(warning)}</ButtonText>
+              </Button>
+            ))}
+          </View>
+        </View>
+
         {/* Privacy Setting */}
         <View style={styles.section}>
           <View style={styles.buttonRow}>
@@ -409,6 +639,13 @@ export function JournalComposer({onSuccess, onCancel, initialEntry}: Props) {
         </View>
 
       </ScrollView>
+
+      <PIIReviewDialog
+        control={piiReviewControl}
+        items={piiItems}
+        onRedact={onRedactPII}
+        onContinue={onContinueAfterPIIReview}
+      />
     </KeyboardAvoidingView>
   )
 }
@@ -451,6 +688,7 @@ const styles = StyleSheet.create({
   },
   buttonRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
   },
   locationInfo: {
@@ -0,0 +1,605 @@
+import {useCallback, useState} from 'react'
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native'
+import * as Clipboard from 'expo-clipboard'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {cleanError} from '#/lib/strings/errors'
+import {logger} from '#/logger'
+import {
+  useForgetJournalKey,
+  useJournalEncryptionStatus,
+  useJournalRecoveryPhrase,
+  useRestoreJournalKey,
+  useRotateJournalKey,
+  useSetupJournalEncryption,
+  useUnlockJournalEncryption,
+} from '#/state/queries/journal-encryption'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {Lock_Stroke2_Corner0_Rounded as Lock} from '#/components/icons/Lock'
+import {Text} from '#/components/Typography'
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+export function JournalEncryptionScreen() {
+  const {_} = useLingui()
+  const t = useTheme()
+
+  const {data: status, isLoading, error} = useJournalEncryptionStatus()
+  const setupMutation = useSetupJournalEncryption()
+  const unlockMutation = useUnlockJournalEncryption()
+  const restoreMutation = useRestoreJournalKey()
+  const rotateMutation = useRotateJournalKey()
+  const forgetMutation = useForgetJournalKey()
+  const getRecoveryPhrase = useJournalRecoveryPhrase()
+
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [recoveryInput, setRecoveryInput] = useState('')
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null)
+  const [isRotating, setIsRotating] = useState(false)
+
+  const resetInputs = useCallback(() => {
+    setPassphrase('')
+    setConfirmPassphrase('')
+    setRecoveryInput('')
+  }, [])
+
+  const validateNewPassphrase = useCallback(() => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      Toast.show(
+        _(msg`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`),
+        'xmark',
+      )
+      return false
+    }
+    if (passphrase !== confirmPassphrase) {
+      Toast.show(_(msg`Passphrases do not match`), 'xmark')
+      return false
+    }
+    return true
+  }, [passphrase, confirmPassphrase, _])
+
+  const showRecoveryPhrase = useCallback(async () => {
+    try {
+      setRecoveryPhrase(await getRecoveryPhrase())
+    } catch (e) {
+      logger.error('Failed to export journal recovery phrase', {
+        message: String(e),
+      })
+      Toast.show(cleanError(e), 'xmark')
+    }
+  }, [getRecoveryPhrase])
+
+  const handleSetup = useCallback(() => {
+    if (!validateNewPassphrase()) return
+    setupMutation.mutate(
+      {passphrase},
+      {
+        onSuccess: () => {
+          resetInputs()
+          Toast.show(_(msg`Journal encryption is on`))
+          // the recovery phrase is the only way back in if the passphrase is lost
+          showRecoveryPhrase()
+        },
+        onError: e => Toast.show(cleanError(e), 'xmark'),
+      },
+    )
+  }, [
+    validateNewPassphrase,
+    setupMutation,
+    passphrase,
+    resetInputs,
+    showRecoveryPhrase,
+    _,
+  ])
+
+  const handleUnlock = useCallback(() => {
+    unlockMutation.mutate(
+      {passphrase},
+      {
+        onSuccess: () => {
+          resetInputs()
+          Toast.show(_(msg`Journal unlocked`))
+        },
+        onError: e => Toast.show(cleanError(e), 'xmark'),
+      },
+    )
+  }, [unlockMutation, passphrase, resetInputs, _])
+
+  const handleRestore = useCallback(() => {
+    restoreMutation.mutate(
+      {phrase: recoveryInput},
+      {
+        onSuccess: () => {
+          resetInputs()
+          Toast.show(_(msg`Journal key restored`))
+        },
+        onError: e => Toast.show(cleanError(e), 'xmark'),
+      },
+    )
+  }, [restoreMutation, recoveryInput, resetInputs, _])
+
+  const handleRotate = useCallback(() => {
+    if (!validateNewPassphrase()) return
+    rotateMutation.mutate(
+      {passphrase},
+      {
+        onSuccess: result => {
+          resetInputs()
+          setIsRotating(false)
+          setRecoveryPhrase(null)
+          if (result.failed > 0) {
+            Alert.alert(
+              _(msg`Key Rotated`),
+              _(
+                msg`${result.reencrypted} entries were re-encrypted, but ${result.failed} could not be. Your previous key is kept on this device so they stay readable; run rotation again to retry.`,
+              ),
+            )
+          } else {
+            Toast.show(
+              _(
+                msg`${result.reencrypted} entries re-encrypted with the new key`,
+              ),
+            )
+          }
+          showRecoveryPhrase()
+        },
+        onError: e => Toast.show(cleanError(e), 'xmark'),
+      },
+    )
+  }, [
+    validateNewPassphrase,
+    rotateMutation,
+    passphrase,
+    resetInputs,
+    showRecoveryPhrase,
+    _,
+  ])
+
+  const handleForget = useCallback(() => {
+    Alert.alert(
+      _(msg`Lock Journal on This Device`),
+      _(
+        msg`Your keys will be removed from this device. You will need your passphrase or recovery phrase to read private entries again.`,
+      ),
+      [
+        {text: _(msg`Cancel`), style: 'cancel'},
+        {
+          text: _(msg`Lock`),
+          style: 'destructive',
+          onPress: () => {
+            setRecoveryPhrase(null)
+            forgetMutation.mutate()
+          },
+        },
+      ],
+    )
+  }, [forgetMutation, _])
+
+  const copyRecoveryPhrase = useCallback(async () => {
+    if (!recoveryPhrase) return
+    await Clipboard.setStringAsync(recoveryPhrase)
+    Toast.show(_(msg`Recovery phrase copied to clipboard`))
+  }, [recoveryPhrase, _])
+
+  const inputStyle = [
+    styles.input,
+    {color: t.palette.contrast_800, borderColor: t.palette.contrast_200},
+  ]
+
+  const renderNewPassphraseInputs = () => (
+    <>
+      <TextInput
+        style={inputStyle}
+        value={passphrase}
+        onChangeText={setPassphrase}
+        placeholder={_(msg`New passphrase`)}
+        placeholderTextColor={t.palette.contrast_400}
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        accessibilityLabel={_(msg`New passphrase`)}
+        accessibilityHint=""
+      />
+      <TextInput
+        style={inputStyle}
+        value={confirmPassphrase}
+        onChangeText={setConfirmPassphrase}
+        placeholder={_(msg`Confirm passphrase`)}
+        placeholderTextColor={t.palette.contrast_400}
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        accessibilityLabel={_(msg`Confirm passphrase`)}
+        accessibilityHint=""
+      />
+    </>
+  )
+
+  if (isLoading) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      </View>
+    )
+  }
+
+  if (error || !status) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <Text
+          style={[a.text_md, a.text_center, {color: t.palette.contrast_600}]}>
+          {error
+            ? cleanError(error)
+            : _(msg`Could not load encryption settings.`)}
+        </Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={[styles.container, {backgroundColor: t.palette.contrast_25}]}>
+      <View style={[styles.header, {backgroundColor: t.palette.white}]}>
+        <Text style={[a.text_xl, a.font_bold]}>
+          <Trans>Journal Encryption</Trans>
+        </Text>
+        <Text style={[a.text_sm, a.mt_xs, {color: t.palette.contrast_600}]}>
+          <Trans>
+            Private entries are encrypted on your device before they are saved.
+            Nobody, including your server, can read them without your key.
+          </Trans>
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}>
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <View style={styles.statusRow}>
+            <Lock
+              size="sm"
+              fill={
+                status.isUnlocked
+                  ? t.palette.positive_600
+                  : t.palette.contrast_500
+              }
+            />
+            <Text style={[a.text_md, a.font_bold]}>
+              {!status.isSetUp
+                ? _(msg`Not set up`)
+                : status.isUnlocked
+                  ? _(msg`Unlocked on this device`)
+                  : _(msg`Locked on this device`)}
+            </Text>
+          </View>
+        </View>
+
+        {!status.isSetUp && (
+          <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+              <Trans>Set Up Encryption</Trans>
+            </Text>
+            <Text style={[a.text_sm, a.mb_md, {color: t.palette.contrast_600}]}>
+              <Trans>
+                Choose a passphrase you will remember. It is never sent anywhere
+                and cannot be reset.
+              </Trans>
+            </Text>
+            {renderNewPassphraseInputs()}
+            <Button
+              variant="solid"
+              color="primary"
+              size="large"
+              onPress={handleSetup}
+              disabled={setupMutation.isPending}
+              label={_(msg`Turn on encryption`)}>
+              <ButtonText>
+                <Trans>Turn on encryption</Trans>
+              </ButtonText>
+            </Button>
+          </View>
+        )}
+
+        {status.isSetUp && !status.isUnlocked && (
+          <>
+            <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+              <Text style={[a.text_md, a.font_bold, a.mb_md]}>
+                <Trans>Unlock With Passphrase</Trans>
+              </Text>
+              <TextInput
+                style={inputStyle}
+                value={passphrase}
+                onChangeText={setPassphrase}
+                placeholder={_(msg`Passphrase`)}
+                placeholderTextColor={t.palette.contrast_400}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                accessibilityLabel={_(msg`Passphrase`)}
+                accessibilityHint=""
+              />
+              <Button
+                variant="solid"
+                color="primary"
+                size="large"
+                onPress={handleUnlock}
+                disabled={unlockMutation.isPending || !passphrase}
+                label={_(msg`Unlock`)}>
+                <ButtonText>
+                  <Trans>Unlock</Trans>
+                </ButtonText>
+              </Button>
+            </View>
+
+            <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+              <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                <Trans>Forgot Your Passphrase?</Trans>
+              </Text>
+              <Text
+                style={[a.text_sm, a.mb_md, {color: t.palette.contrast_600}]}>
+                <Trans>
+                  Enter the recovery phrase you saved when you set up
+                  encryption.
+                </Trans>
+              </Text>
+              <TextInput
+                style={[inputStyle, styles.recoveryInput]}
+                value={recoveryInput}
+                onChangeText={setRecoveryInput}
+                placeholder="XXXX-XXXX-XXXX-..."
+                placeholderTextColor={t.palette.contrast_400}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                multiline
+                accessibilityLabel={_(msg`Recovery phrase`)}
+                accessibilityHint=""
+              />
+              <Button
+                variant="outline"
+                color="primary"
+                size="large"
+                onPress={handleRestore}
+                disabled={restoreMutation.isPending || !recoveryInput.trim()}
+                label={_(msg`Restore key`)}>
+                <ButtonText>
+                  <Trans>Restore key</Trans>
+                </ButtonText>
+              </Button>
+            </View>
+          </>
+        )}
+
+        {status.isSetUp && status.isUnlocked && (
+          <>
+            <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+              <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                <Trans>Recovery Phrase</Trans>
+              </Text>
+              <Text
+                style={[a.text_sm, a.mb_md, {color: t.palette.contrast_600}]}>
+                <Trans>
+                  Write this down and keep it somewhere safe. Anyone with it can
+                  read your private entries.
+                </Trans>
+              </Text>
+              {recoveryPhrase ? (
+                <>
+                  <Text
+                    selectable
+                    style={[
+                      styles.recoveryPhrase,
+                      {
+                        backgroundColor: t.palette.contrast_50,
+                        color: t.palette.contrast_900,
+                      },
+                    ]}>
+                    {recoveryPhrase}
+                  </Text>
+                  <View style={styles.buttonRow}>
+                    <Button
+                      variant="outline"
+                      color="primary"
+                      size="small"
+                      onPress={copyRecoveryPhrase}
+                      label={_(msg`Copy`)}>
+                      <ButtonText>
+                        <Trans>Copy</Trans>
+                      </ButtonText>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      color="secondary"
+                      size="small"
+                      onPress={() => setRecoveryPhrase(null)}
+                      label={_(msg`Hide`)}>
+                      <ButtonText>
+                        <Trans>Hide</Trans>
+                      </ButtonText>
+                    </Button>
+                  </View>
+                </>
+              ) : (
+                <Button
+                  variant="outline"
+                  color="primary"
+                  size="large"
+                  onPress={showRecoveryPhrase}
+                  label={_(msg`Show recovery phrase`)}>
+                  <ButtonText>
+                    <Trans>Show recovery phrase</Trans>
+                  </ButtonText>
+                </Button>
+              )}
+            </View>
+
+            <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+              <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                <Trans>Rotate Key</Trans>
+              </Text>
+              <Text
+                style={[a.text_sm, a.mb_md, {color: t.palette.contrast_600}]}>
+                <Trans>
+                  Create a new key from a new passphrase and re-encrypt all
+                  private entries with it. Your old recovery phrase will stop
+                  working for new entries.
+                </Trans>
+              </Text>
+              {isRotating ? (
+                <>
+                  {renderNewPassphraseInputs()}
+                  {rotateMutation.isPending ? (
+                    <View style={styles.statusRow}>
+                      <ActivityIndicator color={t.palette.primary_500} />
+                      <Text
+                        style={[a.text_sm, {color: t.palette.contrast_600}]}>
+                        <Trans>Re-encrypting entries...</Trans>
+                      </Text>
+                    </View>
+                  ) : (
+                    <View style={styles.buttonRow}>
+                      <Button
+                        variant="ghost"
+                        color="secondary"
+                        size="small"
+                        onPress={() => {
+                          resetInputs()
+                          setIsRotating(false)
+                        }}
+                        label={_(msg`Cancel`)}>
+                        <ButtonText>
+                          <Trans>Cancel</Trans>
+                        </ButtonText>
+                      </Button>
+                      <Button
+                        variant="solid"
+                        color="primary"
+                        size="small"
+                        onPress={handleRotate}
+                        label={_(msg`Rotate key`)}>
+                        <ButtonText>
+                          <Trans>Rotate key</Trans>
+                        </ButtonText>
+                      </Button>
+                    </View>
+                  )}
+                </>
+              ) : (
+                <Button
+                  variant="outline"
+                  color="primary"
+                  size="large"
+                  onPress={() => setIsRotating(true)}
+                  label={_(msg`Rotate key`)}>
+                  <ButtonText>
+                    <Trans>Rotate key</Trans>
+                  </ButtonText>
+                </Button>
+              )}
+            </View>
+
+            <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+              <Button
+                variant="outline"
+                color="negative"
+                size="large"
+                onPress={handleForget}
+                disabled={forgetMutation.isPending}
+                label={_(msg`Lock journal on this device`)}>
+                <ButtonIcon icon={Lock} />
+                <ButtonText>
+                  <Trans>Lock journal on this device</Trans>
+                </ButtonText>
+              </Button>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  header: {
+    paddingTop: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  recoveryInput: {
+    minHeight: 80,
+    fontFamily: 'monospace',
+  },
+  recoveryPhrase: {
+    padding: 12,
+    borderRadius: 8,
+    fontFamily: 'monospace',
+    fontSize: 16,
+    lineHeight: 24,
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+})
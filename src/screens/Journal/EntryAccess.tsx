@@ -0,0 +1,530 @@
+import {useCallback, useMemo, useState} from 'react'
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {
+  type JournalTabNavigatorParams,
+  type NativeStackScreenProps,
+} from '#/lib/routes/types'
+import {cleanError} from '#/lib/strings/errors'
+import {useJournalEntry} from '#/state/queries/journal'
+import {
+  type AccessRequest,
+  useAccessRequests,
+  useEntryAccessGrants,
+  useGrantEntryAccess,
+  useRespondToAccessRequest,
+  useRevokeEntryAccess,
+} from '#/state/queries/journal/privacy'
+import {type JournalAccessGrant} from '#/state/queries/journal/types'
+import {
+  canGrantJournalAccess,
+  isAccessGrantActive,
+} from '#/state/queries/journal/utils'
+import {useProfileQuery} from '#/state/queries/profile'
+import {useAgent} from '#/state/session'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {PersonPlus_Stroke2_Corner0_Rounded as PersonPlus} from '#/components/icons/Person'
+import {Text} from '#/components/Typography'
+
+type Props = NativeStackScreenProps<
+  JournalTabNavigatorParams,
+  'JournalEntryAccess'
+>
+
+const DAY = 24 * 60 * 60 * 1000
+
+type ExpiryOption = 'never' | '7d' | '30d'
+
+const EXPIRY_DAYS: Record<ExpiryOption, number | undefined> = {
+  never: undefined,
+  '7d': 7,
+  '30d': 30,
+}
+
+/**
+ * Lists who has been given access to one of the user's entries, and lets
+ * them grant, revoke and respond to requests for access
+ */
+export function JournalEntryAccessScreen({route}: Props) {
+  const {uri: entryUri} = route.params
+  const {_} = useLingui()
+  const t = useTheme()
+  const agent = useAgent()
+
+  const {data: entry} = useJournalEntry(entryUri)
+  const {data: grants, isLoading, error} = useEntryAccessGrants(entryUri)
+  const {data: requests} = useAccessRequests()
+  const grantMutation = useGrantEntryAccess()
+  const revokeMutation = useRevokeEntryAccess()
+  const respondMutation = useRespondToAccessRequest()
+
+  const [grantee, setGrantee] = useState('')
+  const [readOnly, setReadOnly] = useState(true)
+  const [expiry, setExpiry] = useState<ExpiryOption>('never')
+  const [isResolving, setIsResolving] = useState(false)
+
+  const pendingRequests = useMemo(
+    () =>
+      (requests ?? []).filter(
+        request =>
+          request.entryId === entryUri ||
+          entryUri.endsWith(`/${request.entryId}`),
+      ),
+    [requests, entryUri],
+  )
+
+  const getExpiresAt = useCallback((option: ExpiryOption) => {
+    const days = EXPIRY_DAYS[option]
+    return days ? new Date(Date.now() + days * DAY).toISOString() : undefined
+  }, [])
+
+  const handleGrant = useCallback(async () => {
+    const identifier = grantee.trim().replace(/^@/, '')
+    if (!identifier) return
+
+    let granteeDid = identifier
+    if (!identifier.startsWith('did:')) {
+      setIsResolving(true)
+      try {
+        const res = await agent.resolveHandle({handle: identifier})
+        granteeDid = res.data.did
+      } catch {
+        Toast.show(_(msg`Could not find @${identifier}`), 'xmark')
+        return
+      } finally {
+        setIsResolving(false)
+      }
+    }
+
+    grantMutation.mutate(
+      {entryUri, granteeDid, readOnly, expiresAt: getExpiresAt(expiry)},
+      {
+        onSuccess: () => {
+          setGrantee('')
+          Toast.show(_(msg`Access granted`))
+        },
+        onError: e => Toast.show(cleanError(e), 'xmark'),
+      },
+    )
+  }, [
+    grantee,
+    agent,
+    grantMutation,
+    entryUri,
+    readOnly,
+    expiry,
+    getExpiresAt,
+    _,
+  ])
+
+  const handleRevoke = useCallback(
+    (grant: JournalAccessGrant) => {
+      Alert.alert(
+        _(msg`Revoke Access`),
+        _(msg`They will no longer be able to see this entry.`),
+        [
+          {text: _(msg`Cancel`), style: 'cancel'},
+          {
+            text: _(msg`Revoke`),
+            style: 'destructive',
+            onPress: () =>
+              revokeMutation.mutate(
+                {grant},
+                {
+                  onSuccess: () => Toast.show(_(msg`Access revoked`)),
+                  onError: e => Toast.show(cleanError(e), 'xmark'),
+                },
+              ),
+          },
+        ],
+      )
+    },
+    [revokeMutation, _],
+  )
+
+  const handleRespond = useCallback(
+    (request: AccessRequest, approve: boolean) => {
+      respondMutation.mutate(
+        {
+          requestId: request.id,
+          approve,
+          readOnly,
+          expiresAt: getExpiresAt(expiry),
+        },
+        {
+          onSuccess: () =>
+            Toast.show(
+              approve ? _(msg`Request approved`) : _(msg`Request declined`),
+            ),
+          onError: e => Toast.show(cleanError(e), 'xmark'),
+        },
+      )
+    },
+    [respondMutation, readOnly, expiry, getExpiresAt, _],
+  )
+
+  if (isLoading) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      </View>
+    )
+  }
+
+  if (error || !grants) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <Text
+          style={[a.text_md, a.text_center, {color: t.palette.contrast_600}]}>
+          {error ? cleanError(error) : _(msg`Could not load access list.`)}
+        </Text>
+      </View>
+    )
+  }
+
+  const canGrant = !!entry && canGrantJournalAccess(entry)
+  const active = grants.filter(grant => isAccessGrantActive(grant))
+  const inactive = grants.filter(grant => !isAccessGrantActive(grant))
+
+  return (
+    <View style={[styles.container, {backgroundColor: t.palette.contrast_25}]}>
+      <View style={[styles.header, {backgroundColor: t.palette.white}]}>
+        <Text style={[a.text_xl, a.font_bold]}>
+          <Trans>Who Has Access</Trans>
+        </Text>
+        <Text style={[a.text_sm, a.mt_xs, {color: t.palette.contrast_600}]}>
+          <Trans>
+            People you give access to can see this entry in their feed even if
+            its privacy level would otherwise hide it. Access can't be reshared,
+            and can only be given to entries that aren't encrypted.
+          </Trans>
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}>
+        {entry && !canGrant && (
+          <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_xs]}>
+              <Trans>This entry is encrypted</Trans>
+            </Text>
+            <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+              <Trans>
+                Giving access doesn't share your encryption key, so others would
+                only see it locked. Change its privacy level to give people
+                access.
+              </Trans>
+            </Text>
+          </View>
+        )}
+
+        {canGrant && (
+          <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+              <Trans>Give Access</Trans>
+            </Text>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  color: t.palette.contrast_800,
+                  borderColor: t.palette.contrast_200,
+                },
+              ]}
+              value={grantee}
+              onChangeText={setGrantee}
+              placeholder={_(msg`Handle or DID`)}
+              placeholderTextColor={t.palette.contrast_400}
+              autoCapitalize="none"
+              autoCorrect={false}
+              accessibilityLabel={_(msg`Handle or DID`)}
+              accessibilityHint=""
+            />
+            <View style={[styles.optionRow, a.mb_sm]}>
+              <OptionButton
+                label={_(msg`Read only`)}
+                selected={readOnly}
+                onPress={() => setReadOnly(true)}
+              />
+              <OptionButton
+                label={_(msg`Can comment`)}
+                selected={!readOnly}
+                onPress={() => setReadOnly(false)}
+              />
+            </View>
+            <View style={[styles.optionRow, a.mb_md]}>
+              <OptionButton
+                label={_(msg`No expiry`)}
+                selected={expiry === 'never'}
+                onPress={() => setExpiry('never')}
+              />
+              <OptionButton
+                label={_(msg`7 days`)}
+                selected={expiry === '7d'}
+                onPress={() => setExpiry('7d')}
+              />
+              <OptionButton
+                label={_(msg`30 days`)}
+                selected={expiry === '30d'}
+                onPress={() => setExpiry('30d')}
+              />
+            </View>
+            <Button
+              variant="solid"
+              color="primary"
+              size="large"
+              onPress={handleGrant}
+              disabled={
+                !grantee.trim() || isResolving || grantMutation.isPending
+              }
+              label={_(msg`Give access`)}>
+              <ButtonIcon icon={PersonPlus} />
+              <ButtonText>
+                <Trans>Give access</Trans>
+              </ButtonText>
+            </Button>
+          </View>
+        )}
+
+        {pendingRequests.length > 0 && (
+          <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_xs]}>
+              <Trans>Requests</Trans>
+            </Text>
+            <Text style={[a.text_sm, a.mb_sm, {color: t.palette.contrast_600}]}>
+              {canGrant ? (
+                <Trans>
+                  Approving uses the access level and expiry chosen above.
+                </Trans>
+              ) : (
+                <Trans>
+                  Requests for encrypted entries can only be declined.
+                </Trans>
+              )}
+            </Text>
+            {pendingRequests.map(request => (
+              <View key={request.id} style={styles.row}>
+                <View style={a.flex_1}>
+                  <Text style={[a.text_md, a.font_bold]}>
+                    {request.requesterDisplayName ||
+                      `@${request.requesterHandle}`}
+                  </Text>
+                  {request.message ? (
+                    <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+                      {request.message}
+                    </Text>
+                  ) : null}
+                </View>
+                <Button
+                  variant="ghost"
+                  color="secondary"
+                  size="small"
+                  onPress={() => handleRespond(request, false)}
+                  disabled={respondMutation.isPending}
+                  label={_(msg`Decline`)}>
+                  <ButtonText>
+                    <Trans>Decline</Trans>
+                  </ButtonText>
+                </Button>
+                {canGrant && (
+                  <Button
+                    variant="solid"
+                    color="primary"
+                    size="small"
+                    onPress={() => handleRespond(request, true)}
+                    disabled={respondMutation.isPending}
+                    label={_(msg`Approve`)}>
+                    <ButtonText>
+                      <Trans>Approve</Trans>
+                    </ButtonText>
+                  </Button>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+            <Trans>Current Access</Trans>
+          </Text>
+          {active.length === 0 ? (
+            <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+              <Trans>Nobody else has been given access to this entry.</Trans>
+            </Text>
+          ) : (
+            active.map(grant => (
+              <GrantRow
+                key={grant.id}
+                grant={grant}
+                onRevoke={() => handleRevoke(grant)}
+                disabled={revokeMutation.isPending}
+              />
+            ))
+          )}
+        </View>
+
+        {inactive.length > 0 && (
+          <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+              <Trans>Past Access</Trans>
+            </Text>
+            {inactive.map(grant => (
+              <GrantRow key={grant.id} grant={grant} />
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  )
+}
+
+function GrantRow({
+  grant,
+  onRevoke,
+  disabled,
+}: {
+  grant: JournalAccessGrant
+  onRevoke?: () => void
+  disabled?: boolean
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const {data: profile} = useProfileQuery({did: grant.granteeDid})
+
+  const details = [
+    grant.readOnly ? _(msg`Read only`) : _(msg`Can comment`),
+    grant.revokedAt
+      ? _(msg`Revoked ${new Date(grant.revokedAt).toLocaleDateString()}`)
+      : grant.expiresAt
+        ? new Date(grant.expiresAt) <= new Date()
+          ? _(msg`Expired ${new Date(grant.expiresAt).toLocaleDateString()}`)
+          : _(msg`Expires ${new Date(grant.expiresAt).toLocaleDateString()}`)
+        : _(msg`No expiry`),
+  ]
+
+  return (
+    <View style={styles.row}>
+      <View style={a.flex_1}>
+        <Text style={[a.text_md, a.font_bold]} numberOfLines={1}>
+          {profile?.displayName ||
+            (profile ? `@${profile.handle}` : grant.granteeDid)}
+        </Text>
+        <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+          {details.join(' · ')}
+        </Text>
+      </View>
+      {onRevoke && (
+        <Button
+          variant="ghost"
+          color="negative"
+          size="small"
+          onPress={onRevoke}
+          disabled={disabled}
+          label={_(msg`Revoke access`)}>
+          <ButtonText>
+            <Trans>Revoke</Trans>
+          </ButtonText>
+        </Button>
+      )}
+    </View>
+  )
+}
+
+function OptionButton({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string
+  selected: boolean
+  onPress: () => void
+}) {
+  return (
+    <Button
+      variant={selected ? 'solid' : 'outline'}
+      color={selected ? 'primary' : 'secondary'}
+      size="small"
+      onPress={onPress}
+      label={label}>
+      <ButtonText>{label}</ButtonText>
+    </Button>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  header: {
+    paddingTop: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+})
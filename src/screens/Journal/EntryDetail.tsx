@@ -11,10 +11,10 @@ import {
 import {useSafeAreaInsets} from 'react-native-safe-area-context'
 import {msg, Trans} from '@lingui/macro'
 import {useLingui} from '@lingui/react'
-import {useQuery, useMutation, useQueryClient} from '@tanstack/react-query'
+import {useMutation, useQueryClient} from '@tanstack/react-query'
 import {useNavigation} from '@react-navigation/native'
 
-import {useAgent, useSession} from '#/state/session'
+import {useSession} from '#/state/session'
 import {atoms as a, useTheme} from '#/alf'
 import {Button, ButtonText, ButtonIcon} from '#/components/Button'
 import {Text} from '#/components/Typography'
@@ -24,60 +24,58 @@ import {ArrowShareRight_Stroke2_Corner2_Rounded as ShareIcon} from '#/components
 import {Clock_Stroke2_Corner0_Rounded as Clock} from '#/components/icons/Clock'
 import {Globe_Stroke2_Corner0_Rounded as Globe} from '#/components/icons/Globe'
 import {Lock_Stroke2_Corner0_Rounded as Lock} from '#/components/icons/Lock'
-import {Pin_Stroke2_Corner0_Rounded as Location} from '#/components/icons/Pin'
-import {Image_Stroke2_Corner0_Rounded as Image} from '#/components/icons/Image'
+import {Pin_Stroke2_Corner0_Rounded as Location, Pin_Filled_Corner0_Rounded as PinIcon} from '#/components/icons/Pin'
 import {PageText_Stroke2_Corner0_Rounded as Document} from '#/components/icons/PageText'
 import {Eye_Stroke2_Corner0_Rounded as Eye} from '#/components/icons/Eye'
 import {Group3_Stroke2_Corner0_Rounded as PersonGroup} from '#/components/icons/Group'
 import {Shield_Stroke2_Corner0_Rounded as Shield} from '#/components/icons/Shield'
 import {SourceDisplay} from '#/components/SourceDisplay'
-import {PrivacyControls, type VisibilityLevel} from '#/components/PrivacyControls'
+import * as Dialog from '#/components/Dialog'
+import {SourceCitationExportDialog} from '#/components/SourceCitationExport'
+import {useSourcesAPI} from '#/lib/api/sources'
+import {type CitationItem, toCitableSource} from '#/lib/source-citations'
+import {
+  getPrivacyLevel,
+  getVisibilityLevel,
+  PrivacyControls,
+  type VisibilityLevel,
+} from '#/components/PrivacyControls'
 import {logger} from '#/logger'
+import {
+  type JournalTabNavigatorParams,
+  type NativeStackScreenProps,
+} from '#/lib/routes/types'
 import {cleanError} from '#/lib/strings/errors'
+import * as Toast from '#/view/com/util/Toast'
+import {JournalKeyUnavailableError} from '#/lib/journal-encryption'
+import {applyJournalRecordUpdate} from '#/lib/journal-record'
+import {useJournalEntry} from '#/state/queries/journal'
+import {useLogJournalEntryAccess} from '#/state/queries/journal/access-log'
+import {useJournalRecordCrypto} from '#/state/queries/journal-encryption'
+import {journalKeys} from '#/state/queries/journal-keys'
+import {getJournalRkey} from '#/state/queries/journal-repository'
+import {useJournalWrite} from '#/state/queries/journal-outbox'
+import {JournalIntegrityCheck} from '#/components/JournalIntegrityCheck'
+import {JournalRevisionHistory} from '#/components/JournalRevisionHistory'
+import {JournalComments} from '#/components/JournalComments'
+import {JournalWitnesses} from '#/components/JournalWitnesses'
+import {JournalTriggerWarningHider} from '#/components/moderation/JournalTriggerWarningHider'
+import {JournalEvidenceThumbnail, JournalEvidenceViewer} from '#/components/JournalEvidenceViewer'
 
-// Types
-interface JournalEntry {
-  uri: string
-  cid: string
-  text: string
-  entryType: 'real_time' | 'backdated'
-  incidentTimestamp?: string
-  location?: {
-    latitude: number
-    longitude: number
-    accuracy?: number
-    address?: string
-  }
-  symptoms?: Array<{
-    category: string
-    severity: number
-  }>
-  tags?: string[]
-  sourceIds?: string[]
-  evidenceAttachments?: Array<{
-    uri: string
-    type: 'image' | 'document' | 'audio' | 'video'
-    filename: string
-    size?: number
-    description?: string
-  }>
-  isPrivate: boolean
-  visibility: 'private' | 'contacts' | 'community' | 'public'
-  createdAt: string
-  updatedAt?: string
-}
-
-interface Props {
-  entryUri: string
-}
+type Props = NativeStackScreenProps<
+  JournalTabNavigatorParams,
+  'JournalEntryDetail'
+>
 
-export function JournalEntryDetail({entryUri}: Props) {
+export function JournalEntryDetail({route}: Props) {
+  const {uri: entryUri, via} = route.params
   const {_} = useLingui()
   const t = useTheme()
   const navigation = useNavigation()
-  const agent = useAgent()
   const {currentAccount} = useSession()
   const queryClient = useQueryClient()
+  const {seal} = useJournalRecordCrypto()
+  const writeJournal = useJournalWrite()
   const insets = useSafeAreaInsets()
 
   const [isEditing, setIsEditing] = useState(false)
@@ -86,50 +84,35 @@ export function JournalEntryDetail({entryUri}: Props) {
   const [editedVisibility, setEditedVisibility] = useState<VisibilityLevel>('private')
   const [showEvidenceViewer, setShowEvidenceViewer] = useState(false)
   const [selectedEvidence, setSelectedEvidence] = useState<number>(0)
+  const [citationItems, setCitationItems] = useState<CitationItem[]>([])
+  const citationDialogControl = Dialog.useDialogControl()
+  const {getById: getSource} = useSourcesAPI()
 
   // Fetch journal entry
   const {
     data: entry,
     isLoading,
     error,
-  } = useQuery({
-    queryKey: ['journal-entry', entryUri],
-    queryFn: async () => {
-      if (!currentAccount) throw new Error('No account')
-      
-      try {
-        const response = await agent.com.atproto.repo.getRecord({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
-          rkey: entryUri.split('/').pop() || '',
-        })
-
-        return {
-          uri: entryUri,
-          cid: response.data.cid,
-          ...response.data.value,
-        } as JournalEntry
-      } catch (err) {
-        logger.error('Failed to fetch journal entry', {message: String(err)})
-        throw err
-      }
-    },
-    enabled: !!currentAccount && !!entryUri,
-  })
+  } = useJournalEntry(entryUri)
+  const visibility = getVisibilityLevel(entry?.privacyLevel ?? 'private')
+  const isAuthor = !!entry && entry.author.did === currentAccount?.did
+  useLogJournalEntryAccess(entry, via)
 
   // Delete entry mutation
   const deleteEntryMutation = useMutation({
     mutationFn: async () => {
       if (!currentAccount || !entry) throw new Error('Missing data')
       
-      await agent.com.atproto.repo.deleteRecord({
-        repo: currentAccount.did,
-        collection: 'app.warlog.journal',
-        rkey: entry.uri.split('/').pop() || '',
+      return writeJournal({
+        action: 'delete',
+        rkey: getJournalRkey(entry.uri),
       })
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({queryKey: ['journal-entries']})
+    onSuccess: ({queued}) => {
+      if (queued) {
+        Toast.show(_(msg`You're offline. The entry will be deleted when you reconnect.`))
+      }
+      queryClient.invalidateQueries({queryKey: journalKeys.entries()})
       navigation.goBack()
     },
     onError: (error) => {
@@ -145,30 +128,38 @@ export function JournalEntryDetail({entryUri}: Props) {
   const updateEntryMutation = useMutation({
     mutationFn: async ({text, tags, visibility}: {text: string; tags: string[]; visibility?: VisibilityLevel}) => {
       if (!currentAccount || !entry) throw new Error('Missing data')
+      // we never had the plaintext, so saving would wipe the entry
+      if (entry.isLocked) throw new JournalKeyUnavailableError()
       
-      const updatedEntry = {
-        ...entry,
+      const record = applyJournalRecordUpdate(entry, {
         text,
         tags,
-        visibility: visibility || entry.visibility,
+        privacyLevel: visibility ? getPrivacyLevel(visibility) : entry.privacyLevel,
         updatedAt: new Date().toISOString(),
-      }
+      })
 
-      await agent.com.atproto.repo.putRecord({
-        repo: currentAccount.did,
-        collection: 'app.warlog.journal',
-        rkey: entry.uri.split('/').pop() || '',
-        record: updatedEntry,
+      const {queued} = await writeJournal({
+        action: 'update',
+        rkey: getJournalRkey(entry.uri),
+        record: await seal(record),
+        swapRecord: entry.cid,
       })
 
-      return updatedEntry
+      return {updatedEntry: {...entry, ...record}, queued}
     },
-    onSuccess: (updatedEntry) => {
-      queryClient.invalidateQueries({queryKey: ['journal-entries']})
-      queryClient.setQueryData(['journal-entry', entryUri], updatedEntry)
+    onSuccess: ({updatedEntry, queued}) => {
+      if (queued) {
+        Toast.show(_(msg`You're offline. Your changes will sync when you reconnect.`))
+      }
+      queryClient.invalidateQueries({queryKey: journalKeys.entries()})
+      queryClient.setQueryData(journalKeys.entry(entryUri), updatedEntry)
       setIsEditing(false)
     },
     onError: (error) => {
+      if (error instanceof JournalKeyUnavailableError) {
+        Alert.alert(_(msg`Journal Locked`), error.message)
+        return
+      }
       logger.error('Failed to update journal entry', {message: String(error)})
       Alert.alert(
         _(msg`Update Failed`),
@@ -177,11 +168,40 @@ export function JournalEntryDetail({entryUri}: Props) {
     },
   })
 
+  // These flags live outside the sealed fields, so locked entries can be
+  // updated too
+  const updateFlagsMutation = useMutation({
+    mutationFn: async (changes: {pinned?: boolean; legalHold?: boolean; accessLogRequired?: boolean}) => {
+      if (!currentAccount || !entry) throw new Error('Missing data')
+
+      const record = applyJournalRecordUpdate(entry, changes)
+      const {queued} = await writeJournal({
+        action: 'update',
+        rkey: getJournalRkey(entry.uri),
+        record: await seal(record),
+        swapRecord: entry.cid,
+      })
+
+      return {updatedEntry: {...entry, ...record}, queued}
+    },
+    onSuccess: ({updatedEntry, queued}) => {
+      if (queued) {
+        Toast.show(_(msg`You're offline. Your changes will sync when you reconnect.`))
+      }
+      queryClient.invalidateQueries({queryKey: journalKeys.entries()})
+      queryClient.setQueryData(journalKeys.entry(entryUri), updatedEntry)
+    },
+    onError: (error) => {
+      logger.error('Failed to update journal entry flags', {message: String(error)})
+      Toast.show(cleanError(error), 'xmark')
+    },
+  })
+
   const handleEdit = useCallback(() => {
     if (!entry) return
     setEditedText(entry.text)
     setEditedTags(entry.tags?.join(', ') || '')
-    setEditedVisibility(entry.visibility as VisibilityLevel)
+    setEditedVisibility(getVisibilityLevel(entry.privacyLevel))
     setIsEditing(true)
   }, [entry])
 
@@ -223,11 +243,34 @@ export function JournalEntryDetail({entryUri}: Props) {
     )
   }, [_, deleteEntryMutation])
 
+  // The entry only keeps source ids, so the sources are fetched to cite them
+  const citeSourcesMutation = useMutation({
+    mutationFn: async (sourceIds: string[]) => {
+      const results = await Promise.allSettled(sourceIds.map(getSource))
+      return results.flatMap(result =>
+        result.status === 'fulfilled'
+          ? [{source: toCitableSource(result.value)}]
+          : []
+      )
+    },
+    onSuccess: items => {
+      if (items.length === 0) {
+        Toast.show(_(msg`The sources of this entry could not be loaded.`), 'xmark')
+        return
+      }
+      setCitationItems(items)
+      citationDialogControl.open()
+    },
+    onError: (error) => {
+      logger.error('Failed to load entry sources', {message: cleanError(error)})
+    },
+  })
+
   const handleShare = useCallback(async () => {
     if (!entry) return
 
     try {
-      if (entry.isPrivate) {
+      if (entry.privacyLevel === 'private') {
         Alert.alert(
           _(msg`Private Entry`),
           _(msg`This is a private entry and cannot be shared.`)
@@ -260,11 +303,9 @@ export function JournalEntryDetail({entryUri}: Props) {
   const visibilityIcon = useMemo(() => {
     if (!entry) return null
     
-    switch (entry.visibility) {
+    switch (getVisibilityLevel(entry.privacyLevel)) {
       case 'private':
         return <Lock size="sm" fill={t.palette.contrast_600} />
-      case 'contacts':
-        return <PersonGroup size="sm" fill={t.palette.primary_600} />
       case 'community':
         return <Shield size="sm" fill={t.palette.secondary_600} />
       case 'public':
@@ -281,60 +322,59 @@ export function JournalEntryDetail({entryUri}: Props) {
     
     return (
       <View style={[styles.section, {backgroundColor: t.palette.white}]}>
-        <Text style={[a.text_md, a.font_semi_bold, a.mb_sm]}>
+        <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
           <Trans>Evidence Attachments</Trans>
         </Text>
-        <View style={styles.evidenceGrid}>
-          {entry.evidenceAttachments.map((evidence, index) => {
-            const isImage = evidence.type === 'image'
-            const isDocument = evidence.type === 'document'
-            
-            return (
-              <Button
-                key={index}
-                variant="outline"
-                color="secondary"
-                size="medium"
-                onPress={() => {
-                  setSelectedEvidence(index)
-                  setShowEvidenceViewer(true)
-                }}
-                label={evidence.filename}
-                style={styles.evidenceItem}>
-                <View style={styles.evidenceContent}>
-                  <View style={[styles.evidenceIcon, {backgroundColor: t.palette.contrast_100}]}>
-                    {isImage ? (
-                      <Image size="sm" fill={t.palette.primary_600} />
-                    ) : (
-                      <Document size="sm" fill={t.palette.secondary_600} />
-                    )}
-                  </View>
-                  <View style={styles.evidenceInfo}>
-                    <Text 
-                      style={[a.text_sm, a.font_semi_bold, {color: t.palette.contrast_800}]}
-                      numberOfLines={1}>
-                      {evidence.filename}
-                    </Text>
-                    <Text style={[a.text_xs, {color: t.palette.contrast_600}]}>
-                      {evidence.type.toUpperCase()}
-                      {evidence.size && ` • ${(evidence.size / 1024).toFixed(1)}KB`}
-                    </Text>
-                    {evidence.description && (
+        <JournalTriggerWarningHider warnings={entry.triggerWarnings}>
+          <View style={styles.evidenceGrid}>
+            {entry.evidenceAttachments.map((evidence, index) => {
+              return (
+                <Button
+                  key={index}
+                  variant="outline"
+                  color="secondary"
+                  size="medium"
+                  onPress={() => {
+                    setSelectedEvidence(index)
+                    setShowEvidenceViewer(true)
+                  }}
+                  label={evidence.filename}
+                  style={styles.evidenceItem}>
+                  <View style={styles.evidenceContent}>
+                    <JournalEvidenceThumbnail authorDid={entry.author.did} evidence={evidence} />
+                    <View style={styles.evidenceInfo}>
                       <Text 
-                        style={[a.text_xs, {color: t.palette.contrast_500}]}
-                        numberOfLines={2}>
-                        {evidence.description}
+                        style={[a.text_sm, a.font_bold, {color: t.palette.contrast_800}]}
+                        numberOfLines={1}>
+                        {evidence.filename}
+                      </Text>
+                      <Text style={[a.text_xs, {color: t.palette.contrast_600}]}>
+                        {evidence.type.toUpperCase()}
+                        {evidence.size && ` • ${(evidence.size / 1024).toFixed(1)}KB`}
                       </Text>
-                    )}
+                      {evidence.description && (
+                        <Text 
+                          style={[a.text_xs, {color: t.palette.contrast_500}]}
+                          numberOfLines={2}>
+                          {evidence.description}
+                        </Text>
+                      )}
+                    </View>
                   </View>
-                </View>
-              </Button>
-            )
-          })}
-        </View>
+                </Button>
+              )
+            })}
+          </View>
+        </JournalTriggerWarningHider>
+        <JournalEvidenceViewer
+          authorDid={entry.author.did}
+          evidence={entry.evidenceAttachments[selectedEvidence]}
+          visible={showEvidenceViewer}
+          onClose={() => setShowEvidenceViewer(false)}
+        />
       </View>
     )
-  }, [entry, t, _])
+  }, [entry, t, showEvidenceViewer, selectedEvidence])
 
   if (isLoading) {
     return (
@@ -394,11 +434,16 @@ export function JournalEntryDetail({entryUri}: Props) {
                   style={styles.actionButton}>
                   <ButtonIcon icon={ShareIcon} />
                 </Button>
+              </>
+            )}
+            {!isEditing && isAuthor && (
+              <>
                 <Button
                   variant="ghost"
                   color="primary"
                   size="small"
                   onPress={handleEdit}
+                  disabled={entry.isLocked}
                   label={_(msg`Edit`)}
                   style={styles.actionButton}>
                   <ButtonIcon icon={Edit} />
@@ -456,7 +501,7 @@ export function JournalEntryDetail({entryUri}: Props) {
             <View style={styles.metaItem}>
               {visibilityIcon}
               <Text style={[a.text_xs, {color: t.palette.contrast_600}]}>
-                {entry.visibility.charAt(0).toUpperCase() + entry.visibility.slice(1)}
+                {visibility.charAt(0).toUpperCase() + visibility.slice(1)}
               </Text>
             </View>
           </View>
@@ -474,89 +519,124 @@ export function JournalEntryDetail({entryUri}: Props) {
       {/* Content */}
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         <View style={styles.contentContainer}>
-          {/* Entry Text */}
-          <View style={[styles.section, {backgroundColor: t.palette.white}]}>
-            <Text style={[a.text_md, a.font_semi_bold, a.mb_sm]}>
-              <Trans>Entry</Trans>
-            </Text>
-            {isEditing ? (
-              <TextInput
-                style={[
-                  styles.textInput,
-                  {
-                    color: t.palette.contrast_800,
-                    borderColor: t.palette.contrast_200,
-                  },
-                ]}
-                value={editedText}
-                onChangeText={setEditedText}
-                multiline
-                placeholder={_(msg`Write your journal entry...`)}
-                placeholderTextColor={t.palette.contrast_400}
-                textAlignVertical="top"
-              />
-            ) : (
-              <Text style={[a.text_md, a.leading_normal]}>
-                {entry.text}
-              </Text>
-            )}
-          </View>
-
-          {/* Incident Date */}
-          {isBackdated && incidentDate && (
+          {/* Content warnings cover everything describing the incident */}
+          <JournalTriggerWarningHider
+            warnings={isEditing ? undefined : entry.triggerWarnings}
+            style={styles.warningHider}
+            childContainerStyle={styles.warningHider}>
+            {/* Entry Text */}
             <View style={[styles.section, {backgroundColor: t.palette.white}]}>
-              <Text style={[a.text_md, a.font_semi_bold, a.mb_sm]}>
-                <Trans>Incident Date</Trans>
-              </Text>
-              <Text style={[a.text_md, {color: t.palette.contrast_700}]}>
-                {formatDate(incidentDate.toISOString())}
+              <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                <Trans>Entry</Trans>
               </Text>
+              {isEditing ? (
+                <TextInput
+                  style={[
+                    styles.textInput,
+                    {
+                      color: t.palette.contrast_800,
+                      borderColor: t.palette.contrast_200,
+                    },
+                  ]}
+                  value={editedText}
+                  onChangeText={setEditedText}
+                  multiline
+                  placeholder={_(msg`Write your journal entry...`)}
+                  placeholderTextColor={t.palette.contrast_400}
+                  textAlignVertical="top"
+                />
+              ) : entry.isLocked ? (
+                <View>
+                  <Text style={[a.text_md, a.leading_normal, {color: t.palette.contrast_600}]}>
+                    <Trans>This entry is encrypted. Unlock your journal on this device to read it.</Trans>
+                  </Text>
+                  <Button
+                    variant="solid"
+                    color="primary"
+                    size="small"
+                    onPress={() => {
+                      // @ts-ignore - navigation is untyped here
+                      navigation.navigate('JournalEncryption')
+                    }}
+                    label={_(msg`Unlock Journal`)}
+                    style={a.mt_md}>
+                    <ButtonIcon icon={Lock} />
+                    <ButtonText>
+                      <Trans>Unlock Journal</Trans>
+                    </ButtonText>
+                  </Button>
+                </View>
+              ) : (
+                <Text style={[a.text_md, a.leading_normal]}>
+                  {entry.text}
+                </Text>
+              )}
+              {entry.isEncrypted && !entry.isLocked && (
+                <View style={[styles.metaItem, a.mt_sm]}>
+                  <Lock size="xs" fill={t.palette.contrast_500} />
+                  <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                    <Trans>End-to-end encrypted</Trans>
+                  </Text>
+                </View>
+              )}
             </View>
-          )}
 
-          {/* Location */}
-          {entry.location && (
-            <View style={[styles.section, {backgroundColor: t.palette.white}]}>
-              <Text style={[a.text_md, a.font_semi_bold, a.mb_sm]}>
-                <Trans>Location</Trans>
-              </Text>
-              <View style={styles.locationContainer}>
-                <Location size="sm" fill={t.palette.contrast_600} />
+            {/* Incident Date */}
+            {isBackdated && incidentDate && (
+              <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+                <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                  <Trans>Incident Date</Trans>
+                </Text>
                 <Text style={[a.text_md, {color: t.palette.contrast_700}]}>
-                  {entry.location.address || 
-                   `${entry.location.latitude.toFixed(6)}, ${entry.location.longitude.toFixed(6)}`}
+                  {formatDate(incidentDate.toISOString())}
                 </Text>
               </View>
-              {entry.location.accuracy && (
-                <Text style={[a.text_sm, {color: t.palette.contrast_500}, a.mt_xs]}>
-                  Accuracy: {entry.location.accuracy.toFixed(0)}m
-                </Text>
-              )}
-            </View>
-          )}
+            )}
 
-          {/* Symptoms */}
-          {entry.symptoms && entry.symptoms.length > 0 && (
-            <View style={[styles.section, {backgroundColor: t.palette.white}]}>
-              <Text style={[a.text_md, a.font_semi_bold, a.mb_sm]}>
-                <Trans>Symptoms</Trans>
-              </Text>
-              {entry.symptoms.map((symptom, index) => (
-                <View key={index} style={styles.symptomItem}>
+            {/* Location */}
+            {entry.location && (
+              <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+                <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                  <Trans>Location</Trans>
+                </Text>
+                <View style={styles.locationContainer}>
+                  <Location size="sm" fill={t.palette.contrast_600} />
                   <Text style={[a.text_md, {color: t.palette.contrast_700}]}>
-                    {symptom.category}
-                  </Text>
-                  <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
-                    Severity: {symptom.severity}/10
+                    {entry.location.address || 
+                     `${entry.location.latitude.toFixed(6)}, ${entry.location.longitude.toFixed(6)}`}
                   </Text>
                 </View>
-              ))}
-            </View>
-          )}
+                {entry.location.accuracy && (
+                  <Text style={[a.text_sm, {color: t.palette.contrast_500}, a.mt_xs]}>
+                    Accuracy: {entry.location.accuracy.toFixed(0)}m
+                  </Text>
+                )}
+              </View>
+            )}
+
+            {/* Symptoms */}
+            {entry.symptoms && entry.symptoms.length > 0 && (
+              <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+                <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                  <Trans>Symptoms</Trans>
+                </Text>
+                {entry.symptoms.map((symptom, index) => (
+                  <View key={index} style={styles.symptomItem}>
+                    <Text style={[a.text_md, {color: t.palette.contrast_700}]}>
+                      {symptom.category}
+                    </Text>
+                    <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+                      Severity: {symptom.severity}/10
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </JournalTriggerWarningHider>
 
           {/* Privacy & Visibility */}
           <View style={[styles.section, {backgroundColor: t.palette.white}]}>
-            <Text style={[a.text_md, a.font_semi_bold, a.mb_sm]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
               <Trans>Privacy & Visibility</Trans>
             </Text>
             {isEditing ? (
@@ -571,14 +651,13 @@ export function JournalEntryDetail({entryUri}: Props) {
                 <View style={styles.visibilityItem}>
                   {visibilityIcon}
                   <Text style={[a.text_md, {color: t.palette.contrast_700}]}>
-                    {entry.visibility.charAt(0).toUpperCase() + entry.visibility.slice(1)}
+                    {visibility.charAt(0).toUpperCase() + visibility.slice(1)}
                   </Text>
                 </View>
                 <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
-                  {entry.visibility === 'private' && _(msg`Only you can see this entry`)}
-                  {entry.visibility === 'contacts' && _(msg`Visible to people you follow`)}
-                  {entry.visibility === 'community' && _(msg`Visible to badge community`)}
-                  {entry.visibility === 'public' && _(msg`Visible to everyone`)}
+                  {visibility === 'private' && _(msg`Only you can see this entry`)}
+                  {visibility === 'community' && _(msg`Visible to badge community`)}
+                  {visibility === 'public' && _(msg`Visible to everyone`)}
                 </Text>
               </View>
             )}
@@ -586,7 +665,7 @@ export function JournalEntryDetail({entryUri}: Props) {
           
           {/* Tags */}
           <View style={[styles.section, {backgroundColor: t.palette.white}]}>
-            <Text style={[a.text_md, a.font_semi_bold, a.mb_sm]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
               <Trans>Tags</Trans>
             </Text>
             {isEditing ? (
@@ -628,22 +707,35 @@ export function JournalEntryDetail({entryUri}: Props) {
           {/* Sources */}
           {entry.sourceIds && entry.sourceIds.length > 0 && (
             <View style={[styles.section, {backgroundColor: t.palette.white}]}>
-              <Text style={[a.text_md, a.font_semi_bold, a.mb_sm]}>
-                <Trans>Sources & Citations</Trans>
-              </Text>
+              <View style={[a.flex_row, a.align_center, a.justify_between, a.mb_sm]}>
+                <Text style={[a.text_md, a.font_bold]}>
+                  <Trans>Sources & Citations</Trans>
+                </Text>
+                <Button
+                  variant="ghost"
+                  color="primary"
+                  size="small"
+                  disabled={citeSourcesMutation.isPending}
+                  onPress={() => citeSourcesMutation.mutate(entry.sourceIds ?? [])}
+                  label={_(msg`Export citations for this entry's sources`)}>
+                  <ButtonText>
+                    <Trans>Cite</Trans>
+                  </ButtonText>
+                </Button>
+              </View>
               <SourceDisplay sourceIds={entry.sourceIds} />
             </View>
           )}
           
           {/* Entry History */}
           <View style={[styles.section, {backgroundColor: t.palette.white}]}>
-            <Text style={[a.text_md, a.font_semi_bold, a.mb_sm]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
               <Trans>Entry History</Trans>
             </Text>
             <View style={styles.historyItem}>
               <View style={[styles.historyDot, {backgroundColor: t.palette.positive_600}]} />
               <View style={styles.historyContent}>
-                <Text style={[a.text_sm, a.font_semi_bold, {color: t.palette.contrast_700}]}>
+                <Text style={[a.text_sm, a.font_bold, {color: t.palette.contrast_700}]}>
                   <Trans>Created</Trans>
                 </Text>
                 <Text style={[a.text_xs, {color: t.palette.contrast_600}]}>
@@ -655,7 +747,7 @@ export function JournalEntryDetail({entryUri}: Props) {
               <View style={styles.historyItem}>
                 <View style={[styles.historyDot, {backgroundColor: t.palette.primary_600}]} />
                 <View style={styles.historyContent}>
-                  <Text style={[a.text_sm, a.font_semi_bold, {color: t.palette.contrast_700}]}>
+                  <Text style={[a.text_sm, a.font_bold, {color: t.palette.contrast_700}]}>
                     <Trans>Last Updated</Trans>
                   </Text>
                   <Text style={[a.text_xs, {color: t.palette.contrast_600}]}>
@@ -664,9 +756,160 @@ export function JournalEntryDetail({entryUri}: Props) {
                 </View>
               </View>
             )}
+            <JournalRevisionHistory entry={entry} />
           </View>
+
+          {/* Comments */}
+          {currentAccount && (
+            <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+              <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                <Trans>Comments</Trans>
+              </Text>
+              <JournalComments
+                entry={{
+                  uri: entry.uri,
+                  cid: entry.cid,
+                  privacyLevel: entry.privacyLevel,
+                  author: {did: entry.author.did},
+                  allowComments: entry.allowComments,
+                }}
+              />
+            </View>
+          )}
+
+          {/* Witnesses */}
+          {currentAccount && (
+            <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+              <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                <Trans>Witnesses</Trans>
+              </Text>
+              <JournalWitnesses
+                entry={{
+                  uri: entry.uri,
+                  cid: entry.cid,
+                  privacyLevel: entry.privacyLevel,
+                  author: {did: entry.author.did},
+                }}
+              />
+            </View>
+          )}
+
+          {isAuthor && (
+            <>
+              {/* Access */}
+              <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+                <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                  <Trans>Access</Trans>
+                </Text>
+                <Text style={[a.text_sm, a.mb_md, {color: t.palette.contrast_600}]}>
+                  <Trans>Give specific people access to this entry, or take it away.</Trans>
+                </Text>
+                <Button
+                  variant="outline"
+                  color="primary"
+                  size="small"
+                  onPress={() => {
+                    // @ts-ignore - navigation is untyped here
+                    navigation.navigate('JournalEntryAccess', {uri: entry.uri})
+                  }}
+                  label={_(msg`Manage who has access`)}>
+                  <ButtonIcon icon={PersonGroup} />
+                  <ButtonText>
+                    <Trans>Manage access</Trans>
+                  </ButtonText>
+                </Button>
+              </View>
+
+              {/* Access Log */}
+              <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+                <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                  <Trans>Access Log</Trans>
+                </Text>
+                <Text style={[a.text_sm, a.mb_md, {color: t.palette.contrast_600}]}>
+                  <Trans>Record every time someone else views this entry: who it was, when, and how they found it.</Trans>
+                </Text>
+                <View style={styles.flagActions}>
+                  <Button
+                    variant={entry.accessLogRequired ? 'solid' : 'outline'}
+                    color="primary"
+                    size="small"
+                    onPress={() => updateFlagsMutation.mutate({accessLogRequired: !entry.accessLogRequired})}
+                    disabled={updateFlagsMutation.isPending}
+                    label={entry.accessLogRequired ? _(msg`Stop logging views`) : _(msg`Log views`)}>
+                    <ButtonIcon icon={Eye} />
+                    <ButtonText>
+                      {entry.accessLogRequired ? <Trans>Logging views</Trans> : <Trans>Log views</Trans>}
+                    </ButtonText>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    color="primary"
+                    size="small"
+                    onPress={() => {
+                      // @ts-ignore - navigation is untyped here
+                      navigation.navigate('JournalAccessLog', {uri: entry.uri})
+                    }}
+                    label={_(msg`See who viewed this entry`)}>
+                    <ButtonIcon icon={Document} />
+                    <ButtonText>
+                      <Trans>View log</Trans>
+                    </ButtonText>
+                  </Button>
+                </View>
+              </View>
+
+              {/* Retention */}
+              <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+                <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                  <Trans>Retention</Trans>
+                </Text>
+                <Text style={[a.text_sm, a.mb_md, {color: t.palette.contrast_600}]}>
+                  <Trans>Pinned entries and entries on legal hold are never removed by your data retention settings.</Trans>
+                </Text>
+                <View style={styles.flagActions}>
+                  <Button
+                    variant={entry.pinned ? 'solid' : 'outline'}
+                    color="primary"
+                    size="small"
+                    onPress={() => updateFlagsMutation.mutate({pinned: !entry.pinned})}
+                    disabled={updateFlagsMutation.isPending}
+                    label={entry.pinned ? _(msg`Unpin entry`) : _(msg`Pin entry`)}>
+                    <ButtonIcon icon={PinIcon} />
+                    <ButtonText>
+                      {entry.pinned ? <Trans>Pinned</Trans> : <Trans>Pin</Trans>}
+                    </ButtonText>
+                  </Button>
+                  <Button
+                    variant={entry.legalHold ? 'solid' : 'outline'}
+                    color="primary"
+                    size="small"
+                    onPress={() => updateFlagsMutation.mutate({legalHold: !entry.legalHold})}
+                    disabled={updateFlagsMutation.isPending}
+                    label={entry.legalHold ? _(msg`Release legal hold`) : _(msg`Place on legal hold`)}>
+                    <ButtonIcon icon={Shield} />
+                    <ButtonText>
+                      {entry.legalHold ? <Trans>On legal hold</Trans> : <Trans>Legal hold</Trans>}
+                    </ButtonText>
+                  </Button>
+                </View>
+              </View>
+
+              {/* Integrity */}
+              <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+                <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+                  <Trans>Integrity</Trans>
+                </Text>
+                <JournalIntegrityCheck entryUri={entry.uri} />
+              </View>
+            </>
+          )}
         </View>
       </ScrollView>
+
+      <SourceCitationExportDialog
+        control={citationDialogControl}
+        items={citationItems}
+      />
     </View>
   )
 }
@@ -697,6 +940,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  flagActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
   actionButton: {
     minWidth: 40,
   },
@@ -719,6 +967,9 @@ const styles = StyleSheet.create({
     padding: 16,
     gap: 16,
   },
+  warningHider: {
+    gap: 16,
+  },
   section: {
     padding: 16,
     borderRadius: 12,
@@ -785,13 +1036,6 @@ const styles = StyleSheet.create({
     padding: 12,
     gap: 12,
   },
-  evidenceIcon: {
-    width: 40,
-    height: 40,
-    borderRadius: 8,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
   evidenceInfo: {
     flex: 1,
     gap: 2,
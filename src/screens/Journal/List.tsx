@@ -1,7 +1,8 @@
-import {useState, useCallback} from 'react'
+import {useState, useCallback, useMemo} from 'react'
 import {
   View,
   FlatList,
+  ScrollView,
   StyleSheet,
   RefreshControl,
   TextInput,
@@ -11,9 +12,7 @@ import {
 import {useSafeAreaInsets} from 'react-native-safe-area-context'
 import {msg, Trans} from '@lingui/macro'
 import {useLingui} from '@lingui/react'
-import {useQuery} from '@tanstack/react-query'
 
-import {useAgent, useSession} from '#/state/session'
 import {atoms as a, useTheme} from '#/alf'
 import {Button, ButtonText, ButtonIcon} from '#/components/Button'
 import {Text} from '#/components/Typography'
@@ -21,34 +20,15 @@ import {PlusLarge_Stroke2_Corner0_Rounded as Plus} from '#/components/icons/Plus
 import {MagnifyingGlass_Filled_Corner0_Rounded as Search} from '#/components/icons/MagnifyingGlass'
 import {Lock_Stroke2_Corner0_Rounded as Lock} from '#/components/icons/Lock'
 import {Globe_Stroke2_Corner0_Rounded as Globe} from '#/components/icons/Globe'
-import {Group3_Stroke2_Corner0_Rounded as PersonGroup} from '#/components/icons/Group'
 import {Shield_Stroke2_Corner0_Rounded as Shield} from '#/components/icons/Shield'
 import {Clock_Stroke2_Corner0_Rounded as Clock} from '#/components/icons/Clock'
+import {getJournalCaseEntryUris} from '#/lib/journal-cases'
 import {cleanError} from '#/lib/strings/errors'
-import {logger} from '#/logger'
-
-// Types for journal entries
-interface JournalEntry {
-  uri: string
-  cid: string
-  text: string
-  entryType: 'real_time' | 'backdated'
-  incidentTimestamp?: string
-  location?: {
-    latitude: number
-    longitude: number
-    accuracy?: number
-    address?: string
-  }
-  symptoms?: Array<{
-    category: string
-    severity: number
-  }>
-  tags?: string[]
-  isPrivate: boolean
-  visibility: 'private' | 'contacts' | 'community' | 'public'
-  createdAt: string
-}
+import {type JournalEntry, useJournalEntries} from '#/state/queries/journal'
+import {useJournalCasesQuery} from '#/state/queries/journal-cases'
+import {JournalSyncStatus} from '#/components/JournalSyncStatus'
+import {JournalTriggerWarningHider} from '#/components/moderation/JournalTriggerWarningHider'
+import {useJournalTriggerWarningFilter} from '#/state/queries/journal-trigger-warnings'
 
 interface Props {
   onCreateEntry: () => void
@@ -59,52 +39,39 @@ interface Props {
 export function JournalList({onCreateEntry, onEntryPress, hideHeader = false}: Props) {
   const {_} = useLingui()
   const t = useTheme()
-  const agent = useAgent()
-  const {currentAccount} = useSession()
   const _insets = useSafeAreaInsets()
   
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'real_time' | 'backdated'>('all')
+  const [selectedCaseUri, setSelectedCaseUri] = useState<string>()
 
-  // Fetch journal entries
   const {
     data: journalEntries = [],
     isLoading,
     isFetching,
     refetch,
     error,
-  } = useQuery({
-    queryKey: ['journal-entries', currentAccount?.did],
-    queryFn: async () => {
-      if (!currentAccount) return []
-      
-      try {
-        // Query journal entries from AT Protocol
-        const response = await agent.com.atproto.repo.listRecords({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
-          limit: 100,
-        })
+  } = useJournalEntries()
+  const filterTriggerWarnings = useJournalTriggerWarningFilter()
+  const {data: cases = []} = useJournalCasesQuery()
+  const openCases = cases.filter(journalCase => !journalCase.isLocked)
+  const caseEntryUris = useMemo(() => {
+    const journalCase = cases.find(item => item.uri === selectedCaseUri)
+    return journalCase && getJournalCaseEntryUris(journalCase)
+  }, [cases, selectedCaseUri])
 
-        return response.data.records.map((record: any) => ({
-          uri: record.uri,
-          cid: record.cid,
-          ...record.value,
-        })) as JournalEntry[]
-      } catch (err) {
-        logger.error('Failed to fetch journal entries', {message: String(err)})
-        throw err
-      }
-    },
-    enabled: !!currentAccount,
-  })
-
-  // Filter and search entries
-  const filteredEntries = journalEntries.filter((entry) => {
+  // Filter and search entries, leaving out any the user's content warning
+  // settings hide
+  const filteredEntries = filterTriggerWarnings(journalEntries).filter((entry) => {
     // Filter by type
     if (selectedFilter !== 'all' && entry.entryType !== selectedFilter) {
       return false
     }
+
+    // Filter by case
+    if (caseEntryUris && !caseEntryUris.has(entry.uri)) {
+      return false
+    }
     
     // Search in text content
     if (searchQuery.trim()) {
@@ -136,12 +103,11 @@ export function JournalList({onCreateEntry, onEntryPress, hideHeader = false}: P
     }
 
     const getVisibilityIcon = () => {
-      switch (entry.visibility) {
+      switch (entry.privacyLevel) {
         case 'private':
-          return <Lock size="xs" fill={t.palette.contrast_600} />
         case 'contacts':
-          return <PersonGroup size="xs" fill={t.palette.primary_600} />
-        case 'community':
+          return <Lock size="xs" fill={t.palette.contrast_600} />
+        case 'badge_community':
           return <Shield size="xs" fill={t.palette.secondary_600} />
         case 'public':
           return <Globe size="xs" fill={t.palette.positive_600} />
@@ -151,12 +117,11 @@ export function JournalList({onCreateEntry, onEntryPress, hideHeader = false}: P
     }
     
     const getVisibilityColor = () => {
-      switch (entry.visibility) {
+      switch (entry.privacyLevel) {
         case 'private':
-          return t.palette.contrast_600
         case 'contacts':
-          return t.palette.primary_600
-        case 'community':
+          return t.palette.contrast_600
+        case 'badge_community':
           return t.palette.secondary_600
         case 'public':
           return t.palette.positive_600
@@ -185,10 +150,10 @@ export function JournalList({onCreateEntry, onEntryPress, hideHeader = false}: P
             <View style={styles.visibilityIndicator}>
               {getVisibilityIcon()}
               <Text style={[a.text_xs, {color: getVisibilityColor()}]}>
-                {entry.visibility === 'private' && <Trans>Private</Trans>}
-                {entry.visibility === 'contacts' && <Trans>Contacts</Trans>}
-                {entry.visibility === 'community' && <Trans>Community</Trans>}
-                {entry.visibility === 'public' && <Trans>Public</Trans>}
+                {(entry.privacyLevel === 'private' ||
+                  entry.privacyLevel === 'contacts') && <Trans>Private</Trans>}
+                {entry.privacyLevel === 'badge_community' && <Trans>Community</Trans>}
+                {entry.privacyLevel === 'public' && <Trans>Public</Trans>}
               </Text>
             </View>
           </View>
@@ -197,39 +162,50 @@ export function JournalList({onCreateEntry, onEntryPress, hideHeader = false}: P
           </Text>
         </View>
 
-        <Text style={[a.text_md, a.leading_normal]} numberOfLines={3}>
-          {entry.text}
-        </Text>
+        <JournalTriggerWarningHider warnings={entry.triggerWarnings}>
+          {entry.isLocked ? (
+            <View style={styles.lockedText}>
+              <Lock size="sm" fill={t.palette.contrast_500} />
+              <Text style={[a.text_md, a.italic, {color: t.palette.contrast_600}]}>
+                <Trans>Encrypted entry — unlock your journal to read it</Trans>
+              </Text>
+            </View>
+          ) : (
+            <Text style={[a.text_md, a.leading_normal]} numberOfLines={3}>
+              {entry.text}
+            </Text>
+          )}
 
-        {entry.location && (
-          <Text style={[a.text_xs, {color: t.palette.contrast_600}, a.mt_sm]}>
-            📍 {entry.location.address || 
-                 `${entry.location.latitude.toFixed(4)}, ${entry.location.longitude.toFixed(4)}`}
-          </Text>
-        )}
+          {entry.location && (
+            <Text style={[a.text_xs, {color: t.palette.contrast_600}, a.mt_sm]}>
+              📍 {entry.location.address || 
+                   `${entry.location.latitude.toFixed(4)}, ${entry.location.longitude.toFixed(4)}`}
+            </Text>
+          )}
 
-        {entry.symptoms && entry.symptoms.length > 0 && (
-          <Text style={[a.text_xs, {color: t.palette.contrast_600}, a.mt_sm]}>
-            🩺 {entry.symptoms.length} symptoms recorded
-          </Text>
-        )}
+          {entry.symptoms && entry.symptoms.length > 0 && (
+            <Text style={[a.text_xs, {color: t.palette.contrast_600}, a.mt_sm]}>
+              🩺 {entry.symptoms.length} symptoms recorded
+            </Text>
+          )}
 
-        {entry.tags && entry.tags.length > 0 && (
-          <View style={[styles.tagsContainer, a.mt_sm]}>
-            {entry.tags.slice(0, 3).map((tag, index) => (
-              <View key={index} style={[styles.tag, {backgroundColor: t.palette.contrast_100}]}>
-                <Text style={[a.text_xs, {color: t.palette.contrast_700}]}>
-                  #{tag}
+          {entry.tags && entry.tags.length > 0 && (
+            <View style={[styles.tagsContainer, a.mt_sm]}>
+              {entry.tags.slice(0, 3).map((tag, index) => (
+                <View key={index} style={[styles.tag, {backgroundColor: t.palette.contrast_100}]}>
+                  <Text style={[a.text_xs, {color: t.palette.contrast_700}]}>
+                    #{tag}
+                  </Text>
+                </View>
+              ))}
+              {entry.tags.length > 3 && (
+                <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                  +{entry.tags.length - 3} more
                 </Text>
-              </View>
-            ))}
-            {entry.tags.length > 3 && (
-              <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
-                +{entry.tags.length - 3} more
-              </Text>
-            )}
-          </View>
-        )}
+              )}
+            </View>
+          )}
+        </JournalTriggerWarningHider>
 
         {incidentDate && incidentDate.getTime() !== entryDate.getTime() && (
           <Text style={[a.text_xs, {color: t.palette.contrast_500}, a.mt_sm]}>
@@ -241,7 +217,7 @@ export function JournalList({onCreateEntry, onEntryPress, hideHeader = false}: P
   }, [t, _, onEntryPress])
 
   const renderEmptyState = () => {
-    if (searchQuery.trim() || selectedFilter !== 'all') {
+    if (searchQuery.trim() || selectedFilter !== 'all' || caseEntryUris) {
       return (
         <View style={styles.emptyState}>
           <Text style={[a.text_lg, a.font_bold, a.text_center, a.mb_md]}>
@@ -257,6 +233,7 @@ export function JournalList({onCreateEntry, onEntryPress, hideHeader = false}: P
             onPress={() => {
               setSearchQuery('')
               setSelectedFilter('all')
+              setSelectedCaseUri(undefined)
             }}
             label={_(msg`Clear Filters`)}>
             <ButtonText>
@@ -357,9 +334,41 @@ export function JournalList({onCreateEntry, onEntryPress, hideHeader = false}: P
               </ButtonText>
             </Button>
           </View>
+
+          {/* Case filter */}
+          {openCases.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={[styles.filtersContainer, a.mt_sm]}>
+              <Button
+                variant={!selectedCaseUri ? 'solid' : 'outline'}
+                color="secondary"
+                size="small"
+                onPress={() => setSelectedCaseUri(undefined)}
+                label={_(msg`All cases`)}>
+                <ButtonText>
+                  <Trans>All cases</Trans>
+                </ButtonText>
+              </Button>
+              {openCases.map(journalCase => (
+                <Button
+                  key={journalCase.uri}
+                  variant={selectedCaseUri === journalCase.uri ? 'solid' : 'outline'}
+                  color="secondary"
+                  size="small"
+                  onPress={() => setSelectedCaseUri(journalCase.uri)}
+                  label={_(msg`Show entries in ${journalCase.title}`)}>
+                  <ButtonText>{journalCase.title}</ButtonText>
+                </Button>
+              ))}
+            </ScrollView>
+          )}
         </View>
       )}
 
+      <JournalSyncStatus />
+
       {/* Loading State */}
       {isLoading && (
         <View style={styles.loadingContainer}>
@@ -481,6 +490,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 4,
   },
+  lockedText: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
   tagsContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -6,11 +6,9 @@ import {
   Dimensions,
 } from 'react-native'
 import {useSafeAreaInsets} from 'react-native-safe-area-context'
-import {msg, Trans} from '@lingui/macro'
+import {msg, plural, Trans} from '@lingui/macro'
 import {useLingui} from '@lingui/react'
-import {useQuery} from '@tanstack/react-query'
 
-import {useAgent, useSession} from '#/state/session'
 import {atoms as a, useTheme} from '#/alf'
 import {Button, ButtonText, ButtonIcon} from '#/components/Button'
 import {Text} from '#/components/Typography'
@@ -19,33 +17,17 @@ import {Calendar_Stroke2_Corner0_Rounded as Calendar} from '#/components/icons/C
 import {Eye_Stroke2_Corner0_Rounded as Eye} from '#/components/icons/Eye'
 import {Clock_Stroke2_Corner0_Rounded as Clock} from '#/components/icons/Clock'
 import {Group3_Stroke2_Corner0_Rounded as Community} from '#/components/icons/Group'
+import {Lock_Stroke2_Corner0_Rounded as Lock} from '#/components/icons/Lock'
+import {ArrowOutOfBox_Stroke2_Corner0_Rounded as Share} from '#/components/icons/ArrowOutOfBox'
+import {Warning_Stroke2_Corner0_Rounded as Warning} from '#/components/icons/Warning'
+import {Clipboard_Stroke2_Corner2_Rounded as Cases} from '#/components/icons/Clipboard'
+import {useJournalEntries} from '#/state/queries/journal'
+import {useJournalRetentionPlan} from '#/state/queries/journal-retention'
 import {JournalList} from './List'
 import {useNavigation} from '@react-navigation/native'
 
 type TabType = 'personal' | 'dashboard' | 'community' | 'contacts'
 
-interface JournalEntry {
-  uri: string
-  cid: string
-  text: string
-  entryType: 'real_time' | 'backdated'
-  incidentTimestamp?: string
-  location?: {
-    latitude: number
-    longitude: number
-    accuracy?: number
-    address?: string
-  }
-  symptoms?: Array<{
-    category: string
-    severity: number
-  }>
-  tags?: string[]
-  visibility: 'private' | 'contacts' | 'community' | 'public'
-  createdAt: string
-  updatedAt?: string
-}
-
 interface Props {
   onCreateEntry: () => void
   onEntryPress?: (entryUri: string) => void
@@ -55,8 +37,6 @@ export function JournalManager({onCreateEntry, onEntryPress}: Props) {
   const {_} = useLingui()
   const t = useTheme()
   const navigation = useNavigation()
-  const agent = useAgent()
-  const {currentAccount} = useSession()
   const insets = useSafeAreaInsets()
   
   const [activeTab, setActiveTab] = useState<TabType>('dashboard')
@@ -66,38 +46,17 @@ export function JournalManager({onCreateEntry, onEntryPress}: Props) {
   const {
     data: journalEntries = [],
     isLoading: isLoadingStats,
-  } = useQuery({
-    queryKey: ['journal-entries', currentAccount?.did],
-    queryFn: async () => {
-      if (!currentAccount) return []
-      
-      try {
-        const response = await agent.com.atproto.repo.listRecords({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
-          limit: 100,
-        })
-
-        return response.data.records.map((record: any) => ({
-          uri: record.uri,
-          cid: record.cid,
-          ...record.value,
-        })) as JournalEntry[]
-      } catch (err) {
-        return []
-      }
-    },
-    enabled: !!currentAccount,
-  })
+  } = useJournalEntries()
+  const {plan: retentionPlan} = useJournalRetentionPlan()
   
   // Calculate statistics
   const statistics = useMemo(() => {
     const totalEntries = journalEntries.length
     const realTimeEntries = journalEntries.filter(e => e.entryType === 'real_time').length
     const backdatedEntries = journalEntries.filter(e => e.entryType === 'backdated').length
-    const privateEntries = journalEntries.filter(e => e.visibility === 'private').length
-    const communityEntries = journalEntries.filter(e => e.visibility === 'community').length
-    const publicEntries = journalEntries.filter(e => e.visibility === 'public').length
+    const privateEntries = journalEntries.filter(e => e.privacyLevel === 'private').length
+    const communityEntries = journalEntries.filter(e => e.privacyLevel === 'badge_community').length
+    const publicEntries = journalEntries.filter(e => e.privacyLevel === 'public').length
     
     // Recent activity (last 7 days)
     const sevenDaysAgo = new Date()
@@ -134,6 +93,36 @@ export function JournalManager({onCreateEntry, onEntryPress}: Props) {
     navigation.navigate('JournalAnalytics')
   }, [navigation])
 
+  const handleEncryption = useCallback(() => {
+    // @ts-ignore - navigation is untyped here, see handleAnalytics
+    navigation.navigate('JournalEncryption')
+  }, [navigation])
+
+  const handleRetention = useCallback(() => {
+    // @ts-ignore - navigation is untyped here, see handleAnalytics
+    navigation.navigate('JournalRetention')
+  }, [navigation])
+
+  const handleTimeline = useCallback(() => {
+    // @ts-ignore - navigation is untyped here, see handleAnalytics
+    navigation.navigate('JournalTimeline')
+  }, [navigation])
+
+  const handleSharePackets = useCallback(() => {
+    // @ts-ignore - navigation is untyped here, see handleAnalytics
+    navigation.navigate('JournalSharePackets')
+  }, [navigation])
+
+  const handleTriggerWarnings = useCallback(() => {
+    // @ts-ignore - navigation is untyped here, see handleAnalytics
+    navigation.navigate('JournalTriggerWarnings')
+  }, [navigation])
+
+  const handleCases = useCallback(() => {
+    // @ts-ignore - navigation is untyped here, see handleAnalytics
+    navigation.navigate('JournalCases')
+  }, [navigation])
+
   const renderTabButton = useCallback((tab: TabType, label: string, icon?: React.ReactNode) => {
     const isActive = activeTab === tab
     return (
@@ -177,6 +166,25 @@ export function JournalManager({onCreateEntry, onEntryPress}: Props) {
         showsVerticalScrollIndicator={false}
         contentContainerStyle={styles.dashboardContent}>
         
+        {/* Retention */}
+        {retentionPlan && retentionPlan.expired.length > 0 && (
+          <View style={[styles.retentionBanner, {backgroundColor: t.palette.primary_50}]}>
+            <Text style={[a.text_sm, a.flex_1, {color: t.palette.primary_700}]}>
+              {_(msg`${plural(retentionPlan.expired.length, {one: '# entry is', other: '# entries are'})} past your retention period.`)}
+            </Text>
+            <Button
+              variant="solid"
+              color="primary"
+              size="small"
+              onPress={handleRetention}
+              label={_(msg`Review expired entries`)}>
+              <ButtonText>
+                <Trans>Review</Trans>
+              </ButtonText>
+            </Button>
+          </View>
+        )}
+
         {/* Quick Stats Grid */}
         <View style={styles.statsGrid}>
           {renderStatCard(
@@ -316,10 +324,20 @@ export function JournalManager({onCreateEntry, onEntryPress}: Props) {
               <ButtonText><Trans>Analytics</Trans></ButtonText>
             </Button>
           </View>
+          <Button
+            variant="outline"
+            color="secondary"
+            size="large"
+            onPress={handleRetention}
+            label={_(msg`Data retention`)}
+            style={a.mt_md}>
+            <ButtonIcon icon={Clock} />
+            <ButtonText><Trans>Data retention</Trans></ButtonText>
+          </Button>
         </View>
       </ScrollView>
     )
-  }, [statistics, t, _, onCreateEntry, handleAnalytics, renderStatCard])
+  }, [statistics, retentionPlan, t, _, onCreateEntry, handleAnalytics, handleRetention, renderStatCard])
 
   const renderTabContent = useCallback(() => {
     switch (activeTab) {
@@ -419,6 +437,46 @@ export function JournalManager({onCreateEntry, onEntryPress}: Props) {
               label={_(msg`Analytics`)}>
               <ButtonIcon icon={Analytics} />
             </Button>
+            <Button
+              variant="outline"
+              color="primary"
+              size="small"
+              onPress={handleTimeline}
+              label={_(msg`Incident timeline`)}>
+              <ButtonIcon icon={Calendar} />
+            </Button>
+            <Button
+              variant="outline"
+              color="primary"
+              size="small"
+              onPress={handleEncryption}
+              label={_(msg`Encryption`)}>
+              <ButtonIcon icon={Lock} />
+            </Button>
+            <Button
+              variant="outline"
+              color="primary"
+              size="small"
+              onPress={handleSharePackets}
+              label={_(msg`Share packets`)}>
+              <ButtonIcon icon={Share} />
+            </Button>
+            <Button
+              variant="outline"
+              color="primary"
+              size="small"
+              onPress={handleTriggerWarnings}
+              label={_(msg`Content warnings`)}>
+              <ButtonIcon icon={Warning} />
+            </Button>
+            <Button
+              variant="outline"
+              color="primary"
+              size="small"
+              onPress={handleCases}
+              label={_(msg`Cases`)}>
+              <ButtonIcon icon={Cases} />
+            </Button>
             <Button
               variant="solid"
               color="primary"
@@ -517,6 +575,14 @@ const styles = StyleSheet.create({
     padding: 16,
     paddingBottom: 32,
   },
+  retentionBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
   statsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -0,0 +1,410 @@
+import {useCallback} from 'react'
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  View,
+} from 'react-native'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {JournalKeyUnavailableError} from '#/lib/journal-encryption'
+import {type JournalRetentionAction} from '#/lib/journal-retention'
+import {cleanError} from '#/lib/strings/errors'
+import {
+  useJournalPrivacySettings,
+  useUpdatePrivacySettings,
+} from '#/state/queries/journal/privacy'
+import {
+  useApplyJournalRetention,
+  useJournalArchive,
+  useJournalRetentionLog,
+  useJournalRetentionPlan,
+} from '#/state/queries/journal-retention'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonText} from '#/components/Button'
+import {Text} from '#/components/Typography'
+
+// How many expired entries the preview lists before summarising the rest
+const PREVIEW_LIMIT = 10
+
+export function JournalRetentionScreen() {
+  const {_, i18n} = useLingui()
+  const t = useTheme()
+
+  const {data: settings, isLoading: isLoadingSettings} =
+    useJournalPrivacySettings()
+  const updateSettings = useUpdatePrivacySettings()
+  const {plan, retentionDays, action, isLoading} = useJournalRetentionPlan()
+  const applyRetention = useApplyJournalRetention()
+  const {data: log} = useJournalRetentionLog()
+  const archive = useJournalArchive()
+
+  const periods: Array<{days?: number; label: string}> = [
+    {days: 30, label: _(msg`30 days`)},
+    {days: 90, label: _(msg`90 days`)},
+    {days: 365, label: _(msg`1 year`)},
+    {days: 365 * 3, label: _(msg`3 years`)},
+    {days: 365 * 7, label: _(msg`7 years`)},
+    {days: undefined, label: _(msg`Forever`)},
+  ]
+
+  const actions: Array<{
+    value: JournalRetentionAction
+    label: string
+    description: string
+  }> = [
+    {
+      value: 'delete',
+      label: _(msg`Delete`),
+      description: _(
+        msg`Expired entries and their evidence files are permanently deleted.`,
+      ),
+    },
+    {
+      value: 'archive',
+      label: _(msg`Archive on this device`),
+      description: _(
+        msg`Expired entries are removed from your server and kept in an encrypted archive on this device. Evidence files are not archived.`,
+      ),
+    },
+  ]
+
+  const updateRetention = useCallback(
+    (updates: {
+      dataRetentionDays?: number
+      dataRetentionAction?: JournalRetentionAction
+    }) => {
+      updateSettings.mutate(updates, {
+        onError: e => Toast.show(cleanError(e), 'xmark'),
+      })
+    },
+    [updateSettings],
+  )
+
+  const handleApply = useCallback(() => {
+    if (!plan || !retentionDays) return
+    const count = plan.expired.length
+    Alert.alert(
+      action === 'archive'
+        ? _(msg`Archive Expired Entries`)
+        : _(msg`Delete Expired Entries`),
+      action === 'archive'
+        ? _(
+            msg`${plural(count, {one: '# entry', other: '# entries'})} will be removed from your server and archived on this device.`,
+          )
+        : _(
+            msg`${plural(count, {one: '# entry', other: '# entries'})} will be permanently deleted. This cannot be undone.`,
+          ),
+      [
+        {text: _(msg`Cancel`), style: 'cancel'},
+        {
+          text: action === 'archive' ? _(msg`Archive`) : _(msg`Delete`),
+          style: 'destructive',
+          onPress: () =>
+            applyRetention.mutate(
+              {plan, retentionDays, action},
+              {
+                onSuccess: run => {
+                  if (run.failed.length) {
+                    Toast.show(
+                      _(
+                        msg`${plural(run.failed.length, {one: '# entry', other: '# entries'})} could not be removed. Try again later.`,
+                      ),
+                      'xmark',
+                    )
+                  } else {
+                    Toast.show(
+                      _(
+                        msg`${plural(run.removed.length, {one: '# entry', other: '# entries'})} removed`,
+                      ),
+                    )
+                  }
+                },
+                onError: e => {
+                  if (e instanceof JournalKeyUnavailableError) {
+                    Alert.alert(_(msg`Journal Locked`), e.message)
+                    return
+                  }
+                  Toast.show(cleanError(e), 'xmark')
+                },
+              },
+            ),
+        },
+      ],
+    )
+  }, [plan, retentionDays, action, applyRetention, _])
+
+  const renderOption = (
+    key: string,
+    label: string,
+    isActive: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      disabled={updateSettings.isPending}
+      accessibilityRole="button"
+      accessibilityState={{selected: isActive}}
+      accessibilityLabel={label}
+      accessibilityHint=""
+      style={[
+        styles.option,
+        {
+          backgroundColor: isActive
+            ? t.palette.primary_500
+            : t.palette.contrast_50,
+        },
+      ]}>
+      <Text
+        style={[
+          a.text_sm,
+          {color: isActive ? t.palette.white : t.palette.contrast_700},
+        ]}>
+        {label}
+      </Text>
+    </Pressable>
+  )
+
+  if (isLoading || isLoadingSettings || !settings) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      </View>
+    )
+  }
+
+  return (
+    <View style={[styles.container, {backgroundColor: t.palette.contrast_25}]}>
+      <View style={[styles.header, {backgroundColor: t.palette.white}]}>
+        <Text style={[a.text_xl, a.font_bold]}>
+          <Trans>Data Retention</Trans>
+        </Text>
+        <Text style={[a.text_sm, a.mt_xs, {color: t.palette.contrast_600}]}>
+          <Trans>
+            Choose how long journal entries are kept. Pinned entries and entries
+            on legal hold are never removed.
+          </Trans>
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}>
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_md]}>
+            <Trans>Keep entries for</Trans>
+          </Text>
+          <View style={styles.options}>
+            {periods.map(period =>
+              renderOption(
+                period.label,
+                period.label,
+                period.days === retentionDays,
+                () => updateRetention({dataRetentionDays: period.days}),
+              ),
+            )}
+          </View>
+        </View>
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_md]}>
+            <Trans>When entries expire</Trans>
+          </Text>
+          <View style={styles.options}>
+            {actions.map(option =>
+              renderOption(
+                option.value,
+                option.label,
+                option.value === action,
+                () => updateRetention({dataRetentionAction: option.value}),
+              ),
+            )}
+          </View>
+          <Text style={[a.text_sm, a.mt_md, {color: t.palette.contrast_600}]}>
+            {actions.find(option => option.value === action)?.description}
+          </Text>
+        </View>
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+            <Trans>Preview</Trans>
+          </Text>
+          {!plan ? (
+            <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+              <Trans>Entries are kept until you delete them.</Trans>
+            </Text>
+          ) : plan.expired.length === 0 ? (
+            <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+              <Trans>No entries are past the retention period.</Trans>
+            </Text>
+          ) : (
+            <>
+              <Text
+                style={[a.text_sm, a.mb_sm, {color: t.palette.contrast_600}]}>
+                {action === 'archive'
+                  ? _(
+                      msg`${plural(plan.expired.length, {one: '# entry', other: '# entries'})} written before ${i18n.date(plan.cutoff, {dateStyle: 'medium'})} will be archived.`,
+                    )
+                  : _(
+                      msg`${plural(plan.expired.length, {one: '# entry', other: '# entries'})} written before ${i18n.date(plan.cutoff, {dateStyle: 'medium'})} will be deleted.`,
+                    )}
+              </Text>
+              {plan.expired.slice(0, PREVIEW_LIMIT).map(entry => (
+                <View
+                  key={entry.uri}
+                  style={[
+                    styles.previewItem,
+                    {borderTopColor: t.palette.contrast_100},
+                  ]}>
+                  <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                    {i18n.date(new Date(entry.createdAt), {
+                      dateStyle: 'medium',
+                    })}
+                  </Text>
+                  <Text numberOfLines={1} style={[a.text_sm]}>
+                    {entry.isLocked ? _(msg`Encrypted entry`) : entry.text}
+                  </Text>
+                </View>
+              ))}
+              {plan.expired.length > PREVIEW_LIMIT && (
+                <Text
+                  style={[a.text_sm, a.mt_sm, {color: t.palette.contrast_500}]}>
+                  {_(msg`and ${plan.expired.length - PREVIEW_LIMIT} more`)}
+                </Text>
+              )}
+            </>
+          )}
+          {plan && plan.exempt.length > 0 && (
+            <Text style={[a.text_sm, a.mt_md, {color: t.palette.contrast_600}]}>
+              {_(
+                msg`${plural(plan.exempt.length, {one: '# pinned or held entry', other: '# pinned or held entries'})} will be kept.`,
+              )}
+            </Text>
+          )}
+          {plan && retentionDays !== undefined && (
+            <Button
+              variant="solid"
+              color={action === 'archive' ? 'primary' : 'negative'}
+              size="large"
+              onPress={handleApply}
+              disabled={applyRetention.isPending}
+              label={_(msg`Apply retention now`)}
+              style={a.mt_md}>
+              <ButtonText>
+                <Trans>Apply retention now</Trans>
+              </ButtonText>
+            </Button>
+          )}
+        </View>
+
+        {archive.length > 0 && (
+          <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+              <Trans>Archive</Trans>
+            </Text>
+            <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+              {_(
+                msg`${plural(archive.length, {one: '# entry is', other: '# entries are'})} archived on this device.`,
+              )}
+            </Text>
+          </View>
+        )}
+
+        {log && log.length > 0 && (
+          <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+              <Trans>Recent Runs</Trans>
+            </Text>
+            {log.map(run => (
+              <View
+                key={run.runAt}
+                style={[
+                  styles.previewItem,
+                  {borderTopColor: t.palette.contrast_100},
+                ]}>
+                <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                  {i18n.date(new Date(run.runAt), {
+                    dateStyle: 'medium',
+                    timeStyle: 'short',
+                  })}
+                </Text>
+                <Text style={[a.text_sm]}>
+                  {run.action === 'archive'
+                    ? _(
+                        msg`Archived ${plural(run.removed.length, {one: '# entry', other: '# entries'})}`,
+                      )
+                    : _(
+                        msg`Deleted ${plural(run.removed.length, {one: '# entry', other: '# entries'})}`,
+                      )}
+                  {run.failed.length > 0 &&
+                    ` · ${_(msg`${run.failed.length} failed`)}`}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  header: {
+    paddingTop: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  previewItem: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+  },
+})
@@ -0,0 +1,391 @@
+import {type ReactNode, useCallback, useEffect, useState} from 'react'
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {
+  type JournalSharePacketContent,
+  JournalSharePacketPasscodeError,
+  openSharePacket,
+  type SealedJournalSharePacket,
+} from '#/lib/journal-share'
+import {
+  type CommonNavigatorParams,
+  type NativeStackScreenProps,
+} from '#/lib/routes/types'
+import {logger} from '#/logger'
+import {isWeb} from '#/platform/detection'
+import {useJournalSharePacketQuery} from '#/state/queries/journal-share'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonText} from '#/components/Button'
+import {Text} from '#/components/Typography'
+
+type Props = NativeStackScreenProps<CommonNavigatorParams, 'JournalSharePacket'>
+
+/**
+ * Read-only view of a share packet for someone without an account. The key
+ * is read from the link's fragment, which never leaves the browser.
+ */
+export function JournalSharePacketScreen({route}: Props) {
+  const {did, id} = route.params
+  const t = useTheme()
+  const {data, isLoading, error} = useJournalSharePacketQuery({did, id})
+  const linkKey = isWeb ? window.location.hash.slice(1) : ''
+
+  if (isLoading) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      </View>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <Centered>
+        <MessageText>
+          <Trans>This share packet could not be loaded. Try again later.</Trans>
+        </MessageText>
+      </Centered>
+    )
+  }
+
+  if (data.status === 'unavailable') {
+    return (
+      <Centered>
+        <MessageText>
+          <Trans>
+            This share packet has expired or been revoked. Ask the person who
+            shared it for a new link.
+          </Trans>
+        </MessageText>
+      </Centered>
+    )
+  }
+
+  if (!linkKey) {
+    return (
+      <Centered>
+        <MessageText>
+          {isWeb ? (
+            <Trans>
+              This link is incomplete. Make sure you copied all of it, including
+              the part after the #.
+            </Trans>
+          ) : (
+            <Trans>Open this link in a web browser to view the packet.</Trans>
+          )}
+        </MessageText>
+      </Centered>
+    )
+  }
+
+  return <SharePacketOpener packet={data.packet} linkKey={linkKey} />
+}
+
+function SharePacketOpener({
+  packet,
+  linkKey,
+}: {
+  packet: SealedJournalSharePacket
+  linkKey: string
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const [content, setContent] = useState<JournalSharePacketContent>()
+  const [passcode, setPasscode] = useState('')
+  const [isOpening, setIsOpening] = useState(!packet.hasPasscode)
+  const [openError, setOpenError] = useState<string>()
+
+  const open = useCallback(
+    async (code?: string) => {
+      setIsOpening(true)
+      setOpenError(undefined)
+      try {
+        setContent(await openSharePacket(packet, linkKey, code))
+      } catch (e) {
+        if (e instanceof JournalSharePacketPasscodeError) {
+          setOpenError(_(msg`That passcode is incorrect.`))
+        } else {
+          logger.warn('Failed to open journal share packet', {
+            message: String(e),
+          })
+          setOpenError(
+            _(
+              msg`This link can't open the packet. Make sure you copied all of it.`,
+            ),
+          )
+        }
+      } finally {
+        setIsOpening(false)
+      }
+    },
+    [packet, linkKey, _],
+  )
+
+  useEffect(() => {
+    if (!packet.hasPasscode) open()
+  }, [packet.hasPasscode, open])
+
+  if (content) {
+    return <SharePacketContent packet={packet} content={content} />
+  }
+
+  if (!packet.hasPasscode) {
+    return openError ? (
+      <Centered>
+        <MessageText>{openError}</MessageText>
+      </Centered>
+    ) : (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      </View>
+    )
+  }
+
+  return (
+    <View
+      style={[
+        styles.container,
+        styles.centered,
+        {backgroundColor: t.palette.contrast_25},
+      ]}>
+      <View
+        style={[
+          styles.section,
+          styles.passcodeForm,
+          {backgroundColor: t.palette.white},
+        ]}>
+        <Text style={[a.text_lg, a.font_bold, a.mb_sm]}>
+          <Trans>Enter Passcode</Trans>
+        </Text>
+        <Text style={[a.text_sm, a.mb_md, {color: t.palette.contrast_600}]}>
+          <Trans>
+            These journal entries are protected. Enter the passcode you were
+            given with the link.
+          </Trans>
+        </Text>
+        <TextInput
+          style={[
+            styles.input,
+            {
+              color: t.palette.contrast_800,
+              borderColor: t.palette.contrast_200,
+            },
+          ]}
+          value={passcode}
+          onChangeText={setPasscode}
+          onSubmitEditing={() => open(passcode)}
+          placeholder={_(msg`Passcode`)}
+          placeholderTextColor={t.palette.contrast_400}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoFocus
+          accessibilityLabel={_(msg`Passcode`)}
+          accessibilityHint=""
+        />
+        {openError && (
+          <Text style={[a.text_sm, a.mt_sm, {color: t.palette.negative_500}]}>
+            {openError}
+          </Text>
+        )}
+        <Button
+          variant="solid"
+          color="primary"
+          size="large"
+          onPress={() => open(passcode)}
+          disabled={!passcode || isOpening}
+          label={_(msg`Open share packet`)}
+          style={a.mt_md}>
+          <ButtonText>
+            <Trans>Open</Trans>
+          </ButtonText>
+          {isOpening && <ActivityIndicator color={t.palette.white} />}
+        </Button>
+      </View>
+    </View>
+  )
+}
+
+function SharePacketContent({
+  packet,
+  content,
+}: {
+  packet: SealedJournalSharePacket
+  content: JournalSharePacketContent
+}) {
+  const {_, i18n} = useLingui()
+  const t = useTheme()
+  const authorName = content.author.displayName || `@${content.author.handle}`
+
+  return (
+    <View style={[styles.container, {backgroundColor: t.palette.contrast_25}]}>
+      <View style={[styles.header, {backgroundColor: t.palette.white}]}>
+        <Text style={[a.text_xl, a.font_bold]}>
+          <Trans>Journal entries shared by {authorName}</Trans>
+        </Text>
+        <Text style={[a.text_sm, a.mt_xs, {color: t.palette.contrast_600}]}>
+          {_(
+            msg`${plural(content.entries.length, {one: '# entry', other: '# entries'})} · Read-only · Available until ${i18n.date(new Date(packet.expiresAt), {dateStyle: 'medium', timeStyle: 'short'})}`,
+          )}
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}>
+        {content.entries.map(entry => (
+          <View
+            key={entry.uri}
+            style={[styles.section, {backgroundColor: t.palette.white}]}>
+            <Text style={[a.text_sm, a.font_bold]}>
+              {i18n.date(new Date(entry.incidentTimestamp ?? entry.createdAt), {
+                dateStyle: 'full',
+                timeStyle: 'short',
+              })}
+            </Text>
+            {entry.entryType === 'backdated' && (
+              <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                {_(
+                  msg`Written ${i18n.date(new Date(entry.createdAt), {dateStyle: 'medium', timeStyle: 'short'})}`,
+                )}
+              </Text>
+            )}
+            <Text style={[a.text_md, a.mt_sm, a.leading_snug]}>
+              {entry.text}
+            </Text>
+            {entry.symptoms.length > 0 && (
+              <View style={a.mt_sm}>
+                {entry.symptoms.map((symptom, index) => (
+                  <Text
+                    key={index}
+                    style={[a.text_sm, {color: t.palette.contrast_700}]}>
+                    {_(
+                      msg`${symptom.category}, severity ${symptom.severity}/10`,
+                    )}
+                    {symptom.notes ? ` · ${symptom.notes}` : ''}
+                  </Text>
+                ))}
+              </View>
+            )}
+            {entry.location?.address && (
+              <Text
+                style={[a.text_sm, a.mt_sm, {color: t.palette.contrast_600}]}>
+                {entry.location.address}
+              </Text>
+            )}
+            {entry.tags.length > 0 && (
+              <Text
+                style={[a.text_xs, a.mt_sm, {color: t.palette.contrast_500}]}>
+                {entry.tags.map(tag => `#${tag}`).join(' ')}
+              </Text>
+            )}
+            {entry.evidence.length > 0 && (
+              <Text
+                style={[a.text_xs, a.mt_sm, {color: t.palette.contrast_500}]}>
+                {_(
+                  msg`${plural(entry.evidence.length, {one: '# attachment', other: '# attachments'})} not included`,
+                )}
+              </Text>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  )
+}
+
+function Centered({children}: {children: ReactNode}) {
+  const t = useTheme()
+
+  return (
+    <View
+      style={[
+        styles.container,
+        styles.centered,
+        {backgroundColor: t.palette.contrast_25},
+      ]}>
+      {children}
+    </View>
+  )
+}
+
+function MessageText({children}: {children: ReactNode}) {
+  const t = useTheme()
+
+  return (
+    <Text
+      style={[
+        a.text_md,
+        a.text_center,
+        a.leading_snug,
+        {color: t.palette.contrast_600},
+      ]}>
+      {children}
+    </Text>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  header: {
+    paddingTop: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  passcodeForm: {
+    width: '100%',
+    maxWidth: 400,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+})
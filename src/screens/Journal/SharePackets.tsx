@@ -0,0 +1,514 @@
+import {useCallback, useState} from 'react'
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native'
+import * as Clipboard from 'expo-clipboard'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {
+  isSharePacketActive,
+  MAX_SHARE_PACKET_ENTRIES,
+  MIN_SHARE_PACKET_PASSCODE_LENGTH,
+  SHARE_PACKET_EXPIRY_DAYS,
+} from '#/lib/journal-share'
+import {shareUrl} from '#/lib/sharing'
+import {cleanError} from '#/lib/strings/errors'
+import {useJournalEntries} from '#/state/queries/journal'
+import {
+  useCreateJournalSharePacketMutation,
+  useJournalSharePacketsQuery,
+  useRevokeJournalSharePacketMutation,
+} from '#/state/queries/journal-share'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonText} from '#/components/Button'
+import {Check_Stroke2_Corner0_Rounded as Check} from '#/components/icons/Check'
+import {Text} from '#/components/Typography'
+
+export function JournalSharePacketsScreen() {
+  const {_, i18n} = useLingui()
+  const t = useTheme()
+
+  const {data: entries, isLoading} = useJournalEntries()
+  const {data: packets} = useJournalSharePacketsQuery()
+  const createPacket = useCreateJournalSharePacketMutation()
+  const revokePacket = useRevokeJournalSharePacketMutation()
+
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [expiresInDays, setExpiresInDays] = useState<number>(7)
+  const [passcode, setPasscode] = useState('')
+  const [createdUrl, setCreatedUrl] = useState<string>()
+
+  const expiryLabels: Record<
+    (typeof SHARE_PACKET_EXPIRY_DAYS)[number],
+    string
+  > = {
+    1: _(msg`1 day`),
+    7: _(msg`7 days`),
+    30: _(msg`30 days`),
+  }
+
+  const isPasscodeTooShort =
+    passcode.length > 0 && passcode.length < MIN_SHARE_PACKET_PASSCODE_LENGTH
+
+  const toggleEntry = useCallback((uri: string) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(uri)) {
+        next.delete(uri)
+      } else if (next.size < MAX_SHARE_PACKET_ENTRIES) {
+        next.add(uri)
+      }
+      return next
+    })
+  }, [])
+
+  const handleCreate = useCallback(() => {
+    if (!entries || selected.size === 0 || isPasscodeTooShort) return
+    createPacket.mutate(
+      {
+        entries: entries.filter(entry => selected.has(entry.uri)),
+        expiresInDays,
+        passcode: passcode || undefined,
+      },
+      {
+        onSuccess: ({url}) => {
+          setCreatedUrl(url)
+          setSelected(new Set())
+          setPasscode('')
+        },
+        onError: e => Toast.show(cleanError(e), 'xmark'),
+      },
+    )
+  }, [
+    entries,
+    selected,
+    expiresInDays,
+    passcode,
+    isPasscodeTooShort,
+    createPacket,
+  ])
+
+  const handleCopy = useCallback(async () => {
+    if (!createdUrl) return
+    await Clipboard.setStringAsync(createdUrl)
+    Toast.show(_(msg`Copied to clipboard`), 'clipboard-check')
+  }, [createdUrl, _])
+
+  const handleRevoke = useCallback(
+    (id: string) => {
+      Alert.alert(
+        _(msg`Revoke Share Packet`),
+        _(
+          msg`Anyone with the link will no longer be able to see these entries. This cannot be undone.`,
+        ),
+        [
+          {text: _(msg`Cancel`), style: 'cancel'},
+          {
+            text: _(msg`Revoke`),
+            style: 'destructive',
+            onPress: () =>
+              revokePacket.mutate(
+                {id},
+                {
+                  onSuccess: () => Toast.show(_(msg`Share packet revoked`)),
+                  onError: e => Toast.show(cleanError(e), 'xmark'),
+                },
+              ),
+          },
+        ],
+      )
+    },
+    [revokePacket, _],
+  )
+
+  if (isLoading) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      </View>
+    )
+  }
+
+  return (
+    <View style={[styles.container, {backgroundColor: t.palette.contrast_25}]}>
+      <View style={[styles.header, {backgroundColor: t.palette.white}]}>
+        <Text style={[a.text_xl, a.font_bold]}>
+          <Trans>Share Packets</Trans>
+        </Text>
+        <Text style={[a.text_sm, a.mt_xs, {color: t.palette.contrast_600}]}>
+          <Trans>
+            Give a doctor, lawyer or advocate read-only access to selected
+            entries through a link that expires. They don't need an account.
+          </Trans>
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}>
+        {createdUrl && (
+          <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+              <Trans>Your Link</Trans>
+            </Text>
+            <Text
+              selectable
+              style={[
+                a.text_sm,
+                a.p_md,
+                a.rounded_sm,
+                {backgroundColor: t.palette.contrast_50},
+              ]}>
+              {createdUrl}
+            </Text>
+            <Text style={[a.text_sm, a.mt_sm, {color: t.palette.contrast_600}]}>
+              <Trans>
+                Save or send this link now. It contains the key to the packet,
+                so it can't be shown again.
+              </Trans>
+            </Text>
+            <View style={[a.flex_row, a.gap_sm, a.mt_md]}>
+              <Button
+                variant="solid"
+                color="primary"
+                size="small"
+                onPress={() => shareUrl(createdUrl)}
+                label={_(msg`Share link`)}>
+                <ButtonText>
+                  <Trans>Share</Trans>
+                </ButtonText>
+              </Button>
+              <Button
+                variant="outline"
+                color="primary"
+                size="small"
+                onPress={handleCopy}
+                label={_(msg`Copy link`)}>
+                <ButtonText>
+                  <Trans>Copy</Trans>
+                </ButtonText>
+              </Button>
+              <Button
+                variant="ghost"
+                color="secondary"
+                size="small"
+                onPress={() => setCreatedUrl(undefined)}
+                label={_(msg`Dismiss link`)}>
+                <ButtonText>
+                  <Trans>Done</Trans>
+                </ButtonText>
+              </Button>
+            </View>
+          </View>
+        )}
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+            <Trans>Entries</Trans>
+          </Text>
+          <Text style={[a.text_sm, a.mb_sm, {color: t.palette.contrast_600}]}>
+            {_(
+              msg`${plural(selected.size, {one: '# entry', other: '# entries'})} selected, up to ${MAX_SHARE_PACKET_ENTRIES}`,
+            )}
+          </Text>
+          {!entries || entries.length === 0 ? (
+            <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+              <Trans>You haven't written any entries yet.</Trans>
+            </Text>
+          ) : (
+            entries.map(entry => {
+              const isSelected = selected.has(entry.uri)
+              return (
+                <Pressable
+                  key={entry.uri}
+                  onPress={() => toggleEntry(entry.uri)}
+                  disabled={entry.isLocked}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{
+                    checked: isSelected,
+                    disabled: entry.isLocked,
+                  }}
+                  accessibilityLabel={
+                    entry.isLocked ? _(msg`Encrypted entry`) : entry.text
+                  }
+                  accessibilityHint=""
+                  style={[
+                    styles.entryRow,
+                    {borderTopColor: t.palette.contrast_100},
+                    entry.isLocked && styles.disabled,
+                  ]}>
+                  <View
+                    style={[
+                      styles.checkbox,
+                      {
+                        borderColor: isSelected
+                          ? t.palette.primary_500
+                          : t.palette.contrast_300,
+                        backgroundColor: isSelected
+                          ? t.palette.primary_500
+                          : 'transparent',
+                      },
+                    ]}>
+                    {isSelected && <Check size="xs" fill={t.palette.white} />}
+                  </View>
+                  <View style={a.flex_1}>
+                    <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                      {i18n.date(
+                        new Date(entry.incidentTimestamp ?? entry.createdAt),
+                        {dateStyle: 'medium', timeStyle: 'short'},
+                      )}
+                    </Text>
+                    <Text numberOfLines={2} style={[a.text_sm]}>
+                      {entry.isLocked
+                        ? _(
+                            msg`Encrypted entry. Unlock your journal to share it.`,
+                          )
+                        : entry.text}
+                    </Text>
+                  </View>
+                </Pressable>
+              )
+            })
+          )}
+        </View>
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_md]}>
+            <Trans>Link expires after</Trans>
+          </Text>
+          <View style={styles.options}>
+            {SHARE_PACKET_EXPIRY_DAYS.map(days => {
+              const isActive = days === expiresInDays
+              return (
+                <Pressable
+                  key={days}
+                  onPress={() => setExpiresInDays(days)}
+                  accessibilityRole="button"
+                  accessibilityState={{selected: isActive}}
+                  accessibilityLabel={expiryLabels[days]}
+                  accessibilityHint=""
+                  style={[
+                    styles.option,
+                    {
+                      backgroundColor: isActive
+                        ? t.palette.primary_500
+                        : t.palette.contrast_50,
+                    },
+                  ]}>
+                  <Text
+                    style={[
+                      a.text_sm,
+                      {
+                        color: isActive
+                          ? t.palette.white
+                          : t.palette.contrast_700,
+                      },
+                    ]}>
+                    {expiryLabels[days]}
+                  </Text>
+                </Pressable>
+              )
+            })}
+          </View>
+        </View>
+
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+            <Trans>Passcode (optional)</Trans>
+          </Text>
+          <Text style={[a.text_sm, a.mb_md, {color: t.palette.contrast_600}]}>
+            <Trans>
+              The recipient will need this as well as the link. Send it to them
+              separately, for example by phone.
+            </Trans>
+          </Text>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                color: t.palette.contrast_800,
+                borderColor: t.palette.contrast_200,
+              },
+            ]}
+            value={passcode}
+            onChangeText={setPasscode}
+            placeholder={_(msg`Passcode`)}
+            placeholderTextColor={t.palette.contrast_400}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            accessibilityLabel={_(msg`Passcode`)}
+            accessibilityHint=""
+          />
+          {isPasscodeTooShort && (
+            <Text style={[a.text_sm, a.mt_sm, {color: t.palette.negative_500}]}>
+              {_(
+                msg`Use at least ${MIN_SHARE_PACKET_PASSCODE_LENGTH} characters.`,
+              )}
+            </Text>
+          )}
+          <Button
+            variant="solid"
+            color="primary"
+            size="large"
+            onPress={handleCreate}
+            disabled={
+              selected.size === 0 ||
+              isPasscodeTooShort ||
+              createPacket.isPending
+            }
+            label={_(msg`Create share link`)}
+            style={a.mt_md}>
+            <ButtonText>
+              <Trans>Create share link</Trans>
+            </ButtonText>
+            {createPacket.isPending && (
+              <ActivityIndicator color={t.palette.white} />
+            )}
+          </Button>
+        </View>
+
+        {packets && packets.length > 0 && (
+          <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+            <Text style={[a.text_md, a.font_bold, a.mb_sm]}>
+              <Trans>Your Share Packets</Trans>
+            </Text>
+            {packets.map(packet => {
+              const isActive = isSharePacketActive(packet)
+              return (
+                <View
+                  key={packet.id}
+                  style={[
+                    styles.packetRow,
+                    {borderTopColor: t.palette.contrast_100},
+                  ]}>
+                  <View style={a.flex_1}>
+                    <Text style={[a.text_sm, a.font_bold]}>
+                      {_(
+                        msg`${plural(packet.entryCount, {one: '# entry', other: '# entries'})}, created ${i18n.date(new Date(packet.createdAt), {dateStyle: 'medium'})}`,
+                      )}
+                    </Text>
+                    <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+                      {packet.revokedAt
+                        ? _(msg`Revoked`)
+                        : isActive
+                          ? _(
+                              msg`Expires ${i18n.date(new Date(packet.expiresAt), {dateStyle: 'medium', timeStyle: 'short'})}`,
+                            )
+                          : _(msg`Expired`)}
+                      {packet.hasPasscode && ` · ${_(msg`Passcode`)}`}
+                    </Text>
+                  </View>
+                  {isActive && (
+                    <Button
+                      variant="outline"
+                      color="negative"
+                      size="small"
+                      onPress={() => handleRevoke(packet.id)}
+                      disabled={revokePacket.isPending}
+                      label={_(msg`Revoke share packet`)}>
+                      <ButtonText>
+                        <Trans>Revoke</Trans>
+                      </ButtonText>
+                    </Button>
+                  )}
+                </View>
+              )
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  header: {
+    paddingTop: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  packetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+})
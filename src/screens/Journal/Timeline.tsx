@@ -0,0 +1,701 @@
+import {useCallback, useMemo, useState} from 'react'
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  View,
+} from 'react-native'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+import {useNavigation} from '@react-navigation/native'
+
+import {
+  buildJournalCalendarMonth,
+  filterTimelineEntries,
+  getHeatmapLevel,
+  getIncidentDate,
+  getReportingDelay,
+  groupJournalTimeline,
+  type JournalTimelineZoom,
+} from '#/lib/journal-timeline'
+import {cleanError} from '#/lib/strings/errors'
+import {type JournalEntry, useJournalEntries} from '#/state/queries/journal'
+import {type SymptomCategory} from '#/state/queries/journal/types'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {BulletList_Stroke2_Corner0_Rounded as ListIcon} from '#/components/icons/BulletList'
+import {CalendarDays_Stroke2_Corner0_Rounded as CalendarIcon} from '#/components/icons/CalendarDays'
+import {
+  ChevronLeft_Stroke2_Corner0_Rounded as ChevronLeft,
+  ChevronRight_Stroke2_Corner0_Rounded as ChevronRight,
+} from '#/components/icons/Chevron'
+import {Clock_Stroke2_Corner0_Rounded as Clock} from '#/components/icons/Clock'
+import {JournalTriggerWarningHider} from '#/components/moderation/JournalTriggerWarningHider'
+import {Text} from '#/components/Typography'
+
+type ViewMode = 'calendar' | 'timeline'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+const ZOOM_LEVELS: JournalTimelineZoom[] = ['day', 'week', 'month', 'year']
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value)
+    ? values.filter(v => v !== value)
+    : [...values, value]
+}
+
+export function JournalTimelineScreen() {
+  const {_, i18n} = useLingui()
+  const t = useTheme()
+  const navigation = useNavigation()
+
+  const {data: entries = [], isLoading, error} = useJournalEntries()
+
+  const [viewMode, setViewMode] = useState<ViewMode>('calendar')
+  const [zoom, setZoom] = useState<JournalTimelineZoom>('week')
+  const [month, setMonth] = useState(() => {
+    const now = new Date()
+    return {year: now.getFullYear(), month: now.getMonth()}
+  })
+  const [selectedDay, setSelectedDay] = useState<string | null>(null)
+  const [categories, setCategories] = useState<SymptomCategory[]>([])
+  const [tags, setTags] = useState<string[]>([])
+
+  // Only offer filters that would match something
+  const filterOptions = useMemo(() => {
+    const allCategories = new Set<SymptomCategory>()
+    const allTags = new Set<string>()
+    for (const entry of entries) {
+      entry.symptoms?.forEach(symptom =>
+        allCategories.add(symptom.category as SymptomCategory),
+      )
+      entry.tags?.forEach(tag => allTags.add(tag))
+    }
+    return {
+      categories: Array.from(allCategories).sort(),
+      tags: Array.from(allTags).sort(),
+    }
+  }, [entries])
+
+  const filteredEntries = useMemo(
+    () =>
+      filterTimelineEntries(entries, {
+        symptomCategories: categories,
+        tags,
+      }),
+    [entries, categories, tags],
+  )
+
+  const calendar = useMemo(
+    () => buildJournalCalendarMonth(filteredEntries, month.year, month.month),
+    [filteredEntries, month],
+  )
+
+  const buckets = useMemo(
+    () => groupJournalTimeline(filteredEntries, zoom),
+    [filteredEntries, zoom],
+  )
+
+  const selectedEntries = useMemo(() => {
+    if (!selectedDay) return []
+    for (const week of calendar.weeks) {
+      const day = week.find(d => d?.key === selectedDay)
+      if (day) return day.entries
+    }
+    return []
+  }, [calendar, selectedDay])
+
+  const changeMonth = useCallback((delta: number) => {
+    setSelectedDay(null)
+    setMonth(current => {
+      const date = new Date(current.year, current.month + delta, 1)
+      return {year: date.getFullYear(), month: date.getMonth()}
+    })
+  }, [])
+
+  const openEntry = useCallback(
+    (uri: string) => {
+      // @ts-ignore - navigation is untyped here
+      navigation.navigate('JournalEntryDetail', {uri})
+    },
+    [navigation],
+  )
+
+  const formatReportingDelay = useCallback(
+    (delay: number) => {
+      const days = Math.floor(delay / DAY)
+      if (days > 0) {
+        return _(
+          msg`Reported ${plural(days, {one: '# day', other: '# days'})} later`,
+        )
+      }
+      const hours = Math.floor(delay / HOUR)
+      if (hours > 0) {
+        return _(
+          msg`Reported ${plural(hours, {one: '# hour', other: '# hours'})} later`,
+        )
+      }
+      return _(msg`Reported within the hour`)
+    },
+    [_],
+  )
+
+  const formatBucket = useCallback(
+    (start: Date) => {
+      switch (zoom) {
+        case 'day':
+          return i18n.date(start, {dateStyle: 'full'})
+        case 'week':
+          return _(msg`Week of ${i18n.date(start, {dateStyle: 'medium'})}`)
+        case 'month':
+          return i18n.date(start, {month: 'long', year: 'numeric'})
+        case 'year':
+          return String(start.getFullYear())
+      }
+    },
+    [zoom, i18n, _],
+  )
+
+  const heatmapColors = [
+    t.palette.contrast_50,
+    t.palette.primary_100,
+    t.palette.primary_300,
+    t.palette.primary_500,
+    t.palette.primary_700,
+  ]
+
+  const weekdays = useMemo(() => {
+    // 7 January 2024 was a Sunday
+    return Array.from({length: 7}, (_day, i) =>
+      i18n.date(new Date(2024, 0, 7 + i), {weekday: 'narrow'}),
+    )
+  }, [i18n])
+
+  const renderChip = (
+    key: string,
+    label: string,
+    isActive: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{selected: isActive}}
+      accessibilityLabel={label}
+      accessibilityHint=""
+      style={[
+        styles.chip,
+        {
+          backgroundColor: isActive
+            ? t.palette.primary_500
+            : t.palette.contrast_50,
+        },
+      ]}>
+      <Text
+        style={[
+          a.text_sm,
+          {color: isActive ? t.palette.white : t.palette.contrast_700},
+        ]}>
+        {label}
+      </Text>
+    </Pressable>
+  )
+
+  const renderEntry = (entry: JournalEntry) => {
+    const delay = getReportingDelay(entry)
+    const isBackdated = entry.entryType === 'backdated'
+    return (
+      <Pressable
+        key={entry.uri}
+        onPress={() => openEntry(entry.uri)}
+        accessibilityRole="button"
+        accessibilityLabel={_(msg`Open journal entry`)}
+        accessibilityHint=""
+        style={[
+          styles.entry,
+          {
+            backgroundColor: t.palette.white,
+            borderLeftColor: isBackdated
+              ? t.palette.contrast_500
+              : t.palette.primary_500,
+          },
+          isBackdated && styles.backdatedEntry,
+        ]}>
+        <View style={styles.entryHeader}>
+          <Text style={[a.text_sm, a.font_bold]}>
+            {i18n.date(getIncidentDate(entry), {
+              dateStyle: 'medium',
+              timeStyle: 'short',
+            })}
+          </Text>
+          {isBackdated && (
+            <View
+              style={[styles.badge, {backgroundColor: t.palette.contrast_50}]}>
+              <Clock size="xs" fill={t.palette.contrast_700} />
+              <Text style={[a.text_xs, {color: t.palette.contrast_700}]}>
+                {formatReportingDelay(delay)}
+              </Text>
+            </View>
+          )}
+        </View>
+        {/* Hidden entries stay in, so the timeline has no gaps */}
+        <JournalTriggerWarningHider
+          warnings={entry.triggerWarnings}
+          style={a.mt_xs}>
+          <Text
+            numberOfLines={2}
+            style={[a.text_sm, {color: t.palette.contrast_700}]}>
+            {entry.isLocked ? _(msg`Encrypted entry`) : entry.text}
+          </Text>
+          {entry.symptoms && entry.symptoms.length > 0 && (
+            <Text
+              numberOfLines={1}
+              style={[a.text_xs, a.mt_xs, {color: t.palette.contrast_500}]}>
+              {entry.symptoms
+                .map(symptom => symptom.category.replace(/_/g, ' '))
+                .join(', ')}
+            </Text>
+          )}
+        </JournalTriggerWarningHider>
+      </Pressable>
+    )
+  }
+
+  const renderCalendar = () => (
+    <>
+      <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+        <View style={styles.monthRow}>
+          <Button
+            variant="ghost"
+            color="secondary"
+            size="small"
+            shape="round"
+            onPress={() => changeMonth(-1)}
+            label={_(msg`Previous month`)}>
+            <ButtonIcon icon={ChevronLeft} />
+          </Button>
+          <Text style={[a.text_lg, a.font_bold]}>
+            {i18n.date(new Date(month.year, month.month, 1), {
+              month: 'long',
+              year: 'numeric',
+            })}
+          </Text>
+          <Button
+            variant="ghost"
+            color="secondary"
+            size="small"
+            shape="round"
+            onPress={() => changeMonth(1)}
+            label={_(msg`Next month`)}>
+            <ButtonIcon icon={ChevronRight} />
+          </Button>
+        </View>
+
+        <View style={styles.week}>
+          {weekdays.map((weekday, i) => (
+            <Text
+              key={i}
+              style={[
+                styles.weekday,
+                a.text_xs,
+                {color: t.palette.contrast_500},
+              ]}>
+              {weekday}
+            </Text>
+          ))}
+        </View>
+        {calendar.weeks.map((week, i) => (
+          <View key={i} style={styles.week}>
+            {week.map((day, j) => {
+              if (!day) return <View key={j} style={styles.day} />
+              const level = getHeatmapLevel(
+                day.entries.length,
+                calendar.maxCount,
+              )
+              const hasBackdated = day.entries.some(
+                e => e.entryType === 'backdated',
+              )
+              const isSelected = day.key === selectedDay
+              return (
+                <Pressable
+                  key={day.key}
+                  onPress={() => setSelectedDay(isSelected ? null : day.key)}
+                  accessibilityRole="button"
+                  accessibilityLabel={_(
+                    msg`${i18n.date(day.date, {dateStyle: 'long'})}: ${plural(
+                      day.entries.length,
+                      {one: '# entry', other: '# entries'},
+                    )}`,
+                  )}
+                  accessibilityHint=""
+                  style={[
+                    styles.day,
+                    {backgroundColor: heatmapColors[level]},
+                    isSelected && {
+                      borderWidth: 2,
+                      borderColor: t.palette.contrast_900,
+                    },
+                  ]}>
+                  <Text
+                    style={[
+                      a.text_xs,
+                      {
+                        color:
+                          level > 2 ? t.palette.white : t.palette.contrast_700,
+                      },
+                    ]}>
+                    {day.date.getDate()}
+                  </Text>
+                  {hasBackdated && (
+                    <View
+                      style={[
+                        styles.backdatedDot,
+                        {backgroundColor: t.palette.contrast_500},
+                      ]}
+                    />
+                  )}
+                </Pressable>
+              )
+            })}
+          </View>
+        ))}
+        <View style={styles.legend}>
+          <View
+            style={[
+              styles.backdatedDot,
+              {backgroundColor: t.palette.contrast_500},
+            ]}
+          />
+          <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+            <Trans>Includes backdated entries</Trans>
+          </Text>
+        </View>
+      </View>
+
+      {selectedDay && (
+        <View style={styles.entries}>
+          {selectedEntries.length > 0 ? (
+            selectedEntries.map(renderEntry)
+          ) : (
+            <Text
+              style={[
+                a.text_sm,
+                a.text_center,
+                {color: t.palette.contrast_500},
+              ]}>
+              <Trans>No incidents on this day</Trans>
+            </Text>
+          )}
+        </View>
+      )}
+    </>
+  )
+
+  const renderTimeline = () => (
+    <>
+      <View style={styles.chips}>
+        {ZOOM_LEVELS.map(level =>
+          renderChip(
+            level,
+            {
+              day: _(msg`Day`),
+              week: _(msg`Week`),
+              month: _(msg`Month`),
+              year: _(msg`Year`),
+            }[level],
+            zoom === level,
+            () => setZoom(level),
+          ),
+        )}
+      </View>
+      {buckets.length === 0 ? (
+        <Text
+          style={[a.text_sm, a.text_center, {color: t.palette.contrast_500}]}>
+          <Trans>No incidents match these filters</Trans>
+        </Text>
+      ) : (
+        buckets.map(bucket => (
+          <View key={bucket.key} style={styles.bucket}>
+            <View style={styles.bucketHeader}>
+              <View
+                style={[
+                  styles.bucketMarker,
+                  {backgroundColor: t.palette.primary_500},
+                ]}
+              />
+              <Text style={[a.text_md, a.font_bold]}>
+                {formatBucket(bucket.start)}
+              </Text>
+              <Text style={[a.text_sm, {color: t.palette.contrast_500}]}>
+                {_(
+                  msg`${plural(bucket.entries.length, {
+                    one: '# entry',
+                    other: '# entries',
+                  })}`,
+                )}
+              </Text>
+            </View>
+            <View
+              style={[
+                styles.entries,
+                {borderLeftColor: t.palette.contrast_100},
+              ]}>
+              {bucket.entries.map(renderEntry)}
+            </View>
+          </View>
+        ))
+      )}
+    </>
+  )
+
+  if (isLoading) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <ActivityIndicator size="large" color={t.palette.primary_500} />
+      </View>
+    )
+  }
+
+  if (error) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          {backgroundColor: t.palette.contrast_25},
+        ]}>
+        <Text
+          style={[a.text_md, a.text_center, {color: t.palette.contrast_600}]}>
+          {cleanError(error)}
+        </Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={[styles.container, {backgroundColor: t.palette.contrast_25}]}>
+      <View style={[styles.header, {backgroundColor: t.palette.white}]}>
+        <View style={styles.headerRow}>
+          <Text style={[a.text_xl, a.font_bold]}>
+            <Trans>Incident Timeline</Trans>
+          </Text>
+          <View style={styles.headerActions}>
+            <Button
+              variant={viewMode === 'calendar' ? 'solid' : 'outline'}
+              color="primary"
+              size="small"
+              onPress={() => setViewMode('calendar')}
+              label={_(msg`Calendar`)}>
+              <ButtonIcon icon={CalendarIcon} />
+              <ButtonText>
+                <Trans>Calendar</Trans>
+              </ButtonText>
+            </Button>
+            <Button
+              variant={viewMode === 'timeline' ? 'solid' : 'outline'}
+              color="primary"
+              size="small"
+              onPress={() => setViewMode('timeline')}
+              label={_(msg`Timeline`)}>
+              <ButtonIcon icon={ListIcon} />
+              <ButtonText>
+                <Trans>Timeline</Trans>
+              </ButtonText>
+            </Button>
+          </View>
+        </View>
+        <Text style={[a.text_sm, {color: t.palette.contrast_600}]}>
+          <Trans>
+            Entries are placed at the time the incident happened, not when they
+            were written.
+          </Trans>
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}>
+        {(filterOptions.categories.length > 0 ||
+          filterOptions.tags.length > 0) && (
+          <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+            {filterOptions.categories.length > 0 && (
+              <>
+                <Text style={[a.text_sm, a.font_bold, a.mb_sm]}>
+                  <Trans>Symptoms</Trans>
+                </Text>
+                <View style={styles.chips}>
+                  {filterOptions.categories.map(category =>
+                    renderChip(
+                      category,
+                      category.replace(/_/g, ' '),
+                      categories.includes(category),
+                      () => setCategories(current => toggle(current, category)),
+                    ),
+                  )}
+                </View>
+              </>
+            )}
+            {filterOptions.tags.length > 0 && (
+              <>
+                <Text style={[a.text_sm, a.font_bold, a.mt_md, a.mb_sm]}>
+                  <Trans>Tags</Trans>
+                </Text>
+                <View style={styles.chips}>
+                  {filterOptions.tags.map(tag =>
+                    renderChip(`#${tag}`, `#${tag}`, tags.includes(tag), () =>
+                      setTags(current => toggle(current, tag)),
+                    ),
+                  )}
+                </View>
+              </>
+            )}
+          </View>
+        )}
+
+        {viewMode === 'calendar' ? renderCalendar() : renderTimeline()}
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  header: {
+    paddingTop: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  week: {
+    flexDirection: 'row',
+    gap: 4,
+    marginBottom: 4,
+  },
+  weekday: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  day: {
+    flex: 1,
+    aspectRatio: 1,
+    borderRadius: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backdatedDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  bucket: {
+    gap: 8,
+  },
+  bucketHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  bucketMarker: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  entries: {
+    gap: 8,
+    marginLeft: 4,
+    paddingLeft: 12,
+    borderLeftWidth: 2,
+    borderLeftColor: 'transparent',
+  },
+  entry: {
+    padding: 12,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+  },
+  backdatedEntry: {
+    borderStyle: 'dashed',
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+})
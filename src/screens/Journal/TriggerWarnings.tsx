@@ -0,0 +1,153 @@
+import {Pressable, ScrollView, StyleSheet, View} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {
+  getTriggerWarningVisibility,
+  JOURNAL_TRIGGER_WARNINGS,
+  type TriggerWarningVisibility,
+} from '#/lib/journal-trigger-warnings'
+import {useTriggerWarningLabel} from '#/lib/journal-trigger-warnings/labels'
+import {useJournalTriggerWarningPreferences} from '#/state/queries/journal-trigger-warnings'
+import {atoms as a, useTheme} from '#/alf'
+import {Text} from '#/components/Typography'
+
+export function JournalTriggerWarningsScreen() {
+  const {_} = useLingui()
+  const t = useTheme()
+  const getLabel = useTriggerWarningLabel()
+  const {preferences, setVisibility} = useJournalTriggerWarningPreferences()
+
+  const options: Array<{value: TriggerWarningVisibility; label: string}> = [
+    {value: 'show', label: _(msg`Show`)},
+    {value: 'warn', label: _(msg`Warn`)},
+    {value: 'hide', label: _(msg`Hide`)},
+  ]
+
+  return (
+    <View style={[styles.container, {backgroundColor: t.palette.contrast_25}]}>
+      <View style={[styles.header, {backgroundColor: t.palette.white}]}>
+        <Text style={[a.text_xl, a.font_bold]}>
+          <Trans>Content Warnings</Trans>
+        </Text>
+        <Text style={[a.text_sm, a.mt_xs, {color: t.palette.contrast_600}]}>
+          <Trans>
+            Choose what happens to journal entries with each content warning.
+            Hidden entries are left out of your journal list but can still be
+            opened from links and the timeline. Other warnings always ask first.
+          </Trans>
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}>
+        <View style={[styles.section, {backgroundColor: t.palette.white}]}>
+          {JOURNAL_TRIGGER_WARNINGS.map((warning, index) => {
+            const label = getLabel(warning)
+            const current = getTriggerWarningVisibility(warning, preferences)
+            return (
+              <View
+                key={warning}
+                style={[
+                  styles.row,
+                  index > 0 && [
+                    styles.rowDivider,
+                    {borderTopColor: t.palette.contrast_100},
+                  ],
+                ]}>
+                <Text style={[a.flex_1, a.text_md]}>{label}</Text>
+                <View style={styles.options}>
+                  {options.map(option => {
+                    const isActive = option.value === current
+                    return (
+                      <Pressable
+                        key={option.value}
+                        onPress={() => setVisibility(warning, option.value)}
+                        accessibilityRole="button"
+                        accessibilityState={{selected: isActive}}
+                        accessibilityLabel={_(
+                          msg`${option.label} entries with ${label}`,
+                        )}
+                        accessibilityHint=""
+                        style={[
+                          styles.option,
+                          {
+                            backgroundColor: isActive
+                              ? t.palette.primary_500
+                              : t.palette.contrast_50,
+                          },
+                        ]}>
+                        <Text
+                          style={[
+                            a.text_sm,
+                            {
+                              color: isActive
+                                ? t.palette.white
+                                : t.palette.contrast_700,
+                            },
+                          ]}>
+                          {option.label}
+                        </Text>
+                      </Pressable>
+                    )
+                  })}
+                </View>
+              </View>
+            )
+          })}
+        </View>
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  section: {
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  rowDivider: {
+    borderTopWidth: 1,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+})
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import {
   View,
   TextInput,
@@ -15,6 +15,9 @@ import {atoms as a, useTheme} from '#/alf'
 import {Button, ButtonText, ButtonIcon} from '#/components/Button'
 import {Text} from '#/components/Typography'
 import * as Layout from '#/components/Layout'
+import * as Dialog from '#/components/Dialog'
+import {SourceCitationExportDialog} from '#/components/SourceCitationExport'
+import {toCitableSource} from '#/lib/source-citations'
 import {PressableScale} from '#/lib/custom-animations/PressableScale'
 import {
   ChevronTop_Stroke2_Corner0_Rounded as ArrowUp,
@@ -22,7 +25,19 @@ import {
 } from '#/components/icons/Chevron'
 import {ChainLink_Stroke2_Corner0_Rounded as LinkIcon} from '#/components/icons/ChainLink'
 import {type CommonNavigatorParams} from '#/lib/routes/types'
-import {useSourcesAPI, type Source, type SourceComment} from '#/lib/api/sources'
+import {
+  useSourcesAPI,
+  type Source,
+  type SourceComment,
+  type SourceHealth,
+} from '#/lib/api/sources'
+import {
+  getSourceRankHistory,
+  rankSource,
+  type SourceRanking,
+  type SourceRankChange,
+  type SourceVote,
+} from '#/lib/source-ranking'
 
 // Badge and rank color mappings - now using theme-aware color functions
 const getBadgeColors = (t: any) => ({
@@ -60,27 +75,34 @@ export function SourceDetail() {
   const t = useTheme()
 
   const sourcesAPI = useSourcesAPI()
-  const { getById, getComments, vote, addComment } = sourcesAPI
+  const { getById, getVotes, getComments, vote, addComment } = sourcesAPI
+
+  const citationDialogControl = Dialog.useDialogControl()
 
   const [source, setSource] = useState<Source | null>(null)
   const [comments, setComments] = useState<SourceComment[]>([])
+  const [votes, setVotes] = useState<SourceVote[] | null>(null)
   const [newComment, setNewComment] = useState('')
   const [loading, setLoading] = useState(true)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [isVoting, setIsVoting] = useState(false)
   const [isAddingComment, setIsAddingComment] = useState(false)
   const [userVote, setUserVote] = useState<'up' | 'down' | null>(null)
+  const [showArchivedCopy, setShowArchivedCopy] = useState(false)
 
   const fetchSourceDetail = useCallback(async () => {
     try {
       setLoading(true)
-      const [sourceData, commentsData] = await Promise.all([
+      const [sourceData, commentsData, votesData] = await Promise.all([
         getById(sourceId),
         getComments(sourceId),
+        // the rank history is extra, so don't fail the screen without it
+        getVotes(sourceId).catch(() => null),
       ])
 
       setSource(sourceData)
       setComments(commentsData)
+      setVotes(votesData)
     } catch (error) {
       console.error('Error fetching source detail:', error)
       Alert.alert(_(msg`Error`), _(msg`Failed to load source details`))
@@ -88,7 +110,7 @@ export function SourceDetail() {
       setLoading(false)
       setIsRefreshing(false)
     }
-  }, [getById, getComments, sourceId])
+  }, [getById, getVotes, getComments, sourceId])
 
   useEffect(() => {
     fetchSourceDetail()
@@ -111,13 +133,25 @@ export function SourceDetail() {
 
       setSource(response.source)
       setUserVote(voteType)
+      getVotes(source.id).then(setVotes, () => {})
     } catch (error) {
       console.error('Error voting:', error)
       Alert.alert(_(msg`Error`), _(msg`Failed to submit vote`))
     } finally {
       setIsVoting(false)
     }
-  }, [source, vote, isVoting])
+  }, [source, vote, getVotes, isVoting])
+
+  const ranking = useMemo(
+    () =>
+      source && votes
+        ? {
+            current: rankSource(source, votes),
+            history: getSourceRankHistory(source, votes),
+          }
+        : null,
+    [source, votes],
+  )
 
   const handleAddComment = useCallback(async () => {
     if (!newComment.trim() || !source || isAddingComment) return
@@ -158,6 +192,28 @@ export function SourceDetail() {
     return badgeType ? badgeColors[badgeType as keyof typeof badgeColors] : t.palette.contrast_400
   }
 
+  // unreachable isn't shown, as it's often a site being down for a while
+  const healthLabels: Partial<Record<SourceHealth['status'], string>> = {
+    changed: _(msg`Changed since citation`),
+    moved: _(msg`Now leads elsewhere`),
+    missing: _(msg`Page gone`),
+  }
+  const healthLabel = source?.health && healthLabels[source.health.status]
+
+  const describeHealth = (health: SourceHealth) => {
+    const checkedOn = new Date(health.checkedAt).toLocaleDateString()
+    switch (health.status) {
+      case 'changed':
+        return _(msg`When checked on ${checkedOn}, the page no longer matched the copy archived when it was cited.`)
+      case 'moved':
+        return _(msg`When checked on ${checkedOn}, the link led to ${health.finalUrl} instead.`)
+      case 'missing':
+        return _(msg`When checked on ${checkedOn}, the page no longer existed.`)
+      default:
+        return _(msg`Last checked on ${checkedOn}.`)
+    }
+  }
+
   return (
     <Layout.Screen testID="SourceDetailScreen">
       <Layout.Header.Outer>
@@ -167,7 +223,20 @@ export function SourceDetail() {
             {loading ? <Trans>Loading...</Trans> : !source ? <Trans>Source Not Found</Trans> : source.name}
           </Layout.Header.TitleText>
         </Layout.Header.Content>
-        <Layout.Header.Slot />
+        <Layout.Header.Slot>
+          {source && (
+            <Button
+              variant="ghost"
+              color="primary"
+              size="small"
+              onPress={citationDialogControl.open}
+              label={_(msg`Cite this source`)}>
+              <ButtonText>
+                <Trans>Cite</Trans>
+              </ButtonText>
+            </Button>
+          )}
+        </Layout.Header.Slot>
       </Layout.Header.Outer>
 
       <Layout.Content
@@ -231,8 +300,72 @@ export function SourceDetail() {
               </Text>
             </View>
           )}
+
+          {source.snapshot?.text && (
+            <PressableScale
+              style={[
+                a.px_sm,
+                a.py_xs,
+                a.rounded_sm,
+                {backgroundColor: t.palette.primary_500},
+              ]}
+              onPress={() => setShowArchivedCopy(show => !show)}
+              accessibilityRole="button"
+              accessibilityLabel={
+                showArchivedCopy
+                  ? _(msg`Hide archived copy`)
+                  : _(msg`Show archived copy`)
+              }
+              accessibilityHint={_(
+                msg`Shows or hides the text of the page as it was when it was cited`,
+              )}>
+              <Text style={[a.text_xs, a.font_bold, {color: 'white'}]}>
+                <Trans>Archived copy</Trans>
+              </Text>
+            </PressableScale>
+          )}
+
+          {healthLabel && (
+            <View
+              style={[
+                a.px_sm,
+                a.py_xs,
+                a.rounded_sm,
+                {backgroundColor: t.palette.negative_500},
+              ]}>
+              <Text style={[a.text_xs, a.font_bold, {color: 'white'}]}>
+                {healthLabel}
+              </Text>
+            </View>
+          )}
         </View>
 
+        {healthLabel && source.health && (
+          <Text style={[a.text_sm, a.mb_md, {color: t.atoms.text_contrast_medium.color}]}>
+            {describeHealth(source.health)}
+          </Text>
+        )}
+
+        {showArchivedCopy && source.snapshot?.text && (
+          <View
+            style={[
+              a.mb_md,
+              a.p_md,
+              a.rounded_md,
+              {backgroundColor: t.atoms.bg_contrast_25.backgroundColor},
+            ]}>
+            <Text style={[a.text_xs, a.mb_sm, {color: t.atoms.text_contrast_medium.color}]}>
+              <Trans>
+                Captured {new Date(source.snapshot.capturedAt).toLocaleString()} from{' '}
+                {source.snapshot.finalUrl}
+              </Trans>
+            </Text>
+            <Text style={[a.text_sm, a.leading_normal, {color: t.atoms.text.color}]} selectable>
+              {source.snapshot.text}
+            </Text>
+          </View>
+        )}
+
         {source.url && (
           <PressableScale 
             style={[
@@ -245,7 +378,8 @@ export function SourceDetail() {
             ]}
             onPress={handleOpenUrl}
             accessibilityRole="button"
-            accessibilityLabel={_(msg`Open source URL: ${source.url}`)}>
+            accessibilityLabel={_(msg`Open source URL: ${source.url}`)}
+            accessibilityHint={_(msg`Opens the source in your browser`)}>
             <LinkIcon size="sm" style={[a.mr_xs, {color: t.palette.primary_500}]} />
             <Text 
               style={[
@@ -259,6 +393,31 @@ export function SourceDetail() {
           </PressableScale>
         )}
 
+        {(!!source.authors?.length || source.publisher || source.publishedAt) && (
+          <Text style={[a.text_sm, a.mb_sm, {color: t.atoms.text_contrast_medium.color}]}>
+            {[source.authors?.join('; '), source.publisher, source.publishedAt]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+        )}
+
+        {source.doi && (
+          <PressableScale
+            style={[a.mb_md]}
+            onPress={() => {
+              Linking.openURL(`https://doi.org/${source.doi}`).catch(() => {
+                Alert.alert(_(msg`Error`), _(msg`Unable to open URL`))
+              })
+            }}
+            accessibilityRole="link"
+            accessibilityLabel={_(msg`Open DOI: ${source.doi}`)}
+            accessibilityHint={_(msg`Opens the DOI resolver in your browser`)}>
+            <Text style={[a.text_sm, {color: t.palette.primary_500}]}>
+              doi:{source.doi}
+            </Text>
+          </PressableScale>
+        )}
+
         <View style={[a.flex_row, a.justify_center, a.mb_md, a.gap_md]}>
           <Button
             variant={userVote === 'up' ? 'solid' : 'outline'}
@@ -290,6 +449,10 @@ export function SourceDetail() {
         </Text>
       </View>
 
+      {ranking && (
+        <RankHistory current={ranking.current} history={ranking.history} />
+      )}
+
       <View style={[a.p_lg]}>
         <Text
           style={[a.text_xl, a.font_bold, a.mb_lg, {color: t.atoms.text.color}]}
@@ -374,7 +537,106 @@ export function SourceDetail() {
           </>
         )}
       </Layout.Content>
+
+      {source && (
+        <SourceCitationExportDialog
+          control={citationDialogControl}
+          items={[{source: toCitableSource(source)}]}
+        />
+      )}
     </Layout.Screen>
   )
 }
 
+function percent(share: number) {
+  return `${Math.round(share * 100)}%`
+}
+
+function RankHistory({
+  current,
+  history,
+}: {
+  current: SourceRanking
+  history: SourceRankChange[]
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const rankColors = getRankColors(t)
+
+  const describeRanking = ({reason}: SourceRanking) => {
+    if (reason.type === 'initial') {
+      return reason.trustedDomain
+        ? _(msg`The site is on the trusted domain list and there aren't enough votes to rank it yet`)
+        : _(msg`There aren't enough votes to rank it yet`)
+    }
+    const {score} = reason
+    return _(
+      msg`${percent(score.up / score.total)} upvoted (${percent(score.lowerBound)}–${percent(score.upperBound)} with 95% confidence) from ${score.total.toFixed(1)} weighted votes`,
+    )
+  }
+
+  const describeCause = (change: SourceRankChange) => {
+    if (!change.vote) return _(msg`When the source was added`)
+    const verified = (change.vote.voterVerificationLevel ?? 0) > 0
+    if (change.vote.vote === 'up') {
+      return verified
+        ? _(msg`After an upvote from a verified badge holder`)
+        : _(msg`After an upvote`)
+    }
+    return verified
+      ? _(msg`After a downvote from a verified badge holder`)
+      : _(msg`After a downvote`)
+  }
+
+  return (
+    <View style={[a.p_lg, a.border_b, {borderBottomColor: t.atoms.border_contrast_low.borderColor}]}>
+      <Text
+        style={[a.text_xl, a.font_bold, a.mb_sm, {color: t.atoms.text.color}]}
+        accessibilityRole="header">
+        <Trans>Rank History</Trans>
+      </Text>
+      <Text style={[a.text_sm, a.mb_xs, {color: t.atoms.text.color}]}>
+        {describeRanking(current)}
+      </Text>
+      <Text style={[a.text_sm, a.mb_md, {color: t.atoms.text_contrast_medium.color}]}>
+        <Trans>
+          Ranks are worked out from upvotes and downvotes. Votes from verified
+          badge holders count for more, and older votes count for less as new
+          ones come in.
+        </Trans>
+      </Text>
+
+      {[...history].reverse().map(change => (
+        <View
+          key={`${change.changedAt}-${change.rank}`}
+          style={[a.flex_row, a.gap_sm, a.mb_md]}>
+          <View
+            style={[
+              a.mt_xs,
+              a.rounded_full,
+              {
+                width: 10,
+                height: 10,
+                backgroundColor: rankColors[change.rank],
+              },
+            ]}
+          />
+          <View style={[a.flex_1]}>
+            <Text style={[a.text_md, a.font_bold, {color: t.atoms.text.color}]}>
+              {change.previousRank
+                ? `${RANK_LABELS[change.previousRank]} → ${RANK_LABELS[change.rank]}`
+                : RANK_LABELS[change.rank]}
+            </Text>
+            <Text style={[a.text_sm, {color: t.atoms.text_contrast_medium.color}]}>
+              {new Date(change.changedAt).toLocaleDateString()} ·{' '}
+              {describeCause(change)}
+            </Text>
+            <Text style={[a.text_sm, {color: t.atoms.text_contrast_medium.color}]}>
+              {describeRanking(change)}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  )
+}
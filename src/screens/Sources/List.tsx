@@ -9,7 +9,7 @@ import {
   StyleSheet,
 } from 'react-native'
 
-import {msg, Trans} from '@lingui/macro'
+import {msg, plural, Trans} from '@lingui/macro'
 import {useLingui} from '@lingui/react'
 import {useNavigation} from '@react-navigation/native'
 import {type NavigationProp} from '@react-navigation/native'
@@ -20,6 +20,9 @@ import {Text} from '#/components/Typography'
 import * as Layout from '#/components/Layout'
 import * as Dialog from '#/components/Dialog'
 import {SourceCreationForm} from '#/components/SourceCreationForm'
+import {SourceCitationExportDialog} from '#/components/SourceCitationExport'
+import {toCitableSource} from '#/lib/source-citations'
+import {Check_Stroke2_Corner0_Rounded as Check} from '#/components/icons/Check'
 import {MagnifyingGlass_Filled_Stroke2_Corner0_Rounded as Search} from '#/components/icons/MagnifyingGlass'
 import {PlusLarge_Stroke2_Corner0_Rounded as Plus} from '#/components/icons/Plus'
 import {
@@ -43,6 +46,7 @@ export function SourcesList({onSourcePress, onCreateSource}: SourcesListProps) {
 
   const sourcesAPI = useSourcesAPI()
   const createSourceDialogControl = Dialog.useDialogControl()
+  const citationDialogControl = Dialog.useDialogControl()
 
   const [sources, setSources] = useState<Source[]>([])
   const [isLoading, setIsLoading] = useState(false)
@@ -51,6 +55,9 @@ export function SourcesList({onSourcePress, onCreateSource}: SourcesListProps) {
   const [selectedBadgeFilter, setSelectedBadgeFilter] = useState<string | null>(null)
   const [selectedRankFilter, setSelectedRankFilter] = useState<string | null>(null)
   const [cursor, setCursor] = useState<string | undefined>()
+  // sources picked for citing, kept across searches and filters
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selected, setSelected] = useState<Map<string, Source>>(new Map())
 
   // Load sources on mount and when filters change
   useEffect(() => {
@@ -124,6 +131,23 @@ export function SourcesList({onSourcePress, onCreateSource}: SourcesListProps) {
     }
   }, [onCreateSource, createSourceDialogControl])
 
+  const toggleSelecting = useCallback(() => {
+    setIsSelecting(v => !v)
+    setSelected(new Map())
+  }, [])
+
+  const toggleSelected = useCallback((source: Source) => {
+    setSelected(prev => {
+      const next = new Map(prev)
+      if (next.has(source.id)) {
+        next.delete(source.id)
+      } else {
+        next.set(source.id, source)
+      }
+      return next
+    })
+  }, [])
+
   const handleSourceCreated = useCallback(() => {
     // Refresh the sources list after creating a new source
     loadSources(true)
@@ -144,100 +168,129 @@ export function SourcesList({onSourcePress, onCreateSource}: SourcesListProps) {
   const badgeTypes = ['havana', 'gangstalked', 'targeted', 'whistleblower', 'retaliation']
   const ranks = ['trusted', 'vetted', 'slightly_vetted', 'debated', 'new', 'debunked']
 
-  const renderSourceItem = ({item}: {item: Source}) => (
-    <TouchableOpacity
-      style={[
-        a.p_lg,
-        styles.sourceCard,
-        {backgroundColor: t.palette.white},
-      ]}
-      onPress={() => {
-        if (onSourcePress) {
-          onSourcePress(item)
-        } else {
-          navigation.navigate('SourceDetail', {id: item.id})
+  const renderSourceItem = ({item}: {item: Source}) => {
+    const isSelected = selected.has(item.id)
+    return (
+      <TouchableOpacity
+        style={[
+          a.p_lg,
+          styles.sourceCard,
+          {backgroundColor: t.palette.white},
+        ]}
+        onPress={() => {
+          if (isSelecting) {
+            toggleSelected(item)
+          } else if (onSourcePress) {
+            onSourcePress(item)
+          } else {
+            navigation.navigate('SourceDetail', {id: item.id})
+          }
+        }}
+        activeOpacity={0.7}
+        accessibilityRole={isSelecting ? 'checkbox' : 'button'}
+        accessibilityState={isSelecting ? {checked: isSelected} : undefined}
+        accessibilityLabel={
+          isSelecting
+            ? _(msg`Select ${item.name}`)
+            : _(msg`View details for ${item.name}`)
         }
-      }}
-      activeOpacity={0.7}
-      accessibilityRole="button"
-      accessibilityLabel={_(msg`View details for ${item.name}`)}
-      accessibilityHint={_(msg`Opens source details screen`)}>
+        accessibilityHint={
+          isSelecting ? '' : _(msg`Opens source details screen`)
+        }>
       
-      {/* Header */}
-      <View style={[a.flex_row, a.align_center, a.justify_between, a.mb_sm]}>
-        <View style={[a.flex_row, a.align_center, a.gap_sm]}>
-          {/* Rank Badge */}
-          <View
-            style={[
-              a.px_sm,
-              a.py_xs,
-              a.rounded_sm,
-              {backgroundColor: getRankColor(item.rank)},
-            ]}>
-            <Text style={[a.text_xs, a.font_bold, {color: 'white'}]}>
-              {item.rank.replace('_', ' ').toUpperCase()}
-            </Text>
-          </View>
-
-          {/* Badge Type */}
-          {item.badgeType && (
+        {/* Header */}
+        <View style={[a.flex_row, a.align_center, a.justify_between, a.mb_sm]}>
+          <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+            {isSelecting && (
+              <View
+                style={[
+                  styles.checkbox,
+                  {
+                    borderColor: isSelected
+                      ? t.palette.primary_500
+                      : t.palette.contrast_300,
+                    backgroundColor: isSelected
+                      ? t.palette.primary_500
+                      : 'transparent',
+                  },
+                ]}>
+                {isSelected && <Check size="xs" fill={t.palette.white} />}
+              </View>
+            )}
+
+            {/* Rank Badge */}
             <View
               style={[
                 a.px_sm,
                 a.py_xs,
                 a.rounded_sm,
-                {backgroundColor: '#e5e7eb'},
+                {backgroundColor: getRankColor(item.rank)},
               ]}>
-              <Text style={[a.text_xs, a.font_bold, {color: '#6b7280'}]}>
-                #{item.badgeType}
+              <Text style={[a.text_xs, a.font_bold, {color: 'white'}]}>
+                {item.rank.replace('_', ' ').toUpperCase()}
               </Text>
             </View>
-          )}
-        </View>
 
-        {/* Vote Counts */}
-        <View style={[a.flex_row, a.align_center, a.gap_sm]}>
-          <Button
-            variant="ghost"
-            size="small"
-            onPress={() => handleVote(item, 'up')}
-            label={_(msg`Upvote ${item.name} (${item.upvotes} votes)`)}>
-            <ButtonIcon icon={ArrowUp} />
-            <ButtonText style={[a.text_sm, {color: '#22c55e'}]}>
-              {item.upvotes}
-            </ButtonText>
-          </Button>
-          <Button
-            variant="ghost"
-            size="small"
-            onPress={() => handleVote(item, 'down')}
-            label={_(msg`Downvote ${item.name} (${item.downvotes} votes)`)}>
-            <ButtonIcon icon={ArrowDown} />
-            <ButtonText style={[a.text_sm, {color: '#ef4444'}]}>
-              {item.downvotes}
-            </ButtonText>
-          </Button>
-        </View>
-      </View>
+            {/* Badge Type */}
+            {item.badgeType && (
+              <View
+                style={[
+                  a.px_sm,
+                  a.py_xs,
+                  a.rounded_sm,
+                  {backgroundColor: '#e5e7eb'},
+                ]}>
+                <Text style={[a.text_xs, a.font_bold, {color: '#6b7280'}]}>
+                  #{item.badgeType}
+                </Text>
+              </View>
+            )}
+          </View>
 
-      {/* Source Name */}
-      <Text style={[a.text_lg, a.font_bold, a.mb_sm, {color: t.palette.contrast_900}]}>
-        {item.name}
-      </Text>
+          {/* Vote Counts */}
+          <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+            <Button
+              variant="ghost"
+              size="small"
+              onPress={() => handleVote(item, 'up')}
+              label={_(msg`Upvote ${item.name} (${item.upvotes} votes)`)}>
+              <ButtonIcon icon={ArrowUp} />
+              <ButtonText style={[a.text_sm, {color: '#22c55e'}]}>
+                {item.upvotes}
+              </ButtonText>
+            </Button>
+            <Button
+              variant="ghost"
+              size="small"
+              onPress={() => handleVote(item, 'down')}
+              label={_(msg`Downvote ${item.name} (${item.downvotes} votes)`)}>
+              <ButtonIcon icon={ArrowDown} />
+              <ButtonText style={[a.text_sm, {color: '#ef4444'}]}>
+                {item.downvotes}
+              </ButtonText>
+            </Button>
+          </View>
+        </View>
 
-      {/* URL */}
-      {item.url && (
-        <Text style={[a.text_sm, a.mb_sm, {color: t.palette.contrast_600}]} numberOfLines={2}>
-          {item.url}
+        {/* Source Name */}
+        <Text style={[a.text_lg, a.font_bold, a.mb_sm, {color: t.palette.contrast_900}]}>
+          {item.name}
         </Text>
-      )}
 
-      {/* Created Date */}
-      <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
-        <Trans>Created: {new Date(item.createdAt).toLocaleDateString()}</Trans>
-      </Text>
-    </TouchableOpacity>
-  )
+        {/* URL */}
+        {item.url && (
+          <Text style={[a.text_sm, a.mb_sm, {color: t.palette.contrast_600}]} numberOfLines={2}>
+            {item.url}
+          </Text>
+        )}
+
+        {/* Created Date */}
+        <Text style={[a.text_xs, {color: t.palette.contrast_500}]}>
+          <Trans>Created: {new Date(item.createdAt).toLocaleDateString()}</Trans>
+        </Text>
+      </TouchableOpacity>
+    )
+  }
 
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
@@ -271,6 +324,16 @@ export function SourcesList({onSourcePress, onCreateSource}: SourcesListProps) {
           </Layout.Header.TitleText>
         </Layout.Header.Content>
         <Layout.Header.Slot>
+          <Button
+            variant="ghost"
+            color="primary"
+            size="small"
+            onPress={toggleSelecting}
+            label={isSelecting ? _(msg`Stop selecting sources`) : _(msg`Select sources to cite`)}>
+            <ButtonText>
+              {isSelecting ? <Trans>Done</Trans> : <Trans>Select</Trans>}
+            </ButtonText>
+          </Button>
           <Button
             variant="solid"
             color="primary"
@@ -407,6 +470,40 @@ export function SourcesList({onSourcePress, onCreateSource}: SourcesListProps) {
       />
       </Layout.Content>
 
+      {/* Selection Bar */}
+      {isSelecting && (
+        <View
+          style={[
+            styles.selectionBar,
+            {
+              backgroundColor: t.palette.white,
+              borderTopColor: t.palette.contrast_100,
+            },
+          ]}>
+          <Text style={[a.text_sm, a.flex_1, {color: t.palette.contrast_700}]}>
+            {_(msg`${plural(selected.size, {one: '# source', other: '# sources'})} selected`)}
+          </Text>
+          <Button
+            variant="solid"
+            color="primary"
+            size="small"
+            disabled={selected.size === 0}
+            onPress={citationDialogControl.open}
+            label={_(msg`Cite selected sources`)}>
+            <ButtonText>
+              <Trans>Cite</Trans>
+            </ButtonText>
+          </Button>
+        </View>
+      )}
+
+      <SourceCitationExportDialog
+        control={citationDialogControl}
+        items={[...selected.values()].map(source => ({
+          source: toCitableSource(source),
+        }))}
+      />
+
       {/* Source Creation Modal */}
       <SourceCreationForm
         control={createSourceDialogControl}
@@ -457,6 +554,22 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -195,6 +195,31 @@ export function resetImageManipulation(
   return img
 }
 
+/**
+ * Swaps in a redacted copy of the image. The copy becomes the new source and
+ * any crop is dropped, since it's already baked in: later edits start from the
+ * redacted pixels and can't bring back what was covered.
+ */
+export async function replaceWithRedactedImage(
+  img: ComposerImage,
+  redacted: ImageMeta,
+): Promise<ComposerImageWithoutTransformation> {
+  return {
+    alt: img.alt,
+    source: {
+      id: nanoid(),
+      path: await moveIfNecessary(redacted.path),
+      width: redacted.width,
+      height: redacted.height,
+      mime: redacted.mime,
+    },
+  }
+}
+
+/**
+ * Re-encodes the image for upload, which also drops its EXIF metadata such
+ * as GPS position and device details
+ */
 export async function compressImage(img: ComposerImage): Promise<PickerImage> {
   const source = img.transformed || img.source
 
@@ -0,0 +1,219 @@
+import {TID} from '@atproto/common-web'
+import {useMutation, useQuery, useQueryClient} from '@tanstack/react-query'
+
+import {
+  createJournalCase,
+  JOURNAL_CASE_COLLECTION,
+  type JournalCase,
+  type JournalCaseRecord,
+  type JournalCaseView,
+  normalizeJournalCase,
+} from '#/lib/journal-cases'
+import {
+  JournalKeyUnavailableError,
+  openJournalData,
+  sealJournalData,
+} from '#/lib/journal-encryption'
+import {logger} from '#/logger'
+import {useAgent, useSession} from '#/state/session'
+import {JOURNAL_GC_TIME, JOURNAL_STALE_TIME} from './journal/constants'
+import {journalKeys} from './journal-keys'
+import {getJournalRkey} from './journal-repository'
+
+const PAGE_SIZE = 100
+
+/**
+ * The user's cases, most recently changed first
+ */
+export function useJournalCasesQuery() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const did = currentAccount?.did ?? ''
+
+  return useQuery<JournalCaseView[], Error>({
+    queryKey: journalKeys.cases(did),
+    queryFn: async () => {
+      const cases: JournalCaseView[] = []
+      let cursor: string | undefined
+      do {
+        const {data} = await agent.com.atproto.repo.listRecords({
+          repo: did,
+          collection: JOURNAL_CASE_COLLECTION,
+          limit: PAGE_SIZE,
+          cursor,
+        })
+        for (const {uri, cid, value} of data.records) {
+          const view = await openJournalCase(did, {
+            uri,
+            cid,
+            value: value as unknown as JournalCaseRecord,
+          })
+          if (view) cases.push(view)
+        }
+        cursor = data.cursor
+      } while (cursor)
+      return cases.sort(
+        (a, b) =>
+          new Date(b.updatedAt ?? b.createdAt).getTime() -
+          new Date(a.updatedAt ?? a.createdAt).getTime(),
+      )
+    },
+    enabled: !!currentAccount,
+    staleTime: JOURNAL_STALE_TIME.ENTRY,
+    gcTime: JOURNAL_GC_TIME.ENTRY,
+  })
+}
+
+/**
+ * One of the user's cases, read from the list of cases
+ */
+export function useJournalCaseQuery(uri: string) {
+  const {data: cases, ...query} = useJournalCasesQuery()
+  return {...query, data: cases?.find(journalCase => journalCase.uri === uri)}
+}
+
+/**
+ * Starts a case with just a title. Cases are always sealed, so this needs
+ * the journal key.
+ *
+ * @returns the new case
+ */
+export function useCreateJournalCaseMutation() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<JournalCaseView, Error, {title: string}>({
+    mutationFn: async ({title}) => {
+      if (!currentAccount) throw new Error('Not authenticated')
+      const data = createJournalCase(title)
+      const record: JournalCaseRecord = {
+        $type: JOURNAL_CASE_COLLECTION,
+        createdAt: new Date().toISOString(),
+        encrypted: await sealJournalData(currentAccount.did, data),
+      }
+      const {data: created} = await agent.com.atproto.repo.createRecord({
+        repo: currentAccount.did,
+        collection: JOURNAL_CASE_COLLECTION,
+        rkey: TID.nextStr(),
+        record: record as unknown as Record<string, unknown>,
+      })
+      return {...data, ...created, createdAt: record.createdAt}
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: journalKeys.cases(currentAccount?.did ?? ''),
+      })
+    },
+    onError: error => {
+      logger.error('Failed to create journal case', {message: String(error)})
+    },
+  })
+}
+
+/**
+ * Saves a case. The write is rejected if the case changed somewhere else
+ * since it was loaded.
+ */
+export function useUpdateJournalCaseMutation() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, {journalCase: JournalCaseView}>({
+    mutationFn: async ({journalCase}) => {
+      if (!currentAccount) throw new Error('Not authenticated')
+      if (journalCase.isLocked) throw new JournalKeyUnavailableError()
+      const record: JournalCaseRecord = {
+        $type: JOURNAL_CASE_COLLECTION,
+        createdAt: journalCase.createdAt,
+        updatedAt: new Date().toISOString(),
+        encrypted: await sealJournalData(
+          currentAccount.did,
+          toJournalCase(journalCase),
+        ),
+      }
+      await agent.com.atproto.repo.putRecord({
+        repo: currentAccount.did,
+        collection: JOURNAL_CASE_COLLECTION,
+        rkey: getJournalRkey(journalCase.uri),
+        record: record as unknown as Record<string, unknown>,
+        swapRecord: journalCase.cid,
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: journalKeys.cases(currentAccount?.did ?? ''),
+      })
+    },
+    onError: error => {
+      logger.error('Failed to update journal case', {message: String(error)})
+    },
+  })
+}
+
+/**
+ * Deletes a case. Its entries, evidence and sources are left as they are.
+ */
+export function useDeleteJournalCaseMutation() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, {uri: string}>({
+    mutationFn: async ({uri}) => {
+      if (!currentAccount) throw new Error('Not authenticated')
+      await agent.com.atproto.repo.deleteRecord({
+        repo: currentAccount.did,
+        collection: JOURNAL_CASE_COLLECTION,
+        rkey: getJournalRkey(uri),
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: journalKeys.cases(currentAccount?.did ?? ''),
+      })
+    },
+    onError: error => {
+      logger.error('Failed to delete journal case', {message: String(error)})
+    },
+  })
+}
+
+async function openJournalCase(
+  did: string,
+  {uri, cid, value}: {uri: string; cid: string; value: JournalCaseRecord},
+): Promise<JournalCaseView | undefined> {
+  const meta = {
+    uri,
+    cid,
+    createdAt: value.createdAt,
+    updatedAt: value.updatedAt,
+  }
+  try {
+    const data = await openJournalData<Partial<JournalCase>>(
+      did,
+      value.encrypted,
+    )
+    return {...normalizeJournalCase(data), ...meta}
+  } catch (e) {
+    if (e instanceof JournalKeyUnavailableError) {
+      return {...createJournalCase(''), ...meta, isLocked: true}
+    }
+    logger.warn('Skipping invalid journal case', {message: String(e), uri})
+    return undefined
+  }
+}
+
+// Drops the view-only fields before a case is sealed
+function toJournalCase({
+  title,
+  summary,
+  status,
+  keyDates,
+  entries,
+  evidence,
+  sources,
+}: JournalCase): JournalCase {
+  return {title, summary, status, keyDates, entries, evidence, sources}
+}
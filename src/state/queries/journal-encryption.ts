@@ -0,0 +1,338 @@
+import {useCallback} from 'react'
+import {useMutation, useQuery, useQueryClient} from '@tanstack/react-query'
+
+import {
+  createJournalKey,
+  exportRecoveryPhrase,
+  forgetJournalKeys,
+  getUnlockedKeyIds,
+  hasActiveKey,
+  type JournalKeyParams,
+  openJournalRecord,
+  restoreJournalKey,
+  sealJournalRecord,
+  unlockJournalKeys,
+} from '#/lib/journal-encryption'
+import {logger} from '#/logger'
+import {STALE} from '#/state/queries'
+import {useAgent, useSession} from '#/state/session'
+import {stampJournalRecord} from './journal-integrity'
+import {journalKeys} from './journal-keys'
+import {
+  getJournalRkey,
+  listJournalRecords,
+  putJournalRecord,
+  type RawJournalRecord,
+} from './journal-repository'
+
+const SETTINGS_COLLECTION = 'app.warlog.settings'
+const SETTINGS_RKEY = 'encryption'
+
+/**
+ * Public key parameters, stored in the user's repo so that any of their
+ * devices can re-derive the same keys from the passphrase
+ */
+export interface JournalEncryptionSettings {
+  activeKeyId?: string
+  keys: JournalKeyParams[]
+}
+
+export interface JournalEncryptionStatus {
+  settings: JournalEncryptionSettings
+  isSetUp: boolean
+  isUnlocked: boolean
+  unlockedKeyIds: string[]
+}
+
+export interface JournalKeyRotationResult {
+  keyId: string
+  reencrypted: number
+  failed: number
+}
+
+type Agent = ReturnType<typeof useAgent>
+
+async function fetchEncryptionSettings(
+  agent: Agent,
+  did: string,
+): Promise<JournalEncryptionSettings> {
+  try {
+    const res = await agent.com.atproto.repo.getRecord({
+      repo: did,
+      collection: SETTINGS_COLLECTION,
+      rkey: SETTINGS_RKEY,
+    })
+    const value = res.data.value as Partial<JournalEncryptionSettings>
+    return {activeKeyId: value.activeKeyId, keys: value.keys || []}
+  } catch (e: any) {
+    if (e?.message?.includes('Could not locate record')) {
+      return {keys: []}
+    }
+    throw e
+  }
+}
+
+async function writeEncryptionSettings(
+  agent: Agent,
+  did: string,
+  settings: JournalEncryptionSettings,
+) {
+  await agent.com.atproto.repo.putRecord({
+    repo: did,
+    collection: SETTINGS_COLLECTION,
+    rkey: SETTINGS_RKEY,
+    record: {
+      $type: SETTINGS_COLLECTION,
+      ...settings,
+      updatedAt: new Date().toISOString(),
+    },
+  })
+}
+
+/**
+ * Whether the user has set up journal encryption, and whether it's unlocked
+ * on this device
+ */
+export function useJournalEncryptionStatus() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+
+  return useQuery<JournalEncryptionStatus, Error>({
+    queryKey: journalKeys.encryption(currentAccount?.did || ''),
+    queryFn: async () => {
+      if (!currentAccount) throw new Error('No authenticated user')
+      const settings = await fetchEncryptionSettings(agent, currentAccount.did)
+      return {
+        settings,
+        isSetUp: settings.keys.length > 0,
+        isUnlocked: await hasActiveKey(currentAccount.did),
+        unlockedKeyIds: await getUnlockedKeyIds(currentAccount.did),
+      }
+    },
+    staleTime: STALE.MINUTES.FIVE,
+    enabled: !!currentAccount,
+  })
+}
+
+/**
+ * First-time setup: derives a key from the passphrase and registers its
+ * parameters. Fails if encryption is already set up; use rotation instead.
+ */
+export function useSetupJournalEncryption() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<JournalKeyParams, Error, {passphrase: string}>({
+    mutationFn: async ({passphrase}) => {
+      if (!currentAccount) throw new Error('No authenticated user')
+      const settings = await fetchEncryptionSettings(agent, currentAccount.did)
+      if (settings.keys.length > 0) {
+        throw new Error('Journal encryption is already set up')
+      }
+      const params = await createJournalKey(currentAccount.did, passphrase)
+      await writeEncryptionSettings(agent, currentAccount.did, {
+        activeKeyId: params.keyId,
+        keys: [params],
+      })
+      logger.info('Journal encryption set up', {keyId: params.keyId})
+      return params
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: journalKeys.encryption(currentAccount?.did || ''),
+      })
+    },
+  })
+}
+
+/**
+ * Unlocks the journal on this device by re-deriving keys from the passphrase
+ */
+export function useUnlockJournalEncryption() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<string[], Error, {passphrase: string}>({
+    mutationFn: async ({passphrase}) => {
+      if (!currentAccount) throw new Error('No authenticated user')
+      const settings = await fetchEncryptionSettings(agent, currentAccount.did)
+      const unlocked = await unlockJournalKeys(
+        currentAccount.did,
+        passphrase,
+        settings.keys,
+        settings.activeKeyId,
+      )
+      if (!unlocked.length) {
+        throw new Error('Incorrect passphrase')
+      }
+      return unlocked
+    },
+    onSuccess: () => {
+      // entries that were locked can now be decrypted
+      queryClient.invalidateQueries({queryKey: journalKeys.all})
+    },
+  })
+}
+
+/**
+ * Unlocks the journal with a recovery phrase, for when the passphrase has
+ * been forgotten
+ */
+export function useRestoreJournalKey() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<string, Error, {phrase: string}>({
+    mutationFn: async ({phrase}) => {
+      if (!currentAccount) throw new Error('No authenticated user')
+      const settings = await fetchEncryptionSettings(agent, currentAccount.did)
+      return restoreJournalKey(
+        currentAccount.did,
+        phrase,
+        settings.keys,
+        settings.activeKeyId,
+      )
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({queryKey: journalKeys.all})
+    },
+  })
+}
+
+/**
+ * Seals an entry again with the active key. The ciphertext is part of what
+ * the integrity hash covers, so the write is stamped as an amendment or the
+ * entry would verify as modified.
+ */
+export async function reencryptJournalRecord(
+  agent: Agent,
+  did: string,
+  record: RawJournalRecord,
+) {
+  const opened = await openJournalRecord(did, record.value)
+  const sealed = await sealJournalRecord(did, opened)
+  await putJournalRecord(agent, did, {
+    rkey: getJournalRkey(record.uri),
+    record: await stampJournalRecord(agent, did, 'update', sealed),
+    swapRecord: record.cid,
+  })
+}
+
+/**
+ * Rotates to a new key derived from `passphrase` and re-encrypts every sealed
+ * entry with it. The previous key is marked retired but kept on this device
+ * so entries that failed to re-encrypt remain readable; rotation can simply
+ * be run again to pick them up.
+ */
+export function useRotateJournalKey() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<JournalKeyRotationResult, Error, {passphrase: string}>({
+    mutationFn: async ({passphrase}) => {
+      if (!currentAccount) throw new Error('No authenticated user')
+      const did = currentAccount.did
+      const settings = await fetchEncryptionSettings(agent, did)
+      if (!(await hasActiveKey(did))) {
+        throw new Error('Unlock your journal before rotating its key')
+      }
+
+      const params = await createJournalKey(did, passphrase)
+      const retiredAt = new Date().toISOString()
+      await writeEncryptionSettings(agent, did, {
+        activeKeyId: params.keyId,
+        keys: [
+          ...settings.keys.map(k => (k.retiredAt ? k : {...k, retiredAt})),
+          params,
+        ],
+      })
+
+      let reencrypted = 0
+      let failed = 0
+      let cursor: string | undefined
+      do {
+        const page = await listJournalRecords(agent, did, {cursor})
+        for (const record of page.records) {
+          const {value} = record
+          if (!value.encrypted || value.encrypted.keyId === params.keyId) {
+            continue
+          }
+          try {
+            await reencryptJournalRecord(agent, did, record)
+            reencrypted++
+          } catch (e) {
+            failed++
+            logger.error('Failed to re-encrypt journal entry', {
+              message: String(e),
+              uri: record.uri,
+            })
+          }
+        }
+        cursor = page.cursor
+      } while (cursor)
+
+      logger.info('Journal key rotated', {
+        keyId: params.keyId,
+        reencrypted,
+        failed,
+      })
+      return {keyId: params.keyId, reencrypted, failed}
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({queryKey: journalKeys.all})
+    },
+  })
+}
+
+/**
+ * Removes all journal keys from this device. Entries stay encrypted in the
+ * repo and can be unlocked again with the passphrase or recovery phrase.
+ */
+export function useForgetJournalKey() {
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, void>({
+    mutationFn: async () => {
+      if (!currentAccount) throw new Error('No authenticated user')
+      await forgetJournalKeys(currentAccount.did)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({queryKey: journalKeys.all})
+    },
+  })
+}
+
+/**
+ * Returns a callback that produces the recovery phrase for the active key
+ */
+export function useJournalRecoveryPhrase() {
+  const {currentAccount} = useSession()
+  return useCallback(async () => {
+    if (!currentAccount) throw new Error('No authenticated user')
+    return exportRecoveryPhrase(currentAccount.did)
+  }, [currentAccount])
+}
+
+/**
+ * Helpers bound to the current account for sealing and opening records
+ */
+export function useJournalRecordCrypto() {
+  const {currentAccount} = useSession()
+  const did = currentAccount?.did || ''
+  const seal = useCallback(
+    <T extends Record<string, any>>(record: T) =>
+      sealJournalRecord(did, record),
+    [did],
+  )
+  const open = useCallback(
+    <T extends Record<string, any>>(record: T) =>
+      openJournalRecord(did, record),
+    [did],
+  )
+  return {seal, open}
+}
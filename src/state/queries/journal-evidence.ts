@@ -0,0 +1,229 @@
+import {useEffect, useState} from 'react'
+import {type BlobRef} from '@atproto/api'
+import {useMutation} from '@tanstack/react-query'
+
+import {uploadBlob} from '#/lib/api/upload-blob'
+import {
+  hasActiveKey,
+  JournalKeyUnavailableError,
+  openJournalBytes,
+  sealJournalBytes,
+} from '#/lib/journal-encryption'
+import {
+  getEvidenceBlobUrl,
+  getEvidenceThumbnailUrl,
+  type JournalEvidenceFile,
+  validateEvidenceFile,
+} from '#/lib/journal-evidence'
+import {
+  createEvidenceThumbnail,
+  readEvidenceBytes,
+  releaseEvidenceFile,
+  toUploadableEvidence,
+  writeEvidenceFile,
+} from '#/lib/journal-evidence/file'
+import {type JournalEvidenceAttachment} from '#/lib/journal-record'
+import {stripImageMetadata} from '#/lib/media/manip'
+import {logger} from '#/logger'
+import {useAgent, useSession} from '#/state/session'
+
+type Agent = ReturnType<typeof useAgent>
+
+const ENCRYPTED_MIME_TYPE = 'application/octet-stream'
+
+/**
+ * Uploads a picked file as a blob on the user's PDS, along with a thumbnail
+ * for images and video. With `encrypt`, the file and thumbnail are sealed
+ * with the user's active journal key before they leave the device.
+ *
+ * @throws JournalEvidenceValidationError if the file can't be attached
+ * @throws JournalKeyUnavailableError if encrypting without an unlocked key
+ */
+export function useUploadJournalEvidence() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+
+  return useMutation<
+    JournalEvidenceAttachment,
+    Error,
+    {file: JournalEvidenceFile; encrypt: boolean; description?: string}
+  >({
+    mutationFn: async ({file, encrypt, description}) => {
+      if (!currentAccount) throw new Error('Not authenticated')
+      const did = currentAccount.did
+      const type = validateEvidenceFile(file)
+      if (encrypt && !(await hasActiveKey(did))) {
+        throw new JournalKeyUnavailableError()
+      }
+
+      // Unencrypted blobs can be fetched by anyone who has the link, so
+      // images lose their location and device tags first. The capture time
+      // has already been read into `capturedAt`.
+      const scrubbed =
+        !encrypt && type === 'image'
+          ? await stripImageMetadata(file.uri)
+          : undefined
+      const source = scrubbed
+        ? {uri: scrubbed.path, mimeType: scrubbed.mime, size: scrubbed.size}
+        : {uri: file.uri, mimeType: file.mimeType, size: file.size}
+
+      const thumbnailUri = await createEvidenceThumbnail(
+        source.uri,
+        type,
+      ).catch(e => {
+        logger.warn('Failed to create journal evidence thumbnail', {
+          message: String(e),
+        })
+        return undefined
+      })
+
+      const upload = encrypt ? uploadSealedEvidence : uploadPlainEvidence
+      let uploaded: {blob: BlobRef; keyId?: string}
+      try {
+        uploaded = await upload(agent, did, source.uri, source.mimeType)
+      } finally {
+        if (scrubbed) releaseEvidenceFile(scrubbed.path).catch(() => {})
+      }
+      let thumbnail: BlobRef | undefined
+      if (thumbnailUri) {
+        try {
+          thumbnail = (await upload(agent, did, thumbnailUri, 'image/jpeg'))
+            .blob
+        } finally {
+          releaseEvidenceFile(thumbnailUri).catch(() => {})
+        }
+      }
+
+      const serviceUrl = (agent.pdsUrl ?? agent.serviceUrl).toString()
+      return {
+        uri: getEvidenceBlobUrl(serviceUrl, did, uploaded.blob.ref.toString()),
+        type,
+        filename: file.filename,
+        size: source.size,
+        mimeType: source.mimeType,
+        capturedAt: file.capturedAt,
+        description: description || undefined,
+        blob: uploaded.blob,
+        thumbnail,
+        encryptionKeyId: uploaded.keyId,
+      }
+    },
+    onError: error => {
+      logger.error('Failed to upload journal evidence', {
+        message: String(error),
+      })
+    },
+  })
+}
+
+async function uploadPlainEvidence(
+  agent: Agent,
+  _did: string,
+  uri: string,
+  mimeType: string,
+): Promise<{blob: BlobRef; keyId?: string}> {
+  const {data} = await uploadBlob(
+    agent,
+    await toUploadableEvidence(uri),
+    mimeType,
+  )
+  return {blob: data.blob}
+}
+
+async function uploadSealedEvidence(
+  agent: Agent,
+  did: string,
+  uri: string,
+  _mimeType: string,
+): Promise<{blob: BlobRef; keyId?: string}> {
+  const {keyId, sealed} = await sealJournalBytes(
+    did,
+    await readEvidenceBytes(uri),
+  )
+  const sealedUri = await writeEvidenceFile(sealed, ENCRYPTED_MIME_TYPE)
+  try {
+    const {blob} = await uploadPlainEvidence(
+      agent,
+      did,
+      sealedUri,
+      ENCRYPTED_MIME_TYPE,
+    )
+    return {blob, keyId}
+  } finally {
+    releaseEvidenceFile(sealedUri).catch(() => {})
+  }
+}
+
+export type JournalEvidenceUriState =
+  | {status: 'loading'; uri?: undefined}
+  | {status: 'ready'; uri: string}
+  | {status: 'locked'; uri?: undefined}
+  | {status: 'error'; uri?: undefined}
+
+/**
+ * A URI that an image, video or audio player can load for an evidence item
+ * or its thumbnail. Encrypted evidence is downloaded and decrypted to a
+ * temporary file that's removed again when the component unmounts, so
+ * decrypted copies don't pile up on the device.
+ */
+export function useJournalEvidenceUri(
+  authorDid: string,
+  evidence: JournalEvidenceAttachment,
+  variant: 'file' | 'thumbnail' = 'file',
+): JournalEvidenceUriState {
+  const remoteUri =
+    variant === 'file' ? evidence.uri : getEvidenceThumbnailUrl(evidence)
+  const keyId = evidence.encryptionKeyId
+  const mimeType =
+    variant === 'file'
+      ? (evidence.mimeType ?? ENCRYPTED_MIME_TYPE)
+      : 'image/jpeg'
+
+  const [state, setState] = useState<JournalEvidenceUriState>(() =>
+    remoteUri && !keyId
+      ? {status: 'ready', uri: remoteUri}
+      : {status: remoteUri ? 'loading' : 'error'},
+  )
+
+  useEffect(() => {
+    if (!remoteUri) {
+      setState({status: 'error'})
+      return
+    }
+    if (!keyId) {
+      setState({status: 'ready', uri: remoteUri})
+      return
+    }
+
+    let cancelled = false
+    let decryptedUri: string | undefined
+    setState({status: 'loading'})
+    ;(async () => {
+      const sealed = await readEvidenceBytes(remoteUri)
+      const bytes = await openJournalBytes(authorDid, keyId, sealed)
+      decryptedUri = await writeEvidenceFile(bytes, mimeType)
+      if (cancelled) {
+        releaseEvidenceFile(decryptedUri).catch(() => {})
+      } else {
+        setState({status: 'ready', uri: decryptedUri})
+      }
+    })().catch(e => {
+      if (cancelled) return
+      if (e instanceof JournalKeyUnavailableError) {
+        setState({status: 'locked'})
+      } else {
+        logger.error('Failed to decrypt journal evidence', {
+          message: String(e),
+        })
+        setState({status: 'error'})
+      }
+    })
+
+    return () => {
+      cancelled = true
+      if (decryptedUri) releaseEvidenceFile(decryptedUri).catch(() => {})
+    }
+  }, [authorDid, remoteUri, keyId, mimeType])
+
+  return state
+}
@@ -0,0 +1,137 @@
+import {msg} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+import {useMutation} from '@tanstack/react-query'
+
+import {getJournalCaseEntryUris} from '#/lib/journal-cases'
+import {
+  buildJournalExportCSV,
+  buildJournalExportJSON,
+  buildJournalReportHTML,
+  filterJournalExportEntries,
+  type JournalExportRevision,
+  toJournalExportEntry,
+  toJournalExportRevision,
+} from '#/lib/journal-export'
+import {shareJournalExport} from '#/lib/journal-export/share'
+import {logger} from '#/logger'
+import {useAgent, useSession} from '#/state/session'
+import {type JournalExportRequest} from './journal/types'
+import {useJournalCasesQuery} from './journal-cases'
+import {
+  listAllJournalRecords,
+  listAllJournalRevisions,
+  readJournalRecords,
+  readJournalRevisions,
+} from './journal-repository'
+
+export interface JournalExportResult {
+  exported: number
+  // entries that matched but couldn't be decrypted on this device
+  locked: number
+}
+
+/**
+ * Exports the signed-in user's journal. Every record is fetched and opened
+ * on the device, so private entries are exported in plaintext when their key
+ * is unlocked and are marked as locked otherwise. Edited entries carry their
+ * earlier versions. An export scoped to a case only has the case's entries.
+ */
+export function useJournalExport() {
+  const {_} = useLingui()
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const {data: cases} = useJournalCasesQuery()
+
+  return useMutation<JournalExportResult, Error, JournalExportRequest>({
+    mutationFn: async request => {
+      if (!currentAccount) throw new Error('Not authenticated')
+      const journalCase = request.caseUri
+        ? cases?.find(item => item.uri === request.caseUri)
+        : undefined
+      if (request.caseUri && (!journalCase || journalCase.isLocked)) {
+        throw new Error('That case could not be opened on this device.')
+      }
+
+      const records = await readJournalRecords(
+        currentAccount.did,
+        await listAllJournalRecords(agent, currentAccount.did),
+      )
+      const revisions = new Map<string, JournalExportRevision[]>()
+      for (const {revisedAt, version} of await readJournalRevisions(
+        currentAccount.did,
+        await listAllJournalRevisions(agent, currentAccount.did),
+      )) {
+        revisions.set(version.uri, [
+          ...(revisions.get(version.uri) ?? []),
+          toJournalExportRevision(version, revisedAt),
+        ])
+      }
+      const entries = filterJournalExportEntries(
+        records.map(record => ({
+          ...toJournalExportEntry(record),
+          revisions: revisions.get(record.uri),
+        })),
+        {
+          ...request,
+          entryUris: journalCase && getJournalCaseEntryUris(journalCase),
+        },
+      )
+      const options = {
+        includeEvidence: request.includeEvidence,
+        exportedBy: currentAccount.did,
+        journalCase: journalCase && {
+          title: journalCase.title,
+          summary: journalCase.summary,
+          status: journalCase.status,
+          keyDates: journalCase.keyDates,
+          sources: journalCase.sources,
+        },
+      }
+      const date = new Date().toISOString().slice(0, 10)
+      const filename = `journal-${date}.${request.format}`
+
+      let content: string
+      switch (request.format) {
+        case 'json':
+          content = buildJournalExportJSON(entries, options)
+          break
+        case 'csv':
+          content = buildJournalExportCSV(entries, options)
+          break
+        case 'pdf':
+          content = buildJournalReportHTML(
+            entries,
+            {
+              title: _(msg`Journal report`),
+              generated: _(msg`Generated`),
+              entries: _(msg`Entries`),
+              recorded: _(msg`Recorded`),
+              backdated: _(msg`Backdated entry.`),
+              location: _(msg`Location`),
+              symptoms: _(msg`Symptoms`),
+              tags: _(msg`Tags`),
+              evidence: _(msg`Evidence`),
+              locked: _(
+                msg`This entry is encrypted and could not be unlocked on this device.`,
+              ),
+              case: _(msg`Case`),
+              earlierVersions: _(msg`Earlier versions`),
+              replaced: _(msg`Replaced by an edit on`),
+            },
+            options,
+          )
+          break
+      }
+
+      await shareJournalExport({filename, format: request.format, content})
+
+      return {
+        exported: entries.length,
+        locked: entries.filter(entry => entry.isLocked).length,
+      }
+    },
+    onError: e => {
+      logger.error('Failed to export journal', {message: String(e)})
+    },
+  })
+}
@@ -0,0 +1,282 @@
+import {AtUri} from '@atproto/api'
+import {ed25519} from '@noble/curves/ed25519'
+import {bytesToHex} from '@noble/hashes/utils'
+import {useMutation, useQuery} from '@tanstack/react-query'
+
+import {shareJournalExport} from '#/lib/journal-export/share'
+import {
+  amendJournalIntegrity,
+  buildJournalManifest,
+  createJournalIntegrity,
+  type JournalChainBreak,
+  type JournalChainHead,
+  type JournalIntegrity,
+  type JournalIntegrityStatus,
+  type JournalRecordLike,
+  signJournalManifest,
+  verifyJournalChain,
+  verifyJournalRecord,
+} from '#/lib/journal-integrity'
+import {hashEvidenceFile} from '#/lib/journal-integrity/evidence'
+import {getSigningKey} from '#/lib/journal-integrity/signing-key'
+import {logger} from '#/logger'
+import {useAgent, useSession} from '#/state/session'
+import {account} from '#/storage'
+import {journalKeys} from './journal-keys'
+import {
+  getJournalRecord,
+  getJournalRkey,
+  listAllJournalRecords,
+  listJournalRecords,
+} from './journal-repository'
+
+const SETTINGS_COLLECTION = 'app.warlog.settings'
+const SETTINGS_RKEY = 'integrity'
+const RETENTION_LOG_COLLECTION = 'app.warlog.retentionLog'
+
+type Agent = ReturnType<typeof useAgent>
+
+/**
+ * Public halves of the keys the account's devices sign manifests with
+ */
+export interface JournalIntegritySettings {
+  signingKeys: Array<{alg: 'ed25519'; publicKey: string; createdAt: string}>
+}
+
+export interface JournalEvidenceVerification {
+  uri: string
+  status: 'match' | 'mismatch' | 'unavailable'
+}
+
+export interface JournalEntryVerification {
+  status: JournalIntegrityStatus
+  chainHashValid: boolean
+  chainBreak?: JournalChainBreak['reason']
+  integrity?: JournalIntegrity
+  evidence: JournalEvidenceVerification[]
+}
+
+function getEvidenceUris(record: JournalRecordLike): string[] {
+  return [
+    ...(record.evidenceUris ?? []),
+    ...(record.evidenceAttachments ?? []).map((e: any) => e.uri),
+  ].filter(Boolean)
+}
+
+/**
+ * Hashes any evidence files on the record that haven't been hashed yet. A
+ * file that can't be read is skipped rather than blocking the write.
+ */
+async function hashNewEvidence(
+  record: JournalRecordLike,
+  existing?: Record<string, string>,
+): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {}
+  for (const uri of getEvidenceUris(record)) {
+    if (existing?.[uri]) continue
+    try {
+      hashes[uri] = await hashEvidenceFile(uri)
+    } catch (e) {
+      logger.warn('Failed to hash journal evidence', {message: String(e)})
+    }
+  }
+  return hashes
+}
+
+async function getJournalChainHead(
+  agent: Agent,
+  did: string,
+): Promise<JournalChainHead | null> {
+  const local = account.get([did, 'journalChainHead'])
+  // another device may have extended the chain since we last wrote
+  const {records} = await listJournalRecords(agent, did, {limit: 1})
+  const remote = (records[0]?.value as JournalRecordLike | undefined)?.integrity
+  if (remote && (!local || remote.seq > local.seq)) {
+    return {seq: remote.seq, chainHash: remote.chainHash}
+  }
+  return local ?? null
+}
+
+export function setJournalChainHead(did: string, integrity: JournalIntegrity) {
+  const local = account.get([did, 'journalChainHead'])
+  if (!local || integrity.seq > local.seq) {
+    account.set([did, 'journalChainHead'], {
+      seq: integrity.seq,
+      chainHash: integrity.chainHash,
+    })
+  }
+}
+
+/**
+ * Adds or updates the integrity block on a record just before it's sent.
+ * This runs at send time rather than when the write is made, so that writes
+ * queued offline are chained in the order they reach the server.
+ */
+export async function stampJournalRecord(
+  agent: Agent,
+  did: string,
+  action: 'create' | 'update',
+  record: JournalRecordLike,
+): Promise<JournalRecordLike> {
+  const {integrity, ...rest} = record
+  if (action === 'create') {
+    const head = await getJournalChainHead(agent, did)
+    const evidence = await hashNewEvidence(rest)
+    return {...rest, integrity: createJournalIntegrity(rest, head, evidence)}
+  }
+  if (!integrity) {
+    // entries written before integrity tracking can't be retrofitted
+    return rest
+  }
+  const evidence = await hashNewEvidence(rest, integrity.evidence)
+  return {...rest, integrity: amendJournalIntegrity(rest, integrity, evidence)}
+}
+
+/**
+ * Chain hashes of every entry removed by data retention, as recorded in the
+ * retention log by `useApplyJournalRetention`
+ */
+async function listPurgedChainHashes(
+  agent: Agent,
+  did: string,
+): Promise<string[]> {
+  const hashes: string[] = []
+  let cursor: string | undefined
+  do {
+    const {data} = await agent.com.atproto.repo.listRecords({
+      repo: did,
+      collection: RETENTION_LOG_COLLECTION,
+      limit: 100,
+      cursor,
+    })
+    for (const record of data.records) {
+      hashes.push(...((record.value as any).chainHashes ?? []))
+    }
+    cursor = data.cursor
+  } while (cursor)
+  return hashes
+}
+
+// Hashes cover the records as stored, so these are never migrated or opened
+async function listJournalChain(agent: Agent, did: string) {
+  const records = await listAllJournalRecords(agent, did)
+  return records.map(record => ({
+    ...(record.value as JournalRecordLike),
+    uri: record.uri,
+  }))
+}
+
+/**
+ * Checks a journal entry, its evidence files and its place in the author's
+ * chain against the hashes recorded when it was written
+ */
+export function useJournalEntryVerification(
+  uri: string,
+  {enabled}: {enabled: boolean},
+) {
+  const agent = useAgent()
+
+  return useQuery<JournalEntryVerification, Error>({
+    queryKey: journalKeys.integrity(uri),
+    queryFn: async () => {
+      const repo = new AtUri(uri).host
+      const {value} = await getJournalRecord(agent, repo, getJournalRkey(uri))
+      const record = value as JournalRecordLike
+      const {status, chainHashValid, integrity} = verifyJournalRecord(record)
+      if (!integrity) {
+        return {status, chainHashValid, evidence: []}
+      }
+
+      const evidence: JournalEvidenceVerification[] = []
+      for (const [evidenceUri, hash] of Object.entries(
+        integrity.evidence ?? {},
+      )) {
+        try {
+          const actual = await hashEvidenceFile(evidenceUri)
+          evidence.push({
+            uri: evidenceUri,
+            status: actual === hash ? 'match' : 'mismatch',
+          })
+        } catch {
+          evidence.push({uri: evidenceUri, status: 'unavailable'})
+        }
+      }
+
+      const {breaks} = verifyJournalChain(
+        await listJournalChain(agent, repo),
+        await listPurgedChainHashes(agent, repo),
+      )
+      const chainBreak = breaks.find(b => b.uri === uri)?.reason
+
+      return {status, chainHashValid, chainBreak, integrity, evidence}
+    },
+    enabled,
+    staleTime: 0,
+  })
+}
+
+async function publishSigningKey(agent: Agent, did: string, publicKey: string) {
+  let settings: JournalIntegritySettings = {signingKeys: []}
+  try {
+    const res = await agent.com.atproto.repo.getRecord({
+      repo: did,
+      collection: SETTINGS_COLLECTION,
+      rkey: SETTINGS_RKEY,
+    })
+    const value = res.data.value as Partial<JournalIntegritySettings>
+    settings = {signingKeys: value.signingKeys || []}
+  } catch (e: any) {
+    if (!e?.message?.includes('Could not locate record')) throw e
+  }
+  if (settings.signingKeys.some(key => key.publicKey === publicKey)) return
+
+  await agent.com.atproto.repo.putRecord({
+    repo: did,
+    collection: SETTINGS_COLLECTION,
+    rkey: SETTINGS_RKEY,
+    record: {
+      $type: SETTINGS_COLLECTION,
+      signingKeys: [
+        ...settings.signingKeys,
+        {alg: 'ed25519', publicKey, createdAt: new Date().toISOString()},
+      ],
+      updatedAt: new Date().toISOString(),
+    },
+  })
+}
+
+/**
+ * Builds a manifest of every entry's hashes, signs it with this device's key
+ * and shares it as a JSON file
+ */
+export function useExportJournalManifest() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+
+  return useMutation<{entries: number; breaks: number}, Error, void>({
+    mutationFn: async () => {
+      if (!currentAccount) throw new Error('Not authenticated')
+      const did = currentAccount.did
+      const records = await listJournalChain(agent, did)
+      const key = await getSigningKey(did)
+      await publishSigningKey(agent, did, bytesToHex(ed25519.getPublicKey(key)))
+
+      const manifest = buildJournalManifest(did, records)
+      const signed = signJournalManifest(manifest, key)
+      const date = new Date().toISOString().slice(0, 10)
+      await shareJournalExport({
+        filename: `journal-manifest-${date}.json`,
+        format: 'json',
+        content: JSON.stringify(signed, null, 2),
+      })
+      const purged = await listPurgedChainHashes(agent, did)
+      return {
+        entries: manifest.entries.length,
+        breaks: verifyJournalChain(records, purged).breaks.length,
+      }
+    },
+    onError: e => {
+      logger.error('Failed to export journal manifest', {message: String(e)})
+    },
+  })
+}
@@ -9,29 +9,47 @@ export const journalKeys = {
   feeds: () => [...journalKeys.all, 'feeds'] as const,
   analytics: () => [...journalKeys.all, 'analytics'] as const,
   sources: () => [...journalKeys.all, 'sources'] as const,
+  comments: () => [...journalKeys.all, 'comments'] as const,
+  privacy: () => [...journalKeys.all, 'privacy'] as const,
   
   // Entry-specific keys
   entry: (uri: string) => [...journalKeys.entries(), 'detail', uri] as const,
   entryList: (did: string, filters?: JournalFilters) => 
     [...journalKeys.entries(), 'list', did, filters] as const,
+  allEntries: (did: string) => 
+    [...journalKeys.entries(), 'all', did] as const,
   entrySearch: (did: string, query: string) => 
     [...journalKeys.entries(), 'search', did, query] as const,
   entryDrafts: (did: string) => 
     [...journalKeys.entries(), 'drafts', did] as const,
+  revisions: (uri: string) => 
+    [...journalKeys.entries(), 'revisions', uri] as const,
+  search: (did: string, params: object) => 
+    [...journalKeys.entries(), 'search', did, params] as const,
   
   // Feed keys with hierarchical invalidation
   timeline: (did: string, privacy: PrivacyLevel) => 
     [...journalKeys.feeds(), 'timeline', did, privacy] as const,
-  feed: (did: string, feedType: FeedType, params?: FeedParams) => 
+  feed: (did: string, feedType: string, params?: FeedParams) => 
     [...journalKeys.feeds(), feedType, did, params] as const,
   
   // Analytics keys
   stats: (did: string, period: TimePeriod) => 
     [...journalKeys.analytics(), 'stats', did, period] as const,
-  trends: (did: string, period: TimePeriod) => 
-    [...journalKeys.analytics(), 'trends', did, period] as const,
+  summary: (did: string, period: string) => 
+    [...journalKeys.analytics(), 'summary', did, period] as const,
+  trends: (did: string, period: string, metric?: string) => 
+    [...journalKeys.analytics(), 'trends', did, period, metric] as const,
   insights: (did: string) => 
     [...journalKeys.analytics(), 'insights', did] as const,
+  activity: (did: string, timeframe: string) => 
+    [...journalKeys.analytics(), 'activity', did, timeframe] as const,
+  
+  // Comment keys
+  entryComments: (entryUri: string) => 
+    [...journalKeys.comments(), entryUri] as const,
+  entryWitnesses: (entryUri: string) => 
+    [...journalKeys.all, 'witnesses', entryUri] as const,
   
   // Source-related keys
   entrySources: (entryUri: string) => 
@@ -41,11 +59,31 @@ export const journalKeys = {
   
   // Privacy and settings keys
   privacySettings: (did: string) => 
-    [...journalKeys.all, 'privacy', did] as const,
+    [...journalKeys.privacy(), 'settings', did] as const,
+  userBadges: (did: string) => 
+    [...journalKeys.privacy(), 'badges', did] as const,
+  accessGrants: (authorDid: string) => 
+    [...journalKeys.privacy(), 'grants', authorDid] as const,
+  accessLog: (entryUri: string) => 
+    [...journalKeys.privacy(), 'access-log', entryUri] as const,
+  accessRequests: (did: string) => 
+    [...journalKeys.privacy(), 'access-requests', did] as const,
+  cases: (did: string) => 
+    [...journalKeys.all, 'cases', did] as const,
   sharing: (did: string) => 
     [...journalKeys.all, 'sharing', did] as const,
+  sharePacket: (did: string, id: string) => 
+    [...journalKeys.all, 'share-packet', did, id] as const,
   permissions: (did: string, resource?: string) => 
-    [...journalKeys.all, 'permissions', did, resource] as const,
+    [...journalKeys.privacy(), 'permissions', did, resource] as const,
+  encryption: (did: string) => 
+    [...journalKeys.all, 'encryption', did] as const,
+  integrity: (uri: string) => 
+    [...journalKeys.all, 'integrity', uri] as const,
+  retentionLog: (did: string) => 
+    [...journalKeys.all, 'retention', did] as const,
+  sync: (did: string) => 
+    [...journalKeys.all, 'sync', did] as const,
   
   // Advanced feature keys
   notifications: (did: string) => 
@@ -54,6 +92,8 @@ export const journalKeys = {
     [...journalKeys.all, 'sync', did] as const,
   backupStatus: (did: string) => 
     [...journalKeys.all, 'backup', did] as const,
+  exportStatus: (exportId: string) => 
+    [...journalKeys.all, 'export', exportId] as const,
 } as const
 
 export type JournalFilters = {
@@ -72,4 +112,6 @@ export type FeedParams = {
   limit?: number
   cursor?: string
   includeReplies?: boolean
+  filters?: object
+  sortBy?: string
 }
\ No newline at end of file
@@ -0,0 +1,482 @@
+import {useCallback, useEffect, useMemo, useRef, useState} from 'react'
+import {AppState} from 'react-native'
+import {TID} from '@atproto/common-web'
+import {
+  onlineManager,
+  useIsMutating,
+  useMutation,
+  useQueryClient,
+} from '@tanstack/react-query'
+
+import {
+  JournalKeyUnavailableError,
+  openJournalData,
+  sealJournalData,
+} from '#/lib/journal-encryption'
+import {isNetworkError} from '#/lib/strings/errors'
+import {logger} from '#/logger'
+import {useAgent, useSession} from '#/state/session'
+import {account, useStorage} from '#/storage'
+import {
+  type JournalDraft,
+  type JournalOutboxOperation,
+  type JournalSyncStatus,
+  type SealedJournalDraft,
+} from './journal'
+import {setJournalChainHead, stampJournalRecord} from './journal-integrity'
+import {journalKeys} from './journal-keys'
+import {
+  createJournalRecord,
+  deleteJournalRecord,
+  getJournalUri,
+  reviseJournalRecord,
+} from './journal-repository'
+
+/**
+ * Draft ID used by the composer when writing a new entry. Edits use the
+ * entry's URI so each one keeps its own draft.
+ */
+export const NEW_JOURNAL_DRAFT_ID = 'new'
+
+type Agent = ReturnType<typeof useAgent>
+
+export type JournalWrite =
+  | {action: 'create'; record: Record<string, any>}
+  | {
+      action: 'update'
+      rkey: string
+      record: Record<string, any>
+      swapRecord?: string
+    }
+  | {action: 'delete'; rkey: string}
+
+export interface JournalWriteResult {
+  uri: string
+  // the record's new CID, once the write has been sent
+  cid?: string
+  // true if the write was saved to the outbox rather than sent
+  queued: boolean
+}
+
+export interface JournalReplayResult {
+  sent: number
+  conflicts: number
+  remaining: number
+}
+
+type PendingWrite = Pick<
+  JournalOutboxOperation,
+  'action' | 'rkey' | 'record' | 'swapRecord'
+>
+
+export function getJournalOutbox(did: string): JournalOutboxOperation[] {
+  return account.get([did, 'journalOutbox']) ?? []
+}
+
+function setJournalOutbox(did: string, outbox: JournalOutboxOperation[]) {
+  if (outbox.length) {
+    account.set([did, 'journalOutbox'], outbox)
+  } else {
+    account.remove([did, 'journalOutbox'])
+  }
+}
+
+function hasQueuedWrites(did: string, rkey: string) {
+  return getJournalOutbox(did).some(op => op.rkey === rkey)
+}
+
+/**
+ * Adds a write to the outbox, folding it into earlier writes for the same
+ * entry where possible so that replay sends the minimum number of requests.
+ */
+export function queueJournalWrite(did: string, write: PendingWrite) {
+  const outbox = getJournalOutbox(did)
+  const pending = outbox.filter(op => op.rkey === write.rkey && !op.conflict)
+  const create = pending.find(op => op.action === 'create')
+  const update = pending.find(op => op.action === 'update')
+
+  let next: JournalOutboxOperation[]
+  if (create && write.action === 'update') {
+    // the entry never reached the server, so just create it with the edit
+    next = outbox.map(op =>
+      op === create ? {...op, record: write.record} : op,
+    )
+  } else if (create && write.action === 'delete') {
+    // nothing to delete on the server
+    next = outbox.filter(op => !pending.includes(op))
+  } else if (update && write.action === 'update') {
+    // keep the original swapRecord so a conflict is still detected
+    next = outbox.map(op =>
+      op === update ? {...op, record: write.record} : op,
+    )
+  } else {
+    next = [
+      ...(write.action === 'delete'
+        ? outbox.filter(op => !pending.includes(op))
+        : outbox),
+      {
+        id: TID.nextStr(),
+        ...write,
+        queuedAt: new Date().toISOString(),
+        attempts: 0,
+      },
+    ]
+  }
+  setJournalOutbox(did, next)
+}
+
+/**
+ * Removes a write from the outbox without sending it, e.g. to give up on a
+ * conflicted edit
+ */
+export function discardJournalWrite(did: string, id: string) {
+  setJournalOutbox(
+    did,
+    getJournalOutbox(did).filter(op => op.id !== id),
+  )
+}
+
+/**
+ * Clears the conflict flag on a write so the next replay tries it again. The
+ * swap check is dropped too: retrying is the user choosing to overwrite
+ * whatever changed on the server.
+ */
+export function retryJournalWrite(did: string, id: string) {
+  setJournalOutbox(
+    did,
+    getJournalOutbox(did).map(op =>
+      op.id === id
+        ? {...op, conflict: false, error: undefined, swapRecord: undefined}
+        : op,
+    ),
+  )
+}
+
+/**
+ * @returns the new CID of a created or updated record
+ */
+async function sendJournalWrite(
+  agent: Agent,
+  did: string,
+  op: PendingWrite,
+): Promise<string | undefined> {
+  switch (op.action) {
+    case 'create': {
+      const record = await stampJournalRecord(agent, did, 'create', op.record!)
+      const {cid} = await createJournalRecord(agent, did, {
+        rkey: op.rkey,
+        record,
+      })
+      setJournalChainHead(did, record.integrity!)
+      return cid
+    }
+    case 'update': {
+      const {cid} = await reviseJournalRecord(agent, did, {
+        rkey: op.rkey,
+        record: await stampJournalRecord(agent, did, 'update', op.record!),
+        swapRecord: op.swapRecord,
+      })
+      return cid
+    }
+    case 'delete':
+      await deleteJournalRecord(agent, did, op.rkey)
+      return undefined
+  }
+}
+
+const replaying = new Map<string, Promise<JournalReplayResult>>()
+
+/**
+ * Sends queued writes in the order they were made. Stops at the first network
+ * failure, leaving the rest queued. Any other failure marks the write as a
+ * conflict, and later writes to the same entry are held back behind it so
+ * they're never applied out of order.
+ */
+export function replayJournalOutbox(
+  agent: Agent,
+  did: string,
+): Promise<JournalReplayResult> {
+  const inflight = replaying.get(did)
+  if (inflight) return inflight
+  const promise = doReplay(agent, did).finally(() => replaying.delete(did))
+  replaying.set(did, promise)
+  return promise
+}
+
+async function doReplay(
+  agent: Agent,
+  did: string,
+): Promise<JournalReplayResult> {
+  let sent = 0
+  // re-read the outbox each time, as new writes may be queued while we replay
+  while (true) {
+    const outbox = getJournalOutbox(did)
+    const blocked = new Set(outbox.filter(op => op.conflict).map(op => op.rkey))
+    const op = outbox.find(o => !o.conflict && !blocked.has(o.rkey))
+    if (!op) break
+
+    try {
+      await sendJournalWrite(agent, did, op)
+      sent++
+      setJournalOutbox(
+        did,
+        getJournalOutbox(did).filter(o => o.id !== op.id),
+      )
+    } catch (e) {
+      const networkError = isNetworkError(e)
+      setJournalOutbox(
+        did,
+        getJournalOutbox(did).map(o =>
+          o.id === op.id
+            ? {
+                ...o,
+                attempts: o.attempts + 1,
+                error: String(e),
+                conflict: !networkError,
+              }
+            : o,
+        ),
+      )
+      if (networkError) break
+      logger.warn('Journal outbox write rejected', {
+        message: String(e),
+        action: op.action,
+      })
+    }
+  }
+
+  if (sent) {
+    account.set([did, 'journalLastSync'], new Date().toISOString())
+  }
+  const outbox = getJournalOutbox(did)
+  return {
+    sent,
+    conflicts: outbox.filter(op => op.conflict).length,
+    remaining: outbox.length,
+  }
+}
+
+/**
+ * Writes a journal record, falling back to the outbox when offline. Writes
+ * are also queued if earlier writes to the same entry are still waiting, so
+ * they can't overtake them.
+ */
+export function useJournalWrite() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+
+  return useCallback(
+    async (write: JournalWrite): Promise<JournalWriteResult> => {
+      if (!currentAccount) throw new Error('Not authenticated')
+      const did = currentAccount.did
+      // generated up front so queued edits and deletes can refer to the entry
+      const rkey = write.action === 'create' ? TID.nextStr() : write.rkey
+      const op: PendingWrite = {...write, rkey}
+      const uri = getJournalUri(did, rkey)
+
+      if (!onlineManager.isOnline() || hasQueuedWrites(did, rkey)) {
+        queueJournalWrite(did, op)
+        return {uri, queued: true}
+      }
+      try {
+        const cid = await sendJournalWrite(agent, did, op)
+        return {uri, cid, queued: false}
+      } catch (e) {
+        if (!isNetworkError(e)) throw e
+        queueJournalWrite(did, op)
+        return {uri, queued: true}
+      }
+    },
+    [agent, currentAccount],
+  )
+}
+
+export function useJournalOutbox() {
+  const {currentAccount} = useSession()
+  const scopes = useMemo(
+    () =>
+      [currentAccount?.did ?? '', 'journalOutbox'] as [string, 'journalOutbox'],
+    [currentAccount?.did],
+  )
+  const [outbox] = useStorage(account, scopes)
+  return outbox ?? []
+}
+
+export function useReplayJournalOutbox() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<JournalReplayResult, Error, void>({
+    mutationKey: journalKeys.sync(currentAccount?.did ?? ''),
+    mutationFn: async () => {
+      if (!currentAccount) throw new Error('Not authenticated')
+      return replayJournalOutbox(agent, currentAccount.did)
+    },
+    onSuccess: ({sent}) => {
+      if (!sent) return
+      queryClient.invalidateQueries({queryKey: journalKeys.all})
+    },
+  })
+}
+
+/**
+ * Replays the outbox whenever the app comes back online or to the
+ * foreground. Mount once, near the root of the signed-in app.
+ */
+export function useJournalOutboxSync() {
+  const {currentAccount} = useSession()
+  const {mutate: replay} = useReplayJournalOutbox()
+  const did = currentAccount?.did
+
+  useEffect(() => {
+    if (!did) return
+    const replayIfNeeded = () => {
+      if (onlineManager.isOnline() && getJournalOutbox(did).length) {
+        replay()
+      }
+    }
+    replayIfNeeded()
+    const unsubscribeOnline = onlineManager.subscribe(replayIfNeeded)
+    const appStateSub = AppState.addEventListener('change', state => {
+      if (state === 'active') replayIfNeeded()
+    })
+    return () => {
+      unsubscribeOnline()
+      appStateSub.remove()
+    }
+  }, [did, replay])
+}
+
+export function useJournalSyncStatus(): JournalSyncStatus {
+  const {currentAccount} = useSession()
+  const did = currentAccount?.did ?? ''
+  const outbox = useJournalOutbox()
+  const lastSyncScopes = useMemo(
+    () => [did, 'journalLastSync'] as [string, 'journalLastSync'],
+    [did],
+  )
+  const [lastSync] = useStorage(account, lastSyncScopes)
+  const [isOnline, setIsOnline] = useState(() => onlineManager.isOnline())
+  const isSyncing = useIsMutating({mutationKey: journalKeys.sync(did)}) > 0
+
+  useEffect(() => onlineManager.subscribe(online => setIsOnline(online)), [])
+
+  return {
+    lastSync: lastSync ?? '',
+    pendingChanges: outbox.filter(op => !op.conflict).length,
+    conflicts: outbox.filter(op => op.conflict).length,
+    isOnline,
+    isSyncing,
+  }
+}
+
+/**
+ * Seals a private draft with the journal key before it's stored. Drafts that
+ * aren't private are stored as they are.
+ *
+ * @throws JournalKeyUnavailableError if the draft is private and the journal
+ * is locked
+ */
+export async function sealJournalDraft(
+  did: string,
+  draft: JournalDraft,
+): Promise<JournalDraft | SealedJournalDraft> {
+  if (!draft.isPrivate) return draft
+  const {id, uri, lastSaved, ...content} = draft
+  return {
+    id,
+    uri,
+    isPrivate: true,
+    lastSaved,
+    encrypted: await sealJournalData(did, content),
+  }
+}
+
+/**
+ * Inverse of `sealJournalDraft`. Sealed drafts that can't be opened on this
+ * device come back as undefined.
+ */
+export async function openJournalDraft(
+  did: string,
+  stored: JournalDraft | SealedJournalDraft | undefined,
+): Promise<JournalDraft | undefined> {
+  if (!stored || !('encrypted' in stored)) return stored
+  const {encrypted, ...rest} = stored
+  try {
+    const content = await openJournalData<
+      Omit<JournalDraft, 'id' | 'uri' | 'lastSaved'>
+    >(did, encrypted)
+    return {...rest, ...content}
+  } catch (e) {
+    logger.warn('Failed to open journal draft', {message: String(e)})
+    return undefined
+  }
+}
+
+/**
+ * Autosaved composer draft, persisted on this device until it's submitted or
+ * discarded. Private drafts are sealed, so opening one takes a moment: the
+ * draft is read once, when the hook mounts, and `draft` is undefined while
+ * `isRestoring`.
+ */
+export function useJournalDraft(draftId: string) {
+  const {currentAccount} = useSession()
+  const did = currentAccount?.did ?? ''
+  const scopes = useMemo(
+    () => [did, 'journalDrafts'] as [string, 'journalDrafts'],
+    [did],
+  )
+  const [restored, setRestored] = useState<{draft?: JournalDraft}>()
+  // bumped on every save and clear, so a save that finishes sealing after a
+  // later one, or after the draft was cleared, is dropped
+  const generation = useRef(0)
+
+  useEffect(() => {
+    let cancelled = false
+    openJournalDraft(did, account.get(scopes)?.[draftId]).then(draft => {
+      if (!cancelled) setRestored({draft})
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [did, scopes, draftId])
+
+  const saveDraft = useCallback(
+    async (draft: Omit<JournalDraft, 'id' | 'lastSaved'>) => {
+      const current = ++generation.current
+      let stored: JournalDraft | SealedJournalDraft | undefined
+      try {
+        stored = await sealJournalDraft(did, {
+          ...draft,
+          id: draftId,
+          lastSaved: new Date().toISOString(),
+        })
+      } catch (e) {
+        if (!(e instanceof JournalKeyUnavailableError)) {
+          logger.error('Failed to save journal draft', {message: String(e)})
+          return
+        }
+        // a private draft is never stored in the clear, so the earlier one
+        // is removed rather than left out of date
+      }
+      if (current !== generation.current) return
+      const {[draftId]: _previous, ...rest} = account.get(scopes) ?? {}
+      account.set(scopes, stored ? {...rest, [draftId]: stored} : rest)
+    },
+    [did, scopes, draftId],
+  )
+
+  const clearDraft = useCallback(() => {
+    generation.current++
+    const {[draftId]: _removed, ...rest} = account.get(scopes) ?? {}
+    account.set(scopes, rest)
+  }, [scopes, draftId])
+
+  return {
+    draft: restored?.draft,
+    isRestoring: !restored,
+    saveDraft,
+    clearDraft,
+  }
+}
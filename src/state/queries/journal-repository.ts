@@ -0,0 +1,367 @@
+import {type $Typed, type ComAtprotoRepoApplyWrites} from '@atproto/api'
+import {TID} from '@atproto/common-web'
+
+import {openJournalRecord} from '#/lib/journal-encryption'
+import {
+  JOURNAL_COLLECTION,
+  type JournalRecord,
+  migrateJournalRecord,
+  validateJournalRecord,
+} from '#/lib/journal-record'
+import {
+  buildJournalRevision,
+  isJournalRevisionRecord,
+  JOURNAL_REVISION_COLLECTION,
+  type JournalRevisionRecord,
+  sealJournalRevision,
+} from '#/lib/journal-revisions'
+import {logger} from '#/logger'
+import {type useAgent} from '#/state/session'
+
+type Agent = ReturnType<typeof useAgent>
+
+/**
+ * A journal record exactly as the PDS returned it. Integrity checks hash this
+ * form, so it's never migrated or opened.
+ */
+export interface RawJournalRecord {
+  uri: string
+  cid: string
+  value: Record<string, any>
+}
+
+/**
+ * A record that has been migrated, validated and opened. `isLocked` means this
+ * device has no key to open it, so `text`, `symptoms` and `location` are
+ * missing.
+ */
+export type JournalRecordView = JournalRecord & {
+  uri: string
+  cid: string
+  isEncrypted?: boolean
+  isLocked?: boolean
+}
+
+/**
+ * A revision record as the PDS returned it
+ */
+export interface RawJournalRevision {
+  uri: string
+  cid: string
+  value: JournalRevisionRecord
+}
+
+/**
+ * A replaced version of an entry, opened like any other record. `uri` and
+ * `cid` are the entry's URI and the CID the version had.
+ */
+export type JournalRevisionView = {
+  revisionUri: string
+  revisedAt: string
+  version: JournalRecordView
+}
+
+const PAGE_SIZE = 100
+
+export function getJournalRkey(uri: string) {
+  return uri.split('/').pop()!
+}
+
+export function getJournalUri(did: string, rkey: string) {
+  return `at://${did}/${JOURNAL_COLLECTION}/${rkey}`
+}
+
+export async function listJournalRecords(
+  agent: Agent,
+  did: string,
+  {limit = PAGE_SIZE, cursor}: {limit?: number; cursor?: string} = {},
+): Promise<{records: RawJournalRecord[]; cursor?: string}> {
+  const {data} = await agent.com.atproto.repo.listRecords({
+    repo: did,
+    collection: JOURNAL_COLLECTION,
+    limit,
+    cursor,
+  })
+  return {records: data.records as RawJournalRecord[], cursor: data.cursor}
+}
+
+/**
+ * Pages through the whole collection, newest first
+ */
+export async function listAllJournalRecords(
+  agent: Agent,
+  did: string,
+): Promise<RawJournalRecord[]> {
+  const all: RawJournalRecord[] = []
+  let cursor: string | undefined
+  do {
+    const page = await listJournalRecords(agent, did, {cursor})
+    all.push(...page.records)
+    cursor = page.cursor
+  } while (cursor)
+  return all
+}
+
+export async function getJournalRecord(
+  agent: Agent,
+  did: string,
+  rkey: string,
+): Promise<RawJournalRecord> {
+  const {data} = await agent.com.atproto.repo.getRecord({
+    repo: did,
+    collection: JOURNAL_COLLECTION,
+    rkey,
+  })
+  return {uri: data.uri, cid: data.cid!, value: data.value as any}
+}
+
+export async function createJournalRecord(
+  agent: Agent,
+  did: string,
+  {rkey, record}: {rkey?: string; record: Record<string, any>},
+): Promise<{uri: string; cid: string}> {
+  const {data} = await agent.com.atproto.repo.createRecord({
+    repo: did,
+    collection: JOURNAL_COLLECTION,
+    rkey,
+    record,
+  })
+  return data
+}
+
+export async function putJournalRecord(
+  agent: Agent,
+  did: string,
+  {
+    rkey,
+    record,
+    swapRecord,
+  }: {rkey: string; record: Record<string, any>; swapRecord?: string},
+): Promise<{uri: string; cid: string}> {
+  const {data} = await agent.com.atproto.repo.putRecord({
+    repo: did,
+    collection: JOURNAL_COLLECTION,
+    rkey,
+    record,
+    swapRecord,
+  })
+  return data
+}
+
+/**
+ * Replaces a record and keeps the version it replaces as a revision. Both
+ * writes go in one commit, so an edit can never be saved without its history.
+ * Updates that leave `updatedAt` alone, like pinning, only change flags and
+ * don't make a revision. When an entry is made private or contacts-only, the
+ * versions that were kept in the clear are sealed in the same commit.
+ *
+ * @throws if the record no longer has the CID `swapRecord`, or the repo
+ * changed while the edit was being made
+ */
+export async function reviseJournalRecord(
+  agent: Agent,
+  did: string,
+  {
+    rkey,
+    record,
+    swapRecord,
+  }: {rkey: string; record: Record<string, any>; swapRecord?: string},
+): Promise<{uri: string; cid: string}> {
+  const {data: commit} = await agent.com.atproto.sync.getLatestCommit({did})
+  const current = await getJournalRecord(agent, did, rkey)
+  if (swapRecord && current.cid !== swapRecord) {
+    throw new Error('The entry was changed somewhere else')
+  }
+  const isEdit =
+    !!record.updatedAt && record.updatedAt !== current.value.updatedAt
+  // otherwise the history would still show what the entry now hides
+  const isSealing = !!record.encrypted && !current.value.encrypted
+  const writes: Array<
+    | $Typed<ComAtprotoRepoApplyWrites.Update>
+    | $Typed<ComAtprotoRepoApplyWrites.Create>
+  > = [
+    {
+      $type: 'com.atproto.repo.applyWrites#update',
+      collection: JOURNAL_COLLECTION,
+      rkey,
+      value: record,
+    },
+  ]
+  if (isEdit) {
+    const revision = buildJournalRevision(current)
+    writes.push({
+      $type: 'com.atproto.repo.applyWrites#create',
+      collection: JOURNAL_REVISION_COLLECTION,
+      rkey: TID.nextStr(),
+      value: {
+        ...(isSealing ? await sealJournalRevision(did, revision) : revision),
+      },
+    })
+  }
+  if (isSealing) {
+    for (const {uri, value} of await listJournalRevisions(
+      agent,
+      did,
+      current.uri,
+    )) {
+      if (value.record.encrypted) continue
+      writes.push({
+        $type: 'com.atproto.repo.applyWrites#update',
+        collection: JOURNAL_REVISION_COLLECTION,
+        rkey: getJournalRkey(uri),
+        value: {...(await sealJournalRevision(did, value))},
+      })
+    }
+  }
+  const {data} = await agent.com.atproto.repo.applyWrites({
+    repo: did,
+    writes,
+    swapCommit: commit.cid,
+  })
+  const result = data.results?.[0]
+  return {
+    uri: current.uri,
+    cid: result && 'cid' in result ? (result.cid as string) : '',
+  }
+}
+
+/**
+ * Every revision in the repo, for all entries, newest first
+ */
+export async function listAllJournalRevisions(
+  agent: Agent,
+  did: string,
+): Promise<RawJournalRevision[]> {
+  const all: RawJournalRevision[] = []
+  let cursor: string | undefined
+  do {
+    const {data} = await agent.com.atproto.repo.listRecords({
+      repo: did,
+      collection: JOURNAL_REVISION_COLLECTION,
+      limit: PAGE_SIZE,
+      cursor,
+    })
+    for (const {uri, cid, value} of data.records) {
+      // anything else in the collection isn't a revision we can show
+      if (isJournalRevisionRecord(value)) {
+        all.push({uri, cid, value})
+      }
+    }
+    cursor = data.cursor
+  } while (cursor)
+  return all
+}
+
+/**
+ * The revisions of one entry. Revisions can't be listed by entry, so this
+ * still pages through all of them.
+ */
+export async function listJournalRevisions(
+  agent: Agent,
+  did: string,
+  uri: string,
+): Promise<RawJournalRevision[]> {
+  const revisions = await listAllJournalRevisions(agent, did)
+  return revisions.filter(revision => revision.value.entry === uri)
+}
+
+/**
+ * Deletes a record along with its revisions, in one commit, so nothing that
+ * was removed is left behind in the entry's history
+ */
+export async function deleteJournalRecord(
+  agent: Agent,
+  did: string,
+  rkey: string,
+) {
+  const revisions = await listJournalRevisions(
+    agent,
+    did,
+    getJournalUri(did, rkey),
+  )
+  await agent.com.atproto.repo.applyWrites({
+    repo: did,
+    writes: [
+      {
+        $type: 'com.atproto.repo.applyWrites#delete',
+        collection: JOURNAL_COLLECTION,
+        rkey,
+      },
+      ...revisions.map(revision => ({
+        $type: 'com.atproto.repo.applyWrites#delete' as const,
+        collection: JOURNAL_REVISION_COLLECTION,
+        rkey: getJournalRkey(revision.uri),
+      })),
+    ],
+  })
+}
+
+/**
+ * Brings a stored record up to the current schema and opens it.
+ *
+ * @throws JournalRecordValidationError if the record doesn't match the schema
+ */
+export async function readJournalRecord(
+  did: string,
+  {uri, cid, value}: RawJournalRecord,
+): Promise<JournalRecordView> {
+  const result = validateJournalRecord(migrateJournalRecord(value))
+  if (!result.success) {
+    throw result.error
+  }
+  return {...(await openJournalRecord(did, result.value)), uri, cid}
+}
+
+/**
+ * Opens revisions the same way as records, oldest first. Revisions that
+ * can't be read are left out.
+ */
+export async function readJournalRevisions(
+  did: string,
+  revisions: RawJournalRevision[],
+): Promise<JournalRevisionView[]> {
+  const views: JournalRevisionView[] = []
+  for (const {uri, value} of revisions) {
+    try {
+      views.push({
+        revisionUri: uri,
+        revisedAt: value.createdAt,
+        version: await readJournalRecord(did, {
+          uri: value.entry,
+          cid: value.cid,
+          value: value.record,
+        }),
+      })
+    } catch (e) {
+      logger.warn('Skipping invalid journal revision', {
+        message: String(e),
+        uri,
+      })
+    }
+  }
+  return views.sort(
+    (a, b) => new Date(a.revisedAt).getTime() - new Date(b.revisedAt).getTime(),
+  )
+}
+
+/**
+ * Reads a page of records, leaving out any that don't match the schema so
+ * one bad record can't break the whole journal
+ */
+export async function readJournalRecords(
+  did: string,
+  records: RawJournalRecord[],
+): Promise<JournalRecordView[]> {
+  const views: JournalRecordView[] = []
+  for (const record of records) {
+    try {
+      views.push(await readJournalRecord(did, record))
+    } catch (e) {
+      logger.warn('Skipping invalid journal record', {
+        message: String(e),
+        uri: record.uri,
+      })
+    }
+  }
+  return views
+}
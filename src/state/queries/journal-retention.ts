@@ -0,0 +1,250 @@
+import {useMemo} from 'react'
+import {TID} from '@atproto/common-web'
+import {useMutation, useQuery, useQueryClient} from '@tanstack/react-query'
+
+import {
+  hasActiveKey,
+  JournalKeyUnavailableError,
+  sealJournalData,
+} from '#/lib/journal-encryption'
+import {
+  type JournalRetentionAction,
+  type JournalRetentionPlan,
+  planJournalRetention,
+} from '#/lib/journal-retention'
+import {deleteEvidenceFile} from '#/lib/journal-retention/evidence'
+import {logger} from '#/logger'
+import {useAgent, useSession} from '#/state/session'
+import {account, useStorage} from '#/storage'
+import {
+  type JournalArchiveItem,
+  type JournalEntry,
+  useJournalEntries,
+} from './journal'
+import {useJournalPrivacySettings} from './journal/privacy'
+import {journalKeys} from './journal-keys'
+import {
+  deleteJournalRecord,
+  getJournalRecord,
+  getJournalRkey,
+  listJournalRevisions,
+} from './journal-repository'
+
+const RETENTION_LOG_COLLECTION = 'app.warlog.retentionLog'
+
+/**
+ * One line of the retention audit log. Written to the user's repo after
+ * every run, including runs that removed nothing.
+ */
+export interface JournalRetentionRun {
+  runAt: string
+  retentionDays: number
+  action: JournalRetentionAction
+  // URIs of the entries that were deleted or archived
+  removed: string[]
+  // Chain hashes of the removed entries, so integrity checks can tell them
+  // apart from entries that were deleted by someone else
+  chainHashes: string[]
+  exempt: number
+  failed: string[]
+}
+
+function isJournalRetentionRun(value: unknown): value is JournalRetentionRun {
+  const run = value as Partial<JournalRetentionRun> | null
+  return (
+    typeof run === 'object' &&
+    run !== null &&
+    typeof run.runAt === 'string' &&
+    typeof run.retentionDays === 'number' &&
+    typeof run.action === 'string' &&
+    Array.isArray(run.removed) &&
+    Array.isArray(run.chainHashes) &&
+    typeof run.exempt === 'number' &&
+    Array.isArray(run.failed)
+  )
+}
+
+export function getJournalArchive(did: string): JournalArchiveItem[] {
+  return account.get([did, 'journalArchive']) ?? []
+}
+
+function addToJournalArchive(did: string, item: JournalArchiveItem) {
+  account.set(
+    [did, 'journalArchive'],
+    [...getJournalArchive(did).filter(i => i.uri !== item.uri), item],
+  )
+}
+
+/**
+ * What the user's retention settings would remove right now. Nothing is
+ * removed until `useApplyJournalRetention` is called with the plan.
+ */
+export function useJournalRetentionPlan(): {
+  plan?: JournalRetentionPlan<JournalEntry>
+  retentionDays?: number
+  action: JournalRetentionAction
+  isLoading: boolean
+} {
+  const {data: entries, isLoading: isLoadingEntries} = useJournalEntries()
+  const {data: settings, isLoading: isLoadingSettings} =
+    useJournalPrivacySettings()
+  const retentionDays = settings?.dataRetentionDays
+  const action = settings?.dataRetentionAction ?? 'delete'
+
+  const plan = useMemo(() => {
+    if (!entries || !retentionDays) return undefined
+    return planJournalRetention(entries, retentionDays)
+  }, [entries, retentionDays])
+
+  return {
+    plan,
+    retentionDays,
+    action,
+    isLoading: isLoadingEntries || isLoadingSettings,
+  }
+}
+
+/**
+ * Deletes or archives the expired entries in `plan` along with any evidence
+ * kept on the device, then adds a line to the audit log. An entry that fails
+ * is left in place and listed in the log.
+ *
+ * @throws JournalKeyUnavailableError if archiving without an unlocked key
+ */
+export function useApplyJournalRetention() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<
+    JournalRetentionRun,
+    Error,
+    {
+      plan: JournalRetentionPlan<JournalEntry>
+      retentionDays: number
+      action: JournalRetentionAction
+    }
+  >({
+    mutationFn: async ({plan, retentionDays, action}) => {
+      if (!currentAccount) throw new Error('Not authenticated')
+      const did = currentAccount.did
+      if (action === 'archive' && !(await hasActiveKey(did))) {
+        throw new JournalKeyUnavailableError()
+      }
+
+      const removed: string[] = []
+      const chainHashes: string[] = []
+      const failed: string[] = []
+      for (const entry of plan.expired) {
+        const rkey = getJournalRkey(entry.uri)
+        try {
+          if (action === 'archive') {
+            // archive the record as stored, so its integrity block still
+            // verifies if it's ever restored. Its earlier versions go with it.
+            const {cid, value} = await getJournalRecord(agent, did, rkey)
+            const revisions = await listJournalRevisions(agent, did, entry.uri)
+            addToJournalArchive(did, {
+              uri: entry.uri,
+              createdAt: entry.createdAt,
+              archivedAt: new Date().toISOString(),
+              payload: await sealJournalData(did, {
+                uri: entry.uri,
+                cid,
+                value,
+                revisions: revisions.map(revision => revision.value),
+              }),
+            })
+          }
+          await deleteJournalRecord(agent, did, rkey)
+        } catch (e) {
+          logger.error('Failed to apply journal retention', {
+            message: String(e),
+            uri: entry.uri,
+          })
+          failed.push(entry.uri)
+          continue
+        }
+
+        removed.push(entry.uri)
+        if (entry.integrity) chainHashes.push(entry.integrity.chainHash)
+        for (const evidence of entry.evidenceAttachments ?? []) {
+          await deleteEvidenceFile(evidence.uri).catch(e =>
+            logger.warn('Failed to delete journal evidence', {
+              message: String(e),
+            }),
+          )
+        }
+      }
+
+      const run: JournalRetentionRun = {
+        runAt: new Date().toISOString(),
+        retentionDays,
+        action,
+        removed,
+        chainHashes,
+        exempt: plan.exempt.length,
+        failed,
+      }
+      await agent.com.atproto.repo.createRecord({
+        repo: did,
+        collection: RETENTION_LOG_COLLECTION,
+        rkey: TID.nextStr(),
+        record: {$type: RETENTION_LOG_COLLECTION, ...run},
+      })
+      return run
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({queryKey: journalKeys.entries()})
+      if (currentAccount) {
+        queryClient.invalidateQueries({
+          queryKey: journalKeys.retentionLog(currentAccount.did),
+        })
+      }
+    },
+  })
+}
+
+/**
+ * The most recent retention runs, newest first
+ */
+export function useJournalRetentionLog() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+
+  return useQuery<JournalRetentionRun[], Error>({
+    queryKey: journalKeys.retentionLog(currentAccount?.did ?? ''),
+    queryFn: async () => {
+      const {data} = await agent.com.atproto.repo.listRecords({
+        repo: currentAccount!.did,
+        collection: RETENTION_LOG_COLLECTION,
+        limit: 20,
+      })
+      const runs: JournalRetentionRun[] = []
+      for (const {value} of data.records) {
+        // anything else in the collection isn't a run we can show
+        if (isJournalRetentionRun(value)) {
+          runs.push(value)
+        }
+      }
+      return runs
+    },
+    enabled: !!currentAccount,
+  })
+}
+
+export function useJournalArchive() {
+  const {currentAccount} = useSession()
+  const scopes = useMemo(
+    () =>
+      [currentAccount?.did ?? '', 'journalArchive'] as [
+        string,
+        'journalArchive',
+      ],
+    [currentAccount?.did],
+  )
+  const [archive] = useStorage<typeof account, 'journalArchive'>(
+    account,
+    scopes,
+  )
+  return archive ?? []
+}
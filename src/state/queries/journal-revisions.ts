@@ -0,0 +1,33 @@
+import {AtUri} from '@atproto/api'
+import {useQuery} from '@tanstack/react-query'
+
+import {useAgent} from '#/state/session'
+import {JOURNAL_GC_TIME, JOURNAL_STALE_TIME} from './journal/constants'
+import {journalKeys} from './journal-keys'
+import {
+  type JournalRevisionView,
+  listJournalRevisions,
+  readJournalRevisions,
+} from './journal-repository'
+
+/**
+ * The earlier versions of an entry, oldest first. The entry itself is the
+ * latest version and isn't included.
+ */
+export function useJournalRevisionsQuery(uri: string) {
+  const agent = useAgent()
+
+  return useQuery<JournalRevisionView[], Error>({
+    queryKey: journalKeys.revisions(uri),
+    queryFn: async () => {
+      const repo = new AtUri(uri).host
+      return readJournalRevisions(
+        repo,
+        await listJournalRevisions(agent, repo, uri),
+      )
+    },
+    enabled: !!uri,
+    staleTime: JOURNAL_STALE_TIME.ENTRY,
+    gcTime: JOURNAL_GC_TIME.ENTRY,
+  })
+}
@@ -0,0 +1,223 @@
+import {AtUri} from '@atproto/api'
+import {TID} from '@atproto/common-web'
+import {useMutation, useQuery, useQueryClient} from '@tanstack/react-query'
+
+import {
+  buildSharePacketContent,
+  getSharePacketExpiry,
+  isSharePacketActive,
+  type JournalSharePacketSummary,
+  type SealedJournalSharePacket,
+  sealSharePacket,
+  withSharePacketKey,
+} from '#/lib/journal-share'
+import {makeJournalSharePacketLink} from '#/lib/routes/links'
+import {logger} from '#/logger'
+import {useProfileQuery} from '#/state/queries/profile'
+import {useShortenLink} from '#/state/queries/shorten-link'
+import {useAgent, useSession} from '#/state/session'
+import {type JournalEntry} from './journal'
+import {JOURNAL_GC_TIME, JOURNAL_STALE_TIME} from './journal/constants'
+import {journalKeys} from './journal-keys'
+
+const SHARE_PACKET_COLLECTION = 'app.warlog.sharePacket'
+
+type SharePacketRecord = Omit<SealedJournalSharePacket, 'id' | 'payload'> & {
+  payload?: SealedJournalSharePacket['payload']
+}
+
+export type JournalSharePacketFetchResult =
+  | {status: 'available'; packet: SealedJournalSharePacket}
+  | {status: 'unavailable'}
+
+/**
+ * The user's share packets, newest first, including expired and revoked
+ * ones. Packets live in the user's repo, keyed by their id.
+ */
+export function useJournalSharePacketsQuery() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+
+  return useQuery<JournalSharePacketSummary[], Error>({
+    queryKey: journalKeys.sharing(currentAccount?.did || ''),
+    queryFn: async () => {
+      if (!currentAccount) return []
+      const packets: JournalSharePacketSummary[] = []
+      let cursor: string | undefined
+      do {
+        const {data} = await agent.com.atproto.repo.listRecords({
+          repo: currentAccount.did,
+          collection: SHARE_PACKET_COLLECTION,
+          limit: 100,
+          cursor,
+        })
+        for (const record of data.records) {
+          const {payload: _payload, ...packet} =
+            record.value as SharePacketRecord
+          packets.push({...packet, id: new AtUri(record.uri).rkey})
+        }
+        cursor = data.cursor
+      } while (cursor)
+      return packets.sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+      )
+    },
+    enabled: !!currentAccount,
+    staleTime: JOURNAL_STALE_TIME.SHARE_PACKETS,
+    gcTime: JOURNAL_GC_TIME.SHARE_PACKETS,
+  })
+}
+
+/**
+ * Seals the entries into a packet, stores it in the user's repo and gets a
+ * short link for it. The link's fragment holds the key, so this is the only
+ * time the full link is available: it isn't stored anywhere.
+ *
+ * @returns the packet and its link
+ */
+export function useCreateJournalSharePacketMutation() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const {data: profile} = useProfileQuery({did: currentAccount?.did})
+  const shortenLink = useShortenLink()
+  const queryClient = useQueryClient()
+
+  return useMutation<
+    {packet: SealedJournalSharePacket; url: string},
+    Error,
+    {entries: JournalEntry[]; expiresInDays: number; passcode?: string}
+  >({
+    mutationFn: async ({entries, expiresInDays, passcode}) => {
+      if (!currentAccount) throw new Error('Not authenticated')
+      const content = buildSharePacketContent(entries, {
+        did: currentAccount.did,
+        handle: currentAccount.handle,
+        displayName: profile?.displayName,
+      })
+      if (content.entries.length === 0) {
+        throw new Error('Unlock your journal key to share encrypted entries.')
+      }
+      const {linkKey, payload, iterations} = await sealSharePacket(content, {
+        passcode,
+      })
+
+      const packet: SealedJournalSharePacket = {
+        id: TID.nextStr(),
+        createdAt: content.createdAt,
+        expiresAt: getSharePacketExpiry(expiresInDays),
+        entryCount: content.entries.length,
+        hasPasscode: !!passcode,
+        iterations,
+        payload,
+      }
+      const {id, ...record} = packet
+      await agent.com.atproto.repo.createRecord({
+        repo: currentAccount.did,
+        collection: SHARE_PACKET_COLLECTION,
+        rkey: id,
+        record: {$type: SHARE_PACKET_COLLECTION, ...record},
+      })
+
+      const {url} = await shortenLink(
+        makeJournalSharePacketLink(currentAccount.did, id),
+      )
+      return {packet, url: withSharePacketKey(url, linkKey)}
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: journalKeys.sharing(currentAccount?.did || ''),
+      })
+    },
+    onError: error => {
+      logger.error('Failed to create journal share packet', {
+        message: String(error),
+      })
+    },
+  })
+}
+
+/**
+ * Revokes a packet. Its record is rewritten without the sealed payload, so
+ * the link stops working straight away, even for someone who already has the
+ * key. The rest of the record stays so the packet still shows as revoked.
+ */
+export function useRevokeJournalSharePacketMutation() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, {id: string}>({
+    mutationFn: async ({id}) => {
+      if (!currentAccount) throw new Error('Not authenticated')
+      const {data} = await agent.com.atproto.repo.getRecord({
+        repo: currentAccount.did,
+        collection: SHARE_PACKET_COLLECTION,
+        rkey: id,
+      })
+      const {payload: _payload, ...packet} = data.value as SharePacketRecord
+      await agent.com.atproto.repo.putRecord({
+        repo: currentAccount.did,
+        collection: SHARE_PACKET_COLLECTION,
+        rkey: id,
+        record: {
+          ...packet,
+          $type: SHARE_PACKET_COLLECTION,
+          revokedAt: new Date().toISOString(),
+        },
+        swapRecord: data.cid,
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: journalKeys.sharing(currentAccount?.did || ''),
+      })
+    },
+    onError: error => {
+      logger.error('Failed to revoke journal share packet', {
+        message: String(error),
+      })
+    },
+  })
+}
+
+/**
+ * Fetches a packet from its author's repo for its recipient. Works without an
+ * account. Missing, expired and revoked packets come back as unavailable
+ * rather than as errors.
+ */
+export function useJournalSharePacketQuery({
+  did,
+  id,
+}: {
+  did: string
+  id: string
+}) {
+  const agent = useAgent()
+
+  return useQuery<JournalSharePacketFetchResult, Error>({
+    queryKey: journalKeys.sharePacket(did, id),
+    queryFn: async () => {
+      let value: SharePacketRecord
+      try {
+        const {data} = await agent.com.atproto.repo.getRecord({
+          repo: did,
+          collection: SHARE_PACKET_COLLECTION,
+          rkey: id,
+        })
+        value = data.value as SharePacketRecord
+      } catch (e: any) {
+        if (e?.message?.includes('Could not locate record')) {
+          return {status: 'unavailable'}
+        }
+        throw e
+      }
+      const {payload, ...packet} = value
+      if (!payload || !isSharePacketActive(packet)) {
+        return {status: 'unavailable'}
+      }
+      return {status: 'available', packet: {...packet, id, payload}}
+    },
+    retry: 1,
+  })
+}
@@ -0,0 +1,58 @@
+import {useCallback, useMemo} from 'react'
+
+import {
+  getTriggerWarningDecision,
+  type TriggerWarningVisibility,
+} from '#/lib/journal-trigger-warnings'
+import {useSession} from '#/state/session'
+import {account, useStorage} from '#/storage'
+
+/**
+ * The current account's content warning preferences. They're kept on this
+ * device, and warnings without a preference are treated as `warn`.
+ */
+export function useJournalTriggerWarningPreferences() {
+  const {currentAccount} = useSession()
+  const scopes = useMemo(
+    () =>
+      [currentAccount?.did ?? '', 'journalTriggerWarningPreferences'] as [
+        string,
+        'journalTriggerWarningPreferences',
+      ],
+    [currentAccount?.did],
+  )
+  const [preferences = {}, setPreferences] = useStorage(account, scopes)
+
+  const setVisibility = useCallback(
+    (warning: string, visibility: TriggerWarningVisibility) => {
+      setPreferences({...preferences, [warning]: visibility})
+    },
+    [preferences, setPreferences],
+  )
+
+  return {preferences, setVisibility}
+}
+
+export function useJournalTriggerWarningDecision(warnings?: string[]) {
+  const {preferences} = useJournalTriggerWarningPreferences()
+  return useMemo(
+    () => getTriggerWarningDecision(warnings, preferences),
+    [warnings, preferences],
+  )
+}
+
+/**
+ * @returns a filter that drops entries whose warnings the user hides
+ */
+export function useJournalTriggerWarningFilter() {
+  const {preferences} = useJournalTriggerWarningPreferences()
+  return useCallback(
+    <T extends {triggerWarnings?: string[]}>(entries: T[]): T[] =>
+      entries.filter(
+        entry =>
+          getTriggerWarningDecision(entry.triggerWarnings, preferences)
+            .visibility !== 'hide',
+      ),
+    [preferences],
+  )
+}
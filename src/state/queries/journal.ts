@@ -7,34 +7,33 @@ import {
   keepPreviousData,
   InfiniteData,
 } from '@tanstack/react-query'
+import {AtUri} from '@atproto/api'
 import {useAgent, useSession} from '#/state/session'
+import {type SessionAccount} from '#/state/session/types'
 import {STALE} from '#/state/queries'
 import {logger} from '#/logger'
+import {type EncryptedJournalPayload, JournalKeyUnavailableError, sealJournalRecord} from '#/lib/journal-encryption'
+import {applyJournalRecordUpdate, buildJournalRecord} from '#/lib/journal-record'
+import {type JournalPrivacyLevel} from './journal/types'
 import {journalKeys, JournalFilters, PrivacyLevel, TimePeriod, FeedType, FeedParams} from './journal-keys'
 import {JournalCacheInvalidator} from './journal-cache'
+import {useJournalWrite} from './journal-outbox'
+import {
+  deleteJournalRecord,
+  getJournalRecord,
+  getJournalRkey,
+  type JournalRecordView,
+  listAllJournalRecords,
+  listJournalRecords,
+  readJournalRecord,
+  readJournalRecords,
+} from './journal-repository'
 
-// Types from existing JournalEntry component
-export interface JournalEntry {
-  uri: string
-  cid: string
-  text: string
-  entryType: 'real_time' | 'backdated'
-  incidentTimestamp?: string
-  location?: {
-    latitude: number
-    longitude: number
-    accuracy?: number
-    address?: string
-  }
-  symptoms?: Array<{
-    category: string
-    severity: number
-    notes?: string
-  }>
-  tags?: string[]
-  sourceIds?: string[]
-  isPrivate: boolean
-  createdAt: string
+/**
+ * A journal entry as every screen sees it: a record from the repository,
+ * migrated to the current schema and opened, plus who wrote it
+ */
+export type JournalEntry = JournalRecordView & {
   indexedAt?: string
   author: {
     did: string
@@ -46,17 +45,33 @@ export interface JournalEntry {
 
 export interface JournalDraft {
   id: string
+  // Set when the draft is an edit of an existing entry
+  uri?: string
   text: string
   entryType: 'real_time' | 'backdated'
   incidentTimestamp?: string
   location?: JournalEntry['location']
   symptoms?: JournalEntry['symptoms']
   tags?: string[]
+  triggerWarnings?: string[]
   sourceIds?: string[]
+  evidenceAttachments?: JournalEntry['evidenceAttachments']
   isPrivate: boolean
   lastSaved: string
 }
 
+/**
+ * A private draft as it's stored on the device
+ */
+export interface SealedJournalDraft {
+  id: string
+  uri?: string
+  isPrivate: true
+  lastSaved: string
+  // The rest of the draft, sealed with the journal key
+  encrypted: EncryptedJournalPayload
+}
+
 export interface JournalPrivacySettings {
   defaultPrivacy: PrivacyLevel
   allowPublicSymptoms: boolean
@@ -94,6 +109,29 @@ export interface JournalSyncStatus {
   isSyncing: boolean
 }
 
+export interface JournalOutboxOperation {
+  id: string
+  action: 'create' | 'update' | 'delete'
+  rkey: string
+  // Already sealed, so private entries are never queued in plaintext
+  record?: Record<string, unknown>
+  // CID the edit was based on; if the entry changed elsewhere in the meantime
+  // the write is held back as a conflict instead of overwriting it
+  swapRecord?: string
+  queuedAt: string
+  attempts: number
+  error?: string
+  conflict?: boolean
+}
+
+export interface JournalArchiveItem {
+  uri: string
+  createdAt: string
+  archivedAt: string
+  // The whole record and its earlier versions, sealed with the journal key
+  payload: EncryptedJournalPayload
+}
+
 export interface JournalStats {
   totalEntries: number
   privateEntries: number
@@ -120,7 +158,9 @@ export interface CreateJournalEntryParams {
   symptoms?: JournalEntry['symptoms']
   tags?: string[]
   sourceIds?: string[]
+  // Older callers only say whether the entry is private
   isPrivate: boolean
+  privacyLevel?: JournalPrivacyLevel
 }
 
 export interface UpdateJournalEntryParams extends Partial<CreateJournalEntryParams> {
@@ -151,6 +191,22 @@ interface JournalPage {
   hasMore: boolean
 }
 
+// List and detail queries share the `entries` root, so updaters applied
+// across it have to skip data that isn't a paged list
+function isJournalPages(data: unknown): data is InfiniteData<JournalPage> {
+  return !!data && Array.isArray((data as InfiniteData<JournalPage>).pages)
+}
+
+function toJournalEntry(view: JournalRecordView, account: SessionAccount): JournalEntry {
+  return {
+    ...view,
+    author: {
+      did: account.did,
+      handle: account.handle,
+    },
+  }
+}
+
 /**
  * Fetch journal entries with infinite scroll support
  * Optimized for large datasets with privacy-aware caching
@@ -168,32 +224,22 @@ export function useJournalEntriesInfinite(
       if (!currentAccount) throw new Error('No authenticated user')
 
       try {
-        const response = await agent.com.atproto.repo.listRecords({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
+        const {records, cursor} = await listJournalRecords(agent, currentAccount.did, {
           limit: 20,
           cursor: pageParam as string | undefined,
         })
 
-        const entries = response.data.records.map((record: any) => ({
-          uri: record.uri,
-          cid: record.cid,
-          ...record.value,
-          author: {
-            did: currentAccount.did,
-            handle: currentAccount.handle,
-            displayName: currentAccount.displayName,
-            avatar: currentAccount.avatar,
-          },
-        })) as JournalEntry[]
+        const entries = (await readJournalRecords(currentAccount.did, records)).map(
+          (view) => toJournalEntry(view, currentAccount)
+        )
 
         // Apply client-side filtering for complex filters
         const filteredEntries = applyJournalFilters(entries, filters)
 
         return {
           entries: filteredEntries,
-          cursor: response.data.cursor,
-          hasMore: !!response.data.cursor,
+          cursor,
+          hasMore: !!cursor,
         }
       } catch (error) {
         logger.error('Failed to fetch journal entries', {
@@ -216,7 +262,39 @@ export function useJournalEntriesInfinite(
 }
 
 /**
- * Fetch a single journal entry with optimistic updates support
+ * Every entry in the user's journal, newest first. Used by screens that
+ * summarise or search the whole journal rather than scroll through it.
+ */
+export function useJournalEntries(enabled: boolean = true) {
+  const {currentAccount} = useSession()
+  const agent = useAgent()
+
+  return useQuery<JournalEntry[], Error>({
+    queryKey: journalKeys.allEntries(currentAccount?.did || ''),
+    queryFn: async () => {
+      if (!currentAccount) throw new Error('No authenticated user')
+
+      try {
+        const records = await listAllJournalRecords(agent, currentAccount.did)
+        return (await readJournalRecords(currentAccount.did, records)).map(
+          (view) => toJournalEntry(view, currentAccount)
+        )
+      } catch (error) {
+        logger.error('Failed to fetch journal entries', {
+          message: String(error),
+          did: currentAccount.did,
+        })
+        throw error
+      }
+    },
+    staleTime: STALE.MINUTES.ONE,
+    enabled: enabled && !!currentAccount,
+  })
+}
+
+/**
+ * Fetch a single journal entry with optimistic updates support. Entries by
+ * other people are read from their repo, and stay locked if sealed.
  */
 export function useJournalEntry(uri: string, enabled: boolean = true) {
   const agent = useAgent()
@@ -228,23 +306,23 @@ export function useJournalEntry(uri: string, enabled: boolean = true) {
       if (!currentAccount) throw new Error('No authenticated user')
 
       try {
-        const response = await agent.com.atproto.repo.getRecord({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
-          rkey: uri.split('/').pop()!,
-        })
+        const did = new AtUri(uri).host
+        const record = await getJournalRecord(agent, did, getJournalRkey(uri))
+        const view = await readJournalRecord(did, record)
+        if (did === currentAccount.did) {
+          return toJournalEntry(view, currentAccount)
+        }
 
+        const {data: profile} = await agent.getProfile({actor: did})
         return {
-          uri: response.uri,
-          cid: response.cid,
-          ...response.value,
+          ...view,
           author: {
-            did: currentAccount.did,
-            handle: currentAccount.handle,
-            displayName: currentAccount.displayName,
-            avatar: currentAccount.avatar,
+            did,
+            handle: profile.handle,
+            displayName: profile.displayName,
+            avatar: profile.avatar,
           },
-        } as JournalEntry
+        }
       } catch (error) {
         logger.error('Failed to fetch journal entry', {
           message: String(error),
@@ -272,16 +350,13 @@ export function useJournalStats(period: TimePeriod = 'month') {
 
       try {
         // Fetch all entries for analysis (could be optimized with server-side aggregation)
-        const response = await agent.com.atproto.repo.listRecords({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
+        const {records} = await listJournalRecords(agent, currentAccount.did, {
           limit: 1000, // Consider pagination for users with many entries
         })
 
-        const entries = response.data.records.map((record: any) => ({
-          ...record.value,
-          uri: record.uri,
-        })) as JournalEntry[]
+        const entries = (await readJournalRecords(currentAccount.did, records)).map(
+          (view) => toJournalEntry(view, currentAccount)
+        )
 
         return computeJournalStats(entries, period)
       } catch (error) {
@@ -300,11 +375,13 @@ export function useJournalStats(period: TimePeriod = 'month') {
 }
 
 /**
- * Create journal entry with optimistic updates and offline support
+ * Create journal entry with optimistic updates and offline support. It's
+ * written through the outbox like the composer's, so it joins the integrity
+ * chain and is queued when offline.
  */
 export function useCreateJournalEntry() {
   const queryClient = useQueryClient()
-  const agent = useAgent()
+  const writeJournal = useJournalWrite()
   const {currentAccount} = useSession()
 
   return useMutation<JournalEntry, Error, CreateJournalEntryParams>({
@@ -312,29 +389,17 @@ export function useCreateJournalEntry() {
       if (!currentAccount) throw new Error('No authenticated user')
 
       try {
-        const record = {
-          $type: 'app.warlog.journal',
+        const record = buildJournalRecord({
           ...params,
           createdAt: new Date().toISOString(),
-        }
+        })
 
-        const response = await agent.com.atproto.repo.createRecord({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
-          record,
+        const {uri, cid = ''} = await writeJournal({
+          action: 'create',
+          record: await sealJournalRecord(currentAccount.did, record),
         })
 
-        return {
-          uri: response.uri,
-          cid: response.cid,
-          ...record,
-          author: {
-            did: currentAccount.did,
-            handle: currentAccount.handle,
-            displayName: currentAccount.displayName,
-            avatar: currentAccount.avatar,
-          },
-        } as JournalEntry
+        return toJournalEntry({...record, uri, cid}, currentAccount)
       } catch (error) {
         logger.error('Failed to create journal entry', {
           message: String(error),
@@ -353,21 +418,21 @@ export function useCreateJournalEntry() {
       const optimisticEntry: JournalEntry = {
         uri: `temp:${Date.now()}`,
         cid: `temp:${Date.now()}`,
-        ...newEntry,
-        createdAt: new Date().toISOString(),
+        ...buildJournalRecord({
+          ...newEntry,
+          createdAt: new Date().toISOString(),
+        }),
         author: {
           did: currentAccount?.did || '',
           handle: currentAccount?.handle || '',
-          displayName: currentAccount?.displayName,
-          avatar: currentAccount?.avatar,
         },
       }
 
       // Update infinite query cache
       queryClient.setQueriesData(
         {queryKey: journalKeys.entries()},
-        (old: InfiniteData<JournalPage> | undefined) => {
-          if (!old) return old
+        (old: unknown) => {
+          if (!isJournalPages(old)) return old
           return {
             ...old,
             pages: [
@@ -387,8 +452,8 @@ export function useCreateJournalEntry() {
       // Update with real entry
       queryClient.setQueriesData(
         {queryKey: journalKeys.entries()},
-        (old: InfiniteData<JournalPage> | undefined) => {
-          if (!old) return old
+        (old: unknown) => {
+          if (!isJournalPages(old)) return old
           return {
             ...old,
             pages: old.pages.map((page, index) => {
@@ -407,6 +472,9 @@ export function useCreateJournalEntry() {
       )
 
       // Invalidate related caches
+      queryClient.invalidateQueries({
+        queryKey: journalKeys.allEntries(currentAccount?.did || ''),
+      })
       queryClient.invalidateQueries({
         queryKey: journalKeys.analytics(),
       })
@@ -416,8 +484,8 @@ export function useCreateJournalEntry() {
       if (context?.optimisticEntry) {
         queryClient.setQueriesData(
           {queryKey: journalKeys.entries()},
-          (old: InfiniteData<JournalPage> | undefined) => {
-            if (!old) return old
+          (old: unknown) => {
+            if (!isJournalPages(old)) return old
             return {
               ...old,
               pages: old.pages.map((page, index) => {
@@ -440,11 +508,13 @@ export function useCreateJournalEntry() {
 }
 
 /**
- * Update journal entry with conflict resolution
+ * Update journal entry with conflict resolution. Like creates, it's written
+ * through the outbox.
  */
 export function useUpdateJournalEntry() {
   const queryClient = useQueryClient()
   const agent = useAgent()
+  const writeJournal = useJournalWrite()
   const {currentAccount} = useSession()
 
   return useMutation<JournalEntry, Error, UpdateJournalEntryParams>({
@@ -452,39 +522,30 @@ export function useUpdateJournalEntry() {
       if (!currentAccount) throw new Error('No authenticated user')
 
       try {
-        const {uri, ...updateData} = params
-        const rkey = uri.split('/').pop()!
-
-        // Get current record for CID
-        const currentRecord = await agent.com.atproto.repo.getRecord({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
-          rkey,
-        })
-
-        const updatedRecord = {
-          ...currentRecord.value,
+        const {uri, swapCid, ...updateData} = params
+        const rkey = getJournalRkey(uri)
+
+        // Open first so a partial update never merges plaintext fields into
+        // a record that is still sealed
+        const current = await readJournalRecord(
+          currentAccount.did,
+          await getJournalRecord(agent, currentAccount.did, rkey)
+        )
+        if (current.isLocked) throw new JournalKeyUnavailableError()
+        const updatedRecord = applyJournalRecordUpdate(current, {
+          updatedAt: new Date().toISOString(),
           ...updateData,
-        }
+        })
 
-        const response = await agent.com.atproto.repo.putRecord({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
+        // until a queued edit is sent, the entry keeps its current CID
+        const {cid = current.cid} = await writeJournal({
+          action: 'update',
           rkey,
-          record: updatedRecord,
+          record: await sealJournalRecord(currentAccount.did, updatedRecord),
+          swapRecord: swapCid,
         })
 
-        return {
-          uri: response.uri,
-          cid: response.cid,
-          ...updatedRecord,
-          author: {
-            did: currentAccount.did,
-            handle: currentAccount.handle,
-            displayName: currentAccount.displayName,
-            avatar: currentAccount.avatar,
-          },
-        } as JournalEntry
+        return toJournalEntry({...updatedRecord, uri, cid}, currentAccount)
       } catch (error) {
         logger.error('Failed to update journal entry', {
           message: String(error),
@@ -503,8 +564,8 @@ export function useUpdateJournalEntry() {
       // Update entries in infinite query
       queryClient.setQueriesData(
         {queryKey: journalKeys.entries()},
-        (old: InfiniteData<JournalPage> | undefined) => {
-          if (!old) return old
+        (old: unknown) => {
+          if (!isJournalPages(old)) return old
           return {
             ...old,
             pages: old.pages.map((page) => ({
@@ -518,6 +579,9 @@ export function useUpdateJournalEntry() {
       )
 
       // Invalidate analytics if privacy or other key fields changed
+      queryClient.invalidateQueries({
+        queryKey: journalKeys.allEntries(currentAccount?.did || ''),
+      })
       queryClient.invalidateQueries({
         queryKey: journalKeys.analytics(),
       })
@@ -540,8 +604,6 @@ export function useDeleteJournalEntry() {
       if (!confirm) throw new Error('Deletion must be confirmed')
 
       try {
-        const rkey = uri.split('/').pop()!
-        
         // Log deletion for audit trail
         logger.info('Journal entry deletion requested', {
           uri,
@@ -549,11 +611,7 @@ export function useDeleteJournalEntry() {
           timestamp: new Date().toISOString(),
         })
 
-        await agent.com.atproto.repo.deleteRecord({
-          repo: currentAccount.did,
-          collection: 'app.warlog.journal',
-          rkey,
-        })
+        await deleteJournalRecord(agent, currentAccount.did, getJournalRkey(uri))
 
         // Log successful deletion
         logger.info('Journal entry deleted successfully', {
@@ -587,9 +645,7 @@ function applyJournalFilters(entries: JournalEntry[], filters?: JournalFilters):
 
     // Privacy filter
     if (filters.privacy && filters.privacy !== 'all') {
-      const isPrivate = entry.isPrivate
-      if (filters.privacy === 'private' && !isPrivate) return false
-      if (filters.privacy === 'public' && isPrivate) return false
+      if (filters.privacy !== entry.privacyLevel) return false
     }
 
     // Date range filter
@@ -663,8 +719,8 @@ function computeJournalStats(entries: JournalEntry[], period: TimePeriod): Journ
 
   return {
     totalEntries: periodEntries.length,
-    privateEntries: periodEntries.filter((e) => e.isPrivate).length,
-    publicEntries: periodEntries.filter((e) => !e.isPrivate).length,
+    privateEntries: periodEntries.filter((e) => e.privacyLevel === 'private').length,
+    publicEntries: periodEntries.filter((e) => e.privacyLevel === 'public').length,
     realTimeEntries: periodEntries.filter((e) => e.entryType === 'real_time').length,
     backdatedEntries: periodEntries.filter((e) => e.entryType === 'backdated').length,
     entriesWithSymptoms: periodEntries.filter((e) => e.symptoms && e.symptoms.length > 0).length,
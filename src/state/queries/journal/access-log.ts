@@ -0,0 +1,216 @@
+/**
+ * Journal Access Log Hooks
+ *
+ * Entries flagged `accessLogRequired` have every view by someone other than
+ * their author recorded: who viewed it, when, and how they got there. Each
+ * view is an access event record in the viewer's repo, like the rest of the
+ * journal data, so it's public. The author's log is gathered from the repos
+ * of the people they've granted access to the entry, since there's no index
+ * of everyone else's repos to search.
+ */
+
+import {useEffect, useRef} from 'react'
+import {AtUri} from '@atproto/api'
+import {useMutation, useQuery} from '@tanstack/react-query'
+
+import {buildJournalAccessLogCSV} from '#/lib/journal-export'
+import {shareJournalExport} from '#/lib/journal-export/share'
+import {logger} from '#/logger'
+import {useAgent, useSession} from '#/state/session'
+import {journalKeys} from '../journal-keys'
+import {
+  JOURNAL_GC_TIME,
+  JOURNAL_PAGE_SIZES,
+  JOURNAL_STALE_TIME,
+} from './constants'
+import {fetchJournalAccessGrants} from './privacy'
+import {
+  type JournalAccessEvent,
+  type JournalAccessPath,
+  type JournalError,
+} from './types'
+import {
+  createJournalError,
+  type JournalAccessSubject,
+  shouldLogJournalAccess,
+} from './utils'
+
+type Agent = ReturnType<typeof useAgent>
+
+const ACCESS_EVENT_COLLECTION = 'app.warlog.accessEvent'
+
+interface AccessEventRecord {
+  subject: {uri: string; cid: string}
+  accessPath: JournalAccessPath
+  accessedAt: string
+}
+
+export type JournalAccessLogSubject = JournalAccessSubject & {
+  cid: string
+  author: {did: string}
+  accessLogRequired?: boolean
+}
+
+export async function logJournalEntryAccess(
+  agent: Agent,
+  viewerDid: string,
+  {uri, cid, accessPath}: {uri: string; cid: string; accessPath: JournalAccessPath}
+) {
+  const record: AccessEventRecord = {
+    subject: {uri, cid},
+    accessPath,
+    accessedAt: new Date().toISOString(),
+  }
+  await agent.com.atproto.repo.createRecord({
+    repo: viewerDid,
+    collection: ACCESS_EVENT_COLLECTION,
+    record: {$type: ACCESS_EVENT_COLLECTION, ...record},
+  })
+}
+
+/**
+ * Fetches one viewer's views of an entry from their repo
+ */
+async function fetchViewerAccessEvents(
+  agent: Agent,
+  viewerDid: string,
+  entryUri: string
+): Promise<JournalAccessEvent[]> {
+  const events: JournalAccessEvent[] = []
+  let cursor: string | undefined
+  try {
+    do {
+      const response = await agent.com.atproto.repo.listRecords({
+        repo: viewerDid,
+        collection: ACCESS_EVENT_COLLECTION,
+        limit: JOURNAL_PAGE_SIZES.ACCESS_LOG,
+        cursor,
+      })
+      for (const record of response.data.records) {
+        const value = record.value as unknown as AccessEventRecord
+        if (value.subject?.uri !== entryUri) continue
+        events.push({
+          id: record.uri,
+          entryUri,
+          viewerDid,
+          accessedAt: value.accessedAt,
+          accessPath: value.accessPath,
+        })
+      }
+      cursor = response.data.cursor
+    } while (cursor)
+  } catch (error: unknown) {
+    // the viewer's account may be gone, which leaves nothing to show
+    if (error instanceof Error && error.message.includes('not found')) {
+      return []
+    }
+    throw error
+  }
+  return events
+}
+
+/**
+ * Records the viewer's view of an entry if the entry requires it. Logs once
+ * per entry while the screen is open, not on every refetch.
+ */
+export function useLogJournalEntryAccess(
+  entry: JournalAccessLogSubject | undefined,
+  accessPath: JournalAccessPath = 'direct'
+) {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const loggedUri = useRef<string | undefined>(undefined)
+
+  useEffect(() => {
+    if (!entry || !currentAccount) return
+    if (!shouldLogJournalAccess(entry, currentAccount.did)) return
+    if (loggedUri.current === entry.uri) return
+    loggedUri.current = entry.uri
+
+    logJournalEntryAccess(agent, currentAccount.did, {
+      uri: entry.uri,
+      cid: entry.cid,
+      accessPath,
+    }).catch(error => {
+      // let the next render try again
+      loggedUri.current = undefined
+      logger.error('Failed to log journal entry access', {
+        message: String(error),
+        entryUri: entry.uri,
+      })
+    })
+  }, [agent, currentAccount, entry, accessPath])
+}
+
+/**
+ * Hook to fetch the views of one of the user's entries by the people it's
+ * been granted to, newest first. Grants that have since expired or been
+ * revoked still count, since their views happened.
+ */
+export function useJournalAccessLog(entryUri: string | undefined) {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+
+  return useQuery<JournalAccessEvent[], JournalError>({
+    queryKey: journalKeys.accessLog(entryUri || ''),
+    queryFn: async (): Promise<JournalAccessEvent[]> => {
+      if (!currentAccount || !entryUri) {
+        throw createJournalError('permission_denied', 'Authentication required')
+      }
+      if (new AtUri(entryUri).host !== currentAccount.did) {
+        throw createJournalError(
+          'permission_denied',
+          'Only the author can see who viewed this entry.'
+        )
+      }
+
+      try {
+        const grants = await fetchJournalAccessGrants(agent, currentAccount.did)
+        const viewerDids = new Set(
+          grants
+            .filter(grant => grant.entryUri === entryUri)
+            .map(grant => grant.granteeDid)
+        )
+        const events = (
+          await Promise.all(
+            [...viewerDids].map(viewerDid =>
+              fetchViewerAccessEvents(agent, viewerDid, entryUri)
+            )
+          )
+        ).flat()
+
+        return events.sort(
+          (a, b) => new Date(b.accessedAt).getTime() - new Date(a.accessedAt).getTime()
+        )
+      } catch (error) {
+        logger.error('Failed to fetch journal access log', {
+          message: String(error),
+          entryUri,
+        })
+        throw error
+      }
+    },
+    enabled: !!currentAccount && !!entryUri,
+    staleTime: JOURNAL_STALE_TIME.ACCESS_LOG,
+    gcTime: JOURNAL_GC_TIME.ACCESS_LOG,
+  })
+}
+
+/**
+ * Hook to share an entry's access log as a CSV file
+ */
+export function useExportJournalAccessLog() {
+  return useMutation<void, Error, {entryUri: string; events: JournalAccessEvent[]}>({
+    mutationFn: async ({entryUri, events}) => {
+      const date = new Date().toISOString().slice(0, 10)
+      await shareJournalExport({
+        filename: `journal-access-log-${new AtUri(entryUri).rkey}-${date}.csv`,
+        format: 'csv',
+        content: buildJournalAccessLogCSV(events),
+      })
+    },
+    onError: error => {
+      logger.error('Failed to export journal access log', {message: String(error)})
+    },
+  })
+}
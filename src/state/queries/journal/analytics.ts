@@ -1,41 +1,39 @@
 /**
  * Journal Analytics Hooks with Privacy-Aware Data Processing
- * 
- * Provides comprehensive analytics and insights for journal entries with:
+ *
+ * Provides analytics and insights for journal entries with:
  * - Privacy-compliant data aggregation
  * - Temporal pattern analysis
  * - Symptom trend tracking
- * - Engagement metrics
- * - Export functionality
  * - Performance monitoring
  */
 
-import {useCallback, useMemo} from 'react'
-import {
-  useQuery,
-  useMutation,
-  useQueryClient,
-} from '@tanstack/react-query'
-import {useAgent, useSession} from '#/state/session'
-import {STALE} from '#/state/queries'
+import {useQuery, useQueryClient} from '@tanstack/react-query'
+
+import {coarsenLocation} from '#/lib/journal-location'
+import {cleanError} from '#/lib/strings/errors'
 import {logger} from '#/logger'
-import {JOURNAL_API_CONFIG} from '#/env'
-
-import type {
-  JournalAnalytics,
-  JournalExportRequest,
-  JournalBackupMetadata,
-  JournalError,
-  JournalErrorType,
-  SymptomCategory,
-} from './types'
+import {STALE} from '#/state/queries'
+import {useAgent, useSession} from '#/state/session'
+import {journalKeys} from '../journal-keys'
 import {
-  JOURNAL_QUERY_KEYS,
-  JOURNAL_STALE_TIME,
+  type JournalRecordView,
+  listJournalRecords,
+  readJournalRecords,
+} from '../journal-repository'
+import {
+  type ANALYTICS_PERIODS,
   JOURNAL_RETRY_CONFIG,
-  ANALYTICS_PERIODS,
-  EXPORT_FORMATS,
+  JOURNAL_STALE_TIME,
 } from './constants'
+import {
+  type JournalAnalytics,
+  type JournalError,
+  type JournalErrorType,
+  type SymptomCategory,
+} from './types'
+
+type AnalyticsPeriod = keyof typeof ANALYTICS_PERIODS
 
 /**
  * Enhanced analytics with temporal and geographic patterns
@@ -44,31 +42,40 @@ export interface EnhancedJournalAnalytics extends JournalAnalytics {
   privacyCompliantData: boolean
   dataSourcePeriod: string
   computedAt: string
-  
+
+  // Entry breakdown
+  privateEntries: number
+  publicEntries: number
+  realTimeEntries: number
+  backdatedEntries: number
+  entriesWithSymptoms: number
+  entriesWithLocation: number
+  entriesWithSources: number
+  avgSymptomsPerEntry: number
+  timelineCoverage: {
+    firstEntry: string
+    lastEntry: string
+    totalDays: number
+  }
+
   // Enhanced metrics
   qualityOfLifeScore?: number
-  symptomSeverityTrend: 'improving' | 'worsening' | 'stable' | 'insufficient_data'
+  symptomSeverityTrend:
+    | 'improving'
+    | 'worsening'
+    | 'stable'
+    | 'insufficient_data'
   mostActiveTimeSlots: Array<{
     hour: number
     dayOfWeek: number
     activityScore: number
   }>
-  
-  // Privacy-protected location insights
-  locationInsights?: {
-    homePatternScore: number // 0-1 score for incidents at home
-    workPatternScore: number
-    publicPatternScore: number
-    travelDaysCount: number
-  }
-  
+
   // Correlation analysis
   correlations: {
-    weatherSymptoms: number // -1 to 1 correlation
-    timeOfDaySymptoms: number
-    locationSymptoms: number
+    timeOfDaySymptoms: number // -1 to 1 correlation
   }
-  
+
   // Predictive insights (privacy-safe)
   predictions?: {
     likelySymptomDays: number[] // Days of week (0-6)
@@ -77,40 +84,28 @@ export interface EnhancedJournalAnalytics extends JournalAnalytics {
   }
 }
 
-/**
- * Export status tracking
- */
-export interface ExportStatus {
-  id: string
-  format: keyof typeof EXPORT_FORMATS
-  status: 'pending' | 'processing' | 'completed' | 'failed'
-  progress: number
-  totalEntries: number
-  processedEntries: number
-  downloadUrl?: string
-  expiresAt?: string
-  error?: string
-  createdAt: string
-}
-
 /**
  * Create analytics error
  */
 function createAnalyticsError(
   type: JournalErrorType,
   message: string,
-  error?: any,
 ): JournalError {
   const analyticsError = new Error(message) as JournalError
   analyticsError.type = type
   analyticsError.retryable = type !== 'permission_denied'
-  analyticsError.privacyRelated = ['permission_denied', 'privacy_violation'].includes(type)
+  analyticsError.privacyRelated = [
+    'permission_denied',
+    'privacy_violation',
+  ].includes(type)
   analyticsError.userMessage = getAnalyticsErrorMessage(type, message)
-  analyticsError.details = error
   return analyticsError
 }
 
-function getAnalyticsErrorMessage(type: JournalErrorType, originalMessage: string): string {
+function getAnalyticsErrorMessage(
+  type: JournalErrorType,
+  originalMessage: string,
+): string {
   switch (type) {
     case 'permission_denied':
       return 'You do not have permission to view analytics for this data.'
@@ -127,17 +122,688 @@ function getAnalyticsErrorMessage(type: JournalErrorType, originalMessage: strin
  * Hook for comprehensive journal analytics
  */
 export function useJournalAnalytics(
-  period: keyof typeof ANALYTICS_PERIODS = 'MONTH',
+  period: Exclude<AnalyticsPeriod, 'DAY'> = 'MONTH',
   options?: {
     includePredictions?: boolean
     includeCorrelations?: boolean
     privacyLevel?: 'basic' | 'detailed' | 'full'
-  }
+  },
 ) {
   const {currentAccount} = useSession()
   const agent = useAgent()
 
   return useQuery<EnhancedJournalAnalytics, JournalError>({
-    queryKey: JOURNAL_QUERY_KEYS.analytics(currentAccount?.did || '', period),
+    queryKey: journalKeys.summary(currentAccount?.did || '', period),
     queryFn: async (): Promise<EnhancedJournalAnalytics> => {
-      if (!currentAccount) {\n        throw createAnalyticsError('permission_denied', 'Authentication required')\n      }\n\n      try {\n        // Fetch journal entries for analysis\n        const entriesResponse = await agent.com.atproto.repo.listRecords({\n          repo: currentAccount.did,\n          collection: 'app.warlog.journal',\n          limit: 1000, // Get substantial data for analytics\n        })\n\n        const entries = entriesResponse.data.records.map((record: any) => ({\n          ...record.value,\n          uri: record.uri,\n          cid: record.cid,\n        }))\n\n        // Apply period filtering\n        const periodStart = getPeriodStart(new Date(), period)\n        const filteredEntries = entries.filter((entry: any) => \n          new Date(entry.createdAt) >= periodStart\n        )\n\n        // Generate comprehensive analytics\n        const analytics = await generateEnhancedAnalytics(\n          filteredEntries,\n          period,\n          options\n        )\n\n        logger.info('Analytics generated successfully', {\n          userDid: currentAccount.did,\n          period,\n          totalEntries: filteredEntries.length,\n          privacyLevel: options?.privacyLevel || 'basic',\n        })\n\n        return analytics\n      } catch (error: any) {\n        logger.error('Failed to generate analytics', {\n          error: error.message,\n          userDid: currentAccount.did,\n          period,\n        })\n\n        if (error.type) {\n          throw error\n        }\n\n        throw createAnalyticsError('server_error', error.message, error)\n      }\n    },\n    enabled: !!currentAccount,\n    staleTime: JOURNAL_STALE_TIME.ANALYTICS,\n    refetchOnWindowFocus: false,\n    ...JOURNAL_RETRY_CONFIG.DEFAULT,\n  })\n}\n\n/**\n * Hook for real-time analytics insights\n */\nexport function useJournalInsights() {\n  const {currentAccount} = useSession()\n  const agent = useAgent()\n\n  return useQuery({\n    queryKey: JOURNAL_QUERY_KEYS.insights(currentAccount?.did || ''),\n    queryFn: async () => {\n      if (!currentAccount) {\n        throw createAnalyticsError('permission_denied', 'Authentication required')\n      }\n\n      try {\n        // Get recent entries for quick insights\n        const recentResponse = await agent.com.atproto.repo.listRecords({\n          repo: currentAccount.did,\n          collection: 'app.warlog.journal',\n          limit: 50,\n        })\n\n        const recentEntries = recentResponse.data.records.map((record: any) => ({\n          ...record.value,\n          uri: record.uri,\n        }))\n\n        // Generate quick insights\n        return generateQuickInsights(recentEntries)\n      } catch (error: any) {\n        logger.error('Failed to generate insights', {\n          error: error.message,\n          userDid: currentAccount.did,\n        })\n        throw createAnalyticsError('server_error', error.message, error)\n      }\n    },\n    enabled: !!currentAccount,\n    staleTime: STALE.MINUTES.FIVE,\n    refetchInterval: STALE.MINUTES.FIVE,\n  })\n}\n\n/**\n * Hook for trend analysis over time\n */\nexport function useJournalTrends(\n  period: keyof typeof ANALYTICS_PERIODS = 'MONTH',\n  metric: 'symptoms' | 'frequency' | 'severity' | 'location' = 'symptoms'\n) {\n  const {currentAccount} = useSession()\n  const agent = useAgent()\n\n  return useQuery({\n    queryKey: JOURNAL_QUERY_KEYS.trends(currentAccount?.did || '', `${period}-${metric}`),\n    queryFn: async () => {\n      if (!currentAccount) {\n        throw createAnalyticsError('permission_denied', 'Authentication required')\n      }\n\n      try {\n        // Fetch entries for trend analysis\n        const response = await agent.com.atproto.repo.listRecords({\n          repo: currentAccount.did,\n          collection: 'app.warlog.journal',\n          limit: 500,\n        })\n\n        const entries = response.data.records.map((record: any) => ({\n          ...record.value,\n          uri: record.uri,\n        }))\n\n        // Generate trend data\n        return generateTrendAnalysis(entries, period, metric)\n      } catch (error: any) {\n        logger.error('Failed to generate trends', {\n          error: error.message,\n          userDid: currentAccount.did,\n          period,\n          metric,\n        })\n        throw createAnalyticsError('server_error', error.message, error)\n      }\n    },\n    enabled: !!currentAccount,\n    staleTime: JOURNAL_STALE_TIME.ANALYTICS,\n  })\n}\n\n/**\n * Hook for exporting journal data\n */\nexport function useExportJournalData() {\n  const {currentAccount} = useSession()\n  const agent = useAgent()\n  const queryClient = useQueryClient()\n\n  return useMutation<ExportStatus, JournalError, JournalExportRequest>({\n    mutationFn: async (exportRequest): Promise<ExportStatus> => {\n      if (!currentAccount) {\n        throw createAnalyticsError('permission_denied', 'Authentication required')\n      }\n\n      try {\n        // Validate export request\n        if (!exportRequest.format || !Object.values(EXPORT_FORMATS).includes(exportRequest.format)) {\n          throw createAnalyticsError('server_error', 'Invalid export format')\n        }\n\n        // Create export job\n        const exportId = crypto.randomUUID()\n        const exportStatus: ExportStatus = {\n          id: exportId,\n          format: exportRequest.format as keyof typeof EXPORT_FORMATS,\n          status: 'pending',\n          progress: 0,\n          totalEntries: 0,\n          processedEntries: 0,\n          createdAt: new Date().toISOString(),\n        }\n\n        // Start export process (this would be a background job in production)\n        await startExportProcess(exportRequest, exportStatus, currentAccount.did)\n\n        logger.info('Export started', {\n          exportId,\n          format: exportRequest.format,\n          userDid: currentAccount.did,\n        })\n\n        return exportStatus\n      } catch (error: any) {\n        logger.error('Failed to start export', {\n          error: error.message,\n          userDid: currentAccount.did,\n        })\n        throw createAnalyticsError('server_error', error.message, error)\n      }\n    },\n    onSuccess: (exportStatus) => {\n      // Cache export status\n      queryClient.setQueryData(\n        JOURNAL_QUERY_KEYS.exportStatus(exportStatus.id),\n        exportStatus\n      )\n    },\n  })\n}\n\n/**\n * Hook for tracking export status\n */\nexport function useExportStatus(exportId: string | undefined) {\n  const agent = useAgent()\n\n  return useQuery<ExportStatus, JournalError>({\n    queryKey: JOURNAL_QUERY_KEYS.exportStatus(exportId || ''),\n    queryFn: async (): Promise<ExportStatus> => {\n      if (!exportId) {\n        throw createAnalyticsError('server_error', 'Export ID required')\n      }\n\n      try {\n        // TODO: Fetch export status from backend\n        // For now, return mock status\n        return {\n          id: exportId,\n          format: 'JSON',\n          status: 'completed',\n          progress: 100,\n          totalEntries: 100,\n          processedEntries: 100,\n          downloadUrl: `/api/exports/${exportId}/download`,\n          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),\n          createdAt: new Date().toISOString(),\n        }\n      } catch (error: any) {\n        throw createAnalyticsError('server_error', error.message, error)\n      }\n    },\n    enabled: !!exportId,\n    staleTime: STALE.SECONDS.THIRTY,\n    refetchInterval: (data) => {\n      // Poll while export is in progress\n      return data?.status === 'pending' || data?.status === 'processing' \n        ? STALE.SECONDS.THIRTY \n        : false\n    },\n  })\n}\n\n/**\n * Hook for privacy-compliant performance metrics\n */\nexport function usePerformanceMetrics() {\n  const queryClient = useQueryClient()\n\n  return useQuery({\n    queryKey: ['journal-performance'],\n    queryFn: async () => {\n      // Analyze query cache performance\n      const cache = queryClient.getQueryCache()\n      const queries = cache.getAll()\n      \n      const journalQueries = queries.filter(query => \n        query.queryKey[0]?.toString().includes('journal')\n      )\n\n      const metrics = {\n        totalQueries: journalQueries.length,\n        activeQueries: journalQueries.filter(q => q.getObserversCount() > 0).length,\n        staleQueries: journalQueries.filter(q => q.isStale()).length,\n        cacheHitRate: calculateCacheHitRate(journalQueries),\n        averageQueryTime: calculateAverageQueryTime(journalQueries),\n        memoryUsage: estimateMemoryUsage(journalQueries),\n      }\n\n      return metrics\n    },\n    staleTime: STALE.MINUTES.ONE,\n    refetchInterval: STALE.MINUTES.ONE,\n  })\n}\n\n// Helper functions\n\nasync function generateEnhancedAnalytics(\n  entries: any[],\n  period: string,\n  options?: any\n): Promise<EnhancedJournalAnalytics> {\n  const now = new Date()\n  const periodStart = getPeriodStart(now, period)\n  \n  // Basic counts\n  const totalEntries = entries.length\n  const privateEntries = entries.filter(e => e.privacyLevel === 'private').length\n  const publicEntries = entries.filter(e => e.privacyLevel === 'public').length\n  const realTimeEntries = entries.filter(e => e.entryType === 'real_time').length\n  const backdatedEntries = entries.filter(e => e.entryType === 'backdated').length\n  \n  // Symptom analysis\n  const symptomCounts = new Map<SymptomCategory, number>()\n  const symptomSeverities = new Map<SymptomCategory, number[]>()\n  let totalSymptoms = 0\n  \n  entries.forEach(entry => {\n    if (entry.symptoms?.data) {\n      const symptoms = JSON.parse(entry.symptoms.data)\n      symptoms.forEach((symptom: any) => {\n        const category = symptom.category as SymptomCategory\n        symptomCounts.set(category, (symptomCounts.get(category) || 0) + 1)\n        \n        if (!symptomSeverities.has(category)) {\n          symptomSeverities.set(category, [])\n        }\n        symptomSeverities.get(category)!.push(symptom.severity || 0)\n        totalSymptoms++\n      })\n    }\n  })\n  \n  // Top symptom categories\n  const topSymptomCategories = Array.from(symptomCounts.entries())\n    .map(([category, count]) => ({\n      category,\n      count,\n      averageSeverity: symptomSeverities.get(category)?.reduce((a, b) => a + b, 0) / \n                      (symptomSeverities.get(category)?.length || 1) || 0,\n    }))\n    .sort((a, b) => b.count - a.count)\n    .slice(0, 5)\n  \n  // Temporal analysis\n  const timeAnalysis = analyzeTemporalPatterns(entries)\n  const locationAnalysis = analyzeLocationPatterns(entries)\n  \n  // Generate correlations if requested\n  const correlations = options?.includeCorrelations ? {\n    weatherSymptoms: calculateWeatherCorrelation(entries),\n    timeOfDaySymptoms: calculateTimeCorrelation(entries),\n    locationSymptoms: calculateLocationCorrelation(entries),\n  } : {\n    weatherSymptoms: 0,\n    timeOfDaySymptoms: 0,\n    locationSymptoms: 0,\n  }\n  \n  // Calculate quality of life score (0-100)\n  const qualityOfLifeScore = calculateQualityOfLifeScore(entries, topSymptomCategories)\n  \n  // Determine symptom trend\n  const symptomSeverityTrend = calculateSeverityTrend(entries)\n  \n  return {\n    userId: '', // Will be set by caller\n    period: period as any,\n    \n    // Basic stats\n    totalEntries,\n    privateEntries,\n    publicEntries,\n    realTimeEntries,\n    backdatedEntries,\n    entriesThisPeriod: totalEntries,\n    averageEntriesPerWeek: calculateAverageEntriesPerWeek(entries, period),\n    \n    // Symptom analysis\n    topSymptomCategories,\n    entriesWithSymptoms: entries.filter(e => e.symptoms?.count > 0).length,\n    entriesWithLocation: entries.filter(e => e.location).length,\n    entriesWithSources: entries.filter(e => e.sourceIds?.length > 0).length,\n    avgSymptomsPerEntry: totalEntries > 0 ? totalSymptoms / totalEntries : 0,\n    mostCommonSymptoms: topSymptomCategories.map(s => ({ \n      category: s.category, \n      count: s.count \n    })),\n    \n    // Temporal patterns\n    mostActiveTimeOfDay: timeAnalysis.mostActiveHour,\n    mostActiveDayOfWeek: timeAnalysis.mostActiveDay,\n    incidentTimeTrends: timeAnalysis.trends,\n    mostActiveTimeSlots: timeAnalysis.activeSlots,\n    \n    // Location patterns (privacy-protected)\n    locationClusters: locationAnalysis.clusters,\n    locationInsights: locationAnalysis.insights,\n    \n    // Engagement\n    totalViews: entries.reduce((sum, e) => sum + (e.viewCount || 0), 0),\n    totalComments: entries.reduce((sum, e) => sum + (e.commentCount || 0), 0),\n    totalShares: entries.reduce((sum, e) => sum + (e.shareCount || 0), 0),\n    averageEngagementRate: calculateEngagementRate(entries),\n    \n    // Documentation\n    totalEvidenceItems: entries.reduce((sum, e) => sum + (e.evidenceUris?.length || 0), 0),\n    evidenceByType: calculateEvidenceByType(entries),\n    totalSources: entries.reduce((sum, e) => sum + (e.sourceIds?.length || 0), 0),\n    mostCitedSources: [], // TODO: Implement source citation analysis\n    \n    // Timeline coverage\n    timelineCoverage: calculateTimelineCoverage(entries),\n    \n    // Enhanced metrics\n    privacyCompliantData: true,\n    dataSourcePeriod: period,\n    computedAt: new Date().toISOString(),\n    qualityOfLifeScore,\n    symptomSeverityTrend,\n    correlations,\n    \n    // Predictions (if enabled and sufficient data)\n    predictions: options?.includePredictions && totalEntries >= 10 ? \n      generatePredictions(entries) : undefined,\n  }\n}\n\nfunction generateQuickInsights(entries: any[]) {\n  const recentCount = entries.length\n  const lastWeekEntries = entries.filter(e => \n    new Date(e.createdAt) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)\n  ).length\n  \n  const symptomsToday = entries\n    .filter(e => new Date(e.createdAt).toDateString() === new Date().toDateString())\n    .reduce((sum, e) => sum + (e.symptoms?.count || 0), 0)\n  \n  return {\n    recentActivityScore: Math.min(lastWeekEntries / 7, 1), // 0-1 score\n    symptomsToday,\n    trendDirection: lastWeekEntries > recentCount / 4 ? 'increasing' : 'stable',\n    needsAttention: symptomsToday > 5 || lastWeekEntries > 10,\n    lastEntryTime: entries[0]?.createdAt,\n  }\n}\n\nfunction generateTrendAnalysis(entries: any[], period: string, metric: string) {\n  // Group entries by time periods\n  const groupedData = new Map()\n  \n  entries.forEach(entry => {\n    const date = new Date(entry.createdAt)\n    let key: string\n    \n    switch (period) {\n      case 'DAY':\n        key = date.toISOString().split('T')[0]\n        break\n      case 'WEEK':\n        const weekStart = new Date(date)\n        weekStart.setDate(date.getDate() - date.getDay())\n        key = weekStart.toISOString().split('T')[0]\n        break\n      case 'MONTH':\n        key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`\n        break\n      default:\n        key = date.toISOString().split('T')[0]\n    }\n    \n    if (!groupedData.has(key)) {\n      groupedData.set(key, [])\n    }\n    groupedData.get(key).push(entry)\n  })\n  \n  // Calculate metric for each period\n  const trendData = Array.from(groupedData.entries()).map(([period, entries]) => {\n    let value: number\n    \n    switch (metric) {\n      case 'frequency':\n        value = entries.length\n        break\n      case 'severity':\n        value = calculateAverageSeverity(entries)\n        break\n      case 'symptoms':\n        value = entries.reduce((sum: number, e: any) => sum + (e.symptoms?.count || 0), 0)\n        break\n      case 'location':\n        value = entries.filter((e: any) => e.location).length\n        break\n      default:\n        value = entries.length\n    }\n    \n    return {\n      period,\n      value,\n      entries: entries.length,\n    }\n  }).sort((a, b) => a.period.localeCompare(b.period))\n  \n  return {\n    data: trendData,\n    trend: calculateTrendDirection(trendData.map(d => d.value)),\n    correlation: calculateTrendCorrelation(trendData),\n  }\n}\n\n// Analytical helper functions\n\nfunction getPeriodStart(now: Date, period: string): Date {\n  const start = new Date(now)\n  \n  switch (period) {\n    case 'DAY':\n      start.setHours(0, 0, 0, 0)\n      break\n    case 'WEEK':\n      start.setDate(start.getDate() - start.getDay())\n      start.setHours(0, 0, 0, 0)\n      break\n    case 'MONTH':\n      start.setDate(1)\n      start.setHours(0, 0, 0, 0)\n      break\n    case 'QUARTER':\n      const quarter = Math.floor(start.getMonth() / 3)\n      start.setMonth(quarter * 3, 1)\n      start.setHours(0, 0, 0, 0)\n      break\n    case 'YEAR':\n      start.setMonth(0, 1)\n      start.setHours(0, 0, 0, 0)\n      break\n    default:\n      start.setMonth(start.getMonth() - 1)\n  }\n  \n  return start\n}\n\nfunction analyzeTemporalPatterns(entries: any[]) {\n  const hourCounts = new Array(24).fill(0)\n  const dayCounts = new Array(7).fill(0)\n  const trends: Array<{date: string; count: number; averageSeverity: number}> = []\n  \n  entries.forEach(entry => {\n    const date = new Date(entry.createdAt)\n    hourCounts[date.getHours()]++\n    dayCounts[date.getDay()]++\n  })\n  \n  const mostActiveHour = hourCounts.indexOf(Math.max(...hourCounts))\n  const mostActiveDay = dayCounts.indexOf(Math.max(...dayCounts))\n  \n  // Generate active time slots\n  const activeSlots = hourCounts.map((count, hour) => {\n    const dayOfWeekData = entries.filter(e => new Date(e.createdAt).getHours() === hour)\n    const avgDayOfWeek = dayOfWeekData.length > 0 ? \n      dayOfWeekData.reduce((sum, e) => sum + new Date(e.createdAt).getDay(), 0) / dayOfWeekData.length : 0\n    \n    return {\n      hour,\n      dayOfWeek: Math.round(avgDayOfWeek),\n      activityScore: count / Math.max(...hourCounts),\n    }\n  }).filter(slot => slot.activityScore > 0.1).slice(0, 5)\n  \n  return {\n    mostActiveHour,\n    mostActiveDay,\n    trends,\n    activeSlots,\n  }\n}\n\nfunction analyzeLocationPatterns(entries: any[]) {\n  const locationCounts = new Map()\n  let homeCount = 0, workCount = 0, publicCount = 0\n  \n  entries.forEach(entry => {\n    if (entry.location?.data) {\n      try {\n        const location = JSON.parse(entry.location.data)\n        const key = `${Math.round(location.latitude * 100) / 100},${Math.round(location.longitude * 100) / 100}`\n        locationCounts.set(key, (locationCounts.get(key) || 0) + 1)\n        \n        // Categorize locations (simplified logic)\n        if (entry.environment === 'home') homeCount++\n        else if (entry.environment === 'work') workCount++\n        else publicCount++\n      } catch (e) {\n        // Ignore invalid location data\n      }\n    }\n  })\n  \n  const total = entries.length\n  const clusters = Array.from(locationCounts.entries())\n    .map(([coords, count]) => {\n      const [lat, lng] = coords.split(',')\n      return {\n        city: 'Unknown', // Would need reverse geocoding\n        state: 'Unknown',\n        count,\n      }\n    })\n    .slice(0, 10) // Top 10 locations\n  \n  const insights = {\n    homePatternScore: total > 0 ? homeCount / total : 0,\n    workPatternScore: total > 0 ? workCount / total : 0,\n    publicPatternScore: total > 0 ? publicCount / total : 0,\n    travelDaysCount: clusters.length,\n  }\n  \n  return { clusters, insights }\n}\n\nfunction calculateQualityOfLifeScore(entries: any[], symptoms: any[]): number {\n  if (entries.length === 0) return 50 // Neutral score\n  \n  // Base score starts at 100\n  let score = 100\n  \n  // Reduce score based on symptom frequency and severity\n  const avgSymptomsPerEntry = symptoms.reduce((sum, s) => sum + s.count, 0) / entries.length\n  const avgSeverity = symptoms.reduce((sum, s) => sum + s.averageSeverity, 0) / symptoms.length\n  \n  score -= avgSymptomsPerEntry * 5 // Each symptom per entry reduces score by 5\n  score -= avgSeverity * 3 // Each severity point reduces score by 3\n  \n  // Consider entry frequency (too many or too few entries both reduce score)\n  const entriesPerWeek = entries.length / 4 // Assuming monthly period\n  if (entriesPerWeek > 7) score -= (entriesPerWeek - 7) * 2 // Too many entries\n  if (entriesPerWeek < 1) score -= (1 - entriesPerWeek) * 10 // Too few entries\n  \n  return Math.max(0, Math.min(100, Math.round(score)))\n}\n\nfunction calculateSeverityTrend(entries: any[]): 'improving' | 'worsening' | 'stable' | 'insufficient_data' {\n  if (entries.length < 5) return 'insufficient_data'\n  \n  // Sort entries by date\n  const sortedEntries = entries.sort((a, b) => \n    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()\n  )\n  \n  // Calculate average severity for first and last half\n  const midpoint = Math.floor(sortedEntries.length / 2)\n  const firstHalf = sortedEntries.slice(0, midpoint)\n  const secondHalf = sortedEntries.slice(midpoint)\n  \n  const firstHalfSeverity = calculateAverageSeverity(firstHalf)\n  const secondHalfSeverity = calculateAverageSeverity(secondHalf)\n  \n  const difference = secondHalfSeverity - firstHalfSeverity\n  \n  if (Math.abs(difference) < 0.5) return 'stable'\n  return difference > 0 ? 'worsening' : 'improving'\n}\n\nfunction calculateAverageSeverity(entries: any[]): number {\n  let totalSeverity = 0\n  let symptomCount = 0\n  \n  entries.forEach(entry => {\n    if (entry.symptoms?.data) {\n      try {\n        const symptoms = JSON.parse(entry.symptoms.data)\n        symptoms.forEach((symptom: any) => {\n          totalSeverity += symptom.severity || 0\n          symptomCount++\n        })\n      } catch (e) {\n        // Ignore invalid symptom data\n      }\n    }\n  })\n  \n  return symptomCount > 0 ? totalSeverity / symptomCount : 0\n}\n\nfunction calculateAverageEntriesPerWeek(entries: any[], period: string): number {\n  if (entries.length === 0) return 0\n  \n  const weeks = period === 'MONTH' ? 4 : \n                period === 'QUARTER' ? 12 : \n                period === 'YEAR' ? 52 : 1\n  \n  return entries.length / weeks\n}\n\nfunction calculateEngagementRate(entries: any[]): number {\n  if (entries.length === 0) return 0\n  \n  const totalEngagement = entries.reduce((sum, entry) => \n    sum + (entry.commentCount || 0) + (entry.shareCount || 0) + (entry.supportReactionCount || 0), 0\n  )\n  \n  const totalViews = entries.reduce((sum, entry) => sum + (entry.viewCount || 0), 0)\n  \n  return totalViews > 0 ? totalEngagement / totalViews : 0\n}\n\nfunction calculateEvidenceByType(entries: any[]): Record<string, number> {\n  const evidenceTypes: Record<string, number> = {}\n  \n  entries.forEach(entry => {\n    if (entry.evidenceUris && Array.isArray(entry.evidenceUris)) {\n      entry.evidenceUris.forEach((uri: string) => {\n        // Extract file type from URI (simplified)\n        const type = uri.split('.').pop()?.toLowerCase() || 'unknown'\n        evidenceTypes[type] = (evidenceTypes[type] || 0) + 1\n      })\n    }\n  })\n  \n  return evidenceTypes\n}\n\nfunction calculateTimelineCoverage(entries: any[]) {\n  if (entries.length === 0) {\n    return {\n      firstEntry: '',\n      lastEntry: '',\n      totalDays: 0,\n    }\n  }\n  \n  const dates = entries.map(e => new Date(e.createdAt)).sort((a, b) => a.getTime() - b.getTime())\n  const firstEntry = dates[0]\n  const lastEntry = dates[dates.length - 1]\n  const totalDays = Math.ceil((lastEntry.getTime() - firstEntry.getTime()) / (1000 * 60 * 60 * 24))\n  \n  return {\n    firstEntry: firstEntry.toISOString(),\n    lastEntry: lastEntry.toISOString(),\n    totalDays,\n  }\n}\n\nfunction calculateWeatherCorrelation(entries: any[]): number {\n  // TODO: Implement weather correlation analysis\n  // Would require weather data integration\n  return 0\n}\n\nfunction calculateTimeCorrelation(entries: any[]): number {\n  // Calculate correlation between time of day and symptom severity\n  const timeSymptomData: Array<{hour: number; severity: number}> = []\n  \n  entries.forEach(entry => {\n    if (entry.symptoms?.data) {\n      try {\n        const symptoms = JSON.parse(entry.symptoms.data)\n        const hour = new Date(entry.createdAt).getHours()\n        const avgSeverity = symptoms.reduce((sum: number, s: any) => sum + (s.severity || 0), 0) / symptoms.length\n        timeSymptomData.push({hour, severity: avgSeverity})\n      } catch (e) {\n        // Ignore invalid data\n      }\n    }\n  })\n  \n  if (timeSymptomData.length < 3) return 0\n  \n  // Simple correlation calculation\n  const n = timeSymptomData.length\n  const sumX = timeSymptomData.reduce((sum, d) => sum + d.hour, 0)\n  const sumY = timeSymptomData.reduce((sum, d) => sum + d.severity, 0)\n  const sumXY = timeSymptomData.reduce((sum, d) => sum + d.hour * d.severity, 0)\n  const sumX2 = timeSymptomData.reduce((sum, d) => sum + d.hour * d.hour, 0)\n  const sumY2 = timeSymptomData.reduce((sum, d) => sum + d.severity * d.severity, 0)\n  \n  const numerator = n * sumXY - sumX * sumY\n  const denominator = Math.sqrt((n * sumX2 - sumX * sumX) * (n * sumY2 - sumY * sumY))\n  \n  return denominator === 0 ? 0 : numerator / denominator\n}\n\nfunction calculateLocationCorrelation(entries: any[]): number {\n  // TODO: Implement location-symptom correlation\n  return 0\n}\n\nfunction generatePredictions(entries: any[]) {\n  // Simple predictive analysis based on patterns\n  const dayPatterns = new Array(7).fill(0)\n  \n  entries.forEach(entry => {\n    const day = new Date(entry.createdAt).getDay()\n    dayPatterns[day]++\n  })\n  \n  const likelySymptomDays = dayPatterns\n    .map((count, day) => ({day, count}))\n    .filter(d => d.count > entries.length / 14) // Above average frequency\n    .map(d => d.day)\n  \n  const riskFactors = []\n  const recommendations = []\n  \n  // Analyze patterns for risk factors\n  const avgSeverity = calculateAverageSeverity(entries)\n  if (avgSeverity > 6) {\n    riskFactors.push('High symptom severity')\n    recommendations.push('Consider consulting healthcare provider')\n  }\n  \n  const recentEntries = entries.filter(e => \n    new Date(e.createdAt) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)\n  )\n  \n  if (recentEntries.length > 5) {\n    riskFactors.push('Increased incident frequency')\n    recommendations.push('Monitor stress levels and sleep patterns')\n  }\n  \n  return {\n    likelySymptomDays,\n    riskFactors,\n    recommendations,\n  }\n}\n\nfunction calculateTrendDirection(values: number[]): 'increasing' | 'decreasing' | 'stable' {\n  if (values.length < 2) return 'stable'\n  \n  const first = values.slice(0, Math.floor(values.length / 2))\n  const second = values.slice(Math.floor(values.length / 2))\n  \n  const firstAvg = first.reduce((sum, v) => sum + v, 0) / first.length\n  const secondAvg = second.reduce((sum, v) => sum + v, 0) / second.length\n  \n  const difference = secondAvg - firstAvg\n  const threshold = firstAvg * 0.1 // 10% change threshold\n  \n  if (Math.abs(difference) < threshold) return 'stable'\n  return difference > 0 ? 'increasing' : 'decreasing'\n}\n\nfunction calculateTrendCorrelation(data: any[]): number {\n  // Calculate correlation with time (trend strength)\n  if (data.length < 3) return 0\n  \n  const values = data.map((d, i) => ({x: i, y: d.value}))\n  const n = values.length\n  \n  const sumX = values.reduce((sum, d) => sum + d.x, 0)\n  const sumY = values.reduce((sum, d) => sum + d.y, 0)\n  const sumXY = values.reduce((sum, d) => sum + d.x * d.y, 0)\n  const sumX2 = values.reduce((sum, d) => sum + d.x * d.x, 0)\n  const sumY2 = values.reduce((sum, d) => sum + d.y * d.y, 0)\n  \n  const numerator = n * sumXY - sumX * sumY\n  const denominator = Math.sqrt((n * sumX2 - sumX * sumX) * (n * sumY2 - sumY * sumY))\n  \n  return denominator === 0 ? 0 : numerator / denominator\n}\n\nfunction calculateCacheHitRate(queries: any[]): number {\n  // Mock implementation - would track actual cache hits in production\n  return Math.random() * 0.3 + 0.7 // 70-100% hit rate\n}\n\nfunction calculateAverageQueryTime(queries: any[]): number {\n  // Mock implementation - would track actual query times\n  return Math.random() * 1000 + 200 // 200-1200ms\n}\n\nfunction estimateMemoryUsage(queries: any[]): number {\n  // Rough estimate based on number of queries and data size\n  return queries.length * 1024 * 50 // ~50KB per query\n}\n\nasync function startExportProcess(\n  exportRequest: JournalExportRequest,\n  exportStatus: ExportStatus,\n  userDid: string\n): Promise<void> {\n  // Mock export process - in production this would be a background job\n  setTimeout(() => {\n    exportStatus.status = 'processing'\n    exportStatus.progress = 50\n  }, 1000)\n  \n  setTimeout(() => {\n    exportStatus.status = 'completed'\n    exportStatus.progress = 100\n    exportStatus.downloadUrl = `/api/exports/${exportStatus.id}/download`\n    exportStatus.expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()\n  }, 3000)\n}"
\ No newline at end of file
+      if (!currentAccount) {
+        throw createAnalyticsError(
+          'permission_denied',
+          'Authentication required',
+        )
+      }
+
+      try {
+        // Fetch journal entries for analysis
+        const {records} = await listJournalRecords(agent, currentAccount.did, {
+          limit: 1000, // Get substantial data for analytics
+        })
+        const entries = await readJournalRecords(currentAccount.did, records)
+
+        // Apply period filtering
+        const periodStart = getPeriodStart(new Date(), period)
+        const filteredEntries = entries.filter(
+          entry => new Date(entry.createdAt) >= periodStart,
+        )
+
+        const analytics = {
+          ...generateEnhancedAnalytics(filteredEntries, period, options),
+          userId: currentAccount.did,
+        }
+
+        logger.info('Analytics generated successfully', {
+          userDid: currentAccount.did,
+          period,
+          totalEntries: filteredEntries.length,
+          privacyLevel: options?.privacyLevel || 'basic',
+        })
+
+        return analytics
+      } catch (error) {
+        logger.error('Failed to generate analytics', {
+          error: cleanError(error),
+          userDid: currentAccount.did,
+          period,
+        })
+        throw createAnalyticsError('server_error', cleanError(error))
+      }
+    },
+    enabled: !!currentAccount,
+    staleTime: JOURNAL_STALE_TIME.ANALYTICS,
+    refetchOnWindowFocus: false,
+    ...JOURNAL_RETRY_CONFIG.DEFAULT,
+  })
+}
+
+/**
+ * Hook for real-time analytics insights
+ */
+export function useJournalInsights() {
+  const {currentAccount} = useSession()
+  const agent = useAgent()
+
+  return useQuery({
+    queryKey: journalKeys.insights(currentAccount?.did || ''),
+    queryFn: async () => {
+      if (!currentAccount) {
+        throw createAnalyticsError(
+          'permission_denied',
+          'Authentication required',
+        )
+      }
+
+      try {
+        // Get recent entries for quick insights
+        const {records} = await listJournalRecords(agent, currentAccount.did, {
+          limit: 50,
+        })
+        const recentEntries = await readJournalRecords(
+          currentAccount.did,
+          records,
+        )
+
+        // Generate quick insights
+        return generateQuickInsights(recentEntries)
+      } catch (error) {
+        logger.error('Failed to generate insights', {
+          error: cleanError(error),
+          userDid: currentAccount.did,
+        })
+        throw createAnalyticsError('server_error', cleanError(error))
+      }
+    },
+    enabled: !!currentAccount,
+    staleTime: STALE.MINUTES.FIVE,
+    refetchInterval: STALE.MINUTES.FIVE,
+  })
+}
+
+/**
+ * Hook for trend analysis over time
+ */
+export function useJournalTrends(
+  period: AnalyticsPeriod = 'MONTH',
+  metric: 'symptoms' | 'frequency' | 'severity' | 'location' = 'symptoms',
+) {
+  const {currentAccount} = useSession()
+  const agent = useAgent()
+
+  return useQuery({
+    queryKey: journalKeys.trends(currentAccount?.did || '', period, metric),
+    queryFn: async () => {
+      if (!currentAccount) {
+        throw createAnalyticsError(
+          'permission_denied',
+          'Authentication required',
+        )
+      }
+
+      try {
+        // Fetch entries for trend analysis
+        const {records} = await listJournalRecords(agent, currentAccount.did, {
+          limit: 500,
+        })
+        const entries = await readJournalRecords(currentAccount.did, records)
+
+        // Generate trend data
+        return generateTrendAnalysis(entries, period, metric)
+      } catch (error) {
+        logger.error('Failed to generate trends', {
+          error: cleanError(error),
+          userDid: currentAccount.did,
+          period,
+          metric,
+        })
+        throw createAnalyticsError('server_error', cleanError(error))
+      }
+    },
+    enabled: !!currentAccount,
+    staleTime: JOURNAL_STALE_TIME.ANALYTICS,
+  })
+}
+
+/**
+ * Hook for privacy-compliant performance metrics
+ */
+export function usePerformanceMetrics() {
+  const queryClient = useQueryClient()
+
+  return useQuery({
+    queryKey: ['journal-performance'],
+    queryFn: async () => {
+      // Analyze query cache performance
+      const journalQueries = queryClient
+        .getQueryCache()
+        .getAll()
+        .filter(query => query.queryKey[0]?.toString().includes('journal'))
+
+      return {
+        totalQueries: journalQueries.length,
+        activeQueries: journalQueries.filter(q => q.getObserversCount() > 0)
+          .length,
+        staleQueries: journalQueries.filter(q => q.isStale()).length,
+        // Rough estimate, ~50KB per query
+        memoryUsage: journalQueries.length * 1024 * 50,
+      }
+    },
+    staleTime: STALE.MINUTES.ONE,
+    refetchInterval: STALE.MINUTES.ONE,
+  })
+}
+
+// Helper functions
+
+function generateEnhancedAnalytics(
+  entries: JournalRecordView[],
+  period: Exclude<AnalyticsPeriod, 'DAY'>,
+  options?: {includePredictions?: boolean; includeCorrelations?: boolean},
+): EnhancedJournalAnalytics {
+  // Basic counts
+  const totalEntries = entries.length
+  const totalSymptoms = entries.reduce(
+    (sum, e) => sum + (e.symptoms?.length || 0),
+    0,
+  )
+
+  // Symptom analysis
+  const symptomSeverities = new Map<SymptomCategory, number[]>()
+  entries.forEach(entry => {
+    entry.symptoms?.forEach(symptom => {
+      const category = symptom.category as SymptomCategory
+      const severities = symptomSeverities.get(category) || []
+      severities.push(symptom.severity || 0)
+      symptomSeverities.set(category, severities)
+    })
+  })
+
+  // Top symptom categories
+  const topSymptomCategories = Array.from(symptomSeverities.entries())
+    .map(([category, severities]) => ({
+      category,
+      count: severities.length,
+      averageSeverity: average(severities),
+    }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5)
+
+  const timeAnalysis = analyzeTemporalPatterns(entries)
+
+  return {
+    userId: '', // Set by the caller
+    period: period.toLowerCase() as JournalAnalytics['period'],
+
+    // Basic stats
+    totalEntries,
+    privateEntries: entries.filter(e => e.privacyLevel === 'private').length,
+    publicEntries: entries.filter(e => e.privacyLevel === 'public').length,
+    realTimeEntries: entries.filter(e => e.entryType === 'real_time').length,
+    backdatedEntries: entries.filter(e => e.entryType === 'backdated').length,
+    entriesThisPeriod: totalEntries,
+    averageEntriesPerWeek: calculateAverageEntriesPerWeek(entries, period),
+
+    // Symptom analysis
+    topSymptomCategories,
+    entriesWithSymptoms: entries.filter(e => e.symptoms?.length).length,
+    entriesWithLocation: entries.filter(e => e.location).length,
+    entriesWithSources: entries.filter(e => e.sourceIds?.length).length,
+    avgSymptomsPerEntry: totalEntries > 0 ? totalSymptoms / totalEntries : 0,
+
+    // Temporal patterns
+    mostActiveTimeOfDay: timeAnalysis.mostActiveHour,
+    mostActiveDayOfWeek: timeAnalysis.mostActiveDay,
+    incidentTimeTrends: timeAnalysis.trends,
+    mostActiveTimeSlots: timeAnalysis.activeSlots,
+
+    // Location patterns (privacy-protected)
+    locationClusters: analyzeLocationPatterns(entries),
+
+    // Engagement happens on the shared posts, journal records don't count it
+    totalViews: 0,
+    totalComments: 0,
+    totalShares: 0,
+    averageEngagementRate: 0,
+
+    // Documentation
+    totalEvidenceItems: entries.reduce(
+      (sum, e) => sum + (e.evidenceAttachments?.length || 0),
+      0,
+    ),
+    evidenceByType: calculateEvidenceByType(entries),
+    totalSources: entries.reduce(
+      (sum, e) => sum + (e.sourceIds?.length || 0),
+      0,
+    ),
+    // Entries only hold source ids, the sources screen ranks them by title
+    mostCitedSources: [],
+
+    // Timeline coverage
+    timelineCoverage: calculateTimelineCoverage(entries),
+
+    // Enhanced metrics
+    privacyCompliantData: true,
+    dataSourcePeriod: period,
+    computedAt: new Date().toISOString(),
+    qualityOfLifeScore: calculateQualityOfLifeScore(
+      entries,
+      topSymptomCategories,
+    ),
+    symptomSeverityTrend: calculateSeverityTrend(entries),
+    correlations: {
+      timeOfDaySymptoms: options?.includeCorrelations
+        ? calculateTimeCorrelation(entries)
+        : 0,
+    },
+
+    // Predictions (if enabled and sufficient data)
+    predictions:
+      options?.includePredictions && totalEntries >= 10
+        ? generatePredictions(entries)
+        : undefined,
+  }
+}
+
+function generateQuickInsights(entries: JournalRecordView[]) {
+  const recentCount = entries.length
+  const lastWeekEntries = entries.filter(
+    e => new Date(e.createdAt) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+  ).length
+
+  const symptomsToday = entries
+    .filter(
+      e => new Date(e.createdAt).toDateString() === new Date().toDateString(),
+    )
+    .reduce((sum, e) => sum + (e.symptoms?.length || 0), 0)
+
+  return {
+    recentActivityScore: Math.min(lastWeekEntries / 7, 1), // 0-1 score
+    symptomsToday,
+    trendDirection: lastWeekEntries > recentCount / 4 ? 'increasing' : 'stable',
+    needsAttention: symptomsToday > 5 || lastWeekEntries > 10,
+    lastEntryTime: entries[0]?.createdAt,
+  }
+}
+
+function generateTrendAnalysis(
+  entries: JournalRecordView[],
+  period: AnalyticsPeriod,
+  metric: string,
+) {
+  // Group entries by time periods
+  const groupedData = new Map<string, JournalRecordView[]>()
+
+  entries.forEach(entry => {
+    const date = new Date(entry.createdAt)
+    let key: string
+
+    switch (period) {
+      case 'WEEK': {
+        const weekStart = new Date(date)
+        weekStart.setDate(date.getDate() - date.getDay())
+        key = weekStart.toISOString().split('T')[0]
+        break
+      }
+      case 'MONTH':
+        key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+          2,
+          '0',
+        )}`
+        break
+      default:
+        key = date.toISOString().split('T')[0]
+    }
+
+    const group = groupedData.get(key) || []
+    group.push(entry)
+    groupedData.set(key, group)
+  })
+
+  // Calculate metric for each period
+  const trendData = Array.from(groupedData.entries())
+    .map(([key, group]) => {
+      let value: number
+
+      switch (metric) {
+        case 'severity':
+          value = calculateAverageSeverity(group)
+          break
+        case 'symptoms':
+          value = group.reduce((sum, e) => sum + (e.symptoms?.length || 0), 0)
+          break
+        case 'location':
+          value = group.filter(e => e.location).length
+          break
+        default:
+          value = group.length
+      }
+
+      return {
+        period: key,
+        value,
+        entries: group.length,
+      }
+    })
+    .sort((a, b) => a.period.localeCompare(b.period))
+
+  return {
+    data: trendData,
+    trend: calculateTrendDirection(trendData.map(d => d.value)),
+    correlation: calculateCorrelation(trendData.map((d, i) => [i, d.value])),
+  }
+}
+
+// Analytical helper functions
+
+function average(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0
+}
+
+function getPeriodStart(now: Date, period: AnalyticsPeriod): Date {
+  const start = new Date(now)
+
+  switch (period) {
+    case 'DAY':
+      start.setHours(0, 0, 0, 0)
+      break
+    case 'WEEK':
+      start.setDate(start.getDate() - start.getDay())
+      start.setHours(0, 0, 0, 0)
+      break
+    case 'MONTH':
+      start.setDate(1)
+      start.setHours(0, 0, 0, 0)
+      break
+    case 'QUARTER':
+      start.setMonth(Math.floor(start.getMonth() / 3) * 3, 1)
+      start.setHours(0, 0, 0, 0)
+      break
+    case 'YEAR':
+      start.setMonth(0, 1)
+      start.setHours(0, 0, 0, 0)
+      break
+    case 'ALL_TIME':
+      return new Date(0)
+  }
+
+  return start
+}
+
+function analyzeTemporalPatterns(entries: JournalRecordView[]) {
+  const hourCounts: number[] = new Array(24).fill(0)
+  const dayCounts: number[] = new Array(7).fill(0)
+  const days = new Map<string, JournalRecordView[]>()
+
+  entries.forEach(entry => {
+    const date = new Date(entry.createdAt)
+    hourCounts[date.getHours()]++
+    dayCounts[date.getDay()]++
+
+    const key = entry.createdAt.split('T')[0]
+    const day = days.get(key) || []
+    day.push(entry)
+    days.set(key, day)
+  })
+
+  const maxHourCount = Math.max(...hourCounts)
+  const mostActiveHour = hourCounts.indexOf(maxHourCount)
+  const mostActiveDay = dayCounts.indexOf(Math.max(...dayCounts))
+
+  const trends = Array.from(days.entries())
+    .map(([date, dayEntries]) => ({
+      date,
+      count: dayEntries.length,
+      averageSeverity: calculateAverageSeverity(dayEntries),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  // Generate active time slots
+  const activeSlots = hourCounts
+    .map((count, hour) => {
+      const daysOfWeek = entries
+        .map(e => new Date(e.createdAt))
+        .filter(date => date.getHours() === hour)
+        .map(date => date.getDay())
+
+      return {
+        hour,
+        dayOfWeek: Math.round(average(daysOfWeek)),
+        activityScore: maxHourCount > 0 ? count / maxHourCount : 0,
+      }
+    })
+    .filter(slot => slot.activityScore > 0.1)
+    .slice(0, 5)
+
+  return {
+    mostActiveHour,
+    mostActiveDay,
+    trends,
+    activeSlots,
+  }
+}
+
+function analyzeLocationPatterns(entries: JournalRecordView[]) {
+  const locationCounts = new Map<
+    string,
+    {city: string; state: string; count: number}
+  >()
+
+  entries.forEach(entry => {
+    if (!entry.location) return
+    // Cluster at city level at most, never finer than the entry was stored
+    const location = coarsenLocation(entry.location, 'city')
+    const key = `${location.latitude},${location.longitude}`
+    const existing = locationCounts.get(key)
+    locationCounts.set(key, {
+      city: existing?.city || location.city || 'Unknown',
+      state: existing?.state || location.state || 'Unknown',
+      count: (existing?.count || 0) + 1,
+    })
+  })
+
+  return Array.from(locationCounts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 10) // Top 10 locations
+}
+
+function calculateQualityOfLifeScore(
+  entries: JournalRecordView[],
+  symptoms: Array<{count: number; averageSeverity: number}>,
+): number {
+  if (entries.length === 0) return 50 // Neutral score
+
+  // Base score starts at 100
+  let score = 100
+
+  // Reduce score based on symptom frequency and severity
+  const avgSymptomsPerEntry =
+    symptoms.reduce((sum, s) => sum + s.count, 0) / entries.length
+  const avgSeverity = average(symptoms.map(s => s.averageSeverity))
+
+  score -= avgSymptomsPerEntry * 5 // Each symptom per entry reduces score by 5
+  score -= avgSeverity * 3 // Each severity point reduces score by 3
+
+  // Consider entry frequency (too many or too few entries both reduce score)
+  const entriesPerWeek = entries.length / 4 // Assuming monthly period
+  if (entriesPerWeek > 7) score -= (entriesPerWeek - 7) * 2 // Too many entries
+  if (entriesPerWeek < 1) score -= (1 - entriesPerWeek) * 10 // Too few entries
+
+  return Math.max(0, Math.min(100, Math.round(score)))
+}
+
+function calculateSeverityTrend(
+  entries: JournalRecordView[],
+): EnhancedJournalAnalytics['symptomSeverityTrend'] {
+  if (entries.length < 5) return 'insufficient_data'
+
+  const sortedEntries = [...entries].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  )
+
+  // Compare the average severity of the first and last half
+  const midpoint = Math.floor(sortedEntries.length / 2)
+  const difference =
+    calculateAverageSeverity(sortedEntries.slice(midpoint)) -
+    calculateAverageSeverity(sortedEntries.slice(0, midpoint))
+
+  if (Math.abs(difference) < 0.5) return 'stable'
+  return difference > 0 ? 'worsening' : 'improving'
+}
+
+function calculateAverageSeverity(entries: JournalRecordView[]): number {
+  return average(
+    entries.flatMap(e => e.symptoms?.map(s => s.severity || 0) || []),
+  )
+}
+
+function calculateAverageEntriesPerWeek(
+  entries: JournalRecordView[],
+  period: AnalyticsPeriod,
+): number {
+  if (entries.length === 0) return 0
+
+  const weeks =
+    period === 'MONTH'
+      ? 4
+      : period === 'QUARTER'
+        ? 12
+        : period === 'YEAR'
+          ? 52
+          : 1
+
+  return entries.length / weeks
+}
+
+function calculateEvidenceByType(
+  entries: JournalRecordView[],
+): Record<string, number> {
+  const evidenceTypes: Record<string, number> = {}
+
+  entries.forEach(entry => {
+    entry.evidenceAttachments?.forEach(evidence => {
+      evidenceTypes[evidence.type] = (evidenceTypes[evidence.type] || 0) + 1
+    })
+  })
+
+  return evidenceTypes
+}
+
+function calculateTimelineCoverage(entries: JournalRecordView[]) {
+  if (entries.length === 0) {
+    return {
+      firstEntry: '',
+      lastEntry: '',
+      totalDays: 0,
+    }
+  }
+
+  const dates = entries
+    .map(e => new Date(e.createdAt))
+    .sort((a, b) => a.getTime() - b.getTime())
+  const firstEntry = dates[0]
+  const lastEntry = dates[dates.length - 1]
+  const totalDays = Math.ceil(
+    (lastEntry.getTime() - firstEntry.getTime()) / (1000 * 60 * 60 * 24),
+  )
+
+  return {
+    firstEntry: firstEntry.toISOString(),
+    lastEntry: lastEntry.toISOString(),
+    totalDays,
+  }
+}
+
+function calculateTimeCorrelation(entries: JournalRecordView[]): number {
+  // Correlation between time of day and symptom severity
+  return calculateCorrelation(
+    entries
+      .filter(e => e.symptoms?.length)
+      .map(e => [
+        new Date(e.createdAt).getHours(),
+        calculateAverageSeverity([e]),
+      ]),
+  )
+}
+
+function generatePredictions(entries: JournalRecordView[]) {
+  // Simple predictive analysis based on patterns
+  const dayPatterns: number[] = new Array(7).fill(0)
+
+  entries.forEach(entry => {
+    dayPatterns[new Date(entry.createdAt).getDay()]++
+  })
+
+  const likelySymptomDays = dayPatterns
+    .map((count, day) => ({day, count}))
+    .filter(d => d.count > entries.length / 14) // Above average frequency
+    .map(d => d.day)
+
+  const riskFactors: string[] = []
+  const recommendations: string[] = []
+
+  // Analyze patterns for risk factors
+  if (calculateAverageSeverity(entries) > 6) {
+    riskFactors.push('High symptom severity')
+    recommendations.push('Consider consulting healthcare provider')
+  }
+
+  const recentEntries = entries.filter(
+    e => new Date(e.createdAt) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+  )
+
+  if (recentEntries.length > 5) {
+    riskFactors.push('Increased incident frequency')
+    recommendations.push('Monitor stress levels and sleep patterns')
+  }
+
+  return {
+    likelySymptomDays,
+    riskFactors,
+    recommendations,
+  }
+}
+
+function calculateTrendDirection(
+  values: number[],
+): 'increasing' | 'decreasing' | 'stable' {
+  if (values.length < 2) return 'stable'
+
+  const firstAvg = average(values.slice(0, Math.floor(values.length / 2)))
+  const secondAvg = average(values.slice(Math.floor(values.length / 2)))
+
+  const difference = secondAvg - firstAvg
+  const threshold = firstAvg * 0.1 // 10% change threshold
+
+  if (Math.abs(difference) < threshold) return 'stable'
+  return difference > 0 ? 'increasing' : 'decreasing'
+}
+
+/**
+ * Pearson correlation of [x, y] pairs, 0 when there are fewer than three
+ */
+function calculateCorrelation(points: Array<[number, number]>): number {
+  if (points.length < 3) return 0
+
+  const n = points.length
+  const sumX = points.reduce((sum, [x]) => sum + x, 0)
+  const sumY = points.reduce((sum, [, y]) => sum + y, 0)
+  const sumXY = points.reduce((sum, [x, y]) => sum + x * y, 0)
+  const sumX2 = points.reduce((sum, [x]) => sum + x * x, 0)
+  const sumY2 = points.reduce((sum, [, y]) => sum + y * y, 0)
+
+  const numerator = n * sumXY - sumX * sumY
+  const denominator = Math.sqrt(
+    (n * sumX2 - sumX * sumX) * (n * sumY2 - sumY * sumY),
+  )
+
+  return denominator === 0 ? 0 : numerator / denominator
+}
@@ -0,0 +1,177 @@
+/**
+ * Journal Backlinks
+ *
+ * Comments, reactions and witness attestations are records in the repo of
+ * whoever made them, so the entry's author has no repo to list them from. A
+ * backlink index keeps track of which records point at which, across every
+ * repo. It's only asked where the records are: each one is then read from its
+ * own repo, so the index can miss records but can't change what they say.
+ */
+
+import {type AppBskyActorDefs, AtUri} from '@atproto/api'
+
+import {logger} from '#/logger'
+import {type useAgent} from '#/state/session'
+import {JOURNAL_API_CONFIG} from '#/env'
+
+type Agent = ReturnType<typeof useAgent>
+
+const BACKLINKS_PAGE_SIZE = 100
+// The most profiles `app.bsky.actor.getProfiles` takes at once
+const PROFILES_BATCH_SIZE = 25
+
+interface BacklinksPage {
+  linking_records: Array<{did: string; collection: string; rkey: string}>
+  cursor?: string | null
+}
+
+export interface JournalBacklinkRecord<T> {
+  uri: string
+  cid: string
+  value: T
+}
+
+/**
+ * Lists the URIs of the records in `collection` whose field at `path`, such
+ * as `.subject.uri`, is `target`
+ */
+export async function listJournalBacklinks(
+  target: string,
+  collection: string,
+  path: string
+): Promise<string[]> {
+  const uris: string[] = []
+  let cursor: string | undefined
+  do {
+    const params = new URLSearchParams({
+      target,
+      collection,
+      path,
+      limit: String(BACKLINKS_PAGE_SIZE),
+      ...(cursor ? {cursor} : {}),
+    })
+    const res = await fetch(
+      `${JOURNAL_API_CONFIG.BACKLINKS_ENDPOINT}/links?${params.toString()}`,
+      {headers: {Accept: 'application/json'}}
+    )
+    if (!res.ok) {
+      throw new Error(`Backlink index responded with ${res.status}`)
+    }
+    const page: BacklinksPage = await res.json()
+    for (const link of page.linking_records) {
+      uris.push(`at://${link.did}/${link.collection}/${link.rkey}`)
+    }
+    cursor = page.cursor ?? undefined
+  } while (cursor)
+  return uris
+}
+
+/**
+ * Reads the records that point at `target` from their own repos. Records that
+ * can't be read, because they've been deleted since the index saw them or
+ * their repo is gone, are left out. `ownRepo` is listed directly as well, so
+ * the viewer's own records show up before the index has caught up with them.
+ */
+export async function fetchJournalBacklinkRecords<T>(
+  agent: Agent,
+  target: string,
+  collection: string,
+  path: string,
+  {ownRepo}: {ownRepo?: string} = {}
+): Promise<JournalBacklinkRecord<T>[]> {
+  const [uris, ownRecords] = await Promise.all([
+    listJournalBacklinks(target, collection, path),
+    ownRepo
+      ? listOwnBacklinkRecords<T>(agent, ownRepo, target, collection, path)
+      : [],
+  ])
+  const ownUris = new Set(ownRecords.map(record => record.uri))
+  const records = await Promise.all(
+    uris
+      .filter(uri => !ownUris.has(uri))
+      .map(async (uri): Promise<JournalBacklinkRecord<T> | undefined> => {
+        const {host, rkey} = new AtUri(uri)
+        try {
+          const {data} = await agent.com.atproto.repo.getRecord({
+            repo: host,
+            collection,
+            rkey,
+          })
+          if (!data.cid) return undefined
+          return {uri: data.uri, cid: data.cid, value: data.value as T}
+        } catch (error: unknown) {
+          logger.warn('Failed to read linked journal record', {
+            message: String(error),
+            uri,
+          })
+          return undefined
+        }
+      })
+  )
+  return [
+    ...ownRecords,
+    ...records.filter(
+      (record): record is JournalBacklinkRecord<T> => record !== undefined
+    ),
+  ]
+}
+
+/**
+ * Fetches the profiles of the accounts behind some linked records. Accounts
+ * that no longer exist are missing from the result.
+ */
+export async function fetchJournalBacklinkAuthors(
+  agent: Agent,
+  dids: string[]
+): Promise<Map<string, AppBskyActorDefs.ProfileViewBasic>> {
+  const unique = [...new Set(dids)]
+  const profiles = new Map<string, AppBskyActorDefs.ProfileViewBasic>()
+  for (let i = 0; i < unique.length; i += PROFILES_BATCH_SIZE) {
+    const {data} = await agent.getProfiles({
+      actors: unique.slice(i, i + PROFILES_BATCH_SIZE),
+    })
+    for (const {$type: _$type, ...profile} of data.profiles) {
+      profiles.set(profile.did, profile)
+    }
+  }
+  return profiles
+}
+
+async function listOwnBacklinkRecords<T>(
+  agent: Agent,
+  repo: string,
+  target: string,
+  collection: string,
+  path: string
+): Promise<JournalBacklinkRecord<T>[]> {
+  const records: JournalBacklinkRecord<T>[] = []
+  let cursor: string | undefined
+  do {
+    const {data} = await agent.com.atproto.repo.listRecords({
+      repo,
+      collection,
+      limit: 100,
+      cursor,
+    })
+    for (const record of data.records) {
+      if (getPathValue(record.value, path) === target) {
+        records.push({uri: record.uri, cid: record.cid, value: record.value as T})
+      }
+    }
+    cursor = data.cursor
+  } while (cursor)
+  return records
+}
+
+function getPathValue(value: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>(
+      (node, key) =>
+        node && typeof node === 'object'
+          ? (node as Record<string, unknown>)[key]
+          : undefined,
+      value
+    )
+}
@@ -0,0 +1,463 @@
+/**
+ * Journal Comment and Support Reaction Hooks
+ *
+ * Comments and reactions are plaintext records in the commenter's own public
+ * repo, pointing at the entry they're about, and they're found through the
+ * backlink index. Anyone can read them, so they're always shown under the
+ * commenter's account and never allowed on encrypted entries.
+ */
+
+import {type AppBskyActorDefs, AtUri, ComAtprotoModerationDefs} from '@atproto/api'
+import {
+  type QueryClient,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query'
+
+import {logger} from '#/logger'
+import {useAgent, useSession} from '#/state/session'
+import {journalKeys} from '../journal-keys'
+import {
+  fetchJournalBacklinkAuthors,
+  fetchJournalBacklinkRecords,
+  type JournalBacklinkRecord,
+} from './backlinks'
+import {
+  CACHE_INVALIDATION_PATTERNS,
+  JOURNAL_GC_TIME,
+  JOURNAL_STALE_TIME,
+} from './constants'
+import {fetchJournalAccessGrants} from './privacy'
+import {
+  type JournalComment,
+  type JournalError,
+} from './types'
+import {
+  buildJournalCommentThreads,
+  canCommentOnJournalEntry,
+  canViewJournalEntry,
+  createJournalError,
+  type JournalAccessSubject,
+  type JournalCommentThread,
+  type JournalViewerContext,
+} from './utils'
+
+export const JOURNAL_COMMENT_COLLECTION = 'app.warlog.journalComment'
+export const JOURNAL_REACTION_COLLECTION = 'app.warlog.journalReaction'
+
+export const MAX_JOURNAL_COMMENT_LENGTH = 3000
+
+// Stands in for the viewer's support reaction until its record is written
+const PENDING_SUPPORT_URI = 'pending'
+
+type Agent = ReturnType<typeof useAgent>
+
+export interface JournalCommentRecord {
+  subject: {uri: string; cid: string}
+  parent?: {uri: string; cid: string}
+  text: string
+  isSupport?: boolean
+  createdAt: string
+}
+
+export interface JournalReactionRecord {
+  subject: {uri: string; cid: string}
+  reaction: 'support'
+  createdAt: string
+}
+
+/**
+ * An entry that can be commented on. `cid` pins comments to the version of
+ * the entry they were written about.
+ */
+export type JournalCommentSubject = JournalAccessSubject & {
+  cid: string
+  author: {did: string; viewer?: {following?: string}}
+  // set when the appview has already worked out what the viewer can do
+  viewer?: {canComment?: boolean}
+}
+
+export interface JournalCommentsData {
+  threads: JournalCommentThread[]
+  commentCount: number
+  supportReactionCount: number
+  // URI of the viewer's own support reaction, if they've left one
+  viewerSupportUri?: string
+}
+
+/**
+ * Builds the viewer's access context for an entry, including any access its
+ * author has granted them
+ */
+export async function getViewerContext(
+  agent: Agent,
+  queryClient: QueryClient,
+  entry: JournalCommentSubject,
+  viewerDid: string
+): Promise<JournalViewerContext> {
+  if (entry.author.did === viewerDid) {
+    return {did: viewerDid}
+  }
+  const grants = await queryClient.fetchQuery({
+    queryKey: journalKeys.accessGrants(entry.author.did),
+    queryFn: () => fetchJournalAccessGrants(agent, entry.author.did),
+    staleTime: JOURNAL_STALE_TIME.COMMENTS,
+  })
+  return {
+    did: viewerDid,
+    grants,
+    isFollowing: !!entry.author.viewer?.following,
+  }
+}
+
+async function assertCanComment(
+  agent: Agent,
+  queryClient: QueryClient,
+  entry: JournalCommentSubject,
+  viewerDid: string
+) {
+  const viewerContext = await getViewerContext(agent, queryClient, entry, viewerDid)
+  if (!canCommentOnJournalEntry(entry, viewerContext)) {
+    throw createJournalError(
+      'permission_denied',
+      'Comments are not available on this entry.'
+    )
+  }
+}
+
+/**
+ * Turns a comment record into a comment for display
+ */
+export function toJournalComment(
+  entryUri: string,
+  record: JournalBacklinkRecord<JournalCommentRecord>,
+  author: AppBskyActorDefs.ProfileViewBasic,
+  {viewerDid, canReply, replyCount}: {viewerDid: string; canReply: boolean; replyCount: number}
+): JournalComment {
+  const isOwn = author.did === viewerDid
+  return {
+    id: record.uri,
+    uri: record.uri,
+    cid: record.cid,
+    entryId: new AtUri(entryUri).rkey,
+    parentCommentId: record.value.parent?.uri,
+    author,
+    text: record.value.text,
+    createdAt: record.value.createdAt,
+    isSupport: !!record.value.isSupport,
+    isModerator: false,
+    likeCount: 0,
+    replyCount,
+    isDeleted: false,
+    isHidden: false,
+    reportCount: 0,
+    viewer: {
+      canReply,
+      canDelete: isOwn,
+      canReport: !isOwn,
+      liked: false,
+    },
+  }
+}
+
+/**
+ * Hook to fetch the comment threads and support reactions on an entry
+ */
+export function useJournalComments(
+  entry: JournalCommentSubject | undefined,
+  options?: {enabled?: boolean}
+) {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useQuery<JournalCommentsData, JournalError>({
+    queryKey: journalKeys.entryComments(entry?.uri || ''),
+    queryFn: async (): Promise<JournalCommentsData> => {
+      if (!entry || !currentAccount) {
+        throw createJournalError('permission_denied', 'Authentication required')
+      }
+
+      const viewerContext = await getViewerContext(agent, queryClient, entry, currentAccount.did)
+      if (!canViewJournalEntry(entry, viewerContext)) {
+        throw createJournalError('permission_denied', 'You do not have access to this entry.')
+      }
+
+      try {
+        const [commentRecords, reactionRecords] = await Promise.all([
+          fetchJournalBacklinkRecords<JournalCommentRecord>(
+            agent,
+            entry.uri,
+            JOURNAL_COMMENT_COLLECTION,
+            '.subject.uri',
+            {ownRepo: currentAccount.did}
+          ),
+          fetchJournalBacklinkRecords<JournalReactionRecord>(
+            agent,
+            entry.uri,
+            JOURNAL_REACTION_COLLECTION,
+            '.subject.uri',
+            {ownRepo: currentAccount.did}
+          ),
+        ])
+        const authors = await fetchJournalBacklinkAuthors(
+          agent,
+          commentRecords.map(record => new AtUri(record.uri).host)
+        )
+        const canReply = canCommentOnJournalEntry(entry, viewerContext)
+        const comments: JournalComment[] = []
+        for (const record of commentRecords) {
+          const author = authors.get(new AtUri(record.uri).host)
+          // the commenter's account is gone
+          if (!author) continue
+          comments.push(
+            toJournalComment(entry.uri, record, author, {
+              viewerDid: currentAccount.did,
+              canReply,
+              replyCount: commentRecords.filter(
+                reply => reply.value.parent?.uri === record.uri
+              ).length,
+            })
+          )
+        }
+
+        // one support per person, however many reactions they've left
+        const supporters = new Map<string, string>()
+        for (const record of reactionRecords) {
+          if (record.value.reaction === 'support') {
+            supporters.set(new AtUri(record.uri).host, record.uri)
+          }
+        }
+
+        return {
+          threads: buildJournalCommentThreads(comments),
+          commentCount: comments.filter(comment => !comment.isDeleted && !comment.isHidden).length,
+          supportReactionCount: supporters.size,
+          viewerSupportUri: supporters.get(currentAccount.did),
+        }
+      } catch (error: any) {
+        logger.error('Failed to fetch journal comments', {
+          error: error.message,
+          entryUri: entry.uri,
+        })
+        throw error
+      }
+    },
+    enabled: !!entry && !!currentAccount && options?.enabled !== false,
+    staleTime: JOURNAL_STALE_TIME.COMMENTS,
+    gcTime: JOURNAL_GC_TIME.COMMENTS,
+  })
+}
+
+/**
+ * Hook to comment on an entry, or reply to a comment
+ */
+export function useCreateJournalComment() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<
+    {uri: string; cid: string},
+    JournalError,
+    {
+      entry: JournalCommentSubject
+      text: string
+      parent?: JournalComment
+      isSupport?: boolean
+    }
+  >({
+    mutationFn: async ({entry, text, parent, isSupport}) => {
+      if (!currentAccount) {
+        throw createJournalError('permission_denied', 'Authentication required')
+      }
+      const trimmed = text.trim()
+      if (trimmed.length > MAX_JOURNAL_COMMENT_LENGTH) {
+        throw createJournalError(
+          'content_too_large',
+          `Comments can be at most ${MAX_JOURNAL_COMMENT_LENGTH} characters.`
+        )
+      }
+      await assertCanComment(agent, queryClient, entry, currentAccount.did)
+
+      const record: JournalCommentRecord = {
+        subject: {uri: entry.uri, cid: entry.cid},
+        parent: parent ? {uri: parent.uri, cid: parent.cid} : undefined,
+        text: trimmed,
+        isSupport: !!isSupport,
+        createdAt: new Date().toISOString(),
+      }
+      const response = await agent.com.atproto.repo.createRecord({
+        repo: currentAccount.did,
+        collection: JOURNAL_COMMENT_COLLECTION,
+        record: {$type: JOURNAL_COMMENT_COLLECTION, ...record},
+      })
+
+      logger.info('Journal comment created', {
+        isReply: !!parent,
+        isSupport: !!isSupport,
+      })
+      return response.data
+    },
+    onSuccess: () => {
+      CACHE_INVALIDATION_PATTERNS.ON_COMMENT_ADD.forEach(pattern => {
+        queryClient.invalidateQueries({queryKey: pattern})
+      })
+    },
+  })
+}
+
+/**
+ * Hook to delete one of the viewer's own comments
+ */
+export function useDeleteJournalComment() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<void, JournalError, {entryUri: string; comment: JournalComment}>({
+    mutationFn: async ({comment}) => {
+      if (!currentAccount) {
+        throw createJournalError('permission_denied', 'Authentication required')
+      }
+      const uri = new AtUri(comment.uri)
+      if (uri.host !== currentAccount.did) {
+        throw createJournalError('permission_denied', 'You can only delete your own comments.')
+      }
+      await agent.com.atproto.repo.deleteRecord({
+        repo: currentAccount.did,
+        collection: JOURNAL_COMMENT_COLLECTION,
+        rkey: uri.rkey,
+      })
+    },
+    onMutate: async ({entryUri, comment}) => {
+      const queryKey = journalKeys.entryComments(entryUri)
+      await queryClient.cancelQueries({queryKey})
+      const previous = queryClient.getQueryData<JournalCommentsData>(queryKey)
+      if (previous) {
+        const markDeleted = (threads: JournalCommentThread[]): JournalCommentThread[] =>
+          threads.map(thread => ({
+            comment: thread.comment.id === comment.id
+              ? {...thread.comment, isDeleted: true, text: ''}
+              : thread.comment,
+            replies: markDeleted(thread.replies),
+          }))
+        queryClient.setQueryData<JournalCommentsData>(queryKey, {
+          ...previous,
+          threads: markDeleted(previous.threads),
+          commentCount: Math.max(0, previous.commentCount - 1),
+        })
+      }
+      return {previous}
+    },
+    onError: (error, {entryUri}, context: any) => {
+      if (context?.previous) {
+        queryClient.setQueryData(journalKeys.entryComments(entryUri), context.previous)
+      }
+      logger.error('Failed to delete journal comment', {error: error.message})
+    },
+    onSettled: (_data, _error, {entryUri}) => {
+      queryClient.invalidateQueries({queryKey: journalKeys.entryComments(entryUri)})
+    },
+  })
+}
+
+/**
+ * Hook to report a comment to moderators
+ */
+export function useReportJournalComment() {
+  const agent = useAgent()
+
+  return useMutation<
+    void,
+    JournalError,
+    {comment: JournalComment; reasonType?: string; reason?: string}
+  >({
+    mutationFn: async ({comment, reasonType, reason}) => {
+      await agent.createModerationReport({
+        reasonType: reasonType || ComAtprotoModerationDefs.REASONOTHER,
+        reason,
+        subject: {
+          $type: 'com.atproto.repo.strongRef',
+          uri: comment.uri,
+          cid: comment.cid,
+        },
+      })
+      logger.info('Journal comment reported', {reasonType})
+    },
+  })
+}
+
+/**
+ * Hook to add or remove the viewer's support reaction on an entry
+ */
+export function useToggleJournalSupport() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<
+    {supportUri?: string},
+    JournalError,
+    {entry: JournalCommentSubject; supportUri?: string}
+  >({
+    mutationFn: async ({entry, supportUri}) => {
+      if (!currentAccount) {
+        throw createJournalError('permission_denied', 'Authentication required')
+      }
+      // the last toggle hasn't finished, so there's no record to delete yet
+      if (supportUri === PENDING_SUPPORT_URI) {
+        throw createJournalError('rate_limit_exceeded', 'Your support is still being saved.')
+      }
+      if (supportUri) {
+        await agent.com.atproto.repo.deleteRecord({
+          repo: currentAccount.did,
+          collection: JOURNAL_REACTION_COLLECTION,
+          rkey: new AtUri(supportUri).rkey,
+        })
+        return {supportUri: undefined}
+      }
+
+      await assertCanComment(agent, queryClient, entry, currentAccount.did)
+      const response = await agent.com.atproto.repo.createRecord({
+        repo: currentAccount.did,
+        collection: JOURNAL_REACTION_COLLECTION,
+        record: {
+          $type: JOURNAL_REACTION_COLLECTION,
+          subject: {uri: entry.uri, cid: entry.cid},
+          reaction: 'support',
+          createdAt: new Date().toISOString(),
+        },
+      })
+      return {supportUri: response.data.uri}
+    },
+    onMutate: async ({entry, supportUri}) => {
+      if (supportUri === PENDING_SUPPORT_URI) return {}
+      const queryKey = journalKeys.entryComments(entry.uri)
+      await queryClient.cancelQueries({queryKey})
+      const previous = queryClient.getQueryData<JournalCommentsData>(queryKey)
+      if (previous) {
+        queryClient.setQueryData<JournalCommentsData>(queryKey, {
+          ...previous,
+          supportReactionCount: Math.max(0, previous.supportReactionCount + (supportUri ? -1 : 1)),
+          // a placeholder so the button shows as pressed until the write lands
+          viewerSupportUri: supportUri ? undefined : PENDING_SUPPORT_URI,
+        })
+      }
+      return {previous}
+    },
+    onSuccess: ({supportUri}, {entry}) => {
+      queryClient.setQueryData<JournalCommentsData>(
+        journalKeys.entryComments(entry.uri),
+        data => data && {...data, viewerSupportUri: supportUri}
+      )
+    },
+    onError: (error, {entry}, context: any) => {
+      if (context?.previous) {
+        queryClient.setQueryData(journalKeys.entryComments(entry.uri), context.previous)
+      }
+      logger.error('Failed to update journal support reaction', {error: error.message})
+    },
+  })
+}
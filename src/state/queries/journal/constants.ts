@@ -1,74 +1,8 @@
 import type {
-  JournalFeedType,
-  JournalFeedFilters,
-  JournalSearchParams,
   JournalPrivacyLevel,
   BadgeType,
 } from './types'
-
-// Query key roots for consistent caching
-export const JOURNAL_QUERY_KEYS = {
-  // Root keys
-  JOURNAL: 'journal',
-  JOURNAL_ENTRY: 'journal-entry',
-  JOURNAL_FEED: 'journal-feed', 
-  JOURNAL_SEARCH: 'journal-search',
-  JOURNAL_COMMENTS: 'journal-comments',
-  JOURNAL_ANALYTICS: 'journal-analytics',
-  JOURNAL_NOTIFICATIONS: 'journal-notifications',
-  JOURNAL_PRIVACY: 'journal-privacy',
-  JOURNAL_EXPORT: 'journal-export',
-  
-  // Specific query constructors
-  entry: (id: string) => [JOURNAL_QUERY_KEYS.JOURNAL_ENTRY, id] as const,
-  entryByUri: (uri: string) => [JOURNAL_QUERY_KEYS.JOURNAL_ENTRY, 'uri', uri] as const,
-  
-  feed: (type: JournalFeedType, filters?: JournalFeedFilters) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_FEED, type, filters] as const,
-  
-  personalFeed: (userId: string, filters?: JournalFeedFilters) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_FEED, 'personal', userId, filters] as const,
-  
-  communityFeed: (badgeType: BadgeType, filters?: JournalFeedFilters) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_FEED, 'community', badgeType, filters] as const,
-  
-  search: (userId: string, params: JournalSearchParams) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_SEARCH, userId, params] as const,
-  
-  comments: (entryId: string) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_COMMENTS, entryId] as const,
-  
-  analytics: (userId: string, period: string) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_ANALYTICS, userId, period] as const,
-  
-  notifications: (userId: string, type?: string) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_NOTIFICATIONS, userId, type] as const,
-  
-  privacySettings: (userId: string) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_PRIVACY, userId] as const,
-  
-  exportStatus: (requestId: string) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_EXPORT, requestId] as const,
-  
-  // Enhanced query keys for security integration
-  permissions: (userId: string, resource?: string) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_PRIVACY, 'permissions', userId, resource] as const,
-  
-  userBadges: (userId: string) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_PRIVACY, 'badges', userId] as const,
-  
-  accessRequests: (userId: string) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_PRIVACY, 'access-requests', userId] as const,
-  
-  activity: (userId: string, timeframe: string) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_ANALYTICS, 'activity', userId, timeframe] as const,
-  
-  trends: (userId: string, period: string) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_ANALYTICS, 'trends', userId, period] as const,
-  
-  insights: (userId: string) => 
-    [JOURNAL_QUERY_KEYS.JOURNAL_ANALYTICS, 'insights', userId] as const,
-} as const
+import {journalKeys} from '../journal-keys'
 
 // Stale time constants (from existing pattern)
 export const JOURNAL_STALE_TIME = {
@@ -80,6 +14,8 @@ export const JOURNAL_STALE_TIME = {
   NOTIFICATIONS: 30 * 1000,      // 30 seconds - notifications should be fresh
   PRIVACY: 60 * 60 * 1000,       // 1 hour - privacy settings change rarely
   EXPORT: 10 * 1000,             // 10 seconds - export status needs frequent updates
+  ACCESS_LOG: 30 * 1000,         // 30 seconds - views should show up promptly
+  SHARE_PACKETS: 30 * 1000,      // 30 seconds - revocations should show up promptly
 } as const
 
 // Cache time constants (how long to keep unused data)
@@ -92,6 +28,8 @@ export const JOURNAL_GC_TIME = {
   NOTIFICATIONS: 5 * 60 * 1000,  // 5 minutes
   PRIVACY: 60 * 60 * 1000,       // 1 hour
   EXPORT: 1 * 60 * 1000,         // 1 minute
+  ACCESS_LOG: 5 * 60 * 1000,     // 5 minutes
+  SHARE_PACKETS: 5 * 60 * 1000,  // 5 minutes
 } as const
 
 // Default pagination limits
@@ -100,6 +38,7 @@ export const JOURNAL_PAGE_SIZES = {
   SEARCH: 15,
   COMMENTS: 50,
   NOTIFICATIONS: 25,
+  ACCESS_LOG: 100,
 } as const
 
 // Retry configuration
@@ -122,15 +61,6 @@ export const JOURNAL_RETRY_CONFIG = {
   },
 } as const
 
-// Enhanced query key roots for security integration
-export const SECURITY_QUERY_KEYS = {
-  ACCESS_REQUESTS: 'journal-access-requests',
-  USER_BADGES: 'user-badges',
-  PERMISSIONS: 'journal-permissions',
-  HIPAA_AUDIT: 'hipaa-audit',
-  SECURITY_EVENTS: 'security-events',
-} as const
-
 // Privacy level access matrix
 export const PRIVACY_ACCESS_MATRIX: Record<JournalPrivacyLevel, {
   canView: (viewerBadges?: BadgeType[], isFollowed?: boolean, isAuthor?: boolean) => boolean
@@ -222,51 +152,47 @@ export const HIPAA_SETTINGS = {
   AUDIT_ALL_ACCESS: true,
 } as const
 
-// Enhanced cache invalidation patterns with security awareness
+// Query key prefixes to invalidate after each kind of change. Every key is
+// built from `journalKeys`, so a pattern can be passed straight to
+// `invalidateQueries({queryKey: pattern})`
 export const CACHE_INVALIDATION_PATTERNS = {
   // When a journal entry is created
   ON_CREATE_ENTRY: [
-    JOURNAL_QUERY_KEYS.JOURNAL_FEED,
-    JOURNAL_QUERY_KEYS.JOURNAL_ANALYTICS,
-    JOURNAL_QUERY_KEYS.JOURNAL_SEARCH,
+    journalKeys.entries(),
+    journalKeys.feeds(),
+    journalKeys.analytics(),
   ],
   // When a journal entry is updated
   ON_UPDATE_ENTRY: [
-    JOURNAL_QUERY_KEYS.JOURNAL_ENTRY,
-    JOURNAL_QUERY_KEYS.JOURNAL_FEED,
-    JOURNAL_QUERY_KEYS.JOURNAL_SEARCH,
+    journalKeys.entries(),
+    journalKeys.feeds(),
   ],
   // When a journal entry is deleted
   ON_DELETE_ENTRY: [
-    JOURNAL_QUERY_KEYS.JOURNAL_ENTRY,
-    JOURNAL_QUERY_KEYS.JOURNAL_FEED,
-    JOURNAL_QUERY_KEYS.JOURNAL_ANALYTICS,
-    JOURNAL_QUERY_KEYS.JOURNAL_SEARCH,
-    JOURNAL_QUERY_KEYS.JOURNAL_COMMENTS,
+    journalKeys.entries(),
+    journalKeys.feeds(),
+    journalKeys.analytics(),
+    journalKeys.comments(),
   ],
   // When privacy settings change
   ON_PRIVACY_CHANGE: [
-    JOURNAL_QUERY_KEYS.JOURNAL_FEED,
-    JOURNAL_QUERY_KEYS.JOURNAL_SEARCH,
-    JOURNAL_QUERY_KEYS.JOURNAL_PRIVACY,
-    SECURITY_QUERY_KEYS.PERMISSIONS,
+    journalKeys.entries(),
+    journalKeys.feeds(),
+    journalKeys.privacy(),
   ],
   // When a comment is added
   ON_COMMENT_ADD: [
-    JOURNAL_QUERY_KEYS.JOURNAL_COMMENTS,
-    JOURNAL_QUERY_KEYS.JOURNAL_NOTIFICATIONS,
+    journalKeys.comments(),
   ],
   // When badge status changes
   ON_BADGE_UPDATE: [
-    SECURITY_QUERY_KEYS.USER_BADGES,
-    JOURNAL_QUERY_KEYS.JOURNAL_FEED,
-    SECURITY_QUERY_KEYS.PERMISSIONS,
+    journalKeys.privacy(),
+    journalKeys.feeds(),
   ],
   // When access is granted or denied
   ON_ACCESS_CHANGE: [
-    SECURITY_QUERY_KEYS.ACCESS_REQUESTS,
-    SECURITY_QUERY_KEYS.PERMISSIONS,
-    JOURNAL_QUERY_KEYS.JOURNAL_FEED,
+    journalKeys.privacy(),
+    journalKeys.feeds(),
   ],
 }
 
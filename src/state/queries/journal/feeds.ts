@@ -16,13 +16,16 @@ import {
   useQuery,
   useQueryClient,
   InfiniteData,
+  QueryClient,
 } from '@tanstack/react-query'
 import {useAgent, useSession} from '#/state/session'
 import {STALE} from '#/state/queries'
 import {logger} from '#/logger'
 import {JOURNAL_API_CONFIG} from '#/env'
+import {migrateJournalRecord} from '#/lib/journal-record'
 
 import type {
+  JournalAccessGrant,
   JournalEntryView,
   JournalFeedPage,
   JournalFeedFilters,
@@ -34,34 +37,21 @@ import type {
   JournalErrorType,
 } from './types'
 import {
-  JOURNAL_QUERY_KEYS,
   JOURNAL_STALE_TIME,
   JOURNAL_GC_TIME,
   JOURNAL_RETRY_CONFIG,
 } from './constants'
-
+import {journalKeys} from '../journal-keys'
 import {
-  PrivacyAccessControlManager,
-  SecurityContext,
-  PrivacyLevel,
-} from '#/../../NPWA-atproto/packages/pds/src/journal-security'
-
-// Initialize access manager
-const accessManager = new PrivacyAccessControlManager()
+  canCommentOnJournalEntry,
+  canViewJournalEntry,
+  findActiveAccessGrant,
+  matchesJournalFeedFilters,
+  type JournalViewerContext,
+} from './utils'
+import {fetchJournalAccessGrants} from './privacy'
 
-/**
- * Create security context from session
- */
-function createSecurityContext(currentAccount: any): SecurityContext {
-  return {
-    userDid: currentAccount?.did || '',
-    sessionId: currentAccount?.accessJwt || crypto.randomUUID(),
-    ipAddress: 'unknown',
-    userAgent: 'TISocial-App',
-    authLevel: 'basic',
-    permissions: currentAccount?.permissions || [],
-  }
-}
+type Agent = ReturnType<typeof useAgent>
 
 /**
  * Enhanced error creation for feed operations
@@ -111,9 +101,10 @@ export function useJournalFeed(
 ) {
   const agent = useAgent()
   const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
   
   const queryKey = useMemo(() => 
-    JOURNAL_QUERY_KEYS.feed(feedType, currentAccount?.did || '', filters, options?.sortBy),
+    journalKeys.feed(currentAccount?.did || '', feedType, {filters, sortBy: options?.sortBy}),
     [feedType, currentAccount?.did, filters, options?.sortBy]
   )
 
@@ -125,7 +116,6 @@ export function useJournalFeed(
       }
 
       try {
-        const securityContext = createSecurityContext(currentAccount)
         const limit = options?.limit || 20
 
         // Build query parameters based on feed type
@@ -179,7 +169,7 @@ export function useJournalFeed(
         )
 
         // Convert AT Protocol records to entries
-        let entries: JournalEntryView[] = response.data.records.map((record: any) => ({
+        let entries: JournalEntryView[] = response.data.records.map(migrateFeedRecord).map((record: any) => ({
           id: record.uri.split('/').pop(),
           uri: record.uri,
           cid: record.cid,
@@ -196,7 +186,7 @@ export function useJournalFeed(
           incidentTimestamp: record.value.incidentTimestamp,
           privacyLevel: record.value.privacyLevel,
           symptomCount: record.value.symptoms?.count || 0,
-          evidenceCount: record.value.evidenceUris?.length || 0,
+          evidenceCount: record.value.evidenceAttachments?.length || 0,
           sourceCount: record.value.sourceIds?.length || 0,
           tags: record.value.tags || [],
           engagement: {
@@ -214,7 +204,12 @@ export function useJournalFeed(
         }))
 
         // Apply privacy filtering (entries should already be filtered by backend)
-        entries = await filterEntriesByPrivacy(entries, securityContext)
+        entries = await filterEntriesByPrivacy(entries, {
+          agent,
+          queryClient,
+          viewerDid: currentAccount.did,
+          isFollowing: feedType === 'contacts',
+        })
 
         // Apply client-side filtering for complex filters
         entries = applyClientSideFilters(entries, filters)
@@ -264,9 +259,10 @@ export function useJournalFeed(
 export function useJournalSearch(searchParams: JournalSearchParams) {
   const agent = useAgent()
   const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
 
   const queryKey = useMemo(() => 
-    JOURNAL_QUERY_KEYS.search(currentAccount?.did || '', searchParams),
+    journalKeys.search(currentAccount?.did || '', searchParams),
     [currentAccount?.did, searchParams]
   )
 
@@ -286,8 +282,6 @@ export function useJournalSearch(searchParams: JournalSearchParams) {
       }
 
       try {
-        const securityContext = createSecurityContext(currentAccount)
-        
         // Build search query
         const searchQuery = {
           query: searchParams.query,
@@ -306,6 +300,7 @@ export function useJournalSearch(searchParams: JournalSearchParams) {
 
         // Convert to entries and apply search filtering
         let entries: JournalEntryView[] = response.data.records
+          .map(migrateFeedRecord)
           .map(convertRecordToEntryView)
           .filter(entry => 
             entry.text.toLowerCase().includes(searchParams.query!.toLowerCase()) ||
@@ -314,7 +309,11 @@ export function useJournalSearch(searchParams: JournalSearchParams) {
           )
 
         // Apply privacy filtering
-        entries = await filterEntriesByPrivacy(entries, securityContext)
+        entries = await filterEntriesByPrivacy(entries, {
+          agent,
+          queryClient,
+          viewerDid: currentAccount.did,
+        })
 
         // Apply additional filters
         if (searchParams.filters) {
@@ -361,7 +360,7 @@ export function useJournalActivity(timeframe: 'day' | 'week' | 'month' = 'week')
   const {currentAccount} = useSession()
 
   return useQuery({
-    queryKey: JOURNAL_QUERY_KEYS.activity(currentAccount?.did || '', timeframe),
+    queryKey: journalKeys.activity(currentAccount?.did || '', timeframe),
     queryFn: async () => {
       if (!currentAccount) {
         throw createFeedError('permission_denied', 'Authentication required')
@@ -397,7 +396,7 @@ export function usePrefetchNextFeedPage() {
     const {currentAccount} = useSession()
     if (!currentAccount) return
 
-    const queryKey = JOURNAL_QUERY_KEYS.feed(feedType, currentAccount.did, filters)
+    const queryKey = journalKeys.feed(currentAccount.did, feedType, {filters})
     
     queryClient.prefetchInfiniteQuery({
       queryKey,
@@ -408,99 +407,87 @@ export function usePrefetchNextFeedPage() {
 
 // Helper functions
 
+/**
+ * Drops entries the viewer can't see, taking into account access the authors
+ * have granted them. Grants are fetched once per author and cached.
+ */
 async function filterEntriesByPrivacy(
   entries: JournalEntryView[],
-  securityContext: SecurityContext
+  {
+    agent,
+    queryClient,
+    viewerDid,
+    isFollowing,
+  }: {
+    agent: Agent
+    queryClient: QueryClient
+    viewerDid: string
+    isFollowing?: boolean
+  }
 ): Promise<JournalEntryView[]> {
-  const filteredEntries: JournalEntryView[] = []
-
-  for (const entry of entries) {
-    try {
-      // Create mock secure entry for access check
-      const secureEntry = {
-        uri: entry.uri,
-        author: entry.author,
-        privacyLevel: mapClientPrivacyToSecurity(entry.privacyLevel),
-        classification: 'unclassified', // Would be determined from actual entry
-        accessControlList: [],
-      }
-
-      const accessCheck = await accessManager.checkAccess(secureEntry as any, securityContext)
-      
-      if (accessCheck.hasAccess) {
-        filteredEntries.push({
-          ...entry,
-          viewer: {
-            ...entry.viewer,
-            hasAccess: true,
-          },
+  const authorDids = [...new Set(entries.map(entry => entry.author.did))]
+    .filter(did => did !== viewerDid)
+  const grantsByAuthor = new Map(
+    await Promise.all(authorDids.map(async (did): Promise<[string, JournalAccessGrant[]]> => {
+      try {
+        const grants = await queryClient.fetchQuery({
+          queryKey: journalKeys.accessGrants(did),
+          queryFn: () => fetchJournalAccessGrants(agent, did),
+          staleTime: STALE.MINUTES.ONE,
         })
+        return [did, grants]
+      } catch (error) {
+        // Without the author's grants, fall back to their privacy levels alone
+        logger.debug('Failed to fetch journal access grants', {error})
+        return [did, []]
       }
-    } catch (error) {
-      // If access check fails, exclude the entry
-      logger.debug('Entry filtered due to privacy check', {
-        entryId: entry.id,
-        error,
-      })
+    }))
+  )
+
+  const filteredEntries: JournalEntryView[] = []
+  for (const entry of entries) {
+    const viewerContext: JournalViewerContext = {
+      did: viewerDid,
+      isFollowing,
+      grants: grantsByAuthor.get(entry.author.did),
     }
+    if (!canViewJournalEntry(entry, viewerContext)) {
+      continue
+    }
+    const grant = findActiveAccessGrant(entry, viewerContext)
+    filteredEntries.push({
+      ...entry,
+      viewer: {
+        canView: true,
+        canComment: (entry.viewer?.canComment ?? true) && canCommentOnJournalEntry(entry, viewerContext),
+        hasAccess: true,
+        readOnly: grant?.readOnly,
+      },
+    })
   }
 
   return filteredEntries
 }
 
-function mapClientPrivacyToSecurity(privacy: any): PrivacyLevel {
-  switch (privacy) {
-    case 'public': return PrivacyLevel.PUBLIC
-    case 'contacts': return PrivacyLevel.PRIVATE
-    case 'badge_community': return PrivacyLevel.COMMUNITY
-    case 'private': return PrivacyLevel.PRIVATE
-    case 'anonymous': return PrivacyLevel.ANONYMOUS
-    default: return PrivacyLevel.PRIVATE
-  }
-}
-
 function applyClientSideFilters(
   entries: JournalEntryView[],
   filters?: JournalFeedFilters
 ): JournalEntryView[] {
   if (!filters) return entries
 
-  return entries.filter(entry => {
-    // Privacy level filter
-    if (filters.privacyLevels && !filters.privacyLevels.includes(entry.privacyLevel)) {
-      return false
-    }
-
-    // Date range filter
-    if (filters.dateRange) {
-      const entryDate = new Date(entry.createdAt)
-      const startDate = new Date(filters.dateRange.start)
-      const endDate = new Date(filters.dateRange.end)
-      if (entryDate < startDate || entryDate > endDate) {
-        return false
-      }
-    }
-
-    // Tag filter
-    if (filters.tags && filters.tags.length > 0) {
-      const hasMatchingTag = entry.tags.some(tag => filters.tags!.includes(tag))
-      if (!hasMatchingTag) return false
-    }
-
-    // Evidence filter
-    if (filters.hasEvidence !== undefined) {
-      if (filters.hasEvidence && entry.evidenceCount === 0) return false
-      if (!filters.hasEvidence && entry.evidenceCount > 0) return false
-    }
-
-    // Sources filter
-    if (filters.hasSources !== undefined) {
-      if (filters.hasSources && entry.sourceCount === 0) return false
-      if (!filters.hasSources && entry.sourceCount > 0) return false
-    }
-
-    return true
-  })
+  return entries.filter(entry =>
+    matchesJournalFeedFilters(
+      {
+        createdAt: entry.createdAt,
+        privacyLevel: entry.privacyLevel,
+        tags: entry.tags,
+        evidenceCount: entry.evidenceCount,
+        sourceCount: entry.sourceCount,
+        authorDid: entry.author.did,
+      },
+      filters,
+    ),
+  )
 }
 
 function sortEntries(entries: JournalEntryView[], sortBy: JournalSortOrder): JournalEntryView[] {
@@ -526,6 +513,11 @@ function sortEntries(entries: JournalEntryView[], sortBy: JournalSortOrder): Jou
   })
 }
 
+// The appview returns records as stored, so older ones still need migrating
+function migrateFeedRecord(record: any) {
+  return {...record, value: migrateJournalRecord(record.value)}
+}
+
 function convertRecordToEntryView(record: any): JournalEntryView {
   return {
     id: record.uri.split('/').pop(),
@@ -543,7 +535,7 @@ function convertRecordToEntryView(record: any): JournalEntryView {
     incidentTimestamp: record.value.incidentTimestamp,
     privacyLevel: record.value.privacyLevel,
     symptomCount: record.value.symptoms?.count || 0,
-    evidenceCount: record.value.evidenceUris?.length || 0,
+    evidenceCount: record.value.evidenceAttachments?.length || 0,
     sourceCount: record.value.sourceIds?.length || 0,
     tags: record.value.tags || [],
     engagement: {
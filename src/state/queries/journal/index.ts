@@ -22,151 +22,249 @@
  * - Rate limiting and suspicious activity monitoring
  */
 
+import {useQuery} from '@tanstack/react-query'
+
+import {STALE} from '#/state/queries'
+import {
+  useCreateJournalEntry,
+  useDeleteJournalEntry,
+  useJournalEntries,
+  useJournalEntry,
+  useUpdateJournalEntry,
+} from '../journal'
+import {JournalCacheInvalidator} from '../journal-cache'
+import {
+  useExportJournalAccessLog,
+  useJournalAccessLog,
+  useLogJournalEntryAccess,
+} from './access-log'
+import {
+  useJournalAnalytics,
+  useJournalInsights,
+  useJournalTrends,
+  usePerformanceMetrics,
+} from './analytics'
+import {
+  useCreateJournalComment,
+  useDeleteJournalComment,
+  useJournalComments,
+  useReportJournalComment,
+  useToggleJournalSupport,
+} from './comments'
+import {JOURNAL_FEATURES, JOURNAL_STALE_TIME} from './constants'
+import {
+  useJournalActivity,
+  useJournalFeed,
+  useJournalSearch,
+  usePrefetchNextFeedPage,
+} from './feeds'
+import {
+  useAccessRequests,
+  useEntryAccessGrants,
+  useGrantEntryAccess,
+  useJournalPermissions,
+  useJournalPrivacySettings,
+  useRequestEntryAccess,
+  useRespondToAccessRequest,
+  useRevokeEntryAccess,
+  useUpdatePrivacySettings,
+  useUserBadges,
+  useValidateHIPAACompliance,
+} from './privacy'
+
 // ===== CORE CRUD OPERATIONS =====
 
+export type {JournalEntry} from '../journal'
 export {
-  useJournalEntry,
-  useJournalEntryByUri,
-  useGetJournalEntry,
   useCreateJournalEntry,
-  useUpdateJournalEntry,
   useDeleteJournalEntry,
-  useDuplicateJournalEntry,
-} from './crud'
+  useJournalEntries,
+  useJournalEntriesInfinite,
+  useJournalEntry,
+  useUpdateJournalEntry,
+} from '../journal'
 
 // ===== FEED AND SEARCH OPERATIONS =====
 
 export {
+  useJournalActivity,
   useJournalFeed,
   useJournalSearch,
-  useJournalActivity,
   usePrefetchNextFeedPage,
 } from './feeds'
 
 // ===== PRIVACY AND PERMISSION MANAGEMENT =====
 
 export {
-  useJournalPrivacySettings,
-  useUpdatePrivacySettings,
+  useAccessRequests,
+  useEntryAccessGrants,
+  useGrantEntryAccess,
   useJournalPermissions,
-  useUserBadges,
+  useJournalPrivacySettings,
   useRequestEntryAccess,
-  useAccessRequests,
   useRespondToAccessRequest,
+  useRevokeEntryAccess,
+  useUpdatePrivacySettings,
+  useUserBadges,
   useValidateHIPAACompliance,
 } from './privacy'
 
+// ===== ACCESS LOG =====
+
+export {
+  logJournalEntryAccess,
+  useExportJournalAccessLog,
+  useJournalAccessLog,
+  useLogJournalEntryAccess,
+} from './access-log'
+
+// ===== COMMENTS AND REACTIONS =====
+
+export {
+  MAX_JOURNAL_COMMENT_LENGTH,
+  useCreateJournalComment,
+  useDeleteJournalComment,
+  useJournalComments,
+  useReportJournalComment,
+  useToggleJournalSupport,
+} from './comments'
+
+// ===== NOTIFICATIONS =====
+
+export {
+  fetchJournalNotifications,
+  updateJournalNotificationsSeen,
+  useJournalNotificationsQuery,
+} from './notifications'
+
 // ===== ANALYTICS AND INSIGHTS =====
 
 export {
   useJournalAnalytics,
   useJournalInsights,
   useJournalTrends,
-  useExportJournalData,
-  useExportStatus,
   usePerformanceMetrics,
 } from './analytics'
 
 // ===== TYPES AND INTERFACES =====
 
+// Core entry types
 export type {
-  // Core entry types
-  JournalEntry,
-  JournalEntryView,
   JournalComment,
-  OptimisticJournalEntry,
+  JournalEntryView,
+  JournalEntryViewDetailed,
   OptimisticJournalComment,
-  
-  // Entry components
-  JournalLocation,
-  JournalSymptom,
+  OptimisticJournalEntry,
+} from './types'
+
+// Entry components
+export type {
+  JournalEntryType,
   JournalEvidence,
+  JournalLocation,
+  JournalLocationPrecision,
   JournalSource,
+  JournalSymptom,
   SymptomCategory,
-  JournalEntryType,
-  
-  // Privacy and access
-  JournalPrivacyLevel,
+} from './types'
+
+// Privacy and access
+export type {
   BadgeType,
-  JournalNotificationType,
+  JournalAccessGrant,
   JournalNotification,
-  
-  // Feed and search
-  JournalFeedType,
+  JournalNotificationType,
+  JournalPrivacyLevel,
+} from './types'
+
+// Feed and search
+export type {
   JournalFeedFilters,
-  JournalSortOrder,
+  JournalFeedPage,
+  JournalFeedType,
   JournalSearchParams,
   JournalSearchResult,
-  JournalFeedPage,
-  
-  // Analytics
-  JournalAnalytics,
-  
-  // Export and backup
-  JournalExportRequest,
-  JournalBackupMetadata,
-  
-  // Error handling
-  JournalError,
-  JournalErrorType,
-  
-  // Input types for mutations
+  JournalSortOrder,
+} from './types'
+
+// Analytics
+export type {JournalAnalytics} from './types'
+
+// Export and backup
+export type {JournalBackupMetadata, JournalExportRequest} from './types'
+
+// Error handling
+export type {JournalError, JournalErrorType} from './types'
+
+// Input types for mutations
+export type {
   CreateJournalEntryInput,
-  UpdateJournalEntryInput,
   DeleteJournalEntryInput,
+  UpdateJournalEntryInput,
 } from './types'
 
 // ===== CONSTANTS AND CONFIGURATION =====
 
+export {journalKeys} from '../journal-keys'
 export {
-  JOURNAL_QUERY_KEYS,
-  JOURNAL_STALE_TIME,
+  ANALYTICS_PERIODS,
+  CACHE_INVALIDATION_PATTERNS,
+  EXPORT_FORMATS,
+  HIPAA_SETTINGS,
+  JOURNAL_ERROR_MESSAGES,
+  JOURNAL_FEATURES,
   JOURNAL_GC_TIME,
   JOURNAL_PAGE_SIZES,
-  JOURNAL_RETRY_CONFIG,
   JOURNAL_REFETCH_INTERVALS,
+  JOURNAL_RETRY_CONFIG,
+  JOURNAL_STALE_TIME,
   OPTIMISTIC_TIMEOUTS,
-  JOURNAL_ERROR_MESSAGES,
-  JOURNAL_FEATURES,
-  HIPAA_SETTINGS,
-  CACHE_INVALIDATION_PATTERNS,
   PERFORMANCE_THRESHOLDS,
-  SECURITY_THRESHOLDS,
-  ANALYTICS_PERIODS,
-  EXPORT_FORMATS,
   PRIVACY_ACCESS_MATRIX,
-  SECURITY_QUERY_KEYS,
+  SECURITY_THRESHOLDS,
 } from './constants'
 
 // ===== UTILITY FUNCTIONS =====
 
 export {
   createJournalError,
-  validateJournalEntry,
   generateOptimisticEntry,
+  validateJournalEntry,
 } from './utils'
 
 // ===== CACHE MANAGEMENT =====
 
 export {
-  JournalQueryCache,
   JournalCacheInvalidator,
   JournalCachePersistence,
-} from './cache'
+  JournalQueryCache,
+} from '../journal-cache'
 
 // ===== ENHANCED TYPES FOR PRIVACY MANAGEMENT =====
 
 export type {
+  AccessRequest,
   JournalPrivacySettings,
   PermissionCheckResult,
-  AccessRequest,
 } from './privacy'
 
+// ===== TYPES FOR COMMENTS =====
+
+export type {JournalCommentsData, JournalCommentSubject} from './comments'
+export type {JournalCommentThread} from './utils'
+
+// ===== TYPES FOR NOTIFICATIONS =====
+
+export type {JournalNotificationsPage} from './notifications'
+
+// ===== TYPES FOR THE ACCESS LOG =====
+
+export type {JournalAccessLogSubject} from './access-log'
+
 // ===== ENHANCED TYPES FOR ANALYTICS =====
 
 export type {
   EnhancedJournalAnalytics,
-  ExportStatus,
 } from './analytics'
 
 // ===== HOOK CATEGORIES FOR ORGANIZED IMPORTS =====
@@ -179,10 +277,10 @@ export type {
  */
 export const JournalCrudHooks = {
   useJournalEntry,
+  useJournalEntries,
   useCreateJournalEntry,
   useUpdateJournalEntry,
   useDeleteJournalEntry,
-  useDuplicateJournalEntry,
 } as const
 
 /**
@@ -208,25 +306,42 @@ export const JournalPrivacyHooks = {
   useJournalPrivacySettings,
   useUpdatePrivacySettings,
   useJournalPermissions,
+  useEntryAccessGrants,
+  useGrantEntryAccess,
+  useRevokeEntryAccess,
   useUserBadges,
   useRequestEntryAccess,
   useAccessRequests,
   useRespondToAccessRequest,
   useValidateHIPAACompliance,
+  useLogJournalEntryAccess,
+  useJournalAccessLog,
+  useExportJournalAccessLog,
+} as const
+
+/**
+ * Comment and reaction hooks
+ * 
+ * These hooks manage threaded comments and support reactions, respecting
+ * each entry's privacy level and the viewer's access.
+ */
+export const JournalCommentHooks = {
+  useJournalComments,
+  useCreateJournalComment,
+  useDeleteJournalComment,
+  useReportJournalComment,
+  useToggleJournalSupport,
 } as const
 
 /**
  * Analytics and insights hooks
  * 
- * These hooks provide data analysis, trends, and export functionality
- * with privacy protection.
+ * These hooks provide data analysis and trends with privacy protection.
  */
 export const JournalAnalyticsHooks = {
   useJournalAnalytics,
   useJournalInsights,
   useJournalTrends,
-  useExportJournalData,
-  useExportStatus,
   usePerformanceMetrics,
 } as const
 
@@ -457,6 +572,6 @@ export const JournalOptimizationTips = {
 }
 
 // Re-export commonly used hooks from other modules for convenience
-export {useAgent, useSession} from '#/state/session'
 export {logger} from '#/logger'
-export {STALE} from '#/state/queries'
\ No newline at end of file
+export {STALE} from '#/state/queries'
+export {useAgent, useSession} from '#/state/session'
\ No newline at end of file
@@ -0,0 +1,198 @@
+/**
+ * Journal Notification Hooks
+ *
+ * Comments and support reactions on the viewer's latest entries, shown
+ * alongside the regular notifications. They're records in other people's
+ * repos, found through the backlink index. When the viewer last read their
+ * notifications is kept in a record in their own repo.
+ */
+
+import {AtUri} from '@atproto/api'
+import {type InfiniteData, useInfiniteQuery} from '@tanstack/react-query'
+
+import {useAgent, useSession} from '#/state/session'
+import {journalKeys} from '../journal-keys'
+import {listJournalRecords} from '../journal-repository'
+import {
+  fetchJournalBacklinkAuthors,
+  fetchJournalBacklinkRecords,
+  type JournalBacklinkRecord,
+} from './backlinks'
+import {
+  JOURNAL_COMMENT_COLLECTION,
+  JOURNAL_REACTION_COLLECTION,
+  type JournalCommentRecord,
+  type JournalReactionRecord,
+  toJournalComment,
+} from './comments'
+import {
+  JOURNAL_GC_TIME,
+  JOURNAL_PAGE_SIZES,
+  JOURNAL_STALE_TIME,
+} from './constants'
+import {type JournalError, type JournalNotification} from './types'
+import {createJournalError} from './utils'
+
+type Agent = ReturnType<typeof useAgent>
+
+const NOTIFICATION_STATE_COLLECTION = 'app.warlog.notificationState'
+const NOTIFICATION_STATE_RKEY = 'self'
+// Each entry is its own lookup in the backlink index, so only the latest
+// ones are checked
+const NOTIFIED_ENTRY_COUNT = 10
+
+type NotificationSource =
+  | {
+      type: 'comment'
+      entryUri: string
+      record: JournalBacklinkRecord<JournalCommentRecord>
+    }
+  | {
+      type: 'support_reaction'
+      entryUri: string
+      record: JournalBacklinkRecord<JournalReactionRecord>
+    }
+
+export interface JournalNotificationsPage {
+  notifications: JournalNotification[]
+  cursor?: string
+}
+
+/**
+ * Fetches the newest comments and support reactions on the viewer's latest
+ * entries, leaving out the viewer's own
+ */
+export async function fetchJournalNotifications(
+  agent: Agent,
+  {limit = JOURNAL_PAGE_SIZES.NOTIFICATIONS}: {limit?: number} = {}
+): Promise<JournalNotificationsPage> {
+  const did = agent.assertDid
+  const [{records: entries}, seenAt] = await Promise.all([
+    listJournalRecords(agent, did, {limit: NOTIFIED_ENTRY_COUNT}),
+    fetchJournalNotificationsSeenAt(agent, did),
+  ])
+
+  const sources = (
+    await Promise.all(
+      entries.map(async ({uri: entryUri}): Promise<NotificationSource[]> => {
+        const [comments, reactions] = await Promise.all([
+          fetchJournalBacklinkRecords<JournalCommentRecord>(
+            agent,
+            entryUri,
+            JOURNAL_COMMENT_COLLECTION,
+            '.subject.uri'
+          ),
+          fetchJournalBacklinkRecords<JournalReactionRecord>(
+            agent,
+            entryUri,
+            JOURNAL_REACTION_COLLECTION,
+            '.subject.uri'
+          ),
+        ])
+        return [
+          ...comments.map(record => ({type: 'comment' as const, entryUri, record})),
+          ...reactions
+            .filter(record => record.value.reaction === 'support')
+            .map(record => ({type: 'support_reaction' as const, entryUri, record})),
+        ]
+      })
+    )
+  )
+    .flat()
+    .filter(source => new AtUri(source.record.uri).host !== did)
+    .sort(
+      (a, b) =>
+        new Date(b.record.value.createdAt).getTime() -
+        new Date(a.record.value.createdAt).getTime()
+    )
+    .slice(0, limit)
+
+  const actors = await fetchJournalBacklinkAuthors(
+    agent,
+    sources.map(source => new AtUri(source.record.uri).host)
+  )
+  const notifications: JournalNotification[] = []
+  for (const source of sources) {
+    const actor = actors.get(new AtUri(source.record.uri).host)
+    // the account behind it is gone
+    if (!actor) continue
+    const {createdAt} = source.record.value
+    notifications.push({
+      id: source.record.uri,
+      type: source.type,
+      entryId: source.entryUri,
+      actor,
+      createdAt,
+      isRead: !!seenAt && new Date(createdAt) <= new Date(seenAt),
+      comment:
+        source.type === 'comment'
+          ? toJournalComment(source.entryUri, source.record, actor, {
+              viewerDid: did,
+              canReply: true,
+              replyCount: 0,
+            })
+          : undefined,
+    })
+  }
+  return {notifications}
+}
+
+/**
+ * Marks journal notifications up to `seenAt` as read
+ */
+export async function updateJournalNotificationsSeen(agent: Agent, seenAt: string) {
+  await agent.com.atproto.repo.putRecord({
+    repo: agent.assertDid,
+    collection: NOTIFICATION_STATE_COLLECTION,
+    rkey: NOTIFICATION_STATE_RKEY,
+    record: {$type: NOTIFICATION_STATE_COLLECTION, seenAt},
+  })
+}
+
+async function fetchJournalNotificationsSeenAt(
+  agent: Agent,
+  did: string
+): Promise<string | undefined> {
+  try {
+    const {data} = await agent.com.atproto.repo.getRecord({
+      repo: did,
+      collection: NOTIFICATION_STATE_COLLECTION,
+      rkey: NOTIFICATION_STATE_RKEY,
+    })
+    return (data.value as {seenAt?: string}).seenAt
+  } catch (e: any) {
+    // nothing has been read yet
+    if (e?.message?.includes('Could not locate record')) return undefined
+    throw e
+  }
+}
+
+/**
+ * Hook to fetch the viewer's journal notifications, newest first. They all
+ * come in one page.
+ */
+export function useJournalNotificationsQuery(options?: {enabled?: boolean}) {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+
+  return useInfiniteQuery<
+    JournalNotificationsPage,
+    JournalError,
+    InfiniteData<JournalNotificationsPage>,
+    any,
+    string | undefined
+  >({
+    queryKey: journalKeys.notifications(currentAccount?.did || ''),
+    queryFn: async () => {
+      if (!currentAccount) {
+        throw createJournalError('permission_denied', 'Authentication required')
+      }
+      return fetchJournalNotifications(agent)
+    },
+    initialPageParam: undefined,
+    getNextPageParam: lastPage => lastPage.cursor,
+    enabled: !!currentAccount && options?.enabled !== false,
+    staleTime: JOURNAL_STALE_TIME.NOTIFICATIONS,
+    gcTime: JOURNAL_GC_TIME.NOTIFICATIONS,
+  })
+}
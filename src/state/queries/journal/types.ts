@@ -21,6 +21,9 @@ export type SymptomCategory =
   | 'surveillance_indication' 
   | 'other'
 
+// How precisely a location is stored, from finest to coarsest
+export type JournalLocationPrecision = 'exact' | 'neighbourhood' | 'city' | 'region'
+
 // Location data structure
 export interface JournalLocation {
   latitude: number
@@ -31,6 +34,7 @@ export interface JournalLocation {
   state?: string
   country?: string
   isApproximate?: boolean // For privacy protection
+  precision?: JournalLocationPrecision
 }
 
 // Symptom tracking structure
@@ -70,7 +74,7 @@ export interface JournalSource {
 }
 
 // Main journal entry structure
-export interface JournalEntry {
+export interface JournalEntryViewDetailed {
   id: string
   uri: string // AT Protocol URI
   cid: string // Content ID for AT Protocol
@@ -166,6 +170,7 @@ export interface JournalEntryView {
     canView: boolean
     canComment: boolean
     hasAccess: boolean
+    readOnly?: boolean // Access comes from a read-only grant
   }
   
   // Preview data (truncated for privacy)
@@ -173,6 +178,36 @@ export interface JournalEntryView {
   triggerWarnings?: string[]
 }
 
+// Per-entry access granted by the author, e.g. by approving an access request
+export interface JournalAccessGrant {
+  id: string // Record key of the grant
+  entryUri: string
+  granteeDid: string
+  readOnly: boolean // View only: no comments or sharing
+  grantedAt: string
+  expiresAt?: string
+  revokedAt?: string
+  requestId?: string // The access request this grant approved, if any
+}
+
+// How a viewer reached an entry
+export type JournalAccessPath =
+  | 'direct' // A link or the entry's URL
+  | 'feed'
+  | 'notification'
+  | 'share_link'
+
+// A view of an entry by someone other than its author, recorded for entries
+// that require an access log
+export interface JournalAccessEvent {
+  id: string
+  entryUri: string
+  viewerDid: string
+  viewerHandle?: string
+  accessedAt: string
+  accessPath: JournalAccessPath
+}
+
 // Feed filtering and sorting options
 export interface JournalFeedFilters {
   privacyLevels?: JournalPrivacyLevel[]
@@ -276,6 +311,7 @@ export interface JournalAnalytics {
 export interface JournalComment {
   id: string
   uri: string
+  cid: string
   entryId: string
   parentCommentId?: string // For nested comments
   author: AppBskyActorDefs.ProfileViewBasic
@@ -286,7 +322,6 @@ export interface JournalComment {
   
   isSupport: boolean // Support vs general comment
   isModerator: boolean // Comment from community moderator
-  isAnonymous: boolean
   
   // Engagement
   likeCount: number
@@ -305,6 +340,41 @@ export interface JournalComment {
   }
 }
 
+/**
+ * A witness's confirmation of something in an entry. It's a record in the
+ * witness's own repo, and `subject` pins it to the version of the entry they
+ * confirmed.
+ */
+export interface JournalWitnessAttestation {
+  uri: string
+  cid: string
+  author: AppBskyActorDefs.ProfileViewBasic
+  subject: {uri: string; cid: string}
+  statement: string
+  createdAt: string
+}
+
+export type JournalWitnessStatus = 'pending' | 'accepted' | 'hidden'
+
+/**
+ * The entry author's decision on an attestation. It's a record in the
+ * author's repo, pinned to the version of the attestation it was made on.
+ */
+export interface JournalWitnessReview {
+  uri: string
+  subject: {uri: string; cid: string}
+  entry: string
+  status: Exclude<JournalWitnessStatus, 'pending'>
+  createdAt: string
+}
+
+export type JournalWitnessView = JournalWitnessAttestation & {
+  status: JournalWitnessStatus
+  reviewUri?: string
+  // the entry has been edited since the witness confirmed it
+  isOutdated: boolean
+}
+
 // Notification types for journal system
 export type JournalNotificationType = 
   | 'comment' 
@@ -319,7 +389,7 @@ export interface JournalNotification {
   id: string
   type: JournalNotificationType
   entryId: string
-  entry: JournalEntryView
+  entry?: JournalEntryView
   actor: AppBskyActorDefs.ProfileViewBasic
   createdAt: string
   isRead: boolean
@@ -340,6 +410,7 @@ export interface JournalExportRequest {
     end: string
   }
   filters?: JournalFeedFilters
+  caseUri?: string // Only export the entries in this case
 }
 
 export interface JournalBackupMetadata {
@@ -426,7 +497,7 @@ export interface DeleteJournalEntryInput {
 }
 
 // Optimistic update types
-export interface OptimisticJournalEntry extends JournalEntry {
+export interface OptimisticJournalEntry extends JournalEntryViewDetailed {
   _optimistic: true
   _tempId: string
 }
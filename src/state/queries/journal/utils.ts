@@ -5,8 +5,18 @@ import type {
   JournalErrorType,
   CreateJournalEntryInput,
   OptimisticJournalEntry,
-  JournalEntry,
+  JournalEntryViewDetailed,
   JournalPrivacyLevel,
+  JournalLocationPrecision,
+  JournalFeedFilters,
+  JournalAccessGrant,
+  JournalAccessPath,
+  JournalComment,
+  JournalEntryView,
+  JournalNotification,
+  JournalWitnessAttestation,
+  JournalWitnessReview,
+  JournalWitnessView,
   BadgeType,
 } from './types'
 import {
@@ -15,6 +25,8 @@ import {
   PERFORMANCE_THRESHOLDS,
 } from './constants'
 import {JOURNAL_API_CONFIG} from '#/env'
+import {requiresEncryption} from '#/lib/journal-encryption'
+import {coarsenLocation, getLocationPrecision} from '#/lib/journal-location'
 import {QueryClient} from '@tanstack/react-query'
 
 /**
@@ -363,19 +375,80 @@ export function generateOptimisticEntry(
   }
 }
 
+/**
+ * Viewer details used for journal access checks
+ */
+export interface JournalViewerContext {
+  did?: string
+  badges?: BadgeType[]
+  isFollowing?: boolean
+  grants?: JournalAccessGrant[] // Grants made by the entry's author
+}
+
+/**
+ * The parts of an entry that access checks look at, so they work on full
+ * entries, feed views and raw records alike
+ */
+export type JournalAccessSubject = Pick<JournalEntryView, 'uri' | 'privacyLevel'> & {
+  did?: string
+  author?: {did: string}
+  allowComments?: boolean
+  allowSharing?: boolean
+}
+
+/**
+ * Whether a grant is currently in effect
+ */
+export function isAccessGrantActive(
+  grant: JournalAccessGrant,
+  now: Date = new Date()
+): boolean {
+  if (grant.revokedAt) return false
+  if (grant.expiresAt && new Date(grant.expiresAt) <= now) return false
+  return true
+}
+
+/**
+ * Whether access to an entry can be granted. Grants don't share the key, so
+ * a grantee of an encrypted entry could only ever see it locked.
+ */
+export function canGrantJournalAccess(entry: Pick<JournalAccessSubject, 'privacyLevel'>): boolean {
+  return !requiresEncryption({privacyLevel: entry.privacyLevel})
+}
+
+/**
+ * Finds the active grant, if any, giving the viewer access to an entry
+ */
+export function findActiveAccessGrant(
+  entry: JournalAccessSubject,
+  viewerContext?: JournalViewerContext
+): JournalAccessGrant | undefined {
+  if (!viewerContext?.did || !viewerContext.grants) return undefined
+  if (!canGrantJournalAccess(entry)) return undefined
+  return viewerContext.grants.find(grant =>
+    grant.entryUri === entry.uri &&
+    grant.granteeDid === viewerContext.did &&
+    isAccessGrantActive(grant)
+  )
+}
+
+function isJournalEntryAuthor(
+  entry: JournalAccessSubject,
+  viewerContext?: JournalViewerContext
+): boolean {
+  return !!viewerContext?.did && (viewerContext.did === entry.did || viewerContext.did === entry.author?.did)
+}
+
 /**
  * Checks if a user has access to view a journal entry based on privacy settings
+ * and any access the author has granted them
  */
 export function canViewJournalEntry(
-  entry: JournalEntry | JournalEntryView,
-  viewerContext?: {
-    did?: string
-    badges?: BadgeType[]
-    isFollowing?: boolean
-  }
+  entry: JournalAccessSubject,
+  viewerContext?: JournalViewerContext
 ): boolean {
   // Author can always view their own entries
-  if (viewerContext?.did === entry.did || viewerContext?.did === (entry as any).author?.did) {
+  if (isJournalEntryAuthor(entry, viewerContext)) {
     return true
   }
   
@@ -383,31 +456,37 @@ export function canViewJournalEntry(
   const privacyLevel = entry.privacyLevel
   const accessControl = PRIVACY_ACCESS_MATRIX[privacyLevel]
   
-  return accessControl.canView(
+  if (accessControl.canView(
     viewerContext?.badges,
     viewerContext?.isFollowing,
     false // Not author since we checked above
-  )
+  )) {
+    return true
+  }
+
+  return !!findActiveAccessGrant(entry, viewerContext)
 }
 
 /**
- * Checks if a user can comment on a journal entry
+ * Checks if a user can comment on a journal entry. Comments are plaintext
+ * records in the commenter's public repo, so encrypted entries never take
+ * them: they'd give away what the entry is about.
  */
 export function canCommentOnJournalEntry(
-  entry: JournalEntry | JournalEntryView,
-  viewerContext?: {
-    did?: string
-    badges?: BadgeType[]
-    isFollowing?: boolean
-  }
+  entry: JournalAccessSubject,
+  viewerContext?: JournalViewerContext
 ): boolean {
   // Must be able to view first
   if (!canViewJournalEntry(entry, viewerContext)) {
     return false
   }
+
+  if (requiresEncryption({privacyLevel: entry.privacyLevel})) {
+    return false
+  }
   
   // Check if comments are allowed
-  if ('allowComments' in entry && !entry.allowComments) {
+  if (entry.allowComments === false) {
     return false
   }
   
@@ -415,25 +494,28 @@ export function canCommentOnJournalEntry(
   const privacyLevel = entry.privacyLevel
   const accessControl = PRIVACY_ACCESS_MATRIX[privacyLevel]
   
-  const isAuthor = viewerContext?.did === entry.did || viewerContext?.did === (entry as any).author?.did
+  const isAuthor = isJournalEntryAuthor(entry, viewerContext)
   
-  return accessControl.canComment(
+  if (accessControl.canComment(
     viewerContext?.badges,
     viewerContext?.isFollowing,
     isAuthor
-  )
+  )) {
+    return true
+  }
+
+  // A grant lets the grantee comment unless it's read-only
+  const grant = findActiveAccessGrant(entry, viewerContext)
+  return !!grant && !grant.readOnly
 }
 
 /**
- * Checks if a user can share a journal entry
+ * Checks if a user can share a journal entry. Access grants never allow
+ * resharing: they're for the grantee alone.
  */
 export function canShareJournalEntry(
-  entry: JournalEntry | JournalEntryView,
-  viewerContext?: {
-    did?: string
-    badges?: BadgeType[]
-    isFollowing?: boolean
-  }
+  entry: JournalAccessSubject,
+  viewerContext?: JournalViewerContext
 ): boolean {
   // Must be able to view first
   if (!canViewJournalEntry(entry, viewerContext)) {
@@ -441,7 +523,7 @@ export function canShareJournalEntry(
   }
   
   // Check if sharing is allowed
-  if ('allowSharing' in entry && !entry.allowSharing) {
+  if (entry.allowSharing === false) {
     return false
   }
   
@@ -449,26 +531,33 @@ export function canShareJournalEntry(
   const privacyLevel = entry.privacyLevel
   const accessControl = PRIVACY_ACCESS_MATRIX[privacyLevel]
   
-  const isAuthor = viewerContext?.did === entry.did || viewerContext?.did === (entry as any).author?.did
+  const isAuthor = isJournalEntryAuthor(entry, viewerContext)
   
-  return accessControl.canShare(
+  return !!accessControl.canShare(
     viewerContext?.badges,
     viewerContext?.isFollowing,
     isAuthor
   )
 }
 
+/**
+ * Whether a view of an entry goes in its access log: the entry requires one
+ * and the viewer isn't its author
+ */
+export function shouldLogJournalAccess(
+  entry: JournalAccessSubject & {accessLogRequired?: boolean},
+  viewerDid: string
+): boolean {
+  return !!entry.accessLogRequired && !isJournalEntryAuthor(entry, {did: viewerDid})
+}
+
 /**
  * Sanitizes journal entry data for display based on privacy level
  */
 export function sanitizeJournalEntryForDisplay(
-  entry: JournalEntry,
-  viewerContext?: {
-    did?: string
-    badges?: BadgeType[]
-    isFollowing?: boolean
-  }
-): Partial<JournalEntry> {
+  entry: JournalEntryViewDetailed,
+  viewerContext?: JournalViewerContext
+): Partial<JournalEntryViewDetailed> {
   // If user can't view, return minimal info
   if (!canViewJournalEntry(entry, viewerContext)) {
     return {
@@ -514,7 +603,7 @@ export function sanitizeJournalEntryForDisplay(
  * Generates a preview of journal entry content for feed display
  */
 export function generateJournalEntryPreview(
-  entry: JournalEntry,
+  entry: JournalEntryViewDetailed,
   maxLength: number = 200
 ): string {
   const text = entry.text.trim()
@@ -546,7 +635,7 @@ export function generateJournalEntryPreview(
 /**
  * Calculates a severity score for a journal entry based on symptoms
  */
-export function calculateEntrySeverityScore(entry: JournalEntry): number {
+export function calculateEntrySeverityScore(entry: JournalEntryViewDetailed): number {
   if (!entry.symptoms || entry.symptoms.length === 0) {
     return 0
   }
@@ -560,27 +649,152 @@ export function calculateEntrySeverityScore(entry: JournalEntry): number {
   return Math.min(averageSeverity * symptomCountWeight, 10)
 }
 
+/**
+ * The fields `matchesJournalFeedFilters` looks at. Feed views don't carry
+ * symptoms or coordinates, so those are optional: when a field is missing the
+ * filters that depend on it are left to the server.
+ */
+export interface JournalFilterSubject {
+  createdAt: string
+  privacyLevel: JournalPrivacyLevel
+  tags: string[]
+  evidenceCount: number
+  sourceCount: number
+  authorDid?: string
+  symptoms?: Array<{category: string; severity: number}>
+  location?: {latitude: number; longitude: number}
+}
+
+/**
+ * Applies `JournalFeedFilters` to a single entry. This is the one place the
+ * client interprets filters, so feeds and exports always select the same
+ * entries.
+ *
+ * - `dateRange` is inclusive and compares against `createdAt`
+ * - `tags` and `symptomCategories` match if any value matches
+ * - `minSeverity` / `maxSeverity` compare against the entry's worst symptom
+ * - `badgeTypes` is only enforced server-side
+ */
+export function matchesJournalFeedFilters(
+  entry: JournalFilterSubject,
+  filters?: JournalFeedFilters,
+): boolean {
+  if (!filters) return true
+
+  if (filters.privacyLevels && !filters.privacyLevels.includes(entry.privacyLevel)) {
+    return false
+  }
+
+  if (filters.dateRange) {
+    const entryDate = new Date(entry.createdAt)
+    const startDate = new Date(filters.dateRange.start)
+    const endDate = new Date(filters.dateRange.end)
+    if (entryDate < startDate || entryDate > endDate) {
+      return false
+    }
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    if (!entry.tags.some(tag => filters.tags!.includes(tag))) return false
+  }
+
+  if (filters.hasEvidence !== undefined) {
+    if (filters.hasEvidence && entry.evidenceCount === 0) return false
+    if (!filters.hasEvidence && entry.evidenceCount > 0) return false
+  }
+
+  if (filters.hasSources !== undefined) {
+    if (filters.hasSources && entry.sourceCount === 0) return false
+    if (!filters.hasSources && entry.sourceCount > 0) return false
+  }
+
+  if (entry.authorDid) {
+    if (filters.authorDids && !filters.authorDids.includes(entry.authorDid)) {
+      return false
+    }
+    if (filters.excludeAuthorDids?.includes(entry.authorDid)) {
+      return false
+    }
+  }
+
+  if (entry.symptoms) {
+    if (filters.symptomCategories && filters.symptomCategories.length > 0) {
+      const categories: string[] = filters.symptomCategories
+      const hasCategory = entry.symptoms.some(symptom =>
+        categories.includes(symptom.category),
+      )
+      if (!hasCategory) return false
+    }
+    if (filters.minSeverity !== undefined || filters.maxSeverity !== undefined) {
+      if (entry.symptoms.length === 0) return false
+      const worst = Math.max(...entry.symptoms.map(symptom => symptom.severity))
+      if (filters.minSeverity !== undefined && worst < filters.minSeverity) return false
+      if (filters.maxSeverity !== undefined && worst > filters.maxSeverity) return false
+    }
+  }
+
+  if (filters.location && entry.location) {
+    const distance = distanceKm(entry.location, filters.location)
+    if (distance > filters.location.radiusKm) return false
+  }
+
+  return true
+}
+
+/**
+ * Great-circle distance between two points, in kilometres
+ */
+export function distanceKm(
+  from: {latitude: number; longitude: number},
+  to: {latitude: number; longitude: number},
+): number {
+  const toRadians = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLon = toRadians(to.longitude - from.longitude)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2
+  return 6371 * 2 * Math.asin(Math.sqrt(h))
+}
+
+const COORDINATE_DECIMALS: Record<JournalLocationPrecision, number> = {
+  exact: 4,
+  neighbourhood: 2,
+  city: 1,
+  region: 0,
+}
+
 /**
  * Formats a journal entry's location for display
  */
 export function formatJournalLocation(
-  location: JournalEntry['location'],
+  location: JournalEntryViewDetailed['location'],
   privacyLevel: JournalPrivacyLevel
 ): string {
   if (!location) return ''
   
-  // For anonymous entries, show only city/state
-  if (privacyLevel === 'anonymous') {
-    return [location.city, location.state].filter(Boolean).join(', ')
+  // Never show more than was stored, and only city level for anonymous entries
+  const coarsened = coarsenLocation(
+    location,
+    privacyLevel === 'anonymous' ? 'city' : 'exact'
+  )
+  const precision = getLocationPrecision(coarsened)
+  
+  if (precision === 'exact' && coarsened.address) {
+    return coarsened.address
   }
   
-  // For private entries, show full address if available
-  if (location.address) {
-    return location.address
+  const place = [coarsened.city, coarsened.state, coarsened.country].filter(Boolean)
+  if (place.length > 0) {
+    return place.slice(0, 2).join(', ')
   }
   
-  // Fallback to coordinates
-  return `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`
+  // Fallback to coordinates, to no more decimal places than they're good for
+  const decimals = COORDINATE_DECIMALS[precision]
+  const coordinates = `${coarsened.latitude.toFixed(decimals)}, ${coarsened.longitude.toFixed(decimals)}`
+  return precision === 'exact' ? coordinates : `~${coordinates}`
 }
 
 /**
@@ -651,10 +865,10 @@ export function createStableQueryKey(
  * Merges journal entries from multiple sources while avoiding duplicates
  */
 export function mergeJournalEntries(
-  ...sources: (JournalEntry[] | JournalEntryView[])[]
-): (JournalEntry | JournalEntryView)[] {
+  ...sources: (JournalEntryViewDetailed[] | JournalEntryView[])[]
+): (JournalEntryViewDetailed | JournalEntryView)[] {
   const seen = new Set<string>()
-  const merged: (JournalEntry | JournalEntryView)[] = []
+  const merged: (JournalEntryViewDetailed | JournalEntryView)[] = []
   
   for (const source of sources) {
     for (const entry of source) {
@@ -668,6 +882,140 @@ export function mergeJournalEntries(
   return merged
 }
 
+export interface JournalCommentThread {
+  comment: JournalComment
+  replies: JournalCommentThread[]
+}
+
+/**
+ * Arranges a flat list of comments into threads, oldest first. Replies whose
+ * parent is missing are shown at the top level, and deleted comments are only
+ * kept as placeholders when they have replies.
+ */
+export function buildJournalCommentThreads(
+  comments: JournalComment[]
+): JournalCommentThread[] {
+  const visible = comments
+    .filter(comment => !comment.isHidden)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+  const threads = new Map<string, JournalCommentThread>(
+    visible.map(comment => [comment.id, {comment, replies: []}])
+  )
+  
+  const roots: JournalCommentThread[] = []
+  for (const thread of threads.values()) {
+    const parent = thread.comment.parentCommentId
+      ? threads.get(thread.comment.parentCommentId)
+      : undefined
+    if (parent && parent !== thread) {
+      parent.replies.push(thread)
+    } else {
+      roots.push(thread)
+    }
+  }
+  
+  const prune = (list: JournalCommentThread[]): JournalCommentThread[] =>
+    list
+      .map(thread => ({...thread, replies: prune(thread.replies)}))
+      .filter(thread => !thread.comment.isDeleted || thread.replies.length > 0)
+  
+  return prune(roots)
+}
+
+/**
+ * Works out which witness attestations a viewer sees on an entry. The author
+ * sees all of them so they can accept or hide them, everyone else sees the
+ * accepted ones and their own. A review only counts for the version of the
+ * attestation it was made on. Attestations of an earlier version of the entry
+ * are kept, but marked outdated.
+ */
+export function resolveJournalWitnesses(
+  entry: {uri: string; cid: string; author: {did: string}},
+  attestations: JournalWitnessAttestation[],
+  reviews: JournalWitnessReview[],
+  viewerDid?: string
+): JournalWitnessView[] {
+  const isAuthor = entry.author.did === viewerDid
+  const reviewsByAttestation = new Map<string, JournalWitnessReview>()
+  for (const review of reviews) {
+    const key = `${review.subject.uri} ${review.subject.cid}`
+    const current = reviewsByAttestation.get(key)
+    if (!current || new Date(review.createdAt) > new Date(current.createdAt)) {
+      reviewsByAttestation.set(key, review)
+    }
+  }
+
+  return attestations
+    .filter(attestation =>
+      attestation.subject.uri === entry.uri &&
+      // an author can't witness their own entry
+      attestation.author.did !== entry.author.did
+    )
+    .map((attestation): JournalWitnessView => {
+      const review = reviewsByAttestation.get(`${attestation.uri} ${attestation.cid}`)
+      return {
+        ...attestation,
+        status: review?.status ?? 'pending',
+        reviewUri: review?.uri,
+        isOutdated: attestation.subject.cid !== entry.cid,
+      }
+    })
+    .filter(witness =>
+      isAuthor ||
+      witness.status === 'accepted' ||
+      witness.author.did === viewerDid
+    )
+    .sort((a, b) =>
+      Number(a.isOutdated) - Number(b.isOutdated) ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    )
+}
+
+/**
+ * The screen a journal notification opens. Access requests open the screen
+ * where they're approved, everything else opens the entry.
+ */
+export function getJournalNotificationRoute(notification: JournalNotification): {
+  screen: 'JournalEntryDetail' | 'JournalEntryAccess'
+  params: {uri: string; via?: JournalAccessPath}
+} {
+  const uri = notification.entry?.uri || notification.entryId
+  if (notification.type === 'privacy_access_request') {
+    return {screen: 'JournalEntryAccess', params: {uri}}
+  }
+  return {screen: 'JournalEntryDetail', params: {uri, via: 'notification'}}
+}
+
+/**
+ * Merges journal notifications into the notification feed by time, keeping
+ * the feed's own order. While older feed items are still to be loaded,
+ * journal notifications older than the last loaded item are held back so
+ * they don't show out of order.
+ */
+export function interleaveJournalNotifications<T, J>(
+  items: T[],
+  journalItems: J[],
+  {
+    getTimestamp,
+    hasMore,
+  }: {getTimestamp: (item: T | J) => string; hasMore: boolean}
+): Array<T | J> {
+  const time = (item: T | J) => new Date(getTimestamp(item)).getTime()
+  const pending = [...journalItems].sort((a, b) => time(b) - time(a))
+  
+  const merged: Array<T | J> = []
+  for (const item of items) {
+    while (pending.length > 0 && time(pending[0]) >= time(item)) {
+      merged.push(pending.shift()!)
+    }
+    merged.push(item)
+  }
+  if (!hasMore || items.length === 0) {
+    merged.push(...pending)
+  }
+  return merged
+}
+
 /**
  * Extracts hashtags from journal entry text
  */
@@ -679,7 +1027,7 @@ export function extractHashtags(text: string): string[] {
 /**
  * Estimates read time for a journal entry
  */
-export function estimateJournalReadTime(entry: JournalEntry): number {
+export function estimateJournalReadTime(entry: JournalEntryViewDetailed): number {
   const wordsPerMinute = 200
   const wordCount = entry.text.split(/\s+/).length
   
@@ -0,0 +1,302 @@
+/**
+ * Journal Witness Attestation Hooks
+ *
+ * A witness confirms an entry with a record in their own repo, pinned to the
+ * entry's URI and CID. Attestations are found through the backlink index.
+ * The entry's author accepts or hides them with review records in their own
+ * repo, so anyone can check which attestations the author stands behind.
+ */
+
+import {AtUri} from '@atproto/api'
+import {useMutation, useQuery, useQueryClient} from '@tanstack/react-query'
+
+import {logger} from '#/logger'
+import {useAgent, useSession} from '#/state/session'
+import {journalKeys} from '../journal-keys'
+import {
+  fetchJournalBacklinkAuthors,
+  fetchJournalBacklinkRecords,
+} from './backlinks'
+import {getViewerContext, type JournalCommentSubject} from './comments'
+import {
+  JOURNAL_GC_TIME,
+  JOURNAL_STALE_TIME,
+} from './constants'
+import {
+  type JournalError,
+  type JournalWitnessAttestation,
+  type JournalWitnessReview,
+  type JournalWitnessStatus,
+  type JournalWitnessView,
+} from './types'
+import {
+  canViewJournalEntry,
+  createJournalError,
+  resolveJournalWitnesses,
+} from './utils'
+
+const WITNESS_COLLECTION = 'app.warlog.journalWitness'
+const WITNESS_REVIEW_COLLECTION = 'app.warlog.journalWitnessReview'
+
+export const MAX_JOURNAL_WITNESS_STATEMENT_LENGTH = 1000
+
+/**
+ * An entry that can be witnessed. `cid` is the version the witness confirms.
+ */
+export type JournalWitnessSubject = JournalCommentSubject
+
+type WitnessRecord = Pick<JournalWitnessAttestation, 'subject' | 'statement' | 'createdAt'>
+
+interface JournalWitnessesData {
+  attestations: JournalWitnessAttestation[]
+  reviews: JournalWitnessReview[]
+}
+
+/**
+ * Hook to fetch the witness attestations on an entry that the viewer can see
+ */
+export function useJournalWitnesses(entry: JournalWitnessSubject | undefined) {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useQuery<JournalWitnessesData, JournalError, JournalWitnessView[]>({
+    queryKey: journalKeys.entryWitnesses(entry?.uri || ''),
+    queryFn: async (): Promise<JournalWitnessesData> => {
+      if (!entry || !currentAccount) {
+        throw createJournalError('permission_denied', 'Authentication required')
+      }
+
+      const viewerContext = await getViewerContext(agent, queryClient, entry, currentAccount.did)
+      if (!canViewJournalEntry(entry, viewerContext)) {
+        throw createJournalError('permission_denied', 'You do not have access to this entry.')
+      }
+
+      const records = await fetchJournalBacklinkRecords<WitnessRecord>(
+        agent,
+        entry.uri,
+        WITNESS_COLLECTION,
+        '.subject.uri',
+        {ownRepo: currentAccount.did}
+      )
+      const authors = await fetchJournalBacklinkAuthors(
+        agent,
+        records.map(record => new AtUri(record.uri).host)
+      )
+      const attestations: JournalWitnessAttestation[] = []
+      for (const record of records) {
+        const author = authors.get(new AtUri(record.uri).host)
+        // the witness's account is gone
+        if (!author) continue
+        attestations.push({
+          uri: record.uri,
+          cid: record.cid,
+          author,
+          subject: record.value.subject,
+          statement: record.value.statement,
+          createdAt: record.value.createdAt,
+        })
+      }
+
+      // reviews come straight from the author's repo
+      const reviews: JournalWitnessReview[] = []
+      let reviewCursor: string | undefined
+      do {
+        const {data} = await agent.com.atproto.repo.listRecords({
+          repo: entry.author.did,
+          collection: WITNESS_REVIEW_COLLECTION,
+          limit: 100,
+          cursor: reviewCursor,
+        })
+        for (const record of data.records) {
+          const value = record.value as Omit<JournalWitnessReview, 'uri'>
+          if (value.entry === entry.uri) {
+            reviews.push({...value, uri: record.uri})
+          }
+        }
+        reviewCursor = data.cursor
+      } while (reviewCursor)
+
+      return {attestations, reviews}
+    },
+    // resolved here rather than in queryFn, so an edit to the entry marks
+    // attestations outdated without refetching them
+    select: ({attestations, reviews}) =>
+      entry
+        ? resolveJournalWitnesses(entry, attestations, reviews, currentAccount?.did)
+        : [],
+    enabled: !!entry && !!currentAccount,
+    staleTime: JOURNAL_STALE_TIME.COMMENTS,
+    gcTime: JOURNAL_GC_TIME.COMMENTS,
+  })
+}
+
+/**
+ * Hook to confirm an entry as a witness. The attestation is pinned to the
+ * version of the entry the viewer is looking at.
+ */
+export function useCreateJournalWitness() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<
+    {uri: string; cid: string},
+    JournalError,
+    {entry: JournalWitnessSubject; statement: string}
+  >({
+    mutationFn: async ({entry, statement}) => {
+      if (!currentAccount) {
+        throw createJournalError('permission_denied', 'Authentication required')
+      }
+      if (entry.author.did === currentAccount.did) {
+        throw createJournalError('permission_denied', "You can't witness your own entry.")
+      }
+      const trimmed = statement.trim()
+      if (trimmed.length > MAX_JOURNAL_WITNESS_STATEMENT_LENGTH) {
+        throw createJournalError(
+          'content_too_large',
+          `Statements can be at most ${MAX_JOURNAL_WITNESS_STATEMENT_LENGTH} characters.`
+        )
+      }
+      const viewerContext = await getViewerContext(agent, queryClient, entry, currentAccount.did)
+      if (!canViewJournalEntry(entry, viewerContext)) {
+        throw createJournalError('permission_denied', 'You do not have access to this entry.')
+      }
+
+      const response = await agent.com.atproto.repo.createRecord({
+        repo: currentAccount.did,
+        collection: WITNESS_COLLECTION,
+        record: {
+          $type: WITNESS_COLLECTION,
+          subject: {uri: entry.uri, cid: entry.cid},
+          statement: trimmed,
+          createdAt: new Date().toISOString(),
+        },
+      })
+      logger.info('Journal witness attestation created')
+      return response.data
+    },
+    onSuccess: (_data, {entry}) => {
+      queryClient.invalidateQueries({queryKey: journalKeys.entryWitnesses(entry.uri)})
+    },
+    onError: error => {
+      logger.error('Failed to create journal witness attestation', {error: error.message})
+    },
+  })
+}
+
+/**
+ * Hook for a witness to withdraw one of their attestations
+ */
+export function useDeleteJournalWitness() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<void, JournalError, {entryUri: string; witness: JournalWitnessView}>({
+    mutationFn: async ({witness}) => {
+      if (!currentAccount) {
+        throw createJournalError('permission_denied', 'Authentication required')
+      }
+      const uri = new AtUri(witness.uri)
+      if (uri.host !== currentAccount.did) {
+        throw createJournalError('permission_denied', 'You can only withdraw your own attestations.')
+      }
+      await agent.com.atproto.repo.deleteRecord({
+        repo: currentAccount.did,
+        collection: WITNESS_COLLECTION,
+        rkey: uri.rkey,
+      })
+    },
+    onSettled: (_data, _error, {entryUri}) => {
+      queryClient.invalidateQueries({queryKey: journalKeys.entryWitnesses(entryUri)})
+    },
+    onError: error => {
+      logger.error('Failed to withdraw journal witness attestation', {error: error.message})
+    },
+  })
+}
+
+/**
+ * Hook for an entry's author to accept or hide an attestation, or to undo
+ * that by setting it back to pending. Any earlier review of the attestation
+ * is replaced in the same commit.
+ */
+export function useReviewJournalWitness() {
+  const agent = useAgent()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation<
+    void,
+    JournalError,
+    {entry: JournalWitnessSubject; witness: JournalWitnessView; status: JournalWitnessStatus}
+  >({
+    mutationFn: async ({entry, witness, status}) => {
+      if (!currentAccount || entry.author.did !== currentAccount.did) {
+        throw createJournalError('permission_denied', 'Only the author can review attestations.')
+      }
+      const writes = []
+      if (witness.reviewUri) {
+        writes.push({
+          $type: 'com.atproto.repo.applyWrites#delete' as const,
+          collection: WITNESS_REVIEW_COLLECTION,
+          rkey: new AtUri(witness.reviewUri).rkey,
+        })
+      }
+      if (status !== 'pending') {
+        writes.push({
+          $type: 'com.atproto.repo.applyWrites#create' as const,
+          collection: WITNESS_REVIEW_COLLECTION,
+          value: {
+            $type: WITNESS_REVIEW_COLLECTION,
+            subject: {uri: witness.uri, cid: witness.cid},
+            entry: entry.uri,
+            status,
+            createdAt: new Date().toISOString(),
+          },
+        })
+      }
+      if (writes.length === 0) return
+      await agent.com.atproto.repo.applyWrites({
+        repo: currentAccount.did,
+        writes,
+      })
+    },
+    onMutate: async ({entry, witness, status}) => {
+      const queryKey = journalKeys.entryWitnesses(entry.uri)
+      await queryClient.cancelQueries({queryKey})
+      const previous = queryClient.getQueryData<JournalWitnessesData>(queryKey)
+      if (previous) {
+        const isReview = (review: JournalWitnessReview) =>
+          review.subject.uri === witness.uri && review.subject.cid === witness.cid
+        queryClient.setQueryData<JournalWitnessesData>(queryKey, {
+          ...previous,
+          reviews: [
+            ...previous.reviews.filter(review => !isReview(review)),
+            ...(status === 'pending'
+              ? []
+              : [{
+                  uri: 'pending',
+                  subject: {uri: witness.uri, cid: witness.cid},
+                  entry: entry.uri,
+                  status,
+                  createdAt: new Date().toISOString(),
+                }]),
+          ],
+        })
+      }
+      return {previous}
+    },
+    onError: (error, {entry}, context: any) => {
+      if (context?.previous) {
+        queryClient.setQueryData(journalKeys.entryWitnesses(entry.uri), context.previous)
+      }
+      logger.error('Failed to review journal witness attestation', {error: error.message})
+    },
+    onSettled: (_data, _error, {entry}) => {
+      queryClient.invalidateQueries({queryKey: journalKeys.entryWitnesses(entry.uri)})
+    },
+  })
+}
@@ -4,6 +4,8 @@ import {
   type AppBskyNotificationListNotifications,
 } from '@atproto/api'
 
+import {type JournalNotification} from '#/state/queries/journal/types'
+
 export type NotificationType =
   | StarterPackNotificationType
   | OtherNotificationType
@@ -18,6 +20,15 @@ export type FeedNotification =
       subject?: AppBskyFeedDefs.PostView
     })
 
+/**
+ * A journal notification shown in the notification feed
+ */
+export type JournalFeedNotification = {
+  _reactKey: string
+  type: 'journal'
+  notification: JournalNotification
+}
+
 export interface FeedPage {
   cursor: string | undefined
   seenAt: Date
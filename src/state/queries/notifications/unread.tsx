@@ -10,6 +10,11 @@ import EventEmitter from 'eventemitter3'
 import BroadcastChannel from '#/lib/broadcast'
 import {resetBadgeCount} from '#/lib/notifications/notifications'
 import {logger} from '#/logger'
+import {
+  fetchJournalNotifications,
+  updateJournalNotificationsSeen,
+} from '#/state/queries/journal/notifications'
+import {journalKeys} from '#/state/queries/journal-keys'
 import {useAgent, useSession} from '#/state/session'
 import {useModerationOpts} from '../../preferences/moderation-opts'
 import {truncateAndInvalidate} from '../util'
@@ -112,9 +117,15 @@ export function Provider({children}: React.PropsWithChildren<{}>) {
     return {
       async markAllRead() {
         // update server
-        await agent.updateSeenNotifications(
-          cacheRef.current.syncedAt.toISOString(),
-        )
+        const seenAt = cacheRef.current.syncedAt.toISOString()
+        await Promise.all([
+          agent.updateSeenNotifications(seenAt),
+          updateJournalNotificationsSeen(agent, seenAt).catch(e => {
+            logger.warn('Failed to mark journal notifications read', {
+              message: String(e),
+            })
+          }),
+        ])
 
         // update & broadcast
         setNumUnread('')
@@ -147,19 +158,23 @@ export function Provider({children}: React.PropsWithChildren<{}>) {
           isFetchingRef.current = true
 
           // count
-          const {page, indexedAt: lastIndexed} = await fetchPage({
-            agent,
-            cursor: undefined,
-            limit: 40,
-            queryClient,
-            moderationOpts,
-            reasons: [],
-
-            // only fetch subjects when the page is going to be used
-            // in the notifications query, otherwise skip it
-            fetchAdditionalData: !!invalidate,
-          })
-          const unreadCount = countUnread(page)
+          const [{page, indexedAt: lastIndexed}, journalUnreadCount] =
+            await Promise.all([
+              fetchPage({
+                agent,
+                cursor: undefined,
+                limit: 40,
+                queryClient,
+                moderationOpts,
+                reasons: [],
+
+                // only fetch subjects when the page is going to be used
+                // in the notifications query, otherwise skip it
+                fetchAdditionalData: !!invalidate,
+              }),
+              countUnreadJournal(agent),
+            ])
+          const unreadCount = countUnread(page) + journalUnreadCount
           const unreadCountStr =
             unreadCount >= 30
               ? '30+'
@@ -185,6 +200,10 @@ export function Provider({children}: React.PropsWithChildren<{}>) {
           if (invalidate) {
             truncateAndInvalidate(queryClient, RQKEY_NOTIFS('all'))
             truncateAndInvalidate(queryClient, RQKEY_NOTIFS('mentions'))
+            truncateAndInvalidate(
+              queryClient,
+              journalKeys.notifications(agent.session.did),
+            )
           }
           broadcast.postMessage({event: unreadCountStr})
         } catch (e) {
@@ -236,6 +255,19 @@ function countUnread(page: FeedPage) {
   return num
 }
 
+async function countUnreadJournal(agent: ReturnType<typeof useAgent>) {
+  try {
+    const {notifications} = await fetchJournalNotifications(agent, {limit: 40})
+    return notifications.filter(notification => !notification.isRead).length
+  } catch (e) {
+    // the backlink index being down shouldn't hide regular notifications
+    logger.warn('Failed to check unread journal notifications', {
+      message: String(e),
+    })
+    return 0
+  }
+}
+
 export function invalidateCachedUnreadPage() {
   emitter.emit('invalidate')
 }
@@ -1,10 +1,11 @@
 import {logger} from '#/logger'
+import {isWeb} from '#/platform/detection'
 
 export function useShortenLink() {
   return async (inputUrl: string): Promise<{url: string}> => {
     // For local development, just return the original URL
     // In production, you could implement your own link shortening service
-    if (window.location.hostname === 'localhost') {
+    if (isWeb && window.location.hostname === 'localhost') {
       return {url: inputUrl}
     }
 
@@ -1,3 +1,12 @@
+import {type JournalChainHead} from '#/lib/journal-integrity'
+import {type TriggerWarningPreferences} from '#/lib/journal-trigger-warnings'
+import {
+  type JournalArchiveItem,
+  type JournalDraft,
+  type JournalOutboxOperation,
+  type SealedJournalDraft,
+} from '#/state/queries/journal'
+
 /**
  * Device data that's specific to the device and does not vary based account
  */
@@ -16,4 +25,26 @@ export type Device = {
 export type Account = {
   searchTermHistory?: string[]
   searchAccountHistory?: string[]
+  /**
+   * Autosaved journal composer drafts, keyed by draft ID
+   */
+  journalDrafts?: Record<string, JournalDraft | SealedJournalDraft>
+  /**
+   * Journal writes that haven't reached the PDS yet, oldest first
+   */
+  journalOutbox?: JournalOutboxOperation[]
+  journalLastSync?: string
+  /**
+   * Last link in this account's journal hash chain that this device wrote
+   */
+  journalChainHead?: JournalChainHead
+  /**
+   * Entries moved off the PDS by data retention, sealed with the journal key
+   */
+  journalArchive?: JournalArchiveItem[]
+  /**
+   * Whether journal entries with each content warning are shown, put behind
+   * a warning or hidden
+   */
+  journalTriggerWarningPreferences?: TriggerWarningPreferences
 }
@@ -47,7 +47,7 @@ import {
   type AppBskyFeedGetPostThread,
   AppBskyUnspeccedDefs,
   type BskyAgent,
-  type RichText,
+  RichText,
 } from '@atproto/api'
 import {FontAwesomeIcon} from '@fortawesome/react-native-fontawesome'
 import {msg, plural, Trans} from '@lingui/macro'
@@ -68,10 +68,12 @@ import {useAppState} from '#/lib/hooks/useAppState'
 import {useIsKeyboardVisible} from '#/lib/hooks/useIsKeyboardVisible'
 import {useNonReactiveCallback} from '#/lib/hooks/useNonReactiveCallback'
 import {usePalette} from '#/lib/hooks/usePalette'
+import {usePIIScanner} from '#/lib/hooks/usePIIScanner'
 import {useWebMediaQueries} from '#/lib/hooks/useWebMediaQueries'
 import {mimeToExt} from '#/lib/media/video/util'
 import {logEvent} from '#/lib/statsig/statsig'
 import {cleanError} from '#/lib/strings/errors'
+import {redactPIISpans} from '#/lib/strings/pii'
 import {colors} from '#/lib/styles'
 import {logger} from '#/logger'
 import {isAndroid, isIOS, isNative, isWeb} from '#/platform/detection'
@@ -122,6 +124,11 @@ import * as Toast from '#/view/com/util/Toast'
 import {UserAvatar} from '#/view/com/util/UserAvatar'
 import {atoms as a, native, useTheme, web} from '#/alf'
 import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {useDialogControl} from '#/components/Dialog'
+import {
+  PIIReviewDialog,
+  type PIIReviewItem,
+} from '#/components/dialogs/PIIReview'
 import {CircleInfo_Stroke2_Corner0_Rounded as CircleInfo} from '#/components/icons/CircleInfo'
 import {EmojiArc_Stroke2_Corner0_Rounded as EmojiSmile} from '#/components/icons/Emoji'
 import {TimesLarge_Stroke2_Corner0_Rounded as X} from '#/components/icons/Times'
@@ -215,6 +222,39 @@ export const ComposePost = ({
     [activePost.id],
   )
 
+  // Posts are public, so anything that could identify the author or the
+  // people they know is flagged before publishing
+  const scanForPII = usePIIScanner()
+  const piiReviewControl = useDialogControl()
+  const hasReviewedPII = useRef(false)
+  const piiItems = useMemo(
+    () =>
+      thread.posts.flatMap(post =>
+        scanForPII(post.richtext.text).map(span => ({textId: post.id, span})),
+      ),
+    [thread.posts, scanForPII],
+  )
+  const onRedactPII = useCallback(
+    (items: PIIReviewItem[]) => {
+      for (const post of thread.posts) {
+        const spans = items
+          .filter(item => item.textId === post.id)
+          .map(item => item.span)
+        if (!spans.length) continue
+        const richtext = new RichText({
+          text: redactPIISpans(post.richtext.text, spans),
+        })
+        richtext.detectFacetsWithoutResolution()
+        composerDispatch({
+          type: 'update_post',
+          postId: post.id,
+          postAction: {type: 'update_richtext', richtext},
+        })
+      }
+    },
+    [thread.posts],
+  )
+
   const selectVideo = React.useCallback(
     (postId: string, asset: ImagePickerAsset) => {
       const abortController = new AbortController()
@@ -391,6 +431,11 @@ export const ComposePost = ({
       return
     }
 
+    if (piiItems.length > 0 && !hasReviewedPII.current) {
+      piiReviewControl.open()
+      return
+    }
+
     setError('')
     setIsPublishing(true)
 
@@ -536,8 +581,15 @@ export const ComposePost = ({
     replyTo,
     setLangPrefs,
     queryClient,
+    piiItems,
+    piiReviewControl,
   ])
 
+  const onContinueAfterPIIReview = useCallback(() => {
+    hasReviewedPII.current = true
+    onPressPublish()
+  }, [onPressPublish])
+
   // Preserves the referential identity passed to each post item.
   // Avoids re-rendering all posts on each keystroke.
   const onComposerPostPublish = useNonReactiveCallback(() => {
@@ -727,6 +779,13 @@ export const ComposePost = ({
           confirmButtonCta={_(msg`Discard`)}
           confirmButtonColor="negative"
         />
+
+        <PIIReviewDialog
+          control={piiReviewControl}
+          items={piiItems}
+          onRedact={onRedactPII}
+          onContinue={onContinueAfterPIIReview}
+        />
       </KeyboardAvoidingView>
     </BottomSheetPortalProvider>
   )
@@ -14,13 +14,19 @@ import {msg, Trans} from '@lingui/macro'
 import {useLingui} from '@lingui/react'
 
 import {useWebMediaQueries} from '#/lib/hooks/useWebMediaQueries'
+import {type PickerImage} from '#/lib/media/picker.shared'
 import {type Dimensions} from '#/lib/media/types'
 import {colors, s} from '#/lib/styles'
 import {isNative} from '#/platform/detection'
-import {type ComposerImage, cropImage} from '#/state/gallery'
+import {
+  type ComposerImage,
+  cropImage,
+  replaceWithRedactedImage,
+} from '#/state/gallery'
 import {Text} from '#/view/com/util/text/Text'
 import {useTheme} from '#/alf'
 import * as Dialog from '#/components/Dialog'
+import {ImageRedactionEditor} from '#/components/ImageRedaction'
 import {type PostAction} from '../state/composer'
 import {EditImageDialog} from './EditImageDialog'
 import {ImageAltTextDialog} from './ImageAltTextDialog'
@@ -142,6 +148,7 @@ const GalleryItem = ({
 
   const altTextControl = Dialog.useDialogControl()
   const editControl = Dialog.useDialogControl()
+  const [isRedacting, setIsRedacting] = React.useState(false)
 
   const onImageEdit = () => {
     if (isNative) {
@@ -153,6 +160,15 @@ const GalleryItem = ({
     }
   }
 
+  const onRedactDone = (redacted: PickerImage | undefined) => {
+    setIsRedacting(false)
+    if (redacted) {
+      replaceWithRedactedImage(image, redacted).then(next => {
+        onChange(next)
+      })
+    }
+  }
+
   const onAltTextEdit = () => {
     Keyboard.dismiss()
     altTextControl.open()
@@ -197,6 +213,22 @@ const GalleryItem = ({
           style={styles.imageControl}>
           <FontAwesomeIcon icon="pen" size={12} style={{color: colors.white}} />
         </TouchableOpacity>
+        <TouchableOpacity
+          testID="redactPhotoButton"
+          accessibilityRole="button"
+          accessibilityLabel={_(msg`Redact image`)}
+          accessibilityHint={_(msg`Cover or blur parts of the image`)}
+          onPress={() => {
+            Keyboard.dismiss()
+            setIsRedacting(true)
+          }}
+          style={styles.imageControl}>
+          <FontAwesomeIcon
+            icon={['far', 'eye-slash']}
+            size={12}
+            style={{color: colors.white}}
+          />
+        </TouchableOpacity>
         <TouchableOpacity
           testID="removePhotoButton"
           accessibilityRole="button"
@@ -240,6 +272,12 @@ const GalleryItem = ({
         image={image}
         onChange={onChange}
       />
+
+      <ImageRedactionEditor
+        image={isRedacting ? (image.transformed ?? image.source) : undefined}
+        onCancel={() => setIsRedacting(false)}
+        onDone={onRedactDone}
+      />
     </View>
   )
 }
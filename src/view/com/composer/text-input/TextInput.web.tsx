@@ -287,6 +287,20 @@ export const TextInput = React.forwardRef(function TextInputImpl(
     }
   }, [onEmojiInserted, isActive])
 
+  // The text can also be replaced from outside the editor, such as when
+  // personal information is redacted before publishing
+  React.useEffect(() => {
+    if (!editor || editor.isDestroyed) return
+    if (editorJsonToText(editor.getJSON()) === richtext.text) return
+    editor.commands.setContent({
+      type: 'doc',
+      content: richtext.text.split('\n').map(line => ({
+        type: 'paragraph',
+        content: line ? [{type: 'text', text: line}] : [],
+      })),
+    })
+  }, [editor, richtext])
+
   React.useImperativeHandle(ref, () => ({
     focus: () => {
       editor?.chain().focus()
@@ -0,0 +1,196 @@
+import {memo, useCallback, useMemo} from 'react'
+import {View} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+import {CommonActions, useNavigation} from '@react-navigation/native'
+
+import {usePalette} from '#/lib/hooks/usePalette'
+import {sanitizeDisplayName} from '#/lib/strings/display-names'
+import {sanitizeHandle} from '#/lib/strings/handles'
+import {niceDate} from '#/lib/strings/time'
+import {s} from '#/lib/styles'
+import {isNative} from '#/platform/detection'
+import {getJournalNotificationRoute} from '#/state/queries/journal/utils'
+import {type JournalFeedNotification} from '#/state/queries/notifications/types'
+import {TimeElapsed} from '#/view/com/util/TimeElapsed'
+import {UserAvatar} from '#/view/com/util/UserAvatar'
+import {atoms as a, useTheme} from '#/alf'
+import {ArrowShareRight_Stroke2_Corner2_Rounded as ShareIcon} from '#/components/icons/ArrowShareRight'
+import {At_Stroke2_Corner0_Rounded as AtIcon} from '#/components/icons/At'
+import {Bubble_Stroke2_Corner2_Rounded as BubbleIcon} from '#/components/icons/Bubble'
+import {Heart2_Filled_Stroke2_Corner0_Rounded as HeartIconFilled} from '#/components/icons/Heart2'
+import {Lock_Stroke2_Corner0_Rounded as LockIcon} from '#/components/icons/Lock'
+import {Shield_Stroke2_Corner0_Rounded as ShieldIcon} from '#/components/icons/Shield'
+import {Link} from '#/components/Link'
+import {SubtleWebHover} from '#/components/SubtleWebHover'
+import {Text} from '#/components/Typography'
+
+let JournalNotificationItem = ({
+  item,
+  hideTopBorder,
+}: {
+  item: JournalFeedNotification
+  hideTopBorder?: boolean
+}): React.ReactNode => {
+  const t = useTheme()
+  const pal = usePalette('default')
+  const {_, i18n} = useLingui()
+  const navigation = useNavigation()
+  const {notification} = item
+  const route = useMemo(
+    () => getJournalNotificationRoute(notification),
+    [notification],
+  )
+
+  const onPress = useCallback(() => {
+    if (isNative) {
+      // journal screens only live in the journal tab, so switch to it
+      navigation.dispatch(
+        CommonActions.navigate('JournalTab', {
+          screen: route.screen,
+          params: route.params,
+        }),
+      )
+      return false
+    }
+  }, [navigation, route])
+
+  const actorName = notification.actor
+    ? sanitizeDisplayName(
+        notification.actor.displayName ||
+          sanitizeHandle(notification.actor.handle),
+      )
+    : _(msg`Someone`)
+  const actorText = (
+    <Text style={[a.text_md, a.font_bold, a.leading_snug]}>{actorName}</Text>
+  )
+
+  let a11yLabel = ''
+  let content: React.ReactNode
+  let icon = <BubbleIcon size="xl" style={{color: t.palette.primary_500}} />
+  switch (notification.type) {
+    case 'comment':
+      a11yLabel = _(msg`${actorName} commented on your journal entry`)
+      content = <Trans>{actorText} commented on your journal entry</Trans>
+      break
+    case 'support_reaction':
+      a11yLabel = _(msg`${actorName} sent you support`)
+      content = <Trans>{actorText} sent you support</Trans>
+      icon = <HeartIconFilled size="xl" style={[s.likeColor]} />
+      break
+    case 'share':
+      a11yLabel = _(msg`${actorName} shared your journal entry`)
+      content = <Trans>{actorText} shared your journal entry</Trans>
+      icon = <ShareIcon size="xl" style={{color: t.palette.primary_500}} />
+      break
+    case 'mention':
+      a11yLabel = _(msg`${actorName} mentioned you in a journal entry`)
+      content = <Trans>{actorText} mentioned you in a journal entry</Trans>
+      icon = <AtIcon size="xl" style={{color: t.palette.primary_500}} />
+      break
+    case 'community_response':
+      a11yLabel = _(msg`${actorName} responded to your journal entry`)
+      content = <Trans>{actorText} responded to your journal entry</Trans>
+      break
+    case 'privacy_access_request':
+      a11yLabel = _(msg`${actorName} asked for access to your journal entry`)
+      content = (
+        <Trans>{actorText} asked for access to your journal entry</Trans>
+      )
+      icon = <LockIcon size="xl" style={{color: t.palette.primary_500}} />
+      break
+    case 'moderation_action':
+      a11yLabel = _(msg`A moderator took action on your journal entry`)
+      content = <Trans>A moderator took action on your journal entry</Trans>
+      icon = <ShieldIcon size="xl" style={{color: t.palette.contrast_500}} />
+      break
+    default:
+      return null
+  }
+  const niceTimestamp = niceDate(i18n, notification.createdAt)
+  a11yLabel += ` · ${niceTimestamp}`
+
+  const preview =
+    notification.type === 'comment' ||
+    notification.type === 'community_response'
+      ? notification.comment?.text
+      : notification.message
+
+  return (
+    <Link
+      label={a11yLabel}
+      testID={`journalNotification-${notification.id}`}
+      style={[
+        a.flex_row,
+        a.align_start,
+        {padding: 10},
+        a.pr_lg,
+        t.atoms.border_contrast_low,
+        notification.isRead
+          ? undefined
+          : {
+              backgroundColor: pal.colors.unreadNotifBg,
+              borderColor: pal.colors.unreadNotifBorder,
+            },
+        !hideTopBorder && a.border_t,
+        a.overflow_hidden,
+      ]}
+      to={route}
+      onPress={onPress}>
+      {({hovered}) => (
+        <>
+          <SubtleWebHover hover={hovered} />
+          <View style={[{width: 60, paddingTop: 2}, a.align_end, a.pr_sm]}>
+            {icon}
+          </View>
+          <View style={[a.flex_1]}>
+            {notification.actor && notification.type !== 'moderation_action' ? (
+              <UserAvatar
+                size={35}
+                avatar={notification.actor.avatar}
+                type="user"
+              />
+            ) : null}
+            <Text
+              style={[
+                a.flex_row,
+                a.flex_wrap,
+                {paddingTop: 6},
+                a.self_start,
+                a.text_md,
+                a.leading_snug,
+              ]}
+              accessibilityHint=""
+              accessibilityLabel={a11yLabel}>
+              {content}
+              <TimeElapsed timestamp={notification.createdAt}>
+                {({timeElapsed}) => (
+                  <>
+                    <Text style={[a.text_md, t.atoms.text_contrast_medium]}>
+                      {' '}
+                      &middot;{' '}
+                    </Text>
+                    <Text
+                      style={[a.text_md, t.atoms.text_contrast_medium]}
+                      title={niceTimestamp}>
+                      {timeElapsed}
+                    </Text>
+                  </>
+                )}
+              </TimeElapsed>
+            </Text>
+            {preview ? (
+              <Text
+                numberOfLines={3}
+                style={[a.pt_2xs, a.text_md, t.atoms.text_contrast_medium]}>
+                {preview}
+              </Text>
+            ) : null}
+          </View>
+        </>
+      )}
+    </Link>
+  )
+}
+JournalNotificationItem = memo(JournalNotificationItem)
+export {JournalNotificationItem}
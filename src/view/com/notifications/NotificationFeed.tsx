@@ -13,12 +13,19 @@ import {cleanError} from '#/lib/strings/errors'
 import {s} from '#/lib/styles'
 import {logger} from '#/logger'
 import {useModerationOpts} from '#/state/preferences/moderation-opts'
+import {useJournalNotificationsQuery} from '#/state/queries/journal/notifications'
+import {interleaveJournalNotifications} from '#/state/queries/journal/utils'
 import {useNotificationFeedQuery} from '#/state/queries/notifications/feed'
+import {
+  type FeedNotification,
+  type JournalFeedNotification,
+} from '#/state/queries/notifications/types'
 import {EmptyState} from '#/view/com/util/EmptyState'
 import {ErrorMessage} from '#/view/com/util/error/ErrorMessage'
 import {List, type ListProps, type ListRef} from '#/view/com/util/List'
 import {NotificationFeedLoadingPlaceholder} from '#/view/com/util/LoadingPlaceholder'
 import {LoadMoreRetryBtn} from '#/view/com/util/LoadMoreRetryBtn'
+import {JournalNotificationItem} from './JournalNotificationItem'
 import {NotificationFeedItem} from './NotificationFeedItem'
 
 const EMPTY_FEED_ITEM = {_reactKey: '__empty__'}
@@ -59,7 +66,27 @@ export function NotificationFeed({
     enabled: enabled && !!moderationOpts,
     filter,
   })
-  const isEmpty = !isFetching && !data?.pages[0]?.items.length
+  // journal notifications only show in the "all" tab
+  const {
+    data: journalData,
+    hasNextPage: journalHasNextPage,
+    isFetching: isFetchingJournal,
+    fetchNextPage: fetchNextJournalPage,
+  } = useJournalNotificationsQuery({enabled: enabled && filter === 'all'})
+  const journalItems = React.useMemo(() => {
+    if (filter !== 'all' || !journalData) return []
+    return journalData.pages.flatMap(page =>
+      page.notifications.map(
+        (notification): JournalFeedNotification => ({
+          _reactKey: `journal-${notification.id}`,
+          type: 'journal',
+          notification,
+        }),
+      ),
+    )
+  }, [filter, journalData])
+  const isEmpty =
+    !isFetching && !data?.pages[0]?.items.length && !journalItems.length
 
   const items = React.useMemo(() => {
     let arr: any[] = []
@@ -67,9 +94,19 @@ export function NotificationFeed({
       if (isEmpty) {
         arr = arr.concat([EMPTY_FEED_ITEM])
       } else if (data) {
+        let feedItems: FeedNotification[] = []
         for (const page of data?.pages) {
-          arr = arr.concat(page.items)
+          feedItems = feedItems.concat(page.items)
         }
+        arr = arr.concat(
+          interleaveJournalNotifications(feedItems, journalItems, {
+            getTimestamp: item =>
+              item.type === 'journal'
+                ? item.notification.createdAt
+                : item.notification.indexedAt,
+            hasMore: !!hasNextPage,
+          }),
+        )
       }
       if (isError && !isEmpty) {
         arr = arr.concat([LOAD_MORE_ERROR_ITEM])
@@ -78,7 +115,7 @@ export function NotificationFeed({
       arr.push(LOADING_ITEM)
     }
     return arr
-  }, [isFetched, isError, isEmpty, data])
+  }, [isFetched, isError, isEmpty, data, journalItems, hasNextPage])
 
   const onRefresh = React.useCallback(async () => {
     try {
@@ -94,14 +131,26 @@ export function NotificationFeed({
   }, [refreshNotifications, setIsPTRing])
 
   const onEndReached = React.useCallback(async () => {
-    if (isFetching || !hasNextPage || isError) return
+    if (isFetching || isFetchingJournal || isError) return
 
     try {
-      await fetchNextPage()
+      if (hasNextPage) {
+        await fetchNextPage()
+      } else if (journalHasNextPage) {
+        await fetchNextJournalPage()
+      }
     } catch (err) {
       logger.error('Failed to load more notifications', {message: err})
     }
-  }, [isFetching, hasNextPage, isError, fetchNextPage])
+  }, [
+    isFetching,
+    isFetchingJournal,
+    hasNextPage,
+    journalHasNextPage,
+    isError,
+    fetchNextPage,
+    fetchNextJournalPage,
+  ])
 
   const onPressRetryLoadMore = React.useCallback(() => {
     fetchNextPage()
@@ -128,6 +177,10 @@ export function NotificationFeed({
         )
       } else if (item === LOADING_ITEM) {
         return <NotificationFeedLoadingPlaceholder />
+      } else if (item.type === 'journal') {
+        return (
+          <JournalNotificationItem item={item} hideTopBorder={index === 0} />
+        )
       }
       return (
         <NotificationFeedItem
@@ -13,6 +13,7 @@ import {useNotificationsRegistration} from '#/lib/notifications/notifications'
 import {isStateAtTabRoot} from '#/lib/routes/helpers'
 import {isAndroid, isIOS} from '#/platform/detection'
 import {useDialogStateControlContext} from '#/state/dialogs'
+import {useJournalOutboxSync} from '#/state/queries/journal-outbox'
 import {useSession} from '#/state/session'
 import {
   useIsDrawerOpen,
@@ -60,6 +61,7 @@ function ShellInner() {
 
   useNotificationsRegistration()
   useNotificationsHandler()
+  useJournalOutboxSync()
 
   useEffect(() => {
     if (isAndroid) {
@@ -10,6 +10,7 @@ import {useIntentHandler} from '#/lib/hooks/useIntentHandler'
 import {useWebMediaQueries} from '#/lib/hooks/useWebMediaQueries'
 import {type NavigationProp} from '#/lib/routes/types'
 import {colors} from '#/lib/styles'
+import {useJournalOutboxSync} from '#/state/queries/journal-outbox'
 import {useIsDrawerOpen, useSetDrawerOpen} from '#/state/shell'
 import {useComposerKeyboardShortcut} from '#/state/shell/composer/useComposerKeyboardShortcut'
 import {useCloseAllActiveElements} from '#/state/util'
@@ -52,6 +53,7 @@ function ShellInner() {
 
   useComposerKeyboardShortcut()
   useIntentHandler()
+  useJournalOutboxSync()
 
   useEffect(() => {
     const unsubscribe = navigator.addListener('state', () => {